@@ -14,16 +14,46 @@ import type * as auth from "../auth.js";
 import type * as chat from "../chat.js";
 import type * as http from "../http.js";
 import type * as items from "../items.js";
+import type * as lib_combatEngine from "../lib/combatEngine.js";
+import type * as lib_containers from "../lib/containers.js";
+import type * as lib_crafting from "../lib/crafting.js";
+import type * as lib_equipment from "../lib/equipment.js";
+import type * as lib_interaction from "../lib/interaction.js";
+import type * as lib_inventory from "../lib/inventory.js";
+import type * as lib_locks from "../lib/locks.js";
+import type * as lib_loot from "../lib/loot.js";
+import type * as lib_mapChunks from "../lib/mapChunks.js";
+import type * as lib_mapEdits from "../lib/mapEdits.js";
+import type * as lib_mapGenerator from "../lib/mapGenerator.js";
+import type * as lib_mapLint from "../lib/mapLint.js";
+import type * as lib_mapRevisions from "../lib/mapRevisions.js";
+import type * as lib_movement from "../lib/movement.js";
+import type * as lib_pathfinding from "../lib/pathfinding.js";
+import type * as lib_renameMap from "../lib/renameMap.js";
 import type * as lib_requireAdmin from "../lib/requireAdmin.js";
 import type * as lib_requireAdminKey from "../lib/requireAdminKey.js";
 import type * as lib_requireMapEditor from "../lib/requireMapEditor.js";
 import type * as lib_requireSuperuser from "../lib/requireSuperuser.js";
+import type * as lib_shops from "../lib/shops.js";
+import type * as lib_skills from "../lib/skills.js";
+import type * as lib_statusEffects from "../lib/statusEffects.js";
+import type * as lib_tiled from "../lib/tiled.js";
+import type * as lib_trades from "../lib/trades.js";
+import type * as mapEdits from "../mapEdits.js";
 import type * as mapObjects from "../mapObjects.js";
+import type * as mapRevisions from "../mapRevisions.js";
 import type * as maps from "../maps.js";
 import type * as mechanics_combat from "../mechanics/combat.js";
+import type * as mechanics_containers from "../mechanics/containers.js";
+import type * as mechanics_crafting from "../mechanics/crafting.js";
 import type * as mechanics_economy from "../mechanics/economy.js";
+import type * as mechanics_equipment from "../mechanics/equipment.js";
 import type * as mechanics_inventory from "../mechanics/inventory.js";
+import type * as mechanics_locks from "../mechanics/locks.js";
 import type * as mechanics_loot from "../mechanics/loot.js";
+import type * as mechanics_shops from "../mechanics/shops.js";
+import type * as mechanics_statusEffects from "../mechanics/statusEffects.js";
+import type * as mechanics_trades from "../mechanics/trades.js";
 import type * as migrations from "../migrations.js";
 import type * as npc_braintrust from "../npc/braintrust.js";
 import type * as npc_chat from "../npc/chat.js";
@@ -38,6 +68,8 @@ import type * as players from "../players.js";
 import type * as presence from "../presence.js";
 import type * as profiles from "../profiles.js";
 import type * as quests from "../quests.js";
+import type * as recipes from "../recipes.js";
+import type * as skills from "../skills.js";
 import type * as spriteDefinitions from "../spriteDefinitions.js";
 import type * as spriteSheets from "../spriteSheets.js";
 import type * as storage from "../storage.js";
@@ -47,6 +79,7 @@ import type * as story_lore from "../story/lore.js";
 import type * as story_quests from "../story/quests.js";
 import type * as story_storyAi from "../story/storyAi.js";
 import type * as superuser from "../superuser.js";
+import type * as tilesetTerrains from "../tilesetTerrains.js";
 import type * as worldItems from "../worldItems.js";
 
 import type {
@@ -62,16 +95,46 @@ declare const fullApi: ApiFromModules<{
   chat: typeof chat;
   http: typeof http;
   items: typeof items;
+  "lib/combatEngine": typeof lib_combatEngine;
+  "lib/containers": typeof lib_containers;
+  "lib/crafting": typeof lib_crafting;
+  "lib/equipment": typeof lib_equipment;
+  "lib/interaction": typeof lib_interaction;
+  "lib/inventory": typeof lib_inventory;
+  "lib/locks": typeof lib_locks;
+  "lib/loot": typeof lib_loot;
+  "lib/mapChunks": typeof lib_mapChunks;
+  "lib/mapEdits": typeof lib_mapEdits;
+  "lib/mapGenerator": typeof lib_mapGenerator;
+  "lib/mapLint": typeof lib_mapLint;
+  "lib/mapRevisions": typeof lib_mapRevisions;
+  "lib/movement": typeof lib_movement;
+  "lib/pathfinding": typeof lib_pathfinding;
+  "lib/renameMap": typeof lib_renameMap;
   "lib/requireAdmin": typeof lib_requireAdmin;
   "lib/requireAdminKey": typeof lib_requireAdminKey;
   "lib/requireMapEditor": typeof lib_requireMapEditor;
   "lib/requireSuperuser": typeof lib_requireSuperuser;
+  "lib/shops": typeof lib_shops;
+  "lib/skills": typeof lib_skills;
+  "lib/statusEffects": typeof lib_statusEffects;
+  "lib/tiled": typeof lib_tiled;
+  "lib/trades": typeof lib_trades;
+  mapEdits: typeof mapEdits;
   mapObjects: typeof mapObjects;
+  mapRevisions: typeof mapRevisions;
   maps: typeof maps;
   "mechanics/combat": typeof mechanics_combat;
+  "mechanics/containers": typeof mechanics_containers;
+  "mechanics/crafting": typeof mechanics_crafting;
   "mechanics/economy": typeof mechanics_economy;
+  "mechanics/equipment": typeof mechanics_equipment;
   "mechanics/inventory": typeof mechanics_inventory;
+  "mechanics/locks": typeof mechanics_locks;
   "mechanics/loot": typeof mechanics_loot;
+  "mechanics/shops": typeof mechanics_shops;
+  "mechanics/statusEffects": typeof mechanics_statusEffects;
+  "mechanics/trades": typeof mechanics_trades;
   migrations: typeof migrations;
   "npc/braintrust": typeof npc_braintrust;
   "npc/chat": typeof npc_chat;
@@ -86,6 +149,8 @@ declare const fullApi: ApiFromModules<{
   presence: typeof presence;
   profiles: typeof profiles;
   quests: typeof quests;
+  recipes: typeof recipes;
+  skills: typeof skills;
   spriteDefinitions: typeof spriteDefinitions;
   spriteSheets: typeof spriteSheets;
   storage: typeof storage;
@@ -95,6 +160,7 @@ declare const fullApi: ApiFromModules<{
   "story/quests": typeof story_quests;
   "story/storyAi": typeof story_storyAi;
   superuser: typeof superuser;
+  tilesetTerrains: typeof tilesetTerrains;
   worldItems: typeof worldItems;
 }>;
 
@@ -7,7 +7,18 @@ import { v } from "convex/values";
 import { mutation, query, internalMutation } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { requireAdminKey } from "./lib/requireAdminKey";
-import { DEFAULT_START_MAP } from "./maps";
+import { DEFAULT_START_MAP, generatorValidator, tiledFormatValidator } from "./maps";
+import { parseTiled, tiledToMap } from "./lib/tiled";
+import { generateMap as generateMapFields } from "./lib/mapGenerator";
+import {
+  MAP_CHUNK_SIZE,
+  deleteMapChunks,
+  hydrateMapGrids,
+  saveMapGrids,
+  stripLayerTiles,
+} from "./lib/mapChunks";
+import { deleteMapRevisions, recordMapRevision } from "./lib/mapRevisions";
+import { broadcastMapReload, deleteMapEditState } from "./lib/mapEdits";
 
 const RESTORE_ALLOWED_TABLES = new Set([
   "maps",
@@ -105,6 +116,9 @@ export const clearMaps = mutation({
         .collect();
       for (const m of messages) await ctx.db.delete(m._id);
 
+      await deleteMapChunks(ctx, map._id);
+      await deleteMapRevisions(ctx, map._id);
+      await deleteMapEditState(ctx, map._id);
       await ctx.db.delete(map._id);
       deleted++;
     }
@@ -209,6 +223,29 @@ export const resetProfileMap = mutation({
   },
 });
 
+/** Set (or with `value: false`, clear) a story flag on a profile by name — flags open locked doors and portals */
+export const setStoryFlag = mutation({
+  args: {
+    adminKey: v.string(),
+    name: v.string(),
+    flag: v.string(),
+    value: v.optional(v.boolean()),
+  },
+  handler: async (ctx, { adminKey, name, flag, value }) => {
+    requireAdminKey(adminKey);
+    const profile = await ctx.db
+      .query("profiles")
+      .withIndex("by_name", (q) => q.eq("name", name))
+      .first();
+    if (!profile) throw new Error(`Profile "${name}" not found`);
+
+    const flags = (profile.storyFlags ?? []).filter((f) => f !== flag);
+    if (value !== false) flags.push(flag);
+    await ctx.db.patch(profile._id, { storyFlags: flags });
+    return { name: profile.name, storyFlags: flags };
+  },
+});
+
 /** Reset ALL profiles to the default map */
 export const resetAllProfileMaps = mutation({
   args: {
@@ -230,6 +267,56 @@ export const resetAllProfileMaps = mutation({
   },
 });
 
+/** List profiles flagged for suspicious activity (e.g. repeated impossible moves) */
+export const listPlayerFlags = query({
+  args: { adminKey: v.string(), all: v.optional(v.boolean()) },
+  handler: async (ctx, { adminKey, all }) => {
+    requireAdminKey(adminKey);
+    const flags = all
+      ? await ctx.db.query("playerFlags").collect()
+      : await ctx.db
+          .query("playerFlags")
+          .withIndex("by_flagged", (q) => q.eq("flagged", true))
+          .collect();
+    const out = [];
+    for (const f of flags) {
+      const profile = await ctx.db.get(f.profileId);
+      out.push({
+        profileName: profile?.name ?? "(deleted)",
+        kind: f.kind,
+        flagged: f.flagged,
+        count: f.count,
+        lastReason: f.lastReason,
+        lastMessage: f.lastMessage,
+        lastMapName: f.lastMapName,
+        lastX: Math.round(f.lastX),
+        lastY: Math.round(f.lastY),
+        lastAt: new Date(f.lastAt).toISOString(),
+      });
+    }
+    return out.sort((a, b) => b.count - a.count);
+  },
+});
+
+/** Clear a profile's flags once reviewed (by profile name) */
+export const clearPlayerFlags = mutation({
+  args: { adminKey: v.string(), name: v.string() },
+  handler: async (ctx, { adminKey, name }) => {
+    requireAdminKey(adminKey);
+    const profile = await ctx.db
+      .query("profiles")
+      .withIndex("by_name", (q) => q.eq("name", name))
+      .first();
+    if (!profile) throw new Error(`Profile "${name}" not found`);
+    const flags = await ctx.db
+      .query("playerFlags")
+      .withIndex("by_profile_kind", (q) => q.eq("profileId", profile._id))
+      .collect();
+    for (const f of flags) await ctx.db.delete(f._id);
+    return { name, cleared: flags.length };
+  },
+});
+
 /** Dump all world state for debugging / backup */
 export const dumpAll = query({
   args: {
@@ -252,18 +339,31 @@ export const dumpAll = query({
     const quests = await ctx.db.query("quests").collect();
     const lore = await ctx.db.query("lore").collect();
 
-    // Optionally strip bulky tile data from maps
-    const mapsOut = maps.map((m) => {
-      if (includeTiles) return m;
-      return {
+    // Optionally strip bulky tile data from maps. With tiles, chunked maps
+    // are inlined so the dump restores without the mapChunks table.
+    const mapsOut = [];
+    for (const m of maps) {
+      if (includeTiles) {
+        mapsOut.push(await hydrateMapGrids(ctx, m));
+        continue;
+      }
+      if (m.chunkSize) {
+        mapsOut.push({
+          ...m,
+          layers: m.layers.map((l) => ({ ...l, tiles: "<chunked>" })),
+          collisionMask: "<chunked>",
+        });
+        continue;
+      }
+      mapsOut.push({
         ...m,
         layers: m.layers.map((l) => ({
           ...l,
           tiles: `<${l.tiles.length} chars>`, // placeholder
         })),
         collisionMask: `<${m.collisionMask.length} chars>`,
-      };
-    });
+      });
+    }
 
     return {
       _exportedAt: new Date().toISOString(),
@@ -816,6 +916,113 @@ export const adminUpdateMap = mutation({
   },
 });
 
+/**
+ * Admin: import a Tiled .tmj/.tmx map. CLI-only (scripts/tiled-map.mjs).
+ * Existing maps are only replaced when `overwrite` is set; their ownership,
+ * editors, status and type are kept.
+ */
+export const importTiledMap = mutation({
+  args: {
+    adminKey: v.string(),
+    name: v.string(),
+    format: tiledFormatValidator,
+    source: v.string(),
+    overwrite: v.optional(v.boolean()),
+  },
+  handler: async (ctx, { adminKey, name, format, source, overwrite }) => {
+    requireAdminKey(adminKey);
+
+    const { map, warnings } = tiledToMap(parseTiled(format, source));
+    const existing = await ctx.db
+      .query("maps")
+      .withIndex("by_name", (q) => q.eq("name", name))
+      .first();
+
+    if (existing) {
+      if (!overwrite) throw new Error(`Map "${name}" already exists (pass overwrite to replace it)`);
+      const { status: _s, mapType: _t, ...fields } = map;
+      await ctx.db.patch(existing._id, {
+        ...fields,
+        layers: stripLayerTiles(map.layers),
+        collisionMask: "",
+        chunkSize: MAP_CHUNK_SIZE,
+        updatedAt: Date.now(),
+      });
+      await saveMapGrids(ctx, existing._id, map.width, map.height, map.layers, map.collisionMask);
+      await recordMapRevision(ctx, existing._id, undefined, "Re-imported from Tiled");
+      await broadcastMapReload(ctx, existing._id);
+      return { ok: true, mapName: name, created: false, warnings };
+    }
+
+    const mapId = await ctx.db.insert("maps", {
+      ...map,
+      layers: stripLayerTiles(map.layers),
+      collisionMask: "",
+      chunkSize: MAP_CHUNK_SIZE,
+      name,
+      status: map.status ?? "draft",
+      mapType: map.mapType ?? "private",
+      updatedAt: Date.now(),
+    });
+    await saveMapGrids(ctx, mapId, map.width, map.height, map.layers, map.collisionMask);
+    await recordMapRevision(ctx, mapId, undefined, "Imported from Tiled");
+    return { ok: true, mapName: name, created: true, warnings };
+  },
+});
+
+/**
+ * Admin: create (or with `overwrite`, regenerate) a procedurally generated
+ * map. CLI-only (scripts/generate-map.mjs). Regenerating keeps ownership,
+ * editors, status and type, and records a revision so the result can be
+ * diffed against the previous one.
+ */
+export const generateMap = mutation({
+  args: {
+    adminKey: v.string(),
+    name: v.string(),
+    generator: generatorValidator,
+    overwrite: v.optional(v.boolean()),
+  },
+  handler: async (ctx, { adminKey, name, generator, overwrite }) => {
+    requireAdminKey(adminKey);
+
+    const { map, summary } = generateMapFields({ ...generator, mapName: name });
+    const existing = await ctx.db
+      .query("maps")
+      .withIndex("by_name", (q) => q.eq("name", name))
+      .first();
+
+    if (existing) {
+      if (!overwrite) throw new Error(`Map "${name}" already exists (pass overwrite to replace it)`);
+      await ctx.db.patch(existing._id, {
+        ...map,
+        layers: stripLayerTiles(map.layers),
+        collisionMask: "",
+        chunkSize: MAP_CHUNK_SIZE,
+        updatedAt: Date.now(),
+      });
+      await saveMapGrids(ctx, existing._id, map.width, map.height, map.layers, map.collisionMask);
+      await recordMapRevision(ctx, existing._id, undefined, `Regenerated: ${summary}`);
+      await broadcastMapReload(ctx, existing._id);
+      return { ok: true, mapName: name, created: false, summary };
+    }
+
+    const mapId = await ctx.db.insert("maps", {
+      ...map,
+      layers: stripLayerTiles(map.layers),
+      collisionMask: "",
+      chunkSize: MAP_CHUNK_SIZE,
+      name,
+      status: "draft",
+      mapType: "private",
+      updatedAt: Date.now(),
+    });
+    await saveMapGrids(ctx, mapId, map.width, map.height, map.layers, map.collisionMask);
+    await recordMapRevision(ctx, mapId, undefined, `Generated: ${summary}`);
+    return { ok: true, mapName: name, created: true, summary };
+  },
+});
+
 // ---------------------------------------------------------------------------
 // One-shot migration: rewrite spriteSheetUrl paths in spriteDefinitions
 // e.g. /assets/sprites/villager2.json → /assets/characters/villager2.json
@@ -0,0 +1,227 @@
+/**
+ * Turn-based battle rules: turn order, damage, defending, items, skills and
+ * fleeing.
+ *
+ * Server twin of src/mechanics/CombatEngine.ts (which BattleSplash uses to
+ * preview turn order and flee odds). Pure functions over combatants;
+ * convex/mechanics/combat.ts owns the encounter rows, picks enemy moves and
+ * writes each result to the combat log.
+ */
+
+export const PLAYER_COMBATANT_ID = "player";
+
+/** Defending takes this fraction of incoming damage until the defender acts again */
+const DEFEND_DAMAGE_FACTOR = 0.5;
+/** Flee odds: base chance, shifted by this much per point of SPD over the fastest enemy */
+const FLEE_BASE_CHANCE = 0.5;
+const FLEE_CHANCE_PER_SPD = 0.1;
+const FLEE_MIN_CHANCE = 0.2;
+const FLEE_MAX_CHANCE = 0.9;
+
+export interface BattleStats {
+  hp: number;
+  maxHp: number;
+  atk: number;
+  def: number;
+  spd: number;
+}
+
+export interface BattleCombatant {
+  id: string;
+  name: string;
+  stats: BattleStats;
+  isPlayer: boolean;
+  defending?: boolean;
+}
+
+/** The parts of a skill definition that decide what it does */
+export interface SkillEffect {
+  name: string;
+  displayName: string;
+  kind: "damage" | "heal";
+  power: number;
+  atkScale: number;
+}
+
+export type BattleAction =
+  | { type: "attack"; actorId: string; targetId?: string }
+  | { type: "defend"; actorId: string }
+  | { type: "item"; actorId: string; targetId?: string; itemName: string; itemDisplayName: string; hpDelta: number }
+  | { type: "skill"; actorId: string; targetIds: string[]; skill: SkillEffect }
+  | { type: "flee"; actorId: string; fleeChance: number };
+
+export interface TurnResult {
+  action: BattleAction;
+  damage?: number;
+  healing?: number;
+  fled?: boolean;
+  message: string;
+  actorHp: number;
+  targetHp?: number;
+}
+
+export function enemyCombatantId(index: number): string {
+  return `enemy:${index}`;
+}
+
+/** Living combatants in acting order: fastest first, the player winning ties */
+export function turnOrder(combatants: BattleCombatant[]): string[] {
+  return combatants
+    .map((c, index) => ({ c, index }))
+    .filter(({ c }) => c.stats.hp > 0)
+    .sort((a, b) =>
+      b.c.stats.spd - a.c.stats.spd ||
+      Number(b.c.isPlayer) - Number(a.c.isPlayer) ||
+      a.index - b.index)
+    .map(({ c }) => c.id);
+}
+
+/** Damage dealt by `atk` against `def` (StatBlock.calculateDamage, halved when defending) */
+export function calculateDamage(atk: number, def: number, variance = 0.2, defending = false): number {
+  const base = Math.max(1, atk - def / 2);
+  const varianceFactor = 1 + (Math.random() * 2 - 1) * variance;
+  const damage = Math.max(1, Math.floor(base * varianceFactor));
+  return defending ? Math.max(1, Math.floor(damage * DEFEND_DAMAGE_FACTOR)) : damage;
+}
+
+/**
+ * A skill's potency for a caster with `atk`: the ATK a damage skill strikes
+ * with (through calculateDamage), or the HP a heal skill restores.
+ */
+export function skillPotency(atk: number, skill: Pick<SkillEffect, "power" | "atkScale">): number {
+  return Math.max(0, Math.round(skill.power + atk * skill.atkScale));
+}
+
+/** Chance (0–1) that fleeing succeeds, from the player's SPD against the fastest enemy */
+export function fleeChance(playerSpd: number, enemySpds: number[]): number {
+  const fastest = enemySpds.length > 0 ? Math.max(...enemySpds) : 0;
+  const chance = FLEE_BASE_CHANCE + (playerSpd - fastest) * FLEE_CHANCE_PER_SPD;
+  return Math.max(FLEE_MIN_CHANCE, Math.min(FLEE_MAX_CHANCE, chance));
+}
+
+/**
+ * Resolve one combatant's turn, mutating the combatants' HP and defending
+ * flags. A combatant's guard drops when its own turn comes round again.
+ */
+export function resolveTurn(
+  action: BattleAction,
+  combatants: Map<string, BattleCombatant>,
+  variance = 0.2,
+): TurnResult {
+  const actor = combatants.get(action.actorId);
+  if (!actor) return { action, message: "Unknown actor", actorHp: 0 };
+  actor.defending = false;
+
+  switch (action.type) {
+    case "attack": {
+      const target = action.targetId ? combatants.get(action.targetId) : undefined;
+      if (!target || target.stats.hp <= 0) {
+        return { action, message: `${actor.name} attacks nothing!`, actorHp: actor.stats.hp };
+      }
+      const damage = calculateDamage(actor.stats.atk, target.stats.def, variance, target.defending);
+      target.stats.hp = Math.max(0, target.stats.hp - damage);
+      return {
+        action,
+        damage,
+        message: target.stats.hp > 0
+          ? `${actor.name} attacks ${target.name} for ${damage} damage!`
+          : `${actor.name} attacks ${target.name} for ${damage} damage — ${target.name} is defeated!`,
+        actorHp: actor.stats.hp,
+        targetHp: target.stats.hp,
+      };
+    }
+
+    case "defend": {
+      actor.defending = true;
+      return { action, message: `${actor.name} braces for the next blow.`, actorHp: actor.stats.hp };
+    }
+
+    case "item": {
+      if (action.hpDelta >= 0) {
+        const before = actor.stats.hp;
+        actor.stats.hp = Math.min(actor.stats.maxHp, actor.stats.hp + action.hpDelta);
+        const healing = actor.stats.hp - before;
+        return {
+          action,
+          healing,
+          message: `${actor.name} uses ${action.itemDisplayName} and recovers ${healing} HP.`,
+          actorHp: actor.stats.hp,
+        };
+      }
+      // Harmful items (poisons) are thrown at the target
+      const target = action.targetId ? combatants.get(action.targetId) : undefined;
+      if (!target || target.stats.hp <= 0) {
+        return { action, message: `${actor.name} throws ${action.itemDisplayName} at nothing!`, actorHp: actor.stats.hp };
+      }
+      const damage = -action.hpDelta;
+      target.stats.hp = Math.max(0, target.stats.hp - damage);
+      return {
+        action,
+        damage,
+        message: `${actor.name} throws ${action.itemDisplayName} at ${target.name} for ${damage} damage!`,
+        actorHp: actor.stats.hp,
+        targetHp: target.stats.hp,
+      };
+    }
+
+    case "skill": {
+      const { skill } = action;
+      const potency = skillPotency(actor.stats.atk, skill);
+      if (skill.kind === "heal") {
+        const before = actor.stats.hp;
+        actor.stats.hp = Math.min(actor.stats.maxHp, actor.stats.hp + potency);
+        const healing = actor.stats.hp - before;
+        return {
+          action,
+          healing,
+          message: `${actor.name} casts ${skill.displayName} and recovers ${healing} HP.`,
+          actorHp: actor.stats.hp,
+        };
+      }
+      const targets = action.targetIds
+        .map((id) => combatants.get(id))
+        .filter((t): t is BattleCombatant => t != null && t.stats.hp > 0);
+      if (targets.length === 0) {
+        return { action, message: `${actor.name} casts ${skill.displayName} at nothing!`, actorHp: actor.stats.hp };
+      }
+      let damage = 0;
+      const hits: string[] = [];
+      for (const target of targets) {
+        const dealt = calculateDamage(potency, target.stats.def, variance, target.defending);
+        target.stats.hp = Math.max(0, target.stats.hp - dealt);
+        damage += dealt;
+        hits.push(target.stats.hp > 0
+          ? `${target.name} takes ${dealt}`
+          : `${target.name} takes ${dealt} and is defeated`);
+      }
+      return {
+        action,
+        damage,
+        message: `${actor.name} casts ${skill.displayName} — ${hits.join(", ")}!`,
+        actorHp: actor.stats.hp,
+        targetHp: targets[0].stats.hp,
+      };
+    }
+
+    case "flee": {
+      const fled = Math.random() < action.fleeChance;
+      return {
+        action,
+        fled,
+        message: fled ? `${actor.name} fled successfully!` : `${actor.name} failed to flee!`,
+        actorHp: actor.stats.hp,
+      };
+    }
+  }
+}
+
+/** Whether the battle is over, and who won */
+export function isCombatOver(combatants: Iterable<BattleCombatant>): {
+  over: boolean;
+  winner?: "player" | "enemy";
+} {
+  const all = Array.from(combatants);
+  if (all.filter((c) => c.isPlayer).every((c) => c.stats.hp <= 0)) return { over: true, winner: "enemy" };
+  if (all.filter((c) => !c.isPlayer).every((c) => c.stats.hp <= 0)) return { over: true, winner: "player" };
+  return { over: false };
+}
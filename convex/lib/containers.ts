@@ -0,0 +1,67 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import { lootTableValidator } from "./loot";
+
+/**
+ * Containers (chests, barrels, bookshelves): map objects whose sprite is a
+ * toggleable with `container` set. What one holds is configured per placed
+ * object (`mapObjects.container`, filled in the map editor); what's left in
+ * it lives in `containerStashes` (convex/mechanics/containers.ts). Pure —
+ * no database access.
+ */
+
+export const containerValidator = v.object({
+  items: v.optional(v.array(v.object({  // fixed contents
+    itemDefName: v.string(),
+    quantity: v.number(),
+  }))),
+  lootTable: v.optional(lootTableValidator), // rolled on top of `items` at each fill
+  refillMs: v.optional(v.number()),     // refill this long after the last fill (unset = filled once)
+  perPlayer: v.optional(v.boolean()),   // everyone gets their own contents (default: shared)
+});
+
+export type ContainerConfig = Infer<typeof containerValidator>;
+export type StashLine = { itemDefName: string; quantity: number };
+
+/** Most of one item a container's fixed contents may hold */
+export const MAX_CONTAINER_QUANTITY = 99;
+/** Shortest refill timer a container may be set to */
+export const MIN_REFILL_MS = 5 * 60_000;
+
+/** When a stash filled at `filledAt` is due to refill, or null if it never does */
+export function refillsAt(config: ContainerConfig, filledAt: number): number | null {
+  return config.refillMs && config.refillMs > 0 ? filledAt + Math.max(MIN_REFILL_MS, config.refillMs) : null;
+}
+
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (!value || typeof value !== "object") return value;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return Object.fromEntries(entries.map(([k, v]) => [k, canonical(v)]));
+}
+
+/** Whether two container settings hold the same (key order aside) */
+export function sameContainer(a: ContainerConfig | undefined, b: ContainerConfig | undefined): boolean {
+  return JSON.stringify(canonical(a ?? null)) === JSON.stringify(canonical(b ?? null));
+}
+
+/** Lines of the same item merged, empty ones dropped */
+export function mergeLines(lines: StashLine[]): StashLine[] {
+  const merged = new Map<string, number>();
+  for (const line of lines) {
+    const quantity = Math.floor(line.quantity);
+    if (quantity > 0) merged.set(line.itemDefName, (merged.get(line.itemDefName) ?? 0) + quantity);
+  }
+  return Array.from(merged, ([itemDefName, quantity]) => ({ itemDefName, quantity }));
+}
+
+/** The stash with `quantity` of an item gone (never below zero) */
+export function withdraw(items: StashLine[], itemDefName: string, quantity: number): StashLine[] {
+  return mergeLines(
+    items.map((line) =>
+      line.itemDefName === itemDefName ? { ...line, quantity: line.quantity - quantity } : line,
+    ),
+  );
+}
@@ -0,0 +1,70 @@
+import type { QueryCtx } from "../_generated/server";
+import type { Doc } from "../_generated/dataModel";
+import { countItem, type InventorySlot } from "./inventory";
+
+/**
+ * Recipe bookkeeping shared by the crafting API (convex/mechanics/crafting.ts)
+ * and the recipe definitions (convex/recipes.ts): which recipes a player
+ * knows and what stands between them and a craft.
+ *
+ * A recipe is known to everyone unless it has a `learnItem`, in which case
+ * reading that item adds it to `profiles.recipes`.
+ */
+
+export type RecipeLine = Doc<"recipes">["inputs"][number];
+
+/** Known to all, or learned from its item */
+export function knowsRecipe(profile: Doc<"profiles">, recipe: Doc<"recipes">): boolean {
+  if (!recipe.learnItem) return true;
+  return (profile.recipes ?? []).includes(recipe.name);
+}
+
+export function craftTimeOf(recipe: Doc<"recipes">): number {
+  return Math.max(0, recipe.craftTimeMs ?? 0);
+}
+
+/** Why the player's level keeps them from a recipe, or null */
+export function levelShortfall(profile: Doc<"profiles">, recipe: Doc<"recipes">): string | null {
+  const level = profile.stats.level ?? 1;
+  if (recipe.levelRequirement == null || level >= recipe.levelRequirement) return null;
+  return `Requires level ${recipe.levelRequirement}.`;
+}
+
+/** Inputs the slots don't cover, with how many more of each are needed */
+export function missingInputs(slots: InventorySlot[], recipe: Doc<"recipes">): RecipeLine[] {
+  const missing: RecipeLine[] = [];
+  for (const input of recipe.inputs) {
+    const short = input.quantity - countItem(slots, input.itemDefName);
+    if (short > 0) missing.push({ itemDefName: input.itemDefName, quantity: short });
+  }
+  return missing;
+}
+
+/**
+ * Tidy recipe lines as saved: whole positive amounts only, repeated items
+ * merged.
+ */
+export function normalizeLines(lines: RecipeLine[]): RecipeLine[] {
+  const merged = new Map<string, number>();
+  for (const line of lines) {
+    const quantity = Math.floor(line.quantity);
+    if (!line.itemDefName || !(quantity > 0)) continue;
+    merged.set(line.itemDefName, (merged.get(line.itemDefName) ?? 0) + quantity);
+  }
+  return Array.from(merged, ([itemDefName, quantity]) => ({ itemDefName, quantity }));
+}
+
+export async function getRecipe(ctx: QueryCtx, name: string) {
+  return await ctx.db
+    .query("recipes")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .first();
+}
+
+/** Every recipe the player knows, in display order */
+export async function knownRecipes(ctx: QueryCtx, profile: Doc<"profiles">): Promise<Doc<"recipes">[]> {
+  const all = await ctx.db.query("recipes").collect();
+  return all
+    .filter((recipe) => knowsRecipe(profile, recipe))
+    .sort((a, b) => (a.levelRequirement ?? 0) - (b.levelRequirement ?? 0) || a.displayName.localeCompare(b.displayName));
+}
@@ -0,0 +1,78 @@
+import type { QueryCtx } from "../_generated/server";
+import type { Doc } from "../_generated/dataModel";
+
+/**
+ * Equipment bookkeeping shared by the equip API (convex/mechanics/equipment.ts)
+ * and combat: which slots exist, what's worn, and the stat bonuses it adds.
+ *
+ * ATK / DEF / SPD bonuses are folded in wherever combat reads a player's
+ * stats (`withGear`). Max HP bonuses are written to `stats.maxHp` when a
+ * piece goes on or comes off, so every heal cap sees them.
+ */
+
+export const EQUIP_SLOTS = ["weapon", "head", "body", "legs", "feet", "accessory"] as const;
+
+export type EquipSlot = (typeof EQUIP_SLOTS)[number];
+
+export interface GearBonuses {
+  atk: number;
+  def: number;
+  spd: number;
+  maxHp: number;
+}
+
+export function isEquipSlot(slot: string | undefined): slot is EquipSlot {
+  return (EQUIP_SLOTS as readonly string[]).includes(slot ?? "");
+}
+
+/** A single item's bonuses */
+export function itemBonuses(item: Doc<"itemDefs"> | null | undefined): GearBonuses {
+  return {
+    atk: item?.stats?.atk ?? 0,
+    def: item?.stats?.def ?? 0,
+    spd: item?.stats?.spd ?? 0,
+    maxHp: item?.stats?.maxHp ?? 0,
+  };
+}
+
+/** The item definition worn in each occupied slot (unknown items are skipped) */
+export async function equippedItems(
+  ctx: QueryCtx,
+  profile: Doc<"profiles">,
+): Promise<Map<EquipSlot, Doc<"itemDefs">>> {
+  const worn = new Map<EquipSlot, Doc<"itemDefs">>();
+  for (const slot of EQUIP_SLOTS) {
+    const name = profile.equipment?.[slot];
+    if (!name) continue;
+    const def = await ctx.db
+      .query("itemDefs")
+      .withIndex("by_name", (q) => q.eq("name", name))
+      .first();
+    if (def) worn.set(slot, def);
+  }
+  return worn;
+}
+
+/** Sum of everything the player is wearing */
+export async function gearBonuses(ctx: QueryCtx, profile: Doc<"profiles">): Promise<GearBonuses> {
+  const total: GearBonuses = { atk: 0, def: 0, spd: 0, maxHp: 0 };
+  if (!profile.equipment) return total;
+  for (const def of (await equippedItems(ctx, profile)).values()) {
+    const bonus = itemBonuses(def);
+    total.atk += bonus.atk;
+    total.def += bonus.def;
+    total.spd += bonus.spd;
+    total.maxHp += bonus.maxHp;
+  }
+  return total;
+}
+
+/** Base ATK / DEF / SPD with gear added (StatBlock.effectiveAtk / effectiveDef) */
+export function withGear<T extends { atk: number; def: number; spd: number }>(stats: T, gear: GearBonuses): T {
+  return {
+    ...stats,
+    atk: stats.atk + gear.atk,
+    def: stats.def + gear.def,
+    spd: stats.spd + gear.spd,
+  };
+}
@@ -0,0 +1,112 @@
+import type { MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+/**
+ * Where a player is, for interaction mutations (pickups, toggles, attacks).
+ *
+ * Positions come from the player's presence row — already checked by
+ * movement validation — never from mutation arguments, so a client can't
+ * claim to stand next to something across the map. Range limits match the
+ * client's prompt radii plus an allowance for presence lagging a report
+ * behind where the player sees themselves.
+ */
+
+/** Typed reasons an interaction is refused (shown as `reason` text to players) */
+export type InteractionRejection =
+  | "not_authenticated"
+  | "not_owner"
+  | "not_in_world"
+  | "wrong_map"
+  | "out_of_range"
+  | "locked"
+  | "not_found"
+  | "not_usable"
+  | "inventory_full";
+
+export type InteractionFailure = {
+  success: false;
+  code: InteractionRejection;
+  reason: string;
+};
+
+/** Pickup range (px) — WorldItemLayer's ITEM_INTERACT_RADIUS */
+export const ITEM_PICKUP_RANGE_PX = 48;
+/** Toggle / door range (px) — ObjectLayer's OBJ_INTERACT_RADIUS, from the sprite's centre */
+export const OBJECT_TOGGLE_RANGE_PX = 88;
+/** Talking / trading range (px) — NPC_INTERACT_RADIUS_PX */
+export const NPC_TALK_RANGE_PX = 48;
+/** Presence is published every 250ms; allow a sprinting report's worth of lag */
+const PRESENCE_LAG_ALLOWANCE_PX = 48;
+/** Presence rows older than this don't count as being in the world */
+const PRESENCE_STALE_MS = 30_000;
+
+export interface PlayerPosition {
+  profile: Doc<"profiles">;
+  mapName: string;
+  x: number;
+  y: number;
+  direction: string;
+}
+
+/** A refusal with its typed code */
+export function interactionFailure(code: InteractionRejection, reason: string): InteractionFailure {
+  return { success: false, code, reason };
+}
+
+/** The profile, when it belongs to the signed-in user. */
+export async function resolveOwnedProfile(
+  ctx: MutationCtx,
+  profileId: Id<"profiles">,
+): Promise<Doc<"profiles"> | InteractionFailure> {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) return interactionFailure("not_authenticated", "Not authenticated");
+  const profile = await ctx.db.get(profileId);
+  if (!profile || profile.userId !== userId) return interactionFailure("not_owner", "That's not your character");
+  return profile;
+}
+
+/** The signed-in owner's profile and its server-side position. */
+export async function resolvePlayerPosition(
+  ctx: MutationCtx,
+  profileId: Id<"profiles">,
+): Promise<PlayerPosition | InteractionFailure> {
+  const profile = await resolveOwnedProfile(ctx, profileId);
+  if (isInteractionFailure(profile)) return profile;
+  return (await findPlayerPosition(ctx, profile)) ?? interactionFailure("not_in_world", "You're not in the world right now");
+}
+
+/** Where any player is (another party to an interaction); null when they're not in the world. */
+export async function findPlayerPosition(
+  ctx: MutationCtx,
+  profile: Doc<"profiles">,
+): Promise<PlayerPosition | null> {
+  const presence = await ctx.db
+    .query("presence")
+    .withIndex("by_profile", (q) => q.eq("profileId", profile._id))
+    .first();
+  if (!presence?.mapName || Date.now() - presence.lastSeen > PRESENCE_STALE_MS) return null;
+  return { profile, mapName: presence.mapName, x: presence.x, y: presence.y, direction: presence.direction };
+}
+
+/** Refuse when the target is on another map or further than `rangePx` away. */
+export function checkInRange(
+  player: PlayerPosition,
+  target: { mapName: string; x: number; y: number },
+  rangePx: number,
+  what: string,
+): InteractionFailure | null {
+  if (target.mapName !== player.mapName) return interactionFailure("wrong_map", `The ${what} isn't on your map`);
+  const dist = Math.hypot(target.x - player.x, target.y - player.y);
+  if (dist > rangePx + PRESENCE_LAG_ALLOWANCE_PX) return interactionFailure("out_of_range", `You're too far from the ${what}`);
+  return null;
+}
+
+/** Distance limit used when searching for targets around the player (range + lag allowance) */
+export function searchRadius(rangePx: number): number {
+  return rangePx + PRESENCE_LAG_ALLOWANCE_PX;
+}
+
+export function isInteractionFailure<T extends object>(value: T | InteractionFailure): value is InteractionFailure {
+  return (value as InteractionFailure).success === false;
+}
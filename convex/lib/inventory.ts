@@ -0,0 +1,105 @@
+import type { Doc } from "../_generated/dataModel";
+
+/**
+ * Slot arithmetic for player inventories (the `inventories` table): stack
+ * sizes, capacity and per-instance metadata. Pure — loading, saving and
+ * quest progress live in convex/mechanics/inventory.ts.
+ *
+ * A slot holds one item type up to its stack size. Slots only merge when
+ * their metadata matches, so items carrying their own data (a signed
+ * letter, a named sword) stay apart.
+ */
+
+/** Slots a new inventory gets */
+export const DEFAULT_INVENTORY_CAPACITY = 24;
+/** Stack size for stackable items that don't set `maxStack` */
+export const DEFAULT_MAX_STACK = 99;
+
+export type InventorySlot = Doc<"inventories">["slots"][number];
+export type SlotMetadata = Record<string, string>;
+
+/** The `{ name, quantity }` view clients and older code read */
+export interface InventoryItem {
+  name: string;
+  quantity: number;
+}
+
+/** How many fit in one slot: 1 for unique and non-stackable items */
+export function maxStackOf(def: Pick<Doc<"itemDefs">, "stackable" | "maxStack" | "isUnique">): number {
+  if (def.isUnique || !def.stackable) return 1;
+  return Math.max(1, def.maxStack ?? DEFAULT_MAX_STACK);
+}
+
+function sameMetadata(a: SlotMetadata | undefined, b: SlotMetadata | undefined): boolean {
+  const aKeys = Object.keys(a ?? {});
+  const bKeys = Object.keys(b ?? {});
+  return aKeys.length === bKeys.length && aKeys.every((k) => a![k] === b?.[k]);
+}
+
+/** Total held of an item across its slots */
+export function countItem(slots: InventorySlot[], name: string): number {
+  return slots.reduce((sum, s) => (s.itemDefName === name ? sum + s.quantity : sum), 0);
+}
+
+/** Slots summed per item, in the order items first appear */
+export function inventoryItems(slots: InventorySlot[]): InventoryItem[] {
+  const totals = new Map<string, number>();
+  for (const slot of slots) {
+    if (slot.quantity > 0) totals.set(slot.itemDefName, (totals.get(slot.itemDefName) ?? 0) + slot.quantity);
+  }
+  return Array.from(totals, ([name, quantity]) => ({ name, quantity }));
+}
+
+/**
+ * Put up to `quantity` of an item into the slots: topping up matching
+ * stacks first, then opening new slots while there's room. Returns the new
+ * slots and how many went in.
+ */
+export function placeItems(
+  slots: InventorySlot[],
+  capacity: number,
+  def: Pick<Doc<"itemDefs">, "name" | "stackable" | "maxStack" | "isUnique">,
+  quantity: number,
+  metadata?: SlotMetadata,
+): { slots: InventorySlot[]; added: number } {
+  const stack = maxStackOf(def);
+  const next = slots.map((s) => ({ ...s }));
+  let left = Math.max(0, Math.floor(quantity));
+  for (const slot of next) {
+    if (left === 0) break;
+    if (slot.itemDefName !== def.name || !sameMetadata(slot.metadata, metadata)) continue;
+    const room = stack - slot.quantity;
+    if (room <= 0) continue;
+    const n = Math.min(room, left);
+    slot.quantity += n;
+    left -= n;
+  }
+  while (left > 0 && next.length < capacity) {
+    const n = Math.min(stack, left);
+    next.push({ itemDefName: def.name, quantity: n, ...(metadata ? { metadata } : {}) });
+    left -= n;
+  }
+  return { slots: next, added: Math.floor(quantity) - left };
+}
+
+/**
+ * Take `quantity` of an item out, emptying the smallest stacks first.
+ * Returns null when there isn't that much.
+ */
+export function takeItems(slots: InventorySlot[], name: string, quantity: number): InventorySlot[] | null {
+  if (quantity <= 0) return slots;
+  if (countItem(slots, name) < quantity) return null;
+  const order = slots
+    .map((slot, index) => ({ slot, index }))
+    .filter(({ slot }) => slot.itemDefName === name)
+    .sort((a, b) => a.slot.quantity - b.slot.quantity);
+  const next = slots.map((s) => ({ ...s }));
+  let left = quantity;
+  for (const { index } of order) {
+    const n = Math.min(next[index].quantity, left);
+    next[index].quantity -= n;
+    left -= n;
+    if (left === 0) break;
+  }
+  return next.filter((s) => s.quantity > 0);
+}
@@ -0,0 +1,191 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import type { QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { countItem } from "./inventory";
+import type { InteractionFailure } from "./interaction";
+
+/**
+ * Locked doors and portals. A door (`mapObjects.requirements`) or portal
+ * (`maps.portals[].requirements`) can require a carried item (usually a
+ * `key`), a completed quest, a story flag and a minimum level. Doors are
+ * checked when opened (mapObjects.toggle); portals when used
+ * (mechanics/locks.usePortal) and again when the player turns up on the
+ * other map (lib/movement), which also keeps players from skipping a
+ * locked portal by arriving some other way. A lock whose key is used up stays open for
+ * that player afterwards (`unlockedLocks`).
+ */
+
+export const lockRequirementsValidator = v.object({
+  requiredItem: v.optional(v.string()),  // itemDefs.name the player must carry
+  consumeItem: v.optional(v.boolean()),  // use one up when unlocking
+  requiredQuest: v.optional(v.string()), // questDefs.key the player has completed
+  flag: v.optional(v.string()),          // story flag set on the profile (profiles.storyFlags)
+  minLevel: v.optional(v.number()),
+});
+
+export type LockRequirements = Infer<typeof lockRequirementsValidator>;
+
+/** `unlockedLocks.lock` for a door */
+export function objectLockId(objectId: Id<"mapObjects">): string {
+  return `object:${objectId}`;
+}
+
+/** `unlockedLocks.lock` for a portal (by map id, so renaming the map keeps it) */
+export function portalLockId(mapId: Id<"maps">, portalName: string): string {
+  return `portal:${mapId}:${portalName}`;
+}
+
+/** Whether there's anything to check */
+export function hasRequirements(req: LockRequirements | undefined): req is LockRequirements {
+  return !!req && (!!req.requiredItem || !!req.requiredQuest || !!req.flag || (req.minLevel ?? 0) > 1);
+}
+
+/** The player's record of having used up this lock's key, if any */
+export async function findUnlock(ctx: QueryCtx, profileId: Id<"profiles">, lock: string) {
+  return await ctx.db
+    .query("unlockedLocks")
+    .withIndex("by_profile_lock", (q) => q.eq("profileId", profileId).eq("lock", lock))
+    .first();
+}
+
+async function carries(ctx: QueryCtx, profile: Doc<"profiles">, itemDefName: string): Promise<boolean> {
+  const inv = await ctx.db
+    .query("inventories")
+    .withIndex("by_profile", (q) => q.eq("profileId", profile._id))
+    .first();
+  // Legacy items still on the profile count until they move into `inventories`
+  const legacy = (profile.items ?? []).find((i) => i.name === itemDefName)?.quantity ?? 0;
+  return countItem(inv?.slots ?? [], itemDefName) + legacy > 0;
+}
+
+async function hasCompletedQuest(ctx: QueryCtx, profileId: Id<"profiles">, questKey: string): Promise<boolean> {
+  const completed = await ctx.db
+    .query("playerQuests")
+    .withIndex("by_profile_status", (q) => q.eq("profileId", profileId).eq("status", "completed"))
+    .collect();
+  return completed.some((q) => q.questDefKey === questKey);
+}
+
+async function itemLabel(ctx: QueryCtx, itemDefName: string): Promise<string> {
+  const def = await ctx.db
+    .query("itemDefs")
+    .withIndex("by_name", (q) => q.eq("name", itemDefName))
+    .first();
+  return def?.displayName ?? itemDefName;
+}
+
+/**
+ * What stands between a player (or a guest, `profile` null) and a lock:
+ * "Iron Key", "level 5", … — empty when they may pass.
+ */
+export async function missingRequirements(
+  ctx: QueryCtx,
+  profile: Doc<"profiles"> | null,
+  req: LockRequirements,
+  lock: string,
+): Promise<string[]> {
+  if (profile && (await findUnlock(ctx, profile._id, lock))) return [];
+  const missing: string[] = [];
+  if (req.requiredItem && !(profile && (await carries(ctx, profile, req.requiredItem)))) {
+    missing.push(await itemLabel(ctx, req.requiredItem));
+  }
+  if (req.requiredQuest && !(profile && (await hasCompletedQuest(ctx, profile._id, req.requiredQuest)))) {
+    const quest = await ctx.db
+      .query("questDefs")
+      .withIndex("by_key", (q) => q.eq("key", req.requiredQuest!))
+      .first();
+    missing.push(`completing "${quest?.title ?? req.requiredQuest}"`);
+  }
+  if (req.flag && !profile?.storyFlags?.includes(req.flag)) {
+    missing.push(req.flag.replace(/[-_]+/g, " "));
+  }
+  if (req.minLevel && (profile?.stats.level ?? 0) < req.minLevel) {
+    missing.push(`level ${req.minLevel}`);
+  }
+  return missing;
+}
+
+/** "Locked — requires Iron Key and level 5" */
+export function lockedMessage(missing: string[]): string {
+  const list = missing.length > 1
+    ? `${missing.slice(0, -1).join(", ")} and ${missing[missing.length - 1]}`
+    : missing[0];
+  return `Locked — requires ${list}`;
+}
+
+/** Refusal for a lock the player can't pass, or null when they can */
+export async function checkLock(
+  ctx: QueryCtx,
+  profile: Doc<"profiles">,
+  req: LockRequirements | undefined,
+  lock: string,
+): Promise<InteractionFailure | null> {
+  if (!hasRequirements(req)) return null;
+  const missing = await missingRequirements(ctx, profile, req, lock);
+  if (missing.length === 0) return null;
+  return { success: false, code: "locked", reason: lockedMessage(missing) };
+}
+
+/**
+ * Refusal for having come through a lock, or null when the player may
+ * have: like checkLock, except that carrying a key that gets used up isn't
+ * enough — the lock must have been opened with it (passLock).
+ */
+export async function checkPassed(
+  ctx: QueryCtx,
+  profile: Doc<"profiles">,
+  req: LockRequirements | undefined,
+  lock: string,
+): Promise<InteractionFailure | null> {
+  const locked = await checkLock(ctx, profile, req, lock);
+  if (locked || !req?.requiredItem || !req.consumeItem || (await findUnlock(ctx, profile._id, lock))) {
+    return locked;
+  }
+  return { success: false, code: "locked", reason: lockedMessage([await itemLabel(ctx, req.requiredItem)]) };
+}
+
+/** The point of a portal's zone nearest to a world position (px) */
+export function nearestPortalPoint(
+  map: Doc<"maps">,
+  portal: NonNullable<Doc<"maps">["portals"]>[number],
+  x: number,
+  y: number,
+): { x: number; y: number } {
+  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+  return {
+    x: clamp(x, portal.x * map.tileWidth, (portal.x + portal.width) * map.tileWidth),
+    y: clamp(y, portal.y * map.tileHeight, (portal.y + portal.height) * map.tileHeight),
+  };
+}
+
+/**
+ * Refusal for turning up on `mapName` other than through a portal (joining,
+ * travelling from the map browser) at one of `labels`: when every portal
+ * leading to the map is locked for the player, or every one leading to
+ * those labels is. Null when there's an open way there, or none at all.
+ * Reads every map, so only worth asking for arrivals that are otherwise fine.
+ */
+export async function checkLockedDestination(
+  ctx: QueryCtx,
+  profile: Doc<"profiles">,
+  mapName: string,
+  labels: string[],
+): Promise<string | null> {
+  let refusal: string | null = null;
+  const spawns = new Map<string, boolean>(); // targetSpawn → open
+  for (const map of await ctx.db.query("maps").collect()) {
+    for (const portal of map.portals ?? []) {
+      if (portal.targetMap !== mapName) continue;
+      const locked = await checkPassed(ctx, profile, portal.requirements, portalLockId(map._id, portal.name));
+      if (locked) {
+        refusal ??= locked.reason;
+        if (!spawns.has(portal.targetSpawn)) spawns.set(portal.targetSpawn, false);
+      } else {
+        spawns.set(portal.targetSpawn, true);
+      }
+    }
+  }
+  if (![...spawns.values()].some(Boolean)) return refusal;
+  return labels.some((name) => spawns.get(name) !== false) ? null : refusal;
+}
@@ -0,0 +1,123 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+
+/**
+ * Loot table rolls shared by NPC kills, battles (convex/mechanics/combat.ts)
+ * and encounter rewards (convex/mechanics/loot.ts). Pure — no database
+ * access; callers look up item rarities. src/mechanics/LootRoller.ts is the
+ * client twin used for editor previews.
+ *
+ * Guaranteed entries always drop. Then the table is rolled `rolls` times,
+ * each roll picking one other entry (or nothing, by `nothingWeight`) by
+ * weight. An entry without its own weight uses its item's rarity weight.
+ */
+
+/** A weighted loot table (npcProfiles, combatEncounters rewards, containers) */
+export const lootTableValidator = v.object({
+  entries: v.array(v.object({
+    itemDefName: v.string(),
+    weight: v.optional(v.number()),      // unset = by the item's rarity
+    minQuantity: v.number(),
+    maxQuantity: v.number(),
+    guaranteed: v.optional(v.boolean()), // always drops, outside the rolls
+  })),
+  rolls: v.optional(v.number()),         // weighted picks (default 1)
+  nothingWeight: v.optional(v.number()), // weight of a roll dropping nothing
+  rarityWeights: v.optional(v.record(v.string(), v.number())), // overrides DEFAULT_RARITY_WEIGHTS
+  dropTo: v.optional(v.union(v.literal("world"), v.literal("killer"))), // default "world"
+});
+
+export type LootTable = Infer<typeof lootTableValidator>;
+export type LootEntry = LootTable["entries"][number];
+export type LootDrop = { itemDefName: string; quantity: number };
+
+/** Weight of an entry that doesn't set one, by its item's rarity */
+export const DEFAULT_RARITY_WEIGHTS: Record<string, number> = {
+  common: 100,
+  uncommon: 40,
+  rare: 15,
+  epic: 5,
+  legendary: 1,
+  unique: 1,
+};
+/** Most weighted picks one table may make */
+export const MAX_LOOT_ROLLS = 10;
+/** Most of one item a single entry may drop */
+export const MAX_LOOT_QUANTITY = 99;
+
+/**
+ * Encounter rewards from before tables had options hold a bare entry list;
+ * read it as a one-roll table.
+ */
+export function asLootTable(raw: LootTable | LootEntry[] | undefined): LootTable | null {
+  if (!raw) return null;
+  return Array.isArray(raw) ? { entries: raw } : raw;
+}
+
+export function rollsOf(table: LootTable): number {
+  return Math.min(MAX_LOOT_ROLLS, Math.max(0, Math.floor(table.rolls ?? 1)));
+}
+
+export function entryWeight(table: LootTable, entry: LootEntry, rarity: string | undefined): number {
+  if (entry.weight != null) return Math.max(0, entry.weight);
+  const weights = { ...DEFAULT_RARITY_WEIGHTS, ...table.rarityWeights };
+  return Math.max(0, weights[rarity ?? "common"] ?? weights.common ?? 0);
+}
+
+function rollQuantity(entry: LootEntry, random: () => number): number {
+  const min = Math.min(MAX_LOOT_QUANTITY, Math.max(0, Math.floor(entry.minQuantity) || 0));
+  const max = Math.min(MAX_LOOT_QUANTITY, Math.max(min, Math.floor(entry.maxQuantity) || 0));
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * Roll a table. `rarityOf` gives an item's rarity (for entries without a
+ * weight). Drops of the same item are merged.
+ */
+export function rollLoot(
+  table: LootTable,
+  rarityOf: (itemDefName: string) => string | undefined,
+  random: () => number = Math.random,
+): LootDrop[] {
+  const won = new Map<string, number>();
+  const add = (entry: LootEntry) => {
+    const quantity = rollQuantity(entry, random);
+    if (quantity > 0) won.set(entry.itemDefName, (won.get(entry.itemDefName) ?? 0) + quantity);
+  };
+
+  for (const entry of table.entries) if (entry.guaranteed) add(entry);
+
+  const pool = table.entries
+    .filter((e) => !e.guaranteed)
+    .map((entry) => ({ entry, weight: entryWeight(table, entry, rarityOf(entry.itemDefName)) }))
+    .filter((p) => p.weight > 0);
+  const nothing = Math.max(0, table.nothingWeight ?? 0);
+  const total = pool.reduce((sum, p) => sum + p.weight, nothing);
+  if (total > 0) {
+    for (let i = 0; i < rollsOf(table); i++) {
+      let roll = random() * total;
+      for (const p of pool) {
+        if (roll < p.weight) {
+          add(p.entry);
+          break;
+        }
+        roll -= p.weight;
+      }
+    }
+  }
+  return Array.from(won, ([itemDefName, quantity]) => ({ itemDefName, quantity }));
+}
+
+/**
+ * What an NPC drops when defeated: its loot table, or for NPCs without one
+ * a single unit of the first item it carries.
+ */
+export function npcLootTable(npc: {
+  lootTable?: LootTable;
+  items?: { name: string; quantity: number }[];
+}): LootTable | null {
+  if (npc.lootTable) return npc.lootTable;
+  const first = (npc.items ?? []).find((i) => i.quantity > 0);
+  if (!first) return null;
+  return { entries: [{ itemDefName: first.name, minQuantity: 1, maxQuantity: 1, guaranteed: true }] };
+}
@@ -0,0 +1,269 @@
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+
+/**
+ * Chunked map storage.
+ *
+ * Tile layers and the collision mask are split into MAP_CHUNK_SIZE² regions
+ * stored in the `mapChunks` table. The `maps` doc keeps metadata only; its
+ * `layers[].tiles` and `collisionMask` are "" placeholders and `chunkSize` is
+ * set. Maps without `chunkSize` are legacy docs with inline JSON grids — both
+ * shapes are readable everywhere. Writes flag the chunks they change `dirty`
+ * until the next revision captures them (lib/mapRevisions).
+ */
+
+export const MAP_CHUNK_SIZE = 32;
+export const COLLISION_LAYER_INDEX = -1;
+
+export interface MapChunk {
+  layerIndex: number;
+  cx: number;
+  cy: number;
+  data: string;
+}
+
+/** Split a flat row-major grid into chunk payloads (edge chunks are clipped). */
+export function splitIntoChunks(
+  cells: unknown[],
+  width: number,
+  height: number,
+  fill: unknown,
+  chunkSize = MAP_CHUNK_SIZE,
+): { cx: number; cy: number; data: string }[] {
+  const out: { cx: number; cy: number; data: string }[] = [];
+  for (let cy = 0; cy * chunkSize < height; cy++) {
+    for (let cx = 0; cx * chunkSize < width; cx++) {
+      const x0 = cx * chunkSize;
+      const y0 = cy * chunkSize;
+      const w = Math.min(chunkSize, width - x0);
+      const h = Math.min(chunkSize, height - y0);
+      const region: unknown[] = [];
+      for (let y = y0; y < y0 + h; y++) {
+        for (let x = x0; x < x0 + w; x++) region.push(cells[y * width + x] ?? fill);
+      }
+      out.push({ cx, cy, data: JSON.stringify(region) });
+    }
+  }
+  return out;
+}
+
+/** Reassemble one layer (or the collision mask) from its chunks. */
+export function stitchChunks<T>(
+  chunks: MapChunk[],
+  layerIndex: number,
+  width: number,
+  height: number,
+  chunkSize: number,
+  fill: T,
+): T[] {
+  const cells = new Array<T>(width * height).fill(fill);
+  for (const chunk of chunks) {
+    if (chunk.layerIndex !== layerIndex) continue;
+    const x0 = chunk.cx * chunkSize;
+    const y0 = chunk.cy * chunkSize;
+    const w = Math.min(chunkSize, width - x0);
+    const region = JSON.parse(chunk.data) as T[];
+    for (let i = 0; i < region.length; i++) {
+      const x = x0 + (i % w);
+      const y = y0 + Math.floor(i / w);
+      if (x < width && y < height) cells[y * width + x] = region[i];
+    }
+  }
+  return cells;
+}
+
+export async function loadMapChunks(
+  ctx: QueryCtx | MutationCtx,
+  mapId: Id<"maps">,
+): Promise<Doc<"mapChunks">[]> {
+  return await ctx.db
+    .query("mapChunks")
+    .withIndex("by_map", (q) => q.eq("mapId", mapId))
+    .collect();
+}
+
+/**
+ * Return a map doc with its chunks attached (`chunks`) for clients that
+ * stitch grids themselves (Game.convexMapToMapData). Legacy maps pass through.
+ */
+export async function withChunks(ctx: QueryCtx | MutationCtx, map: Doc<"maps"> | null) {
+  if (!map || !map.chunkSize) return map;
+  const chunks = await loadMapChunks(ctx, map._id);
+  return {
+    ...map,
+    chunks: chunks.map((c) => ({ layerIndex: c.layerIndex, cx: c.cx, cy: c.cy, data: c.data })),
+  };
+}
+
+/**
+ * Return a map doc with inline JSON grids (the legacy shape, no `chunkSize`),
+ * for server-side consumers such as export and backups.
+ */
+export async function hydrateMapGrids(ctx: QueryCtx | MutationCtx, map: Doc<"maps">) {
+  if (!map.chunkSize) return map;
+  const chunks = await loadMapChunks(ctx, map._id);
+  const { chunkSize, ...rest } = map;
+  return {
+    ...rest,
+    layers: map.layers.map((l, i) => ({
+      ...l,
+      tiles: JSON.stringify(stitchChunks(chunks, i, map.width, map.height, chunkSize, -1)),
+    })),
+    collisionMask: JSON.stringify(
+      stitchChunks(chunks, COLLISION_LAYER_INDEX, map.width, map.height, chunkSize, false),
+    ),
+  };
+}
+
+/** Placeholder layers for the maps doc once their tiles live in chunks. */
+export function stripLayerTiles<L extends { tiles: string }>(layers: L[]): L[] {
+  return layers.map((l) => ({ ...l, tiles: "" }));
+}
+
+/**
+ * Write grids for a map, touching only chunks whose contents changed.
+ * `grids` maps layerIndex (or COLLISION_LAYER_INDEX) → flat cells. Chunks for
+ * layer indices not in `grids` are left alone unless `replaceAll` is set, in
+ * which case they're deleted (layers removed / map resized).
+ * Returns the number of chunk docs inserted, patched or deleted.
+ */
+export async function writeMapGrids(
+  ctx: MutationCtx,
+  mapId: Id<"maps">,
+  width: number,
+  height: number,
+  grids: Map<number, unknown[]>,
+  replaceAll = false,
+): Promise<number> {
+  const existing = await loadMapChunks(ctx, mapId);
+  const byKey = new Map(existing.map((c) => [`${c.layerIndex}:${c.cx}:${c.cy}`, c]));
+  const kept = new Set<string>();
+  let writes = 0;
+
+  for (const [layerIndex, cells] of grids) {
+    const fill = layerIndex === COLLISION_LAYER_INDEX ? false : -1;
+    for (const chunk of splitIntoChunks(cells, width, height, fill)) {
+      const key = `${layerIndex}:${chunk.cx}:${chunk.cy}`;
+      kept.add(key);
+      const prev = byKey.get(key);
+      if (prev) {
+        if (prev.data !== chunk.data) {
+          await ctx.db.patch(prev._id, { data: chunk.data, dirty: true });
+          writes++;
+        }
+      } else {
+        await ctx.db.insert("mapChunks", { mapId, layerIndex, ...chunk, dirty: true });
+        writes++;
+      }
+    }
+  }
+
+  for (const chunk of existing) {
+    const key = `${chunk.layerIndex}:${chunk.cx}:${chunk.cy}`;
+    if (kept.has(key)) continue;
+    if (replaceAll || grids.has(chunk.layerIndex)) {
+      await ctx.db.delete(chunk._id);
+      writes++;
+    }
+  }
+  return writes;
+}
+
+/** Parse stored JSON layer strings + collision mask into a grids map. */
+export function gridsFromJson(layerTiles: string[], collisionMask: string): Map<number, unknown[]> {
+  const grids = new Map<number, unknown[]>();
+  layerTiles.forEach((tiles, i) => grids.set(i, tiles ? JSON.parse(tiles) : []));
+  grids.set(COLLISION_LAYER_INDEX, collisionMask ? JSON.parse(collisionMask) : []);
+  return grids;
+}
+
+/**
+ * Store a map's full tile + collision data in chunks and reduce the maps doc
+ * to placeholders. Used by every full save (create, saveFullMap, imports).
+ */
+export async function saveMapGrids(
+  ctx: MutationCtx,
+  mapId: Id<"maps">,
+  width: number,
+  height: number,
+  layers: { tiles: string }[],
+  collisionMask: string,
+): Promise<number> {
+  return await writeMapGrids(
+    ctx,
+    mapId,
+    width,
+    height,
+    gridsFromJson(layers.map((l) => l.tiles), collisionMask),
+    true,
+  );
+}
+
+/** Convert a legacy inline map to chunked storage (no-op if already chunked). */
+export async function ensureChunked(ctx: MutationCtx, map: Doc<"maps">): Promise<Doc<"maps">> {
+  if (map.chunkSize) return map;
+  await saveMapGrids(ctx, map._id, map.width, map.height, map.layers, map.collisionMask);
+  const patch = {
+    layers: stripLayerTiles(map.layers),
+    collisionMask: "",
+    chunkSize: MAP_CHUNK_SIZE,
+  };
+  await ctx.db.patch(map._id, patch);
+  return { ...map, ...patch };
+}
+
+export async function deleteMapChunks(ctx: MutationCtx, mapId: Id<"maps">): Promise<number> {
+  const chunks = await loadMapChunks(ctx, mapId);
+  for (const c of chunks) await ctx.db.delete(c._id);
+  return chunks.length;
+}
+
+/**
+ * Write individual cells into a chunked map, loading only the chunks they
+ * fall in. Later cells win when the same cell appears twice. Used by live
+ * editing patches (mapEdits.applyOps) so concurrent editors don't overwrite
+ * each other's regions.
+ */
+export async function writeMapCells(
+  ctx: MutationCtx,
+  map: Doc<"maps">,
+  cells: { layerIndex: number; x: number; y: number; value: unknown }[],
+): Promise<number> {
+  const chunkSize = map.chunkSize ?? MAP_CHUNK_SIZE;
+  const byChunk = new Map<string, typeof cells>();
+  for (const c of cells) {
+    if (c.x < 0 || c.y < 0 || c.x >= map.width || c.y >= map.height) continue;
+    const key = `${c.layerIndex}:${Math.floor(c.x / chunkSize)}:${Math.floor(c.y / chunkSize)}`;
+    const list = byChunk.get(key) ?? [];
+    list.push(c);
+    byChunk.set(key, list);
+  }
+
+  let writes = 0;
+  for (const [key, list] of byChunk) {
+    const [layerIndex, cx, cy] = key.split(":").map(Number);
+    const x0 = cx * chunkSize;
+    const y0 = cy * chunkSize;
+    const w = Math.min(chunkSize, map.width - x0);
+    const h = Math.min(chunkSize, map.height - y0);
+    const existing = await ctx.db
+      .query("mapChunks")
+      .withIndex("by_map_layer_chunk", (q) =>
+        q.eq("mapId", map._id).eq("layerIndex", layerIndex).eq("cx", cx).eq("cy", cy))
+      .first();
+    const fill = layerIndex === COLLISION_LAYER_INDEX ? false : -1;
+    const region: unknown[] = existing
+      ? JSON.parse(existing.data)
+      : new Array(w * h).fill(fill);
+    for (const c of list) region[(c.y - y0) * w + (c.x - x0)] = c.value;
+    const data = JSON.stringify(region);
+    if (existing) {
+      if (existing.data === data) continue;
+      await ctx.db.patch(existing._id, { data, dirty: true });
+    } else {
+      await ctx.db.insert("mapChunks", { mapId: map._id, layerIndex, cx, cy, data, dirty: true });
+    }
+    writes++;
+  }
+  return writes;
+}
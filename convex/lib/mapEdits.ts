@@ -0,0 +1,71 @@
+import type { MutationCtx } from "../_generated/server";
+import type { Id } from "../_generated/dataModel";
+
+/**
+ * Live-edit log for collaborative map editing.
+ *
+ * Each applied patch bumps `maps.editSeq` and is stored in `mapEditOps` with
+ * that sequence number. Editors load a map snapshot (which carries editSeq)
+ * and replay every op after it, skipping their own. Full saves and reverts
+ * log a single `{ kind: "reload" }` op so open editors fetch the new state.
+ */
+
+/** How many patches to keep per map; older ones are trimmed as new ones land. */
+export const MAX_LOGGED_EDITS_PER_MAP = 500;
+/** Editor cursors not refreshed for this long are treated as gone. */
+export const CURSOR_STALE_MS = 30_000;
+
+/** Append applied ops to a map's log. Returns the new editSeq. */
+export async function appendMapEditOps(
+  ctx: MutationCtx,
+  mapId: Id<"maps">,
+  clientId: string,
+  profileId: Id<"profiles"> | undefined,
+  ops: unknown[],
+): Promise<number> {
+  const map = await ctx.db.get(mapId);
+  if (!map) throw new Error("Map not found");
+  const seq = (map.editSeq ?? 0) + 1;
+  await ctx.db.patch(mapId, { editSeq: seq });
+  await ctx.db.insert("mapEditOps", {
+    mapId,
+    seq,
+    clientId,
+    profileId,
+    ops: JSON.stringify(ops),
+    createdAt: Date.now(),
+  });
+
+  // Trim a few of the oldest entries per write so the log stays bounded
+  const old = await ctx.db
+    .query("mapEditOps")
+    .withIndex("by_map_seq", (q) => q.eq("mapId", mapId).lte("seq", seq - MAX_LOGGED_EDITS_PER_MAP))
+    .take(20);
+  for (const entry of old) await ctx.db.delete(entry._id);
+  return seq;
+}
+
+/** Tell open editors to reload the map (after a full save, import or revert). */
+export async function broadcastMapReload(
+  ctx: MutationCtx,
+  mapId: Id<"maps">,
+  clientId?: string,
+  profileId?: Id<"profiles">,
+): Promise<number> {
+  return await appendMapEditOps(ctx, mapId, clientId ?? "server", profileId, [{ kind: "reload" }]);
+}
+
+/** Drop a map's edit log and editor cursors (map deleted). */
+export async function deleteMapEditState(ctx: MutationCtx, mapId: Id<"maps">): Promise<number> {
+  const ops = await ctx.db
+    .query("mapEditOps")
+    .withIndex("by_map_seq", (q) => q.eq("mapId", mapId))
+    .collect();
+  for (const entry of ops) await ctx.db.delete(entry._id);
+  const cursors = await ctx.db
+    .query("mapEditorCursors")
+    .withIndex("by_map", (q) => q.eq("mapId", mapId))
+    .collect();
+  for (const c of cursors) await ctx.db.delete(c._id);
+  return ops.length + cursors.length;
+}
@@ -0,0 +1,582 @@
+/**
+ * Procedural map generation.
+ *
+ * Produces the same stored-map shape as a Tiled import (see lib/tiled.ts):
+ * the five standard layers, a collision mask, spawn labels and an entry /
+ * exit portal pair. Everything is driven by a seeded PRNG, so the same
+ * options always give the same map — regenerate with the same seed and the
+ * revision history diff shows only what you changed by hand.
+ *
+ * Algorithms:
+ *   - bsp        Rooms in a binary space partition, joined by L-shaped corridors
+ *   - caves      Cellular-automata caves, trimmed to the largest open region
+ *   - overworld  Value-noise elevation (water / shore / grass / rock) with trees
+ *
+ * Tilesets carry no semantic tile data, so the caller supplies a palette of
+ * tile indices per role. Multiple indices per role are picked at random
+ * (seeded) for variation.
+ */
+
+import type { StoredLayer, StoredMapFields, StoredPortal, StoredRect } from "./tiled";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type GeneratorAlgorithm = "bsp" | "caves" | "overworld";
+
+export interface GeneratorPalette {
+  /** Walkable ground (bg0) */
+  floor: number[];
+  /** Blocking walls / rock (bg0) */
+  wall: number[];
+  /** Overworld: blocking water (bg0). Falls back to `wall`. */
+  water?: number[];
+  /** Overworld: walkable beach between water and grass. Falls back to `floor`. */
+  shore?: number[];
+  /** Overworld: blocking trees (obj0). Falls back to `wall`. */
+  tree?: number[];
+  /** Sparse walkable decoration on floor (obj1) */
+  decor?: number[];
+  /** Drawn above the player: wall tops (bsp / caves) or tree canopies (overworld) */
+  overlay?: number[];
+}
+
+export interface PortalTarget {
+  targetMap: string;
+  targetSpawn: string;
+}
+
+export interface GeneratorOptions {
+  algorithm: GeneratorAlgorithm;
+  seed: string;
+  /** Name the map will be saved under (unlinked portals point back into it) */
+  mapName: string;
+  width: number;
+  height: number;
+  tileWidth: number;
+  tileHeight: number;
+  tilesetUrl?: string;
+  tilesetPxW: number;
+  tilesetPxH: number;
+  palette: GeneratorPalette;
+  /** Where the entry portal leads. Defaults to this map's "exit" spawn. */
+  entry?: PortalTarget;
+  /** Where the exit portal leads. Defaults to this map's "start1" spawn. */
+  exit?: PortalTarget;
+}
+
+export interface GeneratedMap {
+  map: StoredMapFields;
+  /** One-line description, used as the revision summary */
+  summary: string;
+}
+
+export const GENERATOR_MIN_SIZE = 16;
+export const GENERATOR_MAX_SIZE = 400;
+
+/** Spawn labels every generated map has (portals on other maps can target these) */
+export const GENERATED_ENTRY_SPAWN = "start1";
+export const GENERATED_EXIT_SPAWN = "exit";
+
+// Cell kinds in the working grid
+const WALL = 0;
+const FLOOR = 1;
+const WATER = 2;
+const SHORE = 3;
+const TREE = 4;
+
+const isWalkable = (kind: number) => kind === FLOOR || kind === SHORE;
+
+// ---------------------------------------------------------------------------
+// Seeded randomness
+// ---------------------------------------------------------------------------
+
+type Rng = () => number;
+
+/** FNV-1a hash of the seed string */
+function hashSeed(seed: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** mulberry32: small, fast, and identical on every JS engine */
+function createRng(seed: number): Rng {
+  let a = seed | 0;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Integer in [min, max] inclusive */
+function randInt(rng: Rng, min: number, max: number): number {
+  return min + Math.floor(rng() * (max - min + 1));
+}
+
+function pick(rng: Rng, tiles: number[]): number {
+  return tiles[Math.floor(rng() * tiles.length)];
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+/** Generate a map. Throws on invalid options or a seed that yields no usable space. */
+export function generateMap(opts: GeneratorOptions): GeneratedMap {
+  const { width, height, algorithm } = opts;
+  if (!Number.isInteger(width) || !Number.isInteger(height)) {
+    throw new Error("Map size must be whole tiles");
+  }
+  if (width < GENERATOR_MIN_SIZE || height < GENERATOR_MIN_SIZE || width > GENERATOR_MAX_SIZE || height > GENERATOR_MAX_SIZE) {
+    throw new Error(`Generated maps must be ${GENERATOR_MIN_SIZE}–${GENERATOR_MAX_SIZE} tiles on each side`);
+  }
+  validatePalette(opts);
+
+  const rng = createRng(hashSeed(`${algorithm}:${opts.seed}`));
+  const grid = new Uint8Array(width * height).fill(WALL);
+
+  let detail: string;
+  if (algorithm === "bsp") {
+    detail = `${generateBsp(grid, width, height, rng)} rooms`;
+  } else if (algorithm === "caves") {
+    generateCaves(grid, width, height, rng);
+    detail = "caves";
+  } else if (algorithm === "overworld") {
+    generateOverworld(grid, width, height, rng, hashSeed(opts.seed));
+    detail = "overworld";
+  } else {
+    throw new Error(`Unknown generator algorithm "${algorithm}"`);
+  }
+
+  // Spawns and portals go in the largest connected walkable area
+  const region = largestRegion(grid, width, height);
+  if (algorithm !== "overworld") {
+    // Dungeons / caves: close off anything unreachable
+    for (let i = 0; i < grid.length; i++) {
+      if (isWalkable(grid[i]) && !region.has(i)) grid[i] = WALL;
+    }
+  }
+  const placement = placeEntryAndExit(grid, width, height, region, rng);
+
+  const map = paint(grid, opts, rng, placement);
+  const label = algorithm === "bsp" ? "BSP dungeon" : algorithm === "caves" ? "Cave" : "Overworld";
+  return {
+    map,
+    summary: `${label} (${detail}), ${width}×${height}, seed "${opts.seed}"`,
+  };
+}
+
+function validatePalette(opts: GeneratorOptions) {
+  const { palette } = opts;
+  if (!palette.floor?.length) throw new Error("Palette needs at least one floor tile");
+  if (!palette.wall?.length) throw new Error("Palette needs at least one wall tile");
+
+  const cols = Math.floor(opts.tilesetPxW / opts.tileWidth);
+  const rows = Math.floor(opts.tilesetPxH / opts.tileHeight);
+  const tileCount = cols * rows;
+  for (const [role, tiles] of Object.entries(palette)) {
+    for (const t of (tiles as number[] | undefined) ?? []) {
+      if (!Number.isInteger(t) || t < 0 || t >= tileCount) {
+        throw new Error(`Palette "${role}" tile ${t} is outside the tileset (${tileCount} tiles)`);
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// BSP rooms
+// ---------------------------------------------------------------------------
+
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+const BSP_MIN_LEAF = 8;
+
+/** Carve rooms and corridors into `grid`. Returns the room count. */
+function generateBsp(grid: Uint8Array, width: number, height: number, rng: Rng): number {
+  let rooms = 0;
+
+  const carve = (x: number, y: number) => {
+    grid[y * width + x] = FLOOR;
+  };
+
+  const carveRoom = (leaf: Rect): Rect => {
+    // Keep a one-tile wall margin inside the leaf
+    const maxW = leaf.w - 2;
+    const maxH = leaf.h - 2;
+    const w = randInt(rng, Math.min(4, maxW), maxW);
+    const h = randInt(rng, Math.min(4, maxH), maxH);
+    const x = randInt(rng, leaf.x + 1, leaf.x + leaf.w - 1 - w);
+    const y = randInt(rng, leaf.y + 1, leaf.y + leaf.h - 1 - h);
+    for (let cy = y; cy < y + h; cy++) {
+      for (let cx = x; cx < x + w; cx++) carve(cx, cy);
+    }
+    rooms++;
+    return { x, y, w, h };
+  };
+
+  const carveCorridor = (a: Rect, b: Rect) => {
+    const ax = a.x + Math.floor(a.w / 2);
+    const ay = a.y + Math.floor(a.h / 2);
+    const bx = b.x + Math.floor(b.w / 2);
+    const by = b.y + Math.floor(b.h / 2);
+    // Horizontal leg along row `y`, vertical leg along column `x`
+    const row = (y: number) => {
+      for (let x = Math.min(ax, bx); x <= Math.max(ax, bx); x++) carve(x, y);
+    };
+    const column = (x: number) => {
+      for (let y = Math.min(ay, by); y <= Math.max(ay, by); y++) carve(x, y);
+    };
+    if (rng() < 0.5) {
+      row(ay);
+      column(bx);
+    } else {
+      column(ax);
+      row(by);
+    }
+  };
+
+  /** Partition a leaf; returns one room inside it for the parent to connect to. */
+  const split = (leaf: Rect, depth: number): Rect => {
+    const canSplitH = leaf.h >= BSP_MIN_LEAF * 2;
+    const canSplitV = leaf.w >= BSP_MIN_LEAF * 2;
+    // Stop early now and then so room sizes vary
+    const stopEarly = depth > 1 && leaf.w < BSP_MIN_LEAF * 3 && leaf.h < BSP_MIN_LEAF * 3 && rng() < 0.25;
+    if ((!canSplitH && !canSplitV) || stopEarly) return carveRoom(leaf);
+
+    const horizontal = canSplitH && (!canSplitV || (leaf.h === leaf.w ? rng() < 0.5 : leaf.h > leaf.w));
+    let a: Rect;
+    let b: Rect;
+    if (horizontal) {
+      const at = randInt(rng, BSP_MIN_LEAF, leaf.h - BSP_MIN_LEAF);
+      a = { x: leaf.x, y: leaf.y, w: leaf.w, h: at };
+      b = { x: leaf.x, y: leaf.y + at, w: leaf.w, h: leaf.h - at };
+    } else {
+      const at = randInt(rng, BSP_MIN_LEAF, leaf.w - BSP_MIN_LEAF);
+      a = { x: leaf.x, y: leaf.y, w: at, h: leaf.h };
+      b = { x: leaf.x + at, y: leaf.y, w: leaf.w - at, h: leaf.h };
+    }
+    const roomA = split(a, depth + 1);
+    const roomB = split(b, depth + 1);
+    carveCorridor(roomA, roomB);
+    return rng() < 0.5 ? roomA : roomB;
+  };
+
+  // The outer ring stays solid
+  split({ x: 1, y: 1, w: width - 2, h: height - 2 }, 0);
+  return rooms;
+}
+
+// ---------------------------------------------------------------------------
+// Cellular-automata caves
+// ---------------------------------------------------------------------------
+
+const CAVE_FILL = 0.45;
+const CAVE_STEPS = 5;
+
+function generateCaves(grid: Uint8Array, width: number, height: number, rng: Rng) {
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      grid[y * width + x] = rng() < CAVE_FILL ? WALL : FLOOR;
+    }
+  }
+
+  let next = new Uint8Array(grid.length);
+  let cur = grid.slice();
+  for (let step = 0; step < CAVE_STEPS; step++) {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (x === 0 || y === 0 || x === width - 1 || y === height - 1) {
+          next[y * width + x] = WALL;
+          continue;
+        }
+        let walls = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            if (cur[(y + dy) * width + (x + dx)] === WALL) walls++;
+          }
+        }
+        next[y * width + x] = walls >= 5 ? WALL : FLOOR;
+      }
+    }
+    [cur, next] = [next, cur];
+  }
+  grid.set(cur);
+}
+
+// ---------------------------------------------------------------------------
+// Noise overworld
+// ---------------------------------------------------------------------------
+
+/** Hash a lattice point to [0, 1) */
+function latticeValue(ix: number, iy: number, salt: number): number {
+  let h = Math.imul(ix, 374761393) ^ Math.imul(iy, 668265263) ^ salt;
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+/** Smoothly interpolated value noise */
+function valueNoise(x: number, y: number, salt: number): number {
+  const ix = Math.floor(x);
+  const iy = Math.floor(y);
+  const fx = x - ix;
+  const fy = y - iy;
+  const sx = fx * fx * (3 - 2 * fx);
+  const sy = fy * fy * (3 - 2 * fy);
+  const top = latticeValue(ix, iy, salt) * (1 - sx) + latticeValue(ix + 1, iy, salt) * sx;
+  const bottom = latticeValue(ix, iy + 1, salt) * (1 - sx) + latticeValue(ix + 1, iy + 1, salt) * sx;
+  return top * (1 - sy) + bottom * sy;
+}
+
+/** Four octaves of value noise, rescaled to span [0, 1] over the map */
+function noiseField(width: number, height: number, salt: number, scale: number): Float64Array {
+  const field = new Float64Array(width * height);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let v = 0;
+      let amp = 1;
+      let freq = 1 / scale;
+      for (let octave = 0; octave < 4; octave++) {
+        v += valueNoise(x * freq, y * freq, salt + octave * 7919) * amp;
+        amp *= 0.5;
+        freq *= 2;
+      }
+      field[y * width + x] = v;
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+  }
+  const range = max - min || 1;
+  for (let i = 0; i < field.length; i++) field[i] = (field[i] - min) / range;
+  return field;
+}
+
+function generateOverworld(grid: Uint8Array, width: number, height: number, rng: Rng, seedHash: number) {
+  const elevation = noiseField(width, height, seedHash, 24);
+  const moisture = noiseField(width, height, seedHash ^ 0x5bd1e995, 16);
+  for (let i = 0; i < grid.length; i++) {
+    const e = elevation[i];
+    if (e < 0.3) grid[i] = WATER;
+    else if (e < 0.36) grid[i] = SHORE;
+    else if (e > 0.8) grid[i] = WALL;
+    else grid[i] = moisture[i] > 0.55 && rng() < 0.4 ? TREE : FLOOR;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Connectivity and placement
+// ---------------------------------------------------------------------------
+
+const NEIGHBORS = [[0, -1], [1, 0], [0, 1], [-1, 0]];
+
+/** Breadth-first distances from `start` over walkable cells (-1 = unreachable). */
+function distancesFrom(grid: Uint8Array, width: number, height: number, start: number): Int32Array {
+  const dist = new Int32Array(grid.length).fill(-1);
+  const queue = new Int32Array(grid.length);
+  let head = 0;
+  let tail = 0;
+  dist[start] = 0;
+  queue[tail++] = start;
+  while (head < tail) {
+    const i = queue[head++];
+    const x = i % width;
+    const y = (i - x) / width;
+    for (const [dx, dy] of NEIGHBORS) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+      const n = ny * width + nx;
+      if (dist[n] !== -1 || !isWalkable(grid[n])) continue;
+      dist[n] = dist[i] + 1;
+      queue[tail++] = n;
+    }
+  }
+  return dist;
+}
+
+function largestRegion(grid: Uint8Array, width: number, height: number): Set<number> {
+  const seen = new Uint8Array(grid.length);
+  let best: number[] = [];
+  for (let i = 0; i < grid.length; i++) {
+    if (seen[i] || !isWalkable(grid[i])) continue;
+    const dist = distancesFrom(grid, width, height, i);
+    const cells: number[] = [];
+    for (let j = 0; j < dist.length; j++) {
+      if (dist[j] !== -1) {
+        seen[j] = 1;
+        cells.push(j);
+      }
+    }
+    if (cells.length > best.length) best = cells;
+  }
+  return new Set(best);
+}
+
+interface Placement {
+  entryPortal: number;
+  entrySpawn: number;
+  exitPortal: number;
+  exitSpawn: number;
+}
+
+/**
+ * Put the entry and exit far apart: walk from a random cell to the farthest
+ * one (entry), then from there to the farthest again (exit). Each spawn is
+ * the neighbouring cell one step along the path between them.
+ */
+function placeEntryAndExit(grid: Uint8Array, width: number, height: number, region: Set<number>, rng: Rng): Placement {
+  const cells = [...region];
+  if (cells.length < 8) throw new Error("This seed produced no usable walkable area — try another seed");
+
+  const farthest = (dist: Int32Array) => {
+    let best = cells[0];
+    for (const c of cells) if (dist[c] > dist[best]) best = c;
+    return best;
+  };
+  const entryPortal = farthest(distancesFrom(grid, width, height, cells[Math.floor(rng() * cells.length)]));
+  const fromEntry = distancesFrom(grid, width, height, entryPortal);
+  const exitPortal = farthest(fromEntry);
+  if (fromEntry[exitPortal] < 3) throw new Error("This seed produced too small a walkable area — try another seed");
+  const fromExit = distancesFrom(grid, width, height, exitPortal);
+
+  const stepToward = (cell: number, dist: Int32Array) => {
+    const x = cell % width;
+    const y = (cell - x) / width;
+    for (const [dx, dy] of NEIGHBORS) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+      const n = ny * width + nx;
+      if (dist[n] === dist[cell] - 1) return n;
+    }
+    throw new Error("Generator placement failed");
+  };
+
+  return {
+    entryPortal,
+    entrySpawn: stepToward(entryPortal, fromExit),
+    exitPortal,
+    exitSpawn: stepToward(exitPortal, fromEntry),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tiles, collision, labels and portals
+// ---------------------------------------------------------------------------
+
+const DECOR_CHANCE = 0.04;
+
+function paint(grid: Uint8Array, opts: GeneratorOptions, rng: Rng, placement: Placement): StoredMapFields {
+  const { width, height, palette } = opts;
+  const size = width * height;
+  const bg0 = new Array<number>(size).fill(-1);
+  const obj0 = new Array<number>(size).fill(-1);
+  const obj1 = new Array<number>(size).fill(-1);
+  const overlay = new Array<number>(size).fill(-1);
+  const collision = new Array<boolean>(size).fill(false);
+
+  const water = palette.water?.length ? palette.water : palette.wall;
+  const shore = palette.shore?.length ? palette.shore : palette.floor;
+  const tree = palette.tree?.length ? palette.tree : palette.wall;
+  const reserved = new Set([placement.entryPortal, placement.entrySpawn, placement.exitPortal, placement.exitSpawn]);
+
+  for (let i = 0; i < size; i++) {
+    switch (grid[i]) {
+      case FLOOR:
+        bg0[i] = pick(rng, palette.floor);
+        if (palette.decor?.length && !reserved.has(i) && rng() < DECOR_CHANCE) obj1[i] = pick(rng, palette.decor);
+        break;
+      case SHORE:
+        bg0[i] = pick(rng, shore);
+        break;
+      case WATER:
+        bg0[i] = pick(rng, water);
+        collision[i] = true;
+        break;
+      case TREE:
+        bg0[i] = pick(rng, palette.floor);
+        obj0[i] = pick(rng, tree);
+        collision[i] = true;
+        break;
+      default:
+        bg0[i] = pick(rng, palette.wall);
+        collision[i] = true;
+    }
+  }
+
+  if (palette.overlay?.length) {
+    for (let i = 0; i < size; i++) {
+      const y = Math.floor(i / width);
+      if (opts.algorithm === "overworld") {
+        // Canopy on the cell above each tree
+        if (grid[i] === TREE && y > 0) overlay[i - width] = pick(rng, palette.overlay);
+      } else if (grid[i] === WALL && y < height - 1 && isWalkable(grid[i + width])) {
+        // Top of walls the player can walk up against
+        overlay[i] = pick(rng, palette.overlay);
+      }
+    }
+  }
+
+  const rectAt = (name: string, cell: number): StoredRect => ({
+    name,
+    x: cell % width,
+    y: Math.floor(cell / width),
+    width: 1,
+    height: 1,
+  });
+  const labels = [
+    rectAt(GENERATED_ENTRY_SPAWN, placement.entrySpawn),
+    rectAt(GENERATED_EXIT_SPAWN, placement.exitSpawn),
+  ];
+  const portals: StoredPortal[] = [
+    {
+      ...rectAt("entry", placement.entryPortal),
+      ...(opts.entry ?? { targetMap: opts.mapName, targetSpawn: GENERATED_EXIT_SPAWN }),
+    },
+    {
+      ...rectAt("exit", placement.exitPortal),
+      ...(opts.exit ?? { targetMap: opts.mapName, targetSpawn: GENERATED_ENTRY_SPAWN }),
+    },
+  ];
+
+  const layer = (name: string, type: StoredLayer["type"], tiles: number[]): StoredLayer => ({
+    name,
+    type,
+    tiles: JSON.stringify(tiles),
+    visible: true,
+  });
+  const empty = new Array<number>(size).fill(-1);
+
+  return {
+    width,
+    height,
+    tileWidth: opts.tileWidth,
+    tileHeight: opts.tileHeight,
+    tilesetUrl: opts.tilesetUrl,
+    tilesetPxW: opts.tilesetPxW,
+    tilesetPxH: opts.tilesetPxH,
+    layers: [
+      layer("bg0", "bg", bg0),
+      layer("bg1", "bg", empty),
+      layer("obj0", "obj", obj0),
+      layer("obj1", "obj", obj1),
+      layer("overlay", "overlay", overlay),
+    ],
+    collisionMask: JSON.stringify(collision),
+    labels,
+    portals,
+  };
+}
@@ -0,0 +1,282 @@
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc } from "../_generated/dataModel";
+import { COLLISION_LAYER_INDEX, loadMapChunks, stitchChunks } from "./mapChunks";
+import type { TilesetDims } from "./tiled";
+
+/**
+ * Map linter.
+ *
+ * Finds problems that make a map broken to play: portals to missing
+ * spawns, spawns players can't walk away from, objects and items placed
+ * off the map or inside walls, NPCs without a sprite or profile, layers of
+ * the wrong size and tiles outside the tileset. Errors block publishing a
+ * draft; warnings are reported only.
+ */
+
+export type MapLintSeverity = "error" | "warning";
+
+export interface MapLintIssue {
+  severity: MapLintSeverity;
+  /** Stable kind of problem, e.g. "portal-target-spawn" */
+  code: string;
+  message: string;
+  /** Tile position, when the problem has one */
+  x?: number;
+  y?: number;
+}
+
+type Ctx = QueryCtx | MutationCtx;
+
+/** Lint a map. `tilesetDims` sizes per-layer tilesets (the primary one is on the map). */
+export async function lintMap(ctx: Ctx, map: Doc<"maps">, tilesetDims: TilesetDims = {}): Promise<MapLintIssue[]> {
+  const issues: MapLintIssue[] = [];
+  const { width, height, tileWidth, tileHeight } = map;
+
+  // --- Grids ----------------------------------------------------------------
+  const layers: number[][] = [];
+  let collision: boolean[];
+  if (map.chunkSize) {
+    const chunks = await loadMapChunks(ctx, map._id);
+    const size = map.chunkSize;
+    const expectedChunks = Math.ceil(width / size) * Math.ceil(height / size);
+    const layerName = (index: number) => (index === COLLISION_LAYER_INDEX ? "collision" : `layer "${map.layers[index]?.name}"`);
+    for (const index of [COLLISION_LAYER_INDEX, ...map.layers.map((_, i) => i)]) {
+      const own = chunks.filter((c) => c.layerIndex === index);
+      if (own.length !== expectedChunks) {
+        issues.push({
+          severity: "error",
+          code: "layer-size",
+          message: `${layerName(index)} has ${own.length} of ${expectedChunks} chunks`,
+        });
+      }
+      for (const c of own) {
+        const cells = (JSON.parse(c.data) as unknown[]).length;
+        const expected = Math.min(size, width - c.cx * size) * Math.min(size, height - c.cy * size);
+        if (cells !== expected) {
+          issues.push({
+            severity: "error",
+            code: "layer-size",
+            message: `${layerName(index)} chunk (${c.cx}, ${c.cy}) has ${cells} tiles, expected ${expected}`,
+          });
+        }
+      }
+    }
+    map.layers.forEach((_, i) => layers.push(stitchChunks(chunks, i, width, height, size, -1)));
+    collision = stitchChunks(chunks, COLLISION_LAYER_INDEX, width, height, size, false);
+  } else {
+    // Legacy inline grids
+    for (const layer of map.layers) {
+      const tiles = JSON.parse(layer.tiles || "[]") as number[];
+      if (tiles.length !== width * height) {
+        issues.push({
+          severity: "error",
+          code: "layer-size",
+          message: `Layer "${layer.name}" has ${tiles.length} tiles, expected ${width * height} (${width}×${height})`,
+        });
+      }
+      layers.push(tiles);
+    }
+    collision = JSON.parse(map.collisionMask || "[]") as boolean[];
+    if (collision.length !== width * height) {
+      issues.push({
+        severity: "error",
+        code: "layer-size",
+        message: `Collision mask has ${collision.length} cells, expected ${width * height}`,
+      });
+    }
+  }
+
+  const inBounds = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height;
+  const blocked = (x: number, y: number) => !inBounds(x, y) || !!collision[y * width + x];
+
+  // --- Tile indices -----------------------------------------------------------
+  map.layers.forEach((layer, i) => {
+    const url = layer.tilesetUrl ?? map.tilesetUrl;
+    const dims = layer.tilesetUrl && layer.tilesetUrl !== map.tilesetUrl
+      ? tilesetDims[layer.tilesetUrl]
+      : { imageWidth: map.tilesetPxW, imageHeight: map.tilesetPxH };
+    if (!dims) return; // per-layer tileset of unknown size
+    const tileCount = Math.floor(dims.imageWidth / tileWidth) * Math.floor(dims.imageHeight / tileHeight);
+    let bad = 0;
+    let first = -1;
+    layers[i].forEach((tile, cell) => {
+      if (tile === -1 || tile === null) return;
+      if (!Number.isInteger(tile) || tile < -1 || tile >= tileCount) {
+        if (bad++ === 0) first = cell;
+      }
+    });
+    if (bad > 0) {
+      issues.push({
+        severity: "error",
+        code: "tile-range",
+        message: `Layer "${layer.name}" has ${bad} tile(s) outside ${url ?? "the tileset"} (${tileCount} tiles)`,
+        x: first % width,
+        y: Math.floor(first / width),
+      });
+    }
+  });
+
+  // --- Portals -----------------------------------------------------------------
+  const portals = map.portals ?? [];
+  const allMaps = await ctx.db.query("maps").collect();
+  const mapsByName = new Map(allMaps.map((m) => [m.name, m]));
+  for (const p of portals) {
+    if (!inBounds(p.x, p.y) || !inBounds(p.x + p.width - 1, p.y + p.height - 1)) {
+      issues.push({ severity: "error", code: "portal-bounds", message: `Portal "${p.name}" extends off the map`, x: p.x, y: p.y });
+    }
+    const target = mapsByName.get(p.targetMap);
+    if (!target) {
+      issues.push({
+        severity: "error",
+        code: "portal-target-map",
+        message: `Portal "${p.name}" leads to missing map "${p.targetMap}"`,
+        x: p.x,
+        y: p.y,
+      });
+    } else if (!target.labels.some((l) => l.name === p.targetSpawn)) {
+      issues.push({
+        severity: "error",
+        code: "portal-target-spawn",
+        message: `Portal "${p.name}" leads to spawn "${p.targetSpawn}", which doesn't exist on "${p.targetMap}"`,
+        x: p.x,
+        y: p.y,
+      });
+    }
+  }
+
+  // --- Spawns ------------------------------------------------------------------
+  // Spawns are "start*" labels plus any label a portal (on any map) arrives at
+  const targeted = new Set<string>();
+  for (const m of allMaps) {
+    for (const p of m.portals ?? []) if (p.targetMap === map.name) targeted.add(p.targetSpawn);
+  }
+  const spawns = map.labels.filter((l) => l.name.startsWith("start") || targeted.has(l.name));
+
+  // Walk outward from every exit (cells in or next to a portal)
+  const canExit = new Uint8Array(width * height);
+  const queue: number[] = [];
+  for (const p of portals) {
+    for (let y = p.y - 1; y <= p.y + p.height; y++) {
+      for (let x = p.x - 1; x <= p.x + p.width; x++) {
+        if (!inBounds(x, y) || canExit[y * width + x]) continue;
+        canExit[y * width + x] = 1;
+        queue.push(y * width + x);
+      }
+    }
+  }
+  for (let head = 0; head < queue.length; head++) {
+    const i = queue[head];
+    const x = i % width;
+    const y = (i - x) / width;
+    for (const [nx, ny] of [[x, y - 1], [x + 1, y], [x, y + 1], [x - 1, y]]) {
+      if (blocked(nx, ny) || canExit[ny * width + nx]) continue;
+      canExit[ny * width + nx] = 1;
+      queue.push(ny * width + nx);
+    }
+  }
+
+  if (spawns.length > 0 && portals.length === 0) {
+    issues.push({ severity: "warning", code: "no-exit", message: "Map has spawn points but no portals to leave by" });
+  }
+  for (const s of spawns) {
+    if (!inBounds(s.x, s.y)) {
+      issues.push({ severity: "error", code: "spawn-bounds", message: `Spawn "${s.name}" is off the map`, x: s.x, y: s.y });
+    } else if (blocked(s.x, s.y)) {
+      issues.push({ severity: "error", code: "spawn-blocked", message: `Spawn "${s.name}" is on a collision tile`, x: s.x, y: s.y });
+    } else if (portals.length > 0 && !canExit[s.y * width + s.x]) {
+      issues.push({ severity: "error", code: "spawn-unreachable", message: `Spawn "${s.name}" can't reach any portal`, x: s.x, y: s.y });
+    }
+  }
+
+  // --- Objects and NPCs --------------------------------------------------------
+  const tileOf = (px: number, py: number) => ({ x: Math.floor(px / tileWidth), y: Math.floor(py / tileHeight) });
+  const objects = await ctx.db
+    .query("mapObjects")
+    .withIndex("by_map", (q) => q.eq("mapName", map.name))
+    .collect();
+  const defs = new Map<string, Doc<"spriteDefinitions"> | null>();
+  for (const o of objects) {
+    if (!defs.has(o.spriteDefName)) {
+      defs.set(
+        o.spriteDefName,
+        await ctx.db
+          .query("spriteDefinitions")
+          .withIndex("by_name", (q) => q.eq("name", o.spriteDefName))
+          .first(),
+      );
+    }
+    const def = defs.get(o.spriteDefName);
+    const isNpc = def?.category === "npc";
+    const label = isNpc ? `NPC "${o.instanceName ?? o.spriteDefName}"` : `Object "${o.spriteDefName}"`;
+    const tile = tileOf(o.x, o.y);
+
+    if (!inBounds(tile.x, tile.y)) {
+      issues.push({ severity: "error", code: "object-bounds", message: `${label} is off the map`, ...tile });
+    } else if (blocked(tile.x, tile.y)) {
+      // Solid props are often placed on blocked tiles on purpose; NPCs never are
+      issues.push({
+        severity: isNpc ? "error" : "warning",
+        code: "object-in-wall",
+        message: `${label} is inside a collision tile`,
+        ...tile,
+      });
+    }
+    if (!def) {
+      issues.push({ severity: "error", code: "object-sprite", message: `${label} uses missing sprite definition`, ...tile });
+    }
+    if (isNpc) {
+      const profile = o.instanceName
+        ? await ctx.db
+            .query("npcProfiles")
+            .withIndex("by_name", (q) => q.eq("name", o.instanceName!))
+            .first()
+        : null;
+      if (!profile) {
+        issues.push({
+          severity: "error",
+          code: "npc-profile",
+          message: o.instanceName
+            ? `${label} has no NPC profile`
+            : `NPC "${o.spriteDefName}" has no instance name (so no profile)`,
+          ...tile,
+        });
+      }
+    }
+  }
+
+  // --- World items -------------------------------------------------------------
+  const items = await ctx.db
+    .query("worldItems")
+    .withIndex("by_map", (q) => q.eq("mapName", map.name))
+    .collect();
+  const itemDefs = new Map<string, boolean>();
+  for (const item of items) {
+    const tile = tileOf(item.x, item.y);
+    const label = `Item "${item.itemDefName}"`;
+    if (!inBounds(tile.x, tile.y)) {
+      issues.push({ severity: "error", code: "item-bounds", message: `${label} is off the map`, ...tile });
+    } else if (blocked(tile.x, tile.y)) {
+      issues.push({ severity: "error", code: "item-in-wall", message: `${label} is inside a collision tile`, ...tile });
+    }
+    if (!itemDefs.has(item.itemDefName)) {
+      const def = await ctx.db
+        .query("itemDefs")
+        .withIndex("by_name", (q) => q.eq("name", item.itemDefName))
+        .first();
+      itemDefs.set(item.itemDefName, !!def);
+    }
+    if (!itemDefs.get(item.itemDefName)) {
+      issues.push({ severity: "error", code: "item-def", message: `${label} uses a missing item definition`, ...tile });
+    }
+  }
+
+  return issues;
+}
+
+/** Error message for a blocked publish (first few problems). */
+export function describeLintErrors(mapName: string, issues: MapLintIssue[]): string {
+  const errors = issues.filter((i) => i.severity === "error");
+  const shown = errors.slice(0, 5).map((i) => `  - ${i.message}`);
+  if (errors.length > shown.length) shown.push(`  - …and ${errors.length - shown.length} more`);
+  return `Can't publish "${mapName}": ${errors.length} problem(s) found\n${shown.join("\n")}`;
+}
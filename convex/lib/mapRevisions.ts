@@ -0,0 +1,712 @@
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+  COLLISION_LAYER_INDEX,
+  MAP_CHUNK_SIZE,
+  loadMapChunks,
+  type MapChunk,
+  splitIntoChunks,
+  stitchChunks,
+  writeMapGrids,
+} from "./mapChunks";
+import { sameContainer } from "./containers";
+
+/**
+ * Map revision history.
+ *
+ * Every full save appends a `mapRevisions` row holding the map's metadata,
+ * its mapObjects and worldItems (JSON) and references to its grid chunks.
+ * Chunk payloads live in `mapRevisionBlobs`. Only the chunks flagged `dirty`
+ * since the previous revision are read and stored again — the rest keep the
+ * previous revision's blob — so a save that touches one corner of a big map
+ * costs that corner, and its automatic summary only diffs those chunks.
+ * Reverting restores a revision and records the result as a new revision —
+ * history is append-only.
+ */
+
+export const MAX_REVISIONS_PER_MAP = 100;
+/** Oldest revisions dropped per save (more than one only after the limit is lowered) */
+const PRUNE_BATCH = 5;
+
+/** Map fields captured per revision (grids are stored as chunk refs). */
+export interface RevisionMapFields {
+  width: number;
+  height: number;
+  tileWidth: number;
+  tileHeight: number;
+  tilesetUrl?: string;
+  tilesetPxW: number;
+  tilesetPxH: number;
+  layers: { name: string; type: "bg" | "obj" | "overlay"; visible: boolean; tilesetUrl?: string }[];
+  labels: Doc<"maps">["labels"];
+  portals: NonNullable<Doc<"maps">["portals"]>;
+  animationUrl?: string;
+  musicUrl?: string;
+  ambientSoundUrl?: string;
+  combatEnabled?: boolean;
+  combatSettings?: Doc<"maps">["combatSettings"];
+  status?: string;
+  mapType?: string;
+}
+
+export interface RevisionObject {
+  _id?: string;
+  spriteDefName: string;
+  instanceName?: string;
+  x: number;
+  y: number;
+  layer: number;
+  scaleOverride?: number;
+  flipX?: boolean;
+  container?: Doc<"mapObjects">["container"];
+  requirements?: Doc<"mapObjects">["requirements"];
+}
+
+export interface RevisionItem {
+  _id?: string;
+  itemDefName: string;
+  x: number;
+  y: number;
+  quantity: number;
+  respawn?: boolean;
+  respawnMs?: number;
+}
+
+/** A revision with its grids decoded, used for diffing and revert. */
+export interface RevisionState {
+  map: RevisionMapFields;
+  grids: Map<number, unknown[]>;
+  objects: RevisionObject[];
+  items: RevisionItem[];
+}
+
+/** A revision's state apart from its grids */
+type RevisionStateFields = Omit<RevisionState, "grids">;
+
+// ---------------------------------------------------------------------------
+// Blobs
+// ---------------------------------------------------------------------------
+
+type ChunkRef = Doc<"mapRevisions">["chunks"][number];
+
+function chunkKey(c: { layerIndex: number; cx: number; cy: number }): string {
+  return `${c.layerIndex}:${c.cx}:${c.cy}`;
+}
+
+async function storeBlob(
+  ctx: MutationCtx,
+  mapId: Id<"maps">,
+  revision: number,
+  data: string,
+): Promise<Id<"mapRevisionBlobs">> {
+  return await ctx.db.insert("mapRevisionBlobs", { mapId, revision, data });
+}
+
+// ---------------------------------------------------------------------------
+// Capture
+// ---------------------------------------------------------------------------
+
+function mapFields(map: Doc<"maps">): RevisionMapFields {
+  return {
+    width: map.width,
+    height: map.height,
+    tileWidth: map.tileWidth,
+    tileHeight: map.tileHeight,
+    tilesetUrl: map.tilesetUrl,
+    tilesetPxW: map.tilesetPxW,
+    tilesetPxH: map.tilesetPxH,
+    layers: map.layers.map((l) => ({
+      name: l.name,
+      type: l.type,
+      visible: l.visible,
+      tilesetUrl: l.tilesetUrl,
+    })),
+    labels: map.labels,
+    portals: map.portals ?? [],
+    animationUrl: map.animationUrl,
+    musicUrl: map.musicUrl,
+    ambientSoundUrl: map.ambientSoundUrl,
+    combatEnabled: map.combatEnabled,
+    combatSettings: map.combatSettings,
+    status: map.status,
+    mapType: map.mapType,
+  };
+}
+
+/** Current grids of a map keyed by layer index (COLLISION_LAYER_INDEX for collision). */
+async function currentGrids(ctx: QueryCtx | MutationCtx, map: Doc<"maps">): Promise<Map<number, unknown[]>> {
+  const grids = new Map<number, unknown[]>();
+  if (map.chunkSize) {
+    const chunks = await loadMapChunks(ctx, map._id);
+    map.layers.forEach((_, i) =>
+      grids.set(i, stitchChunks(chunks, i, map.width, map.height, map.chunkSize!, -1)),
+    );
+    grids.set(
+      COLLISION_LAYER_INDEX,
+      stitchChunks(chunks, COLLISION_LAYER_INDEX, map.width, map.height, map.chunkSize, false),
+    );
+  } else {
+    map.layers.forEach((l, i) => grids.set(i, l.tiles ? JSON.parse(l.tiles) : []));
+    grids.set(COLLISION_LAYER_INDEX, map.collisionMask ? JSON.parse(map.collisionMask) : []);
+  }
+  return grids;
+}
+
+async function currentObjects(ctx: QueryCtx | MutationCtx, mapName: string): Promise<RevisionObject[]> {
+  const rows = await ctx.db
+    .query("mapObjects")
+    .withIndex("by_map", (q) => q.eq("mapName", mapName))
+    .collect();
+  return rows.map((o) => ({
+    _id: o._id,
+    spriteDefName: o.spriteDefName,
+    instanceName: o.instanceName,
+    x: o.x,
+    y: o.y,
+    layer: o.layer,
+    scaleOverride: o.scaleOverride,
+    flipX: o.flipX,
+    container: o.container,
+    requirements: o.requirements,
+  }));
+}
+
+async function currentItems(ctx: QueryCtx | MutationCtx, mapName: string): Promise<RevisionItem[]> {
+  const rows = await ctx.db
+    .query("worldItems")
+    .withIndex("by_map", (q) => q.eq("mapName", mapName))
+    .collect();
+  return rows.map((i) => ({
+    _id: i._id,
+    itemDefName: i.itemDefName,
+    x: i.x,
+    y: i.y,
+    quantity: i.quantity,
+    respawn: i.respawn,
+    respawnMs: i.respawnMs,
+  }));
+}
+
+export async function latestRevision(
+  ctx: QueryCtx | MutationCtx,
+  mapId: Id<"maps">,
+): Promise<Doc<"mapRevisions"> | null> {
+  return await ctx.db
+    .query("mapRevisions")
+    .withIndex("by_map_revision", (q) => q.eq("mapId", mapId))
+    .order("desc")
+    .first();
+}
+
+/** A chunk captured in a new revision, with its content for diffing */
+interface CapturedChunk {
+  layerIndex: number;
+  cx: number;
+  cy: number;
+  data: string;
+}
+
+/**
+ * Chunk refs for a new revision that follows `prev`: the chunks flagged
+ * dirty since get new blobs; every other chunk still on the map keeps
+ * `prev`'s blob. Clears the flags.
+ */
+async function captureDirtyChunks(
+  ctx: MutationCtx,
+  map: Doc<"maps">,
+  prev: Doc<"mapRevisions">,
+  revision: number,
+): Promise<{ chunks: ChunkRef[]; changed: CapturedChunk[] }> {
+  // Layers removed or the map shrunk: their chunks are gone from the map too
+  const onMap = (c: ChunkRef) =>
+    c.cx * MAP_CHUNK_SIZE < map.width &&
+    c.cy * MAP_CHUNK_SIZE < map.height &&
+    (c.layerIndex === COLLISION_LAYER_INDEX || c.layerIndex < map.layers.length);
+  const refs = new Map(prev.chunks.filter(onMap).map((c) => [chunkKey(c), c]));
+
+  const dirty = await ctx.db
+    .query("mapChunks")
+    .withIndex("by_map_dirty", (q) => q.eq("mapId", map._id).eq("dirty", true))
+    .collect();
+  const changed: CapturedChunk[] = [];
+  for (const c of dirty) {
+    const { layerIndex, cx, cy, data } = c;
+    refs.set(chunkKey(c), { layerIndex, cx, cy, blobId: await storeBlob(ctx, map._id, revision, data) });
+    changed.push({ layerIndex, cx, cy, data });
+    await ctx.db.patch(c._id, { dirty: undefined });
+  }
+  return { chunks: [...refs.values()], changed };
+}
+
+/** Chunk refs for a revision that stores every chunk (first revision, legacy maps) */
+async function captureAllChunks(
+  ctx: MutationCtx,
+  map: Doc<"maps">,
+  revision: number,
+): Promise<{ chunks: ChunkRef[]; changed: CapturedChunk[] }> {
+  const changed: CapturedChunk[] = [];
+  if (map.chunkSize === MAP_CHUNK_SIZE) {
+    for (const c of await loadMapChunks(ctx, map._id)) {
+      changed.push({ layerIndex: c.layerIndex, cx: c.cx, cy: c.cy, data: c.data });
+      if (c.dirty) await ctx.db.patch(c._id, { dirty: undefined });
+    }
+  } else {
+    for (const [layerIndex, cells] of await currentGrids(ctx, map)) {
+      const fill = layerIndex === COLLISION_LAYER_INDEX ? false : -1;
+      for (const chunk of splitIntoChunks(cells, map.width, map.height, fill, MAP_CHUNK_SIZE)) {
+        changed.push({ layerIndex, ...chunk });
+      }
+    }
+  }
+  const chunks: ChunkRef[] = [];
+  for (const c of changed) {
+    chunks.push({ layerIndex: c.layerIndex, cx: c.cx, cy: c.cy, blobId: await storeBlob(ctx, map._id, revision, c.data) });
+  }
+  return { chunks, changed };
+}
+
+/**
+ * Snapshot a map (as currently stored) plus its objects and items.
+ * `summary` defaults to an automatic description of what changed since the
+ * previous revision. Returns the new revision number.
+ */
+export async function recordMapRevision(
+  ctx: MutationCtx,
+  mapId: Id<"maps">,
+  authorProfileId: Id<"profiles"> | undefined,
+  summary?: string,
+): Promise<number> {
+  const map = await ctx.db.get(mapId);
+  if (!map) throw new Error("Map not found");
+
+  const prev = await latestRevision(ctx, mapId);
+  const revision = (prev?.revision ?? 0) + 1;
+  const after: RevisionStateFields = {
+    map: mapFields(map),
+    objects: await currentObjects(ctx, map.name),
+    items: await currentItems(ctx, map.name),
+  };
+  // Revisions from before dirty tracking may predate unflagged chunk writes
+  const incremental = !!prev?.dirtyTracked && prev.chunkSize === MAP_CHUNK_SIZE && map.chunkSize === MAP_CHUNK_SIZE;
+  const { chunks, changed } = incremental
+    ? await captureDirtyChunks(ctx, map, prev!, revision)
+    : await captureAllChunks(ctx, map, revision);
+
+  if (!summary) {
+    summary = prev
+      ? summarizeDiff(await diffAgainstRevision(ctx, prev, after, changed))
+      : "Initial revision";
+  }
+
+  const author = authorProfileId ? await ctx.db.get(authorProfileId) : null;
+  await ctx.db.insert("mapRevisions", {
+    mapId,
+    mapName: map.name,
+    revision,
+    authorProfileId,
+    authorName: author?.name,
+    createdAt: Date.now(),
+    summary,
+    chunkSize: MAP_CHUNK_SIZE,
+    mapJson: JSON.stringify(after.map),
+    chunks,
+    objectsJson: JSON.stringify(after.objects),
+    itemsJson: JSON.stringify(after.items),
+    dirtyTracked: true,
+  });
+
+  await pruneRevisions(ctx, mapId, revision);
+  return revision;
+}
+
+/**
+ * Drop the oldest revisions beyond MAX_REVISIONS_PER_MAP and the blobs only
+ * they used. A blob is shared by a run of consecutive revisions (its chunk
+ * stayed unchanged), so one the oldest kept revision doesn't use is done
+ * with. Legacy blobs, once shared by content, are left to deleteMapRevisions.
+ */
+async function pruneRevisions(ctx: MutationCtx, mapId: Id<"maps">, latest: number) {
+  const stale = await ctx.db
+    .query("mapRevisions")
+    .withIndex("by_map_revision", (q) => q.eq("mapId", mapId).lte("revision", latest - MAX_REVISIONS_PER_MAP))
+    .order("asc")
+    .take(PRUNE_BATCH);
+  if (stale.length === 0) return;
+
+  const oldestKept = await ctx.db
+    .query("mapRevisions")
+    .withIndex("by_map_revision", (q) => q.eq("mapId", mapId).gt("revision", stale[stale.length - 1].revision))
+    .order("asc")
+    .first();
+  const kept = new Set<string>(oldestKept?.chunks.map((c) => c.blobId) ?? []);
+  const dropped = new Set<Id<"mapRevisionBlobs">>();
+  for (const r of stale) {
+    for (const c of r.chunks) if (!kept.has(c.blobId)) dropped.add(c.blobId);
+    await ctx.db.delete(r._id);
+  }
+  for (const id of dropped) {
+    const blob = await ctx.db.get(id);
+    if (blob?.revision !== undefined) await ctx.db.delete(id);
+  }
+}
+
+/** Delete all history for a map (when the map itself is deleted). */
+export async function deleteMapRevisions(ctx: MutationCtx, mapId: Id<"maps">): Promise<number> {
+  const revisions = await ctx.db
+    .query("mapRevisions")
+    .withIndex("by_map_revision", (q) => q.eq("mapId", mapId))
+    .collect();
+  for (const r of revisions) await ctx.db.delete(r._id);
+  const blobs = await ctx.db
+    .query("mapRevisionBlobs")
+    .withIndex("by_map_hash", (q) => q.eq("mapId", mapId))
+    .collect();
+  for (const b of blobs) await ctx.db.delete(b._id);
+  return revisions.length;
+}
+
+// ---------------------------------------------------------------------------
+// Load + diff
+// ---------------------------------------------------------------------------
+
+export async function loadRevisionState(
+  ctx: QueryCtx | MutationCtx,
+  rev: Doc<"mapRevisions">,
+): Promise<RevisionState> {
+  const map = JSON.parse(rev.mapJson) as RevisionMapFields;
+  const chunks: MapChunk[] = [];
+  for (const c of rev.chunks) {
+    const blob = await ctx.db.get(c.blobId);
+    if (blob) chunks.push({ layerIndex: c.layerIndex, cx: c.cx, cy: c.cy, data: blob.data });
+  }
+  const grids = new Map<number, unknown[]>();
+  map.layers.forEach((_, i) =>
+    grids.set(i, stitchChunks(chunks, i, map.width, map.height, rev.chunkSize, -1)),
+  );
+  grids.set(
+    COLLISION_LAYER_INDEX,
+    stitchChunks(chunks, COLLISION_LAYER_INDEX, map.width, map.height, rev.chunkSize, false),
+  );
+  return {
+    map,
+    grids,
+    objects: JSON.parse(rev.objectsJson),
+    items: JSON.parse(rev.itemsJson),
+  };
+}
+
+export interface RevisionDiff {
+  resized: { from: string; to: string } | null;
+  layers: {
+    name: string;
+    change: "added" | "removed" | "changed";
+    tilesChanged: number;
+    /** Bounding box of changed tiles (tile coords), when any */
+    bounds?: CellChanges["bounds"];
+  }[];
+  collisionChanged: number;
+  portals: { name: string; change: "added" | "removed" | "changed" }[];
+  labels: { name: string; change: "added" | "removed" | "changed" }[];
+  objects: { added: number; removed: number; moved: number };
+  items: { added: number; removed: number; moved: number };
+  settings: string[];
+}
+
+interface CellChanges {
+  count: number;
+  /** Bounding box of changed tiles (tile coords), when any */
+  bounds?: { x: number; y: number; w: number; h: number };
+}
+
+/** Cells that differ between two row-major regions `width` wide, placed at (x0, y0) */
+function countCellChanges(a: unknown[], b: unknown[], width: number, x0 = 0, y0 = 0): CellChanges {
+  let count = 0;
+  let minX = Infinity, minY = Infinity, maxX = -1, maxY = -1;
+  const n = Math.max(a.length, b.length);
+  for (let i = 0; i < n; i++) {
+    if ((a[i] ?? null) === (b[i] ?? null)) continue;
+    count++;
+    const x = x0 + (i % width);
+    const y = y0 + Math.floor(i / width);
+    minX = Math.min(minX, x); minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x); maxY = Math.max(maxY, y);
+  }
+  return {
+    count,
+    bounds: count > 0 ? { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 } : undefined,
+  };
+}
+
+function mergeCellChanges(a: CellChanges | undefined, b: CellChanges): CellChanges {
+  if (!a?.bounds) return b.bounds ? b : { count: (a?.count ?? 0) + b.count };
+  if (!b.bounds) return a;
+  const x = Math.min(a.bounds.x, b.bounds.x);
+  const y = Math.min(a.bounds.y, b.bounds.y);
+  const right = Math.max(a.bounds.x + a.bounds.w, b.bounds.x + b.bounds.w);
+  const bottom = Math.max(a.bounds.y + a.bounds.h, b.bounds.y + b.bounds.h);
+  return { count: a.count + b.count, bounds: { x, y, w: right - x, h: bottom - y } };
+}
+
+/** Tile changes per layer (by its index after) and collision cells changed */
+interface GridChanges {
+  layers: Map<number, CellChanges>;
+  collision: number;
+}
+
+function diffNamed<T extends { name: string }>(before: T[], after: T[]) {
+  const out: { name: string; change: "added" | "removed" | "changed" }[] = [];
+  const prev = new Map(before.map((x) => [x.name, JSON.stringify(x)]));
+  const next = new Map(after.map((x) => [x.name, JSON.stringify(x)]));
+  for (const [name, json] of next) {
+    if (!prev.has(name)) out.push({ name, change: "added" });
+    else if (prev.get(name) !== json) out.push({ name, change: "changed" });
+  }
+  for (const name of prev.keys()) if (!next.has(name)) out.push({ name, change: "removed" });
+  return out;
+}
+
+/** Match placed things by id first, then by identical content. */
+function diffPlaced<T extends { _id?: string; x: number; y: number }>(
+  before: T[],
+  after: T[],
+  key: (t: T) => string,
+) {
+  const unmatched = [...before];
+  let moved = 0;
+  let added = 0;
+  for (const a of after) {
+    let idx = a._id ? unmatched.findIndex((b) => b._id === a._id) : -1;
+    if (idx < 0) idx = unmatched.findIndex((b) => key(b) === key(a) && b.x === a.x && b.y === a.y);
+    if (idx < 0) {
+      added++;
+      continue;
+    }
+    const [b] = unmatched.splice(idx, 1);
+    if (b.x !== a.x || b.y !== a.y) moved++;
+  }
+  return { added, removed: unmatched.length, moved };
+}
+
+/** Where each layer after sat before, by name (undefined for new layers) */
+function beforeLayerIndex(before: RevisionMapFields, after: RevisionMapFields): (afterIndex: number) => number | undefined {
+  const byName = new Map(before.layers.map((l, i) => [l.name, i]));
+  return (i) => byName.get(after.layers[i].name);
+}
+
+function sameSize(before: RevisionMapFields, after: RevisionMapFields): boolean {
+  return before.width === after.width && before.height === after.height;
+}
+
+function buildDiff(before: RevisionStateFields, after: RevisionStateFields, grid: GridChanges): RevisionDiff {
+  const resized = !sameSize(before.map, after.map);
+  const beforeIndex = beforeLayerIndex(before.map, after.map);
+
+  const layers: RevisionDiff["layers"] = [];
+  const afterNames = new Set(after.map.layers.map((l) => l.name));
+  after.map.layers.forEach((l, i) => {
+    const bi = beforeIndex(i);
+    if (bi === undefined) {
+      layers.push({ name: l.name, change: "added", tilesChanged: 0 });
+      return;
+    }
+    const { count, bounds } = resized
+      ? { count: after.map.width * after.map.height, bounds: undefined }
+      : grid.layers.get(i) ?? { count: 0, bounds: undefined };
+    const metaChanged = JSON.stringify({ ...before.map.layers[bi], name: "" }) !==
+      JSON.stringify({ ...l, name: "" });
+    if (count > 0 || metaChanged) layers.push({ name: l.name, change: "changed", tilesChanged: count, bounds });
+  });
+  for (const l of before.map.layers) {
+    if (!afterNames.has(l.name)) layers.push({ name: l.name, change: "removed", tilesChanged: 0 });
+  }
+
+  const settings: string[] = [];
+  for (const key of [
+    "tilesetUrl", "musicUrl", "ambientSoundUrl", "animationUrl",
+    "combatEnabled", "combatSettings", "status", "mapType",
+  ] as const) {
+    if (JSON.stringify(before.map[key] ?? null) !== JSON.stringify(after.map[key] ?? null)) {
+      settings.push(key);
+    }
+  }
+
+  return {
+    resized: resized
+      ? { from: `${before.map.width}x${before.map.height}`, to: `${after.map.width}x${after.map.height}` }
+      : null,
+    layers,
+    collisionChanged: resized ? 0 : grid.collision,
+    portals: diffNamed(before.map.portals, after.map.portals),
+    labels: diffNamed(before.map.labels, after.map.labels),
+    objects: diffPlaced(before.objects, after.objects, (o) => `${o.spriteDefName}:${o.instanceName ?? ""}`),
+    items: diffPlaced(before.items, after.items, (i) => i.itemDefName),
+    settings,
+  };
+}
+
+export function diffRevisionStates(before: RevisionState, after: RevisionState): RevisionDiff {
+  const grid: GridChanges = { layers: new Map(), collision: 0 };
+  if (sameSize(before.map, after.map)) {
+    const width = after.map.width;
+    const beforeIndex = beforeLayerIndex(before.map, after.map);
+    after.map.layers.forEach((_, i) => {
+      const bi = beforeIndex(i);
+      if (bi !== undefined) grid.layers.set(i, countCellChanges(before.grids.get(bi) ?? [], after.grids.get(i) ?? [], width));
+    });
+    grid.collision = countCellChanges(
+      (before.grids.get(COLLISION_LAYER_INDEX) ?? []).map(Boolean),
+      (after.grids.get(COLLISION_LAYER_INDEX) ?? []).map(Boolean),
+      width,
+    ).count;
+  }
+  return buildDiff(before, after, grid);
+}
+
+/**
+ * What changed since `prev`, comparing only the chunks captured since then
+ * (`changed`) with the same chunks in `prev` — the rest are unchanged.
+ */
+async function diffAgainstRevision(
+  ctx: QueryCtx | MutationCtx,
+  prev: Doc<"mapRevisions">,
+  after: RevisionStateFields,
+  changed: CapturedChunk[],
+): Promise<RevisionDiff> {
+  const before: RevisionStateFields = {
+    map: JSON.parse(prev.mapJson),
+    objects: JSON.parse(prev.objectsJson),
+    items: JSON.parse(prev.itemsJson),
+  };
+  const grid: GridChanges = { layers: new Map(), collision: 0 };
+  if (sameSize(before.map, after.map)) {
+    const prevRefs = new Map(prev.chunks.map((c) => [chunkKey(c), c]));
+    const beforeIndex = beforeLayerIndex(before.map, after.map);
+    for (const c of changed) {
+      const collision = c.layerIndex === COLLISION_LAYER_INDEX;
+      const bi = collision ? COLLISION_LAYER_INDEX : beforeIndex(c.layerIndex);
+      if (bi === undefined) continue;
+      const ref = prevRefs.get(chunkKey({ ...c, layerIndex: bi }));
+      const blob = ref ? await ctx.db.get(ref.blobId) : null;
+      const x0 = c.cx * prev.chunkSize;
+      const y0 = c.cy * prev.chunkSize;
+      const width = Math.min(prev.chunkSize, after.map.width - x0);
+      const cells = JSON.parse(c.data) as unknown[];
+      const old = blob ? (JSON.parse(blob.data) as unknown[]) : [];
+      if (collision) {
+        grid.collision += countCellChanges(old.map(Boolean), cells.map(Boolean), width).count;
+      } else {
+        grid.layers.set(c.layerIndex, mergeCellChanges(grid.layers.get(c.layerIndex), countCellChanges(old, cells, width, x0, y0)));
+      }
+    }
+  }
+  return buildDiff(before, after, grid);
+}
+
+/** One-line description of a diff, used as the automatic revision summary. */
+export function summarizeDiff(d: RevisionDiff): string {
+  const parts: string[] = [];
+  if (d.resized) parts.push(`resized ${d.resized.from} → ${d.resized.to}`);
+  const tileCount = d.layers.reduce((n, l) => n + l.tilesChanged, 0);
+  const changedLayers = d.layers.filter((l) => l.change === "changed").map((l) => l.name);
+  if (changedLayers.length > 0) parts.push(`${tileCount} tiles on ${changedLayers.join(", ")}`);
+  for (const l of d.layers.filter((l) => l.change !== "changed")) parts.push(`layer ${l.name} ${l.change}`);
+  if (d.collisionChanged > 0) parts.push(`${d.collisionChanged} collision cells`);
+  const named = (what: string, list: RevisionDiff["portals"]) => {
+    for (const change of ["added", "removed", "changed"] as const) {
+      const names = list.filter((x) => x.change === change).map((x) => x.name);
+      if (names.length > 0) parts.push(`${what} ${change}: ${names.join(", ")}`);
+    }
+  };
+  named("portals", d.portals);
+  named("labels", d.labels);
+  const placed = (what: string, p: RevisionDiff["objects"]) => {
+    const bits = [
+      p.added ? `+${p.added}` : "",
+      p.removed ? `-${p.removed}` : "",
+      p.moved ? `${p.moved} moved` : "",
+    ].filter(Boolean);
+    if (bits.length > 0) parts.push(`${what} ${bits.join(" ")}`);
+  };
+  placed("objects", d.objects);
+  placed("items", d.items);
+  if (d.settings.length > 0) parts.push(`settings: ${d.settings.join(", ")}`);
+  return parts.length > 0 ? parts.join("; ") : "No changes";
+}
+
+// ---------------------------------------------------------------------------
+// Revert
+// ---------------------------------------------------------------------------
+
+/**
+ * Restore a map and its mapObjects to a revision. Objects that still exist
+ * are patched in place (keeping runtime state such as isOn); the rest are
+ * recreated. The map's publish `status` and `mapType` stay as they are —
+ * those only change through their own checks (maps.ts).
+ *
+ * Container contents follow the same rule as the editor
+ * (mechanics/containers.checkContainerEdit): restoring ones that differ, or
+ * recreating a deleted container, is superuser-only. worldItems are only
+ * restored for superusers — anyone else could bring back items they'd
+ * picked up.
+ */
+export async function restoreRevision(
+  ctx: MutationCtx,
+  map: Doc<"maps">,
+  rev: Doc<"mapRevisions">,
+  profileId: Id<"profiles">,
+) {
+  const state = await loadRevisionState(ctx, rev);
+  const now = Date.now();
+  const profile = await ctx.db.get(profileId);
+  const isSuperuser = profile?.role === "superuser";
+
+  const { status: _status, mapType: _mapType, ...settings } = state.map;
+  await ctx.db.patch(map._id, {
+    ...settings,
+    layers: settings.layers.map((l) => ({ ...l, tiles: "" })),
+    collisionMask: "",
+    chunkSize: MAP_CHUNK_SIZE,
+    updatedAt: now,
+  });
+  await writeMapGrids(ctx, map._id, state.map.width, state.map.height, state.grids, true);
+
+  const existingObjects = await ctx.db
+    .query("mapObjects")
+    .withIndex("by_map", (q) => q.eq("mapName", map.name))
+    .collect();
+  const keptObjects = new Set<string>();
+  for (const { _id, ...fields } of state.objects) {
+    const current = _id ? existingObjects.find((o) => o._id === _id) : undefined;
+    if (!isSuperuser && fields.container && !sameContainer(fields.container, current?.container)) {
+      throw new Error("Permission denied: only superusers can restore container contents");
+    }
+    if (current) {
+      keptObjects.add(current._id);
+      await ctx.db.patch(current._id, { ...fields, updatedAt: now });
+    } else {
+      await ctx.db.insert("mapObjects", { mapName: map.name, ...fields, updatedAt: now });
+    }
+  }
+  for (const o of existingObjects) {
+    if (!keptObjects.has(o._id)) await ctx.db.delete(o._id);
+  }
+
+  if (!isSuperuser) return;
+  const existingItems = await ctx.db
+    .query("worldItems")
+    .withIndex("by_map", (q) => q.eq("mapName", map.name))
+    .collect();
+  const keptItems = new Set<string>();
+  for (const { _id, ...fields } of state.items) {
+    const current = _id ? existingItems.find((i) => i._id === _id) : undefined;
+    if (current) {
+      keptItems.add(current._id);
+      await ctx.db.patch(current._id, { ...fields, updatedAt: now });
+    } else {
+      await ctx.db.insert("worldItems", { mapName: map.name, ...fields, placedBy: profileId, updatedAt: now });
+    }
+  }
+  for (const i of existingItems) {
+    if (!keptItems.has(i._id)) await ctx.db.delete(i._id);
+  }
+}
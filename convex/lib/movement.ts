@@ -0,0 +1,363 @@
+import type { MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { findPath, hasLineOfSight, isBlockedTile, loadNavGrid, worldToTile } from "./pathfinding";
+import type { NavGrid, TilePoint } from "./pathfinding";
+import { findMapByName } from "./renameMap";
+import { checkLockedDestination, checkPassed, nearestPortalPoint, portalLockId } from "./locks";
+
+/**
+ * Server-side movement validation for player position reports.
+ *
+ * A move on the same map must be walkable: reachable around walls and
+ * closed doors along a path no longer than the player could cover (sprint
+ * speed × time since the last accepted position, with headroom for network
+ * jitter). The jitter allowance is per report, so the move must also be in
+ * budget from the presence row's anchor — an accepted position up to
+ * MOVE_ANCHOR_MS old — which keeps frequent reports from adding it up. A map change where the old map has portals to the new one must
+ * go through one: from its zone to its target spawn, past its lock. Any
+ * other arrival — joining, or travelling from the map browser — must land
+ * on a spawn label or, when rejoining, where the profile was last saved,
+ * and may not reach a map whose every way in is locked for the player.
+ * Reports that leave out the map are checked against the map the player is
+ * already on.
+ *
+ * Rejected moves aren't written; the caller answers with a snap-back to the
+ * last accepted position. Each rejection counts against the profile, and
+ * enough of them in a short window flags it for admins (`playerFlags`).
+ */
+
+// Keep in sync with src/config/multiplayer-config.ts
+const PLAYER_MOVE_SPEED = 120;
+const PLAYER_SPRINT_MULTIPLIER = 1.5;
+
+/** Headroom over top speed (frame-time spikes, rounding) */
+const MOVE_SPEED_TOLERANCE = 1.25;
+/** Fixed allowance (px) for reports bunching up in transit */
+const MOVE_SLACK_PX = 48;
+/** How long an anchor is measured from before it moves up to the latest position */
+const MOVE_ANCHOR_MS = 2_000;
+/** Longest gap between reports we budget movement for */
+const MAX_BUDGET_MS = 10_000;
+/** How far (px) from a spawn label or saved position an arrival may land */
+const ARRIVAL_TOLERANCE_PX = 96;
+/** Node budget for the reachability search */
+const MOVE_SEARCH_NODES = 4000;
+
+/** Reports still in flight when a snap-back is sent aren't held against the player */
+const SNAP_BACK_GRACE_MS = 1_000;
+/** Rejections within this window count toward a flag */
+const VIOLATION_WINDOW_MS = 60_000;
+/** Rejections within the window that flag a profile for admins */
+const VIOLATION_FLAG_THRESHOLD = 5;
+
+export type MoveRejection = "unknown-map" | "blocked" | "too-fast" | "unreachable" | "bad-arrival" | "locked";
+
+export interface MapPosition {
+  mapName?: string;
+  x: number;
+  y: number;
+}
+
+export type MoveCheck = { ok: true } | { ok: false; reason: MoveRejection; message: string };
+
+/** What position-reporting mutations return; clients snap back on rejection */
+export type MoveResult =
+  | { accepted: true }
+  | { accepted: false; reason: MoveRejection; message: string; snapTo: MapPosition | null };
+
+const accept: MoveCheck = { ok: true };
+const reject = (reason: MoveRejection, message: string): MoveCheck => ({ ok: false, reason, message });
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+/** Largest distance (px) a player can walk in `elapsedMs`. */
+export function moveBudgetPx(elapsedMs: number): number {
+  const seconds = Math.min(Math.max(elapsedMs, 0), MAX_BUDGET_MS) / 1000;
+  return PLAYER_MOVE_SPEED * PLAYER_SPRINT_MULTIPLIER * MOVE_SPEED_TOLERANCE * seconds + MOVE_SLACK_PX;
+}
+
+/** Length (px) of a tile path walked from `start` */
+function pathLengthPx(grid: NavGrid, start: TilePoint, path: TilePoint[]): number {
+  let length = 0;
+  let prev = start;
+  for (const t of path) {
+    length += Math.hypot((t.x - prev.x) * grid.tileWidth, (t.y - prev.y) * grid.tileHeight);
+    prev = t;
+  }
+  return length;
+}
+
+/** The presence row's anchor after accepting a move to `to` on `mapName` */
+export function nextAnchor(
+  presence: Doc<"presence"> | null,
+  mapName: string | undefined,
+  to: { x: number; y: number },
+  now: number,
+): NonNullable<Doc<"presence">["anchor"]> {
+  const anchor = presence?.mapName === mapName ? presence?.anchor : undefined;
+  if (anchor && now - anchor.at < MOVE_ANCHOR_MS) return anchor;
+  return { x: to.x, y: to.y, at: now };
+}
+
+/**
+ * Validate a move on one map from the last accepted position, `elapsedMs`
+ * later, and in straight-line budget from `anchor` (an earlier accepted
+ * position). Moves within a tile are always fine; otherwise the target tile
+ * must be open (staying put on a tile a door just closed over is allowed)
+ * and reachable within the distance budget.
+ */
+export async function checkWalk(
+  ctx: MutationCtx,
+  mapName: string,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  elapsedMs: number,
+  anchor?: { x: number; y: number; elapsedMs: number },
+): Promise<MoveCheck> {
+  const budget = moveBudgetPx(elapsedMs);
+  const straight = Math.hypot(to.x - from.x, to.y - from.y);
+  if (straight > budget) {
+    return reject("too-fast", `Moved ${Math.round(straight)}px in ${Math.round(elapsedMs)}ms (max ${Math.round(budget)}px)`);
+  }
+  if (anchor) {
+    const sinceAnchor = Math.hypot(to.x - anchor.x, to.y - anchor.y);
+    const anchorBudget = moveBudgetPx(anchor.elapsedMs);
+    if (sinceAnchor > anchorBudget) {
+      return reject(
+        "too-fast",
+        `Moved ${Math.round(sinceAnchor)}px in ${Math.round(anchor.elapsedMs)}ms (max ${Math.round(anchorBudget)}px)`,
+      );
+    }
+  }
+
+  const grid = await loadNavGrid(ctx, mapName);
+  if (!grid) return reject("unknown-map", `Map "${mapName}" not found`);
+  const start = worldToTile(grid, from.x, from.y);
+  const goal = worldToTile(grid, to.x, to.y);
+  if (start.x === goal.x && start.y === goal.y) return accept;
+  if (isBlockedTile(grid, goal.x, goal.y)) {
+    return reject("blocked", `Moved into a blocked tile (${goal.x}, ${goal.y})`);
+  }
+  // Straight line over open tiles: no need to search
+  if (!isBlockedTile(grid, start.x, start.y) && hasLineOfSight(grid, start, goal)) return accept;
+
+  const path = findPath(grid, start, goal, MOVE_SEARCH_NODES);
+  if (!path) return reject("unreachable", `No walkable path from (${start.x}, ${start.y}) to (${goal.x}, ${goal.y})`);
+  // Tile paths run centre to centre; allow a tile of difference for where in
+  // the end tiles the player actually stood
+  const walked = pathLengthPx(grid, start, path) - Math.max(grid.tileWidth, grid.tileHeight);
+  if (walked > budget) {
+    return reject("too-fast", `Walked ~${Math.round(walked)}px around walls in ${Math.round(elapsedMs)}ms (max ${Math.round(budget)}px)`);
+  }
+  return accept;
+}
+
+/** Where the client puts a player arriving at a label (centre of its tile) */
+function labelPoint(map: Doc<"maps">, label: Doc<"maps">["labels"][number]): { x: number; y: number } {
+  return { x: (label.x + 0.5) * map.tileWidth, y: (label.y + 0.5) * map.tileHeight };
+}
+
+function isNear(a: { x: number; y: number }, b: { x: number; y: number }): boolean {
+  return Math.hypot(a.x - b.x, a.y - b.y) <= ARRIVAL_TOLERANCE_PX;
+}
+
+/** Refusal for landing on a blocked tile, or null */
+async function checkLanding(ctx: MutationCtx, map: Doc<"maps">, to: MapPosition): Promise<MoveCheck | null> {
+  const grid = await loadNavGrid(ctx, map.name);
+  const tile = grid ? worldToTile(grid, to.x, to.y) : null;
+  if (grid && tile && isBlockedTile(grid, tile.x, tile.y)) {
+    return reject("blocked", `Arrived on a blocked tile (${tile.x}, ${tile.y})`);
+  }
+  return null;
+}
+
+/**
+ * Validate a map change from `from`, where the player was last seen `at`,
+ * through one of its portals to the reported map: they must have stood at
+ * the portal, land at its target spawn (or the map's first label, as the
+ * client does) and have passed its lock. Null when no portal on `from`
+ * leads there or the player wasn't at one, leaving it an ordinary arrival.
+ */
+async function checkPortalTransit(
+  ctx: MutationCtx,
+  profile: Doc<"profiles">,
+  from: Doc<"maps">,
+  at: { x: number; y: number },
+  to: MapPosition & { mapName: string },
+): Promise<MoveCheck | null> {
+  const portals = (from.portals ?? []).filter(
+    (p) => p.targetMap === to.mapName && isNear(at, nearestPortalPoint(from, p, at.x, at.y)),
+  );
+  if (portals.length === 0) return null;
+  const map = await findMapByName(ctx, to.mapName);
+  if (!map) return reject("unknown-map", `Map "${to.mapName}" not found`);
+
+  let refusal: MoveCheck | null = null;
+  for (const portal of portals) {
+    const label = map.labels.find((l) => l.name === portal.targetSpawn) ?? map.labels[0];
+    if (!label || !isNear(to, labelPoint(map, label))) continue;
+    const locked = await checkPassed(ctx, profile, portal.requirements, portalLockId(from._id, portal.name));
+    if (!locked) return (await checkLanding(ctx, map, to)) ?? accept;
+    refusal ??= reject("locked", locked.reason);
+  }
+  return refusal;
+}
+
+/**
+ * Validate arriving on a map other than through a portal (joining, or
+ * travelling from the map browser): the position must be open and near
+ * `saved`, the profile's last saved position there, or one of the map's
+ * labels (spawns and portal targets) — and for a label, not one the
+ * player could only reach through portals locked for them.
+ */
+export async function checkArrival(
+  ctx: MutationCtx,
+  profile: Doc<"profiles">,
+  to: MapPosition & { mapName: string },
+  saved?: MapPosition,
+): Promise<MoveCheck> {
+  const map = await findMapByName(ctx, to.mapName);
+  if (!map) return reject("unknown-map", `Map "${to.mapName}" not found`);
+  const blocked = await checkLanding(ctx, map, to);
+  if (blocked) return blocked;
+
+  if (saved && saved.mapName === map.name && isNear(to, saved)) return accept;
+  const labels = map.labels.filter((label) => isNear(to, labelPoint(map, label))).map((label) => label.name);
+  if (labels.length === 0) {
+    return reject("bad-arrival", `Arrived on "${map.name}" away from any spawn point`);
+  }
+  const locked = await checkLockedDestination(ctx, profile, map.name, labels);
+  if (locked) return reject("locked", locked);
+  return accept;
+}
+
+/**
+ * The map a report is on: the one it names, else the one the player was
+ * last seen or saved on. Undefined when there's nothing to go by.
+ */
+export function reportedMapName(
+  profile: Doc<"profiles">,
+  presence: Doc<"presence"> | null,
+  to: MapPosition,
+): string | undefined {
+  return to.mapName ?? presence?.mapName ?? profile.mapName;
+}
+
+/**
+ * Validate a reported position against what the server last accepted: a
+ * walk when it's on the same map as the presence row, otherwise a trip
+ * through a portal or, failing that, an arrival.
+ */
+export async function checkMove(
+  ctx: MutationCtx,
+  profile: Doc<"profiles">,
+  presence: Doc<"presence"> | null,
+  to: MapPosition,
+): Promise<MoveCheck> {
+  const mapName = reportedMapName(profile, presence, to);
+  if (!mapName) return reject("unknown-map", "Reported a position without a map");
+  if (presence && presence.mapName === mapName) {
+    const now = Date.now();
+    const elapsed = now - (presence.validatedAt ?? presence.lastSeen);
+    const anchor = presence.anchor && { ...presence.anchor, elapsedMs: now - presence.anchor.at };
+    return await checkWalk(ctx, mapName, presence, to, elapsed, anchor);
+  }
+  const arrival = { ...to, mapName };
+  if (presence?.mapName) {
+    const from = await findMapByName(ctx, presence.mapName);
+    const transit = from ? await checkPortalTransit(ctx, profile, from, presence, arrival) : null;
+    if (transit) return transit;
+  }
+  const saved = profile.x != null && profile.y != null
+    ? { mapName: profile.mapName, x: profile.x, y: profile.y }
+    : undefined;
+  return await checkArrival(ctx, profile, arrival, saved);
+}
+
+// ---------------------------------------------------------------------------
+// Violations
+// ---------------------------------------------------------------------------
+
+/**
+ * Count a rejected move against a profile. Returns true once the profile is
+ * flagged for admins.
+ */
+async function recordMoveViolation(
+  ctx: MutationCtx,
+  profileId: Id<"profiles">,
+  check: Extract<MoveCheck, { ok: false }>,
+  at: MapPosition,
+): Promise<boolean> {
+  const now = Date.now();
+  const existing = await ctx.db
+    .query("playerFlags")
+    .withIndex("by_profile_kind", (q) => q.eq("profileId", profileId).eq("kind", "movement"))
+    .first();
+
+  const recent = (existing?.recentAt ?? []).filter((t) => now - t < VIOLATION_WINDOW_MS);
+  recent.push(now);
+  const flagged = (existing?.flagged ?? false) || recent.length >= VIOLATION_FLAG_THRESHOLD;
+  const fields = {
+    count: (existing?.count ?? 0) + 1,
+    recentAt: recent.slice(-VIOLATION_FLAG_THRESHOLD),
+    flagged,
+    lastReason: check.reason,
+    lastMessage: check.message,
+    lastMapName: at.mapName,
+    lastX: at.x,
+    lastY: at.y,
+    lastAt: now,
+  };
+  if (existing) {
+    if (flagged && !existing.flagged) {
+      console.warn(`[movement] Flagged profile ${profileId}: ${recent.length} rejected moves in ${VIOLATION_WINDOW_MS / 1000}s`);
+    }
+    await ctx.db.patch(existing._id, { ...fields, flaggedAt: flagged && !existing.flagged ? now : existing.flaggedAt });
+  } else {
+    await ctx.db.insert("playerFlags", {
+      profileId,
+      kind: "movement",
+      ...fields,
+      firstAt: now,
+      ...(flagged ? { flaggedAt: now } : {}),
+    });
+  }
+  return flagged;
+}
+
+/**
+ * Handle a rejected move: count it (unless it's a report that was already in
+ * flight when the last snap-back went out) and tell the client where to go.
+ */
+export async function rejectMove(
+  ctx: MutationCtx,
+  profile: Doc<"profiles">,
+  presence: Doc<"presence"> | null,
+  check: Extract<MoveCheck, { ok: false }>,
+  at: MapPosition,
+): Promise<MoveResult> {
+  const now = Date.now();
+  const inGrace = presence?.snapBackAt != null && now - presence.snapBackAt < SNAP_BACK_GRACE_MS;
+  if (!inGrace) await recordMoveViolation(ctx, profile._id, check, at);
+  if (presence) {
+    await ctx.db.patch(presence._id, {
+      lastSeen: now,
+      ...(inGrace ? {} : { snapBackAt: now }),
+    });
+  }
+  return {
+    accepted: false,
+    reason: check.reason,
+    message: check.message,
+    snapTo: snapBackTarget(presence, profile),
+  };
+}
+
+/** Where to snap a player back to after a rejected move */
+function snapBackTarget(presence: Doc<"presence"> | null, profile: Doc<"profiles">): MapPosition | null {
+  if (presence) return { mapName: presence.mapName, x: presence.x, y: presence.y };
+  if (profile.x != null && profile.y != null) return { mapName: profile.mapName, x: profile.x, y: profile.y };
+  return null;
+}
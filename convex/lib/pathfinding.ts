@@ -0,0 +1,351 @@
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc } from "../_generated/dataModel";
+import { COLLISION_LAYER_INDEX, stitchChunks } from "./mapChunks";
+import { findMapByName } from "./renameMap";
+
+/**
+ * Grid pathfinding for server-driven NPCs.
+ *
+ * A* over the map's collision mask (8-way, no cutting past wall corners),
+ * with doors applied on top: a closed door blocks the tiles under it, an
+ * open one clears them — the same overrides clients apply in MapRenderer.
+ * Paths are smoothed to the few waypoints that need a turn.
+ *
+ * Decoded masks are cached per map (keyed by `updatedAt`, which every tile
+ * or collision write bumps), so ticks only re-read chunks after an edit.
+ */
+
+export interface TilePoint {
+  x: number;
+  y: number;
+}
+
+export interface NavGrid {
+  width: number;
+  height: number;
+  tileWidth: number;
+  tileHeight: number;
+  /** 1 = blocked, row-major */
+  blocked: Uint8Array;
+}
+
+type Ctx = QueryCtx | MutationCtx;
+
+/** Upper bound on A* node expansions per search (keeps a tick cheap on big maps) */
+export const MAX_SEARCH_NODES = 6000;
+
+// ---------------------------------------------------------------------------
+// Collision masks (cached) and door overrides
+// ---------------------------------------------------------------------------
+
+const MASK_CACHE_LIMIT = 32;
+const maskCache = new Map<string, { key: string; grid: NavGrid }>();
+
+/** Same inset ObjectLayer.computeDoorCollisionTiles uses on the client */
+const DOOR_COLLISION_INSET = 0.2;
+
+async function loadCollisionMask(ctx: Ctx, map: Doc<"maps">): Promise<NavGrid> {
+  const key = `${map._id}:${map.updatedAt}`;
+  const cached = maskCache.get(map.name);
+  if (cached && cached.key === key) return cached.grid;
+
+  const { width, height } = map;
+  let cells: boolean[];
+  if (map.chunkSize) {
+    const chunks = await ctx.db
+      .query("mapChunks")
+      .withIndex("by_map_layer_chunk", (q) => q.eq("mapId", map._id).eq("layerIndex", COLLISION_LAYER_INDEX))
+      .collect();
+    cells = stitchChunks(chunks, COLLISION_LAYER_INDEX, width, height, map.chunkSize, false);
+  } else {
+    cells = JSON.parse(map.collisionMask || "[]");
+  }
+  const blocked = new Uint8Array(width * height);
+  for (let i = 0; i < blocked.length; i++) blocked[i] = cells[i] ? 1 : 0;
+
+  const grid = { width, height, tileWidth: map.tileWidth, tileHeight: map.tileHeight, blocked };
+  if (maskCache.size >= MASK_CACHE_LIMIT && !maskCache.has(map.name)) {
+    maskCache.delete(maskCache.keys().next().value!);
+  }
+  maskCache.set(map.name, { key, grid });
+  return grid;
+}
+
+/** Tiles a door sprite covers (anchored bottom-center, shrunk by the inset). */
+function doorTiles(obj: Doc<"mapObjects">, def: Doc<"spriteDefinitions">, grid: NavGrid): TilePoint[] {
+  const spriteW = def.frameWidth * def.scale;
+  const spriteH = def.frameHeight * def.scale;
+  const left = obj.x - spriteW / 2 + spriteW * DOOR_COLLISION_INSET;
+  const right = obj.x + spriteW / 2 - spriteW * DOOR_COLLISION_INSET;
+  const top = obj.y - spriteH + spriteH * DOOR_COLLISION_INSET;
+  const bottom = obj.y - spriteH * DOOR_COLLISION_INSET;
+  const tiles: TilePoint[] = [];
+  for (let ty = Math.floor(top / grid.tileHeight); ty <= Math.floor((bottom - 1) / grid.tileHeight); ty++) {
+    for (let tx = Math.floor(left / grid.tileWidth); tx <= Math.floor((right - 1) / grid.tileWidth); tx++) {
+      tiles.push({ x: tx, y: ty });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Walkability grid for a map: collision mask plus current door states.
+ * Returns null for maps that don't exist. Callers doing several searches on
+ * one map should load it once.
+ */
+export async function loadNavGrid(ctx: Ctx, mapName: string): Promise<NavGrid | null> {
+  const map = await findMapByName(ctx, mapName);
+  if (!map) return null;
+  const base = await loadCollisionMask(ctx, map);
+
+  const objects = await ctx.db
+    .query("mapObjects")
+    .withIndex("by_map", (q) => q.eq("mapName", map.name))
+    .collect();
+  const defs = new Map<string, Doc<"spriteDefinitions"> | null>();
+  let blocked: Uint8Array | null = null;
+  for (const obj of objects) {
+    if (!defs.has(obj.spriteDefName)) {
+      defs.set(
+        obj.spriteDefName,
+        await ctx.db
+          .query("spriteDefinitions")
+          .withIndex("by_name", (q) => q.eq("name", obj.spriteDefName))
+          .first(),
+      );
+    }
+    const def = defs.get(obj.spriteDefName);
+    if (!def?.isDoor) continue;
+    // Copy-on-write so the cached mask stays door-free
+    blocked ??= base.blocked.slice();
+    const isOpen = obj.isOn ?? false;
+    for (const t of doorTiles(obj, def, base)) {
+      if (t.x < 0 || t.y < 0 || t.x >= base.width || t.y >= base.height) continue;
+      blocked[t.y * base.width + t.x] = isOpen ? 0 : 1;
+    }
+  }
+  return blocked ? { ...base, blocked } : base;
+}
+
+// ---------------------------------------------------------------------------
+// Grid helpers
+// ---------------------------------------------------------------------------
+
+export function isBlockedTile(grid: NavGrid, x: number, y: number): boolean {
+  if (x < 0 || y < 0 || x >= grid.width || y >= grid.height) return true;
+  return grid.blocked[y * grid.width + x] === 1;
+}
+
+/** Tile under a world position (feet of a bottom-anchored sprite) */
+export function worldToTile(grid: NavGrid, x: number, y: number): TilePoint {
+  return { x: Math.floor(x / grid.tileWidth), y: Math.floor(y / grid.tileHeight) };
+}
+
+/** World position at the centre of a tile */
+export function tileCenter(grid: NavGrid, t: TilePoint): { x: number; y: number } {
+  return { x: (t.x + 0.5) * grid.tileWidth, y: (t.y + 0.5) * grid.tileHeight };
+}
+
+/** Closest open tile within `radius` rings of `t` (itself if open), or null. */
+export function nearestOpenTile(grid: NavGrid, t: TilePoint, radius = 3): TilePoint | null {
+  if (!isBlockedTile(grid, t.x, t.y)) return t;
+  for (let r = 1; r <= radius; r++) {
+    let best: TilePoint | null = null;
+    let bestDist = Infinity;
+    for (let dy = -r; dy <= r; dy++) {
+      for (let dx = -r; dx <= r; dx++) {
+        if (Math.max(Math.abs(dx), Math.abs(dy)) !== r) continue;
+        if (isBlockedTile(grid, t.x + dx, t.y + dy)) continue;
+        const d = dx * dx + dy * dy;
+        if (d < bestDist) {
+          bestDist = d;
+          best = { x: t.x + dx, y: t.y + dy };
+        }
+      }
+    }
+    if (best) return best;
+  }
+  return null;
+}
+
+/**
+ * Whether a straight walk between two tile centres crosses only open tiles
+ * (every tile the segment touches, so corners aren't cut).
+ */
+export function hasLineOfSight(grid: NavGrid, a: TilePoint, b: TilePoint): boolean {
+  const nx = Math.abs(b.x - a.x);
+  const ny = Math.abs(b.y - a.y);
+  const sx = b.x > a.x ? 1 : -1;
+  const sy = b.y > a.y ? 1 : -1;
+  let x = a.x;
+  let y = a.y;
+  for (let ix = 0, iy = 0; ix < nx || iy < ny;) {
+    // Which tile boundary the segment crosses next (0 = exactly a corner)
+    const decision = (1 + 2 * ix) * ny - (1 + 2 * iy) * nx;
+    if (decision === 0) {
+      if (isBlockedTile(grid, x + sx, y) || isBlockedTile(grid, x, y + sy)) return false;
+      x += sx;
+      y += sy;
+      ix++;
+      iy++;
+    } else if (decision < 0) {
+      x += sx;
+      ix++;
+    } else {
+      y += sy;
+      iy++;
+    }
+    if (isBlockedTile(grid, x, y)) return false;
+  }
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// A*
+// ---------------------------------------------------------------------------
+
+const SQRT2 = Math.SQRT2;
+const DIRS: [number, number, number][] = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, SQRT2], [1, -1, SQRT2], [-1, 1, SQRT2], [-1, -1, SQRT2],
+];
+
+/** Min-heap of node indices, each with the priority it was pushed with */
+class NodeHeap {
+  private nodes: number[] = [];
+  private priorities: number[] = [];
+
+  get size() {
+    return this.nodes.length;
+  }
+
+  push(node: number, priority: number) {
+    const { nodes, priorities } = this;
+    let i = nodes.length;
+    nodes.push(node);
+    priorities.push(priority);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (priorities[parent] <= priority) break;
+      nodes[i] = nodes[parent];
+      priorities[i] = priorities[parent];
+      i = parent;
+    }
+    nodes[i] = node;
+    priorities[i] = priority;
+  }
+
+  pop(): number {
+    const { nodes, priorities } = this;
+    const top = nodes[0];
+    const lastNode = nodes.pop()!;
+    const lastPriority = priorities.pop()!;
+    const n = nodes.length;
+    if (n > 0) {
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let smallest = i;
+        let best = lastPriority;
+        if (l < n && priorities[l] < best) {
+          smallest = l;
+          best = priorities[l];
+        }
+        if (r < n && priorities[r] < best) smallest = r;
+        if (smallest === i) break;
+        nodes[i] = nodes[smallest];
+        priorities[i] = priorities[smallest];
+        i = smallest;
+      }
+      nodes[i] = lastNode;
+      priorities[i] = lastPriority;
+    }
+    return top;
+  }
+}
+
+/**
+ * Shortest tile path from `start` to `goal` (excluding start, including
+ * goal), or null when the goal is blocked, unreachable or further than the
+ * search budget. The start tile itself may be blocked (an NPC nudged into a
+ * wall can still walk out).
+ */
+export function findPath(
+  grid: NavGrid,
+  start: TilePoint,
+  goal: TilePoint,
+  maxNodes = MAX_SEARCH_NODES,
+): TilePoint[] | null {
+  const { width, height } = grid;
+  if (start.x < 0 || start.y < 0 || start.x >= width || start.y >= height) return null;
+  if (isBlockedTile(grid, goal.x, goal.y)) return null;
+  if (start.x === goal.x && start.y === goal.y) return [];
+
+  const size = width * height;
+  const g = new Float64Array(size).fill(Infinity);
+  const parent = new Int32Array(size).fill(-1);
+  const closed = new Uint8Array(size);
+  const heuristic = (x: number, y: number) => {
+    const dx = Math.abs(x - goal.x);
+    const dy = Math.abs(y - goal.y);
+    return dx + dy + (SQRT2 - 2) * Math.min(dx, dy);
+  };
+
+  const startIdx = start.y * width + start.x;
+  const goalIdx = goal.y * width + goal.x;
+  g[startIdx] = 0;
+  const open = new NodeHeap();
+  open.push(startIdx, heuristic(start.x, start.y));
+
+  let expanded = 0;
+  while (open.size > 0) {
+    const cur = open.pop();
+    if (closed[cur]) continue;
+    if (cur === goalIdx) break;
+    closed[cur] = 1;
+    if (++expanded > maxNodes) return null;
+
+    const cx = cur % width;
+    const cy = (cur - cx) / width;
+    for (const [dx, dy, cost] of DIRS) {
+      const nx = cx + dx;
+      const ny = cy + dy;
+      if (isBlockedTile(grid, nx, ny)) continue;
+      // No squeezing diagonally between two walls / past a corner
+      if (dx !== 0 && dy !== 0 && (isBlockedTile(grid, cx + dx, cy) || isBlockedTile(grid, cx, cy + dy))) continue;
+      const n = ny * width + nx;
+      if (closed[n]) continue;
+      const tentative = g[cur] + cost;
+      if (tentative >= g[n]) continue;
+      g[n] = tentative;
+      parent[n] = cur;
+      open.push(n, tentative + heuristic(nx, ny));
+    }
+  }
+
+  if (parent[goalIdx] === -1) return null;
+  const path: TilePoint[] = [];
+  for (let i = goalIdx; i !== startIdx; i = parent[i]) {
+    const x = i % width;
+    path.push({ x, y: (i - x) / width });
+  }
+  return path.reverse();
+}
+
+/** Drop waypoints that can be skipped by walking straight (line of sight). */
+export function smoothPath(grid: NavGrid, start: TilePoint, path: TilePoint[]): TilePoint[] {
+  if (path.length <= 1) return path;
+  const out: TilePoint[] = [];
+  let from = start;
+  let i = 0;
+  while (i < path.length) {
+    // Furthest waypoint still visible from `from`
+    let j = i;
+    while (j + 1 < path.length && hasLineOfSight(grid, from, path[j + 1])) j++;
+    out.push(path[j]);
+    from = path[j];
+    i = j + 1;
+  }
+  return out;
+}
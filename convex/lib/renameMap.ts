@@ -0,0 +1,169 @@
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc } from "../_generated/dataModel";
+
+/**
+ * Map rename cascade.
+ *
+ * Maps are referenced by name throughout the schema (portals.targetMap,
+ * `mapName` on mapObjects, worldItems, npcState, npcProfiles, presence,
+ * messages, profiles, npcConversations, combatEncounters, trades and
+ * tradeLog, and playerFlags.lastMapName). Renaming rewrites every reference in
+ * one transaction and records the old name in `maps.previousNames`, so
+ * clients still holding the old name (a player mid-session, a bookmarked
+ * profile) resolve to the renamed map via `findMapByName`.
+ */
+
+const MAP_NAME_RE = /^[A-Za-z0-9][A-Za-z0-9 _-]{0,63}$/;
+
+/** Find a map by its current name, falling back to names it used to have. */
+export async function findMapByName(
+  ctx: QueryCtx | MutationCtx,
+  name: string,
+): Promise<Doc<"maps"> | null> {
+  const current = await ctx.db
+    .query("maps")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .first();
+  if (current) return current;
+  const all = await ctx.db.query("maps").collect();
+  return all.find((m) => (m.previousNames ?? []).includes(name)) ?? null;
+}
+
+/**
+ * Rename a map and update every reference to it.
+ * Returns per-table counts of rewritten rows.
+ */
+export async function renameMapCascade(
+  ctx: MutationCtx,
+  oldName: string,
+  newName: string,
+): Promise<Record<string, number>> {
+  newName = newName.trim();
+  if (!MAP_NAME_RE.test(newName)) {
+    throw new Error(
+      "Map names must start with a letter or digit and use only letters, digits, spaces, - or _ (max 64)",
+    );
+  }
+  if (newName === oldName) throw new Error("New name is the same as the current name");
+
+  const map = await ctx.db
+    .query("maps")
+    .withIndex("by_name", (q) => q.eq("name", oldName))
+    .first();
+  if (!map) throw new Error(`Map "${oldName}" not found`);
+  const taken = await ctx.db
+    .query("maps")
+    .withIndex("by_name", (q) => q.eq("name", newName))
+    .first();
+  if (taken) throw new Error(`Map "${newName}" already exists`);
+
+  const counts: Record<string, number> = {};
+  const bump = (table: string) => {
+    counts[table] = (counts[table] ?? 0) + 1;
+  };
+
+  // The map itself. A name can only alias one map, so drop it from others.
+  const previousNames = [...new Set([...(map.previousNames ?? []), oldName])].filter(
+    (n) => n !== newName,
+  );
+  await ctx.db.patch(map._id, { name: newName, previousNames, updatedAt: Date.now() });
+  bump("maps");
+  const allMaps = await ctx.db.query("maps").collect();
+  for (const m of allMaps) {
+    if (m._id === map._id) continue;
+    const patch: Partial<Doc<"maps">> = {};
+    if ((m.previousNames ?? []).includes(oldName)) {
+      patch.previousNames = m.previousNames!.filter((n) => n !== oldName);
+    }
+    // Portals pointing at the renamed map (on any map, including itself)
+    if ((m.portals ?? []).some((p) => p.targetMap === oldName)) {
+      patch.portals = m.portals!.map((p) =>
+        p.targetMap === oldName ? { ...p, targetMap: newName } : p,
+      );
+      bump("portals");
+    }
+    if (Object.keys(patch).length > 0) await ctx.db.patch(m._id, patch);
+  }
+  if ((map.portals ?? []).some((p) => p.targetMap === oldName)) {
+    await ctx.db.patch(map._id, {
+      portals: map.portals!.map((p) => (p.targetMap === oldName ? { ...p, targetMap: newName } : p)),
+    });
+    bump("portals");
+  }
+
+  // Indexed tables
+  for (const o of await ctx.db
+    .query("mapObjects")
+    .withIndex("by_map", (q) => q.eq("mapName", oldName))
+    .collect()) {
+    await ctx.db.patch(o._id, { mapName: newName });
+    bump("mapObjects");
+  }
+  for (const w of await ctx.db
+    .query("worldItems")
+    .withIndex("by_map", (q) => q.eq("mapName", oldName))
+    .collect()) {
+    await ctx.db.patch(w._id, { mapName: newName });
+    bump("worldItems");
+  }
+  for (const n of await ctx.db
+    .query("npcState")
+    .withIndex("by_map", (q) => q.eq("mapName", oldName))
+    .collect()) {
+    await ctx.db.patch(n._id, { mapName: newName });
+    bump("npcState");
+  }
+  for (const p of await ctx.db
+    .query("presence")
+    .withIndex("by_map", (q) => q.eq("mapName", oldName))
+    .collect()) {
+    await ctx.db.patch(p._id, { mapName: newName });
+    bump("presence");
+  }
+  for (const msg of await ctx.db
+    .query("messages")
+    .withIndex("by_map_time", (q) => q.eq("mapName", oldName))
+    .collect()) {
+    await ctx.db.patch(msg._id, { mapName: newName });
+    bump("messages");
+  }
+
+  // Unindexed tables
+  for (const p of await ctx.db.query("profiles").collect()) {
+    if (p.mapName !== oldName) continue;
+    await ctx.db.patch(p._id, { mapName: newName });
+    bump("profiles");
+  }
+  for (const p of await ctx.db.query("npcProfiles").collect()) {
+    if (p.mapName !== oldName) continue;
+    await ctx.db.patch(p._id, { mapName: newName });
+    bump("npcProfiles");
+  }
+  for (const c of await ctx.db.query("npcConversations").collect()) {
+    if (c.mapName !== oldName) continue;
+    await ctx.db.patch(c._id, { mapName: newName });
+    bump("npcConversations");
+  }
+  for (const b of await ctx.db.query("combatEncounters").collect()) {
+    if (b.mapName !== oldName) continue;
+    await ctx.db.patch(b._id, { mapName: newName });
+    bump("combatEncounters");
+  }
+  for (const t of await ctx.db.query("trades").collect()) {
+    if (t.mapName !== oldName) continue;
+    await ctx.db.patch(t._id, { mapName: newName });
+    bump("trades");
+  }
+  for (const t of await ctx.db.query("tradeLog").collect()) {
+    if (t.mapName !== oldName) continue;
+    await ctx.db.patch(t._id, { mapName: newName });
+    bump("tradeLog");
+  }
+  for (const f of await ctx.db.query("playerFlags").collect()) {
+    if (f.lastMapName !== oldName) continue;
+    await ctx.db.patch(f._id, { lastMapName: newName });
+    bump("playerFlags");
+  }
+
+  return counts;
+}
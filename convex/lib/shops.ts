@@ -0,0 +1,91 @@
+import type { Doc } from "../_generated/dataModel";
+
+/**
+ * Shop pricing and stock arithmetic. Pure — wallets, inventories and the
+ * buy / sell API live in convex/mechanics/shops.ts.
+ *
+ * A shopkeeper's listing (`npcProfiles.shopStock`) says what it sells and
+ * how much it keeps; the `shops` row only remembers what's been sold since.
+ * Restocking is lazy: sold-down stock refills in full once its `restockAt`
+ * passes, the next time anyone looks.
+ */
+
+/** Tag that marks an NPC profile as a shopkeeper */
+export const SHOPKEEPER_TAG = "shopkeeper";
+/** Currency shops trade in unless the profile sets `shopCurrency` */
+export const DEFAULT_SHOP_CURRENCY = "gold";
+/** Shopkeepers buy items back at this fraction of their value (Economy.sellPrice) */
+export const SELL_RATIO = 0.5;
+/** Most of one item a single buy or sell moves */
+export const MAX_TRADE_QUANTITY = 999;
+
+export type ShopListing = NonNullable<Doc<"npcProfiles">["shopStock"]>[number];
+export type ShopStockEntry = Doc<"shops">["inventory"][number];
+
+export function isShopkeeper(profile: Doc<"npcProfiles"> | null | undefined): profile is Doc<"npcProfiles"> {
+  return !!profile?.tags?.includes(SHOPKEEPER_TAG) && (profile.shopStock?.length ?? 0) > 0;
+}
+
+export function shopCurrency(profile: Doc<"npcProfiles">): string {
+  return profile.shopCurrency?.trim() || DEFAULT_SHOP_CURRENCY;
+}
+
+/** A requested trade quantity as a whole number from 1 to MAX_TRADE_QUANTITY */
+export function clampQuantity(quantity: number | undefined): number {
+  if (quantity === undefined || !Number.isFinite(quantity)) return 1;
+  return Math.min(MAX_TRADE_QUANTITY, Math.max(1, Math.floor(quantity)));
+}
+
+/**
+ * Buy price: the listing's own, else the item's value — never below what
+ * shopkeepers pay for it, so buying to sell elsewhere can't turn a profit.
+ */
+export function listingPrice(
+  listing: ShopListing,
+  def: Pick<Doc<"itemDefs">, "value" | "type" | "isUnique">,
+): number {
+  const price = Math.floor(listing.price ?? def.value);
+  return Math.max(sellPriceOf(def), Number.isFinite(price) ? price : def.value);
+}
+
+/** What a shopkeeper pays for one (0 = they won't take it) */
+export function sellPriceOf(def: Pick<Doc<"itemDefs">, "value" | "type" | "isUnique">): number {
+  if (def.type === "quest" || def.isUnique) return 0;
+  return Math.floor(def.value * SELL_RATIO);
+}
+
+/**
+ * How many are on the shelf right now: null when unlimited, the full
+ * `stock` when nothing's been sold or the restock time has come.
+ */
+export function currentStock(listing: ShopListing, entry: ShopStockEntry | undefined, now: number): number | null {
+  if (listing.stock == null) return null;
+  if (!entry || entry.stock == null) return listing.stock;
+  if (entry.restockAt != null && entry.restockAt <= now) return listing.stock;
+  return Math.min(entry.stock, listing.stock);
+}
+
+/**
+ * The stock entry after selling `quantity` off the shelf. The restock
+ * clock starts with the first sale from a full shelf.
+ */
+export function afterPurchase(
+  listing: ShopListing,
+  entry: ShopStockEntry | undefined,
+  price: number,
+  quantity: number,
+  now: number,
+): ShopStockEntry {
+  const onShelf = currentStock(listing, entry, now);
+  if (onShelf == null) return { itemDefName: listing.itemDefName, price };
+  const refilled = onShelf === listing.stock;
+  const restockAt = listing.restockMs && listing.restockMs > 0
+    ? refilled ? now + listing.restockMs : entry?.restockAt
+    : undefined;
+  return {
+    itemDefName: listing.itemDefName,
+    price,
+    stock: Math.max(0, onShelf - quantity),
+    ...(restockAt != null ? { restockAt } : {}),
+  };
+}
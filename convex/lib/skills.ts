@@ -0,0 +1,108 @@
+import type { QueryCtx } from "../_generated/server";
+import type { Doc } from "../_generated/dataModel";
+
+/**
+ * Skill bookkeeping shared by real-time casting and battles
+ * (convex/mechanics/combat.ts) and the loadout API (convex/skills.ts):
+ * the mana / stamina pools, which skills a player knows, and hotkey slots.
+ *
+ * Pools regenerate lazily — the stored value plus regen since
+ * `profiles.resourcesAt` — so nothing has to tick them on the server.
+ */
+
+/** Hotkey slots on the skill bar (keys 1..n) */
+export const SKILL_BAR_SLOTS = 5;
+/** Circle / self skills' blast radius when a skill doesn't set one */
+export const DEFAULT_SKILL_RADIUS_PX = 48;
+
+const BASE_MAX_MANA = 30;
+const MANA_PER_LEVEL = 5;
+const BASE_MAX_STAMINA = 50;
+const STAMINA_PER_LEVEL = 5;
+export const MANA_REGEN_PER_SEC = 1;
+export const STAMINA_REGEN_PER_SEC = 5;
+
+export interface SkillResources {
+  mana: number;
+  maxMana: number;
+  stamina: number;
+  maxStamina: number;
+}
+
+/** Pool sizes: the profile's own, or grown from the level when never set */
+function maxResources(stats: Doc<"profiles">["stats"]) {
+  const level = Math.max(1, stats.level ?? 1);
+  return {
+    maxMana: stats.maxMana ?? BASE_MAX_MANA + MANA_PER_LEVEL * (level - 1),
+    maxStamina: stats.maxStamina ?? BASE_MAX_STAMINA + STAMINA_PER_LEVEL * (level - 1),
+  };
+}
+
+/** A player's mana and stamina at `now` (full pools when never spent) */
+export function currentResources(profile: Doc<"profiles">, now: number): SkillResources {
+  const { stats } = profile;
+  const { maxMana, maxStamina } = maxResources(stats);
+  const elapsedSec = profile.resourcesAt != null ? Math.max(0, now - profile.resourcesAt) / 1000 : 0;
+  return {
+    mana: Math.min(maxMana, (stats.mana ?? maxMana) + elapsedSec * MANA_REGEN_PER_SEC),
+    maxMana,
+    stamina: Math.min(maxStamina, (stats.stamina ?? maxStamina) + elapsedSec * STAMINA_REGEN_PER_SEC),
+    maxStamina,
+  };
+}
+
+/**
+ * Pay a skill's cost from the pools at `now`. Returns the profile fields to
+ * patch, or null when the player can't afford it.
+ */
+export function spendResource(
+  profile: Doc<"profiles">,
+  skill: Doc<"skillDefs">,
+  now: number,
+): { stats: Doc<"profiles">["stats"]; resourcesAt: number } | null {
+  const pools = currentResources(profile, now);
+  if (pools[skill.resource] < skill.cost) return null;
+  pools[skill.resource] -= skill.cost;
+  // Only the current values are stored, so pool sizes keep growing with level
+  return { stats: { ...profile.stats, mana: pools.mana, stamina: pools.stamina }, resourcesAt: now };
+}
+
+/** Known from the skill's level on, or learned from its item */
+export function knowsSkill(profile: Doc<"profiles">, skill: Doc<"skillDefs">): boolean {
+  if (skill.learnLevel != null && (profile.stats.level ?? 1) >= skill.learnLevel) return true;
+  return (profile.skills ?? []).includes(skill.name);
+}
+
+export async function getSkillDef(ctx: QueryCtx, name: string) {
+  return await ctx.db
+    .query("skillDefs")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .first();
+}
+
+/** Every skill the player knows, in display order */
+export async function knownSkills(ctx: QueryCtx, profile: Doc<"profiles">): Promise<Doc<"skillDefs">[]> {
+  const all = await ctx.db.query("skillDefs").collect();
+  return all
+    .filter((skill) => knowsSkill(profile, skill))
+    .sort((a, b) => (a.learnLevel ?? 0) - (b.learnLevel ?? 0) || a.displayName.localeCompare(b.displayName));
+}
+
+/** Skill definitions by name, skipping names with no definition */
+export async function skillDefsByName(ctx: QueryCtx, names: Iterable<string>): Promise<Map<string, Doc<"skillDefs">>> {
+  const defs = new Map<string, Doc<"skillDefs">>();
+  for (const name of new Set(names)) {
+    const def = await getSkillDef(ctx, name);
+    if (def) defs.set(name, def);
+  }
+  return defs;
+}
+
+/**
+ * The hotkey bar: the player's bindings, padded to SKILL_BAR_SLOTS. A fresh
+ * bar fills with known skills in order.
+ */
+export function skillBar(profile: Doc<"profiles">, known: Doc<"skillDefs">[]): string[] {
+  const bar = profile.skillBar ?? known.slice(0, SKILL_BAR_SLOTS).map((s) => s.name);
+  return Array.from({ length: SKILL_BAR_SLOTS }, (_, i) => bar[i] ?? "");
+}
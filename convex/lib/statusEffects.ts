@@ -0,0 +1,192 @@
+/**
+ * Status effects (poison, regen, buffs / debuffs) shared by profiles,
+ * npcState rows and battle enemies: the catalog, stacking rules, stat
+ * modifiers and damage / heal over time.
+ *
+ * Everything here is clock-agnostic: real-time targets pass timestamps
+ * (ms) and tick every STATUS_TICK_MS; battle enemies pass round numbers
+ * and tick once a round. The server loop lives in
+ * convex/mechanics/statusEffects.ts.
+ */
+
+/** Real-time interval between damage / heal-over-time ticks */
+export const STATUS_TICK_MS = 2000;
+
+/** An effect active on a target (the shape stored in the schema) */
+export interface StatusEffect {
+  type: string;
+  /** Per stack: damage / heal per tick, or the stat bonus (negative for debuffs) */
+  value: number;
+  stacks: number;
+  expiresAt: number;
+  /** Next damage / heal tick (over-time effects only) */
+  nextTickAt?: number;
+  /** Profile id of whoever applied it (credited for kills) */
+  source?: string;
+}
+
+/** How an effect is authored on items, skills and NPC profiles */
+export interface EffectSpec {
+  type: string;
+  value?: number;
+  /** Seconds */
+  duration?: number;
+}
+
+type EffectStat = "atk" | "def" | "spd";
+
+interface StatusEffectDef {
+  label: string;
+  icon: string;
+  /** Harmful effects land on whoever is hit; helpful ones on the user */
+  harmful: boolean;
+  /** Damage / heal over time, or a stat modifier */
+  kind: "damage" | "heal" | "stat";
+  stat?: EffectStat;
+  /** Applying again adds a stack up to this; at 1 it just refreshes */
+  maxStacks: number;
+  defaultValue: number;
+  /** Seconds */
+  defaultDuration: number;
+}
+
+export const STATUS_EFFECTS: Record<string, StatusEffectDef> = {
+  poison: { label: "Poisoned", icon: "☠", harmful: true, kind: "damage", maxStacks: 5, defaultValue: 2, defaultDuration: 10 },
+  burn: { label: "Burning", icon: "\u{1F525}", harmful: true, kind: "damage", maxStacks: 1, defaultValue: 4, defaultDuration: 6 },
+  regen: { label: "Regenerating", icon: "❤", harmful: false, kind: "heal", maxStacks: 1, defaultValue: 3, defaultDuration: 10 },
+  strength: { label: "Strengthened", icon: "⚔", harmful: false, kind: "stat", stat: "atk", maxStacks: 1, defaultValue: 3, defaultDuration: 30 },
+  weakness: { label: "Weakened", icon: "\u{1F940}", harmful: true, kind: "stat", stat: "atk", maxStacks: 1, defaultValue: 3, defaultDuration: 15 },
+  fortify: { label: "Fortified", icon: "\u{1F6E1}", harmful: false, kind: "stat", stat: "def", maxStacks: 1, defaultValue: 3, defaultDuration: 30 },
+  vulnerable: { label: "Vulnerable", icon: "\u{1F494}", harmful: true, kind: "stat", stat: "def", maxStacks: 1, defaultValue: 3, defaultDuration: 15 },
+  haste: { label: "Hasted", icon: "\u{1F4A8}", harmful: false, kind: "stat", stat: "spd", maxStacks: 1, defaultValue: 3, defaultDuration: 30 },
+  slow: { label: "Slowed", icon: "\u{1F40C}", harmful: true, kind: "stat", stat: "spd", maxStacks: 1, defaultValue: 3, defaultDuration: 15 },
+};
+
+export function statusEffectDef(type: string): StatusEffectDef | undefined {
+  return STATUS_EFFECTS[type];
+}
+
+/** The authored effects the catalog knows about (items may list others, e.g. "teleport") */
+export function knownEffects(specs: EffectSpec[] | undefined): EffectSpec[] {
+  return (specs ?? []).filter((spec) => STATUS_EFFECTS[spec.type] != null);
+}
+
+export function isHarmful(spec: EffectSpec): boolean {
+  return STATUS_EFFECTS[spec.type]?.harmful ?? false;
+}
+
+/** Effects still running at `now` */
+export function activeEffects(effects: StatusEffect[] | undefined, now: number): StatusEffect[] {
+  return (effects ?? []).filter((e) => e.expiresAt > now);
+}
+
+/** Whether the list holds a damage / heal-over-time effect (expired or not) */
+export function hasOverTimeEffects(effects: StatusEffect[] | undefined): boolean {
+  return (effects ?? []).some((e) => STATUS_EFFECTS[e.type] != null && STATUS_EFFECTS[e.type].kind !== "stat");
+}
+
+/**
+ * Apply `spec` at `now`. `duration` is in the caller's clock units (ms or
+ * rounds) and `tickEvery` likewise. Stackable effects gain a stack and
+ * refresh; others refresh, keeping the stronger value.
+ */
+export function applyEffect(
+  effects: StatusEffect[] | undefined,
+  spec: EffectSpec,
+  now: number,
+  duration: number,
+  tickEvery: number,
+  source?: string,
+): StatusEffect[] {
+  const def = STATUS_EFFECTS[spec.type];
+  const active = activeEffects(effects, now);
+  if (!def) return active;
+  // Authors give magnitudes; debuffs always lower the stat
+  const magnitude = Math.abs(spec.value ?? def.defaultValue);
+  const value = def.kind === "stat" && def.harmful ? -magnitude : magnitude;
+  const expiresAt = now + duration;
+  const existing = active.find((e) => e.type === spec.type);
+  if (!existing) {
+    return [
+      ...active,
+      {
+        type: spec.type,
+        value,
+        stacks: 1,
+        expiresAt,
+        ...(def.kind !== "stat" ? { nextTickAt: now + tickEvery } : {}),
+        ...(source ? { source } : {}),
+      },
+    ];
+  }
+  const stronger = Math.abs(value) > Math.abs(existing.value) ? value : existing.value;
+  return active.map((e) =>
+    e === existing
+      ? {
+        ...e,
+        value: stronger,
+        stacks: Math.min(def.maxStacks, e.stacks + 1),
+        expiresAt: Math.max(e.expiresAt, expiresAt),
+        ...(source ? { source } : {}),
+      }
+      : e,
+  );
+}
+
+/** An authored duration (seconds) in milliseconds */
+export function effectDurationMs(spec: EffectSpec): number {
+  return Math.max(0, spec.duration ?? STATUS_EFFECTS[spec.type]?.defaultDuration ?? 0) * 1000;
+}
+
+/** ATK / DEF / SPD bonuses (or penalties) from active effects */
+export function statModifiers(effects: StatusEffect[] | undefined, now: number): Record<EffectStat, number> {
+  const mods = { atk: 0, def: 0, spd: 0 };
+  for (const effect of activeEffects(effects, now)) {
+    const def = STATUS_EFFECTS[effect.type];
+    if (def?.kind === "stat" && def.stat) mods[def.stat] += effect.value * effect.stacks;
+  }
+  return mods;
+}
+
+/** Base stats with effect modifiers folded in (never below 0) */
+export function effectiveStats<T extends { atk: number; def: number; spd: number }>(
+  stats: T,
+  effects: StatusEffect[] | undefined,
+  now: number,
+): T {
+  const mods = statModifiers(effects, now);
+  return {
+    ...stats,
+    atk: Math.max(0, stats.atk + mods.atk),
+    def: Math.max(0, stats.def + mods.def),
+    spd: Math.max(0, stats.spd + mods.spd),
+  };
+}
+
+/**
+ * Run every over-time tick due by `now`. Returns the net HP change
+ * (negative = damage), who dealt the damage, and the effects still running.
+ */
+export function tickEffects(
+  effects: StatusEffect[] | undefined,
+  now: number,
+  tickEvery: number,
+): { hpDelta: number; source?: string; remaining: StatusEffect[] } {
+  let hpDelta = 0;
+  let source: string | undefined;
+  const remaining: StatusEffect[] = [];
+  for (const effect of effects ?? []) {
+    const def = STATUS_EFFECTS[effect.type];
+    let { nextTickAt } = effect;
+    if (def && def.kind !== "stat" && nextTickAt != null) {
+      const sign = def.kind === "damage" ? -1 : 1;
+      while (nextTickAt <= now && nextTickAt <= effect.expiresAt) {
+        hpDelta += sign * Math.max(0, effect.value) * effect.stacks;
+        if (sign < 0) source = effect.source ?? source;
+        nextTickAt += tickEvery;
+      }
+    }
+    if (effect.expiresAt > now) remaining.push({ ...effect, ...(nextTickAt != null ? { nextTickAt } : {}) });
+  }
+  return { hpDelta, source, remaining };
+}
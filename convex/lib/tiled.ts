@@ -0,0 +1,851 @@
+import type { Doc } from "../_generated/dataModel";
+
+/**
+ * Tiled (https://www.mapeditor.org) map conversion.
+ *
+ * Converts between Tiled's JSON (.tmj) / XML (.tmx) formats and the shape
+ * stored in the `maps` table (the same fields `maps.saveFullMap` accepts).
+ *
+ * Mapping:
+ *   - Tile layers            → map layers. Type comes from a `layerType`
+ *                              property (bg | obj | overlay), else the name.
+ *   - Layer named "collision"
+ *     or with `collision=true` → collisionMask (any non-empty tile blocks)
+ *   - Tileset tiles with a `collision` / `collides` property → collisionMask
+ *   - Objects of type "portal" (or with a `targetMap` property) → portals
+ *   - Objects of type "collision" → collisionMask
+ *   - All other objects       → labels (spawn points, triggers)
+ *
+ * Only orthogonal, finite maps with embedded tilesets are supported. Each
+ * tile layer must draw from a single tileset; layers that use a tileset other
+ * than the primary one get a per-layer `tilesetUrl` override.
+ */
+// ---------------------------------------------------------------------------
+// Tiled types (subset of the .tmj schema we read/write)
+// ---------------------------------------------------------------------------
+
+export interface TiledProperty {
+  name: string;
+  type?: string;
+  value: unknown;
+}
+
+export interface TiledTileset {
+  firstgid: number;
+  name?: string;
+  source?: string;
+  image?: string;
+  imagewidth?: number;
+  imageheight?: number;
+  tilewidth?: number;
+  tileheight?: number;
+  columns?: number;
+  tilecount?: number;
+  margin?: number;
+  spacing?: number;
+  tiles?: { id: number; properties?: TiledProperty[] }[];
+  properties?: TiledProperty[];
+}
+
+export interface TiledObject {
+  id?: number;
+  name?: string;
+  type?: string;
+  class?: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  point?: boolean;
+  visible?: boolean;
+  properties?: TiledProperty[];
+}
+
+export interface TiledLayer {
+  id?: number;
+  name: string;
+  type: string; // "tilelayer" | "objectgroup" | "group" | "imagelayer"
+  width?: number;
+  height?: number;
+  x?: number;
+  y?: number;
+  data?: number[] | string;
+  encoding?: string;
+  compression?: string;
+  visible?: boolean;
+  opacity?: number;
+  objects?: TiledObject[];
+  layers?: TiledLayer[];
+  properties?: TiledProperty[];
+}
+
+export interface TiledMap {
+  type?: string;
+  version?: string;
+  tiledversion?: string;
+  orientation?: string;
+  renderorder?: string;
+  infinite?: boolean;
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  nextlayerid?: number;
+  nextobjectid?: number;
+  layers: TiledLayer[];
+  tilesets: TiledTileset[];
+  properties?: TiledProperty[];
+}
+
+// ---------------------------------------------------------------------------
+// Stored map shape (matches the `maps` table / saveFullMap args)
+// ---------------------------------------------------------------------------
+
+type MapDoc = Doc<"maps">;
+
+export type StoredLayer = MapDoc["layers"][number];
+export type StoredRect = MapDoc["labels"][number];
+export type StoredPortal = NonNullable<MapDoc["portals"]>[number];
+export type StoredCombatSettings = NonNullable<MapDoc["combatSettings"]>;
+
+export type StoredMapFields = Pick<
+  MapDoc,
+  | "width"
+  | "height"
+  | "tileWidth"
+  | "tileHeight"
+  | "tilesetUrl"
+  | "tilesetPxW"
+  | "tilesetPxH"
+  | "layers"
+  | "collisionMask"
+  | "labels"
+  | "portals"
+  | "animationUrl"
+  | "musicUrl"
+  | "ambientSoundUrl"
+  | "combatEnabled"
+  | "combatSettings"
+  | "status"
+  | "mapType"
+>;
+
+export interface TiledImportResult {
+  map: StoredMapFields;
+  /** Non-fatal issues (dropped flips, guessed tileset URLs, ...) */
+  warnings: string[];
+}
+
+/** Pixel size of tileset images that aren't the map's primary tileset. */
+export type TilesetDims = Record<string, { imageWidth: number; imageHeight: number }>;
+
+export type TiledFormat = "tmj" | "tmx";
+
+const DEFAULT_TILESET_URL = "/assets/tilesets/fantasy-interior.png";
+const GID_MASK = 0x1fffffff; // strips Tiled's flip/rotate flag bits
+const LAYER_TYPES = new Set(["bg", "obj", "overlay"]);
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/** Parse a .tmj or .tmx source string into a TiledMap. */
+export function parseTiled(format: TiledFormat, source: string): TiledMap {
+  if (format === "tmx") return parseTmx(source);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(source);
+  } catch (err: any) {
+    throw new Error(`Invalid .tmj file: ${err?.message ?? err}`);
+  }
+  if (!parsed || typeof parsed !== "object" || !Array.isArray((parsed as any).layers)) {
+    throw new Error("Invalid .tmj file: missing layers");
+  }
+  return parsed as TiledMap;
+}
+
+/** Convert a Tiled map into stored map fields. Throws on unsupported input. */
+export function tiledToMap(tiled: TiledMap): TiledImportResult {
+  const warnings: string[] = [];
+
+  if (tiled.orientation && tiled.orientation !== "orthogonal") {
+    throw new Error(`Only orthogonal maps are supported (got "${tiled.orientation}")`);
+  }
+  if (tiled.infinite) {
+    throw new Error("Infinite maps are not supported — disable \"Infinite\" in Tiled's map properties");
+  }
+  const width = Math.floor(Number(tiled.width));
+  const height = Math.floor(Number(tiled.height));
+  const tileWidth = Number(tiled.tilewidth);
+  const tileHeight = Number(tiled.tileheight);
+  if (!(width > 0 && height > 0 && tileWidth > 0 && tileHeight > 0)) {
+    throw new Error("Map width, height, tilewidth and tileheight must be positive");
+  }
+  const cellCount = width * height;
+
+  // --- Tilesets ---
+  const tilesets = [...(tiled.tilesets ?? [])].sort((a, b) => a.firstgid - b.firstgid);
+  for (const ts of tilesets) {
+    if (ts.source) {
+      throw new Error(
+        `External tileset "${ts.source}" is not supported — embed it in the map (Tiled: Tileset > Embed Tileset)`,
+      );
+    }
+    if ((ts.tilewidth ?? tileWidth) !== tileWidth || (ts.tileheight ?? tileHeight) !== tileHeight) {
+      throw new Error(`Tileset "${ts.name}" tile size differs from the map's ${tileWidth}×${tileHeight}`);
+    }
+    if ((ts.margin ?? 0) !== 0 || (ts.spacing ?? 0) !== 0) {
+      throw new Error(`Tileset "${ts.name}" uses margin/spacing, which is not supported`);
+    }
+  }
+  const tilesetUrl = (ts: TiledTileset): string => {
+    const explicit = getProp(ts.properties, "url");
+    if (typeof explicit === "string" && explicit) return explicit;
+    const image = ts.image ?? "";
+    if (image.startsWith("/")) return image;
+    const base = image.split(/[\\/]/).pop() ?? "";
+    if (!base) throw new Error(`Tileset "${ts.name}" has no image`);
+    const guessed = `/assets/tilesets/${base}`;
+    warnings.push(`Tileset "${ts.name}" image "${image}" mapped to ${guessed}`);
+    return guessed;
+  };
+  const tilesetFor = (gid: number): TiledTileset | undefined => {
+    let found: TiledTileset | undefined;
+    for (const ts of tilesets) {
+      if (ts.firstgid <= gid) found = ts;
+      else break;
+    }
+    return found;
+  };
+
+  // Tiles flagged as colliding in any tileset, keyed by global id
+  const collidingGids = new Set<number>();
+  for (const ts of tilesets) {
+    for (const tile of ts.tiles ?? []) {
+      if (getProp(tile.properties, "collision") === true || getProp(tile.properties, "collides") === true) {
+        collidingGids.add(ts.firstgid + tile.id);
+      }
+    }
+  }
+
+  const collision = new Array<boolean>(cellCount).fill(false);
+  const layers: StoredLayer[] = [];
+  const labels: StoredRect[] = [];
+  const portals: StoredPortal[] = [];
+  let primary: TiledTileset | undefined;
+  let droppedFlips = false;
+
+  const toTileRect = (obj: TiledObject) => {
+    const x = Math.max(0, Math.floor(obj.x / tileWidth));
+    const y = Math.max(0, Math.floor(obj.y / tileHeight));
+    const isPoint = obj.point || !obj.width || !obj.height;
+    return {
+      x,
+      y,
+      width: isPoint ? 1 : Math.max(1, Math.round(obj.width! / tileWidth)),
+      height: isPoint ? 1 : Math.max(1, Math.round(obj.height! / tileHeight)),
+    };
+  };
+
+  for (const layer of flattenLayers(tiled.layers ?? [])) {
+    if (layer.type === "tilelayer") {
+      const gids = decodeLayerData(layer, cellCount);
+      const isCollision =
+        getProp(layer.properties, "collision") === true || /^collision$/i.test(layer.name);
+      if (isCollision) {
+        gids.forEach((gid, i) => {
+          if ((gid & GID_MASK) !== 0) collision[i] = true;
+        });
+        continue;
+      }
+
+      let layerTileset: TiledTileset | undefined;
+      const tiles = new Array<number>(cellCount).fill(-1);
+      for (let i = 0; i < cellCount; i++) {
+        const raw = gids[i] ?? 0;
+        const gid = raw & GID_MASK;
+        if (gid === 0) continue;
+        if (gid !== raw) droppedFlips = true;
+        const ts = tilesetFor(gid);
+        if (!ts) throw new Error(`Layer "${layer.name}" references unknown tile gid ${gid}`);
+        if (layerTileset && layerTileset !== ts) {
+          throw new Error(
+            `Layer "${layer.name}" mixes tiles from "${layerTileset.name}" and "${ts.name}" — split it into one layer per tileset`,
+          );
+        }
+        layerTileset = ts;
+        tiles[i] = gid - ts.firstgid;
+        if (collidingGids.has(gid)) collision[i] = true;
+      }
+
+      const propType = getProp(layer.properties, "layerType");
+      const type = (typeof propType === "string" && LAYER_TYPES.has(propType)
+        ? propType
+        : guessLayerType(layer.name)) as StoredLayer["type"];
+
+      const stored: StoredLayer = {
+        name: layer.name,
+        type,
+        tiles: JSON.stringify(tiles),
+        visible: layer.visible !== false,
+      };
+      const propUrl = getProp(layer.properties, "tilesetUrl");
+      if (typeof propUrl === "string" && propUrl) {
+        stored.tilesetUrl = propUrl;
+      } else if (layerTileset) {
+        primary ??= layerTileset;
+        if (layerTileset !== primary) stored.tilesetUrl = tilesetUrl(layerTileset);
+      }
+      layers.push(stored);
+    } else if (layer.type === "objectgroup") {
+      for (const obj of layer.objects ?? []) {
+        const kind = (obj.type || obj.class || "").toLowerCase();
+        const rect = toTileRect(obj);
+        const targetMap = getProp(obj.properties, "targetMap");
+        if (kind === "portal" || typeof targetMap === "string") {
+          if (typeof targetMap !== "string" || !targetMap) {
+            warnings.push(`Portal "${obj.name ?? obj.id}" has no targetMap — skipped`);
+            continue;
+          }
+          let targetSpawn = getProp(obj.properties, "targetSpawn");
+          if (typeof targetSpawn !== "string" || !targetSpawn) {
+            warnings.push(`Portal "${obj.name ?? obj.id}" has no targetSpawn — using "start1"`);
+            targetSpawn = "start1";
+          }
+          const direction = getProp(obj.properties, "direction");
+          const transition = getProp(obj.properties, "transition");
+          portals.push({
+            name: obj.name || `portal${portals.length + 1}`,
+            ...rect,
+            targetMap,
+            targetSpawn: targetSpawn as string,
+            ...(typeof direction === "string" && direction ? { direction } : {}),
+            ...(typeof transition === "string" && transition ? { transition } : {}),
+          });
+        } else if (kind === "collision") {
+          for (let y = rect.y; y < Math.min(height, rect.y + rect.height); y++) {
+            for (let x = rect.x; x < Math.min(width, rect.x + rect.width); x++) {
+              collision[y * width + x] = true;
+            }
+          }
+        } else {
+          labels.push({ name: obj.name || `label${labels.length + 1}`, ...rect });
+        }
+      }
+    }
+  }
+
+  if (droppedFlips) warnings.push("Flipped/rotated tiles are not supported — flips were dropped");
+  if (layers.length === 0) {
+    throw new Error("Map has no tile layers");
+  }
+
+  primary ??= tilesets[0];
+  const primaryUrl = primary ? tilesetUrl(primary) : DEFAULT_TILESET_URL;
+  const mapProps = tiled.properties;
+  const tilesetUrlProp = getProp(mapProps, "tilesetUrl");
+  const map: StoredMapFields = {
+    width,
+    height,
+    tileWidth,
+    tileHeight,
+    tilesetUrl: typeof tilesetUrlProp === "string" && tilesetUrlProp ? tilesetUrlProp : primaryUrl,
+    tilesetPxW: primary?.imagewidth ?? (primary?.columns ?? 1) * tileWidth,
+    tilesetPxH:
+      primary?.imageheight ??
+      Math.ceil((primary?.tilecount ?? 1) / Math.max(1, primary?.columns ?? 1)) * tileHeight,
+    layers,
+    collisionMask: JSON.stringify(collision),
+    labels,
+    portals,
+  };
+
+  for (const key of ["animationUrl", "musicUrl", "ambientSoundUrl", "status", "mapType"] as const) {
+    const value = getProp(mapProps, key);
+    if (typeof value === "string" && value) map[key] = value;
+  }
+  const combatEnabled = getProp(mapProps, "combatEnabled");
+  if (typeof combatEnabled === "boolean") map.combatEnabled = combatEnabled;
+  const combatSettings = getProp(mapProps, "combatSettings");
+  if (typeof combatSettings === "string" && combatSettings) {
+    try {
+      map.combatSettings = pickCombatSettings(JSON.parse(combatSettings));
+    } catch {
+      warnings.push("Ignored malformed combatSettings property");
+    }
+  }
+
+  return { map, warnings };
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert a stored map into a Tiled map. Tilesets referenced only through a
+ * per-layer override use `tilesetDims` for their image size (falling back to
+ * the primary tileset's size when unknown).
+ */
+export function mapToTiled(map: StoredMapFields, tilesetDims: TilesetDims = {}): TiledMap {
+  const { width, height, tileWidth, tileHeight } = map;
+  const primaryUrl = map.tilesetUrl ?? DEFAULT_TILESET_URL;
+  const decoded = map.layers.map((l) => ({ layer: l, tiles: parseTiles(l.tiles, width * height) }));
+
+  // One Tiled tileset per distinct tileset URL, primary first
+  const urls = [primaryUrl];
+  for (const { layer } of decoded) {
+    if (layer.tilesetUrl && !urls.includes(layer.tilesetUrl)) urls.push(layer.tilesetUrl);
+  }
+  const tilesets: TiledTileset[] = [];
+  const firstGidByUrl = new Map<string, number>();
+  let nextGid = 1;
+  for (const url of urls) {
+    const dims = url === primaryUrl
+      ? { imageWidth: map.tilesetPxW, imageHeight: map.tilesetPxH }
+      : tilesetDims[url] ?? { imageWidth: map.tilesetPxW, imageHeight: map.tilesetPxH };
+    const columns = Math.max(1, Math.floor(dims.imageWidth / tileWidth));
+    const rows = Math.max(1, Math.floor(dims.imageHeight / tileHeight));
+    // Out-of-range indices still need unique gids so they survive a round trip
+    let maxIndex = -1;
+    for (const { layer, tiles } of decoded) {
+      if ((layer.tilesetUrl ?? primaryUrl) !== url) continue;
+      for (const t of tiles) if (t > maxIndex) maxIndex = t;
+    }
+    const tilecount = Math.max(columns * rows, maxIndex + 1);
+    const name = (url.split("/").pop() ?? url).replace(/\.[^.]+$/, "");
+    tilesets.push({
+      firstgid: nextGid,
+      name,
+      image: url,
+      imagewidth: dims.imageWidth,
+      imageheight: dims.imageHeight,
+      tilewidth: tileWidth,
+      tileheight: tileHeight,
+      columns,
+      tilecount,
+      margin: 0,
+      spacing: 0,
+      properties: [{ name: "url", type: "string", value: url }],
+    });
+    firstGidByUrl.set(url, nextGid);
+    nextGid += tilecount;
+  }
+
+  let nextLayerId = 1;
+  let nextObjectId = 1;
+  const layers: TiledLayer[] = decoded.map(({ layer, tiles }) => {
+    const firstgid = firstGidByUrl.get(layer.tilesetUrl ?? primaryUrl)!;
+    const properties: TiledProperty[] = [{ name: "layerType", type: "string", value: layer.type }];
+    if (layer.tilesetUrl) properties.push({ name: "tilesetUrl", type: "string", value: layer.tilesetUrl });
+    return {
+      id: nextLayerId++,
+      name: layer.name,
+      type: "tilelayer",
+      x: 0,
+      y: 0,
+      width,
+      height,
+      opacity: 1,
+      visible: layer.visible,
+      data: tiles.map((t) => (t < 0 ? 0 : firstgid + t)),
+      properties,
+    };
+  });
+
+  const collision = parseCollision(map.collisionMask, width * height);
+  layers.push({
+    id: nextLayerId++,
+    name: "collision",
+    type: "tilelayer",
+    x: 0,
+    y: 0,
+    width,
+    height,
+    opacity: 0.5,
+    visible: false,
+    data: collision.map((c) => (c ? 1 : 0)),
+    properties: [{ name: "collision", type: "bool", value: true }],
+  });
+
+  const rectToObject = (r: StoredRect, type: string, properties?: TiledProperty[]): TiledObject => ({
+    id: nextObjectId++,
+    name: r.name,
+    type,
+    x: r.x * tileWidth,
+    y: r.y * tileHeight,
+    width: r.width * tileWidth,
+    height: r.height * tileHeight,
+    visible: true,
+    ...(properties && properties.length > 0 ? { properties } : {}),
+  });
+
+  layers.push({
+    id: nextLayerId++,
+    name: "labels",
+    type: "objectgroup",
+    x: 0,
+    y: 0,
+    opacity: 1,
+    visible: true,
+    objects: map.labels.map((l) => rectToObject(l, "label")),
+  });
+  layers.push({
+    id: nextLayerId++,
+    name: "portals",
+    type: "objectgroup",
+    x: 0,
+    y: 0,
+    opacity: 1,
+    visible: true,
+    objects: (map.portals ?? []).map((p) => {
+      const props: TiledProperty[] = [
+        { name: "targetMap", type: "string", value: p.targetMap },
+        { name: "targetSpawn", type: "string", value: p.targetSpawn },
+      ];
+      if (p.direction) props.push({ name: "direction", type: "string", value: p.direction });
+      if (p.transition) props.push({ name: "transition", type: "string", value: p.transition });
+      return rectToObject(p, "portal", props);
+    }),
+  });
+
+  const properties: TiledProperty[] = [{ name: "tilesetUrl", type: "string", value: primaryUrl }];
+  for (const key of ["animationUrl", "musicUrl", "ambientSoundUrl", "status", "mapType"] as const) {
+    const value = map[key];
+    if (value) properties.push({ name: key, type: "string", value });
+  }
+  if (typeof map.combatEnabled === "boolean") {
+    properties.push({ name: "combatEnabled", type: "bool", value: map.combatEnabled });
+  }
+  if (map.combatSettings) {
+    properties.push({ name: "combatSettings", type: "string", value: JSON.stringify(map.combatSettings) });
+  }
+
+  return {
+    type: "map",
+    version: "1.10",
+    tiledversion: "1.10.2",
+    orientation: "orthogonal",
+    renderorder: "right-down",
+    infinite: false,
+    width,
+    height,
+    tilewidth: tileWidth,
+    tileheight: tileHeight,
+    nextlayerid: nextLayerId,
+    nextobjectid: nextObjectId,
+    layers,
+    tilesets,
+    properties,
+  };
+}
+
+/** Serialize a Tiled map to .tmj or .tmx text. */
+export function serializeTiled(tiled: TiledMap, format: TiledFormat): string {
+  return format === "tmx" ? toTmx(tiled) : JSON.stringify(tiled, null, 2);
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function getProp(props: TiledProperty[] | undefined, name: string): unknown {
+  return props?.find((p) => p.name === name)?.value;
+}
+
+function guessLayerType(name: string): StoredLayer["type"] {
+  if (/overlay|above|roof|foreground|^fg/i.test(name)) return "overlay";
+  if (/^obj|object/i.test(name)) return "obj";
+  return "bg";
+}
+
+function flattenLayers(layers: TiledLayer[]): TiledLayer[] {
+  const out: TiledLayer[] = [];
+  for (const layer of layers) {
+    if (layer.type === "group") out.push(...flattenLayers(layer.layers ?? []));
+    else out.push(layer);
+  }
+  return out;
+}
+
+function decodeLayerData(layer: TiledLayer, cellCount: number): number[] {
+  if (layer.compression) {
+    throw new Error(
+      `Layer "${layer.name}" uses ${layer.compression} compression — set Tile Layer Format to CSV in Tiled`,
+    );
+  }
+  let gids: number[];
+  if (Array.isArray(layer.data)) {
+    gids = layer.data.map((n) => Number(n) >>> 0);
+  } else if (typeof layer.data === "string" && layer.encoding === "base64") {
+    const bin = atob(layer.data.trim());
+    gids = [];
+    for (let i = 0; i + 3 < bin.length; i += 4) {
+      gids.push(
+        (bin.charCodeAt(i) |
+          (bin.charCodeAt(i + 1) << 8) |
+          (bin.charCodeAt(i + 2) << 16) |
+          (bin.charCodeAt(i + 3) << 24)) >>> 0,
+      );
+    }
+  } else if (typeof layer.data === "string") {
+    gids = layer.data.split(",").map((s) => s.trim()).filter(Boolean).map((s) => Number(s) >>> 0);
+  } else {
+    throw new Error(`Layer "${layer.name}" has no tile data`);
+  }
+  if (gids.length !== cellCount) {
+    throw new Error(`Layer "${layer.name}" has ${gids.length} tiles, expected ${cellCount}`);
+  }
+  return gids;
+}
+
+function parseTiles(raw: string, cellCount: number): number[] {
+  const tiles = JSON.parse(raw) as number[];
+  if (tiles.length === cellCount) return tiles;
+  const out = new Array<number>(cellCount).fill(-1);
+  for (let i = 0; i < Math.min(cellCount, tiles.length); i++) out[i] = tiles[i];
+  return out;
+}
+
+function parseCollision(raw: string, cellCount: number): boolean[] {
+  const mask = (raw ? JSON.parse(raw) : []) as boolean[];
+  const out = new Array<boolean>(cellCount).fill(false);
+  for (let i = 0; i < Math.min(cellCount, mask.length); i++) out[i] = !!mask[i];
+  return out;
+}
+
+function pickCombatSettings(raw: any): StoredCombatSettings {
+  const out: StoredCombatSettings = {};
+  for (const key of ["attackRangePx", "playerAttackCooldownMs", "npcHitCooldownMs", "damageVariancePct", "encounterChancePct"] as const) {
+    if (typeof raw?.[key] === "number") out[key] = raw[key];
+  }
+  if (raw?.mode === "realtime" || raw?.mode === "turn-based") out.mode = raw.mode;
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// TMX (XML) reading / writing
+// ---------------------------------------------------------------------------
+
+interface XmlNode {
+  tag: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+/** Minimal XML reader — enough for the elements Tiled writes. */
+function parseXml(source: string): XmlNode {
+  const root: XmlNode = { tag: "#root", attrs: {}, children: [], text: "" };
+  const stack: XmlNode[] = [root];
+  const tagRe = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([A-Za-z_][\w.-]*)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  const attrRe = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = tagRe.exec(source))) {
+    const top = stack[stack.length - 1];
+    top.text += unescapeXml(source.slice(last, m.index));
+    last = tagRe.lastIndex;
+    if (m[1] !== undefined) {
+      top.text += m[1];
+      continue;
+    }
+    if (!m[3]) continue; // comment / declaration
+    if (m[2] === "/") {
+      if (stack.length > 1) stack.pop();
+      continue;
+    }
+    const attrs: Record<string, string> = {};
+    let a: RegExpExecArray | null;
+    attrRe.lastIndex = 0;
+    while ((a = attrRe.exec(m[4]))) attrs[a[1]] = unescapeXml(a[2] ?? a[3] ?? "");
+    const node: XmlNode = { tag: m[3], attrs, children: [], text: "" };
+    top.children.push(node);
+    if (m[5] !== "/") stack.push(node);
+  }
+  return root;
+}
+
+function unescapeXml(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, e: string) => {
+    if (e[0] === "#") {
+      return String.fromCodePoint(e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10));
+    }
+    return ({ lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" } as Record<string, string>)[e.toLowerCase()];
+  });
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function num(value: string | undefined, fallback = 0): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function readProperties(node: XmlNode): TiledProperty[] | undefined {
+  const propsNode = node.children.find((c) => c.tag === "properties");
+  if (!propsNode) return undefined;
+  return propsNode.children
+    .filter((c) => c.tag === "property")
+    .map((p) => {
+      const type = p.attrs.type ?? "string";
+      const raw = p.attrs.value ?? p.text;
+      let value: unknown = raw;
+      if (type === "bool") value = raw === "true";
+      else if (type === "int" || type === "float" || type === "object") value = num(raw);
+      return { name: p.attrs.name, type, value };
+    });
+}
+
+function readLayers(parent: XmlNode): TiledLayer[] {
+  const out: TiledLayer[] = [];
+  for (const node of parent.children) {
+    const base = {
+      id: node.attrs.id ? num(node.attrs.id) : undefined,
+      name: node.attrs.name ?? "",
+      visible: node.attrs.visible !== "0",
+      opacity: node.attrs.opacity ? num(node.attrs.opacity, 1) : 1,
+      properties: readProperties(node),
+    };
+    if (node.tag === "layer") {
+      const dataNode = node.children.find((c) => c.tag === "data");
+      if (dataNode?.children.some((c) => c.tag === "chunk")) {
+        throw new Error("Infinite maps are not supported — disable \"Infinite\" in Tiled's map properties");
+      }
+      const encoding = dataNode?.attrs.encoding;
+      const data = encoding
+        ? dataNode!.text.trim()
+        : (dataNode?.children ?? []).filter((c) => c.tag === "tile").map((c) => num(c.attrs.gid));
+      out.push({
+        ...base,
+        type: "tilelayer",
+        width: num(node.attrs.width),
+        height: num(node.attrs.height),
+        data,
+        encoding: encoding === "base64" ? "base64" : undefined,
+        compression: dataNode?.attrs.compression,
+      });
+    } else if (node.tag === "objectgroup") {
+      out.push({
+        ...base,
+        type: "objectgroup",
+        objects: node.children
+          .filter((c) => c.tag === "object")
+          .map((o) => ({
+            id: o.attrs.id ? num(o.attrs.id) : undefined,
+            name: o.attrs.name,
+            type: o.attrs.type ?? o.attrs.class,
+            x: num(o.attrs.x),
+            y: num(o.attrs.y),
+            width: num(o.attrs.width),
+            height: num(o.attrs.height),
+            point: o.children.some((c) => c.tag === "point"),
+            properties: readProperties(o),
+          })),
+      });
+    } else if (node.tag === "group") {
+      out.push({ ...base, type: "group", layers: readLayers(node) });
+    }
+  }
+  return out;
+}
+
+function parseTmx(source: string): TiledMap {
+  const mapNode = parseXml(source).children.find((c) => c.tag === "map");
+  if (!mapNode) throw new Error("Invalid .tmx file: missing <map> element");
+  const a = mapNode.attrs;
+  const tilesets: TiledTileset[] = mapNode.children
+    .filter((c) => c.tag === "tileset")
+    .map((ts) => {
+      const image = ts.children.find((c) => c.tag === "image");
+      return {
+        firstgid: num(ts.attrs.firstgid, 1),
+        name: ts.attrs.name,
+        source: ts.attrs.source,
+        image: image?.attrs.source,
+        imagewidth: image?.attrs.width ? num(image.attrs.width) : undefined,
+        imageheight: image?.attrs.height ? num(image.attrs.height) : undefined,
+        tilewidth: ts.attrs.tilewidth ? num(ts.attrs.tilewidth) : undefined,
+        tileheight: ts.attrs.tileheight ? num(ts.attrs.tileheight) : undefined,
+        columns: ts.attrs.columns ? num(ts.attrs.columns) : undefined,
+        tilecount: ts.attrs.tilecount ? num(ts.attrs.tilecount) : undefined,
+        margin: num(ts.attrs.margin),
+        spacing: num(ts.attrs.spacing),
+        tiles: ts.children
+          .filter((c) => c.tag === "tile")
+          .map((t) => ({ id: num(t.attrs.id), properties: readProperties(t) })),
+        properties: readProperties(ts),
+      };
+    });
+  return {
+    orientation: a.orientation,
+    renderorder: a.renderorder,
+    infinite: a.infinite === "1",
+    width: num(a.width),
+    height: num(a.height),
+    tilewidth: num(a.tilewidth),
+    tileheight: num(a.tileheight),
+    layers: readLayers(mapNode),
+    tilesets,
+    properties: readProperties(mapNode),
+  };
+}
+
+function writeProperties(props: TiledProperty[] | undefined, indent: string): string {
+  if (!props || props.length === 0) return "";
+  const lines = props.map((p) => {
+    const type = p.type && p.type !== "string" ? ` type="${p.type}"` : "";
+    return `${indent} <property name="${escapeXml(p.name)}"${type} value="${escapeXml(String(p.value))}"/>`;
+  });
+  return `${indent}<properties>\n${lines.join("\n")}\n${indent}</properties>\n`;
+}
+
+function toTmx(tiled: TiledMap): string {
+  let out = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  out +=
+    `<map version="${tiled.version ?? "1.10"}" tiledversion="${tiled.tiledversion ?? "1.10.2"}"` +
+    ` orientation="orthogonal" renderorder="right-down" width="${tiled.width}" height="${tiled.height}"` +
+    ` tilewidth="${tiled.tilewidth}" tileheight="${tiled.tileheight}" infinite="0"` +
+    ` nextlayerid="${tiled.nextlayerid ?? 1}" nextobjectid="${tiled.nextobjectid ?? 1}">\n`;
+  out += writeProperties(tiled.properties, " ");
+  for (const ts of tiled.tilesets) {
+    out +=
+      ` <tileset firstgid="${ts.firstgid}" name="${escapeXml(ts.name ?? "")}" tilewidth="${ts.tilewidth}"` +
+      ` tileheight="${ts.tileheight}" tilecount="${ts.tilecount}" columns="${ts.columns}">\n`;
+    out += writeProperties(ts.properties, "  ");
+    out += `  <image source="${escapeXml(ts.image ?? "")}" width="${ts.imagewidth}" height="${ts.imageheight}"/>\n`;
+    out += " </tileset>\n";
+  }
+  for (const layer of tiled.layers) {
+    const visible = layer.visible === false ? ' visible="0"' : "";
+    const opacity = layer.opacity !== undefined && layer.opacity !== 1 ? ` opacity="${layer.opacity}"` : "";
+    if (layer.type === "tilelayer") {
+      out +=
+        ` <layer id="${layer.id}" name="${escapeXml(layer.name)}" width="${layer.width}"` +
+        ` height="${layer.height}"${visible}${opacity}>\n`;
+      out += writeProperties(layer.properties, "  ");
+      const data = Array.isArray(layer.data) ? layer.data : [];
+      const rows: string[] = [];
+      for (let y = 0; y < (layer.height ?? 0); y++) {
+        rows.push(data.slice(y * layer.width!, (y + 1) * layer.width!).join(","));
+      }
+      out += `  <data encoding="csv">\n${rows.join(",\n")}\n</data>\n`;
+      out += " </layer>\n";
+    } else if (layer.type === "objectgroup") {
+      out += ` <objectgroup id="${layer.id}" name="${escapeXml(layer.name)}"${visible}${opacity}>\n`;
+      out += writeProperties(layer.properties, "  ");
+      for (const obj of layer.objects ?? []) {
+        const props = writeProperties(obj.properties, "   ");
+        const attrs =
+          `id="${obj.id}" name="${escapeXml(obj.name ?? "")}" type="${escapeXml(obj.type ?? "")}"` +
+          ` x="${obj.x}" y="${obj.y}" width="${obj.width ?? 0}" height="${obj.height ?? 0}"`;
+        out += props ? `  <object ${attrs}>\n${props}  </object>\n` : `  <object ${attrs}/>\n`;
+      }
+      out += " </objectgroup>\n";
+    }
+  }
+  out += "</map>\n";
+  return out;
+}
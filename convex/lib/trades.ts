@@ -0,0 +1,69 @@
+import type { Doc } from "../_generated/dataModel";
+
+/**
+ * Trade offer bookkeeping shared by the trade API (convex/mechanics/trades.ts).
+ * Pure — no database access.
+ *
+ * Nothing leaves either player until both confirm: offers are re-checked
+ * against what each side actually holds when the swap runs, and changing
+ * either offer clears both confirmations so no one accepts terms they
+ * didn't see.
+ */
+
+/** How close two players must stand to trade (px), from presence positions */
+export const TRADE_RANGE_PX = 96;
+/** An unanswered trade request lapses after this long */
+export const TRADE_REQUEST_TTL_MS = 60_000;
+/** Most distinct items one side can put up */
+export const MAX_TRADE_ITEMS = 12;
+
+export type TradeOffer = Doc<"trades">["initiatorOffer"];
+export type TradeSide = "initiator" | "partner";
+
+export const EMPTY_OFFER: TradeOffer = { items: [], currency: {} };
+
+/** Which side of the trade a profile is on (null when it isn't part of it) */
+export function sideOf(trade: Doc<"trades">, profileId: string): TradeSide | null {
+  if (trade.initiatorId === profileId) return "initiator";
+  if (trade.partnerId === profileId) return "partner";
+  return null;
+}
+
+export function otherSide(side: TradeSide): TradeSide {
+  return side === "initiator" ? "partner" : "initiator";
+}
+
+export function offerOf(trade: Doc<"trades">, side: TradeSide): TradeOffer {
+  return side === "initiator" ? trade.initiatorOffer : trade.partnerOffer;
+}
+
+/** A trade request nobody answered in time */
+export function isLapsed(trade: Doc<"trades">, now: number): boolean {
+  return trade.status === "pending" && now - trade.createdAt > TRADE_REQUEST_TTL_MS;
+}
+
+/**
+ * Tidy an offer as submitted: whole positive amounts only, repeated items
+ * merged, zero currencies dropped.
+ */
+export function normalizeOffer(offer: TradeOffer): TradeOffer {
+  const items = new Map<string, number>();
+  for (const item of offer.items) {
+    const quantity = Math.floor(item.quantity);
+    if (!item.itemDefName || !(quantity > 0)) continue;
+    items.set(item.itemDefName, (items.get(item.itemDefName) ?? 0) + quantity);
+  }
+  const currency: Record<string, number> = {};
+  for (const [name, amount] of Object.entries(offer.currency)) {
+    const whole = Math.floor(amount);
+    if (name && whole > 0) currency[name] = whole;
+  }
+  return {
+    items: Array.from(items, ([itemDefName, quantity]) => ({ itemDefName, quantity })),
+    currency,
+  };
+}
+
+export function isEmptyOffer(offer: TradeOffer): boolean {
+  return offer.items.length === 0 && Object.keys(offer.currency).length === 0;
+}
@@ -0,0 +1,344 @@
+import { v, type Infer } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { requireMapEditor } from "./lib/requireMapEditor";
+import { requireSuperuser } from "./lib/requireSuperuser";
+import { findMapByName } from "./lib/renameMap";
+import { COLLISION_LAYER_INDEX, ensureChunked, writeMapCells } from "./lib/mapChunks";
+import { CURSOR_STALE_MS, appendMapEditOps } from "./lib/mapEdits";
+import { labelValidator, portalValidator, validatePortals } from "./maps";
+import { generateUniqueNpcInstanceName } from "./mapObjects";
+import { containerValidator } from "./lib/containers";
+import { lockRequirementsValidator } from "./lib/locks";
+import { checkContainerEdit } from "./mechanics/containers";
+
+/**
+ * Live collaborative map editing.
+ *
+ * Editors stream fine-grained patches (single tiles, collision cells,
+ * objects, items, portals, labels) through `applyOps`. The server merges
+ * them into the stored map — last write wins per cell / object / marker —
+ * and logs the applied ops so other editors replay them via `opsSince`.
+ * Objects and items are addressed by key: their Convex id, or a client id
+ * for one that hasn't reached the server yet (the new id is returned).
+ */
+
+export const mapEditOpValidator = v.union(
+  // Tiles are addressed by layer name so unsaved layer changes can't misroute
+  v.object({ kind: v.literal("tile"), layer: v.string(), x: v.number(), y: v.number(), tile: v.number() }),
+  v.object({ kind: v.literal("collision"), x: v.number(), y: v.number(), blocked: v.boolean() }),
+  v.object({
+    kind: v.literal("object"),
+    key: v.string(),
+    spriteDefName: v.string(),
+    x: v.float64(),
+    y: v.float64(),
+    layer: v.number(),
+    instanceName: v.optional(v.string()),
+    container: v.optional(containerValidator),
+    requirements: v.optional(lockRequirementsValidator),
+  }),
+  v.object({ kind: v.literal("objectRemove"), key: v.string() }),
+  v.object({
+    kind: v.literal("item"),
+    key: v.string(),
+    itemDefName: v.string(),
+    x: v.float64(),
+    y: v.float64(),
+    quantity: v.number(),
+    respawn: v.optional(v.boolean()),
+    respawnMs: v.optional(v.number()),
+  }),
+  v.object({ kind: v.literal("itemRemove"), key: v.string() }),
+  v.object({ kind: v.literal("portal"), portal: portalValidator }),
+  v.object({ kind: v.literal("portalRemove"), name: v.string() }),
+  v.object({ kind: v.literal("label"), label: labelValidator }),
+  v.object({ kind: v.literal("labelRemove"), name: v.string() }),
+);
+
+export type MapEditOp = Infer<typeof mapEditOpValidator>;
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Logged patches after `afterSeq`, oldest first. `truncated` means some ops
+ * in between were already trimmed from the log — the caller should reload
+ * the map instead of replaying.
+ */
+export const opsSince = query({
+  args: { mapName: v.string(), afterSeq: v.number() },
+  handler: async (ctx, { mapName, afterSeq }) => {
+    const map = await findMapByName(ctx, mapName);
+    if (!map) return { entries: [], truncated: false };
+    const entries = await ctx.db
+      .query("mapEditOps")
+      .withIndex("by_map_seq", (q) => q.eq("mapId", map._id).gt("seq", afterSeq))
+      .take(200);
+    return {
+      entries: entries.map((e) => ({
+        seq: e.seq,
+        clientId: e.clientId,
+        ops: JSON.parse(e.ops) as (MapEditOp | { kind: "reload" })[],
+      })),
+      truncated: entries.length > 0 && entries[0].seq > afterSeq + 1,
+    };
+  },
+});
+
+/** Cursors of editors currently working on a map (stale ones are filtered client-side). */
+export const listCursors = query({
+  args: { mapName: v.string() },
+  handler: async (ctx, { mapName }) => {
+    const map = await findMapByName(ctx, mapName);
+    if (!map) return [];
+    const cursors = await ctx.db
+      .query("mapEditorCursors")
+      .withIndex("by_map", (q) => q.eq("mapId", map._id))
+      .collect();
+    return cursors.map((c) => ({
+      clientId: c.clientId,
+      profileId: c.profileId,
+      name: c.name,
+      x: c.x,
+      y: c.y,
+      tool: c.tool,
+      updatedAt: c.updatedAt,
+    }));
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Mutations
+// ---------------------------------------------------------------------------
+
+/** Apply a batch of edit ops to a map and log them for other editors. */
+export const applyOps = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    mapName: v.string(),
+    clientId: v.string(),
+    ops: v.array(mapEditOpValidator),
+  },
+  handler: async (ctx, { profileId, mapName, clientId, ops }) => {
+    const found = await findMapByName(ctx, mapName);
+    if (!found) throw new Error(`Map "${mapName}" not found`);
+    await requireMapEditor(ctx, profileId, found.name);
+    // World items are superuser-only, same as worldItems.place / bulkSave
+    if (ops.some((op) => op.kind === "item" || op.kind === "itemRemove")) {
+      await requireSuperuser(ctx, profileId);
+    }
+    const portalOps = ops.flatMap((op) => (op.kind === "portal" ? [op.portal] : []));
+    if (portalOps.length > 0) await validatePortals(ctx, profileId, found.name, portalOps);
+
+    const map = await ensureChunked(ctx, found);
+    const layerIndexByName = new Map(map.layers.map((l, i) => [l.name, i]));
+    const now = Date.now();
+
+    const applied: MapEditOp[] = [];
+    const ids: Record<string, string> = {};
+    const cells: { layerIndex: number; x: number; y: number; value: unknown }[] = [];
+    let portals = map.portals ?? [];
+    let labels = map.labels;
+    let markersChanged = false;
+    let objectsChanged = false;
+
+    for (const op of ops) {
+      switch (op.kind) {
+        case "tile": {
+          const layerIndex = layerIndexByName.get(op.layer);
+          if (layerIndex === undefined) continue; // layer not saved yet
+          cells.push({ layerIndex, x: op.x, y: op.y, value: op.tile });
+          applied.push(op);
+          break;
+        }
+        case "collision":
+          cells.push({ layerIndex: COLLISION_LAYER_INDEX, x: op.x, y: op.y, value: op.blocked });
+          applied.push(op);
+          break;
+        case "object": {
+          const id = ctx.db.normalizeId("mapObjects", op.key);
+          const existing = id ? await ctx.db.get(id) : null;
+          const previous = existing && existing.mapName === map.name ? existing.container : undefined;
+          await checkContainerEdit(ctx, profileId, op.container, previous);
+          const fields = {
+            spriteDefName: op.spriteDefName,
+            x: op.x,
+            y: op.y,
+            layer: op.layer,
+            container: op.container,
+            requirements: op.requirements,
+          };
+          if (existing && existing.mapName === map.name) {
+            await ctx.db.patch(existing._id, { ...fields, updatedAt: now });
+            applied.push({ ...op, key: existing._id, instanceName: existing.instanceName });
+          } else {
+            const def = await ctx.db
+              .query("spriteDefinitions")
+              .withIndex("by_name", (q) => q.eq("name", op.spriteDefName))
+              .first();
+            const instanceName = def?.category === "npc"
+              ? await generateUniqueNpcInstanceName(ctx, op.instanceName ?? op.spriteDefName)
+              : undefined;
+            const newId = await ctx.db.insert("mapObjects", {
+              mapName: map.name,
+              ...fields,
+              instanceName,
+              updatedAt: now,
+            });
+            ids[op.key] = newId;
+            applied.push({ ...op, key: newId, instanceName });
+          }
+          objectsChanged = true;
+          break;
+        }
+        case "objectRemove": {
+          const id = ctx.db.normalizeId("mapObjects", op.key);
+          const existing = id ? await ctx.db.get(id) : null;
+          if (!existing || existing.mapName !== map.name) continue;
+          await ctx.db.delete(existing._id);
+          applied.push(op);
+          objectsChanged = true;
+          break;
+        }
+        case "item": {
+          const id = ctx.db.normalizeId("worldItems", op.key);
+          const existing = id ? await ctx.db.get(id) : null;
+          const fields = {
+            itemDefName: op.itemDefName,
+            x: op.x,
+            y: op.y,
+            quantity: op.quantity,
+            respawn: op.respawn,
+            respawnMs: op.respawnMs,
+            updatedAt: now,
+            placedBy: profileId,
+          };
+          if (existing && existing.mapName === map.name) {
+            // Pickup / respawn state is left alone
+            await ctx.db.patch(existing._id, fields);
+            applied.push({ ...op, key: existing._id });
+          } else {
+            const newId = await ctx.db.insert("worldItems", { mapName: map.name, ...fields });
+            ids[op.key] = newId;
+            applied.push({ ...op, key: newId });
+          }
+          break;
+        }
+        case "itemRemove": {
+          const id = ctx.db.normalizeId("worldItems", op.key);
+          const existing = id ? await ctx.db.get(id) : null;
+          if (!existing || existing.mapName !== map.name) continue;
+          await ctx.db.delete(existing._id);
+          applied.push(op);
+          break;
+        }
+        case "portal":
+          portals = [...portals.filter((p) => p.name !== op.portal.name), op.portal];
+          markersChanged = true;
+          applied.push(op);
+          break;
+        case "portalRemove":
+          portals = portals.filter((p) => p.name !== op.name);
+          markersChanged = true;
+          applied.push(op);
+          break;
+        case "label":
+          labels = [...labels.filter((l) => l.name !== op.label.name), op.label];
+          markersChanged = true;
+          applied.push(op);
+          break;
+        case "labelRemove":
+          labels = labels.filter((l) => l.name !== op.name);
+          markersChanged = true;
+          applied.push(op);
+          break;
+      }
+    }
+
+    if (cells.length > 0) await writeMapCells(ctx, map, cells);
+    await ctx.db.patch(map._id, {
+      ...(markersChanged ? { portals, labels } : {}),
+      updatedAt: now,
+    });
+    if (objectsChanged) {
+      await ctx.scheduler.runAfter(0, internal.npcEngine.syncMap, { mapName: map.name });
+    }
+
+    const seq = await appendMapEditOps(ctx, map._id, clientId, profileId, applied);
+    return { seq, ids };
+  },
+});
+
+/** Publish this editor session's cursor tile and active tool. */
+export const updateCursor = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    mapName: v.string(),
+    clientId: v.string(),
+    x: v.number(),
+    y: v.number(),
+    tool: v.string(),
+  },
+  handler: async (ctx, { profileId, mapName, clientId, x, y, tool }) => {
+    const map = await findMapByName(ctx, mapName);
+    if (!map) return;
+    await requireMapEditor(ctx, profileId, map.name);
+    const profile = await ctx.db.get(profileId);
+    const now = Date.now();
+
+    const data = {
+      mapId: map._id,
+      clientId,
+      profileId,
+      name: profile?.name ?? "Editor",
+      x,
+      y,
+      tool,
+      updatedAt: now,
+    };
+    const existing = await ctx.db
+      .query("mapEditorCursors")
+      .withIndex("by_client", (q) => q.eq("clientId", clientId))
+      .first();
+    if (existing && existing.profileId !== profileId) {
+      throw new Error("Permission denied: that editor session isn't yours");
+    }
+    if (existing) {
+      await ctx.db.patch(existing._id, data);
+    } else {
+      await ctx.db.insert("mapEditorCursors", data);
+    }
+
+    // Sweep sessions that closed without calling leaveCursor
+    const others = await ctx.db
+      .query("mapEditorCursors")
+      .withIndex("by_map", (q) => q.eq("mapId", map._id))
+      .collect();
+    for (const c of others) {
+      if (c.updatedAt < now - CURSOR_STALE_MS * 2) await ctx.db.delete(c._id);
+    }
+  },
+});
+
+/**
+ * Remove this editor session's cursor (leaving build mode / the map). Only
+ * the signed-in owner of the cursor's profile can remove it.
+ */
+export const leaveCursor = mutation({
+  args: { clientId: v.string() },
+  handler: async (ctx, { clientId }) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+    const existing = await ctx.db
+      .query("mapEditorCursors")
+      .withIndex("by_client", (q) => q.eq("clientId", clientId))
+      .first();
+    if (!existing) return;
+    const owner = await ctx.db.get(existing.profileId);
+    if (owner?.userId !== userId) throw new Error("Permission denied: that editor session isn't yours");
+    await ctx.db.delete(existing._id);
+  },
+});
@@ -2,6 +2,17 @@ import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import { internal } from "./_generated/api";
 import { requireMapEditor } from "./lib/requireMapEditor";
+import { containerValidator } from "./lib/containers";
+import { lockRequirementsValidator, objectLockId } from "./lib/locks";
+import {
+  OBJECT_TOGGLE_RANGE_PX,
+  checkInRange,
+  interactionFailure,
+  isInteractionFailure,
+  resolvePlayerPosition,
+} from "./lib/interaction";
+import { checkContainerEdit } from "./mechanics/containers";
+import { passLock } from "./mechanics/locks";
 
 function slugifyInstanceName(input: string): string {
   return input
@@ -12,7 +23,7 @@ function slugifyInstanceName(input: string): string {
     .replace(/^-|-$/g, "");
 }
 
-async function generateUniqueNpcInstanceName(
+export async function generateUniqueNpcInstanceName(
   ctx: any,
   baseInput: string,
   usedObjectNames?: Set<string>,
@@ -109,17 +120,39 @@ export const remove = mutation({
   },
 });
 
-/** Toggle on/off state of a map object. Any player can do this. */
+/**
+ * Toggle on/off state of a map object. Any player within reach of it can do
+ * this, as long as they meet its lock requirements to open it (lib/locks).
+ */
 export const toggle = mutation({
   args: {
+    profileId: v.id("profiles"),
     id: v.id("mapObjects"),
   },
-  handler: async (ctx, { id }) => {
+  handler: async (ctx, { profileId, id }) => {
+    const player = await resolvePlayerPosition(ctx, profileId);
+    if (isInteractionFailure(player)) return player;
     const obj = await ctx.db.get(id);
-    if (!obj) return { success: false };
+    if (!obj) return interactionFailure("not_found", "Object not found");
+
+    // Reach is measured to the sprite's centre (objects anchor at their base)
+    const def = await ctx.db
+      .query("spriteDefinitions")
+      .withIndex("by_name", (q) => q.eq("name", obj.spriteDefName))
+      .first();
+    if (!def?.toggleable && !def?.isDoor) return interactionFailure("not_usable", "Nothing to use here");
+    const halfHeight = (def.frameHeight * def.scale) / 2;
+    const tooFar = checkInRange(player, { ...obj, y: obj.y - halfHeight }, OBJECT_TOGGLE_RANGE_PX, "object");
+    if (tooFar) return tooFar;
+
+    // Opening a locked door (or switching on a locked object) needs its requirements
     const newState = !obj.isOn;
+    const passed = newState
+      ? await passLock(ctx, player.profile, obj.requirements, objectLockId(obj._id))
+      : null;
+    if (passed && isInteractionFailure(passed)) return passed;
     await ctx.db.patch(id, { isOn: newState, updatedAt: Date.now() });
-    return { success: true, isOn: newState };
+    return { success: true, isOn: newState, items: passed?.items };
   },
 });
 
@@ -127,8 +160,12 @@ export const toggle = mutation({
  * Bulk save: sync placed objects for a map.
  *
  * Objects that already exist in the DB (identified by `existingId`) are
- * **patched** — only position / layer / spriteDefName are updated.  Runtime
- * state like `isOn` is left untouched so toggles survive an editor save.
+ * **patched** — only position / layer / spriteDefName / container contents
+ * / lock requirements are updated.  Runtime state like `isOn` is left untouched so toggles
+ * survive an editor save.
+ *
+ * Setting or changing a container's contents is superuser-only
+ * (mechanics/containers.checkContainerEdit).
  *
  * Objects without an `existingId` are inserted as new.
  * Existing DB objects not present in the incoming list are deleted.
@@ -147,6 +184,8 @@ export const bulkSave = mutation({
         layer: v.number(),
         scaleOverride: v.optional(v.number()),
         flipX: v.optional(v.boolean()),
+        container: v.optional(containerValidator),
+        requirements: v.optional(lockRequirementsValidator),
       })
     ),
   },
@@ -177,11 +216,16 @@ export const bulkSave = mutation({
     for (const obj of objects) {
       const { existingId, ...fields } = obj;
 
+      const previous = existingId ? existingById.get(existingId) : undefined;
+      await checkContainerEdit(ctx, profileId, fields.container, previous?.container);
+
       if (existingId && existingById.has(existingId)) {
         // Existing object — patch position / layout only; preserve isOn
         keptIds.add(existingId);
         await ctx.db.patch(existingId, {
           ...fields,
+          container: fields.container, // cleared in the editor = removed
+          requirements: fields.requirements,
           updatedAt: now,
         });
       } else {
@@ -0,0 +1,107 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { requireMapEditor } from "./lib/requireMapEditor";
+import { findMapByName } from "./lib/renameMap";
+import { broadcastMapReload } from "./lib/mapEdits";
+import {
+  diffRevisionStates,
+  loadRevisionState,
+  recordMapRevision,
+  restoreRevision,
+} from "./lib/mapRevisions";
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/** Revision list for a map, newest first (snapshot payloads omitted). */
+export const list = query({
+  args: { mapName: v.string() },
+  handler: async (ctx, { mapName }) => {
+    const map = await findMapByName(ctx, mapName);
+    if (!map) return [];
+    const revisions = await ctx.db
+      .query("mapRevisions")
+      .withIndex("by_map_revision", (q) => q.eq("mapId", map._id))
+      .order("desc")
+      .collect();
+    return revisions.map((r) => ({
+      _id: r._id,
+      revision: r.revision,
+      mapName: r.mapName,
+      authorName: r.authorName,
+      createdAt: r.createdAt,
+      summary: r.summary,
+    }));
+  },
+});
+
+/** What changed between two revisions of a map (from → to). */
+export const diff = query({
+  args: { mapName: v.string(), fromRevision: v.number(), toRevision: v.number() },
+  handler: async (ctx, { mapName, fromRevision, toRevision }) => {
+    const map = await findMapByName(ctx, mapName);
+    if (!map) throw new Error(`Map "${mapName}" not found`);
+    const load = async (revision: number) => {
+      const rev = await ctx.db
+        .query("mapRevisions")
+        .withIndex("by_map_revision", (q) => q.eq("mapId", map._id).eq("revision", revision))
+        .first();
+      if (!rev) throw new Error(`Revision ${revision} not found`);
+      return await loadRevisionState(ctx, rev);
+    };
+    return diffRevisionStates(await load(fromRevision), await load(toRevision));
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Mutations
+// ---------------------------------------------------------------------------
+
+/**
+ * Record the map's current state as a revision without rewriting it — used by
+ * the editor's Save when tiles/objects were already streamed live.
+ */
+export const checkpoint = mutation({
+  args: { profileId: v.id("profiles"), mapName: v.string(), summary: v.optional(v.string()) },
+  handler: async (ctx, { profileId, mapName, summary }) => {
+    const map = await findMapByName(ctx, mapName);
+    if (!map) throw new Error(`Map "${mapName}" not found`);
+    await requireMapEditor(ctx, profileId, map.name);
+    const revision = await recordMapRevision(ctx, map._id, profileId, summary);
+    return { revision };
+  },
+});
+
+/**
+ * Revert a map (tiles, collision, settings, portals, labels, mapObjects and
+ * — for superusers — worldItems) to an earlier revision. Publish status and
+ * map type are left alone. The result is recorded as a new revision, so a
+ * revert can itself be reverted.
+ */
+export const revert = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    mapName: v.string(),
+    revision: v.number(),
+    // Live-edit session of the reverting editor (it reloads on its own)
+    clientId: v.optional(v.string()),
+  },
+  handler: async (ctx, { profileId, mapName, revision, clientId }) => {
+    const map = await findMapByName(ctx, mapName);
+    if (!map) throw new Error(`Map "${mapName}" not found`);
+    await requireMapEditor(ctx, profileId, map.name);
+    const rev = await ctx.db
+      .query("mapRevisions")
+      .withIndex("by_map_revision", (q) => q.eq("mapId", map._id).eq("revision", revision))
+      .first();
+    if (!rev) throw new Error(`Revision ${revision} not found`);
+
+    await restoreRevision(ctx, map, rev, profileId);
+    await ctx.scheduler.runAfter(0, internal.npcEngine.syncMap, { mapName: map.name });
+    const newRevision = await recordMapRevision(ctx, map._id, profileId, `Reverted to revision ${revision}`);
+    await broadcastMapReload(ctx, map._id, clientId, profileId);
+    return { revision: newRevision };
+  },
+});
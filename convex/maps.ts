@@ -1,8 +1,28 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalQuery, mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
 import { requireMapEditor, isMapOwner } from "./lib/requireMapEditor";
 import { requireSuperuser } from "./lib/requireSuperuser";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { mapToTiled, parseTiled, serializeTiled, tiledToMap } from "./lib/tiled";
+import { generateMap } from "./lib/mapGenerator";
+import { describeLintErrors, lintMap } from "./lib/mapLint";
+import {
+  COLLISION_LAYER_INDEX,
+  MAP_CHUNK_SIZE,
+  deleteMapChunks,
+  ensureChunked,
+  hydrateMapGrids,
+  saveMapGrids,
+  stripLayerTiles,
+  withChunks,
+  writeMapGrids,
+} from "./lib/mapChunks";
+import { findMapByName, renameMapCascade } from "./lib/renameMap";
+import { deleteMapRevisions, recordMapRevision } from "./lib/mapRevisions";
+import { broadcastMapReload, deleteMapEditState } from "./lib/mapEdits";
+import { lockRequirementsValidator } from "./lib/locks";
 
 // ---------------------------------------------------------------------------
 // Queries
@@ -107,20 +127,42 @@ export const listStartMaps = query({
 /** Default starting map name (used as fallback when a profile has no mapName) */
 export const DEFAULT_START_MAP = "cozy-cabin";
 
+/** Get a map by id. Chunked maps include their `chunks` (see lib/mapChunks). */
 export const get = query({
   args: { mapId: v.id("maps") },
   handler: async (ctx, { mapId }) => {
-    return await ctx.db.get(mapId);
+    return await withChunks(ctx, await ctx.db.get(mapId));
   },
 });
 
+/**
+ * Get a map by name (or a name it had before a rename — callers should use
+ * the returned `name`). Chunked maps include their `chunks` (see lib/mapChunks).
+ */
 export const getByName = query({
   args: { name: v.string() },
   handler: async (ctx, { name }) => {
-    return await ctx.db
-      .query("maps")
-      .withIndex("by_name", (q) => q.eq("name", name))
-      .first();
+    return await withChunks(ctx, await findMapByName(ctx, name));
+  },
+});
+
+const tilesetDimsValidator = v.optional(
+  v.array(v.object({ url: v.string(), imageWidth: v.number(), imageHeight: v.number() })),
+);
+
+/**
+ * Check a map for problems (see lib/mapLint.ts). `tilesetDims` supplies
+ * image sizes for per-layer tilesets so their tile indices can be checked.
+ */
+export const lint = query({
+  args: { name: v.string(), tilesetDims: tilesetDimsValidator },
+  handler: async (ctx, { name, tilesetDims }) => {
+    const map = await findMapByName(ctx, name);
+    if (!map) throw new Error(`Map "${name}" not found`);
+    const dims = Object.fromEntries(
+      (tilesetDims ?? []).map((d) => [d.url, { imageWidth: d.imageWidth, imageHeight: d.imageHeight }]),
+    );
+    return await lintMap(ctx, map, dims);
   },
 });
 
@@ -128,7 +170,7 @@ export const getByName = query({
 // Mutations
 // ---------------------------------------------------------------------------
 
-const portalValidator = v.object({
+export const portalValidator = v.object({
   name: v.string(),
   x: v.number(),
   y: v.number(),
@@ -138,9 +180,10 @@ const portalValidator = v.object({
   targetSpawn: v.string(),
   direction: v.optional(v.string()),
   transition: v.optional(v.string()),
+  requirements: v.optional(lockRequirementsValidator),
 });
 
-const labelValidator = v.object({
+export const labelValidator = v.object({
   name: v.string(),
   x: v.number(),
   y: v.number(),
@@ -167,6 +210,8 @@ const combatSettingsValidator = v.object({
   playerAttackCooldownMs: v.optional(v.number()),
   npcHitCooldownMs: v.optional(v.number()),
   damageVariancePct: v.optional(v.number()),
+  mode: v.optional(v.union(v.literal("realtime"), v.literal("turn-based"))),
+  encounterChancePct: v.optional(v.number()),
 });
 
 /**
@@ -174,7 +219,7 @@ const combatSettingsValidator = v.object({
  * - Regular users can only create portals between maps they own.
  * - Superusers can create cross-user portals only to public/system maps.
  */
-async function validatePortals(
+export async function validatePortals(
   ctx: any,
   profileId: any,
   sourceMapName: string,
@@ -214,6 +259,23 @@ async function validatePortals(
   }
 }
 
+/**
+ * A draft can only be published when the linter finds no errors. Call after
+ * the map's new content is written — throwing rolls the whole save back.
+ */
+async function requirePublishable(
+  ctx: MutationCtx,
+  mapId: Id<"maps">,
+  previousStatus: string | undefined,
+  nextStatus: string | undefined,
+) {
+  if (previousStatus !== "draft" || nextStatus !== "published") return;
+  const map = await ctx.db.get(mapId);
+  if (!map) return;
+  const issues = await lintMap(ctx, map);
+  if (issues.some((i) => i.severity === "error")) throw new Error(describeLintErrors(map.name, issues));
+}
+
 /** Create a brand-new empty map. Any authenticated user can create maps. */
 export const create = mutation({
   args: {
@@ -258,7 +320,15 @@ export const create = mutation({
       new Array(args.width * args.height).fill(false),
     );
 
-    return await ctx.db.insert("maps", {
+    const layers = [
+      { name: "bg0", type: "bg" as const, tiles: emptyLayer, visible: true },
+      { name: "bg1", type: "bg" as const, tiles: emptyLayer, visible: true },
+      { name: "obj0", type: "obj" as const, tiles: emptyLayer, visible: true },
+      { name: "obj1", type: "obj" as const, tiles: emptyLayer, visible: true },
+      { name: "overlay", type: "overlay" as const, tiles: emptyLayer, visible: true },
+    ];
+
+    const mapId = await ctx.db.insert("maps", {
       name: args.name,
       width: args.width,
       height: args.height,
@@ -267,14 +337,9 @@ export const create = mutation({
       tilesetUrl: args.tilesetUrl,
       tilesetPxW: args.tilesetPxW,
       tilesetPxH: args.tilesetPxH,
-      layers: [
-        { name: "bg0", type: "bg" as const, tiles: emptyLayer, visible: true },
-        { name: "bg1", type: "bg" as const, tiles: emptyLayer, visible: true },
-        { name: "obj0", type: "obj" as const, tiles: emptyLayer, visible: true },
-        { name: "obj1", type: "obj" as const, tiles: emptyLayer, visible: true },
-        { name: "overlay", type: "overlay" as const, tiles: emptyLayer, visible: true },
-      ],
-      collisionMask: emptyCollision,
+      layers: stripLayerTiles(layers),
+      collisionMask: "",
+      chunkSize: MAP_CHUNK_SIZE,
       labels: [
         // Default spawn point
         { name: "start1", x: Math.floor(args.width / 2), y: Math.floor(args.height / 2), width: 1, height: 1 },
@@ -291,6 +356,8 @@ export const create = mutation({
       createdBy: userId,
       updatedAt: Date.now(),
     });
+    await saveMapGrids(ctx, mapId, args.width, args.height, layers, emptyCollision);
+    return mapId;
   },
 });
 
@@ -317,6 +384,10 @@ export const saveFullMap = mutation({
     combatSettings: v.optional(combatSettingsValidator),
     status: v.optional(v.string()),
     mapType: v.optional(mapTypeValidator),
+    // Optional note for the revision history (a summary is generated otherwise)
+    summary: v.optional(v.string()),
+    // Live-edit session of the saving editor (it isn't told to reload)
+    clientId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -353,8 +424,9 @@ export const saveFullMap = mutation({
       tilesetUrl: args.tilesetUrl,
       tilesetPxW: args.tilesetPxW,
       tilesetPxH: args.tilesetPxH,
-      layers: args.layers,
-      collisionMask: args.collisionMask,
+      layers: stripLayerTiles(args.layers),
+      collisionMask: "",
+      chunkSize: MAP_CHUNK_SIZE,
       labels: args.labels,
       portals: args.portals ?? [],
       animationUrl: args.animationUrl,
@@ -367,17 +439,23 @@ export const saveFullMap = mutation({
       updatedAt: Date.now(),
     };
 
-    if (existing) {
-      await ctx.db.patch(existing._id, data);
-      return existing._id;
+    // Tiles + collision go to mapChunks; only changed chunks are rewritten
+    let mapId = existing?._id;
+    if (mapId) {
+      await ctx.db.patch(mapId, data);
     } else {
-      return await ctx.db.insert("maps", {
+      mapId = await ctx.db.insert("maps", {
         ...data,
         editors: [args.profileId],
         creatorProfileId: args.profileId,
         createdBy: userId,
       } as any);
     }
+    await saveMapGrids(ctx, mapId!, args.width, args.height, args.layers, args.collisionMask);
+    await requirePublishable(ctx, mapId!, existing?.status, args.status);
+    await recordMapRevision(ctx, mapId!, args.profileId, args.summary);
+    if (existing) await broadcastMapReload(ctx, mapId!, args.clientId, args.profileId);
+    return mapId;
   },
 });
 
@@ -429,6 +507,7 @@ export const updateMetadata = mutation({
     if (updates.mapType !== undefined) patch.mapType = updates.mapType;
 
     await ctx.db.patch(map._id, patch);
+    await requirePublishable(ctx, map._id, map.status, updates.status);
   },
 });
 
@@ -460,6 +539,42 @@ export const setEditors = mutation({
   },
 });
 
+/**
+ * Rename a map, rewriting every reference to it (portals, objects, items,
+ * NPCs, presence, chat, profiles). Requires superuser or map creator; system
+ * maps can only be renamed by superusers.
+ */
+export const rename = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    name: v.string(),
+    newName: v.string(),
+  },
+  handler: async (ctx, { profileId, name, newName }) => {
+    const profile = await ctx.db.get(profileId);
+    if (!profile) throw new Error("Profile not found");
+
+    const map = await ctx.db
+      .query("maps")
+      .withIndex("by_name", (q) => q.eq("name", name))
+      .first();
+    if (!map) throw new Error(`Map "${name}" not found`);
+
+    const isSuperuser = (profile as any).role === "superuser";
+    const isCreatorByUser = map.createdBy && profile.userId && map.createdBy === profile.userId;
+    const isCreatorByProfile = (map as any).creatorProfileId === profileId;
+    if (!isSuperuser && !isCreatorByUser && !isCreatorByProfile) {
+      throw new Error("Only the map creator or a superuser can rename maps");
+    }
+    if ((map as any).mapType === "system" && !isSuperuser) {
+      throw new Error("Only superusers can rename system maps");
+    }
+
+    const updated = await renameMapCascade(ctx, name, newName);
+    return { name: newName.trim(), updated };
+  },
+});
+
 /** Delete a map and all its objects. Requires superuser or map creator. */
 export const remove = mutation({
   args: {
@@ -511,10 +626,195 @@ export const remove = mutation({
       .collect();
     for (const m of messages) await ctx.db.delete(m._id);
 
+    await deleteMapChunks(ctx, map._id);
+    await deleteMapRevisions(ctx, map._id);
+    await deleteMapEditState(ctx, map._id);
     await ctx.db.delete(map._id);
   },
 });
 
+// ---------------------------------------------------------------------------
+// Tiled import / export
+// ---------------------------------------------------------------------------
+
+export const tiledFormatValidator = v.union(v.literal("tmj"), v.literal("tmx"));
+
+/**
+ * Create a new map from a Tiled .tmj/.tmx file (see lib/tiled.ts for the
+ * layer/object mapping). Like `create`, the name must be unused and the map
+ * starts as a draft. Returns the new id plus any conversion warnings.
+ */
+export const importTiled = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    name: v.string(),
+    format: tiledFormatValidator,
+    source: v.string(),
+    musicUrl: v.optional(v.string()),
+    combatEnabled: v.optional(v.boolean()),
+    mapType: v.optional(mapTypeValidator),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const profile = await ctx.db.get(args.profileId);
+    if (!profile) throw new Error("Profile not found");
+    if (profile.userId !== userId) throw new Error("Not your profile");
+    const mapType = args.mapType ?? "private";
+    if (mapType === "system" && (profile as any).role !== "superuser") {
+      throw new Error(`Only superusers can set map type to "system"`);
+    }
+
+    const existing = await ctx.db
+      .query("maps")
+      .withIndex("by_name", (q) => q.eq("name", args.name))
+      .first();
+    if (existing) throw new Error(`Map "${args.name}" already exists`);
+
+    const { map, warnings } = tiledToMap(parseTiled(args.format, args.source));
+    if (map.portals && map.portals.length > 0) {
+      await validatePortals(ctx, args.profileId, args.name, map.portals);
+    }
+
+    const mapId = await ctx.db.insert("maps", {
+      ...map,
+      layers: stripLayerTiles(map.layers),
+      collisionMask: "",
+      chunkSize: MAP_CHUNK_SIZE,
+      name: args.name,
+      musicUrl: args.musicUrl ?? map.musicUrl,
+      combatEnabled: args.combatEnabled ?? map.combatEnabled ?? false,
+      status: "draft",
+      mapType,
+      editors: [args.profileId],
+      creatorProfileId: args.profileId,
+      createdBy: userId,
+      updatedAt: Date.now(),
+    });
+    await saveMapGrids(ctx, mapId, map.width, map.height, map.layers, map.collisionMask);
+    await recordMapRevision(ctx, mapId, args.profileId, "Imported from Tiled");
+    return { mapId, warnings };
+  },
+});
+
+/**
+ * Export a map as Tiled .tmj/.tmx text. `tilesetDims` supplies image sizes
+ * for per-layer tilesets (the primary tileset's size is stored on the map).
+ */
+export const exportTiled = query({
+  args: {
+    name: v.string(),
+    format: tiledFormatValidator,
+    tilesetDims: tilesetDimsValidator,
+  },
+  handler: async (ctx, { name, format, tilesetDims }) => {
+    const map = await ctx.db
+      .query("maps")
+      .withIndex("by_name", (q) => q.eq("name", name))
+      .first();
+    if (!map) throw new Error(`Map "${name}" not found`);
+    const dims = Object.fromEntries(
+      (tilesetDims ?? []).map((d) => [d.url, { imageWidth: d.imageWidth, imageHeight: d.imageHeight }]),
+    );
+    return serializeTiled(mapToTiled((await hydrateMapGrids(ctx, map)) as any, dims), format);
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Procedural generation
+// ---------------------------------------------------------------------------
+
+export const generatorValidator = v.object({
+  algorithm: v.union(v.literal("bsp"), v.literal("caves"), v.literal("overworld")),
+  seed: v.string(),
+  width: v.number(),
+  height: v.number(),
+  tileWidth: v.number(),
+  tileHeight: v.number(),
+  tilesetUrl: v.optional(v.string()),
+  tilesetPxW: v.number(),
+  tilesetPxH: v.number(),
+  palette: v.object({
+    floor: v.array(v.number()),
+    wall: v.array(v.number()),
+    water: v.optional(v.array(v.number())),
+    shore: v.optional(v.array(v.number())),
+    tree: v.optional(v.array(v.number())),
+    decor: v.optional(v.array(v.number())),
+    overlay: v.optional(v.array(v.number())),
+  }),
+  entry: v.optional(v.object({ targetMap: v.string(), targetSpawn: v.string() })),
+  exit: v.optional(v.object({ targetMap: v.string(), targetSpawn: v.string() })),
+});
+
+/**
+ * Generate a map without saving it (same output for the same options).
+ * Used to preview / diff seeds from scripts/generate-map.mjs (`convex run`);
+ * internal, since a big map is a lot of work to hand anyone who asks.
+ */
+export const previewGenerated = internalQuery({
+  args: { name: v.string(), generator: generatorValidator },
+  handler: async (_ctx, { name, generator }) => {
+    return generateMap({ ...generator, mapName: name });
+  },
+});
+
+/**
+ * Create a new map from the procedural generator (see lib/mapGenerator.ts).
+ * Like `create`, the name must be unused and the map starts as a draft.
+ */
+export const generate = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    name: v.string(),
+    generator: generatorValidator,
+    musicUrl: v.optional(v.string()),
+    combatEnabled: v.optional(v.boolean()),
+    mapType: v.optional(mapTypeValidator),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const profile = await ctx.db.get(args.profileId);
+    if (!profile) throw new Error("Profile not found");
+    if (profile.userId !== userId) throw new Error("Not your profile");
+    const mapType = args.mapType ?? "private";
+    if (mapType === "system" && (profile as any).role !== "superuser") {
+      throw new Error(`Only superusers can set map type to "system"`);
+    }
+
+    const existing = await ctx.db
+      .query("maps")
+      .withIndex("by_name", (q) => q.eq("name", args.name))
+      .first();
+    if (existing) throw new Error(`Map "${args.name}" already exists`);
+
+    const { map, summary } = generateMap({ ...args.generator, mapName: args.name });
+    await validatePortals(ctx, args.profileId, args.name, map.portals ?? []);
+
+    const mapId = await ctx.db.insert("maps", {
+      ...map,
+      layers: stripLayerTiles(map.layers),
+      collisionMask: "",
+      chunkSize: MAP_CHUNK_SIZE,
+      name: args.name,
+      musicUrl: args.musicUrl,
+      combatEnabled: args.combatEnabled ?? false,
+      status: "draft",
+      mapType,
+      editors: [args.profileId],
+      creatorProfileId: args.profileId,
+      createdBy: userId,
+      updatedAt: Date.now(),
+    });
+    await saveMapGrids(ctx, mapId, map.width, map.height, map.layers, map.collisionMask);
+    await recordMapRevision(ctx, mapId, args.profileId, `Generated: ${summary}`);
+    return { mapId, summary };
+  },
+});
+
 // Legacy mutations (kept for compatibility)
 
 export const updateLayer = mutation({
@@ -524,13 +824,13 @@ export const updateLayer = mutation({
     tiles: v.string(),
   },
   handler: async (ctx, { mapId, layerIndex, tiles }) => {
-    const map = await ctx.db.get(mapId);
-    if (!map) throw new Error("Map not found");
+    const doc = await ctx.db.get(mapId);
+    if (!doc) throw new Error("Map not found");
+    if (!doc.layers[layerIndex]) throw new Error(`Layer ${layerIndex} not found`);
 
-    const layers = [...map.layers];
-    layers[layerIndex] = { ...layers[layerIndex], tiles };
-
-    await ctx.db.patch(mapId, { layers, updatedAt: Date.now() });
+    const map = await ensureChunked(ctx, doc);
+    await writeMapGrids(ctx, mapId, map.width, map.height, new Map([[layerIndex, JSON.parse(tiles)]]));
+    await ctx.db.patch(mapId, { updatedAt: Date.now() });
   },
 });
 
@@ -540,7 +840,18 @@ export const updateCollision = mutation({
     collisionMask: v.string(),
   },
   handler: async (ctx, { mapId, collisionMask }) => {
-    await ctx.db.patch(mapId, { collisionMask, updatedAt: Date.now() });
+    const doc = await ctx.db.get(mapId);
+    if (!doc) throw new Error("Map not found");
+
+    const map = await ensureChunked(ctx, doc);
+    await writeMapGrids(
+      ctx,
+      mapId,
+      map.width,
+      map.height,
+      new Map([[COLLISION_LAYER_INDEX, JSON.parse(collisionMask)]]),
+    );
+    await ctx.db.patch(mapId, { updatedAt: Date.now() });
   },
 });
 
@@ -1,7 +1,56 @@
 import { v } from "convex/values";
-import { mutation, query } from "../_generated/server";
-import type { Doc } from "../_generated/dataModel";
+import type { Infer } from "convex/values";
+import { internalMutation, mutation, query } from "../_generated/server";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
 import { internal } from "../_generated/api";
+import {
+  interactionFailure,
+  isInteractionFailure,
+  resolveOwnedProfile,
+  resolvePlayerPosition,
+  searchRadius,
+} from "../lib/interaction";
+import type { PlayerPosition } from "../lib/interaction";
+import {
+  PLAYER_COMBATANT_ID,
+  calculateDamage,
+  enemyCombatantId,
+  fleeChance,
+  isCombatOver,
+  resolveTurn,
+  skillPotency,
+  turnOrder,
+} from "../lib/combatEngine";
+import type { BattleAction, BattleCombatant, TurnResult } from "../lib/combatEngine";
+import {
+  DEFAULT_SKILL_RADIUS_PX,
+  currentResources,
+  getSkillDef,
+  knowsSkill,
+  knownSkills,
+  skillDefsByName,
+  spendResource,
+} from "../lib/skills";
+import {
+  applyEffect,
+  effectDurationMs,
+  effectiveStats,
+  isHarmful,
+  knownEffects,
+  statusEffectDef,
+  tickEffects,
+} from "../lib/statusEffects";
+import type { EffectSpec, StatusEffect } from "../lib/statusEffects";
+import { gearBonuses, withGear } from "../lib/equipment";
+import { countItem } from "../lib/inventory";
+import { MAX_LOOT_QUANTITY, lootTableValidator, npcLootTable } from "../lib/loot";
+import { requireMapEditor } from "../lib/requireMapEditor";
+import { requireSuperuser } from "../lib/requireSuperuser";
+import { checkLootTable, dropLoot, grantRewards } from "./loot";
+import type { DroppedLoot, EncounterRewards } from "./loot";
+import { applyToNpc, applyToProfile } from "./statusEffects";
+import { inventoryItemsOf, readInventory, removeItems } from "./inventory";
 
 const DEFAULT_ATTACK_RANGE_PX = 64;
 const DEFAULT_PLAYER_ATTACK_COOLDOWN_MS = 350;
@@ -14,6 +63,14 @@ const HIGH_AGGRESSION = "high";
 const MEDIUM_AGGRESSION = "medium";
 const LOW_AGGRESSION = "low";
 const ENEMY_TAG = "hostile";
+const DEFAULT_NPC_STATS = {
+  hp: 20,
+  maxHp: 20,
+  atk: 4,
+  def: 1,
+  spd: 1,
+  level: 1,
+};
 
 /** Set to true to enable verbose server-side combat logging. */
 const COMBAT_DEBUG = false;
@@ -32,73 +89,199 @@ function resolveAggression(profile: Doc<"npcProfiles"> | undefined) {
   return MEDIUM_AGGRESSION;
 }
 
-export const getEncounter = query({
-  args: { id: v.id("combatEncounters") },
-  handler: async (ctx, { id }) => {
-    return await ctx.db.get(id);
-  },
-});
+function combatMode(map: Doc<"maps"> | null | undefined): "realtime" | "turn-based" {
+  return map?.combatSettings?.mode === "turn-based" ? "turn-based" : "realtime";
+}
 
-export const createEncounter = mutation({
-  args: {
-    enemies: v.any(),
-    rewards: v.any(),
-    mapId: v.optional(v.id("maps")),
-    triggerLabel: v.optional(v.string()),
-  },
-  handler: async (ctx, args) => {
-    return await ctx.db.insert("combatEncounters", args);
-  },
-});
+interface HostileNpc {
+  state: Doc<"npcState">;
+  profile: Doc<"npcProfiles">;
+  instanceName: string;
+}
 
-export const submitAction = mutation({
-  args: {
-    encounterId: v.id("combatEncounters"),
-    profileId: v.id("profiles"),
-    action: v.any(),
-  },
-  handler: async (ctx, { encounterId, profileId, action: playerAction }) => {
-    // Server-authoritative combat resolution
-    // For now, return the action as a turn log entry
-    // Full combat engine will be implemented in Phase 7
-    const encounter = await ctx.db.get(encounterId);
-    if (!encounter) throw new Error("Encounter not found");
+/** Hostile NPCs on a map that aren't waiting to respawn */
+async function loadHostiles(ctx: MutationCtx, mapName: string, now: number): Promise<HostileNpc[]> {
+  const npcProfiles = await ctx.db.query("npcProfiles").collect();
+  const npcByName = new Map(npcProfiles.map((p) => [p.name, p]));
+  const states = await ctx.db
+    .query("npcState")
+    .withIndex("by_map", (q) => q.eq("mapName", mapName))
+    .collect();
+  const mapObjects = await ctx.db
+    .query("mapObjects")
+    .withIndex("by_map", (q) => q.eq("mapName", mapName))
+    .collect();
+  const mapObjectInstanceNameById = new Map(
+    mapObjects.map((o) => [String(o._id), o.instanceName]),
+  );
 
-    return {
-      action: playerAction,
-      result: "pending",
-      message: "Combat engine pending implementation",
-    };
-  },
-});
+  const hostiles: HostileNpc[] = [];
+  for (const state of states) {
+    const instanceName =
+      state.instanceName ?? mapObjectInstanceNameById.get(String(state.mapObjectId));
+    if (!instanceName) continue;
+    const profile = npcByName.get(instanceName);
+    if (!profile) continue;
+    if (!profile.tags?.includes(ENEMY_TAG)) continue;
+    if (state.respawnAt != null && now < state.respawnAt) continue;
+    hostiles.push({ state, profile, instanceName });
+  }
+  return hostiles;
+}
+
+function nearestHostile(hostiles: HostileNpc[], x: number, y: number): (HostileNpc & { dist: number }) | null {
+  let nearest: (HostileNpc & { dist: number }) | null = null;
+  for (const h of hostiles) {
+    const dist = Math.hypot(h.state.x - x, h.state.y - y);
+    if (!nearest || dist < nearest.dist) nearest = { ...h, dist };
+  }
+  return nearest;
+}
+
+/** Knock an NPC out until it respawns */
+async function defeatNpcState(ctx: MutationCtx, id: Id<"npcState">, maxHp: number, now: number) {
+  await ctx.db.patch(id, {
+    currentHp: 0,
+    maxHp,
+    defeatedAt: now,
+    respawnAt: now + DEFAULT_NPC_RESPAWN_MS,
+    lastHitAt: now,
+    aggroTargetProfileId: undefined,
+    aggroUntil: undefined,
+    vx: 0,
+    vy: 0,
+    targetX: undefined,
+    targetY: undefined,
+    path: undefined,
+    statusEffects: undefined,
+  });
+}
+
+/**
+ * A hostile knocked out by a player: down until it respawns, its loot table
+ * rolled (dropped where it fell, or handed to the player) and a kill for the
+ * player's quests. Returns the XP earned (the caller adds it to the player's
+ * stats) and where each drop went.
+ */
+async function defeatHostile(
+  ctx: MutationCtx,
+  profileId: Id<"profiles">,
+  hostile: HostileNpc,
+  maxHp: number,
+  mapName: string,
+  now: number,
+) {
+  const npcStats = hostile.profile.stats ?? DEFAULT_NPC_STATS;
+  const xpGained = Math.max(1, Math.round((npcStats.level ?? 1) * 8));
+
+  await defeatNpcState(ctx, hostile.state._id, maxHp, now);
+
+  const table = npcLootTable(hostile.profile);
+  const droppedLoot = table
+    ? await dropLoot(ctx, { table, killerId: profileId, mapName, x: hostile.state.x, y: hostile.state.y, now })
+    : [];
+
+  // Quest progress: kill objective tracking (instance name and sprite def).
+  await ctx.runMutation(internal.quests.recordKillProgress, {
+    profileId,
+    targetNpcProfileName: hostile.instanceName,
+    targetSpriteDefName: hostile.state.spriteDefName,
+    count: 1,
+  });
+
+  return { xpGained, droppedLoot };
+}
 
-export const logCombat = mutation({
+/**
+ * An NPC finished off by damage over time (mechanics/statusEffects.ts): a
+ * kill for whoever applied the effect, or just knocked out when nobody did.
+ */
+export const defeatByStatusEffect = internalMutation({
   args: {
-    encounterId: v.id("combatEncounters"),
-    profileId: v.id("profiles"),
-    turns: v.any(),
-    outcome: v.union(
-      v.literal("victory"),
-      v.literal("defeat"),
-      v.literal("flee")
-    ),
+    npcStateId: v.id("npcState"),
+    maxHp: v.number(),
+    killerProfileId: v.optional(v.id("profiles")),
   },
-  handler: async (ctx, args) => {
-    return await ctx.db.insert("combatLog", {
-      ...args,
-      timestamp: Date.now(),
+  handler: async (ctx, { npcStateId, maxHp, killerProfileId }) => {
+    const state = await ctx.db.get(npcStateId);
+    if (!state) return;
+    const now = Date.now();
+    const instanceName = state.instanceName ?? (await ctx.db.get(state.mapObjectId))?.instanceName;
+    const profile = instanceName
+      ? await ctx.db
+        .query("npcProfiles")
+        .withIndex("by_name", (q) => q.eq("name", instanceName))
+        .first()
+      : null;
+    const killer = killerProfileId ? await ctx.db.get(killerProfileId) : null;
+    if (!instanceName || !profile || !killer) {
+      await defeatNpcState(ctx, npcStateId, maxHp, now);
+      return;
+    }
+    const { xpGained } = await defeatHostile(ctx, killer._id, { state, profile, instanceName }, maxHp, state.mapName, now);
+    await ctx.db.patch(killer._id, {
+      stats: { ...killer.stats, xp: (killer.stats.xp ?? 0) + xpGained },
     });
   },
 });
 
+/** The status effects a hostile's hit inflicts this time (each rolls its chance) */
+function rollAttackEffects(profile: Doc<"npcProfiles"> | null | undefined): EffectSpec[] {
+  return knownEffects((profile?.attackEffects ?? []).filter((e) => Math.random() < (e.chance ?? 1)));
+}
+
+/**
+ * How a hostile hit by the player at (x, y) reacts: medium/high hostiles
+ * become actively engaged, low aggression hostiles flee instead of locking
+ * aggro. Returned as npcState fields to patch.
+ */
+function hostileReaction(
+  hostile: HostileNpc,
+  profileId: Id<"profiles">,
+  x: number,
+  y: number,
+  now: number,
+) {
+  const { state } = hostile;
+  if (resolveAggression(hostile.profile) === LOW_AGGRESSION) {
+    const awayDx = state.x - x;
+    const awayDy = state.y - y;
+    const len = Math.sqrt(awayDx * awayDx + awayDy * awayDy) || 1;
+    return {
+      aggroTargetProfileId: undefined,
+      aggroUntil: undefined,
+      targetX: state.x + (awayDx / len) * DEFAULT_FLEE_DISTANCE_PX,
+      targetY: state.y + (awayDy / len) * DEFAULT_FLEE_DISTANCE_PX,
+      path: undefined, // re-planned toward the new target next tick
+      idleUntil: undefined,
+    };
+  }
+  return {
+    aggroTargetProfileId: profileId,
+    aggroUntil: now + DEFAULT_AGGRO_MEMORY_MS,
+    targetX: undefined,
+    targetY: undefined,
+    path: undefined,
+    idleUntil: state.idleUntil,
+  };
+}
+
+/**
+ * Attack the hostile NPC nearest the player. The player's position is their
+ * server-side presence, never client-supplied.
+ */
 export const attackNearestHostile = mutation({
   args: {
     profileId: v.id("profiles"),
     mapName: v.string(),
-    x: v.float64(),
-    y: v.float64(),
   },
-  handler: async (ctx, { profileId, mapName, x, y }) => {
+  handler: async (ctx, { profileId, mapName }) => {
+    const position = await resolvePlayerPosition(ctx, profileId);
+    if (isInteractionFailure(position)) return position;
+    if (position.mapName !== mapName) {
+      return interactionFailure("wrong_map", "You're not on that map.");
+    }
+    const { x, y } = position;
     combatLog("[CombatDebug:server] attack request", {
       profileId: String(profileId),
       mapName,
@@ -112,7 +295,10 @@ export const attackNearestHostile = mutation({
       .first();
     if (!map?.combatEnabled) {
       combatLog("[CombatDebug:server] rejected: combat disabled", { mapName });
-      return { success: false, reason: "Combat is disabled on this map." as const };
+      return interactionFailure("not_usable", "Combat is disabled on this map.");
+    }
+    if (combatMode(map) === "turn-based") {
+      return interactionFailure("not_usable", "Fights on this map are turn-based battles.");
     }
     const settings = (map as any).combatSettings ?? {};
     const attackRangePx = clamp(
@@ -136,108 +322,48 @@ export const attackNearestHostile = mutation({
       100,
     );
 
-    const player = await ctx.db.get(profileId);
-    if (!player) {
-      combatLog("[CombatDebug:server] rejected: missing player", { profileId: String(profileId) });
-      return { success: false, reason: "Player profile not found." as const };
-    }
-
+    const player = position.profile;
     const now = Date.now();
-    const npcProfiles = await ctx.db.query("npcProfiles").collect();
-    const npcByName = new Map(npcProfiles.map((p) => [p.name, p]));
-
-    const states = await ctx.db
-      .query("npcState")
-      .withIndex("by_map", (q) => q.eq("mapName", mapName))
-      .collect();
-    const mapObjects = await ctx.db
-      .query("mapObjects")
-      .withIndex("by_map", (q) => q.eq("mapName", mapName))
-      .collect();
-    const mapObjectInstanceNameById = new Map(
-      mapObjects.map((o) => [String(o._id), o.instanceName]),
-    );
-
-    const hostiles = states.filter((s) => {
-      const instanceName =
-        s.instanceName ?? mapObjectInstanceNameById.get(String(s.mapObjectId));
-      if (!instanceName) return false;
-      const profile = npcByName.get(instanceName);
-      if (!profile) return false;
-      if (!profile.tags?.includes(ENEMY_TAG)) return false;
-      if (s.respawnAt != null && now < s.respawnAt) return false;
-      return true;
-    });
+    const hostiles = await loadHostiles(ctx, mapName, now);
     combatLog("[CombatDebug:server] target scan", {
       mapName,
-      npcStateCount: states.length,
       hostileCount: hostiles.length,
     });
 
     if (hostiles.length === 0) {
       combatLog("[CombatDebug:server] rejected: no hostiles");
-      return { success: false, reason: "No hostile NPC nearby." as const };
-    }
-
-    let nearest: Doc<"npcState"> | null = null;
-    let nearestDist = Number.POSITIVE_INFINITY;
-    for (const s of hostiles) {
-      const dx = s.x - x;
-      const dy = s.y - y;
-      const d = Math.sqrt(dx * dx + dy * dy);
-      if (d < nearestDist) {
-        nearestDist = d;
-        nearest = s;
-      }
+      return interactionFailure("not_found", "No hostile NPC nearby.");
     }
 
-    if (!nearest || nearestDist > attackRangePx) {
+    const target = nearestHostile(hostiles, x, y);
+    if (!target || target.dist > searchRadius(attackRangePx)) {
       combatLog("[CombatDebug:server] rejected: out of range", {
-        nearestDist: Number.isFinite(nearestDist) ? Math.round(nearestDist) : null,
+        nearestDist: target ? Math.round(target.dist) : null,
         attackRangePx,
       });
-      return { success: false, reason: "No hostile NPC in attack range." as const };
+      return interactionFailure("out_of_range", "No hostile NPC in attack range.");
     }
+    const nearest = target.state;
+    const nearestDist = target.dist;
     if (nearest.lastHitAt != null && now - nearest.lastHitAt < npcHitCooldownMs) {
       combatLog("[CombatDebug:server] rejected: npc hit cooldown", {
         elapsedMs: now - nearest.lastHitAt,
         npcHitCooldownMs,
         npcId: String(nearest._id),
       });
-      return { success: false, reason: "Target is recovering, attack in a moment." as const };
-    }
-
-    const nearestInstanceName =
-      nearest.instanceName ?? mapObjectInstanceNameById.get(String(nearest.mapObjectId));
-    if (!nearestInstanceName) {
-      combatLog("[CombatDebug:server] rejected: missing instanceName", {
-        npcId: String(nearest._id),
-        mapObjectId: String(nearest.mapObjectId),
-      });
-      return { success: false, reason: "Target instance is missing." as const };
-    }
-    const npcProfile = npcByName.get(nearestInstanceName);
-    if (!npcProfile) {
-      combatLog("[CombatDebug:server] rejected: missing npc profile", {
-        nearestInstanceName,
-      });
-      return { success: false, reason: "Target profile is missing." as const };
+      return interactionFailure("not_usable", "Target is recovering, attack in a moment.");
     }
+    const nearestInstanceName = target.instanceName;
+    const npcProfile = target.profile;
 
-    const npcStats = npcProfile.stats ?? {
-      hp: 20,
-      maxHp: 20,
-      atk: 4,
-      def: 1,
-      spd: 1,
-      level: 1,
-    };
+    const npcStats = effectiveStats(npcProfile.stats ?? DEFAULT_NPC_STATS, nearest.statusEffects, now);
+    const playerStats = effectiveStats(withGear(player.stats, await gearBonuses(ctx, player)), player.statusEffects, now);
     const aggression = resolveAggression(npcProfile);
 
     const enemyMaxHp = Math.max(1, nearest.maxHp ?? npcStats.maxHp ?? npcStats.hp ?? 20);
     const enemyHp = Math.max(0, nearest.currentHp ?? npcStats.hp ?? enemyMaxHp);
 
-    const playerAtk = Math.max(1, player.stats.atk ?? 1);
+    const playerAtk = Math.max(1, playerStats.atk ?? 1);
     const enemyDef = Math.max(0, npcStats.def ?? 0);
     const basePlayerDamage = Math.max(1, Math.round(playerAtk - enemyDef * 0.4));
     const dealtVariance = Math.round(
@@ -250,83 +376,19 @@ export const attackNearestHostile = mutation({
 
     let took = 0;
     let xpGained = 0;
-    const droppedLoot: Array<{ itemDefName: string; quantity: number }> = [];
+    let droppedLoot: DroppedLoot[] = [];
 
     if (defeated) {
-      xpGained = Math.max(1, Math.round((npcStats.level ?? 1) * 8));
-      const nextXp = (player.stats.xp ?? 0) + xpGained;
+      ({ xpGained, droppedLoot } = await defeatHostile(ctx, profileId, target, enemyMaxHp, mapName, now));
       await ctx.db.patch(profileId, {
         stats: {
           ...player.stats,
-          xp: nextXp,
+          xp: (player.stats.xp ?? 0) + xpGained,
         },
       });
-
-      await ctx.db.patch(nearest._id, {
-        currentHp: 0,
-        maxHp: enemyMaxHp,
-        defeatedAt: now,
-        respawnAt: now + DEFAULT_NPC_RESPAWN_MS,
-        lastHitAt: now,
-        aggroTargetProfileId: undefined,
-        aggroUntil: undefined,
-        vx: 0,
-        vy: 0,
-        targetX: undefined,
-        targetY: undefined,
-      });
-
-      const firstLoot = (npcProfile.items ?? []).find((i) => i.quantity > 0);
-      if (firstLoot) {
-        const itemDef = await ctx.db
-          .query("itemDefs")
-          .withIndex("by_name", (q) => q.eq("name", firstLoot.name))
-          .first();
-        if (itemDef) {
-          const quantity = 1;
-          await ctx.db.insert("worldItems", {
-            mapName,
-            itemDefName: itemDef.name,
-            x: nearest.x,
-            y: nearest.y,
-            quantity,
-            respawn: false,
-            updatedAt: now,
-          });
-          droppedLoot.push({ itemDefName: itemDef.name, quantity });
-        }
-      }
-
-      // Quest progress: kill objective tracking (instance name and sprite def).
-      await ctx.runMutation(internal.quests.recordKillProgress, {
-        profileId,
-        targetNpcProfileName: nearestInstanceName,
-        targetSpriteDefName: nearest.spriteDefName,
-        count: 1,
-      });
     } else {
-      // Medium/high hostiles become actively engaged after first hit.
-      // Low aggression hostiles flee instead of locking aggro.
-      let nextAggroTargetProfileId: Doc<"npcState">["aggroTargetProfileId"] = undefined;
-      let nextAggroUntil: number | undefined = undefined;
-      let fleeTargetX: number | undefined = undefined;
-      let fleeTargetY: number | undefined = undefined;
-
-      if (aggression === LOW_AGGRESSION) {
-        const awayDx = nearest.x - x;
-        const awayDy = nearest.y - y;
-        const len = Math.sqrt(awayDx * awayDx + awayDy * awayDy) || 1;
-        const nx = awayDx / len;
-        const ny = awayDy / len;
-        fleeTargetX = nearest.x + nx * DEFAULT_FLEE_DISTANCE_PX;
-        fleeTargetY = nearest.y + ny * DEFAULT_FLEE_DISTANCE_PX;
-      } else {
-        nextAggroTargetProfileId = profileId;
-        nextAggroUntil = now + DEFAULT_AGGRO_MEMORY_MS;
-      }
-
       const enemyAtk = Math.max(1, npcStats.atk ?? 1);
-      const playerDef = Math.max(0, player.stats.def ?? 0);
+      const playerDef = Math.max(0, playerStats.def ?? 0);
       const baseEnemyDamage = Math.max(0, Math.round(enemyAtk - playerDef * 0.35));
       const tookVariance = Math.round(
         baseEnemyDamage * ((Math.random() * 2 - 1) * (damageVariancePct / 100)),
@@ -340,16 +402,13 @@ export const attackNearestHostile = mutation({
           hp: nextPlayerHp,
         },
       });
+      if (took > 0) await applyToProfile(ctx, profileId, rollAttackEffects(npcProfile));
 
       await ctx.db.patch(nearest._id, {
         currentHp: nextEnemyHp,
         maxHp: enemyMaxHp,
         lastHitAt: now,
-        aggroTargetProfileId: nextAggroTargetProfileId,
-        aggroUntil: nextAggroUntil,
-        targetX: fleeTargetX,
-        targetY: fleeTargetY,
-        idleUntil: fleeTargetX != null ? undefined : nearest.idleUntil,
+        ...hostileReaction(target, profileId, x, y, now),
       });
     }
 
@@ -387,19 +446,229 @@ export const attackNearestHostile = mutation({
   },
 });
 
+/** Unit vectors for presence facing directions (cone skills) */
+const FACING: Record<string, { x: number; y: number }> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+/** Cone skills hit targets within this angle either side of the caster's facing */
+const CONE_HALF_ANGLE_RAD = Math.PI / 4;
+
+/** The hostiles a damage skill cast from (x, y), facing `direction`, hits */
+function skillTargets(
+  skill: Doc<"skillDefs">,
+  hostiles: HostileNpc[],
+  x: number,
+  y: number,
+  direction: string,
+): HostileNpc[] {
+  const reach = searchRadius(skill.rangePx);
+  const radius = skill.radiusPx ?? DEFAULT_SKILL_RADIUS_PX;
+  switch (skill.area) {
+    case "self":
+      return hostiles.filter((h) => Math.hypot(h.state.x - x, h.state.y - y) <= searchRadius(radius));
+    case "cone": {
+      const facing = FACING[direction] ?? FACING.down;
+      const minCos = Math.cos(CONE_HALF_ANGLE_RAD);
+      return hostiles.filter((h) => {
+        const dx = h.state.x - x;
+        const dy = h.state.y - y;
+        const dist = Math.hypot(dx, dy);
+        if (dist > reach) return false;
+        return dist === 0 || (dx * facing.x + dy * facing.y) / dist >= minCos;
+      });
+    }
+    case "single":
+    case "circle": {
+      const target = nearestHostile(hostiles, x, y);
+      if (!target || target.dist > reach) return [];
+      if (skill.area === "single") return [target];
+      return hostiles.filter(
+        (h) => Math.hypot(h.state.x - target.state.x, h.state.y - target.state.y) <= radius,
+      );
+    }
+  }
+}
+
+/**
+ * Cast a skill in the world (hotkeys on real-time maps). Checks the player
+ * knows it, it's off cooldown and they can pay for it; heals land on the
+ * caster, damage goes through calculateDamage against every hostile the
+ * skill's area covers. Nothing is spent when a damage skill has no target.
+ */
+export const useSkill = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    mapName: v.string(),
+    skillName: v.string(),
+  },
+  handler: async (ctx, { profileId, mapName, skillName }) => {
+    const position = await resolvePlayerPosition(ctx, profileId);
+    if (isInteractionFailure(position)) return position;
+    if (position.mapName !== mapName) {
+      return { success: false, code: "wrong_map" as const, reason: "You're not on that map." };
+    }
+    const map = await ctx.db
+      .query("maps")
+      .withIndex("by_name", (q) => q.eq("name", mapName))
+      .first();
+    if (!map?.combatEnabled) return { success: false, reason: "Combat is disabled on this map." };
+    if (combatMode(map) === "turn-based") {
+      return { success: false, reason: "Skills on this map are used in battle." };
+    }
+
+    const player = position.profile;
+    const skill = await getSkillDef(ctx, skillName);
+    if (!skill || !knowsSkill(player, skill)) return { success: false, reason: "You don't know that skill." };
+    const now = Date.now();
+    const readyAt = player.skillCooldowns?.[skill.name] ?? 0;
+    if (readyAt > now) {
+      return { success: false, reason: `${skill.displayName} is recharging (${Math.ceil((readyAt - now) / 1000)}s).` };
+    }
+    const paid = spendResource(player, skill, now);
+    if (!paid) return { success: false, reason: `Not enough ${skill.resource} for ${skill.displayName}.` };
+
+    const variance = clamp(
+      Number(map.combatSettings?.damageVariancePct ?? DEFAULT_DAMAGE_VARIANCE_PCT),
+      0,
+      100,
+    ) / 100;
+    const playerStats = effectiveStats(withGear(player.stats, await gearBonuses(ctx, player)), player.statusEffects, now);
+    const potency = skillPotency(playerStats.atk, skill);
+    const skillEffects = knownEffects(skill.effects);
+    let stats = paid.stats;
+    let healed = 0;
+    let xpGained = 0;
+    const hits: Array<{
+      targetName: string;
+      targetInstanceName: string;
+      dealt: number;
+      targetHp: number;
+      targetMaxHp: number;
+      defeated: boolean;
+    }> = [];
+    const droppedLoot: DroppedLoot[] = [];
+
+    if (skill.kind === "heal") {
+      const hp = Math.min(stats.maxHp, stats.hp + potency);
+      healed = hp - stats.hp;
+      stats = { ...stats, hp };
+    } else {
+      const targets = skillTargets(
+        skill, await loadHostiles(ctx, mapName, now), position.x, position.y, position.direction,
+      );
+      if (targets.length === 0) {
+        return { success: false, code: "out_of_range" as const, reason: `No hostile NPC in reach of ${skill.displayName}.` };
+      }
+      for (const target of targets) {
+        const npcStats = effectiveStats(target.profile.stats ?? DEFAULT_NPC_STATS, target.state.statusEffects, now);
+        const maxHp = Math.max(1, target.state.maxHp ?? npcStats.maxHp ?? npcStats.hp ?? 20);
+        const hp = Math.max(0, target.state.currentHp ?? npcStats.hp ?? maxHp);
+        const dealt = calculateDamage(potency, Math.max(0, npcStats.def ?? 0), variance);
+        const nextHp = Math.max(0, hp - dealt);
+        if (nextHp <= 0) {
+          const defeat = await defeatHostile(ctx, profileId, target, maxHp, mapName, now);
+          xpGained += defeat.xpGained;
+          droppedLoot.push(...defeat.droppedLoot);
+        } else {
+          await ctx.db.patch(target.state._id, {
+            currentHp: nextHp,
+            maxHp,
+            lastHitAt: now,
+            ...hostileReaction(target, profileId, position.x, position.y, now),
+          });
+          await applyToNpc(ctx, target.state._id, skillEffects.filter(isHarmful), String(profileId));
+        }
+        hits.push({
+          targetName: target.profile.displayName || target.profile.name,
+          targetInstanceName: target.instanceName,
+          dealt,
+          targetHp: nextHp,
+          targetMaxHp: maxHp,
+          defeated: nextHp <= 0,
+        });
+      }
+      stats = { ...stats, xp: (stats.xp ?? 0) + xpGained };
+    }
+
+    const readyAgainAt = now + Math.max(0, skill.cooldownMs);
+    await ctx.db.patch(profileId, {
+      stats,
+      resourcesAt: paid.resourcesAt,
+      skillCooldowns: { ...(player.skillCooldowns ?? {}), [skill.name]: readyAgainAt },
+    });
+    await applyToProfile(ctx, profileId, skillEffects.filter((e) => !isHarmful(e)));
+
+    combatLog("[CombatDebug:server] skill", {
+      skill: skill.name,
+      hits: hits.length,
+      healed,
+      xpGained,
+    });
+
+    return {
+      success: true,
+      skillName: skill.name,
+      displayName: skill.displayName,
+      kind: skill.kind,
+      animation: skill.animation,
+      hits,
+      healed,
+      xpGained,
+      droppedLoot,
+      stats,
+      resourcesAt: paid.resourcesAt,
+      readyAt: readyAgainAt,
+    };
+  },
+});
+
+/** Below this fraction of max HP, hostiles with a heal skill use it instead of attacking */
+const NPC_HEAL_HP_FRACTION = 0.5;
+
+/**
+ * The skill a hostile uses on its next real-time strike, if one is ready: a
+ * heal when it's badly hurt, otherwise a damage skill that reaches the
+ * player. NPCs don't spend mana or stamina; cooldowns pace them.
+ */
+async function readyNpcSkill(
+  ctx: MutationCtx,
+  state: Doc<"npcState">,
+  profile: Doc<"npcProfiles">,
+  dist: number,
+  now: number,
+): Promise<Doc<"skillDefs"> | null> {
+  if (!profile.skills?.length) return null;
+  const stats = profile.stats ?? DEFAULT_NPC_STATS;
+  const maxHp = Math.max(1, state.maxHp ?? stats.maxHp);
+  const hurt = (state.currentHp ?? maxHp) < maxHp * NPC_HEAL_HP_FRACTION;
+  const ready = [...(await skillDefsByName(ctx, profile.skills)).values()]
+    .filter((s) => (state.skillReadyAt?.[s.name] ?? 0) <= now);
+  return ready.find((s) => s.kind === "heal" && hurt)
+    ?? ready.find((s) => s.kind === "damage" && dist <= searchRadius(s.rangePx))
+    ?? null;
+}
+
 export const resolveAggroAttack = mutation({
   args: {
     profileId: v.id("profiles"),
     mapName: v.string(),
-    x: v.float64(),
-    y: v.float64(),
   },
-  handler: async (ctx, { profileId, mapName, x, y }) => {
+  handler: async (ctx, { profileId, mapName }) => {
+    // Hostiles strike where the server last saw the player
+    const position = await resolvePlayerPosition(ctx, profileId);
+    if (isInteractionFailure(position)) return position;
+    if (position.mapName !== mapName) return { success: false, reason: "wrong_map" as const };
+    const { x, y } = position;
+
     const map = await ctx.db
       .query("maps")
       .withIndex("by_name", (q) => q.eq("name", mapName))
       .first();
     if (!map?.combatEnabled) return { success: false, reason: "combat_disabled" as const };
+    if (combatMode(map) === "turn-based") return { success: false, reason: "turn_based" as const };
 
     const settings = (map as any).combatSettings ?? {};
     const attackRangePx = clamp(
@@ -418,8 +687,7 @@ export const resolveAggroAttack = mutation({
       100,
     );
 
-    const player = await ctx.db.get(profileId);
-    if (!player) return { success: false, reason: "missing_player" as const };
+    const player = position.profile;
     const now = Date.now();
 
     const npcProfiles = await ctx.db.query("npcProfiles").collect();
@@ -475,21 +743,28 @@ export const resolveAggroAttack = mutation({
       return { success: false, reason: "no_aggro_target" as const };
     }
 
-    const npcStats = nearestProfile.stats ?? {
-      hp: 20,
-      maxHp: 20,
-      atk: 4,
-      def: 1,
-      spd: 1,
-      level: 1,
-    };
+    const npcStats = effectiveStats(nearestProfile.stats ?? DEFAULT_NPC_STATS, nearest.statusEffects, now);
     const enemyAtk = Math.max(1, npcStats.atk ?? 1);
-    const playerDef = Math.max(0, player.stats.def ?? 0);
-    const baseEnemyDamage = Math.max(0, Math.round(enemyAtk - playerDef * 0.35));
-    const tookVariance = Math.round(
-      baseEnemyDamage * ((Math.random() * 2 - 1) * (damageVariancePct / 100)),
-    );
-    const took = Math.max(0, baseEnemyDamage + tookVariance);
+    const playerStats = effectiveStats(withGear(player.stats, await gearBonuses(ctx, player)), player.statusEffects, now);
+    const playerDef = Math.max(0, playerStats.def ?? 0);
+    const skill = await readyNpcSkill(ctx, nearest, nearestProfile, nearestDist, now);
+    let took = 0;
+    let healed = 0;
+    if (skill?.kind === "heal") {
+      const maxHp = Math.max(1, nearest.maxHp ?? npcStats.maxHp);
+      const hp = nearest.currentHp ?? maxHp;
+      const nextHp = Math.min(maxHp, hp + skillPotency(enemyAtk, skill));
+      healed = nextHp - hp;
+      await ctx.db.patch(nearest._id, { currentHp: nextHp, maxHp });
+    } else if (skill) {
+      took = calculateDamage(skillPotency(enemyAtk, skill), playerDef, damageVariancePct / 100);
+    } else {
+      const baseEnemyDamage = Math.max(0, Math.round(enemyAtk - playerDef * 0.35));
+      const tookVariance = Math.round(
+        baseEnemyDamage * ((Math.random() * 2 - 1) * (damageVariancePct / 100)),
+      );
+      took = Math.max(0, baseEnemyDamage + tookVariance);
+    }
     const nextPlayerHp = Math.max(0, (player.stats.hp ?? player.stats.maxHp) - took);
 
     await ctx.db.patch(profileId, {
@@ -502,11 +777,28 @@ export const resolveAggroAttack = mutation({
     await ctx.db.patch(nearest._id, {
       aggroTargetProfileId: profileId,
       aggroUntil: now + DEFAULT_AGGRO_MEMORY_MS,
+      ...(skill
+        ? { skillReadyAt: { ...(nearest.skillReadyAt ?? {}), [skill.name]: now + Math.max(0, skill.cooldownMs) } }
+        : {}),
     });
 
+    // Status effects: a skill's harmful ones (and the NPC's own on-hit ones) land on the player, helpful ones on the NPC
+    const skillEffects = knownEffects(skill?.effects);
+    if (took > 0) {
+      await applyToProfile(ctx, profileId, [
+        ...skillEffects.filter(isHarmful),
+        ...(skill ? [] : rollAttackEffects(nearestProfile)),
+      ]);
+    }
+    await applyToNpc(ctx, nearest._id, skillEffects.filter((e) => !isHarmful(e)));
+
     return {
       success: true,
       attackerName: nearestProfile.displayName || nearestProfile.name,
+      attackerInstanceName: nearestProfile.name,
+      skillName: skill?.displayName,
+      skillAnimation: skill?.animation,
+      healed,
       took,
       playerHp: nextPlayerHp,
       attackRangePx,
@@ -514,3 +806,908 @@ export const resolveAggroAttack = mutation({
     };
   },
 });
+
+// ---------------------------------------------------------------------------
+// Turn-based battles
+//
+// Maps with combatSettings.mode "turn-based" fight hostiles in BattleSplash
+// instead of in the world. A battle starts from a hostile NPC, a template
+// (story scripts, or a map label zone the player walks into) or a random
+// roll against the map's template pool. Each submitted action plays one
+// round: everyone alive acts in SPD order, and every turn is appended to the
+// battle's combatLog row. Victory hands out rewards through the loot
+// pipeline; the player's HP is kept on their profile throughout.
+// ---------------------------------------------------------------------------
+
+/** XP per enemy level when an encounter doesn't set its own (as real-time kills) */
+const BATTLE_XP_PER_LEVEL = 8;
+/** No random encounter this soon after the player's last battle ended */
+const RANDOM_ENCOUNTER_GRACE_MS = 10_000;
+/** After a defeat the player comes to with this fraction of their max HP */
+const DEFEAT_RECOVERY_HP_FRACTION = 0.25;
+/** Enemies below this fraction of max HP sometimes defend instead of attacking */
+const ENEMY_DEFEND_HP_FRACTION = 0.25;
+const ENEMY_DEFEND_CHANCE = 0.3;
+/** Enemies use a ready damage skill instead of a plain attack this often */
+const ENEMY_SKILL_CHANCE = 0.5;
+/** Skill cooldowns and status effects count in rounds in battle: one round per this much time, rounded up */
+const BATTLE_ROUND_MS = 3000;
+
+type BattleTurn = Doc<"combatLog">["turns"][number];
+type BattleEnemy = Doc<"combatEncounters">["enemies"][number];
+type BattleSource = NonNullable<Doc<"combatEncounters">["source"]>;
+
+const battleActionValidator = v.union(
+  v.object({ type: v.literal("attack"), target: v.optional(v.number()) }),
+  v.object({ type: v.literal("defend") }),
+  v.object({ type: v.literal("item"), itemName: v.string(), target: v.optional(v.number()) }),
+  v.object({ type: v.literal("skill"), skillName: v.string(), target: v.optional(v.number()) }),
+  v.object({ type: v.literal("flee") }),
+);
+
+/** First round a skill cast in `round` can be used again */
+function skillReadyRound(skill: Doc<"skillDefs">, round: number): number {
+  return round + 1 + Math.ceil(Math.max(0, skill.cooldownMs) / BATTLE_ROUND_MS);
+}
+
+/** An authored effect's duration in battle rounds (at least one) */
+function effectRounds(spec: EffectSpec): number {
+  return Math.max(1, Math.ceil(effectDurationMs(spec) / BATTLE_ROUND_MS));
+}
+
+function enemyName(enemy: BattleEnemy): string {
+  return enemy.displayName || enemy.npcName || "Enemy";
+}
+
+/**
+ * The battle's combatants in `round`, keyed by combatant id ("player",
+ * "enemy:<index>"), with status effects folded into their stats: the
+ * player's (real-time, on their profile) and each enemy's (in rounds).
+ */
+function battleCombatants(
+  encounter: Doc<"combatEncounters">,
+  profile: Doc<"profiles">,
+  round: number,
+): Map<string, BattleCombatant> {
+  const player = encounter.player ?? { name: profile.name, ...profile.stats };
+  const combatants = new Map<string, BattleCombatant>();
+  combatants.set(PLAYER_COMBATANT_ID, {
+    id: PLAYER_COMBATANT_ID,
+    name: player.name,
+    stats: effectiveStats({
+      hp: profile.stats.hp,
+      maxHp: profile.stats.maxHp,
+      atk: player.atk,
+      def: player.def,
+      spd: player.spd,
+    }, profile.statusEffects, Date.now()),
+    isPlayer: true,
+    defending: encounter.player?.defending,
+  });
+  encounter.enemies.forEach((enemy, i) => {
+    combatants.set(enemyCombatantId(i), {
+      id: enemyCombatantId(i),
+      name: enemyName(enemy),
+      stats: effectiveStats({ ...enemy.stats }, enemy.statusEffects, round),
+      isPlayer: false,
+      defending: enemy.defending,
+    });
+  });
+  return combatants;
+}
+
+/** Effects as the battle view shows them; `expiresAt` stays in the target's clock (ms or rounds) */
+function effectsView(effects: StatusEffect[] | undefined, now: number) {
+  return (effects ?? [])
+    .filter((e) => e.expiresAt > now)
+    .map((e) => ({
+      type: e.type,
+      label: statusEffectDef(e.type)?.label ?? e.type,
+      icon: statusEffectDef(e.type)?.icon ?? "?",
+      stacks: e.stacks,
+      expiresAt: e.expiresAt,
+    }));
+}
+
+/** Consumables in the player's inventory that do something in battle */
+async function usableBattleItems(ctx: QueryCtx, profile: Doc<"profiles">) {
+  const usable: { name: string; displayName: string; quantity: number; hpDelta: number; effects: string[] }[] = [];
+  for (const item of await inventoryItemsOf(ctx, profile)) {
+    if (item.quantity <= 0) continue;
+    const def = await ctx.db
+      .query("itemDefs")
+      .withIndex("by_name", (q) => q.eq("name", item.name))
+      .first();
+    if (def?.type !== "consumable" || (!def.consumeHpDelta && knownEffects(def.effects).length === 0)) continue;
+    usable.push({
+      name: def.name,
+      displayName: def.displayName,
+      quantity: item.quantity,
+      hpDelta: def.consumeHpDelta ?? 0,
+      effects: knownEffects(def.effects).map((e) => e.type),
+    });
+  }
+  return usable;
+}
+
+/** What clients render: the battle's state plus the turns just played */
+async function battleView(
+  ctx: QueryCtx,
+  encounter: Doc<"combatEncounters">,
+  profile: Doc<"profiles">,
+  turns: BattleTurn[] = [],
+) {
+  const round = encounter.round ?? 0;
+  const combatants = battleCombatants(encounter, profile, round);
+  const player = combatants.get(PLAYER_COMBATANT_ID)!;
+  const livingEnemies = encounter.enemies.filter((e) => e.stats.hp > 0);
+  return {
+    encounterId: encounter._id,
+    status: encounter.status ?? "active",
+    source: encounter.source,
+    round,
+    player: {
+      name: player.name,
+      hp: player.stats.hp,
+      maxHp: player.stats.maxHp,
+      atk: player.stats.atk,
+      def: player.stats.def,
+      spd: player.stats.spd,
+      defending: !!player.defending,
+      effects: effectsView(profile.statusEffects, Date.now()),
+    },
+    enemies: encounter.enemies.map((e, i) => ({
+      name: enemyName(e),
+      level: e.level,
+      hp: e.stats.hp,
+      maxHp: e.stats.maxHp,
+      spd: combatants.get(enemyCombatantId(i))!.stats.spd,
+      defending: !!e.defending,
+      effects: effectsView(e.statusEffects, round),
+    })),
+    turnOrder: turnOrder(Array.from(combatants.values())),
+    fleeChance: fleeChance(player.stats.spd, livingEnemies.map((e) => e.stats.spd)),
+    turns,
+    granted: encounter.granted ?? null,
+    items: await usableBattleItems(ctx, profile),
+    skills: (await knownSkills(ctx, profile)).map((s) => ({
+      name: s.name,
+      displayName: s.displayName,
+      kind: s.kind,
+      area: s.area,
+      resource: s.resource,
+      cost: s.cost,
+      readyRound: encounter.player?.skillReadyRound?.[s.name] ?? 0,
+    })),
+    resources: currentResources(profile, Date.now()),
+    // Clients mirror these onto their local profile (HUD, inventory)
+    profile: { stats: profile.stats, items: await inventoryItemsOf(ctx, profile) },
+  };
+}
+
+/** Rewards for beating `enemies`; XP defaults to the real-time rate per enemy level */
+function battleRewards(enemies: BattleEnemy[], rewards: EncounterRewards): EncounterRewards {
+  return {
+    ...rewards,
+    xp: rewards.xp ?? enemies.reduce((sum, e) => sum + Math.max(1, e.level) * BATTLE_XP_PER_LEVEL, 0),
+  };
+}
+
+async function activeBattle(ctx: MutationCtx, profileId: Id<"profiles">) {
+  return await ctx.db
+    .query("combatEncounters")
+    .withIndex("by_profile_status", (q) => q.eq("profileId", profileId).eq("status", "active"))
+    .first();
+}
+
+/** Most recent end of any of the profile's battles */
+async function lastBattleEndedAt(ctx: MutationCtx, profileId: Id<"profiles">): Promise<number> {
+  let last = 0;
+  for (const status of ["victory", "defeat", "flee"] as const) {
+    const battle = await ctx.db
+      .query("combatEncounters")
+      .withIndex("by_profile_status", (q) => q.eq("profileId", profileId).eq("status", status))
+      .order("desc")
+      .first();
+    last = Math.max(last, battle?.endedAt ?? 0);
+  }
+  return last;
+}
+
+async function hasWonTemplate(ctx: MutationCtx, profileId: Id<"profiles">, templateId: Id<"combatEncounters">) {
+  const battles = await ctx.db
+    .query("combatEncounters")
+    .withIndex("by_profile_template", (q) => q.eq("profileId", profileId).eq("templateId", templateId))
+    .collect();
+  return battles.some((b) => b.status === "victory");
+}
+
+function inLabelZone(map: Doc<"maps">, labelName: string, x: number, y: number): boolean {
+  const label = map.labels.find((l) => l.name === labelName);
+  if (!label) return false;
+  const tx = x / map.tileWidth;
+  const ty = y / map.tileHeight;
+  return tx >= label.x && tx < label.x + label.width && ty >= label.y && ty < label.y + label.height;
+}
+
+/** Insert a battle row and its (empty) combat log */
+async function beginBattle(
+  ctx: MutationCtx,
+  player: PlayerPosition,
+  source: BattleSource,
+  enemies: BattleEnemy[],
+  rewards: EncounterRewards,
+  template?: Doc<"combatEncounters">,
+): Promise<Doc<"combatEncounters">> {
+  const { profile } = player;
+  const now = Date.now();
+  // Gear is locked in for the battle; status effects are folded in per round
+  const stats = withGear(profile.stats, await gearBonuses(ctx, profile));
+  const encounterId = await ctx.db.insert("combatEncounters", {
+    enemies,
+    rewards: battleRewards(enemies, rewards),
+    mapId: template?.mapId,
+    profileId: profile._id,
+    source,
+    templateId: template?._id,
+    mapName: player.mapName,
+    status: "active",
+    player: {
+      name: profile.name,
+      atk: stats.atk,
+      def: stats.def,
+      spd: stats.spd,
+    },
+    round: 0,
+    startedAt: now,
+  });
+  const logId = await ctx.db.insert("combatLog", {
+    encounterId,
+    profileId: profile._id,
+    turns: [],
+    timestamp: now,
+  });
+  await ctx.db.patch(encounterId, { logId });
+  combatLog("[CombatDebug:server] battle started", { encounterId: String(encounterId), source });
+  return (await ctx.db.get(encounterId))!;
+}
+
+/** A template's enemies at full health, with display names and skills from their NPC profiles */
+async function templateEnemies(ctx: MutationCtx, template: Doc<"combatEncounters">): Promise<BattleEnemy[]> {
+  const enemies: BattleEnemy[] = [];
+  for (const enemy of template.enemies) {
+    const npc = enemy.npcName
+      ? await ctx.db
+        .query("npcProfiles")
+        .withIndex("by_name", (q) => q.eq("name", enemy.npcName!))
+        .first()
+      : null;
+    const displayName = enemy.displayName || npc?.displayName;
+    const skills = enemy.skills ?? npc?.skills;
+    enemies.push({
+      npcName: enemy.npcName,
+      ...(displayName ? { displayName } : {}),
+      level: enemy.level,
+      stats: { ...enemy.stats, hp: enemy.stats.maxHp },
+      ...(skills?.length ? { skills } : {}),
+    });
+  }
+  return enemies;
+}
+
+/** Checks shared by every way into a battle: owner in the world, able to fight, not already fighting */
+async function battleEntry(ctx: MutationCtx, profileId: Id<"profiles">) {
+  const position = await resolvePlayerPosition(ctx, profileId);
+  if (isInteractionFailure(position)) return { failure: position };
+  const existing = await activeBattle(ctx, profileId);
+  if (existing) return { failure: null, position, existing };
+  if ((position.profile.stats.hp ?? 0) <= 0) {
+    return { failure: { success: false as const, reason: "You're too weak to fight. Rest up first." } };
+  }
+  return { failure: null, position, existing: null };
+}
+
+export const getEncounter = query({
+  args: { id: v.id("combatEncounters") },
+  handler: async (ctx, { id }) => {
+    return await ctx.db.get(id);
+  },
+});
+
+/** The profile's battle in progress (to resume after a reload), or null */
+export const getActiveBattle = query({
+  args: { profileId: v.id("profiles") },
+  handler: async (ctx, { profileId }) => {
+    const profile = await ctx.db.get(profileId);
+    if (!profile) return null;
+    const battle = await ctx.db
+      .query("combatEncounters")
+      .withIndex("by_profile_status", (q) => q.eq("profileId", profileId).eq("status", "active"))
+      .first();
+    return battle ? await battleView(ctx, battle, profile) : null;
+  },
+});
+
+const encounterEnemyValidator = v.object({
+  npcName: v.optional(v.string()),
+  displayName: v.optional(v.string()),
+  level: v.number(),
+  stats: v.object({
+    hp: v.number(),
+    maxHp: v.number(),
+    atk: v.number(),
+    def: v.number(),
+    spd: v.number(),
+  }),
+  skills: v.optional(v.array(v.string())),
+});
+
+const encounterRewardsValidator = v.object({
+  items: v.optional(v.array(v.object({ name: v.string(), quantity: v.number() }))),
+  xp: v.optional(v.number()),
+  currency: v.optional(v.record(v.string(), v.number())),
+  lootTable: v.optional(lootTableValidator),
+});
+
+type EncounterRewardsArg = Infer<typeof encounterRewardsValidator>;
+
+function hasRewards(rewards: EncounterRewardsArg): boolean {
+  return (rewards.items?.length ?? 0) > 0
+    || (rewards.xp ?? 0) !== 0
+    || Object.keys(rewards.currency ?? {}).length > 0
+    || (rewards.lootTable?.entries.length ?? 0) > 0;
+}
+
+/** Throw unless a template's rewards name existing items in sane amounts */
+async function checkRewards(ctx: MutationCtx, rewards: EncounterRewardsArg): Promise<void> {
+  for (const item of rewards.items ?? []) {
+    const def = await ctx.db
+      .query("itemDefs")
+      .withIndex("by_name", (q) => q.eq("name", item.name))
+      .first();
+    if (!def) throw new Error(`Unknown item "${item.name}" in rewards`);
+    if (!Number.isInteger(item.quantity) || item.quantity < 1 || item.quantity > MAX_LOOT_QUANTITY) {
+      throw new Error(`Reward quantities must be between 1 and ${MAX_LOOT_QUANTITY}`);
+    }
+  }
+  const amounts = [rewards.xp ?? 0, ...Object.values(rewards.currency ?? {})];
+  if (amounts.some((n) => !Number.isFinite(n) || n < 0)) {
+    throw new Error("Reward XP and currency can't be negative");
+  }
+  if (rewards.lootTable) await checkLootTable(ctx, rewards.lootTable);
+}
+
+/**
+ * Author an encounter template (story scripts, label zones, random pools)
+ * on a map the profile can edit. Without `triggerLabel` it joins the map's
+ * random pool. Templates that pay out anything are superuser-only, since
+ * victory mints what they hand out.
+ */
+export const createEncounter = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    enemies: v.array(encounterEnemyValidator),
+    rewards: encounterRewardsValidator,
+    mapId: v.id("maps"),
+    triggerLabel: v.optional(v.string()),
+  },
+  handler: async (ctx, { profileId, enemies, rewards, mapId, triggerLabel }) => {
+    const owner = await resolveOwnedProfile(ctx, profileId);
+    if (isInteractionFailure(owner)) throw new Error(owner.reason);
+    const map = await ctx.db.get(mapId);
+    if (!map) throw new Error("Map not found");
+    await requireMapEditor(ctx, profileId, map.name);
+    if (enemies.length === 0) throw new Error("An encounter needs at least one enemy");
+    if (triggerLabel && !map.labels.some((l) => l.name === triggerLabel)) {
+      throw new Error(`No label "${triggerLabel}" on ${map.name}`);
+    }
+    if (hasRewards(rewards)) {
+      await requireSuperuser(ctx, profileId);
+      await checkRewards(ctx, rewards);
+    }
+    return await ctx.db.insert("combatEncounters", { enemies, rewards, mapId, triggerLabel });
+  },
+});
+
+/**
+ * Start a battle from a template: a story script's `{ type: "combat" }`
+ * action, or a label zone. Templates only start on their map, inside their
+ * zone; each can be won once per player. A map's pool templates (no zone)
+ * only come up at random, and ones with no map never start.
+ */
+export const startEncounter = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    encounterId: v.id("combatEncounters"),
+  },
+  handler: async (ctx, { profileId, encounterId }) => {
+    const entry = await battleEntry(ctx, profileId);
+    if (entry.failure) return entry.failure;
+    const { position, existing } = entry;
+    if (existing) return { success: true as const, battle: await battleView(ctx, existing, position.profile) };
+
+    const template = await ctx.db.get(encounterId);
+    if (!template || template.profileId) return { success: false as const, reason: "Encounter not found." };
+    const map = template.mapId ? await ctx.db.get(template.mapId) : null;
+    if (!map || map.name !== position.mapName) {
+      return { success: false as const, reason: "That encounter isn't on this map." };
+    }
+    if (!template.triggerLabel) {
+      return { success: false as const, reason: "That encounter only happens at random." };
+    }
+    if (!inLabelZone(map, template.triggerLabel, position.x, position.y)) {
+      return { success: false as const, reason: "You're not where that encounter happens." };
+    }
+    if (await hasWonTemplate(ctx, profileId, template._id)) {
+      return { success: false as const, reason: "You've already won that battle." };
+    }
+
+    const battle = await beginBattle(
+      ctx, position, "story", await templateEnemies(ctx, template), template.rewards, template,
+    );
+    return { success: true as const, battle: await battleView(ctx, battle, position.profile) };
+  },
+});
+
+/**
+ * Engage the hostile NPC nearest the player in a battle (turn-based maps'
+ * answer to attackNearestHostile).
+ */
+export const startNpcEncounter = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    mapName: v.string(),
+  },
+  handler: async (ctx, { profileId, mapName }) => {
+    const entry = await battleEntry(ctx, profileId);
+    if (entry.failure) return entry.failure;
+    const { position, existing } = entry;
+    if (existing) return { success: true as const, battle: await battleView(ctx, existing, position.profile) };
+    if (position.mapName !== mapName) {
+      return { success: false as const, code: "wrong_map" as const, reason: "You're not on that map." };
+    }
+
+    const map = await ctx.db
+      .query("maps")
+      .withIndex("by_name", (q) => q.eq("name", mapName))
+      .first();
+    if (!map?.combatEnabled || combatMode(map) !== "turn-based") {
+      return { success: false as const, reason: "This map doesn't use turn-based battles." };
+    }
+    const attackRangePx = clamp(
+      Number(map.combatSettings?.attackRangePx ?? DEFAULT_ATTACK_RANGE_PX),
+      24,
+      256,
+    );
+    const target = nearestHostile(await loadHostiles(ctx, mapName, Date.now()), position.x, position.y);
+    if (!target || target.dist > searchRadius(attackRangePx)) {
+      return { success: false as const, code: "out_of_range" as const, reason: "No hostile NPC in range." };
+    }
+
+    const stats = target.profile.stats ?? DEFAULT_NPC_STATS;
+    const maxHp = Math.max(1, target.state.maxHp ?? stats.maxHp ?? stats.hp);
+    const hp = target.state.currentHp != null && target.state.currentHp > 0
+      ? Math.min(maxHp, target.state.currentHp)
+      : maxHp;
+    const enemy: BattleEnemy = {
+      npcName: target.instanceName,
+      displayName: target.profile.displayName || target.profile.name,
+      level: stats.level ?? 1,
+      stats: { hp, maxHp, atk: stats.atk, def: stats.def, spd: stats.spd },
+      npcStateId: target.state._id,
+      ...(target.profile.skills?.length ? { skills: target.profile.skills } : {}),
+    };
+    // Same table as a real-time kill, rolled for the winner on victory
+    const table = npcLootTable(target.profile);
+    const rewards: EncounterRewards = table ? { lootTable: table } : {};
+
+    await ctx.db.patch(target.state._id, { vx: 0, vy: 0, targetX: undefined, targetY: undefined, path: undefined });
+    const battle = await beginBattle(ctx, position, "npc", [enemy], rewards);
+    return { success: true as const, battle: await battleView(ctx, battle, position.profile) };
+  },
+});
+
+/**
+ * Called by clients on turn-based maps as the player walks (and on entering
+ * label zones). Starts a zone's template battle the player hasn't won yet,
+ * otherwise rolls the map's encounter chance against its template pool.
+ */
+export const checkEncounter = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    mapName: v.string(),
+  },
+  handler: async (ctx, { profileId, mapName }) => {
+    const entry = await battleEntry(ctx, profileId);
+    if (entry.failure) return entry.failure;
+    const { position, existing } = entry;
+    if (existing) return { success: true as const, battle: await battleView(ctx, existing, position.profile) };
+    const none = { success: false as const, reason: "no_encounter" as const };
+    if (position.mapName !== mapName) return none;
+
+    const map = await ctx.db
+      .query("maps")
+      .withIndex("by_name", (q) => q.eq("name", mapName))
+      .first();
+    if (!map?.combatEnabled || combatMode(map) !== "turn-based") return none;
+
+    const templates = (await ctx.db
+      .query("combatEncounters")
+      .withIndex("by_map", (q) => q.eq("mapId", map._id))
+      .collect())
+      .filter((t) => !t.profileId);
+
+    for (const template of templates) {
+      if (!template.triggerLabel) continue;
+      if (!inLabelZone(map, template.triggerLabel, position.x, position.y)) continue;
+      if (await hasWonTemplate(ctx, profileId, template._id)) continue;
+      const battle = await beginBattle(
+        ctx, position, "story", await templateEnemies(ctx, template), template.rewards, template,
+      );
+      return { success: true as const, battle: await battleView(ctx, battle, position.profile) };
+    }
+
+    const pool = templates.filter((t) => !t.triggerLabel);
+    const chance = clamp(Number(map.combatSettings?.encounterChancePct ?? 0), 0, 100) / 100;
+    if (pool.length === 0 || chance <= 0) return none;
+    if (Date.now() - (await lastBattleEndedAt(ctx, profileId)) < RANDOM_ENCOUNTER_GRACE_MS) return none;
+    if (Math.random() >= chance) return none;
+
+    const template = pool[Math.floor(Math.random() * pool.length)];
+    const battle = await beginBattle(
+      ctx, position, "random", await templateEnemies(ctx, template), template.rewards, template,
+    );
+    return { success: true as const, battle: await battleView(ctx, battle, position.profile) };
+  },
+});
+
+/**
+ * An enemy's move: a ready heal when badly hurt, sometimes a ready damage
+ * skill, sometimes a guard when badly hurt, otherwise a plain attack on the
+ * player. `readySkills` are the skills off cooldown this round.
+ */
+function enemyAction(enemy: BattleCombatant, readySkills: Doc<"skillDefs">[]): BattleAction {
+  const hurt = enemy.stats.hp < enemy.stats.maxHp * ENEMY_DEFEND_HP_FRACTION;
+  const heal = readySkills.find((s) => s.kind === "heal");
+  if (hurt && heal) return { type: "skill", actorId: enemy.id, targetIds: [], skill: heal };
+  const strike = readySkills.find((s) => s.kind === "damage");
+  if (strike && Math.random() < ENEMY_SKILL_CHANCE) {
+    return { type: "skill", actorId: enemy.id, targetIds: [PLAYER_COMBATANT_ID], skill: strike };
+  }
+  if (hurt && !enemy.defending && Math.random() < ENEMY_DEFEND_CHANCE) {
+    return { type: "defend", actorId: enemy.id };
+  }
+  return { type: "attack", actorId: enemy.id, targetId: PLAYER_COMBATANT_ID };
+}
+
+function logTurn(result: TurnResult, combatants: Map<string, BattleCombatant>, round: number): BattleTurn {
+  const actor = combatants.get(result.action.actorId);
+  const targetId = "targetId" in result.action
+    ? result.action.targetId
+    : result.action.type === "skill" ? result.action.targetIds[0] : undefined;
+  const target = targetId ? combatants.get(targetId) : undefined;
+  return {
+    actor: actor?.isPlayer ? "player" : actor?.name ?? result.action.actorId,
+    action: result.action.type,
+    ...(target && result.damage != null ? { target: target.isPlayer ? "player" : target.name } : {}),
+    ...(result.damage != null ? { damage: result.damage } : {}),
+    ...(result.healing != null ? { heal: result.healing } : {}),
+    round,
+    message: result.message,
+  };
+}
+
+/**
+ * Play one round of a battle with the player's chosen action. Everyone
+ * still standing acts in SPD order; the round stops early when one side
+ * falls or the player gets away.
+ */
+export const submitAction = mutation({
+  args: {
+    encounterId: v.id("combatEncounters"),
+    profileId: v.id("profiles"),
+    action: battleActionValidator,
+  },
+  handler: async (ctx, { encounterId, profileId, action: playerAction }) => {
+    const profile = await resolveOwnedProfile(ctx, profileId);
+    if (isInteractionFailure(profile)) return profile;
+    const encounter = await ctx.db.get(encounterId);
+    if (!encounter || encounter.profileId !== profileId) {
+      return { success: false as const, reason: "Battle not found." };
+    }
+    if (encounter.status !== "active") return { success: true as const, battle: await battleView(ctx, encounter, profile) };
+
+    const map = encounter.mapName
+      ? await ctx.db
+        .query("maps")
+        .withIndex("by_name", (q) => q.eq("name", encounter.mapName!))
+        .first()
+      : null;
+    const variance = clamp(
+      Number(map?.combatSettings?.damageVariancePct ?? DEFAULT_DAMAGE_VARIANCE_PCT),
+      0,
+      100,
+    ) / 100;
+
+    const round = (encounter.round ?? 0) + 1;
+    const now = Date.now();
+    const combatants = battleCombatants(encounter, profile, round);
+    const player = combatants.get(PLAYER_COMBATANT_ID)!;
+    const livingEnemyIds = encounter.enemies
+      .map((e, i) => (e.stats.hp > 0 ? enemyCombatantId(i) : null))
+      .filter((id): id is string => id != null);
+    const targetId = (index: number | undefined) => {
+      const chosen = index != null ? enemyCombatantId(index) : undefined;
+      return chosen && livingEnemyIds.includes(chosen) ? chosen : livingEnemyIds[0];
+    };
+
+    // Validate the player's move (and pay for items and skills) before anyone acts
+    let playerMoveEffects: EffectSpec[] = [];
+    let usedItem: string | null = null;
+    let stats = profile.stats;
+    let resourcesAt = profile.resourcesAt;
+    let playerSkillReady = encounter.player?.skillReadyRound ?? {};
+    let action: BattleAction;
+    switch (playerAction.type) {
+      case "attack":
+        action = { type: "attack", actorId: PLAYER_COMBATANT_ID, targetId: targetId(playerAction.target) };
+        break;
+      case "defend":
+        action = { type: "defend", actorId: PLAYER_COMBATANT_ID };
+        break;
+      case "item": {
+        const itemDef = await ctx.db
+          .query("itemDefs")
+          .withIndex("by_name", (q) => q.eq("name", playerAction.itemName))
+          .first();
+        playerMoveEffects = knownEffects(itemDef?.effects);
+        if (!itemDef || itemDef.type !== "consumable" || (!itemDef.consumeHpDelta && playerMoveEffects.length === 0)) {
+          return { success: false as const, reason: "That item can't be used in battle." };
+        }
+        if (countItem((await readInventory(ctx, profile)).slots, itemDef.name) <= 0) {
+          return { success: false as const, reason: `No "${itemDef.displayName}" in inventory.` };
+        }
+        usedItem = itemDef.name;
+        action = {
+          type: "item",
+          actorId: PLAYER_COMBATANT_ID,
+          targetId: targetId(playerAction.target),
+          itemName: itemDef.name,
+          itemDisplayName: itemDef.displayName,
+          hpDelta: itemDef.consumeHpDelta ?? 0,
+        };
+        break;
+      }
+      case "skill": {
+        const skill = await getSkillDef(ctx, playerAction.skillName);
+        if (!skill || !knowsSkill(profile, skill)) {
+          return { success: false as const, reason: "You don't know that skill." };
+        }
+        const readyRound = playerSkillReady[skill.name] ?? 0;
+        if (readyRound > round) {
+          const wait = readyRound - round;
+          return { success: false as const, reason: `${skill.displayName} is recharging (${wait} more round${wait === 1 ? "" : "s"}).` };
+        }
+        const paid = spendResource(profile, skill, now);
+        if (!paid) return { success: false as const, reason: `Not enough ${skill.resource} for ${skill.displayName}.` };
+        ({ stats, resourcesAt } = paid);
+        playerSkillReady = { ...playerSkillReady, [skill.name]: skillReadyRound(skill, round) };
+        playerMoveEffects = knownEffects(skill.effects);
+        // Single-target skills hit the chosen enemy; area skills hit them all
+        const targetIds = skill.kind === "heal"
+          ? []
+          : skill.area === "single" ? [targetId(playerAction.target)] : livingEnemyIds;
+        action = { type: "skill", actorId: PLAYER_COMBATANT_ID, targetIds, skill };
+        break;
+      }
+      case "flee": {
+        const enemySpds = livingEnemyIds.map((id) => combatants.get(id)!.stats.spd);
+        action = { type: "flee", actorId: PLAYER_COMBATANT_ID, fleeChance: fleeChance(player.stats.spd, enemySpds) };
+        break;
+      }
+    }
+
+    const enemySkillDefs = await skillDefsByName(ctx, encounter.enemies.flatMap((e) => e.skills ?? []));
+    const enemySkillReady = encounter.enemies.map((e) => ({ ...(e.skillReadyRound ?? {}) }));
+    const enemyTurn = (actor: BattleCombatant): BattleAction => {
+      const index = Number(actor.id.split(":")[1]);
+      const ready = (encounter.enemies[index].skills ?? [])
+        .map((name) => enemySkillDefs.get(name))
+        .filter((skill): skill is Doc<"skillDefs"> => skill != null && (enemySkillReady[index][skill.name] ?? 0) <= round);
+      const move = enemyAction(actor, ready);
+      if (move.type === "skill") {
+        enemySkillReady[index][move.skill.name] = skillReadyRound(enemySkillDefs.get(move.skill.name)!, round);
+      }
+      return move;
+    };
+
+    // Status effects: enemies' are timed in rounds on the battle, the player's
+    // in real time on their profile (applied once the round is over)
+    const enemyEffects = encounter.enemies.map((e) => e.statusEffects ?? []);
+    const enemyProfiles = await Promise.all(encounter.enemies.map((e) =>
+      e.npcName
+        ? ctx.db
+          .query("npcProfiles")
+          .withIndex("by_name", (q) => q.eq("name", e.npcName!))
+          .first()
+        : null));
+    const playerEffects: EffectSpec[] = [];
+    const afflictionTurns = (move: BattleAction, result: TurnResult): BattleTurn[] => {
+      const afflicted = new Map<string, EffectSpec[]>();
+      const add = (combatantId: string, specs: EffectSpec[]) => {
+        const target = combatants.get(combatantId);
+        if (specs.length === 0 || !target || target.stats.hp <= 0) return;
+        afflicted.set(combatantId, [...(afflicted.get(combatantId) ?? []), ...specs]);
+      };
+      const actor = combatants.get(move.actorId)!;
+      const hit = (result.damage ?? 0) > 0;
+      if (actor.isPlayer && (move.type === "item" || move.type === "skill")) {
+        add(PLAYER_COMBATANT_ID, playerMoveEffects.filter((e) => !isHarmful(e)));
+        const targets = move.type === "item" ? [move.targetId] : move.targetIds;
+        for (const id of targets) if (id) add(id, playerMoveEffects.filter(isHarmful));
+      } else if (!actor.isPlayer && move.type === "skill") {
+        const specs = knownEffects(enemySkillDefs.get(move.skill.name)?.effects);
+        add(actor.id, specs.filter((e) => !isHarmful(e)));
+        if (hit) add(PLAYER_COMBATANT_ID, specs.filter(isHarmful));
+      } else if (!actor.isPlayer && move.type === "attack" && hit) {
+        add(PLAYER_COMBATANT_ID, rollAttackEffects(enemyProfiles[Number(actor.id.split(":")[1])]));
+      }
+
+      const logged: BattleTurn[] = [];
+      for (const [id, specs] of afflicted) {
+        const target = combatants.get(id)!;
+        if (target.isPlayer) {
+          playerEffects.push(...specs);
+        } else {
+          const index = Number(id.split(":")[1]);
+          for (const spec of specs) {
+            enemyEffects[index] = applyEffect(enemyEffects[index], spec, round, effectRounds(spec), 1, String(profileId));
+          }
+        }
+        const labels = [...new Set(specs.map((e) => statusEffectDef(e.type)!.label))];
+        logged.push({
+          actor: target.isPlayer ? "player" : target.name,
+          action: "effect",
+          round,
+          message: `${target.name} is ${labels.join(" and ")}!`,
+        });
+      }
+      return logged;
+    };
+
+    const turns: BattleTurn[] = [];
+    let fled = false;
+    for (const id of turnOrder(Array.from(combatants.values()))) {
+      const actor = combatants.get(id)!;
+      if (actor.stats.hp <= 0) continue; // fell earlier this round
+      const move = actor.isPlayer ? action : enemyTurn(actor);
+      const result = resolveTurn(move, combatants, variance);
+      turns.push(logTurn(result, combatants, round), ...afflictionTurns(move, result));
+      if (result.fled) {
+        fled = true;
+        break;
+      }
+      if (isCombatOver(combatants.values()).over) break;
+    }
+
+    // Enemies' damage / heal over time ticks once at the end of each round
+    if (!fled && !isCombatOver(combatants.values()).over) {
+      encounter.enemies.forEach((_, i) => {
+        const enemy = combatants.get(enemyCombatantId(i))!;
+        const ticked = tickEffects(enemyEffects[i], round, 1);
+        enemyEffects[i] = ticked.remaining;
+        if (enemy.stats.hp <= 0 || ticked.hpDelta === 0) return;
+        const before = enemy.stats.hp;
+        enemy.stats.hp = Math.max(0, Math.min(enemy.stats.maxHp, before + ticked.hpDelta));
+        const change = enemy.stats.hp - before;
+        turns.push({
+          actor: enemy.name,
+          action: "effect",
+          ...(change < 0 ? { damage: -change } : { heal: change }),
+          round,
+          message: change < 0
+            ? `${enemy.name} suffers ${-change} damage${enemy.stats.hp > 0 ? "" : " and is defeated"}!`
+            : `${enemy.name} recovers ${change} HP.`,
+        });
+      });
+    }
+
+    const { winner } = isCombatOver(combatants.values());
+    const status = fled ? "flee" : winner === "player" ? "victory" : winner === "enemy" ? "defeat" : "active";
+
+    let hp = player.stats.hp;
+    if (status === "defeat") hp = Math.max(1, Math.floor(player.stats.maxHp * DEFEAT_RECOVERY_HP_FRACTION));
+    if (usedItem) await removeItems(ctx, profileId, usedItem, 1);
+    await ctx.db.patch(profileId, { stats: { ...stats, hp }, resourcesAt });
+    await applyToProfile(ctx, profileId, playerEffects);
+
+    const enemies = encounter.enemies.map((e, i) => {
+      const c = combatants.get(enemyCombatantId(i))!;
+      return {
+        ...e,
+        stats: { ...e.stats, hp: c.stats.hp },
+        defending: !!c.defending,
+        ...(e.skills?.length ? { skillReadyRound: enemySkillReady[i] } : {}),
+        statusEffects: enemyEffects[i],
+      };
+    });
+    await ctx.db.patch(encounterId, {
+      enemies,
+      player: { ...encounter.player!, defending: !!player.defending, skillReadyRound: playerSkillReady },
+      round,
+      status,
+      ...(status !== "active" ? { endedAt: now } : {}),
+    });
+
+    if (encounter.logId) {
+      const log = await ctx.db.get(encounter.logId);
+      if (log) {
+        await ctx.db.patch(log._id, {
+          turns: [...log.turns, ...turns],
+          ...(status !== "active" ? { outcome: status } : {}),
+          timestamp: now,
+        });
+      }
+    }
+
+    if (status === "victory") {
+      const granted = await grantRewards(ctx, profileId, encounter.rewards);
+      await ctx.db.patch(encounterId, { granted });
+      for (const enemy of encounter.enemies) {
+        const state = enemy.npcStateId ? await ctx.db.get(enemy.npcStateId) : null;
+        if (state) await defeatNpcState(ctx, state._id, enemy.stats.maxHp, now);
+        if (!enemy.npcName) continue;
+        // Quest progress: kill objective tracking (instance name and sprite def).
+        const npc = await ctx.db
+          .query("npcProfiles")
+          .withIndex("by_name", (q) => q.eq("name", enemy.npcName!))
+          .first();
+        const spriteDefName = state?.spriteDefName ?? npc?.spriteDefName;
+        if (!spriteDefName) continue;
+        await ctx.runMutation(internal.quests.recordKillProgress, {
+          profileId,
+          targetNpcProfileName: enemy.npcName,
+          targetSpriteDefName: spriteDefName,
+          count: 1,
+        });
+      }
+    } else if (status !== "active") {
+      // The NPC fought keeps its wounds, as after a real-time exchange
+      for (const [i, enemy] of encounter.enemies.entries()) {
+        if (enemy.npcStateId && enemies[i].stats.hp > 0) {
+          await ctx.db.patch(enemy.npcStateId, { currentHp: enemies[i].stats.hp, maxHp: enemy.stats.maxHp, lastHitAt: now });
+        }
+      }
+    }
+
+    combatLog("[CombatDebug:server] battle round", {
+      encounterId: String(encounterId),
+      round,
+      status,
+      turns: turns.length,
+    });
+
+    const updated = (await ctx.db.get(encounterId))!;
+    const updatedProfile = (await ctx.db.get(profileId))!;
+    return { success: true as const, battle: await battleView(ctx, updated, updatedProfile, turns) };
+  },
+});
+
+export const logCombat = internalMutation({
+  args: {
+    encounterId: v.id("combatEncounters"),
+    profileId: v.id("profiles"),
+    turns: v.any(),
+    outcome: v.union(
+      v.literal("victory"),
+      v.literal("defeat"),
+      v.literal("flee")
+    ),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("combatLog", {
+      ...args,
+      timestamp: Date.now(),
+    });
+  },
+});
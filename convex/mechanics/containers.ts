@@ -0,0 +1,260 @@
+import { v } from "convex/values";
+import { mutation, query } from "../_generated/server";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+  OBJECT_TOGGLE_RANGE_PX,
+  checkInRange,
+  isInteractionFailure,
+  resolvePlayerPosition,
+} from "../lib/interaction";
+import type { PlayerPosition } from "../lib/interaction";
+import { requireSuperuser } from "../lib/requireSuperuser";
+import {
+  MAX_CONTAINER_QUANTITY,
+  MIN_REFILL_MS,
+  mergeLines,
+  refillsAt,
+  sameContainer,
+  withdraw,
+} from "../lib/containers";
+import type { ContainerConfig, StashLine } from "../lib/containers";
+import type { InventoryItem } from "../lib/inventory";
+import { addItems } from "./inventory";
+import { checkLootTable, rollTable } from "./loot";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function getItemDef(ctx: QueryCtx, name: string) {
+  return await ctx.db
+    .query("itemDefs")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .first();
+}
+
+/** A container map object, its sprite def and what it's set to hold */
+async function getContainer(ctx: QueryCtx, objectId: Id<"mapObjects">) {
+  const obj = await ctx.db.get(objectId);
+  if (!obj) return null;
+  const def = await ctx.db
+    .query("spriteDefinitions")
+    .withIndex("by_name", (q) => q.eq("name", obj.spriteDefName))
+    .first();
+  if (!def?.container) return null;
+  const config: ContainerConfig = obj.container ?? {};
+  return { obj, def, config, title: def.name.replace(/[-_]+/g, " ") };
+}
+
+type ContainerInfo = NonNullable<Awaited<ReturnType<typeof getContainer>>>;
+
+/** The stash a player sees: their own for per-player containers, else the shared one */
+async function findStash(ctx: QueryCtx, container: ContainerInfo, profileId: Id<"profiles">) {
+  const owner = container.config.perPlayer ? profileId : undefined;
+  return await ctx.db
+    .query("containerStashes")
+    .withIndex("by_object_profile", (q) => q.eq("objectId", container.obj._id).eq("profileId", owner))
+    .first();
+}
+
+/** Refuse unless the player can reach the container (measured to the sprite's centre) */
+function checkNearContainer(player: PlayerPosition, container: ContainerInfo) {
+  const halfHeight = (container.def.frameHeight * container.def.scale) / 2;
+  return checkInRange(
+    player,
+    { ...container.obj, y: container.obj.y - halfHeight },
+    OBJECT_TOGGLE_RANGE_PX,
+    container.title,
+  );
+}
+
+/** Fresh contents: the fixed items plus a roll of the loot table */
+async function fillLines(ctx: MutationCtx, config: ContainerConfig): Promise<StashLine[]> {
+  const rolled = config.lootTable ? await rollTable(ctx, config.lootTable) : [];
+  return mergeLines([...(config.items ?? []), ...rolled]);
+}
+
+/** The player's stash, filled on first open and refilled once its timer is up */
+async function ensureStash(
+  ctx: MutationCtx,
+  container: ContainerInfo,
+  profileId: Id<"profiles">,
+  now: number,
+): Promise<Doc<"containerStashes">> {
+  const stash = await findStash(ctx, container, profileId);
+  if (!stash) {
+    const id = await ctx.db.insert("containerStashes", {
+      objectId: container.obj._id,
+      profileId: container.config.perPlayer ? profileId : undefined,
+      items: await fillLines(ctx, container.config),
+      filledAt: now,
+    });
+    return (await ctx.db.get(id))!;
+  }
+  const due = refillsAt(container.config, stash.filledAt);
+  if (due != null && due <= now) {
+    const refilled = { items: await fillLines(ctx, container.config), filledAt: now };
+    await ctx.db.patch(stash._id, refilled);
+    return { ...stash, ...refilled };
+  }
+  return stash;
+}
+
+/**
+ * Check container settings saved from the map editor (mapObjects.bulkSave,
+ * mapEdits.applyOps) against what the object held before. Setting or
+ * changing what a container holds is superuser-only, like placing world
+ * items; unchanged settings pass so any editor can still move it.
+ */
+export async function checkContainerEdit(
+  ctx: MutationCtx,
+  profileId: Id<"profiles">,
+  config: ContainerConfig | undefined,
+  previous: ContainerConfig | undefined,
+): Promise<void> {
+  if (!config || sameContainer(config, previous)) return;
+  await requireSuperuser(ctx, profileId);
+  for (const line of config.items ?? []) {
+    if (!(await getItemDef(ctx, line.itemDefName))) {
+      throw new Error(`Unknown item "${line.itemDefName}" in container`);
+    }
+    if (!Number.isInteger(line.quantity) || line.quantity < 1 || line.quantity > MAX_CONTAINER_QUANTITY) {
+      throw new Error(`Container quantities must be between 1 and ${MAX_CONTAINER_QUANTITY}`);
+    }
+  }
+  if (config.lootTable) await checkLootTable(ctx, config.lootTable);
+  const refillMs = config.refillMs ?? 0;
+  if (!Number.isFinite(refillMs) || (refillMs > 0 && refillMs < MIN_REFILL_MS)) {
+    throw new Error(`Containers can refill at most every ${MIN_REFILL_MS / 60_000} minutes`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * What's in a container for one player, with display names, and when it
+ * next refills (null for containers filled once). Null for objects that
+ * aren't containers.
+ */
+export const getContents = query({
+  args: {
+    profileId: v.id("profiles"),
+    objectId: v.id("mapObjects"),
+  },
+  handler: async (ctx, { profileId, objectId }) => {
+    const container = await getContainer(ctx, objectId);
+    if (!container) return null;
+    const stash = await findStash(ctx, container, profileId);
+    const items = [];
+    for (const line of stash?.items ?? []) {
+      const def = await getItemDef(ctx, line.itemDefName);
+      items.push({ ...line, displayName: def?.displayName ?? line.itemDefName });
+    }
+    return {
+      title: container.title,
+      items,
+      refillsAt: stash ? refillsAt(container.config, stash.filledAt) : null,
+    };
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Mutations
+// ---------------------------------------------------------------------------
+
+/**
+ * Open a container within reach: plays its "on" animation for everyone
+ * and fills (or refills) the player's stash.
+ */
+export const open = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    objectId: v.id("mapObjects"),
+  },
+  handler: async (ctx, { profileId, objectId }) => {
+    const player = await resolvePlayerPosition(ctx, profileId);
+    if (isInteractionFailure(player)) return player;
+    const container = await getContainer(ctx, objectId);
+    if (!container) return { success: false as const, reason: "Nothing to open here" };
+    const tooFar = checkNearContainer(player, container);
+    if (tooFar) return tooFar;
+
+    const now = Date.now();
+    await ensureStash(ctx, container, profileId, now);
+    if (!container.obj.isOn) await ctx.db.patch(objectId, { isOn: true, updatedAt: now });
+    return { success: true as const };
+  },
+});
+
+/**
+ * Take items out of an open container: `quantity` of one item (default
+ * all of it), or everything when `itemDefName` is left out. Takes what fits
+ * in the player's inventory; the rest stays put.
+ */
+export const take = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    objectId: v.id("mapObjects"),
+    itemDefName: v.optional(v.string()),
+    quantity: v.optional(v.number()),
+  },
+  handler: async (ctx, { profileId, objectId, itemDefName, quantity }) => {
+    const player = await resolvePlayerPosition(ctx, profileId);
+    if (isInteractionFailure(player)) return player;
+    const container = await getContainer(ctx, objectId);
+    if (!container) return { success: false as const, reason: "Nothing to open here" };
+    const tooFar = checkNearContainer(player, container);
+    if (tooFar) return tooFar;
+    const stash = await findStash(ctx, container, profileId);
+    if (!stash || stash.items.length === 0) return { success: false as const, reason: "It's empty." };
+
+    const wanted = itemDefName
+      ? stash.items
+        .filter((line) => line.itemDefName === itemDefName)
+        .map((line) => ({ ...line, quantity: Math.min(line.quantity, Math.max(1, Math.floor(quantity ?? Infinity) || 1)) }))
+      : stash.items;
+    if (wanted.length === 0) return { success: false as const, reason: "That's no longer there." };
+
+    let left = stash.items;
+    const taken: StashLine[] = [];
+    let items: InventoryItem[] = [];
+    let fullReason: string | null = null;
+    for (const line of wanted) {
+      const added = await addItems(ctx, profileId, line.itemDefName, line.quantity, { partial: true });
+      if (!added.success) {
+        fullReason ??= added.reason;
+        continue;
+      }
+      items = added.items;
+      if (added.added > 0) {
+        taken.push({ itemDefName: line.itemDefName, quantity: added.added });
+        left = withdraw(left, line.itemDefName, added.added);
+      }
+    }
+    if (taken.length === 0) return { success: false as const, reason: fullReason ?? "Your inventory is full." };
+
+    await ctx.db.patch(stash._id, { items: left });
+    return { success: true as const, taken, items };
+  },
+});
+
+/** Close a container within reach (its "off" animation); contents are untouched */
+export const close = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    objectId: v.id("mapObjects"),
+  },
+  handler: async (ctx, { profileId, objectId }) => {
+    const player = await resolvePlayerPosition(ctx, profileId);
+    if (isInteractionFailure(player)) return player;
+    const container = await getContainer(ctx, objectId);
+    if (!container) return { success: false as const, reason: "Nothing to close here" };
+    const tooFar = checkNearContainer(player, container);
+    if (tooFar) return tooFar;
+    if (container.obj.isOn) await ctx.db.patch(objectId, { isOn: false, updatedAt: Date.now() });
+    return { success: true as const };
+  },
+});
@@ -0,0 +1,233 @@
+import { v } from "convex/values";
+import { mutation, query } from "../_generated/server";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+  OBJECT_TOGGLE_RANGE_PX,
+  checkInRange,
+  isInteractionFailure,
+  resolveOwnedProfile,
+  resolvePlayerPosition,
+} from "../lib/interaction";
+import type { PlayerPosition } from "../lib/interaction";
+import { countItem, placeItems, takeItems } from "../lib/inventory";
+import type { InventoryItem, InventorySlot } from "../lib/inventory";
+import {
+  craftTimeOf,
+  getRecipe,
+  knownRecipes,
+  knowsRecipe,
+  levelShortfall,
+  missingInputs,
+} from "../lib/crafting";
+import { addItems, readInventory, removeItems } from "./inventory";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function getItemDef(ctx: QueryCtx, name: string) {
+  return await ctx.db
+    .query("itemDefs")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .first();
+}
+
+/** A crafting station map object and the kind of station its sprite is */
+async function getStation(ctx: QueryCtx, stationId: Id<"mapObjects">) {
+  const obj = await ctx.db.get(stationId);
+  if (!obj) return null;
+  const def = await ctx.db
+    .query("spriteDefinitions")
+    .withIndex("by_name", (q) => q.eq("name", obj.spriteDefName))
+    .first();
+  if (!def?.craftingStation) return null;
+  return { obj, def, kind: def.craftingStation };
+}
+
+/** Refuse unless the recipe's station (if it needs one) is lit and within reach */
+async function checkStation(
+  ctx: MutationCtx,
+  player: PlayerPosition,
+  recipe: Doc<"recipes">,
+  stationId: Id<"mapObjects"> | undefined,
+) {
+  if (!recipe.station) return null;
+  const station = stationId ? await getStation(ctx, stationId) : null;
+  if (!station || station.kind !== recipe.station) {
+    return { success: false as const, reason: `${recipe.displayName} has to be made at a ${recipe.station}.` };
+  }
+  if (!station.obj.isOn) return { success: false as const, reason: `Light the ${station.kind} first.` };
+  // Reach is measured to the sprite's centre, as for toggling it
+  const halfHeight = (station.def.frameHeight * station.def.scale) / 2;
+  return checkInRange(player, { ...station.obj, y: station.obj.y - halfHeight }, OBJECT_TOGGLE_RANGE_PX, station.kind);
+}
+
+/**
+ * Refuse unless the player has every input and room for every output once
+ * the inputs are gone. Nothing is written.
+ */
+async function checkMaterials(ctx: QueryCtx, profile: Doc<"profiles">, recipe: Doc<"recipes">) {
+  const inventory = await readInventory(ctx, profile);
+  const missing = missingInputs(inventory.slots, recipe);
+  if (missing.length > 0) {
+    const def = await getItemDef(ctx, missing[0].itemDefName);
+    const name = def?.displayName ?? missing[0].itemDefName;
+    return { success: false as const, reason: `You need ${missing[0].quantity} more ${name}.` };
+  }
+  let slots: InventorySlot[] = inventory.slots;
+  for (const input of recipe.inputs) slots = takeItems(slots, input.itemDefName, input.quantity) ?? slots;
+  for (const output of recipe.outputs) {
+    const def = await getItemDef(ctx, output.itemDefName);
+    if (!def) return { success: false as const, reason: `Unknown item "${output.itemDefName}"` };
+    const placed = placeItems(slots, inventory.capacity, def, output.quantity);
+    if (placed.added < output.quantity) {
+      return { success: false as const, reason: "You don't have room for what you'd make." };
+    }
+    slots = placed.slots;
+  }
+  return null;
+}
+
+/** Inputs out, outputs in — any failure throws so the whole craft rolls back */
+async function completeCraft(ctx: MutationCtx, profileId: Id<"profiles">, recipe: Doc<"recipes">) {
+  for (const input of recipe.inputs) {
+    const taken = await removeItems(ctx, profileId, input.itemDefName, input.quantity);
+    if (!taken.success) throw new Error(taken.reason);
+  }
+  let items: InventoryItem[] = [];
+  for (const output of recipe.outputs) {
+    const added = await addItems(ctx, profileId, output.itemDefName, output.quantity);
+    if (!added.success) throw new Error(added.reason);
+    items = added.items;
+  }
+  await ctx.db.patch(profileId, { crafting: undefined });
+  return items;
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * The recipes a player knows, as seen from a crafting station (or from
+ * anywhere, without one): each with what it takes, what the player has of
+ * it, and why it can't be made right now (null when it can). Also the
+ * timed craft under way, if any.
+ */
+export const getRecipes = query({
+  args: {
+    profileId: v.id("profiles"),
+    stationId: v.optional(v.id("mapObjects")),
+  },
+  handler: async (ctx, { profileId, stationId }) => {
+    const profile = await ctx.db.get(profileId);
+    if (!profile) return null;
+    const station = stationId ? await getStation(ctx, stationId) : null;
+    const { slots } = await readInventory(ctx, profile);
+
+    const names = new Map<string, string>();
+    const displayName = async (itemDefName: string) => {
+      if (!names.has(itemDefName)) {
+        names.set(itemDefName, (await getItemDef(ctx, itemDefName))?.displayName ?? itemDefName);
+      }
+      return names.get(itemDefName)!;
+    };
+
+    const recipes = [];
+    for (const recipe of await knownRecipes(ctx, profile)) {
+      const inputs = [];
+      for (const input of recipe.inputs) {
+        inputs.push({
+          ...input,
+          displayName: await displayName(input.itemDefName),
+          have: countItem(slots, input.itemDefName),
+        });
+      }
+      const outputs = [];
+      for (const output of recipe.outputs) {
+        outputs.push({ ...output, displayName: await displayName(output.itemDefName) });
+      }
+      const blocked =
+        levelShortfall(profile, recipe) ??
+        (recipe.station && recipe.station !== station?.kind ? `Needs a ${recipe.station}.` : null) ??
+        (missingInputs(slots, recipe).length > 0 ? "Missing materials." : null);
+      recipes.push({
+        name: recipe.name,
+        displayName: recipe.displayName,
+        description: recipe.description,
+        inputs,
+        outputs,
+        station: recipe.station ?? null,
+        craftTimeMs: craftTimeOf(recipe),
+        blocked,
+      });
+    }
+
+    return {
+      station: station ? { kind: station.kind, isOn: !!station.obj.isOn } : null,
+      recipes,
+      crafting: profile.crafting ?? null,
+    };
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Mutations
+// ---------------------------------------------------------------------------
+
+/**
+ * Craft a recipe: consume its inputs and produce its outputs in one go.
+ * Recipes with a craft time take two calls — the first starts the timer
+ * (`done: false` with `readyAt`), the one after `readyAt` finishes it.
+ * Everything is checked again when the craft finishes.
+ */
+export const craft = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    recipeName: v.string(),
+    stationId: v.optional(v.id("mapObjects")),
+  },
+  handler: async (ctx, { profileId, recipeName, stationId }) => {
+    const player = await resolvePlayerPosition(ctx, profileId);
+    if (isInteractionFailure(player)) return player;
+    const { profile } = player;
+    const recipe = await getRecipe(ctx, recipeName);
+    if (!recipe || !knowsRecipe(profile, recipe)) {
+      return { success: false as const, reason: "You don't know that recipe." };
+    }
+    const tooLow = levelShortfall(profile, recipe);
+    if (tooLow) return { success: false as const, reason: tooLow };
+    const noStation = await checkStation(ctx, player, recipe, stationId);
+    if (noStation) return noStation;
+    const noMaterials = await checkMaterials(ctx, profile, recipe);
+    if (noMaterials) return noMaterials;
+
+    const now = Date.now();
+    const craftTime = craftTimeOf(recipe);
+    if (craftTime > 0) {
+      const pending = profile.crafting;
+      const resuming = pending?.recipeName === recipe.name && pending.stationId === stationId;
+      if (!resuming) {
+        const readyAt = now + craftTime;
+        await ctx.db.patch(profileId, { crafting: { recipeName: recipe.name, stationId, readyAt } });
+        return { success: true as const, done: false as const, readyAt };
+      }
+      if (pending.readyAt > now) return { success: true as const, done: false as const, readyAt: pending.readyAt };
+    }
+
+    const items = await completeCraft(ctx, profileId, recipe);
+    return { success: true as const, done: true as const, items, outputs: recipe.outputs };
+  },
+});
+
+/** Abandon a timed craft before it finishes (nothing was consumed yet) */
+export const cancel = mutation({
+  args: { profileId: v.id("profiles") },
+  handler: async (ctx, { profileId }) => {
+    const profile = await resolveOwnedProfile(ctx, profileId);
+    if (isInteractionFailure(profile)) return profile;
+    if (profile.crafting) await ctx.db.patch(profileId, { crafting: undefined });
+    return { success: true as const };
+  },
+});
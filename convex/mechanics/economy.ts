@@ -1,82 +1,97 @@
 import { v } from "convex/values";
-import { mutation, query } from "../_generated/server";
+import { internalMutation, query } from "../_generated/server";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Id } from "../_generated/dataModel";
+
+// ---------------------------------------------------------------------------
+// Wallets
+//
+// Every currency a player holds lives in their `wallets` row: loot, quest
+// rewards, shop purchases and sales all move money through the helpers
+// below.
+// ---------------------------------------------------------------------------
+
+async function getWalletRow(ctx: QueryCtx, profileId: Id<"profiles">) {
+  return await ctx.db
+    .query("wallets")
+    .withIndex("by_profile", (q) => q.eq("profileId", profileId))
+    .first();
+}
+
+/** A player's balances (empty when they've never had money) */
+export async function walletBalances(ctx: QueryCtx, profileId: Id<"profiles">): Promise<Record<string, number>> {
+  return { ...((await getWalletRow(ctx, profileId))?.currencies ?? {}) };
+}
+
+/** Pay a player; returns their balances afterwards */
+export async function creditWallet(
+  ctx: MutationCtx,
+  profileId: Id<"profiles">,
+  currency: string,
+  amount: number,
+): Promise<Record<string, number>> {
+  const wallet = await getWalletRow(ctx, profileId);
+  const currencies = { ...(wallet?.currencies ?? {}) };
+  currencies[currency] = (currencies[currency] ?? 0) + amount;
+  if (wallet) await ctx.db.patch(wallet._id, { currencies });
+  else await ctx.db.insert("wallets", { profileId, currencies });
+  return currencies;
+}
+
+/**
+ * Charge a player. Returns their balances afterwards, or null (changing
+ * nothing) when they can't afford it.
+ */
+export async function debitWallet(
+  ctx: MutationCtx,
+  profileId: Id<"profiles">,
+  currency: string,
+  amount: number,
+): Promise<Record<string, number> | null> {
+  const wallet = await getWalletRow(ctx, profileId);
+  const currencies = { ...(wallet?.currencies ?? {}) };
+  if ((currencies[currency] ?? 0) < amount) return null;
+  if (!wallet || amount === 0) return currencies;
+  currencies[currency] -= amount;
+  await ctx.db.patch(wallet._id, { currencies });
+  return currencies;
+}
+
+// ---------------------------------------------------------------------------
+// API
+// ---------------------------------------------------------------------------
 
 export const getWallet = query({
   args: { profileId: v.id("profiles") },
   handler: async (ctx, { profileId }) => {
-    return await ctx.db
-      .query("wallets")
-      .withIndex("by_profile", (q) => q.eq("profileId", profileId))
-      .first();
+    return await getWalletRow(ctx, profileId);
   },
 });
 
-export const addCurrency = mutation({
+// Gameplay pays and charges through creditWallet/debitWallet in the same
+// mutation; these are for scripts and admin tooling only
+export const addCurrency = internalMutation({
   args: {
     profileId: v.id("profiles"),
     currency: v.string(),
     amount: v.number(),
   },
   handler: async (ctx, { profileId, currency, amount }) => {
-    let wallet = await ctx.db
-      .query("wallets")
-      .withIndex("by_profile", (q) => q.eq("profileId", profileId))
-      .first();
-
-    if (!wallet) {
-      return await ctx.db.insert("wallets", {
-        profileId,
-        currencies: { [currency]: amount },
-      });
-    }
-
-    const currencies = { ...(wallet.currencies as Record<string, number>) };
-    currencies[currency] = (currencies[currency] ?? 0) + amount;
-    await ctx.db.patch(wallet._id, { currencies });
-    return wallet._id;
+    await creditWallet(ctx, profileId, currency, amount);
+    return (await getWalletRow(ctx, profileId))!._id;
   },
 });
 
-export const spendCurrency = mutation({
+export const spendCurrency = internalMutation({
   args: {
     profileId: v.id("profiles"),
     currency: v.string(),
     amount: v.number(),
   },
   handler: async (ctx, { profileId, currency, amount }) => {
-    const wallet = await ctx.db
-      .query("wallets")
-      .withIndex("by_profile", (q) => q.eq("profileId", profileId))
-      .first();
-
-    if (!wallet) throw new Error("No wallet");
-    const currencies = wallet.currencies as Record<string, number>;
-    if ((currencies[currency] ?? 0) < amount) {
+    if (!(await getWalletRow(ctx, profileId))) throw new Error("No wallet");
+    if (!(await debitWallet(ctx, profileId, currency, amount))) {
       throw new Error("Insufficient funds");
     }
-
-    currencies[currency] -= amount;
-    await ctx.db.patch(wallet._id, { currencies });
-  },
-});
-
-export const getShop = query({
-  args: { npcId: v.id("npcs") },
-  handler: async (ctx, { npcId }) => {
-    return await ctx.db
-      .query("shops")
-      .withIndex("by_npc", (q) => q.eq("npcId", npcId))
-      .first();
-  },
-});
-
-export const createShop = mutation({
-  args: {
-    npcId: v.id("npcs"),
-    inventory: v.any(),
-    mapId: v.optional(v.id("maps")),
-  },
-  handler: async (ctx, args) => {
-    return await ctx.db.insert("shops", args);
   },
 });
@@ -0,0 +1,148 @@
+import { v } from "convex/values";
+import { mutation, query } from "../_generated/server";
+import type { MutationCtx } from "../_generated/server";
+import type { Doc } from "../_generated/dataModel";
+import { isInteractionFailure, resolveOwnedProfile } from "../lib/interaction";
+import {
+  EQUIP_SLOTS,
+  equippedItems,
+  gearBonuses,
+  isEquipSlot,
+  itemBonuses,
+  withGear,
+} from "../lib/equipment";
+import { addItems, canAddItems, removeItems } from "./inventory";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function getItemDef(ctx: MutationCtx, name: string) {
+  return await ctx.db
+    .query("itemDefs")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .first();
+}
+
+/** Shift max HP by a gear change, keeping HP within the new cap (and above 0) */
+function adjustMaxHp(stats: Doc<"profiles">["stats"], delta: number): Doc<"profiles">["stats"] {
+  if (delta === 0) return stats;
+  const maxHp = Math.max(1, stats.maxHp + delta);
+  const hp = Math.max(Math.min(stats.hp, 1), Math.min(maxHp, stats.hp + Math.max(0, delta)));
+  return { ...stats, maxHp, hp };
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * A player's equipment for the character panel: what's worn in each slot,
+ * the summed bonuses, and their stats with gear applied.
+ */
+export const getEquipment = query({
+  args: { profileId: v.id("profiles") },
+  handler: async (ctx, { profileId }) => {
+    const profile = await ctx.db.get(profileId);
+    if (!profile) return null;
+    const worn = await equippedItems(ctx, profile);
+    const bonuses = await gearBonuses(ctx, profile);
+    return {
+      slots: EQUIP_SLOTS.map((slot) => {
+        const def = worn.get(slot);
+        return {
+          slot,
+          item: def
+            ? {
+              name: def.name,
+              displayName: def.displayName,
+              rarity: def.rarity,
+              iconUrl: def.iconUrl,
+              bonuses: itemBonuses(def),
+            }
+            : null,
+        };
+      }),
+      bonuses,
+      stats: withGear(profile.stats, bonuses),
+    };
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Mutations
+// ---------------------------------------------------------------------------
+
+/**
+ * Wear an item from the inventory in its `equipSlot`, swapping out whatever
+ * was there. Refused below the item's `levelRequirement`.
+ */
+export const equip = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    itemName: v.string(),
+  },
+  handler: async (ctx, { profileId, itemName }) => {
+    const profile = await resolveOwnedProfile(ctx, profileId);
+    if (isInteractionFailure(profile)) return profile;
+    const def = await getItemDef(ctx, itemName);
+    if (!def) return { success: false as const, reason: "Unknown item." };
+    const slot = def.equipSlot;
+    if (!isEquipSlot(slot)) {
+      return { success: false as const, reason: `${def.displayName} can't be equipped.` };
+    }
+    const level = profile.stats.level ?? 1;
+    if (def.levelRequirement != null && level < def.levelRequirement) {
+      return {
+        success: false as const,
+        reason: `${def.displayName} requires level ${def.levelRequirement}.`,
+      };
+    }
+
+    const taken = await removeItems(ctx, profileId, itemName, 1);
+    if (!taken.success) return { success: false as const, reason: "You don't have that item." };
+    let { items } = taken;
+    let maxHpDelta = itemBonuses(def).maxHp;
+    const previous = profile.equipment?.[slot];
+    const equipment = { ...profile.equipment, [slot]: itemName };
+    await ctx.db.patch(profileId, { equipment });
+    if (previous) {
+      // Can only fail when the new piece came off a stack (freeing no slot) and
+      // the bags are full; throwing undoes the whole swap
+      const returned = await addItems(ctx, profileId, previous, 1, { questProgress: false });
+      if (!returned.success) throw new Error(returned.reason);
+      items = returned.items;
+      maxHpDelta -= itemBonuses(await getItemDef(ctx, previous)).maxHp;
+    }
+
+    const stats = adjustMaxHp(profile.stats, maxHpDelta);
+    await ctx.db.patch(profileId, { stats });
+    return { success: true as const, slot, unequipped: previous ?? null, items, equipment, stats };
+  },
+});
+
+/** Take off whatever is worn in `slot`, back into the inventory */
+export const unequip = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    slot: v.string(),
+  },
+  handler: async (ctx, { profileId, slot }) => {
+    const profile = await resolveOwnedProfile(ctx, profileId);
+    if (isInteractionFailure(profile)) return profile;
+    if (!isEquipSlot(slot)) return { success: false as const, reason: "No such equipment slot." };
+    const worn = profile.equipment?.[slot];
+    if (!worn) return { success: false as const, reason: "Nothing is equipped there." };
+
+    if (!(await canAddItems(ctx, profile, worn, 1))) {
+      return { success: false as const, reason: "Your inventory is full." };
+    }
+
+    const equipment = { ...profile.equipment, [slot]: undefined };
+    const stats = adjustMaxHp(profile.stats, -itemBonuses(await getItemDef(ctx, worn)).maxHp);
+    await ctx.db.patch(profileId, { equipment, stats });
+    const returned = await addItems(ctx, profileId, worn, 1, { questProgress: false });
+    if (!returned.success) throw new Error(returned.reason);
+    return { success: true as const, slot, unequipped: worn, items: returned.items, equipment, stats };
+  },
+});
@@ -1,67 +1,207 @@
 import { v } from "convex/values";
-import { mutation, query } from "../_generated/server";
+import { internalMutation, mutation, query } from "../_generated/server";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
 import { internal } from "../_generated/api";
+import { isInteractionFailure, resolveOwnedProfile } from "../lib/interaction";
+import {
+  DEFAULT_INVENTORY_CAPACITY,
+  countItem,
+  inventoryItems,
+  placeItems,
+  takeItems,
+} from "../lib/inventory";
+import type { InventoryItem, InventorySlot, SlotMetadata } from "../lib/inventory";
 
+// ---------------------------------------------------------------------------
+// The player inventory
+//
+// `inventories` is the one store for what a player carries; pickups, loot,
+// quests, shops, consumables and equipment all go through the helpers
+// below. Profiles from before it existed keep their items in the legacy
+// `profiles.items`, moved over the first time the inventory is written
+// (or in bulk by migrations:migrateInventories).
+// ---------------------------------------------------------------------------
+
+export type InventoryFailure = { success: false; reason: string };
+
+async function getItemDef(ctx: QueryCtx, name: string) {
+  return await ctx.db
+    .query("itemDefs")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .first();
+}
+
+async function getInventory(ctx: QueryCtx, profileId: Id<"profiles">) {
+  return await ctx.db
+    .query("inventories")
+    .withIndex("by_profile", (q) => q.eq("profileId", profileId))
+    .first();
+}
+
+/** A player's slots and capacity, falling back to the legacy item list (read-only paths) */
+export async function readInventory(
+  ctx: QueryCtx,
+  profile: Doc<"profiles">,
+): Promise<{ slots: InventorySlot[]; capacity: number }> {
+  const inv = await getInventory(ctx, profile._id);
+  const legacy = (profile.items ?? []).map((i) => ({ itemDefName: i.name, quantity: i.quantity }));
+  return {
+    slots: [...(inv?.slots ?? []), ...legacy],
+    capacity: inv?.capacity ?? DEFAULT_INVENTORY_CAPACITY,
+  };
+}
+
+/** What the player carries as `{ name, quantity }` totals */
+export async function inventoryItemsOf(ctx: QueryCtx, profile: Doc<"profiles">): Promise<InventoryItem[]> {
+  return inventoryItems((await readInventory(ctx, profile)).slots);
+}
+
+/**
+ * The player's inventory row, created on first use. Legacy `profiles.items`
+ * move into it (stacked by each item's rules; capacity grows rather than
+ * dropping anything) and are cleared from the profile.
+ */
+export async function ensureInventory(ctx: MutationCtx, profile: Doc<"profiles">): Promise<Doc<"inventories">> {
+  const existing = await getInventory(ctx, profile._id);
+  if (existing && profile.items === undefined) return existing;
+  let slots: InventorySlot[] = existing?.slots ?? [];
+  for (const item of profile.items ?? []) {
+    if (item.quantity <= 0) continue;
+    const def = await getItemDef(ctx, item.name);
+    const rules = def ?? { name: item.name, stackable: true, maxStack: undefined, isUnique: undefined };
+    slots = placeItems(slots, Number.MAX_SAFE_INTEGER, rules, item.quantity).slots;
+  }
+  const capacity = Math.max(existing?.capacity ?? DEFAULT_INVENTORY_CAPACITY, slots.length);
+  const id = existing?._id ?? (await ctx.db.insert("inventories", { profileId: profile._id, slots, capacity }));
+  if (existing) await ctx.db.patch(id, { slots, capacity });
+  await ctx.db.patch(profile._id, { items: undefined });
+  return (await ctx.db.get(id))!;
+}
+
+async function getUniqueClaim(ctx: QueryCtx, name: string) {
+  return await ctx.db
+    .query("uniqueHolders")
+    .withIndex("by_item", (q) => q.eq("itemDefName", name))
+    .first();
+}
+
+/** Whoever holds a one-of-a-kind item (carried or worn), if anyone */
+async function uniqueItemHolder(ctx: QueryCtx, name: string): Promise<Id<"profiles"> | null> {
+  const claim = await getUniqueClaim(ctx, name);
+  if (!claim) return null;
+  // A claim lapses once its holder has let go of the item (or been deleted)
+  const profile = await ctx.db.get(claim.profileId);
+  if (!profile) return null;
+  const worn = Object.values(profile.equipment ?? {}).includes(name);
+  return worn || countItem((await readInventory(ctx, profile)).slots, name) > 0 ? profile._id : null;
+}
+
+/** Record that a player now holds a one-of-a-kind item */
+export async function claimUniqueItem(ctx: MutationCtx, name: string, profileId: Id<"profiles">): Promise<void> {
+  const claim = await getUniqueClaim(ctx, name);
+  if (claim) await ctx.db.patch(claim._id, { profileId, claimedAt: Date.now() });
+  else await ctx.db.insert("uniqueHolders", { itemDefName: name, profileId, claimedAt: Date.now() });
+}
+
+/**
+ * Give a player items, enforcing stack sizes, capacity and uniqueness, and
+ * record quest item progress (unless `questProgress: false`, for items that
+ * were already theirs). All-or-nothing unless `partial`, which keeps
+ * whatever fits (`added` says how many).
+ */
+export async function addItems(
+  ctx: MutationCtx,
+  profileId: Id<"profiles">,
+  itemDefName: string,
+  quantity: number,
+  options: { metadata?: SlotMetadata; partial?: boolean; questProgress?: boolean } = {},
+): Promise<{ success: true; added: number; items: InventoryItem[] } | InventoryFailure> {
+  const profile = await ctx.db.get(profileId);
+  if (!profile) return { success: false, reason: "Profile not found" };
+  const def = await getItemDef(ctx, itemDefName);
+  if (!def) return { success: false, reason: `Unknown item "${itemDefName}"` };
+  const inv = await ensureInventory(ctx, profile);
+
+  let wanted = Math.max(0, Math.floor(quantity));
+  if (def.isUnique) {
+    if (await uniqueItemHolder(ctx, def.name)) {
+      return { success: false, reason: `${def.displayName} is one of a kind and already has an owner.` };
+    }
+    wanted = Math.min(wanted, 1);
+  }
+  const { slots, added } = placeItems(inv.slots, inv.capacity ?? DEFAULT_INVENTORY_CAPACITY, def, wanted, options.metadata);
+  if (added === 0 && wanted > 0) return { success: false, reason: "Your inventory is full." };
+  if (added < wanted && !options.partial) {
+    return { success: false, reason: `Only room for ${added} ${def.displayName}.` };
+  }
+
+  await ctx.db.patch(inv._id, { slots });
+  if (added > 0 && def.isUnique) await claimUniqueItem(ctx, def.name, profileId);
+  if (added > 0 && options.questProgress !== false) {
+    await ctx.runMutation(internal.quests.recordItemProgress, { profileId, itemDefName, quantity: added });
+  }
+  return { success: true, added, items: inventoryItems(slots) };
+}
+
+/** Take items from a player; fails (changing nothing) when they don't have enough */
+export async function removeItems(
+  ctx: MutationCtx,
+  profileId: Id<"profiles">,
+  itemDefName: string,
+  quantity: number,
+): Promise<{ success: true; items: InventoryItem[] } | InventoryFailure> {
+  const profile = await ctx.db.get(profileId);
+  if (!profile) return { success: false, reason: "Profile not found" };
+  const inv = await ensureInventory(ctx, profile);
+  const slots = takeItems(inv.slots, itemDefName, quantity);
+  if (!slots) return { success: false, reason: "You don't have enough of that item." };
+  await ctx.db.patch(inv._id, { slots });
+  return { success: true, items: inventoryItems(slots) };
+}
+
+/** Whether adding these would fit (nothing is written) */
+export async function canAddItems(
+  ctx: MutationCtx,
+  profile: Doc<"profiles">,
+  itemDefName: string,
+  quantity: number,
+): Promise<boolean> {
+  const def = await getItemDef(ctx, itemDefName);
+  if (!def) return false;
+  const { slots, capacity } = await readInventory(ctx, profile);
+  const wanted = def.isUnique ? Math.min(quantity, 1) : quantity;
+  return placeItems(slots, capacity, def, wanted).added === wanted;
+}
+
+// ---------------------------------------------------------------------------
+// API
+// ---------------------------------------------------------------------------
+
+/** A player's slots (with metadata), capacity and per-item totals */
 export const getByPlayer = query({
   args: { profileId: v.id("profiles") },
   handler: async (ctx, { profileId }) => {
-    return await ctx.db
-      .query("inventories")
-      .withIndex("by_profile", (q) => q.eq("profileId", profileId))
-      .first();
+    const profile = await ctx.db.get(profileId);
+    if (!profile) return null;
+    const { slots, capacity } = await readInventory(ctx, profile);
+    return { slots, capacity, items: inventoryItems(slots) };
   },
 });
 
-export const addItem = mutation({
+/**
+ * Grant items outright (scripts and admin tooling). Gameplay — pickups,
+ * loot, crafting, shops, trades — calls addItems in its own mutation.
+ */
+export const addItem = internalMutation({
   args: {
     profileId: v.id("profiles"),
     itemDefName: v.string(),
     quantity: v.number(),
+    metadata: v.optional(v.record(v.string(), v.string())),
   },
-  handler: async (ctx, { profileId, itemDefName, quantity }) => {
-    let inv = await ctx.db
-      .query("inventories")
-      .withIndex("by_profile", (q) => q.eq("profileId", profileId))
-      .first();
-
-    if (!inv) {
-      const id = await ctx.db.insert("inventories", {
-        profileId,
-        slots: [{ itemDefName, quantity, metadata: {} }],
-      });
-      await ctx.runMutation(internal.quests.recordItemProgress, {
-        profileId,
-        itemDefName,
-        quantity,
-      });
-      return id;
-    }
-
-    const slots = [...(inv.slots as any[])];
-    const itemDef = await ctx.db
-      .query("itemDefs")
-      .withIndex("by_name", (q) => q.eq("name", itemDefName))
-      .first();
-    const existing = slots.findIndex(
-      (s: any) => s.itemDefName === itemDefName && itemDef?.stackable
-    );
-
-    if (existing >= 0) {
-      slots[existing] = {
-        ...slots[existing],
-        quantity: slots[existing].quantity + quantity,
-      };
-    } else {
-      slots.push({ itemDefName, quantity, metadata: {} });
-    }
-
-    await ctx.db.patch(inv._id, { slots });
-    await ctx.runMutation(internal.quests.recordItemProgress, {
-      profileId,
-      itemDefName,
-      quantity,
-    });
-    return inv._id;
+  handler: async (ctx, { profileId, itemDefName, quantity, metadata }) => {
+    return await addItems(ctx, profileId, itemDefName, quantity, { metadata });
   },
 });
 
@@ -72,22 +212,8 @@ export const removeItem = mutation({
     quantity: v.number(),
   },
   handler: async (ctx, { profileId, itemDefName, quantity }) => {
-    const inv = await ctx.db
-      .query("inventories")
-      .withIndex("by_profile", (q) => q.eq("profileId", profileId))
-      .first();
-
-    if (!inv) throw new Error("No inventory");
-
-    const slots = [...(inv.slots as any[])];
-    const idx = slots.findIndex((s: any) => s.itemDefName === itemDefName);
-    if (idx < 0) throw new Error("Item not found");
-
-    slots[idx].quantity -= quantity;
-    if (slots[idx].quantity <= 0) {
-      slots.splice(idx, 1);
-    }
-
-    await ctx.db.patch(inv._id, { slots });
+    const profile = await resolveOwnedProfile(ctx, profileId);
+    if (isInteractionFailure(profile)) return profile;
+    return await removeItems(ctx, profileId, itemDefName, quantity);
   },
 });
@@ -0,0 +1,114 @@
+import { v } from "convex/values";
+import { mutation, query } from "../_generated/server";
+import type { MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { checkInRange, isInteractionFailure, resolvePlayerPosition } from "../lib/interaction";
+import type { InteractionFailure } from "../lib/interaction";
+import type { InventoryItem } from "../lib/inventory";
+import {
+  checkLock,
+  findUnlock,
+  hasRequirements,
+  lockedMessage,
+  missingRequirements,
+  nearestPortalPoint,
+  objectLockId,
+  portalLockId,
+} from "../lib/locks";
+import type { LockRequirements } from "../lib/locks";
+import { findMapByName } from "../lib/renameMap";
+import { removeItems } from "./inventory";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Go through a lock: refuse unless the player meets its requirements, and
+ * when its key is used up take one and remember that this player opened
+ * it. `items` is the player's inventory when a key was taken.
+ */
+export async function passLock(
+  ctx: MutationCtx,
+  profile: Doc<"profiles">,
+  req: LockRequirements | undefined,
+  lock: string,
+): Promise<InteractionFailure | { success: true; items?: InventoryItem[] }> {
+  const locked = await checkLock(ctx, profile, req, lock);
+  if (locked) return locked;
+  if (!req?.requiredItem || !req.consumeItem || (await findUnlock(ctx, profile._id, lock))) {
+    return { success: true };
+  }
+  const taken = await removeItems(ctx, profile._id, req.requiredItem, 1);
+  if (!taken.success) return { success: false, code: "locked", reason: taken.reason };
+  await ctx.db.insert("unlockedLocks", { profileId: profile._id, lock, unlockedAt: Date.now() });
+  return { success: true, items: taken.items };
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Doors and portals on a map that are still locked for a player (for
+ * guests, every lock), with the "Locked — requires …" message to show.
+ */
+export const lockStatus = query({
+  args: {
+    profileId: v.optional(v.id("profiles")),
+    mapName: v.string(),
+  },
+  handler: async (ctx, { profileId, mapName }) => {
+    const profile = profileId ? await ctx.db.get(profileId) : null;
+    const map = await findMapByName(ctx, mapName);
+
+    const objects: { id: Id<"mapObjects">; reason: string }[] = [];
+    const placed = await ctx.db
+      .query("mapObjects")
+      .withIndex("by_map", (q) => q.eq("mapName", map?.name ?? mapName))
+      .collect();
+    for (const obj of placed) {
+      if (!hasRequirements(obj.requirements)) continue;
+      const missing = await missingRequirements(ctx, profile, obj.requirements, objectLockId(obj._id));
+      if (missing.length > 0) objects.push({ id: obj._id, reason: lockedMessage(missing) });
+    }
+
+    const portals: { name: string; reason: string }[] = [];
+    for (const portal of map?.portals ?? []) {
+      if (!hasRequirements(portal.requirements)) continue;
+      const missing = await missingRequirements(ctx, profile, portal.requirements, portalLockId(map!._id, portal.name));
+      if (missing.length > 0) portals.push({ name: portal.name, reason: lockedMessage(missing) });
+    }
+    return { objects, portals };
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Mutations
+// ---------------------------------------------------------------------------
+
+/**
+ * Go through a locked portal on the player's map (using up its key if it
+ * takes one). The client changes map once this succeeds; arriving on the
+ * other side is checked again by movement validation.
+ */
+export const usePortal = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    portalName: v.string(),
+  },
+  handler: async (ctx, { profileId, portalName }) => {
+    const player = await resolvePlayerPosition(ctx, profileId);
+    if (isInteractionFailure(player)) return player;
+    const map = await findMapByName(ctx, player.mapName);
+    const portal = map?.portals?.find((p) => p.name === portalName);
+    if (!map || !portal) return { success: false as const, reason: "There's no way through here" };
+
+    // Reach is measured to the nearest point of the portal's zone
+    const nearest = { mapName: player.mapName, ...nearestPortalPoint(map, portal, player.x, player.y) };
+    const tooFar = checkInRange(player, nearest, Math.max(map.tileWidth, map.tileHeight), "portal");
+    if (tooFar) return tooFar;
+
+    return await passLock(ctx, player.profile, portal.requirements, portalLockId(map._id, portal.name));
+  },
+});
@@ -1,97 +1,162 @@
-import { v } from "convex/values";
-import { mutation } from "../_generated/server";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { MAX_LOOT_QUANTITY, asLootTable, rollLoot } from "../lib/loot";
+import type { LootDrop, LootTable } from "../lib/loot";
+import { creditWallet } from "./economy";
+import { addItems } from "./inventory";
 
-// Loot table resolution is server-authoritative
-// Loot tables are defined as part of combatEncounters.rewards
+// Loot table resolution is server-authoritative. Tables (lib/loot) live on
+// npcProfiles (dropped on a kill) and on combatEncounters.rewards.
 
-export interface LootTableEntry {
-  itemDefName: string;
-  weight: number; // relative probability
-  minQuantity: number;
-  maxQuantity: number;
+export interface EncounterRewards {
+  items?: { name: string; quantity: number }[];
+  xp?: number;
+  currency?: Record<string, number>;
+  lootTable?: Doc<"combatEncounters">["rewards"]["lootTable"];
 }
 
-export const resolveLoot = mutation({
-  args: {
-    encounterId: v.id("combatEncounters"),
-    profileId: v.id("profiles"),
-  },
-  handler: async (ctx, { encounterId, profileId }) => {
-    const encounter = await ctx.db.get(encounterId);
-    if (!encounter) throw new Error("Encounter not found");
+export interface GrantedRewards {
+  xp: number;
+  items: { name: string; quantity: number }[];
+  currency: Record<string, number>;
+}
 
-    const rewards = encounter.rewards as any;
-    if (!rewards?.lootTable) return [];
+/** Where a kill's drop ended up */
+export interface DroppedLoot {
+  itemDefName: string;
+  quantity: number;
+  to: "world" | "killer";
+}
 
-    const lootTable = rewards.lootTable as LootTableEntry[];
-    const totalWeight = lootTable.reduce(
-      (sum: number, entry: LootTableEntry) => sum + entry.weight,
-      0
-    );
+/** Loot lands within this many px of the body so drops don't stack up */
+const DROP_SCATTER_PX = 12;
 
-    const drops: { itemDefName: string; quantity: number }[] = [];
+/** Roll a table, weighting entries without their own weight by item rarity */
+export async function rollTable(ctx: QueryCtx, table: LootTable): Promise<LootDrop[]> {
+  const rarities = new Map<string, string>();
+  for (const entry of table.entries) {
+    if (entry.weight != null || rarities.has(entry.itemDefName)) continue;
+    const def = await ctx.db
+      .query("itemDefs")
+      .withIndex("by_name", (q) => q.eq("name", entry.itemDefName))
+      .first();
+    if (def) rarities.set(def.name, def.rarity);
+  }
+  return rollLoot(table, (name) => rarities.get(name));
+}
 
-    for (const entry of lootTable) {
-      const roll = Math.random() * totalWeight;
-      if (roll < entry.weight) {
-        const quantity =
-          entry.minQuantity +
-          Math.floor(Math.random() * (entry.maxQuantity - entry.minQuantity + 1));
-        drops.push({ itemDefName: entry.itemDefName, quantity });
-      }
+/**
+ * Throw unless every entry of a table being saved names an existing item
+ * and drops between 0 and MAX_LOOT_QUANTITY of it.
+ */
+export async function checkLootTable(ctx: QueryCtx, table: LootTable): Promise<void> {
+  for (const entry of table.entries) {
+    const def = await ctx.db
+      .query("itemDefs")
+      .withIndex("by_name", (q) => q.eq("name", entry.itemDefName))
+      .first();
+    if (!def) throw new Error(`Unknown item "${entry.itemDefName}" in loot table`);
+    const { minQuantity: min, maxQuantity: max } = entry;
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min < 0 || max < min || max > MAX_LOOT_QUANTITY) {
+      throw new Error(`Loot quantities for "${entry.itemDefName}" must be between 0 and ${MAX_LOOT_QUANTITY}`);
     }
+  }
+}
 
-    // Add drops to player inventory
-    for (const drop of drops) {
-      let inv = await ctx.db
-        .query("inventories")
-        .withIndex("by_profile", (q) => q.eq("profileId", profileId))
-        .first();
-
-      if (!inv) {
-        await ctx.db.insert("inventories", {
-          profileId,
-          slots: [{ itemDefName: drop.itemDefName, quantity: drop.quantity, metadata: {} }],
-        });
-      } else {
-        const slots = [...(inv.slots as any[])];
-        const existing = slots.findIndex(
-          (s: any) => s.itemDefName === drop.itemDefName
-        );
-        if (existing >= 0) {
-          slots[existing].quantity += drop.quantity;
-        } else {
-          slots.push({
-            itemDefName: drop.itemDefName,
-            quantity: drop.quantity,
-            metadata: {},
-          });
-        }
-        await ctx.db.patch(inv._id, { slots });
+/**
+ * Roll a defeated NPC's table and hand out the drops: into the killer's
+ * inventory when the table says so (whatever doesn't fit falls to the
+ * ground), otherwise as world items around (x, y). Unknown item defs are
+ * skipped.
+ */
+export async function dropLoot(
+  ctx: MutationCtx,
+  args: {
+    table: LootTable;
+    killerId: Id<"profiles">;
+    mapName: string;
+    x: number;
+    y: number;
+    now: number;
+  },
+): Promise<DroppedLoot[]> {
+  const { table, killerId, mapName, x, y, now } = args;
+  const dropped: DroppedLoot[] = [];
+  for (const drop of await rollTable(ctx, table)) {
+    const def = await ctx.db
+      .query("itemDefs")
+      .withIndex("by_name", (q) => q.eq("name", drop.itemDefName))
+      .first();
+    if (!def) continue;
+    let left = drop.quantity;
+    if (table.dropTo === "killer") {
+      const added = await addItems(ctx, killerId, def.name, left, { partial: true });
+      if (added.success && added.added > 0) {
+        dropped.push({ itemDefName: def.name, quantity: added.added, to: "killer" });
+        left -= added.added;
       }
     }
+    if (left <= 0) continue;
+    await ctx.db.insert("worldItems", {
+      mapName,
+      itemDefName: def.name,
+      x: x + (Math.random() * 2 - 1) * DROP_SCATTER_PX,
+      y: y + (Math.random() * 2 - 1) * DROP_SCATTER_PX,
+      quantity: left,
+      respawn: false,
+      updatedAt: now,
+    });
+    dropped.push({ itemDefName: def.name, quantity: left, to: "world" });
+  }
+  return dropped;
+}
 
-    // Add currency rewards
-    if (rewards.currency) {
-      for (const [currency, amount] of Object.entries(rewards.currency)) {
-        let wallet = await ctx.db
-          .query("wallets")
-          .withIndex("by_profile", (q) => q.eq("profileId", profileId))
-          .first();
+/** Add currency amounts to a profile's wallet, creating it if needed. */
+export async function addCurrency(
+  ctx: MutationCtx,
+  profileId: Id<"profiles">,
+  amounts: Record<string, number>,
+) {
+  for (const [currency, amount] of Object.entries(amounts)) {
+    await creditWallet(ctx, profileId, currency, amount);
+  }
+}
 
-        if (!wallet) {
-          await ctx.db.insert("wallets", {
-            profileId,
-            currencies: { [currency]: amount as number },
-          });
-        } else {
-          const currencies = { ...(wallet.currencies as Record<string, number>) };
-          currencies[currency] = (currencies[currency] ?? 0) + (amount as number);
-          await ctx.db.patch(wallet._id, { currencies });
-        }
-      }
-    }
+/**
+ * Hand out encounter rewards: XP, the fixed items plus a loot-table roll
+ * (into the player's inventory as far as it has room, skipping unknown item
+ * defs) and currency. `items` lists what was actually received.
+ */
+export async function grantRewards(
+  ctx: MutationCtx,
+  profileId: Id<"profiles">,
+  rewards: EncounterRewards,
+): Promise<GrantedRewards> {
+  const profile = await ctx.db.get(profileId);
+  if (!profile) throw new Error("Profile not found");
 
-    return drops;
-  },
-});
+  const won = new Map<string, number>();
+  for (const item of rewards.items ?? []) {
+    if (item.quantity > 0) won.set(item.name, (won.get(item.name) ?? 0) + item.quantity);
+  }
+  const table = asLootTable(rewards.lootTable);
+  for (const drop of table ? await rollTable(ctx, table) : []) {
+    if (drop.quantity > 0) won.set(drop.itemDefName, (won.get(drop.itemDefName) ?? 0) + drop.quantity);
+  }
+
+  const granted: GrantedRewards = { xp: Math.max(0, Math.round(rewards.xp ?? 0)), items: [], currency: {} };
+  await ctx.db.patch(profileId, {
+    stats: { ...profile.stats, xp: (profile.stats.xp ?? 0) + granted.xp },
+  });
+  for (const [name, quantity] of won) {
+    const added = await addItems(ctx, profileId, name, quantity, { partial: true });
+    if (added.success && added.added > 0) granted.items.push({ name, quantity: added.added });
+  }
+
+  for (const [currency, amount] of Object.entries(rewards.currency ?? {})) {
+    if (amount > 0) granted.currency[currency] = amount;
+  }
+  await addCurrency(ctx, profileId, granted.currency);
+
+  return granted;
+}
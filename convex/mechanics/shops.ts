@@ -0,0 +1,230 @@
+import { v } from "convex/values";
+import { mutation, query } from "../_generated/server";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc } from "../_generated/dataModel";
+import {
+  NPC_TALK_RANGE_PX,
+  checkInRange,
+  isInteractionFailure,
+  resolvePlayerPosition,
+} from "../lib/interaction";
+import type { PlayerPosition } from "../lib/interaction";
+import {
+  afterPurchase,
+  clampQuantity,
+  currentStock,
+  isShopkeeper,
+  listingPrice,
+  sellPriceOf,
+  shopCurrency,
+} from "../lib/shops";
+import { creditWallet, debitWallet, walletBalances } from "./economy";
+import { addItems, inventoryItemsOf, removeItems } from "./inventory";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function getItemDef(ctx: QueryCtx, name: string) {
+  return await ctx.db
+    .query("itemDefs")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .first();
+}
+
+async function getShopkeeper(ctx: QueryCtx, npcProfileName: string) {
+  const profile = await ctx.db
+    .query("npcProfiles")
+    .withIndex("by_name", (q) => q.eq("name", npcProfileName))
+    .first();
+  return isShopkeeper(profile) ? profile : null;
+}
+
+async function getShopRow(ctx: QueryCtx, npcProfileName: string) {
+  return await ctx.db
+    .query("shops")
+    .withIndex("by_npcProfile", (q) => q.eq("npcProfileName", npcProfileName))
+    .first();
+}
+
+/** Refuse unless the player is standing next to the shopkeeper */
+async function checkNearShopkeeper(ctx: MutationCtx, player: PlayerPosition, shopkeeper: Doc<"npcProfiles">) {
+  const npc = (await ctx.db
+    .query("npcState")
+    .withIndex("by_map", (q) => q.eq("mapName", player.mapName))
+    .collect()).find((n) => n.instanceName === shopkeeper.name);
+  if (!npc || npc.defeatedAt) {
+    return { success: false as const, reason: `${shopkeeper.displayName} isn't here.` };
+  }
+  return checkInRange(player, npc, NPC_TALK_RANGE_PX, "shopkeeper");
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * A shopkeeper's counter as one player sees it: what's for sale (with
+ * what's left on the shelf), what of theirs the shop would buy, and their
+ * wallet. Null when the NPC doesn't run a shop.
+ */
+export const getShop = query({
+  args: {
+    profileId: v.id("profiles"),
+    npcProfileName: v.string(),
+  },
+  handler: async (ctx, { profileId, npcProfileName }) => {
+    const shopkeeper = await getShopkeeper(ctx, npcProfileName);
+    const profile = await ctx.db.get(profileId);
+    if (!shopkeeper || !profile) return null;
+    const row = await getShopRow(ctx, npcProfileName);
+    const now = Date.now();
+
+    const listings = [];
+    for (const listing of shopkeeper.shopStock ?? []) {
+      const def = await getItemDef(ctx, listing.itemDefName);
+      if (!def) continue;
+      const entry = row?.inventory.find((e) => e.itemDefName === listing.itemDefName);
+      const stock = currentStock(listing, entry, now);
+      listings.push({
+        itemDefName: def.name,
+        displayName: def.displayName,
+        description: def.description,
+        rarity: def.rarity,
+        iconUrl: def.iconUrl,
+        price: listingPrice(listing, def),
+        stock,
+        restockAt: stock != null && stock < (listing.stock ?? 0) ? entry?.restockAt ?? null : null,
+      });
+    }
+
+    const sellable = [];
+    for (const item of await inventoryItemsOf(ctx, profile)) {
+      const def = await getItemDef(ctx, item.name);
+      const price = def ? sellPriceOf(def) : 0;
+      if (!def || price <= 0) continue;
+      sellable.push({ itemDefName: def.name, displayName: def.displayName, quantity: item.quantity, price });
+    }
+
+    return {
+      npcProfileName,
+      shopName: shopkeeper.displayName,
+      currency: shopCurrency(shopkeeper),
+      listings,
+      sellable,
+      wallet: await walletBalances(ctx, profileId),
+    };
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Mutations
+// ---------------------------------------------------------------------------
+
+/**
+ * Buy from a shopkeeper the player is standing next to. The items go in
+ * and the money comes out together, or nothing changes.
+ */
+export const buy = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    npcProfileName: v.string(),
+    itemDefName: v.string(),
+    quantity: v.optional(v.number()),
+  },
+  handler: async (ctx, { profileId, npcProfileName, itemDefName, quantity }) => {
+    const player = await resolvePlayerPosition(ctx, profileId);
+    if (isInteractionFailure(player)) return player;
+    const shopkeeper = await getShopkeeper(ctx, npcProfileName);
+    if (!shopkeeper) return { success: false as const, reason: "There's no shop here." };
+    const notNear = await checkNearShopkeeper(ctx, player, shopkeeper);
+    if (notNear) return notNear;
+
+    const listing = shopkeeper.shopStock?.find((l) => l.itemDefName === itemDefName);
+    const def = listing ? await getItemDef(ctx, itemDefName) : null;
+    if (!listing || !def) return { success: false as const, reason: "That's not for sale." };
+
+    const count = clampQuantity(quantity);
+    const now = Date.now();
+    const row = await getShopRow(ctx, npcProfileName);
+    const entry = row?.inventory.find((e) => e.itemDefName === itemDefName);
+    const onShelf = currentStock(listing, entry, now);
+    if (onShelf != null && onShelf < count) {
+      return {
+        success: false as const,
+        reason: onShelf === 0 ? `${def.displayName} is sold out.` : `Only ${onShelf} ${def.displayName} left.`,
+      };
+    }
+
+    const currency = shopCurrency(shopkeeper);
+    const price = listingPrice(listing, def);
+    const total = price * count;
+    const balances = await walletBalances(ctx, profileId);
+    if ((balances[currency] ?? 0) < total) {
+      return { success: false as const, reason: `You need ${total} ${currency}.` };
+    }
+
+    // addItems writes nothing when it refuses, and the funds were checked
+    // above, so either both sides happen or neither does
+    const added = await addItems(ctx, profileId, itemDefName, count);
+    if (!added.success) return added;
+    const wallet = await debitWallet(ctx, profileId, currency, total);
+    if (!wallet) throw new Error("Insufficient funds");
+
+    const nextEntry = afterPurchase(listing, entry, price, count, now);
+    const inventory = [...(row?.inventory ?? []).filter((e) => e.itemDefName !== itemDefName), nextEntry];
+    if (row) await ctx.db.patch(row._id, { inventory });
+    else await ctx.db.insert("shops", { npcProfileName, inventory });
+
+    return {
+      success: true as const,
+      itemDefName,
+      quantity: count,
+      spent: total,
+      currency,
+      items: added.items,
+      wallet,
+      stock: nextEntry.stock ?? null,
+    };
+  },
+});
+
+/** Sell to a shopkeeper the player is standing next to, at `SELL_RATIO` of the item's value */
+export const sell = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    npcProfileName: v.string(),
+    itemDefName: v.string(),
+    quantity: v.optional(v.number()),
+  },
+  handler: async (ctx, { profileId, npcProfileName, itemDefName, quantity }) => {
+    const player = await resolvePlayerPosition(ctx, profileId);
+    if (isInteractionFailure(player)) return player;
+    const shopkeeper = await getShopkeeper(ctx, npcProfileName);
+    if (!shopkeeper) return { success: false as const, reason: "There's no shop here." };
+    const notNear = await checkNearShopkeeper(ctx, player, shopkeeper);
+    if (notNear) return notNear;
+
+    const def = await getItemDef(ctx, itemDefName);
+    const price = def ? sellPriceOf(def) : 0;
+    if (!def || price <= 0) {
+      return { success: false as const, reason: `${shopkeeper.displayName} won't buy that.` };
+    }
+
+    const count = clampQuantity(quantity);
+    const taken = await removeItems(ctx, profileId, itemDefName, count);
+    if (!taken.success) return taken;
+    const currency = shopCurrency(shopkeeper);
+    const wallet = await creditWallet(ctx, profileId, currency, price * count);
+
+    return {
+      success: true as const,
+      itemDefName,
+      quantity: count,
+      earned: price * count,
+      currency,
+      items: taken.items,
+      wallet,
+    };
+  },
+});
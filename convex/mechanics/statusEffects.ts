@@ -0,0 +1,175 @@
+import { v } from "convex/values";
+import { internalMutation, query } from "../_generated/server";
+import type { MutationCtx } from "../_generated/server";
+import type { Id } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+import {
+  STATUS_TICK_MS,
+  applyEffect,
+  effectDurationMs,
+  hasOverTimeEffects,
+  statusEffectDef,
+  tickEffects,
+} from "../lib/statusEffects";
+import type { EffectSpec, StatusEffect } from "../lib/statusEffects";
+
+// ---------------------------------------------------------------------------
+// Applying effects (consumables, skills, NPC attacks)
+//
+// Damage / heal over time runs on a self-scheduling tick per target, started
+// when its first over-time effect lands and stopped once none are left (the
+// tick prunes them, so one in the list means a tick is already scheduled).
+// ---------------------------------------------------------------------------
+
+function applyAll(
+  effects: StatusEffect[] | undefined,
+  specs: EffectSpec[],
+  now: number,
+  source?: string,
+): StatusEffect[] {
+  let next = effects ?? [];
+  for (const spec of specs) next = applyEffect(next, spec, now, effectDurationMs(spec), STATUS_TICK_MS, source);
+  return next;
+}
+
+/** Put effects on a player; `source` is the profile id of whoever applied them */
+export async function applyToProfile(
+  ctx: MutationCtx,
+  profileId: Id<"profiles">,
+  specs: EffectSpec[],
+  source?: string,
+): Promise<StatusEffect[]> {
+  const profile = await ctx.db.get(profileId);
+  if (!profile) return [];
+  if (specs.length === 0) return profile.statusEffects ?? [];
+  const statusEffects = applyAll(profile.statusEffects, specs, Date.now(), source);
+  await ctx.db.patch(profileId, { statusEffects });
+  if (!hasOverTimeEffects(profile.statusEffects) && hasOverTimeEffects(statusEffects)) {
+    await ctx.scheduler.runAfter(STATUS_TICK_MS, internal.mechanics.statusEffects.tick, { profileId });
+  }
+  return statusEffects;
+}
+
+/** Put effects on an NPC in the world */
+export async function applyToNpc(
+  ctx: MutationCtx,
+  npcStateId: Id<"npcState">,
+  specs: EffectSpec[],
+  source?: string,
+): Promise<StatusEffect[]> {
+  const state = await ctx.db.get(npcStateId);
+  if (!state) return [];
+  if (specs.length === 0) return state.statusEffects ?? [];
+  const statusEffects = applyAll(state.statusEffects, specs, Date.now(), source);
+  await ctx.db.patch(npcStateId, { statusEffects });
+  if (!hasOverTimeEffects(state.statusEffects) && hasOverTimeEffects(statusEffects)) {
+    await ctx.scheduler.runAfter(STATUS_TICK_MS, internal.mechanics.statusEffects.tick, { npcStateId });
+  }
+  return statusEffects;
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/** A player's active effects for the HUD (icons, stacks, expiry) plus their HP */
+export const getActive = query({
+  args: { profileId: v.id("profiles") },
+  handler: async (ctx, { profileId }) => {
+    const profile = await ctx.db.get(profileId);
+    if (!profile) return null;
+    return {
+      hp: profile.stats.hp,
+      maxHp: profile.stats.maxHp,
+      effects: (profile.statusEffects ?? []).map((e) => {
+        const def = statusEffectDef(e.type);
+        return {
+          type: e.type,
+          label: def?.label ?? e.type,
+          icon: def?.icon ?? "?",
+          harmful: def?.harmful ?? false,
+          value: e.value,
+          stacks: e.stacks,
+          expiresAt: e.expiresAt,
+        };
+      }),
+    };
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Tick
+// ---------------------------------------------------------------------------
+
+/**
+ * One damage / heal-over-time tick for a player or an NPC; reschedules
+ * itself while over-time effects remain. Ticking damage never finishes a
+ * player off (they're left on 1 HP); an NPC it finishes counts as a kill
+ * for whoever applied the effect.
+ */
+export const tick = internalMutation({
+  args: {
+    profileId: v.optional(v.id("profiles")),
+    npcStateId: v.optional(v.id("npcState")),
+  },
+  handler: async (ctx, { profileId, npcStateId }) => {
+    const now = Date.now();
+
+    if (profileId) {
+      const profile = await ctx.db.get(profileId);
+      if (!profile) return;
+      const { hpDelta, remaining } = tickEffects(profile.statusEffects, now, STATUS_TICK_MS);
+      const { hp, maxHp } = profile.stats;
+      const floor = Math.min(hp, 1);
+      const nextHp = Math.max(floor, Math.min(maxHp, hp + hpDelta));
+      await ctx.db.patch(profileId, {
+        statusEffects: remaining,
+        ...(nextHp !== hp ? { stats: { ...profile.stats, hp: nextHp } } : {}),
+      });
+      if (hasOverTimeEffects(remaining)) {
+        await ctx.scheduler.runAfter(STATUS_TICK_MS, internal.mechanics.statusEffects.tick, { profileId });
+      }
+      return;
+    }
+
+    if (npcStateId) {
+      const state = await ctx.db.get(npcStateId);
+      if (!state) return;
+      // Knocked out: whatever was running wears off
+      if (state.respawnAt != null && now < state.respawnAt) {
+        await ctx.db.patch(npcStateId, { statusEffects: undefined });
+        return;
+      }
+      const { hpDelta, source, remaining } = tickEffects(state.statusEffects, now, STATUS_TICK_MS);
+      let maxHp = state.maxHp;
+      if (maxHp == null) {
+        const npc = state.instanceName
+          ? await ctx.db
+            .query("npcProfiles")
+            .withIndex("by_name", (q) => q.eq("name", state.instanceName!))
+            .first()
+          : null;
+        maxHp = Math.max(1, npc?.stats?.maxHp ?? 20);
+      }
+      const hp = state.currentHp ?? maxHp;
+      const nextHp = Math.max(0, Math.min(maxHp, hp + hpDelta));
+      if (nextHp <= 0) {
+        await ctx.db.patch(npcStateId, { statusEffects: undefined });
+        await ctx.runMutation(internal.mechanics.combat.defeatByStatusEffect, {
+          npcStateId,
+          maxHp,
+          killerProfileId: source ? ctx.db.normalizeId("profiles", source) ?? undefined : undefined,
+        });
+        return;
+      }
+      await ctx.db.patch(npcStateId, {
+        statusEffects: remaining,
+        ...(nextHp !== hp ? { currentHp: nextHp, maxHp } : {}),
+      });
+      if (hasOverTimeEffects(remaining)) {
+        await ctx.scheduler.runAfter(STATUS_TICK_MS, internal.mechanics.statusEffects.tick, { npcStateId });
+      }
+    }
+  },
+});
+
@@ -0,0 +1,431 @@
+import { v } from "convex/values";
+import { mutation, query } from "../_generated/server";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+  checkInRange,
+  findPlayerPosition,
+  isInteractionFailure,
+  resolveOwnedProfile,
+  resolvePlayerPosition,
+} from "../lib/interaction";
+import { countItem, placeItems, takeItems } from "../lib/inventory";
+import {
+  EMPTY_OFFER,
+  MAX_TRADE_ITEMS,
+  TRADE_RANGE_PX,
+  isEmptyOffer,
+  isLapsed,
+  normalizeOffer,
+  offerOf,
+  otherSide,
+  sideOf,
+} from "../lib/trades";
+import type { TradeOffer, TradeSide } from "../lib/trades";
+import { creditWallet, debitWallet, walletBalances } from "./economy";
+import { addItems, inventoryItemsOf, readInventory, removeItems } from "./inventory";
+
+// ---------------------------------------------------------------------------
+// Player-to-player trading
+//
+// One player asks (`request`), the other accepts (`respond`), then both
+// put items and currency on the table (`setOffer`) and `confirm`. The
+// second confirmation swaps everything in that same mutation, through
+// the inventory and `wallets`, and writes a `tradeLog` row.
+// ---------------------------------------------------------------------------
+
+const offerValidator = v.object({
+  items: v.array(v.object({ itemDefName: v.string(), quantity: v.number() })),
+  currency: v.record(v.string(), v.number()),
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function getItemDef(ctx: QueryCtx, name: string) {
+  return await ctx.db
+    .query("itemDefs")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .first();
+}
+
+async function tradesOf(ctx: QueryCtx, profileId: Id<"profiles">, status: "pending" | "open") {
+  const asInitiator = await ctx.db
+    .query("trades")
+    .withIndex("by_initiator_status", (q) => q.eq("initiatorId", profileId).eq("status", status))
+    .collect();
+  const asPartner = await ctx.db
+    .query("trades")
+    .withIndex("by_partner_status", (q) => q.eq("partnerId", profileId).eq("status", status))
+    .collect();
+  return [...asInitiator, ...asPartner];
+}
+
+/** The trade a player is part of right now (asking, asked or at the table), if any */
+async function findActiveTrade(ctx: QueryCtx, profileId: Id<"profiles">): Promise<Doc<"trades"> | null> {
+  const now = Date.now();
+  const open = await tradesOf(ctx, profileId, "open");
+  if (open.length > 0) return open[0];
+  return (await tradesOf(ctx, profileId, "pending")).find((t) => !isLapsed(t, now)) ?? null;
+}
+
+/** Close requests that were never answered */
+async function closeLapsed(ctx: MutationCtx, profileId: Id<"profiles">) {
+  const now = Date.now();
+  for (const trade of await tradesOf(ctx, profileId, "pending")) {
+    if (isLapsed(trade, now)) {
+      await ctx.db.patch(trade._id, { status: "cancelled", cancelReason: "No answer.", updatedAt: now });
+    }
+  }
+}
+
+/** An open trade and the caller's side of it; null when they're not in it or it's over */
+async function loadOpenTrade(ctx: QueryCtx, profileId: Id<"profiles">, tradeId: Id<"trades">) {
+  const trade = await ctx.db.get(tradeId);
+  const side = trade ? sideOf(trade, profileId) : null;
+  if (!trade || !side || trade.status !== "open") return null;
+  return { trade, side };
+}
+
+/** Refuse unless both players are in the world, on one map and close together */
+async function checkTogether(ctx: MutationCtx, profileId: Id<"profiles">, trade: Doc<"trades">) {
+  const player = await resolvePlayerPosition(ctx, profileId);
+  if (isInteractionFailure(player)) return player;
+  const other = await ctx.db.get(profileId === trade.initiatorId ? trade.partnerId : trade.initiatorId);
+  const there = other ? await findPlayerPosition(ctx, other) : null;
+  if (!there) {
+    return { success: false as const, reason: `${other?.name ?? "Your trade partner"} isn't in the world right now.` };
+  }
+  return checkInRange(player, there, TRADE_RANGE_PX, "trade partner");
+}
+
+/** Why a player can't put up this offer (null when they hold all of it) */
+async function offerShortfall(ctx: QueryCtx, profile: Doc<"profiles">, offer: TradeOffer): Promise<string | null> {
+  const { slots } = await readInventory(ctx, profile);
+  for (const item of offer.items) {
+    const def = await getItemDef(ctx, item.itemDefName);
+    if (!def) return `Unknown item "${item.itemDefName}".`;
+    if (def.type === "quest") return `${def.displayName} can't be traded.`;
+    const held = countItem(slots, item.itemDefName);
+    if (held < item.quantity) return `Not enough ${def.displayName} (${held}/${item.quantity}).`;
+  }
+  const wallet = await walletBalances(ctx, profile._id);
+  for (const [currency, amount] of Object.entries(offer.currency)) {
+    if ((wallet[currency] ?? 0) < amount) return `Not enough ${currency} (${wallet[currency] ?? 0}/${amount}).`;
+  }
+  return null;
+}
+
+/** Whether what a player receives fits once what they give is gone (nothing is written) */
+async function fitsAfterSwap(
+  ctx: QueryCtx,
+  profile: Doc<"profiles">,
+  giving: TradeOffer,
+  receiving: TradeOffer,
+): Promise<boolean> {
+  const inventory = await readInventory(ctx, profile);
+  let slots = inventory.slots;
+  for (const item of giving.items) slots = takeItems(slots, item.itemDefName, item.quantity) ?? slots;
+  for (const item of receiving.items) {
+    const def = await getItemDef(ctx, item.itemDefName);
+    if (!def) return false;
+    const placed = placeItems(slots, inventory.capacity, def, item.quantity);
+    if (placed.added < item.quantity) return false;
+    slots = placed.slots;
+  }
+  return true;
+}
+
+function confirmedBy(trade: Doc<"trades">, side: TradeSide): boolean {
+  return side === "initiator" ? trade.initiatorConfirmed : trade.partnerConfirmed;
+}
+
+/** Clear both confirmations and refuse: the terms on the table can't go through as they are */
+async function reopen(ctx: MutationCtx, trade: Doc<"trades">, reason: string) {
+  await ctx.db.patch(trade._id, { initiatorConfirmed: false, partnerConfirmed: false, updatedAt: Date.now() });
+  return { success: false as const, reason };
+}
+
+/**
+ * Swap both offers. Everything is checked before anything moves, so a
+ * refusal changes nothing but the confirmations; a write failing after
+ * that throws, which undoes the whole mutation.
+ */
+async function completeTrade(ctx: MutationCtx, trade: Doc<"trades">) {
+  const initiator = await ctx.db.get(trade.initiatorId);
+  const partner = await ctx.db.get(trade.partnerId);
+  if (!initiator || !partner) return { success: false as const, reason: "Your trade partner is gone." };
+  const parties = [
+    { profile: initiator, gives: trade.initiatorOffer, gets: trade.partnerOffer },
+    { profile: partner, gives: trade.partnerOffer, gets: trade.initiatorOffer },
+  ];
+
+  for (const { profile, gives, gets } of parties) {
+    const shortfall = await offerShortfall(ctx, profile, gives);
+    if (shortfall) return await reopen(ctx, trade, `${profile.name} no longer has what they offered. ${shortfall}`);
+    if (!(await fitsAfterSwap(ctx, profile, gives, gets))) {
+      return await reopen(ctx, trade, `${profile.name} doesn't have room for everything.`);
+    }
+  }
+
+  for (const { profile, gives } of parties) {
+    for (const item of gives.items) {
+      const taken = await removeItems(ctx, profile._id, item.itemDefName, item.quantity);
+      if (!taken.success) throw new Error(taken.reason);
+    }
+    for (const [currency, amount] of Object.entries(gives.currency)) {
+      if (!(await debitWallet(ctx, profile._id, currency, amount))) throw new Error("Insufficient funds");
+    }
+  }
+  for (const { profile, gets } of parties) {
+    for (const item of gets.items) {
+      const added = await addItems(ctx, profile._id, item.itemDefName, item.quantity);
+      if (!added.success) throw new Error(added.reason);
+    }
+    for (const [currency, amount] of Object.entries(gets.currency)) {
+      await creditWallet(ctx, profile._id, currency, amount);
+    }
+  }
+
+  const now = Date.now();
+  await ctx.db.patch(trade._id, {
+    status: "completed",
+    initiatorConfirmed: true,
+    partnerConfirmed: true,
+    updatedAt: now,
+  });
+  await ctx.db.insert("tradeLog", {
+    tradeId: trade._id,
+    initiatorId: initiator._id,
+    partnerId: partner._id,
+    initiatorName: initiator.name,
+    partnerName: partner.name,
+    mapName: trade.mapName,
+    initiatorGave: trade.initiatorOffer,
+    partnerGave: trade.partnerOffer,
+    completedAt: now,
+  });
+  return { success: true as const, completed: true };
+}
+
+async function describeOffer(ctx: QueryCtx, offer: TradeOffer, confirmed: boolean) {
+  const items = [];
+  for (const item of offer.items) {
+    const def = await getItemDef(ctx, item.itemDefName);
+    items.push({ itemDefName: item.itemDefName, name: def?.displayName ?? item.itemDefName, quantity: item.quantity });
+  }
+  return { items, currency: offer.currency, confirmed };
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * The trade a player is in, from their side: both offers, who has
+ * confirmed, and what they have to offer. Null when they aren't trading.
+ */
+export const getActive = query({
+  args: { profileId: v.id("profiles") },
+  handler: async (ctx, { profileId }) => {
+    const profile = await ctx.db.get(profileId);
+    const trade = profile ? await findActiveTrade(ctx, profileId) : null;
+    if (!profile || !trade) return null;
+    const side = sideOf(trade, profileId)!;
+    const partner = await ctx.db.get(side === "initiator" ? trade.partnerId : trade.initiatorId);
+
+    const inventory = [];
+    for (const item of await inventoryItemsOf(ctx, profile)) {
+      const def = await getItemDef(ctx, item.name);
+      if (!def || def.type === "quest") continue;
+      inventory.push({ itemDefName: item.name, name: def.displayName, quantity: item.quantity });
+    }
+
+    return {
+      tradeId: trade._id,
+      status: trade.status,
+      isInitiator: side === "initiator",
+      partnerName: partner?.name ?? "Someone",
+      mine: await describeOffer(ctx, offerOf(trade, side), confirmedBy(trade, side)),
+      theirs: await describeOffer(ctx, offerOf(trade, otherSide(side)), confirmedBy(trade, otherSide(side))),
+      inventory,
+      wallet: await walletBalances(ctx, profileId),
+    };
+  },
+});
+
+/** How a trade the player was in ended (or null while it's still going) */
+export const getOutcome = query({
+  args: {
+    profileId: v.id("profiles"),
+    tradeId: v.id("trades"),
+  },
+  handler: async (ctx, { profileId, tradeId }) => {
+    const trade = await ctx.db.get(tradeId);
+    if (!trade || !sideOf(trade, profileId)) return null;
+    if (trade.status !== "completed" && trade.status !== "cancelled" && !isLapsed(trade, Date.now())) return null;
+    return {
+      status: trade.status === "completed" ? ("completed" as const) : ("cancelled" as const),
+      reason: trade.cancelReason ?? (trade.status === "completed" ? null : "No answer."),
+    };
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Mutations
+// ---------------------------------------------------------------------------
+
+/** Ask a nearby player to trade */
+export const request = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    partnerId: v.id("profiles"),
+  },
+  handler: async (ctx, { profileId, partnerId }) => {
+    if (profileId === partnerId) return { success: false as const, reason: "You can't trade with yourself." };
+    const player = await resolvePlayerPosition(ctx, profileId);
+    if (isInteractionFailure(player)) return player;
+    const partner = await ctx.db.get(partnerId);
+    const there = partner ? await findPlayerPosition(ctx, partner) : null;
+    if (!partner || !there) return { success: false as const, reason: "They're not in the world right now." };
+    const notNear = checkInRange(player, there, TRADE_RANGE_PX, "other player");
+    if (notNear) return notNear;
+
+    await closeLapsed(ctx, profileId);
+    await closeLapsed(ctx, partnerId);
+    if (await findActiveTrade(ctx, profileId)) return { success: false as const, reason: "You're already trading." };
+    if (await findActiveTrade(ctx, partnerId)) {
+      return { success: false as const, reason: `${partner.name} is busy trading.` };
+    }
+
+    const now = Date.now();
+    const tradeId = await ctx.db.insert("trades", {
+      initiatorId: profileId,
+      partnerId,
+      mapName: player.mapName,
+      status: "pending",
+      initiatorOffer: EMPTY_OFFER,
+      partnerOffer: EMPTY_OFFER,
+      initiatorConfirmed: false,
+      partnerConfirmed: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return { success: true as const, tradeId };
+  },
+});
+
+/** Accept or decline a trade request */
+export const respond = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    tradeId: v.id("trades"),
+    accept: v.boolean(),
+  },
+  handler: async (ctx, { profileId, tradeId, accept }) => {
+    const profile = await resolveOwnedProfile(ctx, profileId);
+    if (isInteractionFailure(profile)) return profile;
+    const trade = await ctx.db.get(tradeId);
+    if (!trade || trade.partnerId !== profileId || trade.status !== "pending" || isLapsed(trade, Date.now())) {
+      return { success: false as const, reason: "That trade request has lapsed." };
+    }
+
+    if (!accept) {
+      await ctx.db.patch(tradeId, {
+        status: "cancelled",
+        cancelReason: `${profile.name} declined.`,
+        updatedAt: Date.now(),
+      });
+      return { success: true as const, status: "cancelled" as const };
+    }
+    const apart = await checkTogether(ctx, profileId, trade);
+    if (apart) return apart;
+    await ctx.db.patch(tradeId, { status: "open", updatedAt: Date.now() });
+    return { success: true as const, status: "open" as const };
+  },
+});
+
+/**
+ * Replace what the player puts on the table. Any change clears both
+ * confirmations.
+ */
+export const setOffer = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    tradeId: v.id("trades"),
+    offer: offerValidator,
+  },
+  handler: async (ctx, args) => {
+    const profile = await resolveOwnedProfile(ctx, args.profileId);
+    if (isInteractionFailure(profile)) return profile;
+    const open = await loadOpenTrade(ctx, args.profileId, args.tradeId);
+    if (!open) return { success: false as const, reason: "That trade is no longer open." };
+
+    const offer = normalizeOffer(args.offer);
+    if (offer.items.length > MAX_TRADE_ITEMS) {
+      return { success: false as const, reason: `You can offer at most ${MAX_TRADE_ITEMS} different items.` };
+    }
+    const shortfall = await offerShortfall(ctx, profile, offer);
+    if (shortfall) return { success: false as const, reason: shortfall };
+
+    await ctx.db.patch(open.trade._id, {
+      ...(open.side === "initiator" ? { initiatorOffer: offer } : { partnerOffer: offer }),
+      initiatorConfirmed: false,
+      partnerConfirmed: false,
+      updatedAt: Date.now(),
+    });
+    return { success: true as const };
+  },
+});
+
+/** Agree to the offers as they stand; the second confirmation completes the trade */
+export const confirm = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    tradeId: v.id("trades"),
+  },
+  handler: async (ctx, { profileId, tradeId }) => {
+    const profile = await resolveOwnedProfile(ctx, profileId);
+    if (isInteractionFailure(profile)) return profile;
+    const open = await loadOpenTrade(ctx, profileId, tradeId);
+    if (!open) return { success: false as const, reason: "That trade is no longer open." };
+    const { trade, side } = open;
+    if (isEmptyOffer(trade.initiatorOffer) && isEmptyOffer(trade.partnerOffer)) {
+      return { success: false as const, reason: "Nothing has been offered yet." };
+    }
+
+    if (!confirmedBy(trade, otherSide(side))) {
+      await ctx.db.patch(tradeId, {
+        ...(side === "initiator" ? { initiatorConfirmed: true } : { partnerConfirmed: true }),
+        updatedAt: Date.now(),
+      });
+      return { success: true as const, completed: false };
+    }
+    const apart = await checkTogether(ctx, profileId, trade);
+    if (apart) return apart;
+    return await completeTrade(ctx, trade);
+  },
+});
+
+/** Walk away from a trade (either side, before it completes) */
+export const cancel = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    tradeId: v.id("trades"),
+  },
+  handler: async (ctx, { profileId, tradeId }) => {
+    const profile = await resolveOwnedProfile(ctx, profileId);
+    if (isInteractionFailure(profile)) return profile;
+    const trade = await ctx.db.get(tradeId);
+    if (!trade || !sideOf(trade, profileId) || (trade.status !== "pending" && trade.status !== "open")) {
+      return { success: false as const, reason: "That trade is already over." };
+    }
+    await ctx.db.patch(tradeId, {
+      status: "cancelled",
+      cancelReason: `${profile.name} cancelled the trade.`,
+      updatedAt: Date.now(),
+    });
+    return { success: true as const };
+  },
+});
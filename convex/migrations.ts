@@ -5,10 +5,15 @@
  *   npx convex run migrations:backfillField '{"adminKey":"<ADMIN_API_KEY>","table":"profiles","field":"schemaVersion","defaultValue":1}'
  *   npx convex run migrations:removeField '{"adminKey":"<ADMIN_API_KEY>","table":"profiles","field":"legacyField"}'
  *   npx convex run migrations:listMissing '{"adminKey":"<ADMIN_API_KEY>","table":"maps","field":"schemaVersion"}'
+ *   npx convex run migrations:migrateInventories '{"adminKey":"<ADMIN_API_KEY>"}'
+ *   npx convex run migrations:backfillUniqueHolders '{"adminKey":"<ADMIN_API_KEY>"}'
  */
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import { requireAdminKey } from "./lib/requireAdminKey";
+import { ensureChunked } from "./lib/mapChunks";
+import { renameMapCascade } from "./lib/renameMap";
+import { claimUniqueItem, ensureInventory, readInventory } from "./mechanics/inventory";
 
 // ---------------------------------------------------------------------------
 // Generic backfill: set a default value for records missing a field
@@ -116,7 +121,25 @@ export const auditMapSizes = query({
   handler: async (ctx, { adminKey }) => {
     requireAdminKey(adminKey);
     const maps = await ctx.db.query("maps").collect();
+    const chunkCounts = new Map<string, number>();
+    for (const c of await ctx.db.query("mapChunks").collect()) {
+      chunkCounts.set(String(c.mapId), (chunkCounts.get(String(c.mapId)) ?? 0) + 1);
+    }
     const results = maps.map((m) => {
+      // Chunked maps keep only metadata in the map doc
+      if (m.chunkSize) {
+        return {
+          name: m.name,
+          width: m.width,
+          height: m.height,
+          layers: m.layers.length,
+          layerKB: 0,
+          collisionKB: 0,
+          totalKB: 0,
+          chunks: chunkCounts.get(String(m._id)) ?? 0,
+          warning: "CHUNKED",
+        };
+      }
       // Rough size estimate: JSON-stringify the layers + collisionMask
       let layerBytes = 0;
       for (const layer of m.layers) {
@@ -376,3 +399,193 @@ export const backfillNpcAiDefaults = mutation({
     return { total: all.length, patched };
   },
 });
+
+// ---------------------------------------------------------------------------
+// Chunked map storage: move inline tiles/collision into mapChunks
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert legacy maps (inline `layers[].tiles` / `collisionMask`) to chunked
+ * storage. Processes up to `limit` maps per call to stay within mutation
+ * limits — rerun until `remaining` is 0.
+ */
+export const chunkMapStorage = mutation({
+  args: { adminKey: v.string(), limit: v.optional(v.number()) },
+  handler: async (ctx, { adminKey, limit }) => {
+    requireAdminKey(adminKey);
+
+    const legacy = (await ctx.db.query("maps").collect()).filter((m) => !m.chunkSize);
+    const batch = legacy.slice(0, Math.max(1, limit ?? 5));
+    for (const map of batch) {
+      await ensureChunked(ctx, map);
+    }
+    return {
+      converted: batch.map((m) => m.name),
+      remaining: legacy.length - batch.length,
+    };
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Inventories: move legacy profiles.items into the inventories table
+// ---------------------------------------------------------------------------
+
+/**
+ * Move each profile's legacy `items` list into its `inventories` row (the
+ * same conversion a profile gets on its first inventory write). Processes
+ * up to `limit` profiles per call — rerun until `remaining` is 0.
+ */
+export const migrateInventories = mutation({
+  args: { adminKey: v.string(), limit: v.optional(v.number()) },
+  handler: async (ctx, { adminKey, limit }) => {
+    requireAdminKey(adminKey);
+
+    const legacy = (await ctx.db.query("profiles").collect()).filter((p) => p.items !== undefined);
+    const batch = legacy.slice(0, Math.max(1, limit ?? 50));
+    for (const profile of batch) {
+      await ensureInventory(ctx, profile);
+    }
+    return {
+      migrated: batch.map((p) => p.name),
+      remaining: legacy.length - batch.length,
+    };
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Record who holds each one-of-a-kind item (uniqueHolders) for items handed
+// out before claims were kept; addItems only checks the claims
+// ---------------------------------------------------------------------------
+
+export const backfillUniqueHolders = mutation({
+  args: { adminKey: v.string() },
+  handler: async (ctx, { adminKey }) => {
+    requireAdminKey(adminKey);
+
+    const unique = new Set(
+      (await ctx.db.query("itemDefs").collect()).filter((d) => d.isUnique).map((d) => d.name),
+    );
+    const claimed = new Map<string, string>();
+    for (const profile of await ctx.db.query("profiles").collect()) {
+      const { slots } = await readInventory(ctx, profile);
+      const held = [...slots.map((s) => s.itemDefName), ...Object.values(profile.equipment ?? {})];
+      for (const name of held) {
+        if (!name || !unique.has(name) || claimed.has(name)) continue;
+        await claimUniqueItem(ctx, name, profile._id);
+        claimed.set(name, profile.name);
+      }
+    }
+    return { claimed: Object.fromEntries(claimed) };
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Map references: rename cascade + dangling reference audit
+// ---------------------------------------------------------------------------
+
+/**
+ * Rename a map and rewrite every `mapName` / `targetMap` reference to it.
+ * CLI counterpart of maps.rename (no ownership checks).
+ */
+export const renameMap = mutation({
+  args: { adminKey: v.string(), from: v.string(), to: v.string() },
+  handler: async (ctx, { adminKey, from, to }) => {
+    requireAdminKey(adminKey);
+    const updated = await renameMapCascade(ctx, from, to);
+    return { from, to: to.trim(), updated };
+  },
+});
+
+/**
+ * List references to map names that don't exist (e.g. maps renamed by hand
+ * before the cascade existed). Pass `repair: {from, to}` pairs to
+ * migrations:repairMapReferences to fix them.
+ */
+export const auditMapReferences = query({
+  args: { adminKey: v.string() },
+  handler: async (ctx, { adminKey }) => {
+    requireAdminKey(adminKey);
+    const maps = await ctx.db.query("maps").collect();
+    const known = new Set(maps.map((m) => m.name));
+    const dangling: Record<string, Record<string, number>> = {};
+    const note = (mapName: string | undefined, table: string) => {
+      if (!mapName || known.has(mapName)) return;
+      dangling[mapName] ??= {};
+      dangling[mapName][table] = (dangling[mapName][table] ?? 0) + 1;
+    };
+
+    for (const m of maps) for (const p of m.portals ?? []) note(p.targetMap, "portals");
+    for (const table of [
+      "mapObjects",
+      "worldItems",
+      "npcState",
+      "npcProfiles",
+      "presence",
+      "messages",
+      "profiles",
+      "npcConversations",
+      "combatEncounters",
+      "trades",
+      "tradeLog",
+    ] as const) {
+      for (const row of await ctx.db.query(table).collect()) note((row as any).mapName, table);
+    }
+    return dangling;
+  },
+});
+
+/**
+ * Point dangling references at an existing map without renaming anything:
+ * rewrites `from` → `to` in every table. The target map must exist.
+ */
+export const repairMapReferences = mutation({
+  args: { adminKey: v.string(), from: v.string(), to: v.string() },
+  handler: async (ctx, { adminKey, from, to }) => {
+    requireAdminKey(adminKey);
+    const target = await ctx.db
+      .query("maps")
+      .withIndex("by_name", (q) => q.eq("name", to))
+      .first();
+    if (!target) throw new Error(`Map "${to}" not found`);
+    const stale = await ctx.db
+      .query("maps")
+      .withIndex("by_name", (q) => q.eq("name", from))
+      .first();
+    if (stale) throw new Error(`Map "${from}" still exists — use migrations:renameMap instead`);
+
+    const updated: Record<string, number> = {};
+    const bump = (table: string) => {
+      updated[table] = (updated[table] ?? 0) + 1;
+    };
+    for (const m of await ctx.db.query("maps").collect()) {
+      if (!(m.portals ?? []).some((p) => p.targetMap === from)) continue;
+      await ctx.db.patch(m._id, {
+        portals: m.portals!.map((p) => (p.targetMap === from ? { ...p, targetMap: to } : p)),
+      });
+      bump("portals");
+    }
+    for (const table of [
+      "mapObjects",
+      "worldItems",
+      "npcState",
+      "npcProfiles",
+      "presence",
+      "messages",
+      "profiles",
+      "npcConversations",
+      "combatEncounters",
+      "trades",
+      "tradeLog",
+    ] as const) {
+      for (const row of await ctx.db.query(table).collect()) {
+        if ((row as any).mapName !== from) continue;
+        await ctx.db.patch(row._id, { mapName: to } as any);
+        bump(table);
+      }
+    }
+    await ctx.db.patch(target._id, {
+      previousNames: [...new Set([...(target.previousNames ?? []), from])],
+    });
+    return { from, to, updated };
+  },
+});
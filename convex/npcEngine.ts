@@ -8,6 +8,16 @@
 import { v } from "convex/values";
 import { mutation, query, internalMutation } from "./_generated/server";
 import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import {
+  findPath,
+  loadNavGrid,
+  nearestOpenTile,
+  smoothPath,
+  tileCenter,
+  worldToTile,
+  type NavGrid,
+} from "./lib/pathfinding";
 
 // ---------------------------------------------------------------------------
 // Configuration
@@ -17,6 +27,55 @@ const IDLE_MIN_MS = 3000; // minimum idle pause before next wander
 const IDLE_MAX_MS = 8000; // maximum idle pause
 const STALE_THRESHOLD_MS = TICK_MS * 4; // if no tick in this long, loop is dead
 const AGGRO_FOLLOW_STOP_DISTANCE_PX = 42; // don't overlap target while chasing
+const WANDER_ATTEMPTS = 4; // random wander targets tried before resting
+
+// ---------------------------------------------------------------------------
+// Path helpers
+// ---------------------------------------------------------------------------
+
+type Waypoint = { x: number; y: number };
+
+function sameTile(nav: NavGrid, ax: number, ay: number, bx: number, by: number): boolean {
+  const a = worldToTile(nav, ax, ay);
+  const b = worldToTile(nav, bx, by);
+  return a.x === b.x && a.y === b.y;
+}
+
+/**
+ * Waypoints (world px) from one point to another around walls, or null if
+ * the target can't be reached. A blocked target snaps to the nearest open
+ * tile. Without a nav grid (map missing) it's a straight line.
+ */
+function planPath(nav: NavGrid | null, fromX: number, fromY: number, toX: number, toY: number): Waypoint[] | null {
+  if (!nav) return [{ x: toX, y: toY }];
+  const start = worldToTile(nav, fromX, fromY);
+  const wanted = worldToTile(nav, toX, toY);
+  const goal = nearestOpenTile(nav, wanted);
+  if (!goal) return null;
+  const tiles = findPath(nav, start, goal);
+  if (!tiles) return null;
+  const waypoints = smoothPath(nav, start, tiles).map((t) => tileCenter(nav, t));
+  // Finish on the exact point when it's open, rather than its tile centre
+  const exact = goal.x === wanted.x && goal.y === wanted.y ? { x: toX, y: toY } : tileCenter(nav, goal);
+  if (waypoints.length > 0) waypoints[waypoints.length - 1] = exact;
+  else waypoints.push(exact);
+  return waypoints;
+}
+
+/** A random reachable point within the NPC's wander radius, with the path to it. */
+function pickWanderTarget(nav: NavGrid | null, npc: Doc<"npcState">): (Waypoint & { path: Waypoint[] }) | null {
+  for (let attempt = 0; attempt < WANDER_ATTEMPTS; attempt++) {
+    const angle = Math.random() * Math.PI * 2;
+    const dist = Math.random() * npc.wanderRadius;
+    const x = npc.spawnX + Math.cos(angle) * dist;
+    const y = npc.spawnY + Math.sin(angle) * dist;
+    // Wander only to open tiles (no snapping to a neighbour)
+    if (nav && nearestOpenTile(nav, worldToTile(nav, x, y), 0) === null) continue;
+    const path = planPath(nav, npc.x, npc.y, x, y);
+    if (path) return { ...path[path.length - 1], path };
+  }
+  return null;
+}
 
 // ---------------------------------------------------------------------------
 // Queries
@@ -55,6 +114,13 @@ export const tick = internalMutation({
     const allProfiles = await ctx.db.query("profiles").collect();
     const profileById = new Map(allProfiles.map((p) => [String(p._id), p]));
 
+    // Walkability per map, loaded on first use this tick
+    const navGrids = new Map<string, NavGrid | null>();
+    const navGridFor = async (mapName: string) => {
+      if (!navGrids.has(mapName)) navGrids.set(mapName, await loadNavGrid(ctx, mapName));
+      return navGrids.get(mapName)!;
+    };
+
     for (const npc of allNpcs) {
       if (npc.respawnAt != null) {
         if (now >= npc.respawnAt) {
@@ -66,6 +132,7 @@ export const tick = internalMutation({
             vy: 0,
             targetX: undefined,
             targetY: undefined,
+            path: undefined,
             idleUntil: now + IDLE_MIN_MS,
             currentHp: restoredHp,
             maxHp: restoredHp,
@@ -83,12 +150,18 @@ export const tick = internalMutation({
       // --- Aggro follow logic ---
       let chaseTargetX: number | undefined;
       let chaseTargetY: number | undefined;
+      let returningHome = false;
       if (npc.aggroTargetProfileId != null) {
         if (npc.aggroUntil == null || npc.aggroUntil <= now) {
+          // Lost interest: walk back to the spawn point
           await ctx.db.patch(npc._id, {
             aggroTargetProfileId: undefined,
             aggroUntil: undefined,
+            targetX: npc.spawnX,
+            targetY: npc.spawnY,
+            path: undefined,
           });
+          returningHome = true;
         } else {
           const targetId = String(npc.aggroTargetProfileId);
           const live = presenceByProfileId.get(targetId);
@@ -138,6 +211,7 @@ export const tick = internalMutation({
               vy: 0,
               targetX: undefined,
               targetY: undefined,
+              path: undefined,
               idleUntil: undefined,
               direction,
               lastTick: now,
@@ -158,50 +232,98 @@ export const tick = internalMutation({
       }
 
       // --- Pick a new target if we don't have one ---
-      let targetX = npc.targetX;
-      let targetY = npc.targetY;
+      let targetX = returningHome ? npc.spawnX : npc.targetX;
+      let targetY = returningHome ? npc.spawnY : npc.targetY;
+      let path = returningHome ? undefined : npc.path;
+      const nav = await navGridFor(npc.mapName);
 
       // Aggro takes priority over wander.
       if (chaseTargetX != null && chaseTargetY != null) {
+        // Re-plan only once the target has moved to another tile
+        if (
+          nav &&
+          targetX != null &&
+          targetY != null &&
+          !sameTile(nav, targetX, targetY, chaseTargetX, chaseTargetY)
+        ) {
+          path = undefined;
+        }
         targetX = chaseTargetX;
         targetY = chaseTargetY;
       }
 
       if (targetX == null || targetY == null) {
-        const angle = Math.random() * Math.PI * 2;
-        const dist = Math.random() * npc.wanderRadius;
-        targetX = npc.spawnX + Math.cos(angle) * dist;
-        targetY = npc.spawnY + Math.sin(angle) * dist;
+        const wander = pickWanderTarget(nav, npc);
+        if (wander) {
+          targetX = wander.x;
+          targetY = wander.y;
+          path = wander.path;
+        }
+      }
+
+      if (targetX != null && targetY != null && !path) {
+        path = planPath(nav, npc.x, npc.y, targetX, targetY) ?? undefined;
+      }
+
+      if (targetX == null || targetY == null || !path) {
+        // Nowhere reachable to go — rest and try again later
+        await ctx.db.patch(npc._id, {
+          vx: 0,
+          vy: 0,
+          targetX: undefined,
+          targetY: undefined,
+          path: undefined,
+          idleUntil: now + IDLE_MIN_MS,
+          lastTick: now,
+        });
+        continue;
       }
 
-      // --- Move toward target ---
-      const dx = targetX - npc.x;
-      const dy = targetY - npc.y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      const step = npc.speed * dt;
+      // --- Move along the path ---
+      let x = npc.x;
+      let y = npc.y;
+      let remaining = npc.speed * dt;
+      let next = 0;
+      while (next < path.length && remaining > 0) {
+        const wp = path[next];
+        const dx = wp.x - x;
+        const dy = wp.y - y;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        if (dist <= remaining + 1) {
+          // Reached this waypoint — carry the leftover step to the next one
+          x = wp.x;
+          y = wp.y;
+          remaining -= dist;
+          next++;
+        } else {
+          x += (dx / dist) * remaining;
+          y += (dy / dist) * remaining;
+          remaining = 0;
+        }
+      }
+      const rest = path.slice(next);
 
-      if (dist <= step + 1) {
+      if (rest.length === 0) {
         // Reached target — go idle
         const idleDuration =
           IDLE_MIN_MS + Math.random() * (IDLE_MAX_MS - IDLE_MIN_MS);
         await ctx.db.patch(npc._id, {
-          x: targetX,
-          y: targetY,
+          x,
+          y,
           vx: 0,
           vy: 0,
           targetX: undefined,
           targetY: undefined,
+          path: undefined,
           idleUntil: now + idleDuration,
           direction: npc.direction, // keep last direction
           lastTick: now,
         });
       } else {
-        // Step toward target
-        const ratio = step / dist;
-        const newX = npc.x + dx * ratio;
-        const newY = npc.y + dy * ratio;
-
-        // Velocity for client extrapolation
+        // Velocity toward the next waypoint, for client extrapolation
+        const dx = rest[0].x - x;
+        const dy = rest[0].y - y;
+        const dist = Math.sqrt(dx * dx + dy * dy) || 1;
         const vx = (dx / dist) * npc.speed;
         const vy = (dy / dist) * npc.speed;
 
@@ -216,12 +338,13 @@ export const tick = internalMutation({
               : "up";
 
         await ctx.db.patch(npc._id, {
-          x: newX,
-          y: newY,
+          x,
+          y,
           vx,
           vy,
           targetX,
           targetY,
+          path: rest,
           direction,
           idleUntil: undefined,
           lastTick: now,
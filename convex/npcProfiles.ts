@@ -1,6 +1,8 @@
 import { v } from "convex/values";
 import { internalQuery, mutation, query } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { lootTableValidator } from "./lib/loot";
+import { checkLootTable } from "./mechanics/loot";
 
 const visibilityTypeValidator = v.union(
   v.literal("public"),
@@ -146,7 +148,12 @@ export const listInstances = query({
 // Mutations
 // ---------------------------------------------------------------------------
 
-/** Save (upsert) an NPC profile by instance name with visibility scoping. */
+/**
+ * Save (upsert) an NPC profile by instance name with visibility scoping.
+ * What a shopkeeper sells (`shopStock`, `shopCurrency`) and what the NPC
+ * drops (`lootTable`, and `items` for NPCs without one) is superuser-only;
+ * other editors' saves keep the stored values.
+ */
 export const save = mutation({
   args: {
     profileId: v.id("profiles"),
@@ -181,6 +188,17 @@ export const save = mutation({
         level: v.number(),
       })
     ),
+    skills: v.optional(v.array(v.string())),
+    attackEffects: v.optional(
+      v.array(
+        v.object({
+          type: v.string(),
+          value: v.optional(v.number()),
+          duration: v.optional(v.number()),
+          chance: v.optional(v.number()),
+        })
+      )
+    ),
     items: v.optional(
       v.array(
         v.object({
@@ -190,6 +208,18 @@ export const save = mutation({
       )
     ),
     tags: v.optional(v.array(v.string())),
+    shopStock: v.optional(
+      v.array(
+        v.object({
+          itemDefName: v.string(),
+          price: v.optional(v.number()),
+          stock: v.optional(v.number()),
+          restockMs: v.optional(v.number()),
+        })
+      )
+    ),
+    shopCurrency: v.optional(v.string()),
+    lootTable: v.optional(lootTableValidator),
     aggression: v.optional(aggressionValidator),
     npcType: v.optional(npcTypeValidator),
     aiEnabled: v.optional(v.boolean()),
@@ -230,6 +260,14 @@ export const save = mutation({
     }
 
     const { profileId: _, visibilityType: __, ...fields } = args;
+    if (!isSuperuser) {
+      fields.shopStock = existing?.shopStock;
+      fields.shopCurrency = existing?.shopCurrency;
+      fields.lootTable = existing?.lootTable;
+      fields.items = existing?.items;
+    } else if (fields.lootTable) {
+      await checkLootTable(ctx, fields.lootTable);
+    }
     const data = {
       ...fields,
       visibilityType,
@@ -1,6 +1,8 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { checkMove, nextAnchor, rejectMove, reportedMapName } from "./lib/movement";
+import type { MoveResult } from "./lib/movement";
 
 async function requireOwnedProfile(ctx: any, profileId: any) {
   const userId = await getAuthUserId(ctx);
@@ -15,6 +17,8 @@ async function requireOwnedProfile(ctx: any, profileId: any) {
  * Upsert presence for a profile.
  * Called frequently (~200ms) by each connected client.
  * Includes velocity (vx, vy) for client-side extrapolation.
+ * Positions are validated (see lib/movement); an impossible move isn't
+ * stored and the client is told where to snap back to.
  */
 export const update = mutation({
   args: {
@@ -29,16 +33,21 @@ export const update = mutation({
     spriteUrl: v.string(),
     name: v.string(),
   },
-  handler: async (ctx, args) => {
-    await requireOwnedProfile(ctx, args.profileId);
+  handler: async (ctx, args): Promise<MoveResult> => {
+    const profile = await requireOwnedProfile(ctx, args.profileId);
     const existing = await ctx.db
       .query("presence")
       .withIndex("by_profile", (q) => q.eq("profileId", args.profileId))
       .first();
 
+    const check = await checkMove(ctx, profile, existing, args);
+    if (!check.ok) return await rejectMove(ctx, profile, existing, check, args);
+
+    const now = Date.now();
+    const mapName = reportedMapName(profile, existing, args);
     const data = {
       profileId: args.profileId,
-      mapName: args.mapName,
+      mapName,
       x: args.x,
       y: args.y,
       vx: args.vx,
@@ -47,7 +56,9 @@ export const update = mutation({
       animation: args.animation,
       spriteUrl: args.spriteUrl,
       name: args.name,
-      lastSeen: Date.now(),
+      lastSeen: now,
+      validatedAt: now,
+      anchor: nextAnchor(existing, mapName, args, now),
     };
 
     if (existing) {
@@ -55,6 +66,7 @@ export const update = mutation({
     } else {
       await ctx.db.insert("presence", data);
     }
+    return { accepted: true };
   },
 });
 
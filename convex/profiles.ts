@@ -1,7 +1,13 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { DEFAULT_START_MAP } from "./maps";
+import { checkMove, rejectMove, reportedMapName } from "./lib/movement";
+import type { MoveResult } from "./lib/movement";
+import { knownEffects } from "./lib/statusEffects";
+import { applyToProfile } from "./mechanics/statusEffects";
+import { addItems, inventoryItemsOf, readInventory, removeItems } from "./mechanics/inventory";
+import { countItem } from "./lib/inventory";
 
 // ---------------------------------------------------------------------------
 // Queries
@@ -15,18 +21,20 @@ export const list = query({
     if (!userId) return [];
 
     // Get only this user's profiles
-    return await ctx.db
+    const profiles = await ctx.db
       .query("profiles")
       .withIndex("by_user", (q) => q.eq("userId", userId))
       .collect();
+    return await Promise.all(profiles.map(async (p) => ({ ...p, items: await inventoryItemsOf(ctx, p) })));
   },
 });
 
-/** Get a single profile by id */
+/** Get a single profile by id, with its inventory as `{ name, quantity }` totals */
 export const get = query({
   args: { id: v.id("profiles") },
   handler: async (ctx, { id }) => {
-    return await requireOwnedProfile(ctx, id);
+    const profile = await requireOwnedProfile(ctx, id);
+    return { ...profile, items: await inventoryItemsOf(ctx, profile) };
   },
 });
 
@@ -86,7 +94,6 @@ export const create = mutation({
       color: color ?? "#6c5ce7",
       role: "player",
       stats: DEFAULT_STATS,
-      items: [],
       npcsChatted: [],
       mapName: startMapName ?? "cozy-cabin",
       startLabel: startLabel ?? "start1",
@@ -95,7 +102,7 @@ export const create = mutation({
   },
 });
 
-/** Save position/direction when leaving or periodically */
+/** Save position/direction when leaving or periodically (validated like presence.update) */
 export const savePosition = mutation({
   args: {
     id: v.id("profiles"),
@@ -104,9 +111,23 @@ export const savePosition = mutation({
     y: v.float64(),
     direction: v.string(),
   },
-  handler: async (ctx, { id, ...pos }) => {
-    await requireOwnedProfile(ctx, id);
-    await ctx.db.patch(id, pos);
+  handler: async (ctx, { id, ...pos }): Promise<MoveResult> => {
+    const profile = await requireOwnedProfile(ctx, id);
+    // Checked against the live presence position, like presence.update
+    const presence = await ctx.db
+      .query("presence")
+      .withIndex("by_profile", (q) => q.eq("profileId", id))
+      .first();
+    // Only a walk from the live, validated position is saved: with no
+    // presence row a report could only pass as an arrival near the saved
+    // spot, and saving those would let a client creep it anywhere
+    if (!presence) {
+      return { accepted: false, reason: "bad-arrival", message: "No live position to save from", snapTo: null };
+    }
+    const check = await checkMove(ctx, profile, presence, pos);
+    if (!check.ok) return await rejectMove(ctx, profile, presence, check, pos);
+    await ctx.db.patch(id, { ...pos, mapName: reportedMapName(profile, presence, pos) });
+    return { accepted: true };
   },
 });
 
@@ -126,7 +147,7 @@ export const recordNpcChat = mutation({
   },
 });
 
-/** Update stats */
+/** Update stats. Mana and stamina pools are server-owned and kept as stored. */
 export const updateStats = mutation({
   args: {
     id: v.id("profiles"),
@@ -141,28 +162,22 @@ export const updateStats = mutation({
     }),
   },
   handler: async (ctx, { id, stats }) => {
-    await requireOwnedProfile(ctx, id);
-    await ctx.db.patch(id, { stats });
+    const profile = await requireOwnedProfile(ctx, id);
+    const { mana, maxMana, stamina, maxStamina } = profile.stats;
+    await ctx.db.patch(id, { stats: { ...stats, mana, maxMana, stamina, maxStamina } });
   },
 });
 
-/** Add an item (or increase quantity if it already exists) */
-export const addItem = mutation({
+/** Add an item (stacked, within the inventory's capacity); scripts and admin tooling only */
+export const addItem = internalMutation({
   args: {
     id: v.id("profiles"),
     itemName: v.string(),
     quantity: v.number(),
   },
   handler: async (ctx, { id, itemName, quantity }) => {
-    const profile = await requireOwnedProfile(ctx, id);
-    const items = [...profile.items];
-    const existing = items.find((i) => i.name === itemName);
-    if (existing) {
-      existing.quantity += quantity;
-    } else {
-      items.push({ name: itemName, quantity });
-    }
-    await ctx.db.patch(id, { items });
+    const added = await addItems(ctx, id, itemName, quantity);
+    if (!added.success) throw new Error(added.reason);
   },
 });
 
@@ -175,19 +190,16 @@ export const removeItem = mutation({
   },
   handler: async (ctx, { id, itemName, quantity }) => {
     const profile = await requireOwnedProfile(ctx, id);
-    const items = [...profile.items];
-    const idx = items.findIndex((i) => i.name === itemName);
-    if (idx < 0) return;
-    if (quantity !== undefined && quantity < items[idx].quantity) {
-      items[idx].quantity -= quantity;
-    } else {
-      items.splice(idx, 1);
-    }
-    await ctx.db.patch(id, { items });
+    const held = countItem((await readInventory(ctx, profile)).slots, itemName);
+    if (held === 0) return;
+    await removeItems(ctx, id, itemName, Math.min(held, quantity ?? held));
   },
 });
 
-/** Consume one consumable item and apply its HP delta (+heal, -poison). */
+/**
+ * Consume one consumable item: applies its HP delta (+heal, -poison) and
+ * any status effects it carries (regen, strength, poison…) to the consumer.
+ */
 export const consumeConsumable = mutation({
   args: {
     id: v.id("profiles"),
@@ -205,20 +217,14 @@ export const consumeConsumable = mutation({
     }
 
     const hpDelta = itemDef.consumeHpDelta ?? 0;
-    if (hpDelta === 0) {
-      throw new Error(`"${itemDef.displayName}" has no HP effect configured`);
+    const effects = knownEffects(itemDef.effects);
+    if (hpDelta === 0 && effects.length === 0) {
+      throw new Error(`"${itemDef.displayName}" has no effect configured`);
     }
 
-    const items = [...profile.items];
-    const idx = items.findIndex((i) => i.name === itemName);
-    if (idx < 0 || items[idx].quantity <= 0) {
-      throw new Error(`No "${itemDef.displayName}" in inventory`);
-    }
-    if (items[idx].quantity > 1) {
-      items[idx] = { ...items[idx], quantity: items[idx].quantity - 1 };
-    } else {
-      items.splice(idx, 1);
-    }
+    const taken = await removeItems(ctx, id, itemName, 1);
+    if (!taken.success) throw new Error(`No "${itemDef.displayName}" in inventory`);
+    const { items } = taken;
 
     const currentHp = profile.stats.hp ?? 0;
     const maxHp = Math.max(1, profile.stats.maxHp ?? 1);
@@ -228,11 +234,14 @@ export const consumeConsumable = mutation({
       hp: nextHp,
     };
 
-    await ctx.db.patch(id, { items, stats });
+    await ctx.db.patch(id, { stats });
+    const statusEffects = await applyToProfile(ctx, id, effects);
     return {
       itemName,
       displayName: itemDef.displayName,
       hpDelta,
+      effects: effects.map((e) => e.type),
+      statusEffects,
       hp: nextHp,
       maxHp,
       items,
@@ -286,6 +295,13 @@ export const remove = mutation({
     for (const p of presenceRows) {
       await ctx.db.delete(p._id);
     }
+    const inventories = await ctx.db
+      .query("inventories")
+      .withIndex("by_profile", (q) => q.eq("profileId", id))
+      .collect();
+    for (const inv of inventories) {
+      await ctx.db.delete(inv._id);
+    }
     await ctx.db.delete(id);
   },
 });
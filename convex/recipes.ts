@@ -0,0 +1,103 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { requireSuperuser } from "./lib/requireSuperuser";
+import { isInteractionFailure, resolveOwnedProfile } from "./lib/interaction";
+import { removeItems } from "./mechanics/inventory";
+import { getRecipe, normalizeLines } from "./lib/crafting";
+
+// ---------------------------------------------------------------------------
+// Recipe validators (must match schema)
+// ---------------------------------------------------------------------------
+
+const recipeLineValidator = v.object({
+  itemDefName: v.string(),
+  quantity: v.number(),
+});
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/** List all recipes */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db.query("recipes").collect();
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Mutations
+// ---------------------------------------------------------------------------
+
+/** Save (upsert) a recipe. Requires admin. */
+export const save = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    name: v.string(),
+    displayName: v.string(),
+    description: v.string(),
+    inputs: v.array(recipeLineValidator),
+    outputs: v.array(recipeLineValidator),
+    station: v.optional(v.string()),
+    levelRequirement: v.optional(v.number()),
+    craftTimeMs: v.optional(v.number()),
+    learnItem: v.optional(v.string()),
+  },
+  handler: async (ctx, { profileId, ...fields }) => {
+    await requireSuperuser(ctx, profileId);
+    const inputs = normalizeLines(fields.inputs);
+    const outputs = normalizeLines(fields.outputs);
+    if (outputs.length === 0) throw new Error("A recipe needs at least one output.");
+    for (const { itemDefName } of [...inputs, ...outputs]) {
+      const def = await ctx.db
+        .query("itemDefs")
+        .withIndex("by_name", (q) => q.eq("name", itemDefName))
+        .first();
+      if (!def) throw new Error(`Unknown item "${itemDefName}"`);
+    }
+
+    const existing = await getRecipe(ctx, fields.name);
+    const data = { ...fields, inputs, outputs, updatedAt: Date.now() };
+    if (existing) {
+      await ctx.db.replace(existing._id, data);
+      return existing._id;
+    }
+    return await ctx.db.insert("recipes", data);
+  },
+});
+
+/** Delete a recipe. Requires admin. */
+export const remove = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    id: v.id("recipes"),
+  },
+  handler: async (ctx, { profileId, id }) => {
+    await requireSuperuser(ctx, profileId);
+    await ctx.db.delete(id);
+  },
+});
+
+/** Read a recipe-teaching item (book, scroll): consumes one and learns its recipe */
+export const learnFromItem = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    itemName: v.string(),
+  },
+  handler: async (ctx, { profileId, itemName }) => {
+    const profile = await resolveOwnedProfile(ctx, profileId);
+    if (isInteractionFailure(profile)) return profile;
+    const recipe = (await ctx.db.query("recipes").collect()).find((r) => r.learnItem === itemName);
+    if (!recipe) return { success: false as const, reason: "That item doesn't teach a recipe." };
+    if ((profile.recipes ?? []).includes(recipe.name)) {
+      return { success: false as const, reason: `You already know ${recipe.displayName}.` };
+    }
+
+    const taken = await removeItems(ctx, profileId, itemName, 1);
+    if (!taken.success) return { success: false as const, reason: "You don't have that item." };
+
+    await ctx.db.patch(profileId, { recipes: [...(profile.recipes ?? []), recipe.name] });
+    return { success: true as const, recipeName: recipe.name, displayName: recipe.displayName, items: taken.items };
+  },
+});
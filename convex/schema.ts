@@ -1,6 +1,9 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
+import { lootTableValidator } from "./lib/loot";
+import { containerValidator } from "./lib/containers";
+import { lockRequirementsValidator } from "./lib/locks";
 
 export default defineSchema({
   ...authTables,
@@ -27,7 +30,7 @@ export default defineSchema({
           v.literal("obj"),
           v.literal("overlay")
         ),
-        tiles: v.string(), // JSON-encoded flat array of tile indices (-1 = empty)
+        tiles: v.string(), // JSON-encoded flat array of tile indices (-1 = empty); "" when chunked
         visible: v.boolean(),
         tilesetUrl: v.optional(v.string()), // optional per-layer tileset override
       })
@@ -40,7 +43,12 @@ export default defineSchema({
         speed: v.number(),
       })
     )),
-    collisionMask: v.string(), // JSON-encoded flat boolean array
+    collisionMask: v.string(), // JSON-encoded flat boolean array; "" when chunked
+    // When set, tiles + collision live in mapChunks (chunkSize × chunkSize regions)
+    chunkSize: v.optional(v.number()),
+    // Sequence number of the last live edit (mapEditOps.seq); clients load a
+    // snapshot and then replay ops after it
+    editSeq: v.optional(v.number()),
     labels: v.array(
       v.object({
         name: v.string(),
@@ -62,6 +70,7 @@ export default defineSchema({
         targetSpawn: v.string(),       // spawn label on destination map
         direction: v.optional(v.string()),  // facing direction on arrival
         transition: v.optional(v.string()), // "fade" | "instant" (default "fade")
+        requirements: v.optional(lockRequirementsValidator), // locked portal (lib/locks)
       })
     )),
     animationUrl: v.optional(v.string()),    // URL to animated-tile descriptor JSON
@@ -73,15 +82,116 @@ export default defineSchema({
       playerAttackCooldownMs: v.optional(v.number()),
       npcHitCooldownMs: v.optional(v.number()),
       damageVariancePct: v.optional(v.number()),
+      mode: v.optional(v.union(              // "realtime" (default) | "turn-based" battles
+        v.literal("realtime"),
+        v.literal("turn-based"),
+      )),
+      encounterChancePct: v.optional(v.number()), // turn-based: random encounter chance per check
     })),
     status: v.optional(v.string()),          // "draft" | "published" (default "published")
     mapType: v.optional(v.string()),         // "public" | "private" | "system" (default "private")
     editors: v.optional(v.array(v.id("profiles"))), // per-map editor list
     creatorProfileId: v.optional(v.id("profiles")),
     createdBy: v.optional(v.id("users")),    // user who created this map (for ownership checks)
+    previousNames: v.optional(v.array(v.string())), // old names after a rename (resolved by getByName)
     updatedAt: v.number(),
   }).index("by_name", ["name"]),
 
+  // ---------------------------------------------------------------------------
+  // Map chunks (tile + collision data split into fixed-size regions so edits
+  // only rewrite the regions they touch). layerIndex -1 = collision mask.
+  // ---------------------------------------------------------------------------
+  mapChunks: defineTable({
+    mapId: v.id("maps"),
+    layerIndex: v.number(),
+    cx: v.number(),            // chunk column
+    cy: v.number(),            // chunk row
+    data: v.string(),          // JSON-encoded row-major cells (edge chunks are clipped)
+    dirty: v.optional(v.boolean()), // changed since the map's last revision (lib/mapRevisions)
+  })
+    .index("by_map", ["mapId"])
+    .index("by_map_layer_chunk", ["mapId", "layerIndex", "cx", "cy"])
+    .index("by_map_dirty", ["mapId", "dirty"]),
+
+  // ---------------------------------------------------------------------------
+  // Map revisions (one snapshot per full save; see lib/mapRevisions.ts).
+  // Only chunks that changed since the previous revision get a new
+  // mapRevisionBlobs row; the rest reuse the previous revision's blob.
+  // ---------------------------------------------------------------------------
+  mapRevisions: defineTable({
+    mapId: v.id("maps"),
+    mapName: v.string(),             // name at the time of the save
+    revision: v.number(),            // 1, 2, 3… per map
+    authorProfileId: v.optional(v.id("profiles")),
+    authorName: v.optional(v.string()),
+    createdAt: v.number(),
+    summary: v.string(),             // change summary (automatic unless supplied)
+    chunkSize: v.number(),
+    mapJson: v.string(),             // JSON map fields without grids
+    chunks: v.array(v.object({
+      layerIndex: v.number(),        // -1 = collision
+      cx: v.number(),
+      cy: v.number(),
+      blobId: v.id("mapRevisionBlobs"),
+    })),
+    objectsJson: v.string(),         // JSON mapObjects snapshot
+    itemsJson: v.string(),           // JSON worldItems snapshot
+    dirtyTracked: v.optional(v.boolean()), // later revisions may copy its chunk refs forward
+  })
+    .index("by_map_revision", ["mapId", "revision"]),
+
+  mapRevisionBlobs: defineTable({
+    mapId: v.id("maps"),
+    hash: v.optional(v.string()),    // legacy: blobs were once shared by content
+    revision: v.optional(v.number()), // revision that stored it; later ones share it while unchanged
+    data: v.string(),                // JSON-encoded chunk cells
+  })
+    .index("by_map_hash", ["mapId", "hash"]),
+
+  // ---------------------------------------------------------------------------
+  // Live collaborative editing (see mapEdits.ts). Every patch an editor sends
+  // is applied to the map and logged here so other editors can replay it;
+  // the log is trimmed to the most recent entries per map.
+  // ---------------------------------------------------------------------------
+  mapEditOps: defineTable({
+    mapId: v.id("maps"),
+    seq: v.number(),                 // maps.editSeq after this patch
+    clientId: v.string(),            // editor session that sent it (skipped on replay)
+    profileId: v.optional(v.id("profiles")),
+    ops: v.string(),                 // JSON MapEditOp[] as applied (ids resolved)
+    createdAt: v.number(),
+  })
+    .index("by_map_seq", ["mapId", "seq"]),
+
+  // Cursor + active tool of each open editor session
+  mapEditorCursors: defineTable({
+    mapId: v.id("maps"),
+    clientId: v.string(),
+    profileId: v.id("profiles"),
+    name: v.string(),
+    x: v.number(),                   // tile coords (-1 when off the map)
+    y: v.number(),
+    tool: v.string(),
+    updatedAt: v.number(),
+  })
+    .index("by_map", ["mapId"])
+    .index("by_client", ["clientId"]),
+
+  // ---------------------------------------------------------------------------
+  // Tileset terrains (Wang-corner metadata for the editor's terrain brush).
+  // `corners` is a bitmask of which tile corners belong to the terrain:
+  // 1 = top-left, 2 = top-right, 4 = bottom-left, 8 = bottom-right.
+  // ---------------------------------------------------------------------------
+  tilesetTerrains: defineTable({
+    tilesetUrl: v.string(),
+    name: v.string(),
+    tiles: v.array(v.object({
+      tileIndex: v.number(),
+      corners: v.number(),
+    })),
+    updatedAt: v.number(),
+  }).index("by_tileset", ["tilesetUrl"]),
+
   // ---------------------------------------------------------------------------
   // Sprite sheets
   // ---------------------------------------------------------------------------
@@ -138,6 +248,8 @@ export default defineSchema({
     onAnimation: v.optional(v.string()),         // animation to play when "on" (defaults to defaultAnimation)
     offAnimation: v.optional(v.string()),        // animation to play when "off" (static first frame)
     onSoundUrl: v.optional(v.string()),          // ambient sound when "on" (overrides ambientSoundUrl)
+    craftingStation: v.optional(v.string()),     // toggleable only: station kind recipes ask for (e.g. "forge")
+    container: v.optional(v.boolean()),          // toggleable only: opens to take items (contents set per placed object)
     // Door (4-state: closed → opening → open → closing → closed)
     isDoor: v.optional(v.boolean()),             // if true, this sprite acts as a door
     doorClosedAnimation: v.optional(v.string()), // idle animation when closed
@@ -185,11 +297,26 @@ export default defineSchema({
       spd: v.number(),
       level: v.number(),
     })),
+    skills: v.optional(v.array(v.string())), // skillDefs.name the NPC can use in combat
+    attackEffects: v.optional(v.array(v.object({ // status effects its hits can inflict (lib/statusEffects)
+      type: v.string(),                  // "poison" | "burn" | "weakness" | …
+      value: v.optional(v.number()),
+      duration: v.optional(v.number()),  // seconds
+      chance: v.optional(v.number()),    // 0..1 per hit (default 1)
+    }))),
     items: v.optional(v.array(v.object({  // NPC inventory (for shops, drops, etc.)
       name: v.string(),
       quantity: v.number(),
     }))),
     tags: v.optional(v.array(v.string())), // general-purpose tags (e.g. "shopkeeper", "quest-giver")
+    shopStock: v.optional(v.array(v.object({ // what a "shopkeeper" sells (convex/mechanics/shops.ts)
+      itemDefName: v.string(),
+      price: v.optional(v.number()),     // default: the item's value
+      stock: v.optional(v.number()),     // limited stock (unset = unlimited)
+      restockMs: v.optional(v.number()), // refill to `stock` this long after the first sale
+    }))),
+    shopCurrency: v.optional(v.string()),  // wallet currency prices are in (default "gold")
+    lootTable: v.optional(lootTableValidator), // what it drops when defeated (lib/loot)
     aggression: v.optional(v.union(
       v.literal("low"),
       v.literal("medium"),
@@ -232,11 +359,35 @@ export default defineSchema({
     flipX: v.optional(v.boolean()),
     layer: v.number(),                // z-ordering layer (0 = ground, higher = above)
     isOn: v.optional(v.boolean()),    // toggle state for toggleable objects (true = on)
+    container: v.optional(containerValidator), // what a container sprite holds (lib/containers)
+    requirements: v.optional(lockRequirementsValidator), // locked door (lib/locks)
     updatedAt: v.number(),
   })
     .index("by_map", ["mapName"])
     .index("by_map_sprite", ["mapName", "spriteDefName"]),
 
+  // What's left in a container (mapObjects.container): one shared row, or
+  // one per player for per-player containers. Refilled when `refillMs`
+  // has passed since `filledAt`.
+  containerStashes: defineTable({
+    objectId: v.id("mapObjects"),
+    profileId: v.optional(v.id("profiles")),  // per-player containers only
+    items: v.array(v.object({
+      itemDefName: v.string(),
+      quantity: v.number(),
+    })),
+    filledAt: v.number(),
+  })
+    .index("by_object_profile", ["objectId", "profileId"]),
+
+  // Locks a player opened for good by using up the key (lib/locks)
+  unlockedLocks: defineTable({
+    profileId: v.id("profiles"),
+    lock: v.string(),                 // "object:<mapObjects id>" | "portal:<maps id>:<portal name>"
+    unlockedAt: v.number(),
+  })
+    .index("by_profile_lock", ["profileId", "lock"]),
+
   // ---------------------------------------------------------------------------
   // Profiles (auth-linked player characters)
   // ---------------------------------------------------------------------------
@@ -255,12 +406,43 @@ export default defineSchema({
       spd: v.number(),
       level: v.number(),
       xp: v.number(),
+      mana: v.optional(v.number()),            // skill resources (lib/skills defaults when unset)
+      maxMana: v.optional(v.number()),
+      stamina: v.optional(v.number()),
+      maxStamina: v.optional(v.number()),
     }),
-    items: v.array(v.object({                  // basic inventory
+    resourcesAt: v.optional(v.number()),       // when mana/stamina were last written (regen runs from here)
+    skills: v.optional(v.array(v.string())),   // skillDefs.name learned from items (level skills are implicit)
+    skillBar: v.optional(v.array(v.string())), // hotkey slots 1..n → skill name ("" = empty)
+    skillCooldowns: v.optional(v.record(v.string(), v.number())), // skill name → ready-at timestamp
+    recipes: v.optional(v.array(v.string())),  // recipes.name learned from items (other recipes are known to all)
+    crafting: v.optional(v.object({            // a timed craft under way (convex/mechanics/crafting.ts)
+      recipeName: v.string(),
+      stationId: v.optional(v.id("mapObjects")),
+      readyAt: v.number(),
+    })),
+    statusEffects: v.optional(v.array(v.object({ // active poison / buffs / … (lib/statusEffects)
+      type: v.string(),
+      value: v.number(),                       // per stack: damage/heal per tick or stat bonus
+      stacks: v.number(),
+      expiresAt: v.number(),
+      nextTickAt: v.optional(v.number()),      // over-time effects: next damage/heal tick
+      source: v.optional(v.string()),          // profile id of whoever applied it
+    }))),
+    items: v.optional(v.array(v.object({       // legacy inventory; moved into `inventories` on first write
       name: v.string(),
       quantity: v.number(),
+    }))),
+    equipment: v.optional(v.object({           // slot → worn itemDefs.name (lib/equipment); worn items leave the inventory
+      weapon: v.optional(v.string()),
+      head: v.optional(v.string()),
+      body: v.optional(v.string()),
+      legs: v.optional(v.string()),
+      feet: v.optional(v.string()),
+      accessory: v.optional(v.string()),
     })),
     npcsChatted: v.array(v.string()),          // names of NPCs spoken to
+    storyFlags: v.optional(v.array(v.string())), // story flags set for this player (checked by locks)
     mapName: v.optional(v.string()),           // last map the player was on
     startLabel: v.optional(v.string()),        // preferred spawn label for initial entry
     x: v.optional(v.float64()),               // last known X
@@ -311,10 +493,38 @@ export default defineSchema({
     spriteUrl: v.string(),                     // for rendering remote players
     name: v.string(),                          // denormalized for display
     lastSeen: v.number(),
+    validatedAt: v.optional(v.number()),       // when x/y last passed movement validation
+    anchor: v.optional(v.object({              // earlier accepted position speed is also measured from (lib/movement)
+      x: v.float64(),
+      y: v.float64(),
+      at: v.number(),
+    })),
+    snapBackAt: v.optional(v.number()),        // when the client was last told to snap back
   })
     .index("by_map", ["mapName"])
     .index("by_profile", ["profileId"]),
 
+  // ---------------------------------------------------------------------------
+  // Player flags (suspicious activity for admins to review)
+  // ---------------------------------------------------------------------------
+  playerFlags: defineTable({
+    profileId: v.id("profiles"),
+    kind: v.string(),                          // "movement"
+    count: v.number(),                         // total rejected actions
+    recentAt: v.array(v.number()),             // timestamps of the latest rejections
+    flagged: v.boolean(),                      // crossed the threshold — needs review
+    flaggedAt: v.optional(v.number()),
+    lastReason: v.string(),                    // e.g. "too-fast", "blocked"
+    lastMessage: v.string(),
+    lastMapName: v.optional(v.string()),
+    lastX: v.float64(),
+    lastY: v.float64(),
+    firstAt: v.number(),
+    lastAt: v.number(),
+  })
+    .index("by_profile_kind", ["profileId", "kind"])
+    .index("by_flagged", ["flagged"]),
+
   // ---------------------------------------------------------------------------
   // NPCs (legacy — kept for dialogue tree references)
   // ---------------------------------------------------------------------------
@@ -348,6 +558,10 @@ export default defineSchema({
     wanderRadius: v.float64(),
     targetX: v.optional(v.float64()),     // wander target (null = idle)
     targetY: v.optional(v.float64()),
+    path: v.optional(v.array(v.object({   // remaining waypoints to the target (world px)
+      x: v.float64(),
+      y: v.float64(),
+    }))),
     idleUntil: v.optional(v.number()),    // timestamp: don't move until this time
     currentHp: v.optional(v.number()),    // combat: current health
     maxHp: v.optional(v.number()),        // combat: max health
@@ -356,6 +570,15 @@ export default defineSchema({
     lastHitAt: v.optional(v.number()),    // combat: throttle repeated hits
     aggroTargetProfileId: v.optional(v.id("profiles")), // medium/high aggression target lock
     aggroUntil: v.optional(v.number()),   // target lock expiration
+    skillReadyAt: v.optional(v.record(v.string(), v.number())), // combat: skill name → ready-at timestamp
+    statusEffects: v.optional(v.array(v.object({ // combat: active poison / buffs / … (lib/statusEffects)
+      type: v.string(),
+      value: v.number(),
+      stacks: v.number(),
+      expiresAt: v.number(),
+      nextTickAt: v.optional(v.number()),
+      source: v.optional(v.string()),     // profile id credited if it finishes the NPC off
+    }))),
     lastTick: v.number(),                 // timestamp of last server update
   })
     .index("by_map", ["mapName"])
@@ -651,6 +874,55 @@ export default defineSchema({
     .index("by_visibilityType", ["visibilityType"])
     .index("by_createdByUser", ["createdByUser"]),
 
+  // Crafting recipes: inputs consumed and outputs produced in one go, at a
+  // crafting station when `station` is set. Resolved by convex/mechanics/crafting.ts.
+  recipes: defineTable({
+    name: v.string(),                  // unique slug
+    displayName: v.string(),
+    description: v.string(),
+    inputs: v.array(v.object({ itemDefName: v.string(), quantity: v.number() })),
+    outputs: v.array(v.object({ itemDefName: v.string(), quantity: v.number() })),
+    station: v.optional(v.string()),   // spriteDefinitions.craftingStation kind needed nearby (unset = anywhere)
+    levelRequirement: v.optional(v.number()),
+    craftTimeMs: v.optional(v.number()), // 0 / unset = instant
+    learnItem: v.optional(v.string()), // itemDefs.name of a recipe book / scroll that teaches it (unset = known to all)
+    updatedAt: v.number(),
+  })
+    .index("by_name", ["name"]),
+
+  // Skills: what players (hotkeys, battle menu) and NPCs (npcProfiles.skills)
+  // can cast. Resolved by convex/mechanics/combat.ts.
+  skillDefs: defineTable({
+    name: v.string(),                  // unique slug (e.g. "fireball", "mend")
+    displayName: v.string(),
+    description: v.string(),
+    kind: v.union(v.literal("damage"), v.literal("heal")),
+    power: v.number(),                 // flat potency: added to the caster's scaled ATK
+    atkScale: v.number(),              // potency = power + ATK × atkScale (damage then goes through calculateDamage)
+    rangePx: v.number(),               // reach from the caster (real-time)
+    area: v.union(
+      v.literal("single"),             // the nearest target in range
+      v.literal("circle"),             // everyone within radiusPx of that target
+      v.literal("cone"),               // everyone in range in front of the caster
+      v.literal("self")                // heals the caster / bursts around the caster
+    ),
+    radiusPx: v.optional(v.number()),  // circle / self: blast radius (default 48)
+    resource: v.union(v.literal("mana"), v.literal("stamina")),
+    cost: v.number(),
+    cooldownMs: v.number(),
+    animation: v.optional(v.string()), // client effect: "slash" | "burst" | "bolt" | "heal"
+    iconUrl: v.optional(v.string()),
+    learnLevel: v.optional(v.number()), // known from this player level on
+    learnItem: v.optional(v.string()),  // itemDefs.name of a tome/scroll that teaches it
+    effects: v.optional(v.array(v.object({ // status effects: harmful ones land on targets, helpful on the caster
+      type: v.string(),
+      value: v.optional(v.number()),
+      duration: v.optional(v.number()), // seconds
+    }))),
+    updatedAt: v.number(),
+  })
+    .index("by_name", ["name"]),
+
   // ---------------------------------------------------------------------------
   // World items (items placed on maps — can be picked up by players)
   // ---------------------------------------------------------------------------
@@ -669,19 +941,36 @@ export default defineSchema({
   })
     .index("by_map", ["mapName"]),
 
+  // A player's inventory (mechanics/inventory.ts): one slot per stack, up to
+  // the item's maxStack; slots with different metadata never merge.
   inventories: defineTable({
     profileId: v.id("profiles"),
     slots: v.array(v.object({
       itemDefName: v.string(),
       quantity: v.number(),
-      metadata: v.optional(v.record(v.string(), v.string())),
+      metadata: v.optional(v.record(v.string(), v.string())), // per-instance data (inscriptions, durability, …)
     })),
+    capacity: v.optional(v.number()),          // slot count (lib/inventory DEFAULT_INVENTORY_CAPACITY when unset)
   })
     .index("by_profile", ["profileId"]),
 
+  // Who holds each one-of-a-kind item (itemDefs.isUnique). A claim is only
+  // good while that profile still carries or wears the item.
+  uniqueHolders: defineTable({
+    itemDefName: v.string(),
+    profileId: v.id("profiles"),
+    claimedAt: v.number(),
+  })
+    .index("by_item", ["itemDefName"]),
+
+  // Encounter templates (no profileId) are authored for story triggers, map
+  // label zones and a map's random-encounter pool. Battles in progress are
+  // rows with a profileId, started from a template or a hostile NPC; the
+  // player's HP lives on their profile throughout.
   combatEncounters: defineTable({
     enemies: v.array(v.object({
-      npcName: v.optional(v.string()),
+      npcName: v.optional(v.string()),       // npcProfiles.name (display name, kill quests)
+      displayName: v.optional(v.string()),
       level: v.number(),
       stats: v.object({
         hp: v.number(),
@@ -690,31 +979,85 @@ export default defineSchema({
         def: v.number(),
         spd: v.number(),
       }),
+      defending: v.optional(v.boolean()),    // battle: halves damage until its next turn
+      npcStateId: v.optional(v.id("npcState")), // battle: the world NPC being fought
+      skills: v.optional(v.array(v.string())), // skillDefs.name (from the NPC profile)
+      skillReadyRound: v.optional(v.record(v.string(), v.number())), // battle: skill name → first round it's usable again
+      statusEffects: v.optional(v.array(v.object({ // battle: active effects, timed in rounds
+        type: v.string(),
+        value: v.number(),
+        stacks: v.number(),
+        expiresAt: v.number(),                // round
+        nextTickAt: v.optional(v.number()),   // round
+        source: v.optional(v.string()),
+      }))),
     })),
     rewards: v.object({
       items: v.optional(v.array(v.object({ name: v.string(), quantity: v.number() }))),
       xp: v.optional(v.number()),
       currency: v.optional(v.record(v.string(), v.number())),
+      lootTable: v.optional(v.union(
+        lootTableValidator,
+        v.array(v.object({                   // legacy: a bare list, rolled once
+          itemDefName: v.string(),
+          weight: v.number(),
+          minQuantity: v.number(),
+          maxQuantity: v.number(),
+        })),
+      )),
     }),
     mapId: v.optional(v.id("maps")),
-    triggerLabel: v.optional(v.string()),
-  }).index("by_map", ["mapId"]),
+    triggerLabel: v.optional(v.string()),    // template: fires when a player enters this label's zone
+    // Battle fields (unset on templates)
+    profileId: v.optional(v.id("profiles")),
+    source: v.optional(v.union(v.literal("story"), v.literal("npc"), v.literal("random"))),
+    templateId: v.optional(v.id("combatEncounters")),
+    mapName: v.optional(v.string()),
+    status: v.optional(v.union(
+      v.literal("active"),
+      v.literal("victory"),
+      v.literal("defeat"),
+      v.literal("flee"),
+    )),
+    player: v.optional(v.object({
+      name: v.string(),
+      atk: v.number(),
+      def: v.number(),
+      spd: v.number(),
+      defending: v.optional(v.boolean()),
+      skillReadyRound: v.optional(v.record(v.string(), v.number())),
+    })),
+    round: v.optional(v.number()),
+    logId: v.optional(v.id("combatLog")),
+    granted: v.optional(v.object({            // rewards handed out on victory
+      xp: v.number(),
+      items: v.array(v.object({ name: v.string(), quantity: v.number() })),
+      currency: v.record(v.string(), v.number()),
+    })),
+    startedAt: v.optional(v.number()),
+    endedAt: v.optional(v.number()),
+  })
+    .index("by_map", ["mapId"])
+    .index("by_profile_status", ["profileId", "status"])
+    .index("by_profile_template", ["profileId", "templateId"]),
 
   combatLog: defineTable({
     encounterId: v.id("combatEncounters"),
     profileId: v.id("profiles"),
     turns: v.array(v.object({
       actor: v.string(),         // "player" or NPC name
-      action: v.string(),        // "attack" | "defend" | "skill" | "item" | "flee"
+      action: v.string(),        // "attack" | "defend" | "skill" | "item" | "flee" | "effect"
       target: v.optional(v.string()),
       damage: v.optional(v.number()),
       heal: v.optional(v.number()),
+      round: v.optional(v.number()),
+      message: v.optional(v.string()),
     })),
-    outcome: v.union(
+    outcome: v.optional(v.union( // unset while the battle is running
       v.literal("victory"),
       v.literal("defeat"),
       v.literal("flee")
-    ),
+    )),
     timestamp: v.number(),
   })
     .index("by_profile", ["profileId"]),
@@ -725,13 +1068,69 @@ export default defineSchema({
   })
     .index("by_profile", ["profileId"]),
 
+  // Runtime stock for shopkeepers (the listing itself is npcProfiles.shopStock)
   shops: defineTable({
-    npcId: v.id("npcs"),
+    npcId: v.optional(v.id("npcs")),          // legacy: shops keyed on the old npcs table
+    npcProfileName: v.optional(v.string()),   // npcProfiles.name of the shopkeeper
     inventory: v.array(v.object({
       itemDefName: v.string(),
       price: v.number(),
       stock: v.optional(v.number()), // null = unlimited
+      restockAt: v.optional(v.number()), // when sold-down stock refills
     })),
     mapId: v.optional(v.id("maps")),
-  }).index("by_npc", ["npcId"]),
+  })
+    .index("by_npc", ["npcId"])
+    .index("by_npcProfile", ["npcProfileName"]),
+
+  // ---------------------------------------------------------------------------
+  // Player-to-player trades (convex/mechanics/trades.ts)
+  // ---------------------------------------------------------------------------
+  trades: defineTable({
+    initiatorId: v.id("profiles"),
+    partnerId: v.id("profiles"),
+    mapName: v.string(),
+    status: v.union(
+      v.literal("pending"),    // asked, waiting for the partner to accept
+      v.literal("open"),       // both at the table, editing offers
+      v.literal("completed"),
+      v.literal("cancelled")
+    ),
+    initiatorOffer: v.object({
+      items: v.array(v.object({ itemDefName: v.string(), quantity: v.number() })),
+      currency: v.record(v.string(), v.number()), // currency-name -> amount
+    }),
+    partnerOffer: v.object({
+      items: v.array(v.object({ itemDefName: v.string(), quantity: v.number() })),
+      currency: v.record(v.string(), v.number()), // currency-name -> amount
+    }),
+    initiatorConfirmed: v.boolean(), // reset whenever either offer changes
+    partnerConfirmed: v.boolean(),
+    cancelReason: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_initiator_status", ["initiatorId", "status"])
+    .index("by_partner_status", ["partnerId", "status"]),
+
+  // Audit trail: one row per completed trade, with exactly what changed hands
+  tradeLog: defineTable({
+    tradeId: v.id("trades"),
+    initiatorId: v.id("profiles"),
+    partnerId: v.id("profiles"),
+    initiatorName: v.string(),   // denormalized: names at the time of the trade
+    partnerName: v.string(),
+    mapName: v.string(),
+    initiatorGave: v.object({
+      items: v.array(v.object({ itemDefName: v.string(), quantity: v.number() })),
+      currency: v.record(v.string(), v.number()), // currency-name -> amount
+    }),
+    partnerGave: v.object({
+      items: v.array(v.object({ itemDefName: v.string(), quantity: v.number() })),
+      currency: v.record(v.string(), v.number()), // currency-name -> amount
+    }),
+    completedAt: v.number(),
+  })
+    .index("by_initiator", ["initiatorId", "completedAt"])
+    .index("by_partner", ["partnerId", "completedAt"]),
 });
@@ -0,0 +1,187 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { requireSuperuser } from "./lib/requireSuperuser";
+import { isInteractionFailure, resolveOwnedProfile } from "./lib/interaction";
+import { removeItems } from "./mechanics/inventory";
+import {
+  MANA_REGEN_PER_SEC,
+  SKILL_BAR_SLOTS,
+  STAMINA_REGEN_PER_SEC,
+  currentResources,
+  getSkillDef,
+  knownSkills,
+  skillBar,
+} from "./lib/skills";
+
+// ---------------------------------------------------------------------------
+// Skill validators (must match schema)
+// ---------------------------------------------------------------------------
+
+const skillKindValidator = v.union(v.literal("damage"), v.literal("heal"));
+
+const skillAreaValidator = v.union(
+  v.literal("single"),
+  v.literal("circle"),
+  v.literal("cone"),
+  v.literal("self"),
+);
+
+const skillResourceValidator = v.union(v.literal("mana"), v.literal("stamina"));
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/** List all skill definitions */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db.query("skillDefs").collect();
+  },
+});
+
+/**
+ * A player's skills for the HUD bar, hotkeys and character panel: what they
+ * know, their bar, when each skill is ready, and their pools with regen
+ * rates (clients extrapolate from `resourcesAt`).
+ */
+export const getLoadout = query({
+  args: { profileId: v.id("profiles") },
+  handler: async (ctx, { profileId }) => {
+    const profile = await ctx.db.get(profileId);
+    if (!profile) return null;
+    const known = await knownSkills(ctx, profile);
+    const resourcesAt = profile.resourcesAt ?? 0;
+    return {
+      skills: known.map((s) => ({
+        name: s.name,
+        displayName: s.displayName,
+        description: s.description,
+        kind: s.kind,
+        area: s.area,
+        rangePx: s.rangePx,
+        resource: s.resource,
+        cost: s.cost,
+        cooldownMs: s.cooldownMs,
+        animation: s.animation,
+        iconUrl: s.iconUrl,
+        readyAt: profile.skillCooldowns?.[s.name] ?? 0,
+      })),
+      skillBar: skillBar(profile, known),
+      resources: {
+        ...currentResources(profile, resourcesAt),
+        at: resourcesAt,
+        manaRegenPerSec: MANA_REGEN_PER_SEC,
+        staminaRegenPerSec: STAMINA_REGEN_PER_SEC,
+      },
+    };
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Mutations
+// ---------------------------------------------------------------------------
+
+/** Save (upsert) a skill definition. Requires admin. */
+export const save = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    name: v.string(),
+    displayName: v.string(),
+    description: v.string(),
+    kind: skillKindValidator,
+    power: v.number(),
+    atkScale: v.number(),
+    rangePx: v.number(),
+    area: skillAreaValidator,
+    radiusPx: v.optional(v.number()),
+    resource: skillResourceValidator,
+    cost: v.number(),
+    cooldownMs: v.number(),
+    animation: v.optional(v.string()),
+    iconUrl: v.optional(v.string()),
+    learnLevel: v.optional(v.number()),
+    learnItem: v.optional(v.string()),
+    effects: v.optional(v.array(v.object({
+      type: v.string(),
+      value: v.optional(v.number()),
+      duration: v.optional(v.number()),
+    }))),
+  },
+  handler: async (ctx, { profileId, ...fields }) => {
+    await requireSuperuser(ctx, profileId);
+    const existing = await getSkillDef(ctx, fields.name);
+    const data = { ...fields, updatedAt: Date.now() };
+    if (existing) {
+      await ctx.db.replace(existing._id, data);
+      return existing._id;
+    }
+    return await ctx.db.insert("skillDefs", data);
+  },
+});
+
+/** Delete a skill definition. Requires admin. */
+export const remove = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    id: v.id("skillDefs"),
+  },
+  handler: async (ctx, { profileId, id }) => {
+    await requireSuperuser(ctx, profileId);
+    await ctx.db.delete(id);
+  },
+});
+
+/** Bind a known skill to a hotkey slot (0-based), or clear the slot */
+export const bindHotkey = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    slot: v.number(),
+    skillName: v.optional(v.string()),
+  },
+  handler: async (ctx, { profileId, slot, skillName }) => {
+    const profile = await resolveOwnedProfile(ctx, profileId);
+    if (isInteractionFailure(profile)) return profile;
+    if (!Number.isInteger(slot) || slot < 0 || slot >= SKILL_BAR_SLOTS) {
+      return { success: false as const, reason: "No such hotkey slot." };
+    }
+    const known = await knownSkills(ctx, profile);
+    if (skillName && !known.some((s) => s.name === skillName)) {
+      return { success: false as const, reason: "You don't know that skill." };
+    }
+    // A skill sits in one slot at a time
+    const bar = skillBar(profile, known).map((name) => (name === skillName ? "" : name));
+    bar[slot] = skillName ?? "";
+    await ctx.db.patch(profileId, { skillBar: bar });
+    return { success: true as const, skillBar: bar };
+  },
+});
+
+/** Read a skill-teaching item (tome, scroll): consumes one and learns its skill */
+export const learnFromItem = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    itemName: v.string(),
+  },
+  handler: async (ctx, { profileId, itemName }) => {
+    const profile = await resolveOwnedProfile(ctx, profileId);
+    if (isInteractionFailure(profile)) return profile;
+    const skill = (await ctx.db.query("skillDefs").collect()).find((s) => s.learnItem === itemName);
+    if (!skill) return { success: false as const, reason: "That item doesn't teach a skill." };
+    if ((profile.skills ?? []).includes(skill.name)) {
+      return { success: false as const, reason: `You already know ${skill.displayName}.` };
+    }
+
+    const taken = await removeItems(ctx, profileId, itemName, 1);
+    if (!taken.success) return { success: false as const, reason: "You don't have that item." };
+    const { items } = taken;
+
+    const skills = [...(profile.skills ?? []), skill.name];
+    // Drop it into the first free hotkey slot
+    const bar = skillBar(profile, await knownSkills(ctx, profile));
+    const free = bar.indexOf("");
+    if (free >= 0 && !bar.includes(skill.name)) bar[free] = skill.name;
+    await ctx.db.patch(profileId, { skills, skillBar: bar });
+    return { success: true as const, skillName: skill.name, displayName: skill.displayName, items, skillBar: bar };
+  },
+});
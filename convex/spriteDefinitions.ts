@@ -90,6 +90,8 @@ export const save = mutation({
     onAnimation: v.optional(v.string()),
     offAnimation: v.optional(v.string()),
     onSoundUrl: v.optional(v.string()),
+    craftingStation: v.optional(v.string()),
+    container: v.optional(v.boolean()),
     // Door
     isDoor: v.optional(v.boolean()),
     doorClosedAnimation: v.optional(v.string()),
@@ -1,5 +1,7 @@
 import { v } from "convex/values";
 import { mutation, query } from "../_generated/server";
+import { isInteractionFailure, resolveOwnedProfile } from "../lib/interaction";
+import { creditWallet } from "../mechanics/economy";
 
 export const list = query({
   args: {},
@@ -63,6 +65,11 @@ export const startQuest = mutation({
   },
 });
 
+/**
+ * Move a quest on a step (recording the choice made, if any). Finishing
+ * the last step completes it and pays its `rewards.currency` into the
+ * player's wallet.
+ */
 export const advanceQuest = mutation({
   args: {
     progressId: v.id("questProgress"),
@@ -71,6 +78,9 @@ export const advanceQuest = mutation({
   handler: async (ctx, { progressId, choice }) => {
     const progress = await ctx.db.get(progressId);
     if (!progress || progress.status !== "active") return;
+    // Completing pays out, so only the player's own progress moves
+    const owner = await resolveOwnedProfile(ctx, progress.profileId);
+    if (isInteractionFailure(owner)) return;
 
     const quest = await ctx.db.get(progress.questId);
     if (!quest) return;
@@ -89,5 +99,10 @@ export const advanceQuest = mutation({
       updates.status = "completed";
     }
     await ctx.db.patch(progressId, updates);
+    if (updates.status === "completed") {
+      for (const [currency, amount] of Object.entries(quest.rewards.currency ?? {})) {
+        if (amount > 0) await creditWallet(ctx, progress.profileId, currency, amount);
+      }
+    }
   },
 });
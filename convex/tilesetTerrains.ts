@@ -0,0 +1,76 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { requireSuperuser } from "./lib/requireSuperuser";
+
+// ---------------------------------------------------------------------------
+// Tileset terrain metadata (autotile brush). Tilesets are shared by every
+// map, so edits are superuser-only; anyone can read.
+// ---------------------------------------------------------------------------
+
+const terrainTileValidator = v.object({
+  tileIndex: v.number(),
+  corners: v.number(),
+});
+
+/** All terrains defined for a tileset */
+export const listByTileset = query({
+  args: { tilesetUrl: v.string() },
+  handler: async (ctx, { tilesetUrl }) => {
+    return await ctx.db
+      .query("tilesetTerrains")
+      .withIndex("by_tileset", (q) => q.eq("tilesetUrl", tilesetUrl))
+      .collect();
+  },
+});
+
+/** Create or update a terrain. Pass `id` to update (and rename) an existing one. */
+export const save = mutation({
+  args: {
+    profileId: v.id("profiles"),
+    id: v.optional(v.id("tilesetTerrains")),
+    tilesetUrl: v.string(),
+    name: v.string(),
+    tiles: v.array(terrainTileValidator),
+  },
+  handler: async (ctx, { profileId, id, tilesetUrl, name, tiles }) => {
+    await requireSuperuser(ctx, profileId);
+    name = name.trim();
+    if (!name) throw new Error("Terrain name is required");
+    for (const t of tiles) {
+      if (!Number.isInteger(t.tileIndex) || t.tileIndex < 0) {
+        throw new Error(`Invalid tile index ${t.tileIndex}`);
+      }
+      if (!Number.isInteger(t.corners) || t.corners < 0 || t.corners > 15) {
+        throw new Error(`Invalid corner mask ${t.corners} for tile ${t.tileIndex}`);
+      }
+    }
+
+    const siblings = await ctx.db
+      .query("tilesetTerrains")
+      .withIndex("by_tileset", (q) => q.eq("tilesetUrl", tilesetUrl))
+      .collect();
+    const clash = siblings.find((t) => t.name === name && t._id !== id);
+    if (clash) throw new Error(`Terrain "${name}" already exists for this tileset`);
+
+    if (id) {
+      const existing = await ctx.db.get(id);
+      if (!existing) throw new Error("Terrain not found");
+      await ctx.db.patch(id, { name, tiles, updatedAt: Date.now() });
+      return id;
+    }
+    return await ctx.db.insert("tilesetTerrains", {
+      tilesetUrl,
+      name,
+      tiles,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const remove = mutation({
+  args: { profileId: v.id("profiles"), id: v.id("tilesetTerrains") },
+  handler: async (ctx, { profileId, id }) => {
+    await requireSuperuser(ctx, profileId);
+    await ctx.db.delete(id);
+  },
+});
@@ -2,7 +2,14 @@ import { v } from "convex/values";
 import { mutation, query, internalMutation } from "./_generated/server";
 import { internal } from "./_generated/api";
 import { requireSuperuser } from "./lib/requireSuperuser";
-import { getAuthUserId } from "@convex-dev/auth/server";
+import {
+  ITEM_PICKUP_RANGE_PX,
+  checkInRange,
+  interactionFailure,
+  isInteractionFailure,
+  resolvePlayerPosition,
+} from "./lib/interaction";
+import { addItems } from "./mechanics/inventory";
 
 // ---------------------------------------------------------------------------
 // Queries
@@ -139,7 +146,8 @@ export const bulkSave = mutation({
 });
 
 /**
- * Pick up a world item. Any player can do this.
+ * Pick up a world item. Any player can do this, from within reach of it
+ * (measured from their server-side presence position).
  * Adds the item to the player's inventory and marks it as picked up.
  */
 export const pickup = mutation({
@@ -148,11 +156,13 @@ export const pickup = mutation({
     worldItemId: v.id("worldItems"),
   },
   handler: async (ctx, { profileId, worldItemId }) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) return { success: false, reason: "Not authenticated" };
+    const player = await resolvePlayerPosition(ctx, profileId);
+    if (isInteractionFailure(player)) return player;
 
     const worldItem = await ctx.db.get(worldItemId);
-    if (!worldItem) return { success: false, reason: "Item not found" };
+    if (!worldItem) return interactionFailure("not_found", "Item not found");
+    const tooFar = checkInRange(player, worldItem, ITEM_PICKUP_RANGE_PX, "item");
+    if (tooFar) return tooFar;
     const itemDef = await ctx.db
       .query("itemDefs")
       .withIndex("by_name", (q) => q.eq("name", worldItem.itemDefName))
@@ -161,37 +171,18 @@ export const pickup = mutation({
     // Check if already picked up (and not respawned)
     if (worldItem.pickedUpAt) {
       if (!worldItem.respawn) {
-        return { success: false, reason: "Already picked up" };
+        return interactionFailure("not_found", "Already picked up");
       }
       // Check respawn timer (use same default as the scheduler)
       const respawnMs = worldItem.respawnMs ?? 300_000;
       if (Date.now() - worldItem.pickedUpAt < respawnMs) {
-        return { success: false, reason: "Not yet respawned" };
+        return interactionFailure("not_found", "Not yet respawned");
       }
     }
 
-    // Add to player inventory
-    const profile = await ctx.db.get(profileId);
-    if (!profile) return { success: false, reason: "Profile not found" };
-    if (profile.userId !== userId) {
-      return { success: false, reason: "Cannot pick up items for another profile" };
-    }
-
-    const items = [...profile.items];
-    const existing = items.find((i) => i.name === worldItem.itemDefName);
-    if (existing) {
-      existing.quantity += worldItem.quantity;
-    } else {
-      items.push({ name: worldItem.itemDefName, quantity: worldItem.quantity });
-    }
-    await ctx.db.patch(profileId, { items });
-
-    // Quest progress: item pickup/objective tracking.
-    await ctx.runMutation(internal.quests.recordItemProgress, {
-      profileId,
-      itemDefName: worldItem.itemDefName,
-      quantity: worldItem.quantity,
-    });
+    // Add to player inventory (quest item progress is recorded there)
+    const added = await addItems(ctx, profileId, worldItem.itemDefName, worldItem.quantity);
+    if (!added.success) return interactionFailure("inventory_full", added.reason);
 
     // Mark as picked up (or delete if non-respawning)
     if (worldItem.respawn) {
@@ -214,6 +205,7 @@ export const pickup = mutation({
       quantity: worldItem.quantity,
       respawns: !!worldItem.respawn,
       pickupSoundUrl: itemDef?.pickupSoundUrl,
+      items: added.items,
     };
   },
 });
@@ -0,0 +1,181 @@
+#!/usr/bin/env node
+/**
+ * Generate a map procedurally (BSP dungeon, cellular-automata caves or a
+ * noise overworld). The same options always produce the same map.
+ *
+ * Reads ADMIN_API_KEY from process.env, with fallback to .env.local
+ * (not needed with --out).
+ *
+ * Usage:
+ *   npm run maps:generate -- <map> --algorithm <bsp|caves|overworld> --seed <seed>
+ *       [--width 60] [--height 40] [--tileset <url>] [--tile <px>]
+ *       [--palette <file.json>] [--floor 1,2] [--wall 3] [--water ..] [--shore ..]
+ *       [--tree ..] [--decor ..] [--overlay ..]
+ *       [--entry <map>:<spawn>] [--exit <map>:<spawn>]
+ *       [--out <file.json>] [--overwrite]
+ *
+ * --out writes the generated map fields to a file instead of saving (handy
+ * for diffing seeds). Without it the map is created, or replaced with
+ * --overwrite. The palette file is a JSON object of role → tile indices;
+ * role flags override it. Generation rules live in convex/lib/mapGenerator.ts.
+ */
+import { execSync } from "child_process";
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { resolve, dirname } from "path";
+
+const ROOT = resolve(dirname(new URL(import.meta.url).pathname), "..");
+const PALETTE_ROLES = ["floor", "wall", "water", "shore", "tree", "decor", "overlay"];
+
+function readEnvLocalAdminKey() {
+  const envPath = resolve(ROOT, ".env.local");
+  let content = "";
+  try {
+    content = readFileSync(envPath, "utf8");
+  } catch {
+    return undefined;
+  }
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+    const eq = line.indexOf("=");
+    if (eq <= 0) continue;
+    const key = line.slice(0, eq).trim();
+    if (key !== "ADMIN_API_KEY") continue;
+    let value = line.slice(eq + 1).trim();
+    if (
+      (value.startsWith('"') && value.endsWith('"')) ||
+      (value.startsWith("'") && value.endsWith("'"))
+    ) {
+      value = value.slice(1, -1);
+    }
+    return value;
+  }
+  return undefined;
+}
+
+function parseJsonFromConvexOutput(output) {
+  const text = String(output ?? "").trim();
+  if (!text) throw new Error("Empty response from convex.");
+  try {
+    return JSON.parse(text);
+  } catch {
+    // fall through
+  }
+  const lines = text.split("\n");
+  for (let i = lines.length - 1; i >= 0; i--) {
+    try {
+      return JSON.parse(lines[i]);
+    } catch {
+      // continue scanning
+    }
+  }
+  throw new Error("Could not parse JSON from convex output.");
+}
+
+function convexRun(fnName, args) {
+  const argsJson = JSON.stringify(args).replace(/'/g, "'\\''");
+  const out = execSync(`npx convex run "${fnName}" '${argsJson}'`, {
+    cwd: ROOT,
+    encoding: "utf8",
+    stdio: ["pipe", "pipe", "pipe"],
+    shell: true,
+    maxBuffer: 256 * 1024 * 1024,
+  });
+  return parseJsonFromConvexOutput(out);
+}
+
+/** Read width/height from a PNG's IHDR chunk. */
+function pngSize(path) {
+  const buf = readFileSync(path);
+  if (buf.length < 24 || buf.toString("ascii", 1, 4) !== "PNG") return undefined;
+  return { imageWidth: buf.readUInt32BE(16), imageHeight: buf.readUInt32BE(20) };
+}
+
+function parseArgs(argv) {
+  const positional = [];
+  const flags = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--overwrite") flags.overwrite = true;
+    else if (arg.startsWith("--")) flags[arg.slice(2)] = argv[++i];
+    else positional.push(arg);
+  }
+  return { positional, flags };
+}
+
+function parseTileList(role, text) {
+  const tiles = String(text).split(",").map((s) => s.trim()).filter(Boolean).map(Number);
+  if (tiles.some((t) => !Number.isInteger(t))) throw new Error(`--${role} must be a comma-separated list of tile indices`);
+  return tiles;
+}
+
+function parseTarget(flag, text) {
+  const [targetMap, targetSpawn] = String(text).split(":");
+  if (!targetMap || !targetSpawn) throw new Error(`--${flag} must look like <map>:<spawn>`);
+  return { targetMap, targetSpawn };
+}
+
+function usage() {
+  console.error("Usage:");
+  console.error("  node scripts/generate-map.mjs <map> --algorithm <bsp|caves|overworld> --seed <seed>");
+  console.error("      [--width 60] [--height 40] [--tileset <url>] [--tile <px>]");
+  console.error("      [--palette <file.json>] [--floor 1,2] [--wall 3] [--water ..] [--shore ..] [--tree ..] [--decor ..] [--overlay ..]");
+  console.error("      [--entry <map>:<spawn>] [--exit <map>:<spawn>] [--out <file.json>] [--overwrite]");
+  process.exit(1);
+}
+
+const { positional, flags } = parseArgs(process.argv.slice(2));
+const name = positional[0];
+if (!name || !flags.algorithm || !flags.seed) usage();
+
+try {
+  const tilesetUrl = flags.tileset ?? "/assets/tilesets/fantasy-interior.png";
+  const size = pngSize(resolve(ROOT, "public", decodeURI(tilesetUrl).replace(/^\//, "")));
+  if (!size) throw new Error(`Could not read tileset image for ${tilesetUrl}`);
+  const tilePx = Number(flags.tile ?? 24);
+
+  const palette = flags.palette ? JSON.parse(readFileSync(resolve(flags.palette), "utf8")) : {};
+  for (const role of PALETTE_ROLES) {
+    if (flags[role] !== undefined) palette[role] = parseTileList(role, flags[role]);
+  }
+
+  const generator = {
+    algorithm: flags.algorithm,
+    seed: String(flags.seed),
+    width: Number(flags.width ?? 60),
+    height: Number(flags.height ?? 40),
+    tileWidth: tilePx,
+    tileHeight: tilePx,
+    tilesetUrl,
+    tilesetPxW: size.imageWidth,
+    tilesetPxH: size.imageHeight,
+    palette,
+    ...(flags.entry ? { entry: parseTarget("entry", flags.entry) } : {}),
+    ...(flags.exit ? { exit: parseTarget("exit", flags.exit) } : {}),
+  };
+
+  if (flags.out) {
+    const outPath = resolve(flags.out);
+    const result = convexRun("maps:previewGenerated", { name, generator });
+    mkdirSync(dirname(outPath), { recursive: true });
+    writeFileSync(outPath, JSON.stringify(result.map, null, 2) + "\n", "utf8");
+    console.log(`${result.summary} → ${outPath}`);
+  } else {
+    const ADMIN_API_KEY = process.env.ADMIN_API_KEY || readEnvLocalAdminKey();
+    if (!ADMIN_API_KEY) {
+      console.error("Error: ADMIN_API_KEY not found in env or .env.local.");
+      process.exit(1);
+    }
+    const result = convexRun("admin:generateMap", {
+      adminKey: ADMIN_API_KEY,
+      name,
+      generator,
+      overwrite: !!flags.overwrite,
+    });
+    console.log(`${result.created ? "Created" : "Regenerated"} map "${result.mapName}": ${result.summary}`);
+  }
+} catch (err) {
+  console.error("Map generation failed:", err?.stderr?.toString?.() || err?.message || err);
+  process.exit(1);
+}
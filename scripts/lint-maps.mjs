@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+/**
+ * Lint maps for broken worlds: portals to missing spawns, unreachable or
+ * blocked spawns, objects / items off the map or inside walls, NPCs without
+ * a sprite or profile, wrongly sized layers and tiles outside the tileset.
+ * Checks live in convex/lib/mapLint.ts.
+ *
+ * Exits with status 1 when any map has errors (warnings don't fail).
+ *
+ * Usage:
+ *   npm run lint:maps                 # every map
+ *   npm run lint:maps -- <map> [...]  # only these maps
+ */
+import { execSync } from "child_process";
+import { existsSync, readFileSync, readdirSync } from "fs";
+import { resolve, dirname, join, relative } from "path";
+
+const ROOT = resolve(dirname(new URL(import.meta.url).pathname), "..");
+const TILESET_DIR = resolve(ROOT, "public", "assets", "tilesets");
+
+function parseJsonFromConvexOutput(output) {
+  const text = String(output ?? "").trim();
+  if (!text) throw new Error("Empty response from convex.");
+  try {
+    return JSON.parse(text);
+  } catch {
+    // fall through
+  }
+  const lines = text.split("\n");
+  for (let i = lines.length - 1; i >= 0; i--) {
+    try {
+      return JSON.parse(lines[i]);
+    } catch {
+      // continue scanning
+    }
+  }
+  throw new Error("Could not parse JSON from convex output.");
+}
+
+function convexRun(fnName, args) {
+  const argsJson = JSON.stringify(args).replace(/'/g, "'\\''");
+  const out = execSync(`npx convex run "${fnName}" '${argsJson}'`, {
+    cwd: ROOT,
+    encoding: "utf8",
+    stdio: ["pipe", "pipe", "pipe"],
+    shell: true,
+    maxBuffer: 256 * 1024 * 1024,
+  });
+  return parseJsonFromConvexOutput(out);
+}
+
+/** Read width/height from a PNG's IHDR chunk. */
+function pngSize(path) {
+  const buf = readFileSync(path);
+  if (buf.length < 24 || buf.toString("ascii", 1, 4) !== "PNG") return undefined;
+  return { imageWidth: buf.readUInt32BE(16), imageHeight: buf.readUInt32BE(20) };
+}
+
+/** Image sizes for every tileset PNG under public/, keyed by asset URL. */
+function collectTilesetDims(dir = TILESET_DIR) {
+  if (!existsSync(dir)) return [];
+  const out = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const full = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      out.push(...collectTilesetDims(full));
+    } else if (entry.name.toLowerCase().endsWith(".png")) {
+      const size = pngSize(full);
+      if (size) out.push({ url: "/" + relative(resolve(ROOT, "public"), full).split("\\").join("/"), ...size });
+    }
+  }
+  return out;
+}
+
+try {
+  const names = process.argv.slice(2);
+  const mapNames = names.length > 0
+    ? names
+    : convexRun("maps:list", {}).map((m) => m.name).sort((a, b) => a.localeCompare(b));
+  const tilesetDims = collectTilesetDims();
+
+  let totalErrors = 0;
+  let totalWarnings = 0;
+  for (const name of mapNames) {
+    const issues = convexRun("maps:lint", { name, tilesetDims });
+    const errors = issues.filter((i) => i.severity === "error").length;
+    const warnings = issues.length - errors;
+    totalErrors += errors;
+    totalWarnings += warnings;
+
+    if (issues.length === 0) {
+      console.log(`✓ ${name}`);
+      continue;
+    }
+    console.log(`${errors > 0 ? "✖" : "⚠"} ${name} (${errors} error(s), ${warnings} warning(s))`);
+    for (const issue of issues) {
+      const where = issue.x !== undefined ? ` @ ${issue.x},${issue.y}` : "";
+      console.log(`    ${issue.severity.padEnd(7)} ${issue.code.padEnd(20)} ${issue.message}${where}`);
+    }
+  }
+
+  console.log(`\n${mapNames.length} map(s): ${totalErrors} error(s), ${totalWarnings} warning(s)`);
+  if (totalErrors > 0) process.exit(1);
+} catch (err) {
+  console.error("Map lint failed:", err?.stderr?.toString?.() || err?.message || err);
+  process.exit(1);
+}
@@ -0,0 +1,172 @@
+#!/usr/bin/env node
+/**
+ * Import / export maps in Tiled (https://www.mapeditor.org) format.
+ *
+ * Reads ADMIN_API_KEY from process.env, with fallback to .env.local
+ * (only needed for import).
+ *
+ * Usage:
+ *   npm run maps:import-tiled -- <file.tmj|file.tmx> [--name <map>] [--overwrite]
+ *   npm run maps:export-tiled -- <map> [--out <file.tmj|file.tmx>]
+ *
+ * The format is picked from the file extension. Exported files reference
+ * tilesets by their /assets URL; conversion rules live in convex/lib/tiled.ts.
+ */
+import { execSync } from "child_process";
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from "fs";
+import { resolve, dirname, basename, extname, join, relative } from "path";
+
+const ROOT = resolve(dirname(new URL(import.meta.url).pathname), "..");
+const TILESET_DIR = resolve(ROOT, "public", "assets", "tilesets");
+
+function readEnvLocalAdminKey() {
+  const envPath = resolve(ROOT, ".env.local");
+  let content = "";
+  try {
+    content = readFileSync(envPath, "utf8");
+  } catch {
+    return undefined;
+  }
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+    const eq = line.indexOf("=");
+    if (eq <= 0) continue;
+    const key = line.slice(0, eq).trim();
+    if (key !== "ADMIN_API_KEY") continue;
+    let value = line.slice(eq + 1).trim();
+    if (
+      (value.startsWith('"') && value.endsWith('"')) ||
+      (value.startsWith("'") && value.endsWith("'"))
+    ) {
+      value = value.slice(1, -1);
+    }
+    return value;
+  }
+  return undefined;
+}
+
+function parseJsonFromConvexOutput(output) {
+  const text = String(output ?? "").trim();
+  if (!text) throw new Error("Empty response from convex.");
+  try {
+    return JSON.parse(text);
+  } catch {
+    // fall through
+  }
+  const lines = text.split("\n");
+  for (let i = lines.length - 1; i >= 0; i--) {
+    try {
+      return JSON.parse(lines[i]);
+    } catch {
+      // continue scanning
+    }
+  }
+  throw new Error("Could not parse JSON from convex output.");
+}
+
+function convexRun(fnName, args) {
+  // Escape single quotes for the shell — Tiled names may contain apostrophes
+  const argsJson = JSON.stringify(args).replace(/'/g, "'\\''");
+  const out = execSync(`npx convex run "${fnName}" '${argsJson}'`, {
+    cwd: ROOT,
+    encoding: "utf8",
+    stdio: ["pipe", "pipe", "pipe"],
+    shell: true,
+    maxBuffer: 256 * 1024 * 1024,
+  });
+  return parseJsonFromConvexOutput(out);
+}
+
+function formatFromPath(path) {
+  const ext = extname(path).toLowerCase();
+  if (ext === ".tmx") return "tmx";
+  if (ext === ".tmj" || ext === ".json") return "tmj";
+  throw new Error(`Unsupported file extension "${ext}" (expected .tmj, .json or .tmx)`);
+}
+
+/** Read width/height from a PNG's IHDR chunk. */
+function pngSize(path) {
+  const buf = readFileSync(path);
+  if (buf.length < 24 || buf.toString("ascii", 1, 4) !== "PNG") return undefined;
+  return { imageWidth: buf.readUInt32BE(16), imageHeight: buf.readUInt32BE(20) };
+}
+
+/** Image sizes for every tileset PNG under public/, keyed by asset URL. */
+function collectTilesetDims(dir = TILESET_DIR) {
+  if (!existsSync(dir)) return [];
+  const out = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const full = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      out.push(...collectTilesetDims(full));
+    } else if (entry.name.toLowerCase().endsWith(".png")) {
+      const size = pngSize(full);
+      if (size) out.push({ url: "/" + relative(resolve(ROOT, "public"), full).split("\\").join("/"), ...size });
+    }
+  }
+  return out;
+}
+
+function parseArgs(argv) {
+  const positional = [];
+  const flags = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--overwrite") flags.overwrite = true;
+    else if (arg === "--name" || arg === "--out") flags[arg.slice(2)] = argv[++i];
+    else positional.push(arg);
+  }
+  return { positional, flags };
+}
+
+function usage() {
+  console.error("Usage:");
+  console.error("  node scripts/tiled-map.mjs import <file.tmj|file.tmx> [--name <map>] [--overwrite]");
+  console.error("  node scripts/tiled-map.mjs export <map> [--out <file.tmj|file.tmx>]");
+  process.exit(1);
+}
+
+const [command, ...rest] = process.argv.slice(2);
+const { positional, flags } = parseArgs(rest);
+if (!positional[0]) usage();
+
+try {
+  if (command === "import") {
+    const ADMIN_API_KEY = process.env.ADMIN_API_KEY || readEnvLocalAdminKey();
+    if (!ADMIN_API_KEY) {
+      console.error("Error: ADMIN_API_KEY not found in env or .env.local.");
+      process.exit(1);
+    }
+    const inPath = resolve(positional[0]);
+    const format = formatFromPath(inPath);
+    const name = flags.name ?? basename(inPath, extname(inPath));
+    const result = convexRun("admin:importTiledMap", {
+      adminKey: ADMIN_API_KEY,
+      name,
+      format,
+      source: readFileSync(inPath, "utf8"),
+      overwrite: !!flags.overwrite,
+    });
+    for (const w of result.warnings ?? []) console.warn(`warning: ${w}`);
+    console.log(`${result.created ? "Created" : "Replaced"} map "${result.mapName}" from ${inPath}`);
+  } else if (command === "export") {
+    const name = positional[0];
+    const outPath = resolve(flags.out ?? resolve(ROOT, "dumps", `${name}.tmj`));
+    const format = formatFromPath(outPath);
+    const text = convexRun("maps:exportTiled", {
+      name,
+      format,
+      tilesetDims: collectTilesetDims(),
+    });
+    mkdirSync(dirname(outPath), { recursive: true });
+    writeFileSync(outPath, text, "utf8");
+    console.log(`Exported map "${name}" to ${outPath}`);
+  } else {
+    usage();
+  }
+} catch (err) {
+  console.error(`Tiled ${command} failed:`, err?.stderr?.toString?.() || err?.message || err);
+  process.exit(1);
+}
@@ -0,0 +1,104 @@
+/**
+ * Undo/redo stacks for the map editor.
+ *
+ * Every edit is pushed as a command that knows how to undo and redo itself.
+ * Commands hold references to the in-memory map data (layers, collision mask,
+ * placed objects) rather than Convex ids, so history stays valid across saves.
+ */
+import type { MapLayer } from "../engine/types.ts";
+
+export interface EditCommand {
+  label: string;
+  undo(): void;
+  redo(): void;
+}
+
+const DEFAULT_LIMIT = 200;
+
+export class EditHistory {
+  private undoStack: EditCommand[] = [];
+  private redoStack: EditCommand[] = [];
+  private limit: number;
+
+  constructor(limit = DEFAULT_LIMIT) {
+    this.limit = limit;
+  }
+
+  /** Record an edit that has already been applied. Clears the redo stack. */
+  push(cmd: EditCommand) {
+    this.undoStack.push(cmd);
+    if (this.undoStack.length > this.limit) this.undoStack.shift();
+    this.redoStack = [];
+  }
+
+  undo(): EditCommand | null {
+    const cmd = this.undoStack.pop();
+    if (!cmd) return null;
+    cmd.undo();
+    this.redoStack.push(cmd);
+    return cmd;
+  }
+
+  redo(): EditCommand | null {
+    const cmd = this.redoStack.pop();
+    if (!cmd) return null;
+    cmd.redo();
+    this.undoStack.push(cmd);
+    return cmd;
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  get canUndo() { return this.undoStack.length > 0; }
+  get canRedo() { return this.redoStack.length > 0; }
+}
+
+// ---------------------------------------------------------------------------
+// Tile strokes
+// ---------------------------------------------------------------------------
+
+/** One cell change. `layer` is null for the collision mask. */
+export interface CellChange {
+  layer: MapLayer | null;
+  idx: number;
+  before: number | boolean;
+  after: number | boolean;
+}
+
+/**
+ * Collects the cell changes of a single drag (or fill) so they undo as one
+ * step. Re-painting a cell keeps its original `before` value.
+ */
+export class TileStroke {
+  readonly label: string;
+  private changes = new Map<MapLayer | null, Map<number, CellChange>>();
+
+  constructor(label: string) {
+    this.label = label;
+  }
+
+  record(layer: MapLayer | null, idx: number, before: number | boolean, after: number | boolean) {
+    let cells = this.changes.get(layer);
+    if (!cells) {
+      cells = new Map();
+      this.changes.set(layer, cells);
+    }
+    const prev = cells.get(idx);
+    if (prev) prev.after = after;
+    else cells.set(idx, { layer, idx, before, after });
+  }
+
+  /** Changes that actually alter the map (painting A→B→A is a no-op). */
+  list(): CellChange[] {
+    const out: CellChange[] = [];
+    for (const cells of this.changes.values()) {
+      for (const c of cells.values()) {
+        if (c.before !== c.after) out.push(c);
+      }
+    }
+    return out;
+  }
+}
@@ -0,0 +1,384 @@
+/**
+ * Live collaborative editing session for one map (see convex/mapEdits.ts).
+ *
+ * Local edits are queued as fine-grained ops and sent in small batches; ops
+ * from other editors arrive through the map's edit log and are handed to the
+ * editor to apply. While one of our own writes to a cell / object / marker
+ * is in flight, remote ops for it are held back and only applied if the
+ * server ordered them after ours — so every editor converges on the server's
+ * last-write-wins result.
+ */
+import { getConvexClient } from "../lib/convexClient.ts";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { ContainerConfig, LockRequirements } from "../engine/types.ts";
+
+/** Mirrors mapEditOpValidator in convex/mapEdits.ts */
+export type MapEditOp =
+  | { kind: "tile"; layer: string; x: number; y: number; tile: number }
+  | { kind: "collision"; x: number; y: number; blocked: boolean }
+  | {
+      kind: "object";
+      key: string;
+      spriteDefName: string;
+      x: number;
+      y: number;
+      layer: number;
+      instanceName?: string;
+      container?: ContainerConfig;
+      requirements?: LockRequirements;
+    }
+  | { kind: "objectRemove"; key: string }
+  | {
+      kind: "item";
+      key: string;
+      itemDefName: string;
+      x: number;
+      y: number;
+      quantity: number;
+      respawn?: boolean;
+      respawnMs?: number;
+    }
+  | { kind: "itemRemove"; key: string }
+  | {
+      kind: "portal";
+      portal: {
+        name: string;
+        x: number;
+        y: number;
+        width: number;
+        height: number;
+        targetMap: string;
+        targetSpawn: string;
+        direction?: string;
+        transition?: string;
+        requirements?: LockRequirements;
+      };
+    }
+  | { kind: "portalRemove"; name: string }
+  | { kind: "label"; label: { name: string; x: number; y: number; width: number; height: number } }
+  | { kind: "labelRemove"; name: string };
+
+export interface RemoteCursor {
+  clientId: string;
+  name: string;
+  x: number;
+  y: number;
+  tool: string;
+  color: number;
+}
+
+export interface MapCollabHooks {
+  /** Ops made by other editors, in server order */
+  onRemoteOps: (ops: MapEditOp[]) => void;
+  /** The map was replaced wholesale (full save, revert, or we fell behind the log) */
+  onReload: () => void;
+  /** An object / item sent under a client key was stored with this Convex id */
+  onIdAssigned: (key: string, id: string) => void;
+  onCursors: (cursors: RemoteCursor[]) => void;
+  onError: (message: string) => void;
+}
+
+const FLUSH_DELAY_MS = 100;
+const MAX_OPS_PER_PATCH = 2000;
+const CURSOR_THROTTLE_MS = 150;
+const CURSOR_HEARTBEAT_MS = 10_000;
+const CURSOR_STALE_MS = 30_000;
+/** Re-subscribe from the latest seq once this many log entries were replayed */
+const RESUBSCRIBE_AFTER = 100;
+
+const CURSOR_COLORS = [0xff6b6b, 0x4ecdc4, 0xffd93d, 0x6bcb77, 0x4d96ff, 0xc77dff, 0xff9f1c, 0xf15bb5];
+
+function cursorColor(profileId: string): number {
+  let h = 0;
+  for (let i = 0; i < profileId.length; i++) h = (h * 31 + profileId.charCodeAt(i)) >>> 0;
+  return CURSOR_COLORS[h % CURSOR_COLORS.length];
+}
+
+/** Identity of what an op writes — two ops with the same key overwrite each other. */
+function opTarget(op: MapEditOp): string {
+  switch (op.kind) {
+    case "tile": return `t:${op.layer}:${op.x}:${op.y}`;
+    case "collision": return `c:${op.x}:${op.y}`;
+    case "object":
+    case "objectRemove": return `o:${op.key}`;
+    case "item":
+    case "itemRemove": return `i:${op.key}`;
+    case "portal": return `p:${op.portal.name}`;
+    case "portalRemove": return `p:${op.name}`;
+    case "label": return `l:${op.label.name}`;
+    case "labelRemove": return `l:${op.name}`;
+  }
+}
+
+export class MapCollabSession {
+  readonly clientId = crypto.randomUUID();
+  readonly mapName: string;
+  private readonly profileId: Id<"profiles">;
+  private readonly hooks: MapCollabHooks;
+
+  private queue: MapEditOp[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private sending: Promise<void> | null = null;
+  /** Client key → Convex id for objects / items placed this session */
+  private idMap = new Map<string, string>();
+  /** Our unconfirmed writes per target */
+  private pending = new Map<string, number>();
+  /** Seq at which our latest confirmed write to a target was applied */
+  private ackedAt = new Map<string, number>();
+  /** Remote ops held back while we had a write to the same target in flight */
+  private deferred: { seq: number; op: MapEditOp }[] = [];
+
+  private appliedSeq: number;
+  private subscribedSeq: number;
+  private opsUnsub: (() => void) | null = null;
+  private cursorsUnsub: (() => void) | null = null;
+  private lastCursors: RemoteCursor[] = [];
+  private cursorRows: { clientId: string; profileId: string; name: string; x: number; y: number; tool: string; updatedAt: number }[] = [];
+
+  private cursor = { x: -1, y: -1, tool: "" };
+  private cursorSentAt = 0;
+  private cursorTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private stopped = false;
+
+  constructor(profileId: Id<"profiles">, mapName: string, editSeq: number, hooks: MapCollabHooks) {
+    this.profileId = profileId;
+    this.mapName = mapName;
+    this.appliedSeq = editSeq;
+    this.subscribedSeq = editSeq;
+    this.hooks = hooks;
+  }
+
+  start() {
+    this.subscribeOps();
+    const convex = getConvexClient();
+    this.cursorsUnsub = convex.onUpdate(
+      api.mapEdits.listCursors,
+      { mapName: this.mapName },
+      (rows) => {
+        this.cursorRows = rows.map((r) => ({ ...r, profileId: String(r.profileId) }));
+        this.emitCursors();
+      },
+      (err) => console.warn("Editor cursor subscription error:", err),
+    );
+    this.heartbeatTimer = setInterval(() => {
+      this.publishCursor();
+      this.emitCursors(); // drop cursors that went stale
+    }, CURSOR_HEARTBEAT_MS);
+  }
+
+  /** Stop listening and remove our cursor. Queued ops are still sent. */
+  stop() {
+    if (this.stopped) return;
+    this.stopped = true;
+    void this.flush();
+    this.opsUnsub?.();
+    this.opsUnsub = null;
+    this.cursorsUnsub?.();
+    this.cursorsUnsub = null;
+    if (this.cursorTimer) clearTimeout(this.cursorTimer);
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.cursorTimer = null;
+    this.heartbeatTimer = null;
+    getConvexClient().mutation(api.mapEdits.leaveCursor, { clientId: this.clientId }).catch(() => {});
+  }
+
+  // ---------------------------------------------------------------------------
+  // Outgoing edits
+  // ---------------------------------------------------------------------------
+
+  /** Queue local edits (already applied locally) for the server. */
+  send(ops: MapEditOp[]) {
+    if (ops.length === 0) return;
+    for (const op of ops) {
+      const resolved = this.resolveKey(op);
+      const target = opTarget(resolved);
+      this.pending.set(target, (this.pending.get(target) ?? 0) + 1);
+      this.queue.push(resolved);
+    }
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        void this.flush();
+      }, FLUSH_DELAY_MS);
+    }
+  }
+
+  /** Send everything queued so far; resolves once the server has applied it. */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    while (this.sending) await this.sending;
+    if (this.queue.length === 0) return;
+    this.sending = this.drain();
+    try {
+      await this.sending;
+    } finally {
+      this.sending = null;
+    }
+  }
+
+  private async drain() {
+    const convex = getConvexClient();
+    while (this.queue.length > 0) {
+      // Keys are resolved again: an earlier batch may have just created the object
+      const batch = this.queue.splice(0, MAX_OPS_PER_PATCH);
+      const targets = batch.map(opTarget);
+      const ops = batch.map((op) => JSON.parse(JSON.stringify(this.resolveKey(op))) as MapEditOp);
+      try {
+        const { seq, ids } = await convex.mutation(api.mapEdits.applyOps, {
+          profileId: this.profileId,
+          mapName: this.mapName,
+          clientId: this.clientId,
+          ops: ops as any,
+        });
+        for (const [key, id] of Object.entries(ids)) {
+          this.idMap.set(key, id);
+          this.hooks.onIdAssigned(key, id);
+        }
+        this.settle(targets, ops, seq);
+      } catch (err) {
+        console.warn("Failed to send map edits:", err);
+        this.settle(targets, [], -1);
+        this.hooks.onError(err instanceof Error ? err.message : String(err));
+        // Our local copy no longer matches the server — start over from it
+        this.hooks.onReload();
+        return;
+      }
+    }
+  }
+
+  private settle(targets: string[], applied: MapEditOp[], seq: number) {
+    for (const target of targets) {
+      const n = (this.pending.get(target) ?? 1) - 1;
+      if (n > 0) this.pending.set(target, n);
+      else this.pending.delete(target);
+    }
+    if (seq >= 0) {
+      for (const op of applied) this.ackedAt.set(opTarget(op), seq);
+    }
+
+    // Remote ops we held back: apply those the server ordered after our write
+    if (this.deferred.length === 0) return;
+    const ready: MapEditOp[] = [];
+    const waiting: typeof this.deferred = [];
+    for (const d of this.deferred) {
+      const target = opTarget(d.op);
+      if (this.pending.has(target)) waiting.push(d);
+      else if (this.accepts(d.op, d.seq)) ready.push(d.op);
+    }
+    this.deferred = waiting;
+    if (ready.length > 0) this.hooks.onRemoteOps(ready);
+  }
+
+  private resolveKey(op: MapEditOp): MapEditOp {
+    if (!("key" in op)) return op;
+    const id = this.idMap.get(op.key);
+    return id ? { ...op, key: id } : op;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Incoming edits
+  // ---------------------------------------------------------------------------
+
+  private subscribeOps() {
+    this.opsUnsub?.();
+    this.subscribedSeq = this.appliedSeq;
+    this.opsUnsub = getConvexClient().onUpdate(
+      api.mapEdits.opsSince,
+      { mapName: this.mapName, afterSeq: this.subscribedSeq },
+      (result) => this.handleEntries(result as any),
+      (err) => console.warn("Map edit subscription error:", err),
+    );
+  }
+
+  private handleEntries(result: {
+    entries: { seq: number; clientId: string; ops: (MapEditOp | { kind: "reload" })[] }[];
+    truncated: boolean;
+  }) {
+    if (this.stopped) return;
+    if (result.truncated) {
+      this.hooks.onReload();
+      return;
+    }
+
+    const incoming: MapEditOp[] = [];
+    for (const entry of result.entries) {
+      if (entry.seq <= this.appliedSeq) continue;
+      this.appliedSeq = entry.seq;
+      if (entry.clientId === this.clientId) continue;
+      if (entry.ops.some((op) => op.kind === "reload")) {
+        this.hooks.onReload();
+        return;
+      }
+      for (const op of entry.ops as MapEditOp[]) {
+        if (this.pending.has(opTarget(op))) this.deferred.push({ seq: entry.seq, op });
+        else if (this.accepts(op, entry.seq)) incoming.push(op);
+      }
+    }
+    if (incoming.length > 0) this.hooks.onRemoteOps(incoming);
+
+    // Acks at or below what we've replayed can no longer shadow anything
+    for (const [target, seq] of this.ackedAt) {
+      if (seq <= this.appliedSeq) this.ackedAt.delete(target);
+    }
+    if (this.appliedSeq - this.subscribedSeq >= RESUBSCRIBE_AFTER) this.subscribeOps();
+  }
+
+  private accepts(op: MapEditOp, seq: number): boolean {
+    const acked = this.ackedAt.get(opTarget(op));
+    return acked === undefined || acked < seq;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Cursors
+  // ---------------------------------------------------------------------------
+
+  /** Report our hovered tile (-1 when off the map) and active tool. */
+  setCursor(x: number, y: number, tool: string) {
+    if (x === this.cursor.x && y === this.cursor.y && tool === this.cursor.tool) return;
+    this.cursor = { x, y, tool };
+    const wait = CURSOR_THROTTLE_MS - (Date.now() - this.cursorSentAt);
+    if (wait <= 0) {
+      this.publishCursor();
+    } else if (!this.cursorTimer) {
+      this.cursorTimer = setTimeout(() => {
+        this.cursorTimer = null;
+        this.publishCursor();
+      }, wait);
+    }
+  }
+
+  private publishCursor() {
+    if (this.stopped || !this.cursor.tool) return;
+    this.cursorSentAt = Date.now();
+    getConvexClient()
+      .mutation(api.mapEdits.updateCursor, {
+        profileId: this.profileId,
+        mapName: this.mapName,
+        clientId: this.clientId,
+        ...this.cursor,
+      })
+      .catch((err) => console.warn("Editor cursor update failed:", err));
+  }
+
+  private emitCursors() {
+    const cutoff = Date.now() - CURSOR_STALE_MS;
+    const cursors = this.cursorRows
+      .filter((r) => r.clientId !== this.clientId && r.updatedAt >= cutoff && r.x >= 0 && r.y >= 0)
+      .map((r) => ({
+        clientId: r.clientId,
+        name: r.name,
+        x: r.x,
+        y: r.y,
+        tool: r.tool,
+        color: cursorColor(r.profileId),
+      }));
+    if (cursors.length === 0 && this.lastCursors.length === 0) return;
+    this.lastCursors = cursors;
+    this.hooks.onCursors(cursors);
+  }
+}
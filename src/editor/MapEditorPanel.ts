@@ -21,13 +21,47 @@ import {
   COMBAT_PLAYER_ATTACK_COOLDOWN_MIN_MS,
   COMBAT_PLAYER_ATTACK_COOLDOWN_MS,
 } from "../config/combat-config.ts";
+import { EditHistory, TileStroke, type CellChange, type EditCommand } from "./EditHistory.ts";
+import { MapCollabSession, type MapEditOp } from "./MapCollabSession.ts";
+import type { ContainerConfig, LockRequirements, MapData, MapLabel, Portal } from "../engine/types.ts";
+import { formatLootEntries, parseLootEntries } from "../mechanics/LootRoller.ts";
+import {
+  clampRect,
+  copyRegion,
+  floodFillCells,
+  getTileClipboard,
+  lineCells,
+  rectCells,
+  rectContains,
+  rectFromCorners,
+  resolveClipboardLayer,
+  setTileClipboard,
+  type TileCell,
+  type TileClipboard,
+  type TileRect,
+} from "./tileTools.ts";
+import {
+  applyTerrainBrush,
+  CORNER_BOTTOM_LEFT,
+  CORNER_BOTTOM_RIGHT,
+  CORNER_TOP_LEFT,
+  CORNER_TOP_RIGHT,
+  CORNERS_ALL,
+  type TerrainDef,
+} from "./terrain.ts";
 import "./MapEditor.css";
 import "./TilesetPicker.css";
 import "./LayerPanel.css";
 
-export type EditorTool = "paint" | "erase" | "collision" | "collision-erase" | "object" | "object-erase" | "npc" | "npc-erase" | "map" | "portal" | "portal-erase" | "label" | "label-erase" | "item" | "item-erase";
+export type EditorTool = "paint" | "terrain" | "erase" | "collision" | "collision-erase" | "fill" | "rect" | "rect-fill" | "line" | "select" | "object" | "object-erase" | "npc" | "npc-erase" | "map" | "history" | "portal" | "portal-erase" | "label" | "label-erase" | "item" | "item-erase";
 const TOOLS: { key: EditorTool; label: string }[] = [
   { key: "paint",        label: "🖌 Paint" },
+  { key: "terrain",      label: "⛰ Terrain" },
+  { key: "fill",         label: "🪣 Fill" },
+  { key: "rect",         label: "▭ Rect" },
+  { key: "rect-fill",    label: "■ Box" },
+  { key: "line",         label: "╱ Line" },
+  { key: "select",       label: "⬚ Select" },
   { key: "collision",    label: "🚧 Collision" },
   { key: "object",       label: "📦 Object" },
   { key: "npc",          label: "🧑 NPC" },
@@ -35,6 +69,7 @@ const TOOLS: { key: EditorTool; label: string }[] = [
   { key: "map",          label: "🗺 Map" },
   { key: "portal",       label: "🚪 Portal" },
   { key: "label",        label: "🏷 Label" },
+  { key: "history",      label: "🕘 History" },
 ];
 
 /** Delete sub-tools shown in the Delete dropdown */
@@ -48,6 +83,26 @@ const DELETE_OPTIONS: { key: EditorTool; label: string }[] = [
   { key: "label-erase",      label: "🏷 Label" },
 ];
 
+/** Row from api.mapRevisions.list */
+interface MapRevisionRow {
+  revision: number;
+  authorName?: string;
+  createdAt: number;
+  summary: string;
+}
+
+/** Problem found by maps.lint (mirrors convex/lib/mapLint.ts) */
+interface MapLintIssue {
+  severity: "error" | "warning";
+  code: string;
+  message: string;
+  x?: number;
+  y?: number;
+}
+
+/** Area tools: work on the active layer or the collision mask (see shapeTarget) */
+const SHAPE_TOOLS: EditorTool[] = ["fill", "rect", "rect-fill", "line"];
+
 /** Registry of available tilesets */
 export interface TilesetInfo {
   name: string;
@@ -74,6 +129,85 @@ export interface PlacedObject {
   y: number;              // world px
   layer: number;
   isOn?: boolean;         // toggle state for toggleable objects
+  container?: ContainerConfig; // what a container sprite holds
+  requirements?: LockRequirements; // what it takes to open a door
+}
+
+/** "gold-coin:20, torch" → item and quantity (default 1) */
+function parseStashLines(text: string): { itemDefName: string; quantity: number }[] {
+  return text.split(",").map((s) => s.trim()).filter(Boolean).map((entry) => {
+    const [itemDefName, quantity] = entry.split(":").map((s) => s.trim());
+    return { itemDefName, quantity: Math.max(1, parseInt(quantity) || 1) };
+  });
+}
+
+function formatStashLines(lines: { itemDefName: string; quantity: number }[]): string {
+  return lines.map((l) => (l.quantity === 1 ? l.itemDefName : `${l.itemDefName}:${l.quantity}`)).join(", ");
+}
+
+// ---------------------------------------------------------------------------
+// Inspector fields (object and portal inspectors)
+// ---------------------------------------------------------------------------
+
+function inspectorRow(labelText: string, input: HTMLInputElement): HTMLElement {
+  const row = document.createElement("div");
+  row.style.cssText = "display:flex;gap:4px;align-items:center;";
+  const lbl = document.createElement("span");
+  lbl.textContent = labelText;
+  lbl.style.minWidth = "80px";
+  if (input.type !== "checkbox") {
+    input.style.cssText =
+      "flex:1;min-width:0;padding:4px;background:#181825;color:#eee;border:1px solid #444;border-radius:4px;font-size:12px;";
+  }
+  row.append(lbl, input);
+  return row;
+}
+
+function inspectorInput(placeholder: string, value: string): HTMLInputElement {
+  const inp = document.createElement("input");
+  inp.type = "text";
+  inp.placeholder = placeholder;
+  inp.value = value;
+  return inp;
+}
+
+function inspectorHelp(text: string): HTMLElement {
+  const help = document.createElement("div");
+  help.style.cssText = "padding:6px 8px;background:#1a1a2e;border:1px solid #333;border-radius:4px;font-size:11px;color:#aaa;line-height:1.4;";
+  help.textContent = text;
+  return help;
+}
+
+/** Rows for a door's / portal's lock requirements; `read` gives undefined when nothing is required */
+function buildLockFields(req: LockRequirements | undefined): { rows: HTMLElement[]; read: () => LockRequirements | undefined } {
+  const itemInput = inspectorInput("iron-key", req?.requiredItem ?? "");
+  const consumeInput = document.createElement("input");
+  consumeInput.type = "checkbox";
+  consumeInput.checked = !!req?.consumeItem;
+  const questInput = inspectorInput("quest key", req?.requiredQuest ?? "");
+  const flagInput = inspectorInput("story flag", req?.flag ?? "");
+  const levelInput = inspectorInput("1", req?.minLevel ? String(req.minLevel) : "");
+  return {
+    rows: [
+      inspectorRow("Key Item:", itemInput),
+      inspectorRow("Use Up Key:", consumeInput),
+      inspectorRow("Quest Done:", questInput),
+      inspectorRow("Story Flag:", flagInput),
+      inspectorRow("Min Level:", levelInput),
+    ],
+    read: () => {
+      const next: LockRequirements = {};
+      if (itemInput.value.trim()) {
+        next.requiredItem = itemInput.value.trim();
+        if (consumeInput.checked) next.consumeItem = true;
+      }
+      if (questInput.value.trim()) next.requiredQuest = questInput.value.trim();
+      if (flagInput.value.trim()) next.flag = flagInput.value.trim();
+      const level = parseInt(levelInput.value);
+      if (level > 1) next.minLevel = level;
+      return Object.keys(next).length > 0 ? next : undefined;
+    },
+  };
 }
 
 /** Sprite definition row from Convex (subset of fields) */
@@ -106,6 +240,10 @@ interface SpriteDef {
   onAnimation?: string;
   offAnimation?: string;
   onSoundUrl?: string;
+  craftingStation?: string;
+  container?: boolean;
+  // Door
+  isDoor?: boolean;
 }
 
 function visibilityLabel(v?: "public" | "private" | "system"): "public" | "private" | "system" {
@@ -165,6 +303,9 @@ export class MapEditorPanel {
     transition: string;
   } = { name: "", targetMap: "", targetSpawn: "start1", direction: "", transition: "fade" };
   private portalPlacing = false; // true when in "click-to-place" mode
+  private portalInspectorEl!: HTMLElement;
+  /** Portal whose lock the portal picker is showing */
+  private inspectedPortal: string | null = null;
   private portalStart: { tx: number; ty: number } | null = null;
   private availableMaps: { name: string; labelNames?: string[] }[] = [];
 
@@ -187,6 +328,9 @@ export class MapEditorPanel {
   private tilesetPickerEl!: HTMLElement;
   private objectPickerEl!: HTMLElement;
   private objectListEl!: HTMLElement;
+  private objectInspectorEl!: HTMLElement;
+  /** Placed object whose settings the object picker is showing */
+  private inspectedObject: PlacedObject | null = null;
   private mapPickerEl!: HTMLElement;
   private mapNameInput!: HTMLInputElement;
   private mapMusicSelect!: HTMLSelectElement;
@@ -195,13 +339,23 @@ export class MapEditorPanel {
   private mapCombatCooldownInput!: HTMLInputElement;
   private mapCombatNpcHitCooldownInput!: HTMLInputElement;
   private mapCombatVarianceInput!: HTMLInputElement;
+  private mapCombatModeSelect!: HTMLSelectElement;
+  private mapEncounterChanceInput!: HTMLInputElement;
   private mapStatusSelect!: HTMLSelectElement;
+  private lintResultsEl!: HTMLElement;
   private portalPickerEl!: HTMLElement;
   private portalListEl!: HTMLElement;
   private portalTargetMapSelect!: HTMLSelectElement;
   private portalTargetSpawnSelect!: HTMLSelectElement;
   private labelPickerEl!: HTMLElement;
   private labelListEl!: HTMLElement;
+  private historyPickerEl!: HTMLElement;
+  private revisionListEl!: HTMLElement;
+  private revisionDiffEl!: HTMLElement;
+  private revisionFromSelect!: HTMLSelectElement;
+  private revisionToSelect!: HTMLSelectElement;
+  private revisions: MapRevisionRow[] = [];
+  private revisionsUnsub: (() => void) | null = null;
   private gridBtn!: HTMLButtonElement;
   private tileSizeLabel!: HTMLDivElement;
   private mapDimsEl!: HTMLDivElement;
@@ -214,6 +368,38 @@ export class MapEditorPanel {
   private canvasHoverHandler: ((e: MouseEvent) => void) | null = null;
   private keyHandler: ((e: KeyboardEvent) => void) | null = null;
 
+  // Live collaborative editing (active while the editor is open on a stored map)
+  private collab: MapCollabSession | null = null;
+  private collabReloading = false;
+  private cursorTile = { x: -1, y: -1 };
+  /** Layers / tilesets changed locally — Save must write the whole map */
+  private structureDirty = false;
+
+  // Undo/redo (kept across saves; cleared when the map changes)
+  private history = new EditHistory();
+  private stroke: TileStroke | null = null;
+  private undoBtn!: HTMLButtonElement;
+  private redoBtn!: HTMLButtonElement;
+
+  // Area tools (fill / rect / line / select)
+  private shapeTarget: "layer" | "collision" = "layer";
+  private shapeTargetBtn!: HTMLButtonElement;
+  private shapeAnchor: TileCell | null = null;
+  private shapeErase = false;
+  private hoverTile: TileCell | null = null;
+  private selection: TileRect | null = null;
+  /** Clipboard contents following the cursor (paste) or being dragged (move). */
+  private floating: { clip: TileClipboard; offsetX: number; offsetY: number;
+    stroke: TileStroke | null } | null = null;
+
+  // Terrain brush + terrain metadata for the active tileset
+  private terrains: TerrainDef[] = [];
+  private activeTerrainId: string | null = null;
+  private terrainEditMode = false;
+  private terrainSelect!: HTMLSelectElement;
+  private terrainEditBtn!: HTMLButtonElement;
+  private terrainSaveTimer = 0;
+
   constructor() {
     this.el = document.createElement("div");
     this.el.className = "map-editor";
@@ -267,11 +453,39 @@ export class MapEditorPanel {
     deleteWrap.appendChild(deleteMenu);
     toolbar.appendChild(deleteWrap);
 
+    // Target for fill/rect/line: active layer or collision mask
+    this.shapeTargetBtn = document.createElement("button");
+    this.shapeTargetBtn.className = "editor-tool-btn";
+    this.shapeTargetBtn.title = "Fill/Rect/Line target (hold Shift while drawing to erase)";
+    this.shapeTargetBtn.style.display = "none";
+    this.shapeTargetBtn.addEventListener("click", () => {
+      this.shapeTarget = this.shapeTarget === "layer" ? "collision" : "layer";
+      this.setTool(this.tool);
+    });
+    toolbar.appendChild(this.shapeTargetBtn);
+
     // Separator
     const sep = document.createElement("div");
     sep.style.cssText = "flex:1;";
     toolbar.appendChild(sep);
 
+    // Undo / redo
+    this.undoBtn = document.createElement("button");
+    this.undoBtn.className = "editor-tool-btn";
+    this.undoBtn.textContent = "↶ Undo";
+    this.undoBtn.title = "Undo (Ctrl+Z)";
+    this.undoBtn.disabled = true;
+    this.undoBtn.addEventListener("click", () => this.undo());
+    toolbar.appendChild(this.undoBtn);
+
+    this.redoBtn = document.createElement("button");
+    this.redoBtn.className = "editor-tool-btn";
+    this.redoBtn.textContent = "↷ Redo";
+    this.redoBtn.title = "Redo (Ctrl+Shift+Z)";
+    this.redoBtn.disabled = true;
+    this.redoBtn.addEventListener("click", () => this.redo());
+    toolbar.appendChild(this.redoBtn);
+
     // Grid toggle
     this.gridBtn = document.createElement("button");
     this.gridBtn.className = "editor-tool-btn";
@@ -385,6 +599,11 @@ export class MapEditorPanel {
     this.labelPickerEl.style.display = "none";
     panels.appendChild(this.labelPickerEl);
 
+    // Center: Revision history (shown for history tool)
+    this.historyPickerEl = this.buildHistoryPicker();
+    this.historyPickerEl.style.display = "none";
+    panels.appendChild(this.historyPickerEl);
+
     this.el.appendChild(panels);
   }
 
@@ -507,6 +726,7 @@ export class MapEditorPanel {
       visible: true,
     });
     this.activeLayer = mapData.layers.length - 1;
+    this.structureDirty = true;
     this.game.mapRenderer.loadMap(mapData);
     this.syncTilesetToMapLayer();
     this.showSaveStatus(`Added layer "${layerName}"`, false);
@@ -530,6 +750,7 @@ export class MapEditorPanel {
     }
     const removed = mapData.layers.splice(this.activeLayer, 1)[0];
     this.activeLayer = Math.max(0, Math.min(this.activeLayer, mapData.layers.length - 1));
+    this.structureDirty = true;
     this.game.mapRenderer.loadMap(mapData);
     this.syncTilesetToMapLayer();
     this.showSaveStatus(`Removed layer "${removed.name}"`, false);
@@ -550,6 +771,7 @@ export class MapEditorPanel {
     const [moved] = mapData.layers.splice(from, 1);
     mapData.layers.splice(to, 0, moved);
     this.activeLayer = to;
+    this.structureDirty = true;
     this.game.mapRenderer.loadMap(mapData);
     this.syncTilesetToMapLayer();
     this.showSaveStatus(`Moved layer "${moved.name}"`, false);
@@ -627,6 +849,7 @@ export class MapEditorPanel {
     canvasWrap.appendChild(this.tileCanvas);
     canvasWrap.appendChild(this.highlightEl);
     picker.appendChild(canvasWrap);
+    picker.appendChild(this.buildTerrainSection());
 
     this.loadTilesetImage();
 
@@ -662,6 +885,11 @@ export class MapEditorPanel {
     this.objectListEl.className = "object-list";
     picker.appendChild(this.objectListEl);
 
+    this.objectInspectorEl = document.createElement("div");
+    this.objectInspectorEl.style.cssText =
+      "padding:8px;display:none;flex-direction:column;gap:6px;font-size:12px;border-top:1px solid var(--border);";
+    picker.appendChild(this.objectInspectorEl);
+
     return picker;
   }
 
@@ -925,6 +1153,13 @@ export class MapEditorPanel {
       respawnMs: respawn ? Math.round(respawnMin * 60 * 1000) : undefined,
     };
     this.placedItems.push(item);
+    this.sendItem(item);
+    const snap = { ...item };
+    this.pushEdit({
+      label: `place ${item.itemDefName}`,
+      undo: () => this.detachPlacedItem(snap),
+      redo: () => this.attachPlacedItem(snap),
+    });
     const respawnNote = respawn ? ` (respawns in ${respawnMin}m)` : "";
     this.tileInfoEl.textContent = `Placed: ${this.selectedItemDef.displayName}${respawnNote} (${this.placedItems.length} items total)`;
 
@@ -960,6 +1195,13 @@ export class MapEditorPanel {
       if (this.game && this.game.worldItemLayer) {
         this.game.worldItemLayer.removeItem(removed.id);
       }
+      this.collab?.send([{ kind: "itemRemove", key: removed.id }]);
+      const snap = { ...removed };
+      this.pushEdit({
+        label: `remove ${removed.itemDefName}`,
+        undo: () => this.attachPlacedItem(snap),
+        redo: () => this.detachPlacedItem(snap),
+      });
       this.tileInfoEl.textContent = `Removed item (${this.placedItems.length} remaining)`;
     }
   }
@@ -1001,6 +1243,7 @@ export class MapEditorPanel {
 
   private loadTilesetImage(onReady?: () => void) {
     const ts = this.activeTileset;
+    void this.loadTerrains();
     const img = new Image();
     img.src = ts.url;
     img.onload = () => {
@@ -1075,6 +1318,8 @@ export class MapEditorPanel {
       }
       ctx.stroke();
     }
+
+    this.drawTerrainOverlay();
   }
 
   /** Convert a mouse event on the tileset canvas to a tileset grid col/row */
@@ -1092,6 +1337,10 @@ export class MapEditorPanel {
   }
 
   private onTileCanvasDown(e: MouseEvent) {
+    if (this.terrainEditMode) {
+      this.toggleTerrainCorner(e);
+      return;
+    }
     const { col, row } = this.tileCanvasToGrid(e);
     if (e.shiftKey) {
       // Shift+click: toggle individual tile in irregular selection
@@ -1271,6 +1520,7 @@ export class MapEditorPanel {
       this.activeTileset = this.getMapDefaultTileset();
     }
 
+    this.structureDirty = true;
     this.selectedTile = 0;
     this.selectedRegion = { col: 0, row: 0, w: 1, h: 1 };
     this.game!.mapRenderer.loadMap(mapData);
@@ -1302,6 +1552,7 @@ export class MapEditorPanel {
 
   private setTool(t: EditorTool) {
     this.tool = t;
+    this.collab?.setCursor(this.cursorTile.x, this.cursorTile.y, t);
 
     // Highlight the matching TOOLS button (deactivate all first)
     const isDeleteTool = DELETE_OPTIONS.some(d => d.key === t);
@@ -1325,7 +1576,8 @@ export class MapEditorPanel {
     const isMap = t === "map";
     const isPortal = t === "portal";
     const isLabel = t === "label";
-    const hideDefault = isObjTool || isNpcTool || isItemTool || isMap || isPortal || isLabel;
+    const isHistory = t === "history";
+    const hideDefault = isObjTool || isNpcTool || isItemTool || isMap || isPortal || isLabel || isHistory;
     this.tilesetPickerEl.style.display = hideDefault ? "none" : "";
     this.objectPickerEl.style.display = isObjTool ? "" : "none";
     this.npcPickerEl.style.display = isNpcTool ? "" : "none";
@@ -1333,6 +1585,7 @@ export class MapEditorPanel {
     this.mapPickerEl.style.display = isMap ? "" : "none";
     this.portalPickerEl.style.display = isPortal ? "" : "none";
     this.labelPickerEl.style.display = isLabel ? "" : "none";
+    this.historyPickerEl.style.display = isHistory ? "" : "none";
 
     if ((isObjTool || isNpcTool) && this.spriteDefs.length === 0) {
       this.loadSpriteDefs();
@@ -1359,11 +1612,29 @@ export class MapEditorPanel {
       this.refreshLabelList();
     }
 
+    if (isHistory) {
+      this.subscribeToRevisions();
+    } else {
+      this.unsubscribeFromRevisions();
+    }
+
+    // Area tools: show the target toggle, drop any half-drawn shape
+    const isShapeTool = SHAPE_TOOLS.includes(t);
+    const onCollision = isShapeTool && this.shapeTarget === "collision";
+    this.shapeTargetBtn.style.display = isShapeTool ? "" : "none";
+    this.shapeTargetBtn.textContent = onCollision ? "🎯 Collision" : "🎯 Layer";
+    this.shapeAnchor = null;
+    if (t !== "select") this.floating = null;
+    this.updateAreaPreview();
+
     // Show/hide collision overlay (show for both collision and collision-erase)
-    this.game?.mapRenderer.setCollisionOverlayVisible(t === "collision" || t === "collision-erase");
+    this.game?.mapRenderer.setCollisionOverlayVisible(t === "collision" || t === "collision-erase" || onCollision);
 
     // Highlight active layer when painting/erasing tiles, reset otherwise
-    const isTileTool = t === "paint" || t === "erase";
+    const isTileTool = t === "paint" || t === "terrain" || t === "erase" || (isShapeTool && !onCollision);
+
+    // Terrain corners are drawn on the tileset while the terrain brush is active
+    this.renderTilesetGrid();
     this.game?.mapRenderer.highlightLayer(isTileTool ? this.activeLayer : -1);
 
     // Reset portal placement and hide ghost
@@ -1454,9 +1725,21 @@ export class MapEditorPanel {
 
   /** Called by GameShell when the active map changes. */
   onMapChanged() {
+    this.history.clear();
+    this.stroke = null;
+    // The clipboard survives so a region can be pasted into the new map
+    this.selection = null;
+    this.floating = null;
+    this.shapeAnchor = null;
+    this.game?.mapRenderer.hideSelectionOutline();
+    this.game?.mapRenderer.hideShapeGhost();
+    this.refreshHistoryButtons();
     this.activeLayer = 0;
     this.syncTilesetToMapLayer();
     this.updateMapDimsLabel();
+    if (this.tool === "history") this.subscribeToRevisions();
+    this.structureDirty = false;
+    if (this.el.style.display !== "none") this.startCollab();
   }
 
   private bindCanvasEvents(game: Game) {
@@ -1465,6 +1748,7 @@ export class MapEditorPanel {
     this.canvasClickHandler = (e: MouseEvent) => {
       if (game.mode !== "build") return;
       this.isPainting = true;
+      this.stroke = new TileStroke(this.tool);
       this.handleCanvasAction(e, game, canvas);
     };
 
@@ -1472,14 +1756,17 @@ export class MapEditorPanel {
       if (!this.isPainting || game.mode !== "build") return;
       // Only allow drag-paint for tile tools, not object/npc/item/portal/label
       const noDrag: EditorTool[] = ["object", "object-erase", "npc", "npc-erase",
-        "item", "item-erase", "map", "portal", "portal-erase", "label"];
+        "item", "item-erase", "map", "history", "portal", "portal-erase", "label",
+        "fill", "rect", "rect-fill", "line", "select"];
       if (!noDrag.includes(this.tool)) {
         this.handleCanvasAction(e, game, canvas);
       }
     };
 
     this.canvasUpHandler = () => {
+      if (this.isPainting) this.finishAreaDrag();
       this.isPainting = false;
+      this.endStroke();
     };
 
     // Ghost preview: always track cursor in build mode
@@ -1490,8 +1777,19 @@ export class MapEditorPanel {
       const screenX = e.clientX - rect.left;
       const screenY = e.clientY - rect.top;
       const { x: worldX, y: worldY } = game.camera.screenToWorld(screenX, screenY);
+      this.trackCursor(worldX, worldY);
 
-      if (this.tool === "paint" || this.tool === "erase" || this.tool === "collision" || this.tool === "collision-erase") {
+      if (SHAPE_TOOLS.includes(this.tool) || this.tool === "select") {
+        const mapData = game.mapRenderer.getMapData();
+        if (mapData) {
+          game.mapRenderer.hideTileGhost();
+          this.hoverTile = {
+            x: Math.floor(worldX / mapData.tileWidth),
+            y: Math.floor(worldY / mapData.tileHeight),
+          };
+          this.updateAreaPreview();
+        }
+      } else if (this.tool === "paint" || this.tool === "terrain" || this.tool === "erase" || this.tool === "collision" || this.tool === "collision-erase") {
         const mapData = game.mapRenderer.getMapData();
         if (mapData) {
           const tx = Math.floor(worldX / mapData.tileWidth);
@@ -1552,12 +1850,47 @@ export class MapEditorPanel {
     canvas.addEventListener("mousemove", this.canvasHoverHandler);
     window.addEventListener("mouseup", this.canvasUpHandler);
 
-    // Keyboard shortcut: 'g' toggles grid in build mode
+    // Keyboard shortcuts in build mode: 'g' toggles grid,
+    // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes
     this.keyHandler = (e: KeyboardEvent) => {
       if (game.mode !== "build") return;
       // Ignore if focus is in an input/select/textarea
       const tag = (e.target as HTMLElement)?.tagName;
       if (tag === "INPUT" || tag === "SELECT" || tag === "TEXTAREA") return;
+      if (e.ctrlKey || e.metaKey) {
+        const key = e.key.toLowerCase();
+        if (key === "z" || key === "y") {
+          e.preventDefault();
+          if (this.isPainting) return;
+          if (key === "y" || e.shiftKey) this.redo();
+          else this.undo();
+        } else if (key === "c" && this.tool === "select" && this.selection) {
+          e.preventDefault();
+          this.copySelection(false);
+        } else if (key === "x" && this.tool === "select" && this.selection) {
+          e.preventDefault();
+          this.copySelection(true);
+        } else if (key === "v") {
+          e.preventDefault();
+          this.beginPaste();
+        }
+        return;
+      }
+      if (this.tool === "select") {
+        if (e.key === "Escape") {
+          this.floating = null;
+          this.selection = null;
+          this.updateAreaPreview();
+          return;
+        }
+        if ((e.key === "Delete" || e.key === "Backspace") && this.selection && !this.floating) {
+          e.preventDefault();
+          this.stroke = new TileStroke("delete selection");
+          this.clearRegion(this.selection);
+          this.endStroke();
+          return;
+        }
+      }
       if (e.key === "g" || e.key === "G") {
         const on = game.mapRenderer.toggleGrid();
         this.gridBtn.classList.toggle("active", on);
@@ -1587,7 +1920,12 @@ export class MapEditorPanel {
         const tileY = Math.floor(worldY / mapData.tileHeight);
         this.handleLabelClick(tileX, tileY);
       }
-    } else if (this.tool === "object" || this.tool === "npc") {
+    } else if (this.tool === "object") {
+      // Clicking a container or door shows its settings; anywhere else places
+      if (!this.inspectObjectAt(worldX, worldY)) {
+        this.placeObject(worldX, worldY);
+      }
+    } else if (this.tool === "npc") {
       this.placeObject(worldX, worldY);
     } else if (this.tool === "object-erase" || this.tool === "npc-erase") {
       this.removeObjectAt(worldX, worldY);
@@ -1598,13 +1936,22 @@ export class MapEditorPanel {
       }
     } else if (this.tool === "item-erase") {
       this.removeItemAt(worldX, worldY);
-    } else if (this.tool === "map") {
-      // Map settings are edited in the side panel only.
+    } else if (this.tool === "map" || this.tool === "history") {
+      // Map settings and history live in the side panel only.
       return;
     } else if (this.tool === "portal-erase") {
       this.removePortalAt(worldX, worldY);
     } else if (this.tool === "label-erase") {
       this.removeLabelAt(worldX, worldY);
+    } else if (this.tool === "terrain") {
+      this.paintTerrainAt(worldX, worldY, e.shiftKey);
+    } else if (SHAPE_TOOLS.includes(this.tool) || this.tool === "select") {
+      const mapData = game.mapRenderer.getMapData();
+      if (mapData) {
+        const tileX = Math.floor(worldX / mapData.tileWidth);
+        const tileY = Math.floor(worldY / mapData.tileHeight);
+        this.startAreaAction({ x: tileX, y: tileY }, e.shiftKey);
+      }
     } else {
       this.paintTileAt(worldX, worldY, game);
     }
@@ -1628,7 +1975,7 @@ export class MapEditorPanel {
           const mx = tileX + t.dx;
           const my = tileY + t.dy;
           if (mx >= 0 && my >= 0 && mx < mapData.width && my < mapData.height) {
-            game.mapRenderer.setTile(this.activeLayer, mx, my, t.tileIdx);
+            this.setTileRecorded(mx, my, t.tileIdx);
           }
         }
       } else {
@@ -1642,183 +1989,1027 @@ export class MapEditorPanel {
             const my = tileY + dy;
             if (mx >= 0 && my >= 0 && mx < mapData.width && my < mapData.height) {
               const tileIdx = (r.row + dy) * tsCols + (r.col + dx);
-              game.mapRenderer.setTile(this.activeLayer, mx, my, tileIdx);
+              this.setTileRecorded(mx, my, tileIdx);
             }
           }
         }
       }
     } else if (this.tool === "erase") {
-      game.mapRenderer.setTile(this.activeLayer, tileX, tileY, -1);
+      this.setTileRecorded(tileX, tileY, -1);
     } else if (this.tool === "collision") {
-      const idx = tileY * mapData.width + tileX;
-      mapData.collisionMask[idx] = true;
+      this.setCollisionRecorded(tileX, tileY, true);
       game.mapRenderer.renderCollisionOverlay();
     } else if (this.tool === "collision-erase") {
-      const idx = tileY * mapData.width + tileX;
-      mapData.collisionMask[idx] = false;
+      this.setCollisionRecorded(tileX, tileY, false);
       game.mapRenderer.renderCollisionOverlay();
     }
   }
 
+  /** Set a tile on the active layer, recording it in the current stroke. */
+  private setTileRecorded(tileX: number, tileY: number, tileIdx: number) {
+    const mapData = this.game?.mapRenderer.getMapData();
+    const layer = mapData?.layers[this.activeLayer];
+    if (!mapData || !layer) return;
+    const idx = tileY * mapData.width + tileX;
+    const before = layer.tiles[idx];
+    if (before === tileIdx) return;
+    this.game!.mapRenderer.setTile(this.activeLayer, tileX, tileY, tileIdx);
+    this.stroke?.record(layer, idx, before, tileIdx);
+    this.collab?.send([{ kind: "tile", layer: layer.name, x: tileX, y: tileY, tile: tileIdx }]);
+  }
+
+  /** Set a collision cell, recording it in the current stroke. */
+  private setCollisionRecorded(tileX: number, tileY: number, blocked: boolean) {
+    const mapData = this.game?.mapRenderer.getMapData();
+    if (!mapData) return;
+    const idx = tileY * mapData.width + tileX;
+    const before = !!mapData.collisionMask[idx];
+    if (before === blocked) return;
+    mapData.collisionMask[idx] = blocked;
+    this.stroke?.record(null, idx, before, blocked);
+    this.collab?.send([{ kind: "collision", x: tileX, y: tileY, blocked }]);
+  }
+
   // =========================================================================
-  // Object placement
+  // Terrain brush + terrain metadata (edited in the tileset picker)
   // =========================================================================
 
-  private placeObject(worldX: number, worldY: number) {
-    if (!this.selectedSpriteDef) {
-      this.showSaveStatus("Select a sprite first", true);
-      return;
-    }
+  private buildTerrainSection(): HTMLElement {
+    const section = document.createElement("div");
+    section.style.cssText = "padding:6px 8px;display:flex;gap:4px;align-items:center;border-top:1px solid #333;";
 
-    const obj: PlacedObject = {
-      id: crypto.randomUUID(),
-      spriteDefName: this.selectedSpriteDef.name,
-      x: Math.round(worldX),
-      y: Math.round(worldY),
-      layer: this.activeLayer,
-    };
+    const label = document.createElement("span");
+    label.textContent = "Terrain:";
+    label.style.cssText = "font-size:12px;";
 
-    this.placedObjects.push(obj);
-    this.tileInfoEl.textContent = `Placed: ${this.selectedSpriteDef.name} (${this.placedObjects.length} total)`;
+    this.terrainSelect = document.createElement("select");
+    this.terrainSelect.className = "tileset-select";
+    this.terrainSelect.style.flex = "1";
+    this.terrainSelect.addEventListener("change", () => {
+      this.activeTerrainId = this.terrainSelect.value || null;
+      this.renderTilesetGrid();
+    });
 
-    // All objects (including NPCs) render as static previews in the editor.
-    // Real server-driven NPCs are created via the npcState subscription after saving.
-    this.game?.objectLayer?.addPlacedObject(obj, this.selectedSpriteDef as any);
+    const newBtn = document.createElement("button");
+    newBtn.className = "editor-tool-btn";
+    newBtn.textContent = "+";
+    newBtn.title = "New terrain for this tileset";
+    newBtn.addEventListener("click", () => void this.createTerrain());
+
+    this.terrainEditBtn = document.createElement("button");
+    this.terrainEditBtn.className = "editor-tool-btn";
+    this.terrainEditBtn.textContent = "✎ Corners";
+    this.terrainEditBtn.title =
+      "Edit terrain corners: click a tile quadrant to toggle that corner, " +
+      "Shift+click to mark the tile used where the terrain is erased";
+    this.terrainEditBtn.addEventListener("click", () => {
+      this.terrainEditMode = !this.terrainEditMode;
+      this.terrainEditBtn.classList.toggle("active", this.terrainEditMode);
+      this.tileInfoEl.textContent = this.terrainEditMode
+        ? "Click tile corners to assign them to the terrain"
+        : "Terrain corner editing off";
+      this.renderTilesetGrid();
+    });
+
+    const delBtn = document.createElement("button");
+    delBtn.className = "editor-tool-btn";
+    delBtn.textContent = "🗑";
+    delBtn.title = "Delete this terrain";
+    delBtn.addEventListener("click", () => void this.deleteTerrain());
+
+    section.append(label, this.terrainSelect, newBtn, this.terrainEditBtn, delBtn);
+    return section;
   }
 
-  private removeObjectAt(worldX: number, worldY: number) {
-    // Objects are anchored at bottom-center (0.5, 1.0), so the stored Y is
-    // the sprite's feet.  When the user clicks on the sprite's body they'll
-    // click above the anchor.  We use an asymmetric hit-test based on the
-    // actual sprite dimensions: full height upward, half-width horizontal,
-    // and a small margin below.
-    const defByName = new Map(this.spriteDefs.map(d => [d.name, d]));
+  private async loadTerrains() {
+    const tilesetUrl = this.activeTileset.url;
+    try {
+      const convex = getConvexClient();
+      const rows = await convex.query(api.tilesetTerrains.listByTileset, { tilesetUrl });
+      // The tileset may have changed while the query was in flight
+      if (tilesetUrl !== this.activeTileset.url) return;
+      this.terrains = rows as unknown as TerrainDef[];
+      if (!this.terrains.some((t) => t._id === this.activeTerrainId)) {
+        this.activeTerrainId = this.terrains[0]?._id ?? null;
+      }
+      this.renderTerrainOptions();
+      this.renderTilesetGrid();
+    } catch (err) {
+      console.warn("Failed to load terrains:", err);
+    }
+  }
 
-    const hitTest = (objX: number, objY: number, spriteDefName: string): boolean => {
-      const def = defByName.get(spriteDefName);
-      // Large fallback keeps erase usable even if a definition is missing
-      // from the local cache.
-      const hitAbove = def ? def.frameHeight * def.scale : 384;
-      const hitSide  = def ? (def.frameWidth * def.scale) / 2 : 192;
-      const hitBelow = 16;
-      const dx = Math.abs(objX - worldX);
-      const dy = objY - worldY; // positive = click is above anchor
-      return dx <= hitSide && dy >= -hitBelow && dy <= hitAbove;
-    };
+  private renderTerrainOptions() {
+    this.terrainSelect.innerHTML = "";
+    if (this.terrains.length === 0) {
+      const opt = document.createElement("option");
+      opt.value = "";
+      opt.textContent = "(none)";
+      this.terrainSelect.appendChild(opt);
+      return;
+    }
+    for (const t of this.terrains) {
+      const opt = document.createElement("option");
+      opt.value = t._id;
+      opt.textContent = `${t.name} (${t.tiles.length})`;
+      this.terrainSelect.appendChild(opt);
+    }
+    this.terrainSelect.value = this.activeTerrainId ?? "";
+  }
 
-    // Manhattan-ish score for picking the best candidate
-    const hitScore = (objX: number, objY: number): number => {
-      return Math.abs(objX - worldX) + Math.abs(objY - worldY);
-    };
+  private getActiveTerrain(): TerrainDef | null {
+    return this.terrains.find((t) => t._id === this.activeTerrainId) ?? null;
+  }
 
-    const isNpcDef = (spriteDefName: string): boolean => {
-      const def = defByName.get(spriteDefName);
-      return def?.category === "npc";
-    };
+  private async createTerrain() {
+    const name = window.prompt("Terrain name (e.g. grass, water, stone wall):")?.trim();
+    if (!name) return;
+    try {
+      const convex = getConvexClient();
+      const id = await convex.mutation(api.tilesetTerrains.save, {
+        profileId: this.game?.profile._id as any,
+        tilesetUrl: this.activeTileset.url,
+        name,
+        tiles: [],
+      });
+      this.activeTerrainId = id as string;
+      await this.loadTerrains();
+      this.showSaveStatus(`Terrain "${name}" created`);
+    } catch (err: any) {
+      this.showSaveStatus(err?.message ?? "Failed to create terrain", true);
+    }
+  }
 
-    const mode: "object" | "npc" = this.tool === "npc-erase" ? "npc" : "object";
+  private async deleteTerrain() {
+    const terrain = this.getActiveTerrain();
+    if (!terrain) return;
+    if (!window.confirm(`Delete terrain "${terrain.name}"?`)) return;
+    try {
+      const convex = getConvexClient();
+      await convex.mutation(api.tilesetTerrains.remove, {
+        profileId: this.game?.profile._id as any,
+        id: terrain._id as any,
+      });
+      this.activeTerrainId = null;
+      await this.loadTerrains();
+    } catch (err: any) {
+      this.showSaveStatus(err?.message ?? "Failed to delete terrain", true);
+    }
+  }
 
-    // In object-erase mode, ONLY remove non-NPC objects.
-    // In npc-erase mode, ONLY remove NPC objects.
-    let bestIdx = -1;
-    let bestScore = Infinity;
-    for (let i = 0; i < this.placedObjects.length; i++) {
-      const obj = this.placedObjects[i];
-      const isNpc = isNpcDef(obj.spriteDefName);
-      if (mode === "object" && isNpc) continue;
-      if (mode === "npc" && !isNpc) continue;
-      if (!hitTest(obj.x, obj.y, obj.spriteDefName)) continue;
+  /** Toggle the clicked corner (quadrant) of a tileset tile for the active terrain. */
+  private toggleTerrainCorner(e: MouseEvent) {
+    const terrain = this.getActiveTerrain();
+    if (!terrain) {
+      this.tileInfoEl.textContent = "⚠ Create a terrain first (+)";
+      return;
+    }
+    const ts = this.activeTileset;
+    const cols = Math.floor(ts.imageWidth / ts.tileWidth);
+    const { col, row } = this.tileCanvasToGrid(e);
+    const rect = this.tileCanvas.getBoundingClientRect();
+    const right = (e.clientX - rect.left) - col * DISPLAY_TILE_SIZE >= DISPLAY_TILE_SIZE / 2;
+    const bottom = (e.clientY - rect.top) - row * DISPLAY_TILE_SIZE >= DISPLAY_TILE_SIZE / 2;
+    const bit = bottom ? (right ? CORNER_BOTTOM_RIGHT : CORNER_BOTTOM_LEFT) : (right ? CORNER_TOP_RIGHT : CORNER_TOP_LEFT);
+    const tileIndex = row * cols + col;
 
-      const s = hitScore(obj.x, obj.y);
-      if (s < bestScore) {
-        bestScore = s;
-        bestIdx = i;
-      }
+    const idx = terrain.tiles.findIndex((t) => t.tileIndex === tileIndex);
+    if (e.shiftKey) {
+      // Shift+click: the tile placed where the terrain is erased (no corners)
+      if (idx >= 0 && terrain.tiles[idx].corners === 0) terrain.tiles.splice(idx, 1);
+      else if (idx >= 0) terrain.tiles[idx].corners = 0;
+      else terrain.tiles.push({ tileIndex, corners: 0 });
+    } else if (idx < 0) {
+      terrain.tiles.push({ tileIndex, corners: bit });
+    } else {
+      const corners = terrain.tiles[idx].corners ^ bit;
+      if (corners === 0) terrain.tiles.splice(idx, 1);
+      else terrain.tiles[idx].corners = corners;
     }
+    this.renderTilesetGrid();
+    this.scheduleTerrainSave(terrain);
+  }
 
-    if (bestIdx < 0) return;
+  private scheduleTerrainSave(terrain: TerrainDef) {
+    clearTimeout(this.terrainSaveTimer);
+    this.terrainSaveTimer = window.setTimeout(() => void this.saveTerrain(terrain), 600);
+  }
 
-    const removed = this.placedObjects.splice(bestIdx, 1)[0];
-    this.game?.objectLayer?.removePlacedObject(removed.id);
+  private async saveTerrain(terrain: TerrainDef) {
+    try {
+      const convex = getConvexClient();
+      await convex.mutation(api.tilesetTerrains.save, {
+        profileId: this.game?.profile._id as any,
+        id: terrain._id as any,
+        tilesetUrl: terrain.tilesetUrl,
+        name: terrain.name,
+        tiles: terrain.tiles.map((t) => ({ tileIndex: t.tileIndex, corners: t.corners })),
+      });
+      this.renderTerrainOptions();
+      this.showSaveStatus(`Terrain "${terrain.name}" saved`);
+    } catch (err: any) {
+      this.showSaveStatus(err?.message ?? "Terrain save failed", true);
+    }
+  }
 
-    if (mode === "npc" && this.game?.entityLayer) {
-      // Also remove the nearest runtime NPC around the clicked area.
-      const npcHit = this.game.entityLayer.findNearestNPCAt(worldX, worldY, 320);
-      if (npcHit) this.game.entityLayer.removeNPC(npcHit.id);
-      this.tileInfoEl.textContent = `Removed NPC (${this.placedObjects.length} total)`;
-      return;
+  /** Shade the corners of each tile in the active terrain on the tileset canvas. */
+  private drawTerrainOverlay() {
+    if (!this.terrainEditMode && this.tool !== "terrain") return;
+    const terrain = this.getActiveTerrain();
+    if (!terrain) return;
+    const ts = this.activeTileset;
+    const cols = Math.floor(ts.imageWidth / ts.tileWidth);
+    const half = DISPLAY_TILE_SIZE / 2;
+    const ctx = this.tileCtx;
+    for (const t of terrain.tiles) {
+      const x = (t.tileIndex % cols) * DISPLAY_TILE_SIZE;
+      const y = Math.floor(t.tileIndex / cols) * DISPLAY_TILE_SIZE;
+      ctx.fillStyle = "rgba(80,200,255,0.45)";
+      if (t.corners & CORNER_TOP_LEFT) ctx.fillRect(x, y, half, half);
+      if (t.corners & CORNER_TOP_RIGHT) ctx.fillRect(x + half, y, half, half);
+      if (t.corners & CORNER_BOTTOM_LEFT) ctx.fillRect(x, y + half, half, half);
+      if (t.corners & CORNER_BOTTOM_RIGHT) ctx.fillRect(x + half, y + half, half, half);
+      ctx.strokeStyle = t.corners === 0 ? "rgba(255,170,60,0.9)" : "rgba(80,200,255,0.9)";
+      ctx.lineWidth = 1;
+      ctx.strokeRect(x + 0.5, y + 0.5, DISPLAY_TILE_SIZE - 1, DISPLAY_TILE_SIZE - 1);
     }
+  }
 
-    this.tileInfoEl.textContent = `Removed object (${this.placedObjects.length} total)`;
+  /** Terrain brush: paint (or with Shift, erase) and re-pick neighbouring transitions. */
+  private paintTerrainAt(worldX: number, worldY: number, erase: boolean) {
+    const mapData = this.game?.mapRenderer.getMapData();
+    const layer = mapData?.layers[this.activeLayer];
+    if (!mapData || !layer) return;
+    const terrain = this.getActiveTerrain();
+    if (!terrain) {
+      this.tileInfoEl.textContent = "⚠ Select or create a terrain in the tileset picker";
+      return;
+    }
+    const tileX = Math.floor(worldX / mapData.tileWidth);
+    const tileY = Math.floor(worldY / mapData.tileHeight);
+    if (tileX < 0 || tileY < 0 || tileX >= mapData.width || tileY >= mapData.height) return;
+    const cells = applyTerrainBrush(layer.tiles, mapData.width, mapData.height, terrain, tileX, tileY, erase);
+    if (cells.length === 0 && !erase && !terrain.tiles.some((t) => t.corners === CORNERS_ALL)) {
+      this.tileInfoEl.textContent = `⚠ Terrain "${terrain.name}" has no full (all-corner) tile`;
+      return;
+    }
+    this.writeLayerCells(this.activeLayer, cells);
   }
 
   // =========================================================================
-  // Save all (map + objects)
+  // Area tools: bucket fill, rectangles, lines, marquee select
   // =========================================================================
 
-  // ===========================================================================
-  // Portal editor
-  // ===========================================================================
+  /** Mouse-down for fill/rect/line/select. `erase` is Shift. */
+  private startAreaAction(tile: TileCell, erase: boolean) {
+    const mapData = this.game?.mapRenderer.getMapData();
+    if (!mapData) return;
+    this.hoverTile = tile;
 
-  private buildMapPicker(): HTMLElement {
-    const picker = document.createElement("div");
-    picker.className = "tileset-picker";
+    if (this.tool === "fill") {
+      this.bucketFill(tile, erase);
+      return;
+    }
 
-    const header = document.createElement("div");
-    header.className = "tileset-picker-header";
-    const label = document.createElement("div");
-    label.className = "tileset-picker-label";
-    label.textContent = "Map Settings";
-    header.appendChild(label);
-    picker.appendChild(header);
+    if (this.tool !== "select") {
+      this.shapeAnchor = tile;
+      this.shapeErase = erase;
+      this.updateAreaPreview();
+      return;
+    }
 
-    const form = document.createElement("div");
-    form.style.cssText = "padding:8px;display:flex;flex-direction:column;gap:6px;font-size:12px;";
+    if (this.floating) {
+      // Drop the pasted region; a pending move joins the same undo step
+      if (this.floating.stroke) this.stroke = this.floating.stroke;
+      else if (this.stroke) this.stroke = new TileStroke("paste");
+      this.dropFloating(tile);
+      return;
+    }
 
-    const nameRow = document.createElement("div");
-    nameRow.style.cssText = "display:flex;gap:4px;align-items:center;";
-    const nameLabel = document.createElement("span");
-    nameLabel.textContent = "Map Name:";
-    nameLabel.style.minWidth = "80px";
-    const nameInput = document.createElement("input");
-    nameInput.type = "text";
-    nameInput.placeholder = "Map name";
-    nameInput.style.cssText = "flex:1;padding:4px;background:#181825;color:#eee;border:1px solid #444;border-radius:4px;font-size:12px;";
-    nameInput.addEventListener("input", () => {
-      const mapData = this.game?.mapRenderer.getMapData();
-      if (mapData) mapData.name = nameInput.value.trim() || mapData.name;
-    });
-    this.mapNameInput = nameInput;
-    nameRow.append(nameLabel, nameInput);
-    form.appendChild(nameRow);
+    if (this.selection && rectContains(this.selection, tile.x, tile.y)) {
+      // Drag inside the selection = move it (all layers + collision)
+      const sel = this.selection;
+      const clip = copyRegion(mapData, sel);
+      const stroke = new TileStroke("move selection");
+      this.stroke = stroke;
+      this.clearRegion(sel);
+      this.floating = { clip, offsetX: tile.x - sel.x, offsetY: tile.y - sel.y, stroke };
+      this.updateAreaPreview();
+      return;
+    }
 
-    const musicRow = document.createElement("div");
-    musicRow.style.cssText = "display:flex;gap:4px;align-items:center;";
-    const musicLabel = document.createElement("span");
-    musicLabel.textContent = "Music:";
-    musicLabel.style.minWidth = "80px";
-    const musicSelect = document.createElement("select");
-    musicSelect.style.cssText = "flex:1;padding:4px;background:#181825;color:#eee;border:1px solid #444;border-radius:4px;font-size:12px;";
-    for (const m of MUSIC_OPTIONS) {
-      const opt = document.createElement("option");
-      opt.value = m.url;
-      opt.textContent = m.label;
-      musicSelect.appendChild(opt);
+    this.shapeAnchor = tile;
+    this.selection = clampRect(rectFromCorners(tile, tile), mapData.width, mapData.height);
+    this.updateAreaPreview();
+  }
+
+  /** Mouse-up: commit the rectangle/line, finish a marquee or a move. */
+  private finishAreaDrag() {
+    const mapData = this.game?.mapRenderer.getMapData();
+    const tile = this.hoverTile;
+    if (!mapData || !tile) return;
+
+    if (this.tool === "select") {
+      if (this.floating?.stroke) {
+        this.dropFloating(tile);
+      } else if (this.shapeAnchor) {
+        this.selection = clampRect(rectFromCorners(this.shapeAnchor, tile), mapData.width, mapData.height);
+        this.shapeAnchor = null;
+        if (this.selection) {
+          this.tileInfoEl.textContent =
+            `Selected ${this.selection.w}x${this.selection.h} at (${this.selection.x},${this.selection.y}) — Ctrl+C / Ctrl+X, drag to move`;
+        }
+      }
+      this.updateAreaPreview();
+      return;
     }
-    musicSelect.addEventListener("change", () => {
-      const mapData = this.game?.mapRenderer.getMapData();
-      if (mapData) mapData.musicUrl = musicSelect.value || undefined;
-    });
-    this.mapMusicSelect = musicSelect;
-    musicRow.append(musicLabel, musicSelect);
-    form.appendChild(musicRow);
 
-    const combatRow = document.createElement("div");
-    combatRow.style.cssText = "display:flex;gap:4px;align-items:center;";
-    const combatLabel = document.createElement("span");
-    combatLabel.textContent = "Combat:";
-    combatLabel.style.minWidth = "80px";
-    const combatCheck = document.createElement("input");
+    if (!this.shapeAnchor) return;
+    const cells = this.shapeCells(this.shapeAnchor, tile);
+    this.writeShape(cells, this.shapeErase, this.shapeAnchor);
+    this.shapeAnchor = null;
+    this.updateAreaPreview();
+  }
+
+  /** Cells the current rect/line tool covers between two corners, clipped to the map. */
+  private shapeCells(a: TileCell, b: TileCell): TileCell[] {
+    const mapData = this.game?.mapRenderer.getMapData();
+    if (!mapData) return [];
+    const cells = this.tool === "line"
+      ? lineCells(a, b)
+      : rectCells(rectFromCorners(a, b), this.tool === "rect-fill");
+    return cells.filter((c) => c.x >= 0 && c.y >= 0 && c.x < mapData.width && c.y < mapData.height);
+  }
+
+  /** Redraw the shape ghost / marquee / floating paste outline. */
+  private updateAreaPreview() {
+    const renderer = this.game?.mapRenderer;
+    if (!renderer) return;
+    const tile = this.hoverTile;
+
+    if (SHAPE_TOOLS.includes(this.tool)) {
+      renderer.hideSelectionOutline();
+      if (!tile) return;
+      if (this.shapeAnchor && this.tool !== "fill") {
+        renderer.showShapeGhost(this.shapeCells(this.shapeAnchor, tile));
+      } else {
+        renderer.showShapeGhost([tile]);
+      }
+      return;
+    }
+
+    renderer.hideShapeGhost();
+    if (this.tool !== "select") {
+      renderer.hideSelectionOutline();
+      return;
+    }
+    if (this.floating && tile) {
+      renderer.showSelectionOutline({
+        x: tile.x - this.floating.offsetX,
+        y: tile.y - this.floating.offsetY,
+        w: this.floating.clip.width,
+        h: this.floating.clip.height,
+      }, true);
+    } else if (this.shapeAnchor && tile) {
+      renderer.showSelectionOutline(rectFromCorners(this.shapeAnchor, tile));
+    } else if (this.selection) {
+      renderer.showSelectionOutline(this.selection);
+    } else {
+      renderer.hideSelectionOutline();
+    }
+  }
+
+  /**
+   * Tile for each cell of an area tool: the selected tileset stamp repeated
+   * from the shape's origin, so multi-tile selections fill as a pattern.
+   */
+  private makeStampPattern(origin: TileCell): (x: number, y: number) => number {
+    const mod = (n: number, m: number) => ((n % m) + m) % m;
+    if (this.isIrregularSelection && this.irregularTiles.size > 0) {
+      const tiles = this.getIrregularSelectionTiles();
+      const w = Math.max(...tiles.map((t) => t.dx)) + 1;
+      const h = Math.max(...tiles.map((t) => t.dy)) + 1;
+      const byPos = new Map(tiles.map((t) => [`${t.dx},${t.dy}`, t.tileIdx]));
+      return (x, y) => byPos.get(`${mod(x - origin.x, w)},${mod(y - origin.y, h)}`) ?? tiles[0].tileIdx;
+    }
+    const ts = this.activeTileset;
+    const tsCols = Math.floor(ts.imageWidth / ts.tileWidth);
+    const r = this.selectedRegion;
+    return (x, y) => (r.row + mod(y - origin.y, r.h)) * tsCols + (r.col + mod(x - origin.x, r.w));
+  }
+
+  /** Paint (or erase) a set of cells on the current shape target. */
+  private writeShape(cells: TileCell[], erase: boolean, origin: TileCell) {
+    if (cells.length === 0) return;
+    if (this.shapeTarget === "collision") {
+      this.writeCollisionCells(cells.map((c) => ({ ...c, blocked: !erase })));
+      return;
+    }
+    const pattern = erase ? () => -1 : this.makeStampPattern(origin);
+    this.writeLayerCells(this.activeLayer, cells.map((c) => ({ ...c, tileIndex: pattern(c.x, c.y) })));
+  }
+
+  private bucketFill(start: TileCell, erase: boolean) {
+    const mapData = this.game?.mapRenderer.getMapData();
+    if (!mapData) return;
+    let cells: TileCell[];
+    if (this.shapeTarget === "collision") {
+      cells = floodFillCells(mapData.width, mapData.height, start, (i) => !!mapData.collisionMask[i]);
+    } else {
+      const layer = mapData.layers[this.activeLayer];
+      if (!layer) return;
+      cells = floodFillCells(mapData.width, mapData.height, start, (i) => layer.tiles[i] ?? -1);
+    }
+    this.writeShape(cells, erase, start);
+    this.tileInfoEl.textContent = `Filled ${cells.length} tile${cells.length === 1 ? "" : "s"}`;
+  }
+
+  /** Write cells on one layer, recording them in the current stroke, then re-render once. */
+  private writeLayerCells(layerIndex: number, cells: { x: number; y: number; tileIndex: number }[]) {
+    const mapData = this.game?.mapRenderer.getMapData();
+    const layer = mapData?.layers[layerIndex];
+    if (!mapData || !layer) return;
+    const changed: typeof cells = [];
+    for (const c of cells) {
+      const idx = c.y * mapData.width + c.x;
+      const before = layer.tiles[idx];
+      if (before === c.tileIndex) continue;
+      this.stroke?.record(layer, idx, before, c.tileIndex);
+      changed.push(c);
+    }
+    if (changed.length === 0) return;
+    this.game!.mapRenderer.setTiles(layerIndex, changed);
+    this.collab?.send(changed.map((c) => ({ kind: "tile", layer: layer.name, x: c.x, y: c.y, tile: c.tileIndex })));
+  }
+
+  private writeCollisionCells(cells: { x: number; y: number; blocked: boolean }[]) {
+    const mapData = this.game?.mapRenderer.getMapData();
+    if (!mapData) return;
+    const changed: MapEditOp[] = [];
+    for (const c of cells) {
+      const idx = c.y * mapData.width + c.x;
+      const before = !!mapData.collisionMask[idx];
+      if (before === c.blocked) continue;
+      mapData.collisionMask[idx] = c.blocked;
+      this.stroke?.record(null, idx, before, c.blocked);
+      changed.push({ kind: "collision", x: c.x, y: c.y, blocked: c.blocked });
+    }
+    if (changed.length === 0) return;
+    this.game!.mapRenderer.renderCollisionOverlay();
+    this.collab?.send(changed);
+  }
+
+  /** Empty a region on every layer and clear its collision. */
+  private clearRegion(rect: TileRect) {
+    const mapData = this.game?.mapRenderer.getMapData();
+    if (!mapData) return;
+    const cells = rectCells(rect, true);
+    mapData.layers.forEach((_, i) => {
+      this.writeLayerCells(i, cells.map((c) => ({ ...c, tileIndex: -1 })));
+    });
+    this.writeCollisionCells(cells.map((c) => ({ ...c, blocked: false })));
+  }
+
+  private copySelection(cut: boolean) {
+    const mapData = this.game?.mapRenderer.getMapData();
+    if (!mapData || !this.selection) return;
+    setTileClipboard(copyRegion(mapData, this.selection));
+    if (cut) {
+      this.stroke = new TileStroke("cut selection");
+      this.clearRegion(this.selection);
+      this.endStroke();
+    }
+    const { w, h } = this.selection;
+    this.tileInfoEl.textContent = `${cut ? "Cut" : "Copied"} ${w}x${h} region (all layers)`;
+  }
+
+  /** Ctrl+V: attach the clipboard to the cursor; the next click drops it. */
+  private beginPaste() {
+    const clip = getTileClipboard();
+    if (!clip) {
+      this.tileInfoEl.textContent = "Clipboard is empty — select a region and press Ctrl+C";
+      return;
+    }
+    if (this.tool !== "select") this.setTool("select");
+    this.floating = { clip, offsetX: 0, offsetY: 0, stroke: null };
+    this.tileInfoEl.textContent = `Pasting ${clip.width}x${clip.height} from "${clip.sourceMap}" — click to place, Esc to cancel`;
+    this.updateAreaPreview();
+  }
+
+  /**
+   * Stamp the floating clipboard with its grab point at `tile`. Empty cells
+   * and open collision are transparent. Layers are matched by name (then
+   * position); layers whose tileset differs are skipped.
+   */
+  private dropFloating(tile: TileCell) {
+    const mapData = this.game?.mapRenderer.getMapData();
+    const floating = this.floating;
+    if (!mapData || !floating) return;
+    const { clip } = floating;
+    const x0 = tile.x - floating.offsetX;
+    const y0 = tile.y - floating.offsetY;
+    const inBounds = (x: number, y: number) => x >= 0 && y >= 0 && x < mapData.width && y < mapData.height;
+    const skipped: string[] = [];
+
+    clip.layers.forEach((src, i) => {
+      if (src.tiles.every((t) => t < 0)) return;
+      const target = resolveClipboardLayer(mapData, clip, i);
+      const targetLayer = mapData.layers[target];
+      if (!targetLayer || (targetLayer.tilesetUrl ?? mapData.tilesetUrl) !== src.tilesetUrl) {
+        skipped.push(src.name);
+        return;
+      }
+      const cells: { x: number; y: number; tileIndex: number }[] = [];
+      for (let cy = 0; cy < clip.height; cy++) {
+        for (let cx = 0; cx < clip.width; cx++) {
+          const t = src.tiles[cy * clip.width + cx];
+          if (t < 0 || !inBounds(x0 + cx, y0 + cy)) continue;
+          cells.push({ x: x0 + cx, y: y0 + cy, tileIndex: t });
+        }
+      }
+      this.writeLayerCells(target, cells);
+    });
+
+    const blocked: { x: number; y: number; blocked: boolean }[] = [];
+    for (let cy = 0; cy < clip.height; cy++) {
+      for (let cx = 0; cx < clip.width; cx++) {
+        if (!clip.collision[cy * clip.width + cx] || !inBounds(x0 + cx, y0 + cy)) continue;
+        blocked.push({ x: x0 + cx, y: y0 + cy, blocked: true });
+      }
+    }
+    this.writeCollisionCells(blocked);
+
+    this.floating = null;
+    this.selection = clampRect({ x: x0, y: y0, w: clip.width, h: clip.height }, mapData.width, mapData.height);
+    this.tileInfoEl.textContent = skipped.length > 0
+      ? `⚠ Placed region; skipped layers with no matching layer/tileset: ${skipped.join(", ")}`
+      : `Placed ${clip.width}x${clip.height} region at (${x0},${y0})`;
+    this.updateAreaPreview();
+  }
+
+  // =========================================================================
+  // Undo / redo
+  // =========================================================================
+
+  private pushEdit(cmd: EditCommand) {
+    this.history.push(cmd);
+    this.refreshHistoryButtons();
+  }
+
+  private undo() {
+    const cmd = this.history.undo();
+    this.tileInfoEl.textContent = cmd ? `Undo: ${cmd.label}` : "Nothing to undo";
+    this.refreshHistoryButtons();
+  }
+
+  private redo() {
+    const cmd = this.history.redo();
+    this.tileInfoEl.textContent = cmd ? `Redo: ${cmd.label}` : "Nothing to redo";
+    this.refreshHistoryButtons();
+  }
+
+  private refreshHistoryButtons() {
+    if (!this.undoBtn) return;
+    this.undoBtn.disabled = !this.history.canUndo;
+    this.redoBtn.disabled = !this.history.canRedo;
+  }
+
+  /** Close the current drag stroke and record it as one undo step. */
+  private endStroke() {
+    const stroke = this.stroke;
+    this.stroke = null;
+    if (!stroke) return;
+    const changes = stroke.list();
+    if (changes.length === 0) return;
+    this.pushEdit({
+      label: `${stroke.label} (${changes.length} tile${changes.length === 1 ? "" : "s"})`,
+      undo: () => this.applyCellChanges(changes, "before"),
+      redo: () => this.applyCellChanges(changes, "after"),
+    });
+  }
+
+  /**
+   * Write one side of a set of cell changes back into the map. Layers are
+   * resolved by reference, so history survives layer reordering; changes to
+   * a deleted layer are skipped.
+   */
+  private applyCellChanges(changes: CellChange[], side: "before" | "after") {
+    const mapData = this.game?.mapRenderer.getMapData();
+    if (!mapData || !this.game) return;
+    const byLayer = new Map<number, { x: number; y: number; tileIndex: number }[]>();
+    const ops: MapEditOp[] = [];
+    let collisionChanged = false;
+    for (const c of changes) {
+      const x = c.idx % mapData.width;
+      const y = Math.floor(c.idx / mapData.width);
+      if (c.layer === null) {
+        mapData.collisionMask[c.idx] = c[side] as boolean;
+        collisionChanged = true;
+        ops.push({ kind: "collision", x, y, blocked: c[side] as boolean });
+        continue;
+      }
+      const layerIndex = mapData.layers.indexOf(c.layer);
+      if (layerIndex < 0) continue;
+      let cells = byLayer.get(layerIndex);
+      if (!cells) {
+        cells = [];
+        byLayer.set(layerIndex, cells);
+      }
+      cells.push({ x, y, tileIndex: c[side] as number });
+      ops.push({ kind: "tile", layer: c.layer.name, x, y, tile: c[side] as number });
+    }
+    this.collab?.send(ops);
+    for (const [layerIndex, cells] of byLayer) {
+      this.game.mapRenderer.setTiles(layerIndex, cells);
+    }
+    if (collisionChanged) this.game.mapRenderer.renderCollisionOverlay();
+  }
+
+  /**
+   * Find a placed object for an undo step. After a save, objects are reloaded
+   * with Convex ids, so fall back to matching by definition and position.
+   */
+  private findPlacedObjectIndex(snap: PlacedObject): number {
+    const byId = this.placedObjects.findIndex((o) => o.id === snap.id);
+    if (byId >= 0) return byId;
+    return this.placedObjects.findIndex((o) =>
+      o.spriteDefName === snap.spriteDefName && o.x === snap.x && o.y === snap.y && o.layer === snap.layer);
+  }
+
+  private attachPlacedObject(snap: PlacedObject) {
+    const obj = { ...snap };
+    this.placedObjects.push(obj);
+    const def = this.spriteDefs.find((d) => d.name === obj.spriteDefName);
+    this.game?.objectLayer?.addPlacedObject(obj, def as any);
+    this.sendObject(obj);
+  }
+
+  private detachPlacedObject(snap: PlacedObject) {
+    const idx = this.findPlacedObjectIndex(snap);
+    if (idx < 0) return;
+    const removed = this.placedObjects.splice(idx, 1)[0];
+    this.game?.objectLayer?.removePlacedObject(removed.id);
+    this.collab?.send([{ kind: "objectRemove", key: removed.id }]);
+  }
+
+  /** Same as findPlacedObjectIndex, for world items. */
+  private findPlacedItemIndex(snap: typeof this.placedItems[0]): number {
+    const byId = this.placedItems.findIndex((i) => i.id === snap.id);
+    if (byId >= 0) return byId;
+    return this.placedItems.findIndex((i) =>
+      i.itemDefName === snap.itemDefName && i.x === snap.x && i.y === snap.y);
+  }
+
+  private attachPlacedItem(snap: typeof this.placedItems[0]) {
+    const item = { ...snap };
+    this.placedItems.push(item);
+    const def = this.itemDefs.find((d) => d.name === item.itemDefName);
+    this.game?.worldItemLayer?.addItem({
+      id: item.id,
+      itemDefName: item.itemDefName,
+      x: item.x,
+      y: item.y,
+      quantity: item.quantity,
+    }, def);
+    this.sendItem(item);
+  }
+
+  private detachPlacedItem(snap: typeof this.placedItems[0]) {
+    const idx = this.findPlacedItemIndex(snap);
+    if (idx < 0) return;
+    const removed = this.placedItems.splice(idx, 1)[0];
+    this.game?.worldItemLayer?.removeItem(removed.id);
+    this.collab?.send([{ kind: "itemRemove", key: removed.id }]);
+  }
+
+  /**
+   * Run a portal/label edit and record it as one undo step by snapshotting
+   * both lists before and after.
+   */
+  private recordMarkerEdit(label: string, edit: () => void) {
+    const mapData = this.game?.mapRenderer.getMapData();
+    if (!mapData) {
+      edit();
+      return;
+    }
+    const snapshot = () => ({
+      portals: (mapData.portals ?? []).map((p) => ({ ...p })),
+      labels: (mapData.labels ?? []).map((l) => ({ ...l })),
+    });
+    const before = snapshot();
+    edit();
+    const after = snapshot();
+    this.sendMarkerChanges(before, after);
+    this.pushEdit({
+      label,
+      undo: () => this.restoreMarkers(before),
+      redo: () => this.restoreMarkers(after),
+    });
+  }
+
+  private restoreMarkers(state: { portals: Portal[]; labels: MapLabel[] }) {
+    const mapData = this.game?.mapRenderer.getMapData();
+    if (!mapData || !this.game) return;
+    this.sendMarkerChanges({ portals: mapData.portals ?? [], labels: mapData.labels ?? [] }, state);
+    mapData.portals = state.portals.map((p) => ({ ...p }));
+    mapData.labels = state.labels.map((l) => ({ ...l }));
+    this.game.currentPortals = mapData.portals;
+    void this.refreshPortalList();
+    this.refreshLabelList();
+    this.game.mapRenderer.renderPortalOverlay();
+    this.game.mapRenderer.renderLabelOverlay();
+  }
+
+  // =========================================================================
+  // Object placement
+  // =========================================================================
+
+  private placeObject(worldX: number, worldY: number) {
+    if (!this.selectedSpriteDef) {
+      this.showSaveStatus("Select a sprite first", true);
+      return;
+    }
+
+    const obj: PlacedObject = {
+      id: crypto.randomUUID(),
+      spriteDefName: this.selectedSpriteDef.name,
+      x: Math.round(worldX),
+      y: Math.round(worldY),
+      layer: this.activeLayer,
+    };
+
+    this.placedObjects.push(obj);
+    this.sendObject(obj);
+    this.tileInfoEl.textContent = `Placed: ${this.selectedSpriteDef.name} (${this.placedObjects.length} total)`;
+    const snap = { ...obj };
+    this.pushEdit({
+      label: `place ${obj.spriteDefName}`,
+      undo: () => this.detachPlacedObject(snap),
+      redo: () => this.attachPlacedObject(snap),
+    });
+
+    // All objects (including NPCs) render as static previews in the editor.
+    // Real server-driven NPCs are created via the npcState subscription after saving.
+    this.game?.objectLayer?.addPlacedObject(obj, this.selectedSpriteDef as any);
+  }
+
+  /**
+   * Index of the placed object drawn under a world point (among those
+   * `accept` allows), or -1.
+   */
+  private findObjectAt(worldX: number, worldY: number, accept: (def: SpriteDef | undefined) => boolean): number {
+    // Objects are anchored at bottom-center (0.5, 1.0), so the stored Y is
+    // the sprite's feet.  When the user clicks on the sprite's body they'll
+    // click above the anchor.  We use an asymmetric hit-test based on the
+    // actual sprite dimensions: full height upward, half-width horizontal,
+    // and a small margin below.
+    const defByName = new Map(this.spriteDefs.map(d => [d.name, d]));
+
+    const hitTest = (objX: number, objY: number, def: SpriteDef | undefined): boolean => {
+      // Large fallback keeps erase usable even if a definition is missing
+      // from the local cache.
+      const hitAbove = def ? def.frameHeight * def.scale : 384;
+      const hitSide  = def ? (def.frameWidth * def.scale) / 2 : 192;
+      const hitBelow = 16;
+      const dx = Math.abs(objX - worldX);
+      const dy = objY - worldY; // positive = click is above anchor
+      return dx <= hitSide && dy >= -hitBelow && dy <= hitAbove;
+    };
+
+    // Manhattan-ish score for picking the best candidate
+    const hitScore = (objX: number, objY: number): number => {
+      return Math.abs(objX - worldX) + Math.abs(objY - worldY);
+    };
+
+    let bestIdx = -1;
+    let bestScore = Infinity;
+    for (let i = 0; i < this.placedObjects.length; i++) {
+      const obj = this.placedObjects[i];
+      const def = defByName.get(obj.spriteDefName);
+      if (!accept(def)) continue;
+      if (!hitTest(obj.x, obj.y, def)) continue;
+
+      const s = hitScore(obj.x, obj.y);
+      if (s < bestScore) {
+        bestScore = s;
+        bestIdx = i;
+      }
+    }
+    return bestIdx;
+  }
+
+  /** Show the settings of the container or door under a world point; false if there isn't one */
+  private inspectObjectAt(worldX: number, worldY: number): boolean {
+    const idx = this.findObjectAt(worldX, worldY, (def) => !!def?.container || !!def?.isDoor);
+    if (idx < 0) return false;
+    this.inspectedObject = this.placedObjects[idx];
+    this.renderObjectInspector();
+    this.tileInfoEl.textContent = `Editing ${this.inspectedObject.spriteDefName} \u2014 see below the object list`;
+    return true;
+  }
+
+  /** Container contents / door lock of the inspected object, below the object list */
+  private renderObjectInspector() {
+    const el = this.objectInspectorEl;
+    const obj = this.inspectedObject;
+    el.innerHTML = "";
+    el.style.display = obj ? "flex" : "none";
+    if (!obj) return;
+    const def = this.spriteDefs.find((d) => d.name === obj.spriteDefName);
+    const config = obj.container ?? {};
+
+    const title = document.createElement("div");
+    title.style.cssText = "display:flex;justify-content:space-between;align-items:center;font-size:13px;font-weight:600;";
+    title.textContent = `${def?.isDoor ? "Door" : "Container"}: ${obj.spriteDefName}`;
+    const closeBtn = document.createElement("button");
+    closeBtn.textContent = "\u00D7";
+    closeBtn.title = "Stop editing this object";
+    closeBtn.style.cssText = "background:none;border:none;color:#aaa;cursor:pointer;font-size:16px;";
+    closeBtn.addEventListener("click", () => {
+      this.inspectedObject = null;
+      this.renderObjectInspector();
+    });
+    title.appendChild(closeBtn);
+    el.appendChild(title);
+
+    let readContainer: (() => ContainerConfig | undefined) | null = null;
+    if (def?.container) {
+      const contentsInput = inspectorInput("gold-coin:20, torch", formatStashLines(config.items ?? []));
+      const dropsInput = inspectorInput("ruby:5:1-2, bone:!:2", formatLootEntries(config.lootTable?.entries ?? []));
+      const rollsInput = inspectorInput("1", config.lootTable?.rolls != null ? String(config.lootTable.rolls) : "");
+      const refillInput = inspectorInput("never", config.refillMs ? String(config.refillMs / 60_000) : "");
+      const perPlayerInput = document.createElement("input");
+      perPlayerInput.type = "checkbox";
+      perPlayerInput.checked = !!config.perPlayer;
+      el.append(
+        inspectorRow("Contents:", contentsInput),
+        inspectorRow("Loot Drops:", dropsInput),
+        inspectorRow("Loot Rolls:", rollsInput),
+        inspectorRow("Refill (min):", refillInput),
+        inspectorRow("Per Player:", perPlayerInput),
+        inspectorHelp(
+          "Contents are always put in; loot drops (item:weight:min-max, weight ! = guaranteed) are rolled on top. " +
+          "Filled when first opened and again each refill. Players who already opened it see changes at their next refill.",
+        ),
+      );
+      readContainer = () => {
+        const next: ContainerConfig = {};
+        const items = parseStashLines(contentsInput.value);
+        if (items.length > 0) next.items = items;
+        const entries = parseLootEntries(dropsInput.value);
+        if (entries.length > 0) {
+          next.lootTable = { ...config.lootTable, entries };
+          const rolls = parseInt(rollsInput.value);
+          if (rolls >= 0) next.lootTable.rolls = rolls;
+          else delete next.lootTable.rolls;
+        }
+        const refillMinutes = parseFloat(refillInput.value);
+        if (refillMinutes > 0) next.refillMs = Math.round(refillMinutes * 60_000);
+        if (perPlayerInput.checked) next.perPlayer = true;
+        return Object.keys(next).length > 0 ? next : undefined;
+      };
+    }
+
+    let readLock: (() => LockRequirements | undefined) | null = null;
+    if (def?.isDoor) {
+      const lock = buildLockFields(obj.requirements);
+      el.append(...lock.rows, inspectorHelp("Leave everything blank for a door anyone can open."));
+      readLock = lock.read;
+    }
+
+    const applyBtn = document.createElement("button");
+    applyBtn.textContent = "Apply";
+    applyBtn.style.cssText = "padding:4px 10px;background:#2b5;color:white;border:none;border-radius:4px;cursor:pointer;font-size:12px;align-self:flex-end;";
+    applyBtn.addEventListener("click", () => {
+      this.applyObjectSettings(obj, {
+        container: readContainer ? readContainer() : obj.container,
+        requirements: readLock ? readLock() : obj.requirements,
+      });
+    });
+    el.appendChild(applyBtn);
+  }
+
+  /** Change a placed object's container contents / lock, with undo */
+  private applyObjectSettings(obj: PlacedObject, next: Pick<PlacedObject, "container" | "requirements">) {
+    const snap = { ...obj };
+    const before = { container: obj.container, requirements: obj.requirements };
+    const set = (settings: Pick<PlacedObject, "container" | "requirements">) => {
+      const target = this.placedObjects[this.findPlacedObjectIndex(snap)];
+      if (!target) return;
+      Object.assign(target, settings);
+      this.sendObject(target);
+      if (target === this.inspectedObject) this.renderObjectInspector();
+    };
+    set(next);
+    this.pushEdit({
+      label: `edit ${obj.spriteDefName}`,
+      undo: () => set(before),
+      redo: () => set(next),
+    });
+    this.tileInfoEl.textContent = `Updated ${obj.spriteDefName} (save to keep)`;
+  }
+
+  private removeObjectAt(worldX: number, worldY: number) {
+    const mode: "object" | "npc" = this.tool === "npc-erase" ? "npc" : "object";
+
+    // In object-erase mode, ONLY remove non-NPC objects.
+    // In npc-erase mode, ONLY remove NPC objects.
+    const bestIdx = this.findObjectAt(worldX, worldY, (def) => (def?.category === "npc") === (mode === "npc"));
+    if (bestIdx < 0) return;
+
+    const removed = this.placedObjects.splice(bestIdx, 1)[0];
+    if (this.inspectedObject === removed) {
+      this.inspectedObject = null;
+      this.renderObjectInspector();
+    }
+    this.game?.objectLayer?.removePlacedObject(removed.id);
+    this.collab?.send([{ kind: "objectRemove", key: removed.id }]);
+    // Undo restores the editor preview; the runtime NPC reappears after save.
+    const snap = { ...removed };
+    this.pushEdit({
+      label: `remove ${removed.spriteDefName}`,
+      undo: () => this.attachPlacedObject(snap),
+      redo: () => this.detachPlacedObject(snap),
+    });
+
+    if (mode === "npc" && this.game?.entityLayer) {
+      // Also remove the nearest runtime NPC around the clicked area.
+      const npcHit = this.game.entityLayer.findNearestNPCAt(worldX, worldY, 320);
+      if (npcHit) this.game.entityLayer.removeNPC(npcHit.id);
+      this.tileInfoEl.textContent = `Removed NPC (${this.placedObjects.length} total)`;
+      return;
+    }
+
+    this.tileInfoEl.textContent = `Removed object (${this.placedObjects.length} total)`;
+  }
+
+  // =========================================================================
+  // Save all (map + objects)
+  // =========================================================================
+
+  // ===========================================================================
+  // Portal editor
+  // ===========================================================================
+
+  private buildMapPicker(): HTMLElement {
+    const picker = document.createElement("div");
+    picker.className = "tileset-picker";
+
+    const header = document.createElement("div");
+    header.className = "tileset-picker-header";
+    const label = document.createElement("div");
+    label.className = "tileset-picker-label";
+    label.textContent = "Map Settings";
+    header.appendChild(label);
+    picker.appendChild(header);
+
+    const form = document.createElement("div");
+    form.style.cssText = "padding:8px;display:flex;flex-direction:column;gap:6px;font-size:12px;";
+
+    const nameRow = document.createElement("div");
+    nameRow.style.cssText = "display:flex;gap:4px;align-items:center;";
+    const nameLabel = document.createElement("span");
+    nameLabel.textContent = "Map Name:";
+    nameLabel.style.minWidth = "80px";
+    const nameInput = document.createElement("input");
+    nameInput.type = "text";
+    nameInput.placeholder = "Map name";
+    nameInput.style.cssText = "flex:1;padding:4px;background:#181825;color:#eee;border:1px solid #444;border-radius:4px;font-size:12px;";
+    nameInput.addEventListener("input", () => {
+      const mapData = this.game?.mapRenderer.getMapData();
+      if (mapData) mapData.name = nameInput.value.trim() || mapData.name;
+    });
+    this.mapNameInput = nameInput;
+    nameRow.append(nameLabel, nameInput);
+    form.appendChild(nameRow);
+
+    const musicRow = document.createElement("div");
+    musicRow.style.cssText = "display:flex;gap:4px;align-items:center;";
+    const musicLabel = document.createElement("span");
+    musicLabel.textContent = "Music:";
+    musicLabel.style.minWidth = "80px";
+    const musicSelect = document.createElement("select");
+    musicSelect.style.cssText = "flex:1;padding:4px;background:#181825;color:#eee;border:1px solid #444;border-radius:4px;font-size:12px;";
+    for (const m of MUSIC_OPTIONS) {
+      const opt = document.createElement("option");
+      opt.value = m.url;
+      opt.textContent = m.label;
+      musicSelect.appendChild(opt);
+    }
+    musicSelect.addEventListener("change", () => {
+      const mapData = this.game?.mapRenderer.getMapData();
+      if (mapData) mapData.musicUrl = musicSelect.value || undefined;
+    });
+    this.mapMusicSelect = musicSelect;
+    musicRow.append(musicLabel, musicSelect);
+    form.appendChild(musicRow);
+
+    const combatRow = document.createElement("div");
+    combatRow.style.cssText = "display:flex;gap:4px;align-items:center;";
+    const combatLabel = document.createElement("span");
+    combatLabel.textContent = "Combat:";
+    combatLabel.style.minWidth = "80px";
+    const combatCheck = document.createElement("input");
     combatCheck.type = "checkbox";
     combatCheck.addEventListener("change", () => {
       const mapData = this.game?.mapRenderer.getMapData();
@@ -1932,6 +3123,54 @@ export class MapEditorPanel {
     combatVarianceRow.append(combatVarianceLabel, combatVarianceInput);
     form.appendChild(combatVarianceRow);
 
+    const combatModeRow = document.createElement("div");
+    combatModeRow.style.cssText = "display:flex;gap:4px;align-items:center;";
+    const combatModeLabel = document.createElement("span");
+    combatModeLabel.textContent = "Combat Mode:";
+    combatModeLabel.style.minWidth = "80px";
+    const combatModeSelect = document.createElement("select");
+    combatModeSelect.style.cssText = "flex:1;padding:4px;background:#181825;color:#eee;border:1px solid #444;border-radius:4px;font-size:12px;";
+    for (const [value, text] of [["realtime", "Real-time"], ["turn-based", "Turn-based"]]) {
+      const opt = document.createElement("option");
+      opt.value = value;
+      opt.textContent = text;
+      combatModeSelect.appendChild(opt);
+    }
+    combatModeSelect.addEventListener("change", () => {
+      const mapData = this.game?.mapRenderer.getMapData();
+      if (!mapData) return;
+      mapData.combatSettings = mapData.combatSettings ?? {};
+      mapData.combatSettings.mode = combatModeSelect.value === "turn-based" ? "turn-based" : "realtime";
+    });
+    this.mapCombatModeSelect = combatModeSelect;
+    combatModeRow.append(combatModeLabel, combatModeSelect);
+    form.appendChild(combatModeRow);
+
+    // Turn-based maps: chance of a random encounter from the map's encounter pool
+    const encounterRow = document.createElement("div");
+    encounterRow.style.cssText = "display:flex;gap:4px;align-items:center;";
+    const encounterLabel = document.createElement("span");
+    encounterLabel.textContent = "Encounter %:";
+    encounterLabel.style.minWidth = "80px";
+    encounterLabel.title = "Chance of a random battle every few tiles walked (turn-based maps)";
+    const encounterInput = document.createElement("input");
+    encounterInput.type = "number";
+    encounterInput.min = "0";
+    encounterInput.max = "100";
+    encounterInput.step = "1";
+    encounterInput.style.cssText = "flex:1;padding:4px;background:#181825;color:#eee;border:1px solid #444;border-radius:4px;font-size:12px;";
+    encounterInput.addEventListener("input", () => {
+      const mapData = this.game?.mapRenderer.getMapData();
+      if (!mapData) return;
+      const n = Number(encounterInput.value);
+      if (!Number.isFinite(n)) return;
+      mapData.combatSettings = mapData.combatSettings ?? {};
+      mapData.combatSettings.encounterChancePct = Math.max(0, Math.min(100, Math.round(n)));
+    });
+    this.mapEncounterChanceInput = encounterInput;
+    encounterRow.append(encounterLabel, encounterInput);
+    form.appendChild(encounterRow);
+
     const statusRow = document.createElement("div");
     statusRow.style.cssText = "display:flex;gap:4px;align-items:center;";
     const statusLabel = document.createElement("span");
@@ -1947,12 +3186,26 @@ export class MapEditorPanel {
     }
     statusSelect.addEventListener("change", () => {
       const mapData = this.game?.mapRenderer.getMapData();
-      if (mapData) mapData.status = statusSelect.value;
+      if (!mapData) return;
+      // Publishing is refused while the linter reports errors — show them up front
+      if (mapData.status === "draft" && statusSelect.value === "published") void this.runMapLint();
+      mapData.status = statusSelect.value;
     });
     this.mapStatusSelect = statusSelect;
     statusRow.append(statusLabel, statusSelect);
     form.appendChild(statusRow);
 
+    const lintBtn = document.createElement("button");
+    lintBtn.style.cssText = "padding:4px;background:#181825;border:1px solid #444;border-radius:4px;color:#ccc;cursor:pointer;font-size:12px;";
+    lintBtn.textContent = "🔍 Check map";
+    lintBtn.title = "Look for broken portals, unreachable spawns, misplaced objects and bad tiles (checks the saved map)";
+    lintBtn.addEventListener("click", () => void this.runMapLint());
+    form.appendChild(lintBtn);
+
+    this.lintResultsEl = document.createElement("div");
+    this.lintResultsEl.style.cssText = "display:none;max-height:180px;overflow-y:auto;padding:6px 8px;background:#1a1a2e;border:1px solid #333;border-radius:4px;font-size:11px;line-height:1.5;";
+    form.appendChild(this.lintResultsEl);
+
     const info = document.createElement("div");
     info.style.cssText = "margin-top:6px;padding:6px 8px;background:#1a1a2e;border:1px solid #333;border-radius:4px;font-size:11px;color:#aaa;line-height:1.4;";
     info.textContent = "Map settings are saved when you click Save.";
@@ -2046,6 +3299,11 @@ export class MapEditorPanel {
     this.portalListEl.style.cssText = "padding:0 8px 8px;max-height:200px;overflow-y:auto;";
     picker.appendChild(this.portalListEl);
 
+    this.portalInspectorEl = document.createElement("div");
+    this.portalInspectorEl.style.cssText =
+      "padding:8px;display:none;flex-direction:column;gap:6px;font-size:12px;border-top:1px solid #333;";
+    picker.appendChild(this.portalInspectorEl);
+
     return picker;
   }
 
@@ -2098,6 +3356,10 @@ export class MapEditorPanel {
         mapData.combatSettings?.damageVariancePct ?? COMBAT_DAMAGE_VARIANCE_PCT,
       );
     }
+    if (this.mapCombatModeSelect) this.mapCombatModeSelect.value = mapData.combatSettings?.mode ?? "realtime";
+    if (this.mapEncounterChanceInput) {
+      this.mapEncounterChanceInput.value = String(mapData.combatSettings?.encounterChancePct ?? 0);
+    }
     if (this.mapStatusSelect) this.mapStatusSelect.value = mapData.status ?? "published";
   }
 
@@ -2170,6 +3432,7 @@ export class MapEditorPanel {
 
   private async refreshPortalList() {
     if (!this.portalListEl) return;
+    this.renderPortalInspector();
     const mapData = this.game?.mapRenderer.getMapData();
     let portals = mapData?.portals ?? [];
 
@@ -2225,23 +3488,83 @@ export class MapEditorPanel {
       info.style.flex = "1";
       info.textContent = `🚪 ${p.name} → ${p.targetMap}:${p.targetSpawn} (${p.x},${p.y} ${p.width}x${p.height})`;
 
+      const lockBtn = document.createElement("button");
+      lockBtn.textContent = p.requirements ? "\u{1F512}" : "\u{1F513}";
+      lockBtn.title = p.requirements ? "Locked \u2014 edit requirements" : "Add lock requirements";
+      lockBtn.style.cssText = `background:none;border:none;cursor:pointer;font-size:12px;opacity:${p.requirements ? "1" : "0.5"};`;
+      lockBtn.addEventListener("click", () => {
+        this.inspectedPortal = p.name;
+        this.renderPortalInspector();
+      });
+
       const delBtn = document.createElement("button");
       delBtn.textContent = "✕";
       delBtn.style.cssText = "background:none;border:none;color:#e74c3c;cursor:pointer;font-size:13px;";
       delBtn.addEventListener("click", () => {
         if (mapData && mapData.portals) {
-          mapData.portals.splice(i, 1);
+          this.recordMarkerEdit(`delete portal ${p.name}`, () => {
+            mapData.portals!.splice(i, 1);
+          });
           if (this.game) this.game.currentPortals = mapData.portals;
           void this.refreshPortalList();
           this.game?.mapRenderer.renderPortalOverlay();
         }
       });
 
-      row.append(info, delBtn);
+      row.append(info, lockBtn, delBtn);
       this.portalListEl.appendChild(row);
     }
   }
 
+  /** Lock requirements of the portal picked in the list */
+  private renderPortalInspector() {
+    const el = this.portalInspectorEl;
+    const mapData = this.game?.mapRenderer.getMapData();
+    const portal = mapData?.portals?.find((p) => p.name === this.inspectedPortal);
+    el.innerHTML = "";
+    el.style.display = portal ? "flex" : "none";
+    if (!mapData || !portal) return;
+
+    const title = document.createElement("div");
+    title.style.cssText = "display:flex;justify-content:space-between;align-items:center;font-size:13px;font-weight:600;";
+    title.textContent = `Lock: ${portal.name}`;
+    const closeBtn = document.createElement("button");
+    closeBtn.textContent = "\u00D7";
+    closeBtn.title = "Stop editing this portal";
+    closeBtn.style.cssText = "background:none;border:none;color:#aaa;cursor:pointer;font-size:16px;";
+    closeBtn.addEventListener("click", () => {
+      this.inspectedPortal = null;
+      this.renderPortalInspector();
+    });
+    title.appendChild(closeBtn);
+
+    const lock = buildLockFields(portal.requirements);
+    const applyBtn = document.createElement("button");
+    applyBtn.textContent = "Apply";
+    applyBtn.style.cssText = "padding:4px 10px;background:#2b5;color:white;border:none;border-radius:4px;cursor:pointer;font-size:12px;align-self:flex-end;";
+    applyBtn.addEventListener("click", () => {
+      const requirements = lock.read();
+      this.recordMarkerEdit(`lock portal ${portal.name}`, () => {
+        const target = mapData.portals?.find((p) => p.name === portal.name);
+        if (!target) return;
+        if (requirements) target.requirements = requirements;
+        else delete target.requirements;
+      });
+      if (this.game) this.game.currentPortals = mapData.portals ?? [];
+      void this.refreshPortalList();
+      this.tileInfoEl.textContent = requirements
+        ? `Portal "${portal.name}" locked (save to keep)`
+        : `Portal "${portal.name}" unlocked (save to keep)`;
+    });
+
+    el.append(
+      title,
+      ...lock.rows,
+      inspectorHelp("Players who don't meet every requirement are turned back. Leave everything blank to unlock."),
+      applyBtn,
+    );
+  }
+
   /** Called from the canvas click handler when portal tool is active */
   private handlePortalClick(tileX: number, tileY: number) {
     // Validate required fields
@@ -2277,8 +3600,10 @@ export class MapEditorPanel {
       // Add to map data
       const mapData = this.game?.mapRenderer.getMapData();
       if (mapData) {
-        if (!mapData.portals) mapData.portals = [];
-        mapData.portals.push(portal);
+        this.recordMarkerEdit(`place portal ${portal.name}`, () => {
+          if (!mapData.portals) mapData.portals = [];
+          mapData.portals.push(portal);
+        });
         // Also update Game's runtime portals
         if (this.game) {
           this.game.currentPortals = mapData.portals;
@@ -2312,7 +3637,10 @@ export class MapEditorPanel {
     );
 
     if (idx >= 0) {
-      const removed = mapData.portals.splice(idx, 1)[0];
+      const removed = mapData.portals[idx];
+      this.recordMarkerEdit(`delete portal ${removed.name}`, () => {
+        mapData.portals!.splice(idx, 1);
+      });
       // Update Game's runtime portals
       if (this.game) {
         this.game.currentPortals = mapData.portals;
@@ -2406,7 +3734,9 @@ export class MapEditorPanel {
       delBtn.style.cssText = "background:none;border:none;color:#e74c3c;cursor:pointer;font-size:13px;";
       delBtn.addEventListener("click", () => {
         if (mapData && mapData.labels) {
-          mapData.labels.splice(i, 1);
+          this.recordMarkerEdit(`delete label ${l.name}`, () => {
+            mapData.labels.splice(i, 1);
+          });
           this.refreshLabelList();
           this.game?.mapRenderer.renderLabelOverlay();
         }
@@ -2439,14 +3769,16 @@ export class MapEditorPanel {
 
       const mapData = this.game?.mapRenderer.getMapData();
       if (mapData) {
-        if (!mapData.labels) mapData.labels = [];
-        // Replace if a label with this name already exists
-        const existingIdx = mapData.labels.findIndex((l) => l.name === this.labelDraftName);
-        if (existingIdx >= 0) {
-          mapData.labels[existingIdx] = newLabel;
-        } else {
-          mapData.labels.push(newLabel);
-        }
+        this.recordMarkerEdit(`place label ${newLabel.name}`, () => {
+          if (!mapData.labels) mapData.labels = [];
+          // Replace if a label with this name already exists
+          const existingIdx = mapData.labels.findIndex((l) => l.name === newLabel.name);
+          if (existingIdx >= 0) {
+            mapData.labels[existingIdx] = newLabel;
+          } else {
+            mapData.labels.push(newLabel);
+          }
+        });
       }
 
       this.labelStart = null;
@@ -2477,12 +3809,575 @@ export class MapEditorPanel {
       return;
     }
 
-    const removed = mapData.labels.splice(idx, 1)[0];
+    const removed = mapData.labels[idx];
+    this.recordMarkerEdit(`remove label ${removed.name}`, () => {
+      mapData.labels.splice(idx, 1);
+    });
     this.tileInfoEl.textContent = `Removed label "${removed.name}"`;
     this.refreshLabelList();
     this.game?.mapRenderer.renderLabelOverlay();
   }
 
+  /** A save that publishes a draft is refused while the linter finds errors: list them. */
+  private showPublishBlocked(err: unknown) {
+    const text = String((err as any)?.message ?? err);
+    const start = text.indexOf("Can't publish");
+    if (start < 0) return;
+    const end = text.indexOf("\n    at ", start);
+    this.lintResultsEl.style.display = "";
+    this.lintResultsEl.style.color = "#ff9a8f";
+    this.lintResultsEl.style.whiteSpace = "pre-wrap";
+    this.lintResultsEl.textContent = text.slice(start, end < 0 ? undefined : end);
+  }
+
+  /** Lint the saved map and list the problems under the map settings. */
+  private async runMapLint() {
+    if (!this.game) return;
+    const el = this.lintResultsEl;
+    el.style.display = "";
+    el.style.color = "#aaa";
+    el.style.whiteSpace = "";
+    el.textContent = "Checking…";
+    try {
+      const issues: MapLintIssue[] = await getConvexClient().query(api.maps.lint, {
+        name: this.game.currentMapName,
+        tilesetDims: TILESHEET_CONFIGS.map((ts) => ({
+          url: ts.url,
+          imageWidth: ts.imageWidth,
+          imageHeight: ts.imageHeight,
+        })),
+      });
+      el.innerHTML = "";
+      if (issues.length === 0) {
+        el.style.color = "#2ecc71";
+        el.textContent = "✓ No problems found";
+        return;
+      }
+      const errors = issues.filter((i) => i.severity === "error").length;
+      const head = document.createElement("div");
+      head.style.cssText = `color:${errors > 0 ? "#e74c3c" : "#f1c40f"};font-weight:600;margin-bottom:2px;`;
+      head.textContent = errors > 0
+        ? `${errors} error(s) — fix before publishing`
+        : `${issues.length} warning(s)`;
+      el.appendChild(head);
+      for (const issue of issues) {
+        const row = document.createElement("div");
+        row.style.color = issue.severity === "error" ? "#ff9a8f" : "#f5d76e";
+        const where = issue.x !== undefined ? ` (${issue.x}, ${issue.y})` : "";
+        row.textContent = `${issue.severity === "error" ? "✖" : "⚠"} ${issue.message}${where}`;
+        el.appendChild(row);
+      }
+    } catch (err: any) {
+      el.style.color = "#e74c3c";
+      el.textContent = `Check failed: ${err?.message ?? err}`;
+    }
+  }
+
+  // ===========================================================================
+  // Live collaboration (edits streamed to / from other editors of this map)
+  // ===========================================================================
+
+  private startCollab() {
+    this.stopCollab();
+    const game = this.game;
+    const mapData = game?.mapRenderer.getMapData();
+    // Maps that only exist as static JSON have no edit log yet
+    if (!game || !mapData || mapData.editSeq === undefined || game.isGuest) return;
+
+    this.collab = new MapCollabSession(game.profile._id as any, game.currentMapName, mapData.editSeq, {
+      onRemoteOps: (ops) => this.applyRemoteOps(ops),
+      onReload: () => void this.reloadFromServer(),
+      onIdAssigned: (key, id) => this.adoptServerId(key, id),
+      onCursors: (cursors) => this.game?.mapRenderer.showRemoteCursors(cursors),
+      onError: (message) => this.showSaveStatus(`Sync failed: ${message}`, true),
+    });
+    this.collab.start();
+    this.collab.setCursor(this.cursorTile.x, this.cursorTile.y, this.tool);
+  }
+
+  private stopCollab() {
+    this.collab?.stop();
+    this.collab = null;
+    this.game?.mapRenderer.hideRemoteCursors();
+  }
+
+  /** Another editor replaced the map (full save / revert): load the stored copy. */
+  private async reloadFromServer() {
+    if (this.collabReloading || !this.game) return;
+    this.collabReloading = true;
+    this.stopCollab();
+    try {
+      // onMapChanged restarts the session from the fresh snapshot
+      await this.game.reloadCurrentMap();
+      this.showSaveStatus("Reloaded latest map");
+    } catch (err) {
+      console.error("Failed to reload map:", err);
+      this.showSaveStatus("Reload failed!", true);
+    } finally {
+      this.collabReloading = false;
+    }
+  }
+
+  private trackCursor(worldX: number, worldY: number) {
+    const mapData = this.game?.mapRenderer.getMapData();
+    if (!mapData) return;
+    let x = Math.floor(worldX / mapData.tileWidth);
+    let y = Math.floor(worldY / mapData.tileHeight);
+    if (x < 0 || y < 0 || x >= mapData.width || y >= mapData.height) {
+      x = -1;
+      y = -1;
+    }
+    this.cursorTile = { x, y };
+    this.collab?.setCursor(x, y, this.tool);
+  }
+
+  private sendObject(obj: PlacedObject) {
+    this.collab?.send([{
+      kind: "object",
+      key: obj.id,
+      spriteDefName: obj.spriteDefName,
+      x: obj.x,
+      y: obj.y,
+      layer: obj.layer,
+      instanceName: obj.instanceName,
+      container: obj.container,
+      requirements: obj.requirements,
+    }]);
+  }
+
+  private sendItem(item: typeof this.placedItems[0]) {
+    this.collab?.send([{
+      kind: "item",
+      key: item.id,
+      itemDefName: item.itemDefName,
+      x: item.x,
+      y: item.y,
+      quantity: item.quantity ?? 1,
+      respawn: item.respawn,
+      respawnMs: item.respawnMs,
+    }]);
+  }
+
+  /** Send the portals / labels that differ between two snapshots, by name. */
+  private sendMarkerChanges(
+    before: { portals: Portal[]; labels: MapLabel[] },
+    after: { portals: Portal[]; labels: MapLabel[] },
+  ) {
+    if (!this.collab) return;
+    const ops: MapEditOp[] = [];
+    const same = (a: object, b: object) => JSON.stringify(a) === JSON.stringify(b);
+
+    for (const p of after.portals) {
+      const prev = before.portals.find((q) => q.name === p.name);
+      if (prev && same(prev, p)) continue;
+      ops.push({
+        kind: "portal",
+        portal: {
+          name: p.name,
+          x: p.x,
+          y: p.y,
+          width: p.width,
+          height: p.height,
+          targetMap: p.targetMap,
+          targetSpawn: p.targetSpawn,
+          direction: p.direction,
+          transition: p.transition,
+          requirements: p.requirements,
+        },
+      });
+    }
+    for (const p of before.portals) {
+      if (!after.portals.some((q) => q.name === p.name)) ops.push({ kind: "portalRemove", name: p.name });
+    }
+
+    for (const l of after.labels) {
+      const prev = before.labels.find((q) => q.name === l.name);
+      if (prev && same(prev, l)) continue;
+      ops.push({
+        kind: "label",
+        label: { name: l.name, x: l.x, y: l.y, width: l.width ?? 1, height: l.height ?? 1 },
+      });
+    }
+    for (const l of before.labels) {
+      if (!after.labels.some((q) => q.name === l.name)) ops.push({ kind: "labelRemove", name: l.name });
+    }
+    this.collab.send(ops);
+  }
+
+  /**
+   * Apply edits made by other editors. They bypass the undo history: undo
+   * only ever rewinds this editor's own changes.
+   */
+  private applyRemoteOps(ops: MapEditOp[]) {
+    const game = this.game;
+    const mapData = game?.mapRenderer.getMapData();
+    if (!game || !mapData) return;
+
+    const tilesByLayer = new Map<number, { x: number; y: number; tileIndex: number }[]>();
+    let collisionChanged = false;
+    let portalsChanged = false;
+    let labelsChanged = false;
+
+    for (const op of ops) {
+      switch (op.kind) {
+        case "tile": {
+          const layerIndex = mapData.layers.findIndex((l) => l.name === op.layer);
+          if (layerIndex < 0) break;
+          const cells = tilesByLayer.get(layerIndex) ?? [];
+          cells.push({ x: op.x, y: op.y, tileIndex: op.tile });
+          tilesByLayer.set(layerIndex, cells);
+          break;
+        }
+        case "collision":
+          mapData.collisionMask[op.y * mapData.width + op.x] = op.blocked;
+          collisionChanged = true;
+          break;
+        case "object": {
+          const existing = this.placedObjects.find((o) => o.id === op.key);
+          const obj: PlacedObject = existing ?? { id: op.key, spriteDefName: op.spriteDefName, x: op.x, y: op.y, layer: op.layer };
+          if (existing) game.objectLayer?.removePlacedObject(existing.id);
+          else this.placedObjects.push(obj);
+          Object.assign(obj, {
+            spriteDefName: op.spriteDefName,
+            x: op.x,
+            y: op.y,
+            layer: op.layer,
+            instanceName: op.instanceName,
+            container: op.container,
+            requirements: op.requirements,
+          });
+          if (obj === this.inspectedObject) this.renderObjectInspector();
+          const def = this.spriteDefs.find((d) => d.name === obj.spriteDefName);
+          game.objectLayer?.addPlacedObject(obj, def as any);
+          break;
+        }
+        case "objectRemove": {
+          const idx = this.placedObjects.findIndex((o) => o.id === op.key);
+          if (idx < 0) break;
+          const [removed] = this.placedObjects.splice(idx, 1);
+          game.objectLayer?.removePlacedObject(removed.id);
+          break;
+        }
+        case "item": {
+          const existing = this.placedItems.find((i) => i.id === op.key);
+          const item = existing ?? { id: op.key, itemDefName: op.itemDefName, x: op.x, y: op.y, quantity: op.quantity };
+          if (existing) game.worldItemLayer?.removeItem(existing.id);
+          else this.placedItems.push(item);
+          Object.assign(item, {
+            sourceId: op.key,
+            itemDefName: op.itemDefName,
+            x: op.x,
+            y: op.y,
+            quantity: op.quantity,
+            respawn: op.respawn,
+            respawnMs: op.respawnMs,
+          });
+          const def = this.itemDefs.find((d) => d.name === item.itemDefName);
+          game.worldItemLayer?.addItem({ id: item.id, itemDefName: item.itemDefName, x: item.x, y: item.y, quantity: item.quantity }, def);
+          break;
+        }
+        case "itemRemove": {
+          const idx = this.placedItems.findIndex((i) => i.id === op.key);
+          if (idx < 0) break;
+          const [removed] = this.placedItems.splice(idx, 1);
+          game.worldItemLayer?.removeItem(removed.id);
+          break;
+        }
+        case "portal":
+          mapData.portals = [...(mapData.portals ?? []).filter((p) => p.name !== op.portal.name), { ...op.portal }];
+          portalsChanged = true;
+          break;
+        case "portalRemove":
+          mapData.portals = (mapData.portals ?? []).filter((p) => p.name !== op.name);
+          portalsChanged = true;
+          break;
+        case "label":
+          mapData.labels = [...mapData.labels.filter((l) => l.name !== op.label.name), { ...op.label }];
+          labelsChanged = true;
+          break;
+        case "labelRemove":
+          mapData.labels = mapData.labels.filter((l) => l.name !== op.name);
+          labelsChanged = true;
+          break;
+      }
+    }
+
+    for (const [layerIndex, cells] of tilesByLayer) {
+      game.mapRenderer.setTiles(layerIndex, cells);
+    }
+    if (collisionChanged && game.mapRenderer.isCollisionOverlayVisible()) {
+      game.mapRenderer.renderCollisionOverlay();
+    }
+    if (portalsChanged) {
+      game.currentPortals = mapData.portals;
+      void this.refreshPortalList();
+      game.mapRenderer.renderPortalOverlay();
+    }
+    if (labelsChanged) {
+      this.refreshLabelList();
+      game.mapRenderer.renderLabelOverlay();
+    }
+  }
+
+  /** An object / item we placed got its Convex id: re-key it locally. */
+  private adoptServerId(key: string, id: string) {
+    const obj = this.placedObjects.find((o) => o.id === key);
+    if (obj) {
+      this.game?.objectLayer?.removePlacedObject(key);
+      obj.id = id;
+      const def = this.spriteDefs.find((d) => d.name === obj.spriteDefName);
+      this.game?.objectLayer?.addPlacedObject(obj, def as any);
+    }
+    const item = this.placedItems.find((i) => i.id === key);
+    if (item) {
+      this.game?.worldItemLayer?.removeItem(key);
+      item.id = id;
+      item.sourceId = id;
+      const def = this.itemDefs.find((d) => d.name === item.itemDefName);
+      this.game?.worldItemLayer?.addItem({ id: item.id, itemDefName: item.itemDefName, x: item.x, y: item.y, quantity: item.quantity }, def);
+    }
+  }
+
+  /**
+   * Save while live editing: edits are already stored, so only the map
+   * settings are written and the current state is recorded as a revision.
+   */
+  private async saveLive(mapData: MapData) {
+    if (!this.game || !this.collab) return;
+    this.showSaveStatus("Saving…");
+    try {
+      const convex = getConvexClient();
+      const profileId = this.game.profile._id as any;
+      const mapName = this.game.currentMapName;
+      await this.collab.flush();
+
+      const meta: Record<string, unknown> = { profileId, name: mapName };
+      if (mapData.musicUrl != null) meta.musicUrl = mapData.musicUrl;
+      if (mapData.combatEnabled != null) meta.combatEnabled = mapData.combatEnabled;
+      if (mapData.combatSettings != null) meta.combatSettings = mapData.combatSettings;
+      if (mapData.status != null) meta.status = mapData.status;
+      await convex.mutation(api.maps.updateMetadata, meta as any);
+
+      const { revision } = await convex.mutation(api.mapRevisions.checkpoint, { profileId, mapName });
+      this.showSaveStatus(`Saved ✓ (revision #${revision})`);
+    } catch (err) {
+      console.error("Failed to save:", err);
+      this.showSaveStatus("Save failed!", true);
+      this.showPublishBlocked(err);
+    }
+  }
+
+  // ===========================================================================
+  // Revision history (every save is a revision; compare and revert)
+  // ===========================================================================
+
+  private buildHistoryPicker(): HTMLElement {
+    const picker = document.createElement("div");
+    picker.className = "tileset-picker";
+
+    const header = document.createElement("div");
+    header.className = "tileset-picker-header";
+    const title = document.createElement("div");
+    title.className = "tileset-picker-label";
+    title.textContent = "Revision History";
+    header.appendChild(title);
+    picker.appendChild(header);
+
+    // --- Compare two revisions ---
+    const compareRow = document.createElement("div");
+    compareRow.style.cssText = "padding:8px;display:flex;gap:4px;align-items:center;font-size:12px;";
+    const selectCss = "flex:1;padding:4px;background:#181825;color:#eee;border:1px solid #444;border-radius:4px;font-size:12px;";
+    this.revisionFromSelect = document.createElement("select");
+    this.revisionFromSelect.style.cssText = selectCss;
+    this.revisionToSelect = document.createElement("select");
+    this.revisionToSelect.style.cssText = selectCss;
+    const arrow = document.createElement("span");
+    arrow.textContent = "→";
+    const compareBtn = document.createElement("button");
+    compareBtn.className = "editor-tool-btn";
+    compareBtn.textContent = "Compare";
+    compareBtn.addEventListener("click", () => {
+      void this.showRevisionDiff(Number(this.revisionFromSelect.value), Number(this.revisionToSelect.value));
+    });
+    compareRow.append(this.revisionFromSelect, arrow, this.revisionToSelect, compareBtn);
+    picker.appendChild(compareRow);
+
+    this.revisionDiffEl = document.createElement("div");
+    this.revisionDiffEl.style.cssText = "padding:0 8px;font-size:11px;color:#ccc;line-height:1.5;";
+    picker.appendChild(this.revisionDiffEl);
+
+    // --- Revision list ---
+    const listHeader = document.createElement("div");
+    listHeader.style.cssText = "padding:8px;font-size:13px;font-weight:600;border-top:1px solid #333;";
+    listHeader.textContent = "Revisions";
+    picker.appendChild(listHeader);
+
+    this.revisionListEl = document.createElement("div");
+    this.revisionListEl.style.cssText = "padding:0 8px 8px;max-height:300px;overflow-y:auto;";
+    picker.appendChild(this.revisionListEl);
+
+    return picker;
+  }
+
+  private subscribeToRevisions() {
+    this.unsubscribeFromRevisions();
+    const mapName = this.game?.currentMapName;
+    if (!mapName) return;
+    const convex = getConvexClient();
+    this.revisionDiffEl.innerHTML = "";
+    this.revisionsUnsub = convex.onUpdate(api.mapRevisions.list, { mapName }, (rows) => {
+      this.revisions = rows as MapRevisionRow[];
+      this.renderRevisionList();
+    });
+  }
+
+  private unsubscribeFromRevisions() {
+    this.revisionsUnsub?.();
+    this.revisionsUnsub = null;
+  }
+
+  private renderRevisionList() {
+    const revisions = this.revisions;
+
+    // Keep the compare selection when the list refreshes; default to latest vs previous
+    const prevFrom = this.revisionFromSelect.value;
+    const prevTo = this.revisionToSelect.value;
+    for (const select of [this.revisionFromSelect, this.revisionToSelect]) {
+      select.innerHTML = "";
+      for (const r of revisions) {
+        const opt = document.createElement("option");
+        opt.value = String(r.revision);
+        opt.textContent = `#${r.revision}`;
+        select.appendChild(opt);
+      }
+    }
+    const has = (value: string) => revisions.some((r) => String(r.revision) === value);
+    this.revisionToSelect.value = has(prevTo) ? prevTo : String(revisions[0]?.revision ?? "");
+    this.revisionFromSelect.value = has(prevFrom) ? prevFrom : String(revisions[1]?.revision ?? revisions[0]?.revision ?? "");
+
+    if (revisions.length === 0) {
+      this.revisionListEl.innerHTML = '<div style="color:#888;font-size:12px;">No revisions yet — save the map to create one</div>';
+      return;
+    }
+
+    this.revisionListEl.innerHTML = "";
+    revisions.forEach((r, i) => {
+      const row = document.createElement("div");
+      row.style.cssText =
+        "display:flex;align-items:center;gap:6px;padding:4px 0;border-bottom:1px solid #222;font-size:11px;";
+
+      const info = document.createElement("div");
+      info.style.flex = "1";
+      const meta = document.createElement("div");
+      meta.style.color = "#888";
+      const when = new Date(r.createdAt).toLocaleString();
+      meta.textContent = `#${r.revision} · ${when}${r.authorName ? ` · ${r.authorName}` : ""}`;
+      const summary = document.createElement("div");
+      summary.textContent = r.summary;
+      info.append(meta, summary);
+      row.appendChild(info);
+
+      if (i > 0) {
+        const diffBtn = document.createElement("button");
+        diffBtn.textContent = "Diff";
+        diffBtn.title = `Compare revision #${r.revision} with the latest`;
+        diffBtn.style.cssText = "background:none;border:1px solid #444;border-radius:3px;color:#ccc;cursor:pointer;font-size:11px;";
+        diffBtn.addEventListener("click", () => {
+          this.revisionFromSelect.value = String(r.revision);
+          this.revisionToSelect.value = String(revisions[0].revision);
+          void this.showRevisionDiff(r.revision, revisions[0].revision);
+        });
+
+        const revertBtn = document.createElement("button");
+        revertBtn.textContent = "↺ Revert";
+        revertBtn.title = `Restore the map to revision #${r.revision}`;
+        revertBtn.style.cssText = "background:none;border:1px solid #444;border-radius:3px;color:#e67e22;cursor:pointer;font-size:11px;";
+        revertBtn.addEventListener("click", () => void this.revertToRevision(r.revision));
+        row.append(diffBtn, revertBtn);
+      } else {
+        const current = document.createElement("span");
+        current.textContent = "current";
+        current.style.cssText = "color:#2ecc71;font-size:10px;";
+        row.appendChild(current);
+      }
+
+      this.revisionListEl.appendChild(row);
+    });
+  }
+
+  private async showRevisionDiff(fromRevision: number, toRevision: number) {
+    const mapName = this.game?.currentMapName;
+    if (!mapName || !Number.isFinite(fromRevision) || !Number.isFinite(toRevision)) return;
+    this.revisionDiffEl.textContent = "Comparing…";
+    try {
+      const convex = getConvexClient();
+      const diff = await convex.query(api.mapRevisions.diff, { mapName, fromRevision, toRevision });
+
+      const lines: string[] = [];
+      if (diff.resized) lines.push(`📐 Resized ${diff.resized.from} → ${diff.resized.to}`);
+      for (const l of diff.layers) {
+        if (l.change !== "changed") {
+          lines.push(`🧱 Layer "${l.name}" ${l.change}`);
+        } else {
+          const where = l.bounds ? ` in (${l.bounds.x},${l.bounds.y}) ${l.bounds.w}×${l.bounds.h}` : "";
+          lines.push(`🧱 Layer "${l.name}": ${l.tilesChanged} tile(s)${where}`);
+        }
+      }
+      if (diff.collisionChanged > 0) lines.push(`🚧 Collision: ${diff.collisionChanged} cell(s)`);
+      for (const p of diff.portals) lines.push(`🚪 Portal "${p.name}" ${p.change}`);
+      for (const l of diff.labels) lines.push(`🏷 Label "${l.name}" ${l.change}`);
+      const counts = (icon: string, what: string, c: { added: number; removed: number; moved: number }) => {
+        const parts = [
+          c.added ? `+${c.added}` : "",
+          c.removed ? `−${c.removed}` : "",
+          c.moved ? `${c.moved} moved` : "",
+        ].filter(Boolean);
+        if (parts.length > 0) lines.push(`${icon} ${what}: ${parts.join(", ")}`);
+      };
+      counts("📦", "Objects", diff.objects);
+      counts("⚔️", "Items", diff.items);
+      if (diff.settings.length > 0) lines.push(`⚙ Settings: ${diff.settings.join(", ")}`);
+
+      this.revisionDiffEl.innerHTML = "";
+      const title = document.createElement("div");
+      title.style.cssText = "font-weight:600;color:#eee;";
+      title.textContent = `#${fromRevision} → #${toRevision}`;
+      this.revisionDiffEl.appendChild(title);
+      for (const text of lines.length > 0 ? lines : ["No differences"]) {
+        const line = document.createElement("div");
+        line.textContent = text;
+        this.revisionDiffEl.appendChild(line);
+      }
+    } catch (err) {
+      console.error("Failed to diff revisions:", err);
+      this.revisionDiffEl.textContent = "Compare failed";
+    }
+  }
+
+  private async revertToRevision(revision: number) {
+    const game = this.game;
+    if (!game) return;
+    const unsaved = this.history.canUndo ? "\n\nUnsaved edits in the editor will be lost." : "";
+    if (!window.confirm(`Revert "${game.currentMapName}" to revision #${revision}?${unsaved}`)) return;
+
+    this.showSaveStatus("Reverting…");
+    try {
+      const convex = getConvexClient();
+      const result = await convex.mutation(api.mapRevisions.revert, {
+        profileId: game.profile._id as any,
+        mapName: game.currentMapName,
+        revision,
+        ...(this.collab ? { clientId: this.collab.clientId } : {}),
+      });
+      // Reload tiles/collision/portals in place; onMapChanged resets editor state
+      await game.reloadCurrentMap();
+      this.showSaveStatus(`Reverted ✓ (now #${result.revision})`);
+    } catch (err) {
+      console.error("Failed to revert:", err);
+      this.showSaveStatus("Revert failed!", true);
+    }
+  }
+
   private async saveAll() {
     if (!this.game) return;
     const mapData = this.game.mapRenderer.getMapData();
@@ -2491,13 +4386,20 @@ export class MapEditorPanel {
       return;
     }
 
+    // Live editing: tiles, objects and markers are already on the server
+    if (this.collab && !this.structureDirty) {
+      await this.saveLive(mapData);
+      return;
+    }
+
     this.showSaveStatus("Saving…");
 
     try {
       const convex = getConvexClient();
       const mapName = mapData.name || this.game?.currentMapName || "cozy-cabin";
+      // Streamed edits go first so the full save lands after them
+      await this.collab?.flush();
 
-      // 1) Save map tiles
       const layers = mapData.layers.map((l) => ({
         name: l.name,
         type: l.type as "bg" | "obj" | "overlay",
@@ -2530,6 +4432,7 @@ export class MapEditorPanel {
         };
         if (p.direction) obj.direction = p.direction;
         if (p.transition) obj.transition = p.transition;
+        if (p.requirements) obj.requirements = p.requirements;
         return obj;
       });
 
@@ -2554,10 +4457,9 @@ export class MapEditorPanel {
       if (mapData.combatEnabled != null) saveArgs.combatEnabled = mapData.combatEnabled;
       if (mapData.combatSettings != null) saveArgs.combatSettings = mapData.combatSettings;
       if (mapData.status != null) saveArgs.status = mapData.status;
+      if (this.collab) saveArgs.clientId = this.collab.clientId;
 
-      await convex.mutation(api.maps.saveFullMap, saveArgs as any);
-
-      // 2) Save placed objects
+      // 1) Save placed objects
       await convex.mutation(api.mapObjects.bulkSave, {
         profileId,
         mapName,
@@ -2569,6 +4471,8 @@ export class MapEditorPanel {
             layer: o.layer,
           };
           if (o.instanceName) obj.instanceName = o.instanceName;
+          if (o.container) obj.container = o.container;
+          if (o.requirements) obj.requirements = o.requirements;
           // Send existingId for objects loaded from Convex (they have non-UUID ids).
           // This lets bulkSave patch them in place, preserving runtime state (isOn).
           if (o.id && !o.id.includes("-")) obj.existingId = o.id;
@@ -2576,7 +4480,7 @@ export class MapEditorPanel {
         }),
       } as any);
 
-      // 3) Save placed world items
+      // 2) Save placed world items
       await convex.mutation(api.worldItems.bulkSave, {
         profileId,
         mapName,
@@ -2591,6 +4495,11 @@ export class MapEditorPanel {
         })),
       });
 
+      // 3) Save the map last — it records a revision snapshot, which should
+      // include the objects and items saved above
+      await convex.mutation(api.maps.saveFullMap, saveArgs as any);
+      this.structureDirty = false;
+
       // Re-fetch objects and world items so newly placed entries get their
       // Convex _ids. This ensures subsequent saves correctly send existingId
       // for objects, and pickup works for freshly placed items.
@@ -2601,6 +4510,7 @@ export class MapEditorPanel {
     } catch (err) {
       console.error("Failed to save:", err);
       this.showSaveStatus("Save failed!", true);
+      this.showPublishBlocked(err);
     }
   }
 
@@ -2617,7 +4527,14 @@ export class MapEditorPanel {
         y: o.y,
         layer: o.layer ?? 0,
         isOn: o.isOn,
+        container: o.container,
+        requirements: o.requirements,
       }));
+      // Keep the inspector on the same object now that ids have changed
+      if (this.inspectedObject) {
+        this.inspectedObject = this.placedObjects[this.findPlacedObjectIndex(this.inspectedObject)] ?? null;
+        this.renderObjectInspector();
+      }
     } catch (err) {
       console.warn("Failed to load placed objects:", err);
     }
@@ -2661,6 +4578,7 @@ export class MapEditorPanel {
   toggle(visible: boolean) {
     this.el.style.display = visible ? "" : "none";
     if (visible) {
+      if (!this.collab) this.startCollab();
       if (this.tool === "object" || this.tool === "object-erase" ||
           this.tool === "npc" || this.tool === "npc-erase") {
         this.loadSpriteDefs();
@@ -2671,6 +4589,7 @@ export class MapEditorPanel {
     } else {
       // Hide ghost when leaving build mode
       this.game?.objectLayer?.hideGhost();
+      this.stopCollab();
     }
   }
 
@@ -2681,6 +4600,8 @@ export class MapEditorPanel {
     if (this.canvasUpHandler) {
       window.removeEventListener("mouseup", this.canvasUpHandler);
     }
+    this.unsubscribeFromRevisions();
+    this.stopCollab();
     this.game?.objectLayer?.hideGhost();
     this.el.remove();
   }
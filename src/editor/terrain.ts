@@ -0,0 +1,100 @@
+/**
+ * Terrain (Wang-corner) autotiling for the map editor's terrain brush.
+ *
+ * A terrain is a set of tiles from one tileset, each tagged with the corners
+ * that belong to the terrain (bitmask below). The map is treated as a grid of
+ * vertices: painting a cell turns its four corners into terrain, and every
+ * cell touching those vertices is re-picked so its corners match — which is
+ * what selects the right edge / corner transition tile.
+ */
+
+export const CORNER_TOP_LEFT = 1;
+export const CORNER_TOP_RIGHT = 2;
+export const CORNER_BOTTOM_LEFT = 4;
+export const CORNER_BOTTOM_RIGHT = 8;
+export const CORNERS_ALL = 15;
+
+/** Terrain row from Convex (tilesetTerrains) */
+export interface TerrainDef {
+  _id: string;
+  tilesetUrl: string;
+  name: string;
+  tiles: { tileIndex: number; corners: number }[];
+}
+
+/** Stable per-cell pick so repainting a cell doesn't reshuffle variants. */
+function pickVariant(candidates: number[], x: number, y: number): number {
+  const h = ((x * 73856093) ^ (y * 19349663)) >>> 0;
+  return candidates[h % candidates.length];
+}
+
+/**
+ * Paint (or erase) terrain at cell (x, y) on a layer. Returns the cells to
+ * change; the caller writes them (so they land in the undo stroke).
+ */
+export function applyTerrainBrush(
+  tiles: number[],
+  width: number,
+  height: number,
+  terrain: TerrainDef,
+  x: number,
+  y: number,
+  erase: boolean,
+): { x: number; y: number; tileIndex: number }[] {
+  const cornersOf = new Map<number, number>();
+  const byMask = new Map<number, number[]>();
+  for (const t of terrain.tiles) {
+    if (!cornersOf.has(t.tileIndex)) cornersOf.set(t.tileIndex, t.corners);
+    const list = byMask.get(t.corners) ?? [];
+    list.push(t.tileIndex);
+    byMask.set(t.corners, list);
+  }
+  if (!erase && !byMask.has(CORNERS_ALL)) return [];
+
+  const inMap = (cx: number, cy: number) => cx >= 0 && cy >= 0 && cx < width && cy < height;
+  const cellCorners = (cx: number, cy: number): number | undefined =>
+    inMap(cx, cy) ? cornersOf.get(tiles[cy * width + cx]) : undefined;
+
+  // Vertices under the brush are forced; others come from the tiles around them
+  const forced = new Map<string, boolean>();
+  for (const [vx, vy] of [[x, y], [x + 1, y], [x, y + 1], [x + 1, y + 1]]) {
+    forced.set(`${vx},${vy}`, !erase);
+  }
+  const vertex = (vx: number, vy: number): boolean => {
+    const f = forced.get(`${vx},${vy}`);
+    if (f !== undefined) return f;
+    return (
+      ((cellCorners(vx - 1, vy - 1) ?? 0) & CORNER_BOTTOM_RIGHT) !== 0 ||
+      ((cellCorners(vx, vy - 1) ?? 0) & CORNER_BOTTOM_LEFT) !== 0 ||
+      ((cellCorners(vx - 1, vy) ?? 0) & CORNER_TOP_RIGHT) !== 0 ||
+      ((cellCorners(vx, vy) ?? 0) & CORNER_TOP_LEFT) !== 0
+    );
+  };
+
+  const out: { x: number; y: number; tileIndex: number }[] = [];
+  for (let cy = y - 1; cy <= y + 1; cy++) {
+    for (let cx = x - 1; cx <= x + 1; cx++) {
+      if (!inMap(cx, cy)) continue;
+      const mask =
+        (vertex(cx, cy) ? CORNER_TOP_LEFT : 0) |
+        (vertex(cx + 1, cy) ? CORNER_TOP_RIGHT : 0) |
+        (vertex(cx, cy + 1) ? CORNER_BOTTOM_LEFT : 0) |
+        (vertex(cx + 1, cy + 1) ? CORNER_BOTTOM_RIGHT : 0);
+      const current = tiles[cy * width + cx];
+      const isTerrain = cornersOf.has(current);
+
+      let next: number | undefined;
+      if (mask === 0) {
+        // Only clear cells that were terrain; leave unrelated tiles alone
+        if (isTerrain) next = byMask.has(0) ? pickVariant(byMask.get(0)!, cx, cy) : -1;
+      } else if (byMask.has(mask)) {
+        next = pickVariant(byMask.get(mask)!, cx, cy);
+      } else if (cx === x && cy === y && !erase) {
+        // No transition tile for this combination — fall back to solid
+        next = pickVariant(byMask.get(CORNERS_ALL)!, cx, cy);
+      }
+      if (next !== undefined && next !== current) out.push({ x: cx, y: cy, tileIndex: next });
+    }
+  }
+  return out;
+}
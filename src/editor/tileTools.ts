@@ -0,0 +1,189 @@
+/**
+ * Geometry and clipboard helpers for the map editor's area tools
+ * (bucket fill, rectangles, lines, marquee select / copy / paste).
+ *
+ * Everything here is pure except the clipboard persistence, which uses
+ * localStorage so a copied region can be pasted into another map (or after
+ * a reload).
+ */
+import type { MapData } from "../engine/types.ts";
+
+export interface TileRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface TileCell {
+  x: number;
+  y: number;
+}
+
+/** Normalised rectangle spanning two corner tiles (inclusive). */
+export function rectFromCorners(a: TileCell, b: TileCell): TileRect {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    w: Math.abs(b.x - a.x) + 1,
+    h: Math.abs(b.y - a.y) + 1,
+  };
+}
+
+export function rectContains(rect: TileRect, x: number, y: number): boolean {
+  return x >= rect.x && y >= rect.y && x < rect.x + rect.w && y < rect.y + rect.h;
+}
+
+/** Clip a rectangle to the map bounds; null if nothing is left. */
+export function clampRect(rect: TileRect, width: number, height: number): TileRect | null {
+  const x0 = Math.max(0, rect.x);
+  const y0 = Math.max(0, rect.y);
+  const x1 = Math.min(width, rect.x + rect.w);
+  const y1 = Math.min(height, rect.y + rect.h);
+  if (x1 <= x0 || y1 <= y0) return null;
+  return { x: x0, y: y0, w: x1 - x0, h: y1 - y0 };
+}
+
+/** Cells of a rectangle — the whole area, or just its border. */
+export function rectCells(rect: TileRect, filled: boolean): TileCell[] {
+  const out: TileCell[] = [];
+  for (let y = rect.y; y < rect.y + rect.h; y++) {
+    for (let x = rect.x; x < rect.x + rect.w; x++) {
+      const edge = x === rect.x || y === rect.y || x === rect.x + rect.w - 1 || y === rect.y + rect.h - 1;
+      if (filled || edge) out.push({ x, y });
+    }
+  }
+  return out;
+}
+
+/** Cells on the line between two tiles (Bresenham, inclusive). */
+export function lineCells(a: TileCell, b: TileCell): TileCell[] {
+  const out: TileCell[] = [];
+  let x = a.x;
+  let y = a.y;
+  const dx = Math.abs(b.x - a.x);
+  const dy = -Math.abs(b.y - a.y);
+  const sx = a.x < b.x ? 1 : -1;
+  const sy = a.y < b.y ? 1 : -1;
+  let err = dx + dy;
+  for (;;) {
+    out.push({ x, y });
+    if (x === b.x && y === b.y) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) { err += dy; x += sx; }
+    if (e2 <= dx) { err += dx; y += sy; }
+  }
+  return out;
+}
+
+/**
+ * Contiguous (4-way) region of cells sharing the start cell's value.
+ * `valueAt` reads a flat row-major index.
+ */
+export function floodFillCells(
+  width: number,
+  height: number,
+  start: TileCell,
+  valueAt: (idx: number) => unknown,
+): TileCell[] {
+  if (start.x < 0 || start.y < 0 || start.x >= width || start.y >= height) return [];
+  const target = valueAt(start.y * width + start.x);
+  const seen = new Uint8Array(width * height);
+  const out: TileCell[] = [];
+  const stack = [start.y * width + start.x];
+  seen[stack[0]] = 1;
+  while (stack.length > 0) {
+    const idx = stack.pop()!;
+    const x = idx % width;
+    const y = Math.floor(idx / width);
+    out.push({ x, y });
+    const next = [
+      x > 0 ? idx - 1 : -1,
+      x < width - 1 ? idx + 1 : -1,
+      y > 0 ? idx - width : -1,
+      y < height - 1 ? idx + width : -1,
+    ];
+    for (const n of next) {
+      if (n < 0 || seen[n]) continue;
+      seen[n] = 1;
+      if (valueAt(n) === target) stack.push(n);
+    }
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Clipboard
+// ---------------------------------------------------------------------------
+
+/** A rectangular region copied from every layer plus the collision mask. */
+export interface TileClipboard {
+  sourceMap: string;
+  width: number;
+  height: number;
+  layers: {
+    name: string;
+    type: "bg" | "obj" | "overlay";
+    /** Resolved tileset (layer override or the map default) */
+    tilesetUrl: string;
+    tiles: number[];
+  }[];
+  collision: boolean[];
+}
+
+export function copyRegion(mapData: MapData, rect: TileRect): TileClipboard {
+  const pick = <T>(cells: T[], fill: T): T[] => {
+    const out: T[] = [];
+    for (let y = rect.y; y < rect.y + rect.h; y++) {
+      for (let x = rect.x; x < rect.x + rect.w; x++) out.push(cells[y * mapData.width + x] ?? fill);
+    }
+    return out;
+  };
+  return {
+    sourceMap: mapData.name,
+    width: rect.w,
+    height: rect.h,
+    layers: mapData.layers.map((l) => ({
+      name: l.name,
+      type: l.type,
+      tilesetUrl: l.tilesetUrl ?? mapData.tilesetUrl,
+      tiles: pick(l.tiles, -1),
+    })),
+    collision: pick(mapData.collisionMask, false).map(Boolean),
+  };
+}
+
+/**
+ * Pick the target layer for a clipboard layer: same name first, then the
+ * same position if its type matches. Returns -1 when there's no match.
+ */
+export function resolveClipboardLayer(mapData: MapData, clip: TileClipboard, clipIndex: number): number {
+  const src = clip.layers[clipIndex];
+  const byName = mapData.layers.findIndex((l) => l.name === src.name);
+  if (byName >= 0) return byName;
+  const byIndex = mapData.layers[clipIndex];
+  return byIndex && byIndex.type === src.type ? clipIndex : -1;
+}
+
+const CLIPBOARD_KEY = "mapEditor.tileClipboard";
+let memoryClipboard: TileClipboard | null = null;
+
+export function setTileClipboard(clip: TileClipboard) {
+  memoryClipboard = clip;
+  try {
+    localStorage.setItem(CLIPBOARD_KEY, JSON.stringify(clip));
+  } catch {
+    // Quota exceeded or storage disabled — the in-memory copy still works
+  }
+}
+
+export function getTileClipboard(): TileClipboard | null {
+  if (memoryClipboard) return memoryClipboard;
+  try {
+    const raw = localStorage.getItem(CLIPBOARD_KEY);
+    if (raw) memoryClipboard = JSON.parse(raw) as TileClipboard;
+  } catch {
+    // Corrupt entry — ignore
+  }
+  return memoryClipboard;
+}
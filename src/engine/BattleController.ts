@@ -0,0 +1,178 @@
+import { getConvexClient } from "../lib/convexClient.ts";
+import { api } from "../../convex/_generated/api";
+import { splashManager } from "../splash/SplashManager.ts";
+import {
+  createBattleSplash,
+  type BattleActionInput,
+  type BattleState,
+} from "../splash/screens/BattleSplash.ts";
+import type { Game } from "./Game.ts";
+
+/** Tiles walked between random-encounter checks on turn-based maps */
+const ENCOUNTER_CHECK_TILES = 4;
+
+/** A battle as the server returns it: the splash's view plus the player's updated profile */
+type ServerBattle = BattleState & {
+  profile?: { stats: Game["profile"]["stats"]; items: Game["profile"]["items"] };
+};
+
+type BattleResult =
+  | { success: true; battle: ServerBattle }
+  | { success: false; reason: string };
+
+/**
+ * Client side of turn-based battles. Starts battles (story encounters,
+ * hostile NPCs, random rolls and label zones as the player walks), shows
+ * them in BattleSplash and relays the player's actions; the server
+ * (convex/mechanics/combat.ts) resolves every round.
+ */
+export class BattleController {
+  private game: Game;
+  private battleId: string | null = null;
+  private requesting = false;
+  private lastTile: { x: number; y: number } | null = null;
+  private tilesSinceCheck = 0;
+  private currentZone: string | null = null;
+
+  constructor(game: Game) {
+    this.game = game;
+  }
+
+  /** True while a battle is on screen (or being started) */
+  get inBattle(): boolean {
+    return this.battleId != null || this.requesting;
+  }
+
+  /** Whether the current map fights hostiles in turn-based battles */
+  get isTurnBasedMap(): boolean {
+    const map = this.game.currentMapData;
+    return !!map?.combatEnabled && map.combatSettings?.mode === "turn-based";
+  }
+
+  /**
+   * Start a battle from an encounter template — what a story script's
+   * `{ type: "combat", encounterId }` action runs. Resolves to an error
+   * message when the server refuses.
+   */
+  async startEncounter(encounterId: string): Promise<string | null> {
+    return this.request(api.mechanics.combat.startEncounter, {
+      profileId: this.game.profile._id as any,
+      encounterId: encounterId as any,
+    });
+  }
+
+  /** Engage the nearest hostile NPC (the attack key / clicking a hostile on turn-based maps) */
+  async engageNearestHostile(): Promise<string | null> {
+    return this.request(api.mechanics.combat.startNpcEncounter, {
+      profileId: this.game.profile._id as any,
+      mapName: this.game.currentMapName,
+    });
+  }
+
+  /** Reopen a battle left running (after a reload, or the splash was dismissed) */
+  async resume() {
+    if (this.inBattle || this.game.isGuest) return;
+    try {
+      const battle = (await getConvexClient().query(api.mechanics.combat.getActiveBattle, {
+        profileId: this.game.profile._id as any,
+      })) as ServerBattle | null;
+      if (battle && !this.inBattle) this.open(battle);
+    } catch (err) {
+      console.warn("Battle resume failed:", err);
+    }
+  }
+
+  /** Forget walking progress (new map, teleport) */
+  resetWalk() {
+    this.lastTile = null;
+    this.tilesSinceCheck = 0;
+    this.currentZone = null;
+  }
+
+  /**
+   * Per-frame walking check on turn-based maps: ask the server for an
+   * encounter every few tiles, and straight away on entering a label zone
+   * (scripted zone battles).
+   */
+  update(playerX: number, playerY: number) {
+    const map = this.game.currentMapData;
+    if (!map || !this.isTurnBasedMap || this.inBattle) return;
+    const tile = { x: Math.floor(playerX / map.tileWidth), y: Math.floor(playerY / map.tileHeight) };
+    if (!this.lastTile) {
+      this.lastTile = tile;
+      return;
+    }
+    if (tile.x === this.lastTile.x && tile.y === this.lastTile.y) return;
+    this.lastTile = tile;
+    this.tilesSinceCheck++;
+
+    const zone = map.labels.find((l) =>
+      tile.x >= l.x && tile.x < l.x + l.width && tile.y >= l.y && tile.y < l.y + l.height);
+    const enteredZone = zone != null && zone.name !== this.currentZone;
+    this.currentZone = zone?.name ?? null;
+    if (!enteredZone && this.tilesSinceCheck < ENCOUNTER_CHECK_TILES) return;
+    this.tilesSinceCheck = 0;
+    void this.request(api.mechanics.combat.checkEncounter, {
+      profileId: this.game.profile._id as any,
+      mapName: this.game.currentMapName,
+    });
+  }
+
+  private async request(fn: any, args: Record<string, unknown>): Promise<string | null> {
+    if (this.inBattle || this.game.isGuest) return null;
+    this.requesting = true;
+    try {
+      const result = (await getConvexClient().mutation(fn, args)) as BattleResult;
+      if (!result.success) return result.reason === "no_encounter" ? null : result.reason;
+      this.open(result.battle);
+      return null;
+    } catch (err) {
+      console.warn("Battle request failed:", err);
+      return "Couldn't start the battle.";
+    } finally {
+      this.requesting = false;
+    }
+  }
+
+  private open(battle: ServerBattle) {
+    this.battleId = battle.encounterId;
+    this.syncProfile(battle);
+    const el = this.game.entityLayer;
+    el.cancelMoveTo();
+    el.inDialogue = true;
+
+    splashManager.push({
+      id: `battle-${battle.encounterId}`,
+      create: (props) =>
+        createBattleSplash({
+          ...props,
+          battle,
+          onAction: (action) => this.submit(battle.encounterId, action),
+        }),
+      transition: "fade",
+      onClose: () => {
+        this.battleId = null;
+        el.inDialogue = false;
+        this.resetWalk();
+      },
+    });
+  }
+
+  private async submit(encounterId: string, action: BattleActionInput): Promise<BattleState | string> {
+    const result = (await getConvexClient().mutation(api.mechanics.combat.submitAction, {
+      encounterId: encounterId as any,
+      profileId: this.game.profile._id as any,
+      action,
+    })) as BattleResult;
+    if (!result.success) return result.reason;
+    this.syncProfile(result.battle);
+    return result.battle;
+  }
+
+  /** Mirror the server's HP / XP / items onto the local profile (HUD, inventory) */
+  private syncProfile(battle: ServerBattle) {
+    if (!battle.profile) return;
+    this.game.profile.stats = { ...this.game.profile.stats, ...battle.profile.stats };
+    this.game.profile.items = battle.profile.items;
+  }
+}
@@ -0,0 +1,112 @@
+import { getConvexClient } from "../lib/convexClient.ts";
+import { api } from "../../convex/_generated/api";
+import { splashManager } from "../splash/SplashManager.ts";
+import {
+  createContainerSplash,
+  type ContainerSplash,
+  type ContainerView,
+} from "../splash/screens/ContainerSplash.ts";
+import type { Game } from "./Game.ts";
+
+type TakeResult =
+  | { success: true; taken: { itemDefName: string; quantity: number }[]; items: Game["profile"]["items"] }
+  | { success: false; reason: string };
+
+/**
+ * Client side of containers (chests, barrels, bookshelves): opening one
+ * plays its "on" animation, then ContainerSplash lists what's inside and
+ * keeps in step with the server. Closing the splash closes the container.
+ * Contents and refills are handled by convex/mechanics/containers.ts.
+ */
+export class ContainerController {
+  private game: Game;
+  private unsub: (() => void) | null = null;
+  private splash: ContainerSplash | null = null;
+  private view: ContainerView | null = null;
+  private objectId: string | null = null;
+
+  constructor(game: Game) {
+    this.game = game;
+  }
+
+  /** Open a container map object; resolves to an error message, or null */
+  async open(objectId: string): Promise<string | null> {
+    if (this.game.isGuest || this.objectId) return null;
+    this.objectId = objectId;
+    const result = await getConvexClient().mutation(api.mechanics.containers.open, {
+      profileId: this.game.profile._id as any,
+      objectId: objectId as any,
+    });
+    if (!result.success) {
+      this.objectId = null;
+      return result.reason;
+    }
+    this.game.objectLayer.applyToggle(objectId, true);
+    this.unsub = getConvexClient().onUpdate(
+      api.mechanics.containers.getContents,
+      { profileId: this.game.profile._id as any, objectId: objectId as any },
+      (view) => this.sync((view as ContainerView | null) ?? null),
+    );
+    return null;
+  }
+
+  stop() {
+    if (this.objectId) splashManager.remove(`container-${this.objectId}`);
+    this.reset();
+  }
+
+  private sync(view: ContainerView | null) {
+    if (!view) return;
+    this.view = view;
+    if (this.splash) {
+      this.splash.update(view);
+      return;
+    }
+    const objectId = this.objectId!;
+    this.game.entityLayer.cancelMoveTo();
+    splashManager.push({
+      id: `container-${objectId}`,
+      create: (props) => {
+        this.splash = createContainerSplash({
+          ...props,
+          view,
+          onTake: (itemDefName) => this.take(itemDefName),
+        });
+        return this.splash;
+      },
+      pausesGame: false,
+      onClose: () => {
+        this.game.objectLayer.applyToggle(objectId, false);
+        void getConvexClient().mutation(api.mechanics.containers.close, {
+          profileId: this.game.profile._id as any,
+          objectId: objectId as any,
+        });
+        this.reset();
+      },
+    });
+  }
+
+  private reset() {
+    this.unsub?.();
+    this.unsub = null;
+    this.splash = null;
+    this.view = null;
+    this.objectId = null;
+  }
+
+  private async take(itemDefName?: string): Promise<string | null> {
+    if (!this.objectId) return null;
+    const result = (await getConvexClient().mutation(api.mechanics.containers.take, {
+      profileId: this.game.profile._id as any,
+      objectId: this.objectId as any,
+      ...(itemDefName ? { itemDefName } : {}),
+    })) as TakeResult;
+    if (!result.success) return result.reason;
+    this.game.profile.items = result.items;
+    const names = new Map(this.view?.items.map((i) => [i.itemDefName, i.displayName]) ?? []);
+    for (const line of result.taken) {
+      this.game.showPickupNotification(`+${line.quantity} ${names.get(line.itemDefName) ?? line.itemDefName}`);
+    }
+    return null;
+  }
+}
@@ -0,0 +1,123 @@
+import { getConvexClient } from "../lib/convexClient.ts";
+import { api } from "../../convex/_generated/api";
+import { splashManager } from "../splash/SplashManager.ts";
+import {
+  createCraftingSplash,
+  type CraftingSplash,
+  type CraftingView,
+} from "../splash/screens/CraftingSplash.ts";
+import type { Game } from "./Game.ts";
+
+type CraftResult =
+  | { success: true; done: false; readyAt: number }
+  | { success: true; done: true; items: Game["profile"]["items"]; outputs: { itemDefName: string; quantity: number }[] }
+  | { success: false; reason: string };
+
+/**
+ * Client side of crafting: opens CraftingSplash at a lit crafting station
+ * and keeps it in step with the player's recipes and materials. Crafts go
+ * to convex/mechanics/crafting.ts, which swaps inputs for outputs; timed
+ * recipes are finished by calling it again once their timer runs out.
+ */
+export class CraftingController {
+  private game: Game;
+  private unsub: (() => void) | null = null;
+  private splash: CraftingSplash | null = null;
+  private view: CraftingView | null = null;
+  private stationId: string | null = null;
+  private finishTimer: number | null = null;
+
+  constructor(game: Game) {
+    this.game = game;
+  }
+
+  /** Show the recipes usable at a station map object (no-op for guests) */
+  open(stationId: string) {
+    if (this.game.isGuest || this.unsub) return;
+    this.stationId = stationId;
+    this.unsub = getConvexClient().onUpdate(
+      api.mechanics.crafting.getRecipes,
+      { profileId: this.game.profile._id as any, stationId: stationId as any },
+      (view) => this.sync((view as CraftingView | null) ?? null),
+    );
+  }
+
+  stop() {
+    if (this.stationId) splashManager.remove(`crafting-${this.stationId}`);
+    this.reset();
+  }
+
+  private sync(view: CraftingView | null) {
+    if (!view) return;
+    this.view = view;
+    if (this.splash) {
+      this.splash.update(view);
+      return;
+    }
+    const stationId = this.stationId!;
+    this.game.entityLayer.cancelMoveTo();
+    splashManager.push({
+      id: `crafting-${stationId}`,
+      create: (props) => {
+        this.splash = createCraftingSplash({
+          ...props,
+          view,
+          onCraft: (recipeName) => this.craft(recipeName),
+        });
+        return this.splash;
+      },
+      pausesGame: false,
+      onClose: () => {
+        // Walking away from a timed craft abandons it (nothing was used up yet)
+        if (this.view?.crafting) {
+          void getConvexClient().mutation(api.mechanics.crafting.cancel, {
+            profileId: this.game.profile._id as any,
+          });
+        }
+        this.reset();
+      },
+    });
+  }
+
+  private reset() {
+    this.unsub?.();
+    this.unsub = null;
+    if (this.finishTimer != null) window.clearTimeout(this.finishTimer);
+    this.finishTimer = null;
+    this.splash = null;
+    this.view = null;
+    this.stationId = null;
+  }
+
+  /** Start or finish a craft; resolves to an error message, or null */
+  private async craft(recipeName: string): Promise<string | null> {
+    const result = (await getConvexClient().mutation(api.mechanics.crafting.craft, {
+      profileId: this.game.profile._id as any,
+      recipeName,
+      ...(this.stationId ? { stationId: this.stationId as any } : {}),
+    })) as CraftResult;
+    if (!result.success) return result.reason;
+    if (!result.done) {
+      this.scheduleFinish(recipeName, result.readyAt);
+      return null;
+    }
+    this.game.profile.items = result.items;
+    const made = this.view?.recipes.find((r) => r.name === recipeName)?.outputs ?? [];
+    const names = new Map(made.map((o) => [o.itemDefName, o.displayName]));
+    for (const output of result.outputs) {
+      this.game.showPickupNotification(`+${output.quantity} ${names.get(output.itemDefName) ?? output.itemDefName}`);
+    }
+    return null;
+  }
+
+  private scheduleFinish(recipeName: string, readyAt: number) {
+    if (this.finishTimer != null) window.clearTimeout(this.finishTimer);
+    this.finishTimer = window.setTimeout(() => {
+      this.finishTimer = null;
+      if (!this.splash) return;
+      void this.craft(recipeName).then((reason) => {
+        if (reason) this.game.showPickupNotification(reason, "#ffcc66");
+      });
+    }, Math.max(0, readyAt - Date.now()) + 50);
+  }
+}
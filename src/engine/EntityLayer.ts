@@ -12,6 +12,8 @@ import type { Game } from "./Game.ts";
 import type { InputManager } from "./InputManager.ts";
 import type { PresenceData, Direction } from "./types.ts";
 import { NPC } from "./NPC.ts";
+import { findPath, nearestOpenTile, smoothPath } from "./pathfinding.ts";
+import type { NavGrid, TilePoint } from "./pathfinding.ts";
 import type { NPCConfig, DialogueLine } from "./NPC.ts";
 import { splashManager } from "../splash/SplashManager.ts";
 import { createDialogueSplash } from "../splash/screens/DialogueSplash.ts";
@@ -49,10 +51,41 @@ interface RemoteSnapshot {
 // Player collision box (relative to anchor at bottom-center of sprite).
 // The original checks two points per direction to form a thin bounding box
 // around the character's feet.
+/** Ring colours for skill effects (skillDefs.animation); unknown names use "burst" */
+const SKILL_EFFECT_COLORS: Record<string, number> = {
+  slash: 0xffffff,
+  burst: 0xff8844,
+  bolt: 0x88ccff,
+  heal: 0x66ff99,
+};
+const SKILL_EFFECT_DURATION_MS = 400;
+
 const COL_HALF_W = 6;  // half-width of collision box
 const COL_TOP = -12;   // top of collision box (above feet)
 const COL_BOT = 0;     // bottom of collision box (at feet)
 
+/** Distance (px) at which a click-to-move waypoint counts as reached */
+const WAYPOINT_REACHED_PX = 1;
+/** Seconds without progress before a click-to-move path is re-planned */
+const MOVE_STUCK_SECONDS = 0.4;
+/** Re-plans allowed for one click-to-move before giving up */
+const MOVE_MAX_REPLANS = 2;
+/** Minimum ms between re-plans while following a moving target */
+const MOVE_FOLLOW_REPLAN_MS = 400;
+
+/**
+ * A click-to-move destination. With `arriveRadius` the walk ends as soon as
+ * the player is that close; `follow` tracks a moving target (an NPC) and
+ * returns null once it's gone.
+ */
+export interface MoveTarget {
+  x: number;
+  y: number;
+  arriveRadius?: number;
+  follow?: () => { x: number; y: number } | null;
+  onArrive?: () => void;
+}
+
 /** Maps our Direction to the villager sprite sheet row animations */
 const DIR_ANIM: Record<Direction, string> = {
   down: "row0",
@@ -77,6 +110,15 @@ export class EntityLayer {
   playerVX = 0;
   playerVY = 0;
 
+  // Click-to-move
+  private moveTarget: MoveTarget | null = null;
+  /** Remaining waypoints (player feet positions) */
+  private movePath: { x: number; y: number }[] = [];
+  private moveGoalTile: TilePoint | null = null;
+  private moveStuckTime = 0;
+  private moveReplans = 0;
+  private moveLastPlanAt = 0;
+
   // Player visual
   private playerContainer: Container;
   private playerSprite: AnimatedSprite | null = null;
@@ -92,7 +134,9 @@ export class EntityLayer {
   private npcAmbientHandles = new Map<string, import("./AudioManager.ts").SfxHandle>();
   private npcDialogueController = new NpcDialogueController();
   private npcInteractionHintByInstanceName = new Map<string, "chat" | "attack" | "none">();
-  private npcInteractionHintPending = new Set<string>();
+  private npcInteractionHintPending = new Map<string, Promise<void>>();
+  /** Instance names of NPCs tagged "shopkeeper" (E opens their shop) */
+  private shopkeeperInstanceNames = new Set<string>();
 
   // Remote players
   private remotePlayers: Map<
@@ -237,6 +281,49 @@ export class EntityLayer {
     return best;
   }
 
+  /** NPC drawn under a canvas position (sprite or name label), for click-to-interact */
+  findNPCAtScreen(screenX: number, screenY: number): NPC | null {
+    let best: NPC | null = null;
+    for (const npc of this.npcs) {
+      if (!npc.container.getBounds().containsPoint(screenX, screenY)) continue;
+      // Overlapping NPCs: the one in front (lower on screen) wins
+      if (!best || npc.y > best.y) best = npc;
+    }
+    return best;
+  }
+
+  /** Another player drawn under a canvas position, for click-to-trade */
+  findRemotePlayerAtScreen(screenX: number, screenY: number): { profileId: string; x: number; y: number } | null {
+    let best: { profileId: string; x: number; y: number } | null = null;
+    for (const [profileId, remote] of this.remotePlayers) {
+      if (!remote.container.getBounds().containsPoint(screenX, screenY)) continue;
+      if (!best || remote.renderY > best.y) best = { profileId, x: remote.renderX, y: remote.renderY };
+    }
+    return best;
+  }
+
+  /** Where another player is drawn right now (null once they've left the map) */
+  getRemotePlayerPosition(profileId: string): { x: number; y: number } | null {
+    const remote = this.remotePlayers.get(profileId);
+    return remote ? { x: remote.renderX, y: remote.renderY } : null;
+  }
+
+  /** Whether an NPC is still on this map (click-to-move follows it until it's gone) */
+  hasNPC(npc: NPC): boolean {
+    return this.npcs.includes(npc);
+  }
+
+  /**
+   * Interact with an NPC as if [E] were pressed next to it. Resolves to
+   * "attack" for hostile NPCs, which are fought with the combat key instead.
+   */
+  async interactWithNPC(npc: NPC): Promise<"chat" | "attack" | "none"> {
+    await this.ensureNpcInteractionHintLoaded(npc);
+    const hint = this.getNpcInteractionHint(npc);
+    if (hint !== "attack" && !this.inDialogue) void this.startDialogue(npc);
+    return hint;
+  }
+
   /**
    * Re-sync ambient/interact sounds for all NPCs whose name matches the given
    * sprite-definition name.  Called after a sprite definition is re-saved so
@@ -585,10 +672,36 @@ export class EntityLayer {
     if (input.isDown("ArrowUp") || input.isDown("w")) dy -= 1;
     if (input.isDown("ArrowDown") || input.isDown("s")) dy += 1;
 
+    // Any key press takes back control from click-to-move
+    if (this.moveTarget && (input.anyKeyJustPressed() || dx !== 0 || dy !== 0)) {
+      this.cancelMoveTo();
+    }
+
+    const isSprinting = input.isDown("Shift");
+    const speed = PLAYER_MOVE_SPEED * (isSprinting ? PLAYER_SPRINT_MULTIPLIER : 1);
+
+    // Click-to-move: head for the next waypoint, never past it
+    let pathStep = 0;
+    if (this.moveTarget) {
+      const waypoint = this.nextWaypoint();
+      if (waypoint) {
+        const wx = waypoint.x - this.playerX;
+        const wy = waypoint.y - this.playerY;
+        const dist = Math.sqrt(wx * wx + wy * wy);
+        pathStep = Math.min(1, dist / (speed * dt));
+        dx = wx / dist;
+        dy = wy / dist;
+      }
+    }
+
     const wasMoving = this.isMoving;
     this.isMoving = dx !== 0 || dy !== 0;
 
-    if (dy < 0) this.setDirection("up");
+    if (pathStep > 0) {
+      // Paths run at any angle — face along the dominant axis
+      if (Math.abs(dx) >= Math.abs(dy)) this.setDirection(dx < 0 ? "left" : "right");
+      else this.setDirection(dy < 0 ? "up" : "down");
+    } else if (dy < 0) this.setDirection("up");
     else if (dy > 0) this.setDirection("down");
     else if (dx < 0) this.setDirection("left");
     else if (dx > 0) this.setDirection("right");
@@ -609,10 +722,9 @@ export class EntityLayer {
     const prevX = this.playerX;
     const prevY = this.playerY;
 
-    const isSprinting = input.isDown("Shift");
-    const speed = PLAYER_MOVE_SPEED * (isSprinting ? PLAYER_SPRINT_MULTIPLIER : 1);
-    const newX = this.playerX + dx * speed * dt;
-    const newY = this.playerY + dy * speed * dt;
+    const step = pathStep > 0 ? speed * dt * pathStep : speed * dt;
+    const newX = this.playerX + dx * step;
+    const newY = this.playerY + dy * step;
 
     // Check collision using a bounding box around the player's feet.
     // We check all four corners of the box for the proposed position.
@@ -637,6 +749,134 @@ export class EntityLayer {
     // frame), which caused remote-player extrapolation to jitter.
     this.playerVX = dx * speed;
     this.playerVY = dy * speed;
+
+    // A wall or closing door in the way: re-plan, and give up if that keeps failing
+    if (pathStep > 0) {
+      const moved = Math.abs(this.playerX - prevX) + Math.abs(this.playerY - prevY);
+      this.moveStuckTime = moved < 0.01 ? this.moveStuckTime + dt : 0;
+      if (this.moveStuckTime > MOVE_STUCK_SECONDS) {
+        this.moveStuckTime = 0;
+        if (++this.moveReplans > MOVE_MAX_REPLANS || !this.planMovePath()) this.cancelMoveTo();
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Click-to-move
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Walk the player to a point along a path around walls and closed doors.
+   * Returns false (and doesn't move) when there's no way there.
+   */
+  moveTo(target: MoveTarget): boolean {
+    this.cancelMoveTo();
+    this.moveTarget = target;
+    this.moveReplans = 0;
+    if (!this.planMovePath()) {
+      this.moveTarget = null;
+      return false;
+    }
+    return true;
+  }
+
+  /** Stop a click-to-move walk (no arrival callback) */
+  cancelMoveTo() {
+    this.moveTarget = null;
+    this.movePath = [];
+    this.moveGoalTile = null;
+    this.moveStuckTime = 0;
+  }
+
+  /** Whether the player is walking to a clicked destination */
+  isMovingToTarget(): boolean {
+    return this.moveTarget !== null;
+  }
+
+  /** Live walkability from the map renderer (collision mask + door overrides) */
+  private navGrid(): NavGrid | null {
+    const mr = this.game.mapRenderer;
+    const mapData = mr.getMapData();
+    if (!mapData) return null;
+    return {
+      width: mapData.width,
+      height: mapData.height,
+      isBlocked: (x, y) => mr.isCollision(x, y),
+    };
+  }
+
+  /** (Re)compute the path to the current move target. False if unreachable. */
+  private planMovePath(): boolean {
+    const target = this.moveTarget;
+    const grid = this.navGrid();
+    const mapData = this.game.mapRenderer.getMapData();
+    if (!target || !grid || !mapData) return false;
+    const { tileWidth: tw, tileHeight: th } = mapData;
+
+    const start = { x: Math.floor(this.playerX / tw), y: Math.floor(this.playerY / th) };
+    // Targets inside walls (props, counters) are walked up to instead
+    const goal = nearestOpenTile(grid, { x: Math.floor(target.x / tw), y: Math.floor(target.y / th) });
+    if (!goal) return false;
+    const path = findPath(grid, start, goal);
+    if (!path) return false;
+
+    // Waypoints put the feet at the bottom-centre of each tile, so the
+    // collision box (which reaches up from the feet) stays inside it
+    this.movePath = smoothPath(grid, start, path).map((t) => ({
+      x: (t.x + 0.5) * tw,
+      y: (t.y + 1) * th - 1,
+    }));
+    if (this.movePath.length === 0) {
+      this.movePath = [{ x: (goal.x + 0.5) * tw, y: (goal.y + 1) * th - 1 }];
+    }
+    this.moveGoalTile = goal;
+    this.moveLastPlanAt = performance.now();
+    return true;
+  }
+
+  /** Next waypoint to walk to, or null once arrived (which fires `onArrive`). */
+  private nextWaypoint(): { x: number; y: number } | null {
+    const target = this.moveTarget!;
+
+    if (target.follow) {
+      const pos = target.follow();
+      if (!pos) {
+        this.cancelMoveTo();
+        return null;
+      }
+      target.x = pos.x;
+      target.y = pos.y;
+      const mapData = this.game.mapRenderer.getMapData();
+      const goal = this.moveGoalTile;
+      if (
+        mapData && goal &&
+        (Math.floor(pos.x / mapData.tileWidth) !== goal.x || Math.floor(pos.y / mapData.tileHeight) !== goal.y) &&
+        performance.now() - this.moveLastPlanAt > MOVE_FOLLOW_REPLAN_MS &&
+        !this.planMovePath()
+      ) {
+        this.cancelMoveTo();
+        return null;
+      }
+    }
+
+    const radius = target.arriveRadius ?? 0;
+    const tdx = target.x - this.playerX;
+    const tdy = target.y - this.playerY;
+    const closeEnough = radius > 0 && tdx * tdx + tdy * tdy <= radius * radius;
+
+    while (this.movePath.length > 0) {
+      const wp = this.movePath[0];
+      if (Math.abs(wp.x - this.playerX) + Math.abs(wp.y - this.playerY) > WAYPOINT_REACHED_PX) break;
+      this.movePath.shift();
+    }
+
+    if (closeEnough || this.movePath.length === 0) {
+      const onArrive = target.onArrive;
+      this.cancelMoveTo();
+      onArrive?.();
+      return null;
+    }
+    return this.movePath[0];
   }
 
   /**
@@ -683,9 +923,11 @@ export class EntityLayer {
     }
     this.nearestNPC = nearest;
     if (nearest) {
-      this.ensureNpcInteractionHintLoaded(nearest);
+      void this.ensureNpcInteractionHintLoaded(nearest);
       const hint = this.getNpcInteractionHint(nearest);
-      if (hint === "chat") {
+      if (hint !== "attack" && nearest.instanceName && this.shopkeeperInstanceNames.has(nearest.instanceName)) {
+        nearest.setPrompt("[E] Shop", true);
+      } else if (hint === "chat") {
         nearest.setPrompt("[E] Talk", true);
       } else if (hint === "attack") {
         const hp = nearest.currentHp;
@@ -719,18 +961,21 @@ export class EntityLayer {
     return this.npcInteractionHintByInstanceName.get(instanceName) ?? "none";
   }
 
-  private ensureNpcInteractionHintLoaded(npc: NPC) {
+  private ensureNpcInteractionHintLoaded(npc: NPC): Promise<void> {
     const instanceName = npc.instanceName;
-    if (!instanceName) return;
-    if (this.npcInteractionHintByInstanceName.has(instanceName)) return;
-    if (this.npcInteractionHintPending.has(instanceName)) return;
-    this.npcInteractionHintPending.add(instanceName);
+    if (!instanceName) return Promise.resolve();
+    if (this.npcInteractionHintByInstanceName.has(instanceName)) return Promise.resolve();
+    const pending = this.npcInteractionHintPending.get(instanceName);
+    if (pending) return pending;
 
     const convex = getConvexClient();
-    void convex
+    const load = convex
       .query(api.npcProfiles.getByName, { name: instanceName })
       .then((profile: any) => {
         const hostile = Array.isArray(profile?.tags) && profile.tags.includes("hostile");
+        if (Array.isArray(profile?.tags) && profile.tags.includes("shopkeeper")) {
+          this.shopkeeperInstanceNames.add(instanceName);
+        }
         const canChat = profile?.aiPolicy?.capabilities?.canChat !== false;
         const combatEnabled = !!this.game.currentMapData?.combatEnabled;
         const hint: "chat" | "attack" | "none" = hostile && combatEnabled
@@ -747,9 +992,13 @@ export class EntityLayer {
       .finally(() => {
         this.npcInteractionHintPending.delete(instanceName);
       });
+    this.npcInteractionHintPending.set(instanceName, load);
+    return load;
   }
 
   private async startDialogue(npc: NPC) {
+    this.cancelMoveTo();
+
     // Play greeting / interact sound
     if (npc.interactSoundUrl) {
       this.game.audio.playOneShot(npc.interactSoundUrl, 0.7);
@@ -758,6 +1007,19 @@ export class EntityLayer {
     // NPC faces the player
     npc.faceToward(this.playerX, this.playerY);
 
+    // Shopkeepers open their shop instead of a conversation
+    if (npc.instanceName && this.shopkeeperInstanceNames.has(npc.instanceName)) {
+      this.inDialogue = true;
+      this.engagedNpcId = npc.id;
+      const opened = await this.game.shops.open(npc.instanceName, () => {
+        this.inDialogue = false;
+        this.engagedNpcId = null;
+      });
+      if (opened) return;
+      this.inDialogue = false;
+      this.engagedNpcId = null;
+    }
+
     const mode = await this.npcDialogueController.resolveMode(npc);
     if (mode.kind === "disabled") return;
 
@@ -966,6 +1228,31 @@ export class EntityLayer {
     return this.npcs.find((n) => n.instanceName === instanceName) ?? null;
   }
 
+  /**
+   * Expanding, fading ring at a world position for a cast skill; the skill's
+   * `animation` picks the colour.
+   */
+  playSkillEffect(animation: string | undefined, x: number, y: number, radiusPx = 24) {
+    const ring = new Graphics();
+    ring.x = x;
+    ring.y = y - 8; // around the body rather than the feet
+    const color = SKILL_EFFECT_COLORS[animation ?? ""] ?? SKILL_EFFECT_COLORS.burst;
+    this.container.addChild(ring);
+    const start = performance.now();
+    const grow = () => {
+      const t = (performance.now() - start) / SKILL_EFFECT_DURATION_MS;
+      if (t >= 1) {
+        ring.destroy();
+        return;
+      }
+      ring.clear();
+      ring.circle(0, 0, radiusPx * (0.3 + 0.7 * t));
+      ring.stroke({ width: 3, color, alpha: 1 - t });
+      requestAnimationFrame(grow);
+    };
+    requestAnimationFrame(grow);
+  }
+
   /**
    * Shake + red flash the player sprite when the player takes damage.
    */
@@ -7,7 +7,14 @@ import { WorldItemLayer } from "./WorldItemLayer.ts";
 import { InputManager } from "./InputManager.ts";
 import { AudioManager } from "./AudioManager.ts";
 import { PresenceManager } from "./PresenceManager.ts";
+import { BattleController } from "./BattleController.ts";
+import { ContainerController } from "./ContainerController.ts";
+import { CraftingController } from "./CraftingController.ts";
+import { ShopController } from "./ShopController.ts";
+import { SkillController } from "./SkillController.ts";
+import { TradeController } from "./TradeController.ts";
 import { DEFAULT_ITEM_PICKUP_SFX } from "../config/audio-config.ts";
+import { NPC_INTERACT_RADIUS_PX } from "../config/multiplayer-config.ts";
 import {
   COMBAT_ATTACK_KEY,
   COMBAT_ATTACK_KEY_ALT,
@@ -23,10 +30,14 @@ import {
   COMBAT_DEBUG,
 } from "../config/combat-config.ts";
 import { getConvexClient } from "../lib/convexClient.ts";
+import { COLLISION_LAYER_INDEX, stitchChunks } from "../lib/mapChunks.ts";
 import { api } from "../../convex/_generated/api";
 import type { AppMode, MapData, Portal, ProfileData } from "./types.ts";
 import type { Id } from "../../convex/_generated/dataModel";
 
+/** Click-to-interact stops this fraction of the [E] range short, so it's safely in reach */
+const CLICK_ARRIVE_FRACTION = 0.75;
+
 /**
  * Main game class. Manages the PixiJS application, camera, map rendering,
  * entity layer, input, and audio. Now profile-aware for multiplayer.
@@ -40,6 +51,12 @@ export class Game {
   worldItemLayer!: WorldItemLayer;
   input: InputManager;
   audio: AudioManager;
+  battles: BattleController;
+  containers: ContainerController;
+  crafting: CraftingController;
+  shops: ShopController;
+  skills: SkillController;
+  trades: TradeController;
   mode: AppMode = "play";
 
   /** The current player profile (from Convex) */
@@ -63,6 +80,14 @@ export class Game {
   private mapObjectsFirstCallback = true;  // skip the initial fire (already loaded)
   private mapObjectsDirty = false;          // set during build mode when subscription fires; triggers re-subscribe on exit
 
+  // Live lock status for the current map (doors and portals the player can't open yet)
+  private locksUnsub: (() => void) | null = null;
+  /** Portal name → "Locked — requires …" */
+  private portalLocks = new Map<string, string>();
+  /** Locked portal the player is standing in and was already told about */
+  private refusedPortal: string | null = null;
+  private enteringPortal = false;
+
   // Live world items subscription
   private worldItemsUnsub: (() => void) | null = null;
 
@@ -80,11 +105,18 @@ export class Game {
     this.camera = new Camera();
     this.input = new InputManager(canvas);
     this.audio = new AudioManager();
+    this.battles = new BattleController(this);
+    this.containers = new ContainerController(this);
+    this.crafting = new CraftingController(this);
+    this.shops = new ShopController(this);
+    this.skills = new SkillController(this);
+    this.trades = new TradeController(this);
     this.presenceManager = new PresenceManager(profile, () => this.isGuest, {
       getCurrentMapName: () => this.currentMapName,
       getPlayerPosition: () => this.entityLayer.getPlayerPosition(),
       isPlayerMoving: () => this.entityLayer.isPlayerMoving(),
       onPresenceList: (presence, localProfileId) => this.entityLayer.updatePresence(presence, localProfileId),
+      onSnapBack: (snap) => this.snapBack(snap),
     });
   }
 
@@ -170,6 +202,11 @@ export class Game {
       }
     }
     this.startPresence();
+    this.skills.start();
+    this.trades.start();
+
+    // Pick up a battle left running before a reload
+    void this.battles.resume();
   }
 
   // ===========================================================================
@@ -361,6 +398,16 @@ export class Game {
 
   /** Convert a Convex map document to a client-side MapData */
   private convexMapToMapData(saved: any): MapData {
+    // Chunked maps carry their grids in `chunks`; legacy maps inline JSON
+    const chunkSize: number | undefined = saved.chunkSize;
+    const chunks = saved.chunks ?? [];
+    const layerTiles = (l: any, i: number): number[] =>
+      chunkSize
+        ? stitchChunks(chunks, i, saved.width, saved.height, chunkSize, -1)
+        : JSON.parse(l.tiles);
+    const collisionMask: boolean[] = chunkSize
+      ? stitchChunks(chunks, COLLISION_LAYER_INDEX, saved.width, saved.height, chunkSize, false)
+      : JSON.parse(saved.collisionMask);
     return {
       id: saved._id,
       name: saved.name,
@@ -371,14 +418,14 @@ export class Game {
       tilesetUrl: saved.tilesetUrl ?? "/assets/tilesets/fantasy-interior.png",
       tilesetPxW: saved.tilesetPxW,
       tilesetPxH: saved.tilesetPxH,
-      layers: saved.layers.map((l: any) => ({
+      layers: saved.layers.map((l: any, i: number) => ({
         name: l.name,
         type: l.type,
-        tiles: JSON.parse(l.tiles),
+        tiles: layerTiles(l, i),
         visible: l.visible,
         tilesetUrl: l.tilesetUrl,
       })),
-      collisionMask: JSON.parse(saved.collisionMask),
+      collisionMask,
       labels: saved.labels,
       animatedTiles: [],
       animationUrl: saved.animationUrl,
@@ -390,6 +437,7 @@ export class Game {
       status: saved.status,
       editors: saved.editors?.map((e: any) => String(e)) ?? [],
       creatorProfileId: saved.creatorProfileId ? String(saved.creatorProfileId) : undefined,
+      editSeq: saved.editSeq ?? 0,
     };
   }
 
@@ -440,6 +488,8 @@ export class Game {
       console.log("[MapChange] step 3: unsubscribing");
       this.mapObjectsUnsub?.();
       this.mapObjectsUnsub = null;
+      this.locksUnsub?.();
+      this.locksUnsub = null;
       this.worldItemsUnsub?.();
       this.worldItemsUnsub = null;
       this.npcStateUnsub?.();
@@ -514,6 +564,8 @@ export class Game {
       };
 
       // 6) Position player at spawn label
+      this.entityLayer.cancelMoveTo();
+      this.battles.resetWalk();
       const spawn = mapData.labels?.find((l) => l.name === spawnLabel) ?? mapData.labels?.[0];
       console.log(`[MapChange] step 7: spawn label="${spawnLabel}" found=${!!spawn} pos=${spawn ? `(${spawn.x},${spawn.y})` : "none"}`);
       if (spawn) {
@@ -566,6 +618,46 @@ export class Game {
   /** Callback for UI panels to know when the map changes */
   onMapChanged: ((mapName: string) => void) | null = null;
 
+  /**
+   * Adopt a new name for the current map after maps.rename (which already
+   * rewrote server-side references). Re-subscribes all map-scoped queries.
+   */
+  async adoptRenamedMap(newName: string) {
+    this.currentMapName = newName;
+    if (this.currentMapData) this.currentMapData.name = newName;
+
+    await this.loadPlacedObjects(newName);
+    this.subscribeToMapObjects(newName);
+    await this.loadWorldItems(newName);
+    this.subscribeToWorldItems(newName);
+    this.subscribeToNpcState(newName);
+    this.stopPresence();
+    this.startPresence();
+
+    this.onMapChanged?.(newName);
+  }
+
+  /**
+   * Re-fetch the current map from Convex in place (e.g. after a revision
+   * revert). The player stays where they are; objects and items follow via
+   * their existing subscriptions.
+   */
+  async reloadCurrentMap() {
+    const convex = getConvexClient();
+    const saved = await convex.query(api.maps.getByName, { name: this.currentMapName });
+    if (!saved) return;
+    const mapData = this.convexMapToMapData(saved);
+    await this.loadMap(mapData);
+    this.currentMapData = mapData;
+    this.currentPortals = mapData.portals ?? [];
+    this.mapRenderer.clearAllCollisionOverrides();
+
+    await this.loadPlacedObjects(this.currentMapName);
+    await this.loadWorldItems(this.currentMapName);
+
+    this.onMapChanged?.(this.currentMapName);
+  }
+
   /** Seed a static JSON map into Convex (so future loads come from there) */
   private async seedMapToConvex(mapData: MapData) {
     const convex = getConvexClient();
@@ -612,6 +704,7 @@ export class Game {
         targetSpawn: p.targetSpawn,
         direction: p.direction,
         transition: p.transition,
+        requirements: p.requirements,
       })),
       ...(mapData.animationUrl ? { animationUrl: mapData.animationUrl } : {}),
       musicUrl: mapData.musicUrl,
@@ -660,6 +753,7 @@ export class Game {
     const dt = this.app.ticker.deltaMS / 1000;
 
     if (this.mode === "play") {
+      this.handleClickToMove();
       this.entityLayer.update(dt, this.input);
       this.checkPortals();
 
@@ -681,7 +775,9 @@ export class Game {
       // Guests can't interact — skip all mutations
       if (!this.isGuest) {
         this.handleCombatInput();
+        this.skills.update();
         this.handleHostileAggroTick();
+        this.battles.update(this.entityLayer.playerX, this.entityLayer.playerY);
         if (!this.objectLayer.getNearestToggleableId()) {
           this.handleItemPickup();
         } else {
@@ -761,12 +857,55 @@ export class Game {
         pty >= portal.y &&
         pty < portal.y + portal.height
       ) {
+        if (portal.requirements) {
+          void this.enterLockedPortal(portal);
+          return;
+        }
         // Player entered the portal zone!
         console.log(`[Portal] HIT "${portal.name}" -> map "${portal.targetMap}" spawn "${portal.targetSpawn}" | isGuest=${this.isGuest}`);
         this.changeMap(portal.targetMap, portal.targetSpawn, portal.direction);
         return; // only trigger one portal per frame
       }
     }
+    // Out of every portal: a locked one may say so again next time
+    this.refusedPortal = null;
+  }
+
+  /**
+   * Go through a portal with lock requirements. The server checks them (and
+   * takes the key if it's used up) before the map changes; a refusal is
+   * shown once per visit to the portal.
+   */
+  private async enterLockedPortal(portal: Portal) {
+    if (this.enteringPortal || this.refusedPortal === portal.name) return;
+    const locked = this.portalLocks.get(portal.name);
+    if (locked || this.isGuest) {
+      this.refusedPortal = portal.name;
+      this.showPickupNotification(locked ?? "Locked", "#ffcc66");
+      return;
+    }
+    this.enteringPortal = true;
+    try {
+      const result = await getConvexClient().mutation(api.mechanics.locks.usePortal, {
+        profileId: this.profile._id as any,
+        portalName: portal.name,
+      });
+      if (!result.success) {
+        this.refusedPortal = portal.name;
+        this.showPickupNotification(result.reason, "#ffcc66");
+        return;
+      }
+      if (result.items) {
+        this.profile.items = result.items;
+        this.showPickupNotification(`Used ${portal.requirements?.requiredItem}`);
+      }
+      console.log(`[Portal] HIT locked "${portal.name}" -> map "${portal.targetMap}" spawn "${portal.targetSpawn}"`);
+      await this.changeMap(portal.targetMap, portal.targetSpawn, portal.direction);
+    } catch (err) {
+      console.warn("Portal unlock failed:", err);
+    } finally {
+      this.enteringPortal = false;
+    }
   }
 
   setMode(mode: AppMode) {
@@ -774,6 +913,7 @@ export class Game {
     this.mode = mode;
     if (mode === "build") {
       this.camera.stopFollowing();
+      this.entityLayer.cancelMoveTo();
       // Show portal zones so the editor can see them
       this.mapRenderer.setPortalOverlayVisible(true);
     } else {
@@ -888,6 +1028,8 @@ export class Game {
             onAnimation: def.onAnimation ?? undefined,
             offAnimation: def.offAnimation ?? undefined,
             onSoundUrl: def.onSoundUrl ?? undefined,
+            craftingStation: def.craftingStation ?? undefined,
+            container: def.container ?? undefined,
             isDoor: def.isDoor ?? undefined,
             doorClosedAnimation: def.doorClosedAnimation ?? undefined,
             doorOpeningAnimation: def.doorOpeningAnimation ?? undefined,
@@ -913,6 +1055,7 @@ export class Game {
 
   private subscribeToMapObjects(mapName: string, skipFirst = true) {
     this.mapObjectsUnsub?.();
+    this.subscribeToLocks(mapName);
 
     const convex = getConvexClient();
 
@@ -945,6 +1088,24 @@ export class Game {
     );
   }
 
+  /** Keep ObjectLayer prompts and portal checks in step with which locks the player can open */
+  private subscribeToLocks(mapName: string) {
+    this.locksUnsub?.();
+    this.portalLocks = new Map();
+    this.refusedPortal = null;
+    this.locksUnsub = getConvexClient().onUpdate(
+      api.mechanics.locks.lockStatus,
+      { mapName, ...(this.isGuest ? {} : { profileId: this.profile._id as any }) },
+      (status) => {
+        this.objectLayer.setLocks(new Map(status.objects.map((o) => [o.id as string, o.reason])));
+        this.portalLocks = new Map(status.portals.map((p) => [p.name, p.reason]));
+      },
+      (err) => {
+        console.warn("Lock status subscription error:", err);
+      },
+    );
+  }
+
   /**
    * Called by the subscription when placed objects change.
    * Clears current static objects, then re-renders from data.
@@ -1002,6 +1163,8 @@ export class Game {
             onAnimation: def.onAnimation ?? undefined,
             offAnimation: def.offAnimation ?? undefined,
             onSoundUrl: def.onSoundUrl ?? undefined,
+            craftingStation: def.craftingStation ?? undefined,
+            container: def.container ?? undefined,
             isDoor: def.isDoor ?? undefined,
             doorClosedAnimation: def.doorClosedAnimation ?? undefined,
             doorOpeningAnimation: def.doorOpeningAnimation ?? undefined,
@@ -1074,28 +1237,149 @@ export class Game {
     );
   }
 
+  /**
+   * The server rejected our reported position (see convex/lib/movement):
+   * put the player back where it last accepted. A rejection naming another
+   * map means our map change didn't count — go back to that map's start.
+   */
+  private snapBack(snap: { mapName?: string; x: number; y: number }) {
+    if (this.changingMap) return;
+    this.entityLayer.cancelMoveTo();
+    if (snap.mapName && snap.mapName !== this.currentMapName) {
+      void this.changeMap(snap.mapName, "start1");
+      return;
+    }
+    this.entityLayer.playerX = snap.x;
+    this.entityLayer.playerY = snap.y;
+  }
+
+  // ===========================================================================
+  // Click / tap to move
+  // ===========================================================================
+
+  /**
+   * A click or tap on the map walks the player there around walls and
+   * closed doors. Clicking an NPC, interactable object or item walks up to
+   * it and then interacts, as [E] (or the combat key, for hostiles) would;
+   * clicking another player walks up and asks them to trade.
+   */
+  private handleClickToMove() {
+    const click = this.input.getClick();
+    if (!click || this.entityLayer.inDialogue) return;
+    const el = this.entityLayer;
+
+    // Guests can walk around but not interact
+    const npc = el.findNPCAtScreen(click.x, click.y);
+    if (npc && !this.isGuest) {
+      el.moveTo({
+        x: npc.x,
+        y: npc.y,
+        arriveRadius: NPC_INTERACT_RADIUS_PX * CLICK_ARRIVE_FRACTION,
+        follow: () => (el.hasNPC(npc) ? { x: npc.x, y: npc.y } : null),
+        onArrive: () => {
+          void el.interactWithNPC(npc).then((hint) => {
+            if (hint === "attack") void this.attackNearestHostile();
+          });
+        },
+      });
+      return;
+    }
+
+    // Clicking another player walks up to them and asks to trade
+    const other = this.isGuest ? null : el.findRemotePlayerAtScreen(click.x, click.y);
+    if (other) {
+      el.moveTo({
+        x: other.x,
+        y: other.y,
+        arriveRadius: NPC_INTERACT_RADIUS_PX * CLICK_ARRIVE_FRACTION,
+        follow: () => el.getRemotePlayerPosition(other.profileId),
+        onArrive: () => {
+          void this.trades.request(other.profileId).then((reason) => {
+            if (reason) this.showPickupNotification(reason, "#ffcc66");
+          });
+        },
+      });
+      return;
+    }
+
+    const obj = this.isGuest ? null : this.objectLayer.findInteractableAtScreen(click.x, click.y);
+    if (obj) {
+      el.moveTo({
+        x: obj.x,
+        y: obj.y,
+        arriveRadius: this.objectLayer.interactRadius * CLICK_ARRIVE_FRACTION,
+        onArrive: () => void this.toggleObject(obj.id),
+      });
+      return;
+    }
+
+    const item = this.isGuest ? null : this.worldItemLayer.findItemAtScreen(click.x, click.y);
+    if (item) {
+      el.moveTo({
+        x: item.x,
+        y: item.y,
+        arriveRadius: this.worldItemLayer.interactRadius * CLICK_ARRIVE_FRACTION,
+        onArrive: () => {
+          if (this.worldItemLayer.isItemAvailable(item.id)) void this.pickUpItem(item.id);
+        },
+      });
+      return;
+    }
+
+    const world = this.camera.screenToWorld(click.x, click.y);
+    el.moveTo({ x: world.x, y: world.y });
+  }
+
   // ===========================================================================
   // Toggleable object interaction
   // ===========================================================================
 
   private toggling = false;
   private async handleObjectToggle() {
-    if (this.toggling) return;
     const nearestId = this.objectLayer.getNearestToggleableId();
     if (!nearestId) return;
     const ePressed = this.input.wasJustPressed("e") || this.input.wasJustPressed("E");
     if (!ePressed) return;
+    await this.toggleObject(nearestId);
+  }
+
+  private async toggleObject(objectId: string) {
+    if (this.toggling) return;
     if (this.entityLayer.inDialogue) return;
 
+    // Containers open (and close with their splash) rather than toggling
+    if (this.objectLayer.isContainer(objectId)) {
+      const reason = await this.containers.open(objectId);
+      if (reason) this.showPickupNotification(reason, "#ffcc66");
+      return;
+    }
+
+    // A lit crafting station opens its recipes rather than going out
+    const station = this.objectLayer.getCraftingStation(objectId);
+    if (station && this.objectLayer.isObjectOn(objectId)) {
+      this.crafting.open(objectId);
+      return;
+    }
+
     this.toggling = true;
     try {
       const convex = getConvexClient();
       const result = await convex.mutation(api.mapObjects.toggle, {
-        id: nearestId as any,
+        profileId: this.profile._id as any,
+        id: objectId as any,
       });
       if (result.success && typeof result.isOn === "boolean") {
+        if (result.items) {
+          // A used-up key opened it
+          this.profile.items = result.items;
+          this.showPickupNotification("Unlocked");
+        }
         // Optimistically update the visual
-        this.objectLayer.applyToggle(nearestId, result.isOn);
+        this.objectLayer.applyToggle(objectId, result.isOn);
+        if (station && result.isOn) this.crafting.open(objectId);
+      } else if ("code" in result) {
+        // Refused server-side (e.g. out of reach) — say why
+        this.showPickupNotification(result.reason, "#ffcc66");
       }
     } catch (err) {
       console.warn("Toggle failed:", err);
@@ -1105,11 +1389,14 @@ export class Game {
 
   private pickingUp = false;
   private async handleItemPickup() {
-    if (this.pickingUp) return;
     const nearestId = this.worldItemLayer.getNearestItemId();
     if (!nearestId) return;
     if (!(this.input.wasJustPressed("e") || this.input.wasJustPressed("E"))) return;
+    await this.pickUpItem(nearestId);
+  }
 
+  private async pickUpItem(worldItemId: string) {
+    if (this.pickingUp) return;
     // Don't pick up if in dialogue
     if (this.entityLayer.inDialogue) return;
 
@@ -1118,29 +1405,25 @@ export class Game {
       const convex = getConvexClient();
       const result = await convex.mutation(api.worldItems.pickup, {
         profileId: this.profile._id as any,
-        worldItemId: nearestId as any,
+        worldItemId: worldItemId as any,
       });
       if (result.success && result.itemName && typeof result.quantity === "number") {
-        const name = this.worldItemLayer.getNearestItemName() ?? result.itemName;
+        const name = this.worldItemLayer.getItemName(worldItemId) ?? result.itemName;
         console.log(`[Pickup] Got ${result.quantity}x ${name}`);
         const pickupSfx =
-          this.worldItemLayer.getNearestItemPickupSoundUrl() ||
+          this.worldItemLayer.getItemPickupSoundUrl(worldItemId) ||
           result.pickupSoundUrl ||
           DEFAULT_ITEM_PICKUP_SFX;
         this.audio.playOneShot(pickupSfx, 0.7);
         // Show a brief pickup notification
         this.showPickupNotification(`+${result.quantity} ${name}`);
         // Optimistically update: fade if respawning, remove if not
-        this.worldItemLayer.markPickedUp(nearestId, !!result.respawns);
+        this.worldItemLayer.markPickedUp(worldItemId, !!result.respawns);
         // Update the local profile inventory so CharacterPanel reflects the change
-        const existing = this.profile.items.find((i) => i.name === result.itemName);
-        if (existing) {
-          existing.quantity += result.quantity;
-        } else {
-          this.profile.items.push({ name: result.itemName, quantity: result.quantity });
-        }
+        if (result.items) this.profile.items = result.items;
       } else {
         console.log(`[Pickup] Failed: ${result.reason}`);
+        if ("code" in result) this.showPickupNotification(result.reason, "#ffcc66");
       }
     } catch (err) {
       console.warn("Pickup failed:", err);
@@ -1154,15 +1437,34 @@ export class Game {
   private lastAggroTickAt = 0;
   private activeCombatNotifications: HTMLDivElement[] = [];
   private async handleCombatInput() {
-    if (this.attacking) return;
-    if (!this.currentMapData?.combatEnabled) return;
-    if (this.entityLayer.inDialogue) return;
-
     const attackPressed =
       this.input.wasJustPressed(COMBAT_ATTACK_KEY) ||
       this.input.wasJustPressed(COMBAT_ATTACK_KEY_ALT);
     if (!attackPressed) return;
-    if (COMBAT_DEBUG) console.log("[CombatDebug:client] F pressed", {
+    await this.attackNearestHostile();
+  }
+
+  /**
+   * Attack the nearest hostile NPC (combat key, or clicking a hostile NPC).
+   * On turn-based maps this starts a battle with it instead.
+   */
+  private async attackNearestHostile() {
+    if (this.attacking) return;
+    if (!this.currentMapData?.combatEnabled) return;
+    if (this.entityLayer.inDialogue) return;
+
+    if (this.battles.isTurnBasedMap) {
+      this.attacking = true;
+      try {
+        const reason = await this.battles.engageNearestHostile();
+        if (reason) this.showCombatNotification(reason, "#ffcc66");
+      } finally {
+        this.attacking = false;
+      }
+      return;
+    }
+
+    if (COMBAT_DEBUG) console.log("[CombatDebug:client] attack requested", {
       mapName: this.currentMapName,
       combatEnabled: !!this.currentMapData?.combatEnabled,
       playerX: Math.round(this.entityLayer.playerX),
@@ -1198,8 +1500,6 @@ export class Game {
       const result = await convex.mutation((api as any).mechanics.combat.attackNearestHostile, {
         profileId: this.profile._id as any,
         mapName: this.currentMapName,
-        x: this.entityLayer.playerX,
-        y: this.entityLayer.playerY,
       });
 
       if (!result?.success) {
@@ -1233,9 +1533,11 @@ export class Game {
         const max = Number(result.targetMaxHp ?? 0);
         this.showCombatNotification(`${targetName} HP ${hp}/${max}`, "#ffb3b3");
       }
-      if (Array.isArray(result.droppedLoot) && result.droppedLoot.length > 0) {
-        const first = result.droppedLoot[0];
-        this.showCombatNotification(`Loot dropped: ${first.itemDefName}`, "#99e6ff");
+      for (const drop of Array.isArray(result.droppedLoot) ? result.droppedLoot : []) {
+        this.showCombatNotification(
+          drop.to === "killer" ? `Looted: ${drop.quantity} ${drop.itemDefName}` : `Loot dropped: ${drop.itemDefName}`,
+          "#99e6ff",
+        );
       }
       // Keep local profile HUD in sync with server patches from combat exchange.
       if (typeof took === "number" && took >= 0) {
@@ -1262,6 +1564,7 @@ export class Game {
   private async handleHostileAggroTick() {
     if (this.aggroResolving) return;
     if (!this.currentMapData?.combatEnabled) return;
+    if (this.battles.isTurnBasedMap) return; // hostiles wait to be engaged in battle
     if (this.entityLayer.inDialogue) return;
 
     const now = Date.now();
@@ -1276,15 +1579,25 @@ export class Game {
         {
           profileId: this.profile._id as any,
           mapName: this.currentMapName,
-          x: this.entityLayer.playerX,
-          y: this.entityLayer.playerY,
         },
       );
       if (!result?.success) return;
       const attacker = String(result.attackerName ?? "Hostile");
       const took = Number(result.took ?? 0);
-      if (took > 0) {
-        this.showCombatNotification(`${attacker} attacks you for ${took}`, "#ff9966");
+      const skillName = result.skillName ? String(result.skillName) : null;
+      if (skillName) {
+        const caster = this.entityLayer.getNpcByInstanceName(String(result.attackerInstanceName ?? ""));
+        const el = this.entityLayer;
+        if (result.healed > 0 && caster) el.playSkillEffect(result.skillAnimation, caster.x, caster.y);
+        else if (took > 0) el.playSkillEffect(result.skillAnimation, el.playerX, el.playerY, 16);
+      }
+      if (skillName && Number(result.healed ?? 0) > 0) {
+        this.showCombatNotification(`${attacker} casts ${skillName} and heals ${result.healed}`, "#ff9966");
+      } else if (took > 0) {
+        this.showCombatNotification(
+          skillName ? `${attacker} casts ${skillName} — you take ${took}` : `${attacker} attacks you for ${took}`,
+          "#ff9966",
+        );
         this.entityLayer.playPlayerHitEffect();
       }
       if (typeof result.playerHp === "number") {
@@ -1298,7 +1611,7 @@ export class Game {
   }
 
   /** Show a brief floating text notification for item pickup */
-  private showPickupNotification(text: string) {
+  showPickupNotification(text: string, color = "#44ff88") {
     const div = document.createElement("div");
     div.textContent = text;
     div.style.cssText = `
@@ -1307,7 +1620,7 @@ export class Game {
       left: 50%;
       transform: translateX(-50%);
       background: rgba(0,0,0,0.8);
-      color: #44ff88;
+      color: ${color};
       padding: 8px 16px;
       border-radius: 8px;
       font-size: 14px;
@@ -1322,7 +1635,7 @@ export class Game {
   }
 
   /** Show a brief floating text notification for combat events */
-  private showCombatNotification(text: string, color = "#ff6666") {
+  showCombatNotification(text: string, color = "#ff6666") {
     const div = document.createElement("div");
     div.textContent = text;
     this.activeCombatNotifications.push(div);
@@ -1419,8 +1732,14 @@ export class Game {
 
   destroy() {
     this.stopPresence();
+    this.skills.stop();
+    this.trades.stop();
+    this.containers.stop();
+    this.crafting.stop();
     this.mapObjectsUnsub?.();
     this.mapObjectsUnsub = null;
+    this.locksUnsub?.();
+    this.locksUnsub = null;
     this.worldItemsUnsub?.();
     this.worldItemsUnsub = null;
     this.npcStateUnsub?.();
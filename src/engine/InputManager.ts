@@ -1,3 +1,6 @@
+/** Max pointer travel (px) between press and release for it to count as a tap */
+const TAP_MAX_TRAVEL_PX = 8;
+
 /**
  * Manages keyboard and mouse input state.
  */
@@ -7,6 +10,10 @@ export class InputManager {
   private mouseX = 0;
   private mouseY = 0;
   private mouseDown = false;
+  /** Where the primary pointer went down (mouse or touch), for tap detection */
+  private pointerDownAt: { x: number; y: number } | null = null;
+  /** Tap / click released on the canvas this frame (canvas px) */
+  private click: { x: number; y: number } | null = null;
   private canvas: HTMLCanvasElement;
 
   private onKeyDown: (e: KeyboardEvent) => void;
@@ -14,6 +21,8 @@ export class InputManager {
   private onMouseMove: (e: MouseEvent) => void;
   private onMouseDown: (e: MouseEvent) => void;
   private onMouseUp: (e: MouseEvent) => void;
+  private onPointerDown: (e: PointerEvent) => void;
+  private onPointerUp: (e: PointerEvent) => void;
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
@@ -50,11 +59,31 @@ export class InputManager {
       this.mouseDown = false;
     };
 
+    this.onPointerDown = (e: PointerEvent) => {
+      if (e.button !== 0) return;
+      const rect = this.canvas.getBoundingClientRect();
+      this.pointerDownAt = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    this.onPointerUp = (e: PointerEvent) => {
+      const down = this.pointerDownAt;
+      this.pointerDownAt = null;
+      if (!down || e.button !== 0) return;
+      const rect = this.canvas.getBoundingClientRect();
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      // A drag (e.g. panning on a trackpad) isn't a tap
+      if (Math.hypot(x - down.x, y - down.y) > TAP_MAX_TRAVEL_PX) return;
+      this.click = { x, y };
+    };
+
     window.addEventListener("keydown", this.onKeyDown);
     window.addEventListener("keyup", this.onKeyUp);
     canvas.addEventListener("mousemove", this.onMouseMove);
     canvas.addEventListener("mousedown", this.onMouseDown);
     canvas.addEventListener("mouseup", this.onMouseUp);
+    canvas.addEventListener("pointerdown", this.onPointerDown);
+    canvas.addEventListener("pointerup", this.onPointerUp);
   }
 
   isDown(key: string): boolean {
@@ -65,6 +94,16 @@ export class InputManager {
     return this.justPressed.has(key);
   }
 
+  /** True if any key went down this frame */
+  anyKeyJustPressed(): boolean {
+    return this.justPressed.size > 0;
+  }
+
+  /** Canvas position of a click / tap released this frame, if any */
+  getClick(): { x: number; y: number } | null {
+    return this.click;
+  }
+
   getMousePos() {
     return { x: this.mouseX, y: this.mouseY };
   }
@@ -76,6 +115,7 @@ export class InputManager {
   /** Call at end of frame to clear just-pressed state */
   endFrame() {
     this.justPressed.clear();
+    this.click = null;
   }
 
   destroy() {
@@ -84,5 +124,7 @@ export class InputManager {
     this.canvas.removeEventListener("mousemove", this.onMouseMove);
     this.canvas.removeEventListener("mousedown", this.onMouseDown);
     this.canvas.removeEventListener("mouseup", this.onMouseUp);
+    this.canvas.removeEventListener("pointerdown", this.onPointerDown);
+    this.canvas.removeEventListener("pointerup", this.onPointerUp);
   }
 }
@@ -57,6 +57,9 @@ export class MapRenderer {
     this.portalGhost = null;
     this.labelGhost = null;
     this.gridOverlay = null;
+    this.shapeGhost = null;
+    this.selectionOutline = null;
+    this.remoteCursorLayer = null;
     this.mapData = mapData;
 
     // Load all tilesets referenced by map + per-layer overrides
@@ -179,6 +182,25 @@ export class MapRenderer {
     }
   }
 
+  /** Set many tiles on one layer and re-render it once (undo, fills). */
+  setTiles(layerIndex: number, cells: { x: number; y: number; tileIndex: number }[]) {
+    if (!this.mapData) return;
+
+    const layer = this.mapData.layers[layerIndex];
+    if (!layer) return;
+    for (const c of cells) {
+      layer.tiles[c.y * this.mapData.width + c.x] = c.tileIndex;
+    }
+
+    const container = this.layerContainers[layerIndex];
+    const tilesetUrl = layer.tilesetUrl ?? this.mapData.tilesetUrl;
+    const tilesetTexture = this.tilesetTextures.get(tilesetUrl);
+    if (container) {
+      container.removeChildren();
+      this.renderLayer(container, layer, this.mapData, tilesetTexture);
+    }
+  }
+
   /** Toggle layer visibility */
   setLayerVisible(layerIndex: number, visible: boolean) {
     const container = this.layerContainers[layerIndex];
@@ -267,6 +289,10 @@ export class MapRenderer {
     }
   }
 
+  isCollisionOverlayVisible(): boolean {
+    return this.collisionOverlayVisible;
+  }
+
   /** Redraw the collision overlay from current collisionMask */
   renderCollisionOverlay() {
     if (!this.mapData) return;
@@ -660,6 +686,118 @@ export class MapRenderer {
     }
   }
 
+  // =========================================================================
+  // Shape + selection ghosts (fill/rect/line/select tools)
+  // =========================================================================
+
+  private shapeGhost: Graphics | null = null;
+  private selectionOutline: Graphics | null = null;
+
+  /** Highlight the tiles a rectangle/line will touch before it's committed. */
+  showShapeGhost(cells: { x: number; y: number }[]) {
+    if (!this.mapData) return;
+    const tw = this.mapData.tileWidth;
+    const th = this.mapData.tileHeight;
+
+    if (!this.shapeGhost) {
+      this.shapeGhost = new Graphics();
+      this.shapeGhost.zIndex = 156;
+      this.container.addChild(this.shapeGhost);
+    }
+
+    this.shapeGhost.clear();
+    for (const c of cells) this.shapeGhost.rect(c.x * tw, c.y * th, tw, th);
+    this.shapeGhost.fill({ color: 0x44aaff, alpha: 0.3 });
+    this.shapeGhost.visible = true;
+  }
+
+  hideShapeGhost() {
+    if (this.shapeGhost) {
+      this.shapeGhost.clear();
+      this.shapeGhost.visible = false;
+    }
+  }
+
+  /**
+   * Outline a tile rectangle — the marquee selection, or a floating paste
+   * (drawn in orange) following the cursor.
+   */
+  showSelectionOutline(rect: { x: number; y: number; w: number; h: number }, floating = false) {
+    if (!this.mapData) return;
+    const tw = this.mapData.tileWidth;
+    const th = this.mapData.tileHeight;
+
+    if (!this.selectionOutline) {
+      this.selectionOutline = new Graphics();
+      this.selectionOutline.zIndex = 157;
+      this.container.addChild(this.selectionOutline);
+    }
+
+    const color = floating ? 0xffaa33 : 0xffffff;
+    this.selectionOutline.clear();
+    this.selectionOutline.rect(rect.x * tw, rect.y * th, rect.w * tw, rect.h * th);
+    this.selectionOutline.fill({ color, alpha: 0.12 });
+    this.selectionOutline.stroke({ color, alpha: 0.9, width: 2 });
+    this.selectionOutline.visible = true;
+  }
+
+  hideSelectionOutline() {
+    if (this.selectionOutline) {
+      this.selectionOutline.clear();
+      this.selectionOutline.visible = false;
+    }
+  }
+
+  // =========================================================================
+  // Remote editor cursors (collaborative editing)
+  // =========================================================================
+
+  private remoteCursorLayer: Container | null = null;
+
+  /** Draw other editors' cursors: a tile outline in their colour plus name and tool. */
+  showRemoteCursors(cursors: { name: string; tool: string; x: number; y: number; color: number }[]) {
+    if (!this.mapData) return;
+    const tw = this.mapData.tileWidth;
+    const th = this.mapData.tileHeight;
+
+    if (!this.remoteCursorLayer) {
+      this.remoteCursorLayer = new Container();
+      this.remoteCursorLayer.label = "remote-cursors";
+      this.remoteCursorLayer.zIndex = 158;
+      this.container.addChild(this.remoteCursorLayer);
+    }
+    for (const child of this.remoteCursorLayer.removeChildren()) child.destroy();
+
+    for (const c of cursors) {
+      const outline = new Graphics();
+      outline.rect(c.x * tw, c.y * th, tw, th);
+      outline.fill({ color: c.color, alpha: 0.15 });
+      outline.stroke({ color: c.color, alpha: 0.95, width: 2 });
+      this.remoteCursorLayer.addChild(outline);
+
+      const text = new Text({
+        text: `${c.name} · ${c.tool}`,
+        style: new TextStyle({
+          fontSize: 10,
+          fill: c.color,
+          fontFamily: "monospace",
+          stroke: { color: 0x000000, width: 3 },
+        }),
+      });
+      text.x = c.x * tw;
+      text.y = c.y * th - 14;
+      this.remoteCursorLayer.addChild(text);
+    }
+    this.remoteCursorLayer.visible = true;
+  }
+
+  hideRemoteCursors() {
+    if (this.remoteCursorLayer) {
+      for (const child of this.remoteCursorLayer.removeChildren()) child.destroy();
+      this.remoteCursorLayer.visible = false;
+    }
+  }
+
   // =========================================================================
   // Grid overlay (toggle on/off in build mode)
   // =========================================================================
@@ -30,6 +30,8 @@ export interface SpriteDefInfo {
   onAnimation?: string;
   offAnimation?: string;
   onSoundUrl?: string;
+  craftingStation?: string;
+  container?: boolean;
   // Door (4-state)
   isDoor?: boolean;
   doorClosedAnimation?: string;
@@ -42,6 +44,23 @@ export interface SpriteDefInfo {
 
 type DoorState = "closed" | "opening" | "open" | "closing";
 
+/**
+ * Toggleables switch on / off; a lit crafting station opens its recipes
+ * instead, and a container always opens
+ */
+function togglePrompt(isOn: boolean, craftingStation?: string, container?: boolean): string {
+  if (container) return "[E] Open";
+  if (craftingStation) return isOn ? "[E] Craft" : "[E] Light";
+  return `[E] Turn ${isOn ? "Off" : "On"}`;
+}
+
+/** What [E] does for an interactable — or, while it's shut, why it's locked */
+function objectPrompt(r: RenderedObject, isOn: boolean): string {
+  if (!isOn && r.lockedReason) return r.lockedReason;
+  if (r.isDoor) return isOn ? "[E] Close" : "[E] Open";
+  return togglePrompt(isOn, r.craftingStation, r.isContainer);
+}
+
 interface RenderedObject {
   id: string;
   defName: string;
@@ -63,6 +82,10 @@ interface RenderedObject {
   prompt?: Text;
   onSoundUrl?: string;
   onSfxHandle?: import("./AudioManager.ts").SfxHandle;
+  craftingStation?: string;
+  isContainer?: boolean;
+  /** "Locked — requires …" while the player can't open it (lib/locks) */
+  lockedReason?: string;
   interactSoundUrl?: string;
   // Door state
   isDoor: boolean;
@@ -89,6 +112,8 @@ export class ObjectLayer {
   private sheetCache = new Map<string, Spritesheet>();
   private defCache = new Map<string, SpriteDefInfo>();
   private audio: AudioManager | null = null;
+  /** Object id → why it's locked for this player (see setLocks) */
+  private locks = new Map<string, string>();
 
   // Ghost preview sprite
   private ghostSprite: AnimatedSprite | null = null;
@@ -269,6 +294,9 @@ export class ObjectLayer {
         onFrames: onFrames ?? undefined,
         offFrames: offFrames ?? undefined,
         onSoundUrl: def.onSoundUrl,
+        craftingStation: isToggleable ? def.craftingStation : undefined,
+        isContainer: isToggleable && !!def.container,
+        lockedReason: this.locks.get(obj.id),
         interactSoundUrl: def.interactSoundUrl,
         // Door
         isDoor,
@@ -305,14 +333,8 @@ export class ObjectLayer {
         objContainer.addChildAt(glow, 0); // behind sprite
         entry.glow = glow;
 
-        let promptText: string;
-        if (isDoor) {
-          promptText = doorState === "open" ? "[E] Close" : "[E] Open";
-        } else {
-          promptText = `[E] Turn ${isOn ? "Off" : "On"}`;
-        }
         const prompt = new Text({
-          text: promptText,
+          text: objectPrompt(entry, isDoor ? doorState === "open" : isOn),
           style: new TextStyle({
             fontSize: 9,
             fill: 0xffffff,
@@ -524,6 +546,64 @@ export class ObjectLayer {
     return this.nearestToggleable?.isOn ?? false;
   }
 
+  /**
+   * Interactable object (toggle or door) drawn under a canvas position, for
+   * click-to-interact. `x`/`y` are the world point the prompt radius is
+   * measured from (the sprite's vertical centre).
+   */
+  findInteractableAtScreen(screenX: number, screenY: number): { id: string; x: number; y: number } | null {
+    let best: RenderedObject | null = null;
+    for (const r of this.rendered) {
+      if (!r.toggleable && !r.isDoor) continue;
+      if (!r.sprite.getBounds().containsPoint(screenX, screenY)) continue;
+      if (!best || r.y > best.y) best = r;
+    }
+    if (!best) return null;
+    const def = this.defCache.get(best.defName);
+    const spriteHalfH = def ? (def.frameHeight * def.scale) / 2 : 0;
+    return { id: best.id, x: best.x, y: best.y - spriteHalfH };
+  }
+
+  /** Range within which [E] reaches an interactable object */
+  get interactRadius(): number {
+    return OBJ_INTERACT_RADIUS;
+  }
+
+  /** The crafting station kind of a rendered object (undefined for anything else) */
+  getCraftingStation(id: string): string | undefined {
+    return this.rendered.find((r) => r.id === id)?.craftingStation;
+  }
+
+  /** Whether a rendered object is a container */
+  isContainer(id: string): boolean {
+    return this.rendered.find((r) => r.id === id)?.isContainer ?? false;
+  }
+
+  /**
+   * Which objects are locked for the player, and why (from
+   * mechanics/locks.lockStatus). Shut locked objects show the reason as their
+   * prompt.
+   */
+  setLocks(locks: Map<string, string>) {
+    this.locks = locks;
+    for (const r of this.rendered) {
+      r.lockedReason = locks.get(r.id);
+      // A door mid-transition is headed for its target state
+      const open = r.isDoor ? r.doorState === "open" || r.doorState === "opening" : r.isOn;
+      if (r.prompt) (r.prompt as Text).text = objectPrompt(r, open);
+    }
+  }
+
+  /** Why an object is locked for the player, or undefined when it isn't */
+  getLockedReason(id: string): string | undefined {
+    return this.rendered.find((r) => r.id === id)?.lockedReason;
+  }
+
+  /** Whether a rendered toggleable / door is currently on / open */
+  isObjectOn(id: string): boolean {
+    return this.rendered.find((r) => r.id === id)?.isOn ?? false;
+  }
+
   /** Check if the nearest interactable is a door */
   isNearestDoor(): boolean {
     return this.nearestToggleable?.isDoor ?? false;
@@ -563,7 +643,7 @@ export class ObjectLayer {
 
     // Update prompt text
     if (r.prompt) {
-      (r.prompt as Text).text = `[E] Turn ${isOn ? "Off" : "On"}`;
+      (r.prompt as Text).text = objectPrompt(r, isOn);
     }
 
     // Play one-shot interact sound when turning ON
@@ -709,7 +789,7 @@ export class ObjectLayer {
 
     // Update prompt text
     if (r.prompt) {
-      (r.prompt as Text).text = targetOpen ? "[E] Close" : "[E] Open";
+      (r.prompt as Text).text = objectPrompt(r, targetOpen);
     }
   }
 
@@ -14,8 +14,15 @@ export interface PresenceManagerHooks {
   getPlayerPosition: () => { x: number; y: number; vx: number; vy: number; direction: string };
   isPlayerMoving: () => boolean;
   onPresenceList: (presence: PresenceData[], localProfileId: string) => void;
+  /** The server rejected a reported position; put the player back where it last accepted */
+  onSnapBack: (snap: { mapName?: string; x: number; y: number }, reason: string) => void;
 }
 
+/** Result of presence.update / profiles.savePosition */
+type MoveResult =
+  | { accepted: true }
+  | { accepted: false; reason: string; message: string; snapTo: { mapName?: string; x: number; y: number } | null };
+
 export class PresenceManager {
   private readonly profile: ProfileData;
   private readonly isGuest: () => boolean;
@@ -86,6 +93,7 @@ export class PresenceManager {
             y: pos.y,
             direction: pos.direction,
           })
+          .then((result) => this.handleMoveResult(result))
           .catch((err) => console.warn("Position save failed:", err));
       }, SAVE_POSITION_INTERVAL_MS);
 
@@ -130,9 +138,20 @@ export class PresenceManager {
         spriteUrl: this.profile.spriteUrl,
         name: this.profile.name,
       })
+      .then((result) => this.handleMoveResult(result))
       .catch((err) => console.warn("Presence update failed:", err));
   }
 
+  private handleMoveResult(result: MoveResult) {
+    if (result.accepted) return;
+    console.warn(`[Presence] Position rejected (${result.reason}): ${result.message}`);
+    if (!result.snapTo) return;
+    this.hooks.onSnapBack(result.snapTo, result.reason);
+    // Report the corrected spot right away rather than waiting for movement
+    this.lastPresenceX = result.snapTo.x;
+    this.lastPresenceY = result.snapTo.y;
+  }
+
   stop() {
     if (this.presenceTimer) {
       clearInterval(this.presenceTimer);
@@ -0,0 +1,115 @@
+import { getConvexClient } from "../lib/convexClient.ts";
+import { api } from "../../convex/_generated/api";
+import { splashManager } from "../splash/SplashManager.ts";
+import { createShopSplash, type ShopState, type ShopTradeResult } from "../splash/screens/ShopSplash.ts";
+import type { Game } from "./Game.ts";
+
+/** A shop as convex/mechanics/shops.getShop returns it */
+interface ServerShop {
+  npcProfileName: string;
+  shopName: string;
+  currency: string;
+  listings: { itemDefName: string; displayName: string; description: string; price: number; stock: number | null }[];
+  sellable: { itemDefName: string; displayName: string; quantity: number; price: number }[];
+  wallet: Record<string, number>;
+}
+
+type TradeResult =
+  | { success: true; items: Game["profile"]["items"] }
+  | { success: false; reason: string };
+
+/**
+ * Client side of NPC shops: opens ShopSplash when the player talks to a
+ * "shopkeeper" and relays buys / sells to convex/mechanics/shops.ts, which
+ * moves the money and items.
+ */
+export class ShopController {
+  private game: Game;
+  private shop: ServerShop | null = null;
+
+  constructor(game: Game) {
+    this.game = game;
+  }
+
+  /**
+   * Open a shopkeeper's counter. Resolves to false (showing nothing) when
+   * the NPC doesn't run a shop; `onClose` runs when the splash is dismissed.
+   */
+  async open(npcProfileName: string, onClose?: () => void): Promise<boolean> {
+    if (this.game.isGuest) return false;
+    const shop = await this.load(npcProfileName);
+    if (!shop) return false;
+    this.shop = shop;
+    const view = this.toState(shop);
+
+    splashManager.push({
+      id: `shop-${npcProfileName}`,
+      create: (props) =>
+        createShopSplash({
+          ...props,
+          shopName: shop.shopName,
+          ...view,
+          onBuy: (index) => this.trade("buy", index),
+          onSell: (index) => this.trade("sell", index),
+        }),
+      pausesGame: false,
+      onClose: () => {
+        this.shop = null;
+        onClose?.();
+      },
+    });
+    return true;
+  }
+
+  private async load(npcProfileName: string): Promise<ServerShop | null> {
+    try {
+      return (await getConvexClient().query(api.mechanics.shops.getShop, {
+        profileId: this.game.profile._id as any,
+        npcProfileName,
+      })) as ServerShop | null;
+    } catch (err) {
+      console.warn("Shop load failed:", err);
+      return null;
+    }
+  }
+
+  private async trade(kind: "buy" | "sell", index: number): Promise<ShopTradeResult> {
+    const shop = this.shop;
+    if (!shop) return "The shop is closed.";
+    const itemDefName = kind === "buy" ? shop.listings[index]?.itemDefName : shop.sellable[index]?.itemDefName;
+    if (!itemDefName) return "That's no longer available.";
+
+    const fn = kind === "buy" ? api.mechanics.shops.buy : api.mechanics.shops.sell;
+    const result = (await getConvexClient().mutation(fn, {
+      profileId: this.game.profile._id as any,
+      npcProfileName: shop.npcProfileName,
+      itemDefName,
+    })) as TradeResult;
+    if (!result.success) return result.reason;
+    this.game.profile.items = result.items;
+
+    const fresh = await this.load(shop.npcProfileName);
+    if (!fresh) return "The shop is closed.";
+    this.shop = fresh;
+    return this.toState(fresh);
+  }
+
+  private toState(shop: ServerShop): ShopState {
+    return {
+      items: shop.listings.map((l) => ({
+        name: l.displayName,
+        price: l.price,
+        currency: shop.currency,
+        description: l.description,
+        ...(l.stock != null ? { stock: l.stock } : {}),
+      })),
+      sellItems: shop.sellable.map((s) => ({
+        name: s.displayName,
+        price: s.price,
+        currency: shop.currency,
+        quantity: s.quantity,
+      })),
+      playerCurrency: shop.wallet,
+    };
+  }
+}
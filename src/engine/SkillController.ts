@@ -0,0 +1,195 @@
+import { getConvexClient } from "../lib/convexClient.ts";
+import { api } from "../../convex/_generated/api";
+import type { Game } from "./Game.ts";
+
+/** Keys for the skill bar's slots, in order */
+export const SKILL_HOTKEYS = ["1", "2", "3", "4", "5"];
+
+/** Mirrors a skill in skills.getLoadout */
+export interface LoadoutSkill {
+  name: string;
+  displayName: string;
+  description: string;
+  kind: "damage" | "heal";
+  area: "single" | "circle" | "cone" | "self";
+  rangePx: number;
+  resource: "mana" | "stamina";
+  cost: number;
+  cooldownMs: number;
+  animation?: string;
+  iconUrl?: string;
+  /** Timestamp the skill can next be cast (real-time) */
+  readyAt: number;
+}
+
+/** Mirrors skills.getLoadout */
+export interface SkillLoadout {
+  skills: LoadoutSkill[];
+  /** Skill name per hotkey slot ("" = empty) */
+  skillBar: string[];
+  resources: {
+    mana: number;
+    maxMana: number;
+    stamina: number;
+    maxStamina: number;
+    /** When the pools were stored; they regenerate from here */
+    at: number;
+    manaRegenPerSec: number;
+    staminaRegenPerSec: number;
+  };
+}
+
+type SkillHit = {
+  targetName: string;
+  targetInstanceName: string;
+  dealt: number;
+  targetHp: number;
+  targetMaxHp: number;
+  defeated: boolean;
+};
+
+/**
+ * Client side of skills on real-time maps: keeps the player's loadout live,
+ * casts the skill bound to a pressed hotkey (or a clicked HUD slot) and
+ * shows the result. The server (combat.useSkill) checks and resolves every
+ * cast; on turn-based maps skills are chosen from the battle menu instead.
+ */
+export class SkillController {
+  private game: Game;
+  private loadout: SkillLoadout | null = null;
+  private unsub: (() => void) | null = null;
+  private listeners = new Set<(loadout: SkillLoadout | null) => void>();
+  private casting = false;
+
+  constructor(game: Game) {
+    this.game = game;
+  }
+
+  /** Subscribe to the player's loadout (no-op for guests) */
+  start() {
+    if (this.game.isGuest || this.unsub) return;
+    this.unsub = getConvexClient().onUpdate(
+      api.skills.getLoadout,
+      { profileId: this.game.profile._id as any },
+      (loadout) => {
+        this.loadout = (loadout as SkillLoadout | null) ?? null;
+        for (const listener of this.listeners) listener(this.loadout);
+      },
+    );
+  }
+
+  stop() {
+    this.unsub?.();
+    this.unsub = null;
+  }
+
+  /** Listen for loadout changes (called straight away with the current one); returns an unsubscribe */
+  onChange(listener: (loadout: SkillLoadout | null) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.loadout);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Pools at `now`, regenerated from when the server stored them */
+  resourcesAt(now: number): { mana: number; maxMana: number; stamina: number; maxStamina: number } | null {
+    const r = this.loadout?.resources;
+    if (!r) return null;
+    const elapsedSec = r.at > 0 ? Math.max(0, now - r.at) / 1000 : 0;
+    return {
+      mana: Math.min(r.maxMana, r.mana + elapsedSec * r.manaRegenPerSec),
+      maxMana: r.maxMana,
+      stamina: Math.min(r.maxStamina, r.stamina + elapsedSec * r.staminaRegenPerSec),
+      maxStamina: r.maxStamina,
+    };
+  }
+
+  /** Per-frame: cast the skill on a pressed hotkey */
+  update() {
+    const slot = SKILL_HOTKEYS.findIndex((key) => this.game.input.wasJustPressed(key));
+    if (slot >= 0) void this.castSlot(slot);
+  }
+
+  /** Cast the skill bound to a hotkey slot */
+  async castSlot(slot: number) {
+    const name = this.loadout?.skillBar[slot];
+    if (name) await this.cast(name);
+  }
+
+  async cast(skillName: string) {
+    const game = this.game;
+    if (this.casting || game.isGuest || game.mode !== "play") return;
+    if (!game.currentMapData?.combatEnabled || game.battles.isTurnBasedMap) return;
+    if (game.entityLayer.inDialogue) return;
+    const skill = this.loadout?.skills.find((s) => s.name === skillName);
+    if (!skill) return;
+    const now = Date.now();
+    if (skill.readyAt > now) {
+      game.showCombatNotification(`${skill.displayName} is recharging`, "#ffcc66");
+      return;
+    }
+    const pools = this.resourcesAt(now);
+    if (pools && pools[skill.resource] < skill.cost) {
+      game.showCombatNotification(`Not enough ${skill.resource}`, "#ffcc66");
+      return;
+    }
+
+    this.casting = true;
+    try {
+      const result = (await getConvexClient().mutation(api.mechanics.combat.useSkill, {
+        profileId: game.profile._id as any,
+        mapName: game.currentMapName,
+        skillName,
+      })) as any;
+      if (!result?.success) {
+        game.showCombatNotification(result?.reason ?? "Couldn't use that skill.", "#ffcc66");
+        return;
+      }
+      this.showResult(result);
+      if (result.stats) game.profile.stats = { ...game.profile.stats, ...result.stats };
+    } catch (err) {
+      console.warn("Skill cast failed:", err);
+      game.showCombatNotification("Couldn't use that skill.", "#ffcc66");
+    } finally {
+      this.casting = false;
+    }
+  }
+
+  private showResult(result: {
+    displayName: string;
+    animation?: string;
+    healed: number;
+    hits: SkillHit[];
+    xpGained: number;
+    droppedLoot: { itemDefName: string; quantity: number; to: "world" | "killer" }[];
+  }) {
+    const { game } = this;
+    const el = game.entityLayer;
+    if (result.hits.length === 0) {
+      el.playSkillEffect(result.animation ?? "heal", el.playerX, el.playerY);
+      game.showCombatNotification(`${result.displayName}: +${result.healed} HP`, "#66ff99");
+      return;
+    }
+    el.playSkillEffect(result.animation, el.playerX, el.playerY, 16);
+    game.audio.playOneShot("/assets/audio/hit.mp3", 0.7);
+    for (const hit of result.hits) {
+      const npc = el.getNpcByInstanceName(hit.targetInstanceName);
+      if (npc) {
+        npc.playHitEffect();
+        el.playSkillEffect(result.animation, npc.x, npc.y);
+      }
+      game.showCombatNotification(
+        hit.defeated
+          ? `${result.displayName} defeats ${hit.targetName}!`
+          : `${result.displayName} hits ${hit.targetName} for ${hit.dealt} (${hit.targetHp}/${hit.targetMaxHp})`,
+        hit.defeated ? "#66ff99" : "#ff6666",
+      );
+    }
+    if (result.xpGained > 0) game.showCombatNotification(`+${result.xpGained} XP`, "#66ff99");
+    for (const drop of result.droppedLoot) {
+      game.showCombatNotification(
+        drop.to === "killer" ? `Looted: ${drop.quantity} ${drop.itemDefName}` : `Loot dropped: ${drop.itemDefName}`,
+        "#99e6ff",
+      );
+    }
+  }
+}
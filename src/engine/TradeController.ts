@@ -0,0 +1,137 @@
+import { getConvexClient } from "../lib/convexClient.ts";
+import { api } from "../../convex/_generated/api";
+import { splashManager } from "../splash/SplashManager.ts";
+import {
+  createTradeSplash,
+  type TradeOfferInput,
+  type TradeSplash,
+  type TradeView,
+} from "../splash/screens/TradeSplash.ts";
+import type { Game } from "./Game.ts";
+
+type TradeResult = { success: true } | { success: false; reason: string };
+
+/**
+ * Client side of player-to-player trades. Watches for a trade the player
+ * is part of — one they asked for or one offered to them — and keeps
+ * TradeSplash in step with it; every change goes to
+ * convex/mechanics/trades.ts, which does the swap.
+ */
+export class TradeController {
+  private game: Game;
+  private unsub: (() => void) | null = null;
+  private splash: TradeSplash | null = null;
+  private tradeId: string | null = null;
+  /** Set while we take the splash down ourselves (the trade is already over) */
+  private ending = false;
+
+  constructor(game: Game) {
+    this.game = game;
+  }
+
+  /** Subscribe to the player's active trade (no-op for guests) */
+  start() {
+    if (this.game.isGuest || this.unsub) return;
+    this.unsub = getConvexClient().onUpdate(
+      api.mechanics.trades.getActive,
+      { profileId: this.game.profile._id as any },
+      (trade) => this.sync((trade as TradeView | null) ?? null),
+    );
+  }
+
+  stop() {
+    this.unsub?.();
+    this.unsub = null;
+    if (this.tradeId) this.close(this.tradeId);
+  }
+
+  /** Ask another player to trade; resolves to an error message, or null */
+  async request(partnerId: string): Promise<string | null> {
+    if (this.game.isGuest) return null;
+    try {
+      const result = (await getConvexClient().mutation(api.mechanics.trades.request, {
+        profileId: this.game.profile._id as any,
+        partnerId: partnerId as any,
+      })) as TradeResult;
+      return result.success ? null : result.reason;
+    } catch (err) {
+      console.warn("Trade request failed:", err);
+      return "Couldn't start the trade.";
+    }
+  }
+
+  private sync(trade: TradeView | null) {
+    if (this.tradeId && this.tradeId !== trade?.tradeId) {
+      const ended = this.tradeId;
+      this.close(ended);
+      void this.announceOutcome(ended);
+    }
+    if (!trade) return;
+    if (this.splash && this.tradeId === trade.tradeId) {
+      this.splash.update(trade);
+      return;
+    }
+    this.open(trade);
+  }
+
+  private open(trade: TradeView) {
+    const tradeId = trade.tradeId;
+    this.tradeId = tradeId;
+    this.game.entityLayer.cancelMoveTo();
+    splashManager.push({
+      id: `trade-${tradeId}`,
+      create: (props) => {
+        this.splash = createTradeSplash({
+          ...props,
+          trade,
+          onRespond: (accept) => this.send(api.mechanics.trades.respond, { tradeId, accept }),
+          onOffer: (offer: TradeOfferInput) => this.send(api.mechanics.trades.setOffer, { tradeId, offer }),
+          onConfirm: () => this.send(api.mechanics.trades.confirm, { tradeId }),
+          onCancel: () => this.send(api.mechanics.trades.cancel, { tradeId }),
+        });
+        return this.splash;
+      },
+      pausesGame: false,
+      onClose: () => {
+        this.splash = null;
+        this.tradeId = null;
+        // Dismissed by the player (Escape): walk away from the trade
+        if (!this.ending) void this.send(api.mechanics.trades.cancel, { tradeId });
+      },
+    });
+  }
+
+  private close(tradeId: string) {
+    this.ending = true;
+    splashManager.remove(`trade-${tradeId}`);
+    this.ending = false;
+    this.splash = null;
+    this.tradeId = null;
+  }
+
+  private async send(fn: any, args: Record<string, unknown>): Promise<string | null> {
+    const result = (await getConvexClient().mutation(fn, {
+      profileId: this.game.profile._id as any,
+      ...args,
+    })) as TradeResult;
+    return result.success ? null : result.reason;
+  }
+
+  /** Tell the player how a trade ended, and pick up what they received */
+  private async announceOutcome(tradeId: string) {
+    const convex = getConvexClient();
+    const profileId = this.game.profile._id as any;
+    try {
+      const outcome = await convex.query(api.mechanics.trades.getOutcome, { profileId, tradeId: tradeId as any });
+      if (outcome?.status === "completed") {
+        const inventory = await convex.query(api.mechanics.inventory.getByPlayer, { profileId });
+        if (inventory) this.game.profile.items = inventory.items;
+        this.game.showPickupNotification("Trade complete!");
+      } else if (outcome?.reason) {
+        this.game.showPickupNotification(`Trade cancelled: ${outcome.reason}`, "#ffcc66");
+      }
+    } catch (err) {
+      console.warn("Trade outcome lookup failed:", err);
+    }
+  }
+}
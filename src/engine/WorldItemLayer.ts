@@ -270,20 +270,43 @@ export class WorldItemLayer {
     return this.nearestItem?.id ?? null;
   }
 
-  /** Get the display name of the nearest item */
-  getNearestItemName(): string | null {
-    if (!this.nearestItem) return null;
-    const def = this.defCache.get(this.nearestItem.defName);
-    return def?.displayName ?? this.nearestItem.defName;
+  /** Get the display name of a rendered item */
+  getItemName(id: string): string | null {
+    const r = this.rendered.find((r) => r.id === id);
+    if (!r) return null;
+    const def = this.defCache.get(r.defName);
+    return def?.displayName ?? r.defName;
   }
 
-  /** Get pickup SFX URL for the nearest item (if defined) */
-  getNearestItemPickupSoundUrl(): string | null {
-    if (!this.nearestItem) return null;
-    const def = this.defCache.get(this.nearestItem.defName);
+  /** Get pickup SFX URL for a rendered item (if defined) */
+  getItemPickupSoundUrl(id: string): string | null {
+    const r = this.rendered.find((r) => r.id === id);
+    if (!r) return null;
+    const def = this.defCache.get(r.defName);
     return def?.pickupSoundUrl ?? null;
   }
 
+  /** Available item drawn under a canvas position, for click-to-pick-up */
+  findItemAtScreen(screenX: number, screenY: number): { id: string; x: number; y: number } | null {
+    let best: RenderedWorldItem | null = null;
+    for (const r of this.rendered) {
+      if (!r.available) continue;
+      if (!r.sprite.getBounds().containsPoint(screenX, screenY)) continue;
+      if (!best || r.baseY > best.baseY) best = r;
+    }
+    return best ? { id: best.id, x: best.baseX, y: best.baseY } : null;
+  }
+
+  /** Range within which [E] picks an item up */
+  get interactRadius(): number {
+    return ITEM_INTERACT_RADIUS;
+  }
+
+  /** Whether an item can still be picked up (click-to-move gives up otherwise) */
+  isItemAvailable(id: string): boolean {
+    return this.rendered.some((r) => r.id === id && r.available);
+  }
+
   /** Mark an item as picked up (fade it out or remove it) */
   markPickedUp(id: string, respawns: boolean) {
     const r = this.rendered.find((r) => r.id === id);
@@ -0,0 +1,220 @@
+/**
+ * Grid pathfinding for click-to-move.
+ *
+ * Client twin of convex/lib/pathfinding.ts (which steers server NPCs): A*
+ * over the collision grid, 8-way without cutting past wall corners, then
+ * smoothed to the waypoints that need a turn. Walkability comes from a
+ * callback so MapRenderer's door overrides apply as they change.
+ */
+
+export interface TilePoint {
+  x: number;
+  y: number;
+}
+
+export interface NavGrid {
+  width: number;
+  height: number;
+  /** True for walls, closed doors and anything off the map */
+  isBlocked(x: number, y: number): boolean;
+}
+
+/** Upper bound on A* node expansions per search (a click never stalls a frame) */
+export const MAX_SEARCH_NODES = 20000;
+
+/** Closest open tile within `radius` rings of `t` (itself if open), or null. */
+export function nearestOpenTile(grid: NavGrid, t: TilePoint, radius = 3): TilePoint | null {
+  if (!grid.isBlocked(t.x, t.y)) return t;
+  for (let r = 1; r <= radius; r++) {
+    let best: TilePoint | null = null;
+    let bestDist = Infinity;
+    for (let dy = -r; dy <= r; dy++) {
+      for (let dx = -r; dx <= r; dx++) {
+        if (Math.max(Math.abs(dx), Math.abs(dy)) !== r) continue;
+        if (grid.isBlocked(t.x + dx, t.y + dy)) continue;
+        const d = dx * dx + dy * dy;
+        if (d < bestDist) {
+          bestDist = d;
+          best = { x: t.x + dx, y: t.y + dy };
+        }
+      }
+    }
+    if (best) return best;
+  }
+  return null;
+}
+
+/**
+ * Whether a straight walk between two tile centres crosses only open tiles
+ * (every tile the segment touches, so corners aren't cut).
+ */
+export function hasLineOfSight(grid: NavGrid, a: TilePoint, b: TilePoint): boolean {
+  const nx = Math.abs(b.x - a.x);
+  const ny = Math.abs(b.y - a.y);
+  const sx = b.x > a.x ? 1 : -1;
+  const sy = b.y > a.y ? 1 : -1;
+  let x = a.x;
+  let y = a.y;
+  for (let ix = 0, iy = 0; ix < nx || iy < ny;) {
+    const decision = (1 + 2 * ix) * ny - (1 + 2 * iy) * nx;
+    if (decision === 0) {
+      if (grid.isBlocked(x + sx, y) || grid.isBlocked(x, y + sy)) return false;
+      x += sx;
+      y += sy;
+      ix++;
+      iy++;
+    } else if (decision < 0) {
+      x += sx;
+      ix++;
+    } else {
+      y += sy;
+      iy++;
+    }
+    if (grid.isBlocked(x, y)) return false;
+  }
+  return true;
+}
+
+const SQRT2 = Math.SQRT2;
+const DIRS: [number, number, number][] = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, SQRT2], [1, -1, SQRT2], [-1, 1, SQRT2], [-1, -1, SQRT2],
+];
+
+/** Min-heap of node indices, each with the priority it was pushed with */
+class NodeHeap {
+  private nodes: number[] = [];
+  private priorities: number[] = [];
+
+  get size() {
+    return this.nodes.length;
+  }
+
+  push(node: number, priority: number) {
+    const { nodes, priorities } = this;
+    let i = nodes.length;
+    nodes.push(node);
+    priorities.push(priority);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (priorities[parent] <= priority) break;
+      nodes[i] = nodes[parent];
+      priorities[i] = priorities[parent];
+      i = parent;
+    }
+    nodes[i] = node;
+    priorities[i] = priority;
+  }
+
+  pop(): number {
+    const { nodes, priorities } = this;
+    const top = nodes[0];
+    const lastNode = nodes.pop()!;
+    const lastPriority = priorities.pop()!;
+    const n = nodes.length;
+    if (n > 0) {
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let smallest = i;
+        let best = lastPriority;
+        if (l < n && priorities[l] < best) {
+          smallest = l;
+          best = priorities[l];
+        }
+        if (r < n && priorities[r] < best) smallest = r;
+        if (smallest === i) break;
+        nodes[i] = nodes[smallest];
+        priorities[i] = priorities[smallest];
+        i = smallest;
+      }
+      nodes[i] = lastNode;
+      priorities[i] = lastPriority;
+    }
+    return top;
+  }
+}
+
+/**
+ * Shortest tile path from `start` to `goal` (excluding start, including
+ * goal), or null when the goal is blocked, unreachable or beyond the search
+ * budget. The start tile may be blocked (a player standing in a doorway as
+ * it closes can still walk out).
+ */
+export function findPath(
+  grid: NavGrid,
+  start: TilePoint,
+  goal: TilePoint,
+  maxNodes = MAX_SEARCH_NODES,
+): TilePoint[] | null {
+  const { width, height } = grid;
+  if (start.x < 0 || start.y < 0 || start.x >= width || start.y >= height) return null;
+  if (grid.isBlocked(goal.x, goal.y)) return null;
+  if (start.x === goal.x && start.y === goal.y) return [];
+
+  const size = width * height;
+  const g = new Float64Array(size).fill(Infinity);
+  const parent = new Int32Array(size).fill(-1);
+  const closed = new Uint8Array(size);
+  const heuristic = (x: number, y: number) => {
+    const dx = Math.abs(x - goal.x);
+    const dy = Math.abs(y - goal.y);
+    return dx + dy + (SQRT2 - 2) * Math.min(dx, dy);
+  };
+
+  const startIdx = start.y * width + start.x;
+  const goalIdx = goal.y * width + goal.x;
+  g[startIdx] = 0;
+  const open = new NodeHeap();
+  open.push(startIdx, heuristic(start.x, start.y));
+
+  let expanded = 0;
+  while (open.size > 0) {
+    const cur = open.pop();
+    if (closed[cur]) continue;
+    if (cur === goalIdx) break;
+    closed[cur] = 1;
+    if (++expanded > maxNodes) return null;
+
+    const cx = cur % width;
+    const cy = (cur - cx) / width;
+    for (const [dx, dy, cost] of DIRS) {
+      const nx = cx + dx;
+      const ny = cy + dy;
+      if (grid.isBlocked(nx, ny)) continue;
+      if (dx !== 0 && dy !== 0 && (grid.isBlocked(cx + dx, cy) || grid.isBlocked(cx, cy + dy))) continue;
+      const n = ny * width + nx;
+      if (closed[n]) continue;
+      const tentative = g[cur] + cost;
+      if (tentative >= g[n]) continue;
+      g[n] = tentative;
+      parent[n] = cur;
+      open.push(n, tentative + heuristic(nx, ny));
+    }
+  }
+
+  if (parent[goalIdx] === -1) return null;
+  const path: TilePoint[] = [];
+  for (let i = goalIdx; i !== startIdx; i = parent[i]) {
+    const x = i % width;
+    path.push({ x, y: (i - x) / width });
+  }
+  return path.reverse();
+}
+
+/** Drop waypoints that can be skipped by walking straight (line of sight). */
+export function smoothPath(grid: NavGrid, start: TilePoint, path: TilePoint[]): TilePoint[] {
+  if (path.length <= 1) return path;
+  const out: TilePoint[] = [];
+  let from = start;
+  let i = 0;
+  while (i < path.length) {
+    let j = i;
+    while (j + 1 < path.length && hasLineOfSight(grid, from, path[j + 1])) j++;
+    out.push(path[j]);
+    from = path[j];
+    i = j + 1;
+  }
+  return out;
+}
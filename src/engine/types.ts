@@ -1,5 +1,7 @@
 // Shared engine type definitions
 
+import type { LootTable } from "../mechanics/LootRoller.ts";
+
 export type Direction = "up" | "down" | "left" | "right";
 
 export interface TilePosition {
@@ -31,6 +33,24 @@ export interface Portal {
   targetSpawn: string;
   direction?: string;  // facing direction on arrival
   transition?: string; // "fade" | "instant"
+  requirements?: LockRequirements; // locked portal
+}
+
+/** What it takes to open a locked door or portal (mirrors convex/lib/locks.ts) */
+export interface LockRequirements {
+  requiredItem?: string;   // item the player must carry (usually a key)
+  consumeItem?: boolean;   // use one up when unlocking
+  requiredQuest?: string;  // quest key the player has completed
+  flag?: string;           // story flag set on the player
+  minLevel?: number;
+}
+
+/** What a container map object holds (mirrors convex/lib/containers.ts) */
+export interface ContainerConfig {
+  items?: { itemDefName: string; quantity: number }[]; // fixed contents
+  lootTable?: LootTable;   // rolled on top of `items` at each fill
+  refillMs?: number;       // refill this long after the last fill (unset = filled once)
+  perPlayer?: boolean;     // everyone gets their own contents
 }
 
 export interface CombatSettings {
@@ -38,6 +58,10 @@ export interface CombatSettings {
   playerAttackCooldownMs?: number;
   npcHitCooldownMs?: number;
   damageVariancePct?: number;
+  /** "turn-based" fights hostiles in BattleSplash instead of in the world */
+  mode?: "realtime" | "turn-based";
+  /** Turn-based maps: chance (%) of a random encounter each few tiles walked */
+  encounterChancePct?: number;
 }
 
 export interface MapData {
@@ -66,6 +90,8 @@ export interface MapData {
   mapType?: string;       // "public" | "private" | "system"
   editors?: string[];     // profile IDs that can edit this map
   creatorProfileId?: string;
+  /** Last live-edit sequence included in this snapshot (collaborative editing) */
+  editSeq?: number;
 }
 
 /** Descriptor loaded from the animationUrl JSON file */
@@ -136,6 +162,10 @@ export interface ProfileData {
     spd: number;
     level: number;
     xp: number;
+    mana?: number;
+    maxMana?: number;
+    stamina?: number;
+    maxStamina?: number;
   };
   items: { name: string; quantity: number }[];
   npcsChatted: string[];
@@ -147,4 +177,4 @@ export interface ProfileData {
   createdAt: number;
 }
 
-export type AppMode = "play" | "build" | "sprite-edit" | "npc-edit" | "item-edit" | "quest-edit";
+export type AppMode = "play" | "build" | "sprite-edit" | "npc-edit" | "item-edit" | "recipe-edit" | "quest-edit";
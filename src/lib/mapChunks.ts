@@ -0,0 +1,41 @@
+/**
+ * Client-side reassembly of chunked map storage.
+ *
+ * Chunked maps (those with `chunkSize`) arrive from `maps.getByName` with
+ * empty `layers[].tiles` / `collisionMask` and a `chunks` array. Mirrors
+ * convex/lib/mapChunks.ts — layerIndex -1 is the collision mask.
+ */
+
+export const COLLISION_LAYER_INDEX = -1;
+
+export interface MapChunk {
+  layerIndex: number;
+  cx: number;
+  cy: number;
+  data: string; // JSON row-major cells, clipped at the map edge
+}
+
+/** Rebuild one flat row-major grid from the chunks of a given layer. */
+export function stitchChunks<T>(
+  chunks: MapChunk[],
+  layerIndex: number,
+  width: number,
+  height: number,
+  chunkSize: number,
+  fill: T,
+): T[] {
+  const cells = new Array<T>(width * height).fill(fill);
+  for (const chunk of chunks) {
+    if (chunk.layerIndex !== layerIndex) continue;
+    const x0 = chunk.cx * chunkSize;
+    const y0 = chunk.cy * chunkSize;
+    const w = Math.min(chunkSize, width - x0);
+    const region = JSON.parse(chunk.data) as T[];
+    for (let i = 0; i < region.length; i++) {
+      const x = x0 + (i % w);
+      const y = y0 + Math.floor(i / w);
+      if (x < width && y < height) cells[y * width + x] = region[i];
+    }
+  }
+  return cells;
+}
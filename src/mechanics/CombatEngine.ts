@@ -3,31 +3,82 @@ import { calculateDamage, type Stats } from "./StatBlock.ts";
 /**
  * Turn-based combat engine. Pure functions for resolution.
  * Can run on both client (preview) and server (authoritative).
+ *
+ * Client twin of convex/lib/combatEngine.ts, which resolves real battles;
+ * keep the rules in step.
  */
 
+/** Defending takes this fraction of incoming damage until the defender acts again */
+const DEFEND_DAMAGE_FACTOR = 0.5;
+const FLEE_BASE_CHANCE = 0.5;
+const FLEE_CHANCE_PER_SPD = 0.1;
+const FLEE_MIN_CHANCE = 0.2;
+const FLEE_MAX_CHANCE = 0.9;
+
 export interface Combatant {
   id: string;
   name: string;
   stats: Stats;
   isPlayer: boolean;
+  defending?: boolean;
+}
+
+/** The parts of a skill definition that decide what it does */
+export interface SkillEffect {
+  displayName: string;
+  kind: "damage" | "heal";
+  power: number;
+  atkScale: number;
 }
 
 export interface CombatAction {
-  type: "attack" | "defend" | "item" | "flee";
+  type: "attack" | "defend" | "item" | "skill" | "flee";
   actorId: string;
   targetId?: string;
+  /** skill: everyone it hits (area skills hit several) */
+  targetIds?: string[];
+  skill?: SkillEffect;
   itemId?: string;
+  /** item: HP change (+heals the user, -damages the target) */
+  hpDelta?: number;
+  /** flee: success chance (see fleeChance) */
+  fleeChance?: number;
 }
 
 export interface TurnResult {
   action: CombatAction;
   damage?: number;
   healing?: number;
+  fled?: boolean;
   message: string;
   actorHp: number;
   targetHp?: number;
 }
 
+/** Living combatants in acting order: fastest first, the player winning ties */
+export function turnOrder(combatants: Combatant[]): string[] {
+  return combatants
+    .map((c, index) => ({ c, index }))
+    .filter(({ c }) => c.stats.hp > 0)
+    .sort((a, b) =>
+      b.c.stats.spd - a.c.stats.spd ||
+      Number(b.c.isPlayer) - Number(a.c.isPlayer) ||
+      a.index - b.index)
+    .map(({ c }) => c.id);
+}
+
+/** ATK a damage skill strikes with (through calculateDamage), or HP a heal skill restores */
+export function skillPotency(atk: number, skill: Pick<SkillEffect, "power" | "atkScale">): number {
+  return Math.max(0, Math.round(skill.power + atk * skill.atkScale));
+}
+
+/** Chance (0–1) that fleeing succeeds, from the player's SPD against the fastest enemy */
+export function fleeChance(playerSpd: number, enemySpds: number[]): number {
+  const fastest = enemySpds.length > 0 ? Math.max(...enemySpds) : 0;
+  const chance = FLEE_BASE_CHANCE + (playerSpd - fastest) * FLEE_CHANCE_PER_SPD;
+  return Math.max(FLEE_MIN_CHANCE, Math.min(FLEE_MAX_CHANCE, chance));
+}
+
 /** Resolve a single combat turn */
 export function resolveTurn(
   action: CombatAction,
@@ -37,20 +88,23 @@ export function resolveTurn(
   if (!actor) {
     return { action, message: "Unknown actor", actorHp: 0 };
   }
+  // A combatant's guard drops when its own turn comes round again
+  actor.defending = false;
 
   switch (action.type) {
     case "attack": {
       const target = action.targetId
         ? combatants.get(action.targetId)
         : undefined;
-      if (!target) {
+      if (!target || target.stats.hp <= 0) {
         return {
           action,
           message: `${actor.name} attacks nothing!`,
           actorHp: actor.stats.hp,
         };
       }
-      const damage = calculateDamage(actor.stats.atk, target.stats.def);
+      let damage = calculateDamage(actor.stats.atk, target.stats.def);
+      if (target.defending) damage = Math.max(1, Math.floor(damage * DEFEND_DAMAGE_FACTOR));
       target.stats.hp = Math.max(0, target.stats.hp - damage);
       return {
         action,
@@ -62,22 +116,20 @@ export function resolveTurn(
     }
 
     case "defend": {
-      // Temporary defense boost (simplified: heal 10% of max)
-      const healing = Math.floor(actor.stats.maxHp * 0.1);
-      actor.stats.hp = Math.min(actor.stats.maxHp, actor.stats.hp + healing);
+      actor.defending = true;
       return {
         action,
-        healing,
-        message: `${actor.name} defends and recovers ${healing} HP.`,
+        message: `${actor.name} braces for the next blow.`,
         actorHp: actor.stats.hp,
       };
     }
 
     case "flee": {
-      const success = Math.random() < 0.5;
+      const fled = Math.random() < (action.fleeChance ?? FLEE_BASE_CHANCE);
       return {
         action,
-        message: success
+        fled,
+        message: fled
           ? `${actor.name} fled successfully!`
           : `${actor.name} failed to flee!`,
         actorHp: actor.stats.hp,
@@ -85,10 +137,64 @@ export function resolveTurn(
     }
 
     case "item": {
+      const hpDelta = action.hpDelta ?? 0;
+      if (hpDelta >= 0) {
+        const before = actor.stats.hp;
+        actor.stats.hp = Math.min(actor.stats.maxHp, actor.stats.hp + hpDelta);
+        return {
+          action,
+          healing: actor.stats.hp - before,
+          message: `${actor.name} uses an item and recovers ${actor.stats.hp - before} HP.`,
+          actorHp: actor.stats.hp,
+        };
+      }
+      const target = action.targetId ? combatants.get(action.targetId) : undefined;
+      if (!target || target.stats.hp <= 0) {
+        return { action, message: `${actor.name} throws an item at nothing!`, actorHp: actor.stats.hp };
+      }
+      target.stats.hp = Math.max(0, target.stats.hp + hpDelta);
       return {
         action,
-        message: `${actor.name} uses an item.`,
+        damage: -hpDelta,
+        message: `${actor.name} throws an item at ${target.name} for ${-hpDelta} damage!`,
+        actorHp: actor.stats.hp,
+        targetHp: target.stats.hp,
+      };
+    }
+
+    case "skill": {
+      const skill = action.skill;
+      if (!skill) return { action, message: "Unknown skill", actorHp: actor.stats.hp };
+      const potency = skillPotency(actor.stats.atk, skill);
+      if (skill.kind === "heal") {
+        const before = actor.stats.hp;
+        actor.stats.hp = Math.min(actor.stats.maxHp, actor.stats.hp + potency);
+        return {
+          action,
+          healing: actor.stats.hp - before,
+          message: `${actor.name} casts ${skill.displayName} and recovers ${actor.stats.hp - before} HP.`,
+          actorHp: actor.stats.hp,
+        };
+      }
+      const targets = (action.targetIds ?? [])
+        .map((id) => combatants.get(id))
+        .filter((t): t is Combatant => t != null && t.stats.hp > 0);
+      if (targets.length === 0) {
+        return { action, message: `${actor.name} casts ${skill.displayName} at nothing!`, actorHp: actor.stats.hp };
+      }
+      let damage = 0;
+      for (const target of targets) {
+        let dealt = calculateDamage(potency, target.stats.def);
+        if (target.defending) dealt = Math.max(1, Math.floor(dealt * DEFEND_DAMAGE_FACTOR));
+        target.stats.hp = Math.max(0, target.stats.hp - dealt);
+        damage += dealt;
+      }
+      return {
+        action,
+        damage,
+        message: `${actor.name} casts ${skill.displayName} for ${damage} damage!`,
         actorHp: actor.stats.hp,
+        targetHp: targets[0].stats.hp,
       };
     }
 
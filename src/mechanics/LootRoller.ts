@@ -1,29 +1,99 @@
 /**
  * Client-side loot preview. Server is authoritative for actual drops.
- * This is for UI display only (e.g., showing possible drops before a fight).
+ * This is for UI display only (e.g., showing possible drops before a fight,
+ * or a table's odds in the NPC editor). Mirrors convex/lib/loot.ts.
  */
 
 export interface LootTableEntry {
-  itemName: string;
-  weight: number;
+  itemDefName: string;
+  /** Relative weight; unset = by the item's rarity */
+  weight?: number;
   minQuantity: number;
   maxQuantity: number;
+  /** Always drops, outside the rolls */
+  guaranteed?: boolean;
 }
 
-/** Preview what loot might drop (client-side, not authoritative) */
-export function previewLoot(table: LootTableEntry[]): {
+export interface LootTable {
+  entries: LootTableEntry[];
+  rolls?: number;
+  nothingWeight?: number;
+  rarityWeights?: Record<string, number>;
+  dropTo?: "world" | "killer";
+}
+
+export const DEFAULT_RARITY_WEIGHTS: Record<string, number> = {
+  common: 100,
+  uncommon: 40,
+  rare: 15,
+  epic: 5,
+  legendary: 1,
+  unique: 1,
+};
+const MAX_LOOT_ROLLS = 10;
+
+function entryWeight(table: LootTable, entry: LootTableEntry, rarity: string | undefined): number {
+  if (entry.weight != null) return Math.max(0, entry.weight);
+  const weights = { ...DEFAULT_RARITY_WEIGHTS, ...table.rarityWeights };
+  return Math.max(0, weights[rarity ?? "common"] ?? weights.common ?? 0);
+}
+
+/**
+ * Preview what loot might drop (client-side, not authoritative). `chance`
+ * is the odds of an entry dropping at least once per kill. `rarityOf`
+ * gives item rarities for entries weighted by rarity (common if unknown).
+ */
+export function previewLoot(
+  table: LootTable,
+  rarityOf: (itemDefName: string) => string | undefined = () => undefined,
+): {
   item: string;
   chance: string;
   quantity: string;
 }[] {
-  const totalWeight = table.reduce((sum, e) => sum + e.weight, 0);
-
-  return table.map((entry) => ({
-    item: entry.itemName,
-    chance: `${Math.round((entry.weight / totalWeight) * 100)}%`,
-    quantity:
-      entry.minQuantity === entry.maxQuantity
-        ? `${entry.minQuantity}`
-        : `${entry.minQuantity}-${entry.maxQuantity}`,
-  }));
+  const rolls = Math.min(MAX_LOOT_ROLLS, Math.max(0, Math.floor(table.rolls ?? 1)));
+  const weights = table.entries.map((e) => (e.guaranteed ? 0 : entryWeight(table, e, rarityOf(e.itemDefName))));
+  const totalWeight = weights.reduce((sum, w) => sum + w, Math.max(0, table.nothingWeight ?? 0));
+
+  return table.entries.map((entry, i) => {
+    const perRoll = totalWeight > 0 ? weights[i] / totalWeight : 0;
+    const chance = entry.guaranteed ? 1 : 1 - Math.pow(1 - perRoll, rolls);
+    return {
+      item: entry.itemDefName,
+      chance: chance > 0 && chance < 0.01 ? "<1%" : `${Math.round(chance * 100)}%`,
+      quantity:
+        entry.minQuantity === entry.maxQuantity
+          ? `${entry.minQuantity}`
+          : `${entry.minQuantity}-${entry.maxQuantity}`,
+    };
+  });
+}
+
+/**
+ * Editor shorthand for a table's entries: "wolf-pelt:!:1-2, bone:50:1-3,
+ * ruby" → item, weight ("!" = guaranteed, blank = by rarity), quantity or
+ * min-max range (default 1)
+ */
+export function parseLootEntries(text: string): LootTableEntry[] {
+  return text.split(",").map((s) => s.trim()).filter(Boolean).map((entry) => {
+    const [itemDefName, weight, quantity] = entry.split(":").map((s) => s.trim());
+    const [min, max] = (quantity || "1").split("-").map((q) => Math.max(0, parseInt(q) || 0));
+    return {
+      itemDefName,
+      ...(weight === "!" ? { guaranteed: true } : {}),
+      ...(weight && weight !== "!" && Number.isFinite(Number(weight)) ? { weight: Number(weight) } : {}),
+      minQuantity: min,
+      maxQuantity: Math.max(min, max ?? min),
+    };
+  });
+}
+
+export function formatLootEntries(entries: LootTableEntry[]): string {
+  return entries
+    .map((e) => {
+      const quantity = e.minQuantity === e.maxQuantity ? `${e.minQuantity}` : `${e.minQuantity}-${e.maxQuantity}`;
+      const weight = e.guaranteed ? "!" : e.weight ?? "";
+      return [e.itemDefName, weight, quantity === "1" ? "" : quantity].join(":").replace(/:+$/, "");
+    })
+    .join(", ");
 }
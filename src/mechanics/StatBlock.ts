@@ -11,6 +11,11 @@ export interface Stats {
   spd: number;
   level: number;
   xp: number;
+  /** Skill resources (mana for spells, stamina for techniques) */
+  mana: number;
+  maxMana: number;
+  stamina: number;
+  maxStamina: number;
 }
 
 export function defaultStats(): Stats {
@@ -22,6 +27,10 @@ export function defaultStats(): Stats {
     spd: 5,
     level: 1,
     xp: 0,
+    mana: 30,
+    maxMana: 30,
+    stamina: 50,
+    maxStamina: 50,
   };
 }
 
@@ -64,6 +73,10 @@ export function checkLevelUp(stats: Stats): Stats | null {
       atk: stats.atk + 2,
       def: stats.def + 1,
       spd: stats.spd + 1,
+      maxMana: stats.maxMana + 5,
+      mana: stats.maxMana + 5,
+      maxStamina: stats.maxStamina + 5,
+      stamina: stats.maxStamina + 5,
     };
   }
   return null;
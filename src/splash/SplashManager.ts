@@ -35,6 +35,15 @@ class SplashManagerImpl {
     this.notify();
   }
 
+  /** Remove a splash by id, wherever it sits in the stack */
+  remove(id: string) {
+    const target = this.stack.find((s) => s.id === id);
+    if (!target) return;
+    this.stack = this.stack.filter((s) => s !== target);
+    target.onClose?.();
+    this.notify();
+  }
+
   /** Replace the top splash with a new one */
   replace(config: SplashConfig) {
     if (this.stack.length === 0) {
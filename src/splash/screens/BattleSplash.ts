@@ -1,25 +1,109 @@
 /**
  * Battle splash – turn-based combat UI.
+ *
+ * Renders a server battle (combat.startEncounter / startNpcEncounter /
+ * checkEncounter) and plays a round per chosen action via `onAction`; the
+ * server resolves everything, this only shows the result.
  */
 import type { SplashScreen, SplashScreenCallbacks } from "../SplashTypes.ts";
 
-export interface Combatant {
+export interface BattleEffectView {
+  type: string;
+  label: string;
+  icon: string;
+  stacks: number;
+  /** Timestamp for the player, round number for enemies */
+  expiresAt: number;
+}
+
+export interface BattleCombatantView {
   name: string;
   hp: number;
   maxHp: number;
-  atk: number;
-  def: number;
+  defending: boolean;
+  effects?: BattleEffectView[];
+}
+
+export interface BattleEnemyView extends BattleCombatantView {
+  level: number;
+  spd: number;
+}
+
+export interface BattleTurnView {
+  actor: string;
+  action: string;
+  target?: string;
+  damage?: number;
+  heal?: number;
+  round?: number;
+  message?: string;
+}
+
+export interface BattleItemView {
+  name: string;
+  displayName: string;
+  quantity: number;
+  hpDelta: number;
+  /** Status effects it applies (types) */
+  effects?: string[];
+}
+
+export interface BattleSkillView {
+  name: string;
+  displayName: string;
+  kind: "damage" | "heal";
+  area: "single" | "circle" | "cone" | "self";
+  resource: "mana" | "stamina";
+  cost: number;
+  /** First round the skill can be used again */
+  readyRound: number;
+}
+
+/** Mirrors the battle view returned by convex/mechanics/combat.ts */
+export interface BattleState {
+  encounterId: string;
+  status: "active" | "victory" | "defeat" | "flee";
+  round: number;
+  player: BattleCombatantView & { atk: number; def: number; spd: number };
+  enemies: BattleEnemyView[];
+  /** Combatant ids in acting order: "player" | "enemy:<index>" */
+  turnOrder: string[];
+  fleeChance: number;
+  turns: BattleTurnView[];
+  granted: { xp: number; items: { name: string; quantity: number }[]; currency: Record<string, number> } | null;
+  items: BattleItemView[];
+  skills: BattleSkillView[];
+  resources: { mana: number; maxMana: number; stamina: number; maxStamina: number };
 }
 
+export type BattleActionInput =
+  | { type: "attack"; target?: number }
+  | { type: "defend" }
+  | { type: "item"; itemName: string; target?: number }
+  | { type: "skill"; skillName: string; target?: number }
+  | { type: "flee" };
+
 export interface BattleSplashProps extends SplashScreenCallbacks {
-  player: Combatant;
-  enemies: Combatant[];
-  onAction?: (action: string, targetIndex?: number) => void;
+  battle: BattleState;
+  /** Play a round; resolves to the updated battle, or an error message */
+  onAction: (action: BattleActionInput) => Promise<BattleState | string>;
 }
 
+const OUTCOME_TEXT: Record<BattleState["status"], string> = {
+  active: "",
+  victory: "Victory!",
+  defeat: "Defeated… you come to, battered.",
+  flee: "You got away.",
+};
+
 export function createBattleSplash(props: BattleSplashProps): SplashScreen {
-  const { player, enemies, onAction, onClose } = props;
-  const log: string[] = ["Battle begins!"];
+  const { onAction, onClose } = props;
+  let battle = props.battle;
+  let target = battle.enemies.findIndex((e) => e.hp > 0);
+  let busy = false;
+  let itemMenuOpen = false;
+  let skillMenuOpen = false;
+  const log: string[] = [battle.round > 0 ? "The battle continues!" : "Battle begins!"];
 
   const el = document.createElement("div");
   el.style.cssText =
@@ -28,78 +112,239 @@ export function createBattleSplash(props: BattleSplashProps): SplashScreen {
   const card = document.createElement("div");
   card.style.cssText =
     "background:var(--bg-surface);border:1px solid var(--border);border-radius:var(--radius-lg);" +
-    "padding:24px;min-width:500px;";
+    "padding:24px;min-width:500px;max-width:720px;";
 
   const title = document.createElement("h2");
-  title.style.cssText = "font-size:18px;font-weight:600;margin-bottom:16px;text-align:center;";
-  title.textContent = "Battle";
+  title.style.cssText = "font-size:18px;font-weight:600;margin-bottom:8px;text-align:center;";
   card.appendChild(title);
 
-  // Enemies
+  // Turn order
+  const orderEl = document.createElement("div");
+  orderEl.style.cssText = "font-size:11px;color:var(--text-muted);text-align:center;margin-bottom:16px;";
+  card.appendChild(orderEl);
+
+  // Enemies (click to target)
   const enemyRow = document.createElement("div");
-  enemyRow.style.cssText = "display:flex;gap:16px;justify-content:center;margin-bottom:20px;";
-  for (const e of enemies) {
-    const box = document.createElement("div");
-    box.style.cssText =
-      "text-align:center;padding:12px;background:var(--bg-hover);border-radius:var(--radius-sm);min-width:100px;";
-    box.innerHTML =
-      `<div style="font-size:14px;font-weight:500">${e.name}</div>` +
-      `<div style="font-size:12px;color:var(--danger)">HP: ${e.hp}/${e.maxHp}</div>`;
-    enemyRow.appendChild(box);
-  }
+  enemyRow.style.cssText = "display:flex;gap:16px;justify-content:center;flex-wrap:wrap;margin-bottom:20px;";
   card.appendChild(enemyRow);
 
   // Player
   const playerBox = document.createElement("div");
   playerBox.style.cssText =
     "text-align:center;padding:12px;background:var(--bg-hover);border-radius:var(--radius-sm);margin-bottom:16px;";
-  playerBox.innerHTML =
-    `<div style="font-size:14px;font-weight:500">${player.name}</div>` +
-    `<div style="font-size:12px;color:var(--success)">HP: ${player.hp}/${player.maxHp}</div>`;
   card.appendChild(playerBox);
 
   // Actions
   const actions = document.createElement("div");
-  actions.style.cssText = "display:flex;gap:8px;justify-content:center;margin-bottom:16px;";
-  for (const action of ["Attack", "Defend", "Item", "Flee"]) {
-    const btn = document.createElement("button");
-    btn.style.cssText =
-      `padding:8px 18px;background:${action === "Flee" ? "var(--warning)" : "var(--accent)"};` +
-      "border-radius:var(--radius-sm);color:white;font-size:13px;cursor:pointer;border:none;";
-    btn.textContent = action;
-    btn.addEventListener("click", () => {
-      onAction?.(action.toLowerCase(), 0);
-      log.push(`You used ${action}!`);
-      renderLog();
-    });
-    actions.appendChild(btn);
-  }
+  actions.style.cssText = "display:flex;gap:8px;justify-content:center;margin-bottom:8px;";
   card.appendChild(actions);
 
+  const itemMenu = document.createElement("div");
+  itemMenu.style.cssText = "display:none;gap:6px;justify-content:center;flex-wrap:wrap;margin-bottom:8px;";
+  card.appendChild(itemMenu);
+
+  const skillMenu = document.createElement("div");
+  skillMenu.style.cssText = "display:none;gap:6px;justify-content:center;flex-wrap:wrap;margin-bottom:8px;";
+  card.appendChild(skillMenu);
+
   // Log
   const logEl = document.createElement("div");
   logEl.style.cssText =
-    "max-height:100px;overflow-y:auto;padding:8px;background:var(--bg-primary);" +
+    "max-height:120px;overflow-y:auto;padding:8px;margin-top:8px;background:var(--bg-primary);" +
     "border-radius:var(--radius-sm);font-size:12px;font-family:var(--font-mono);color:var(--text-secondary);";
-
-  function renderLog() {
-    logEl.innerHTML = log.map((m) => `<div>${m}</div>`).join("");
-    logEl.scrollTop = logEl.scrollHeight;
-  }
-  renderLog();
   card.appendChild(logEl);
 
-  // End battle (debug)
-  const endBtn = document.createElement("button");
-  endBtn.style.cssText =
-    "margin-top:12px;padding:6px 14px;background:none;border:1px solid var(--border);" +
-    "border-radius:var(--radius-sm);color:var(--text-muted);font-size:12px;cursor:pointer;display:block;margin-left:auto;";
-  endBtn.textContent = "End Battle (debug)";
-  endBtn.addEventListener("click", () => onClose());
-  card.appendChild(endBtn);
+  // Outcome
+  const outcomeEl = document.createElement("div");
+  outcomeEl.style.cssText = "display:none;margin-top:12px;text-align:center;";
+  card.appendChild(outcomeEl);
 
   el.appendChild(card);
 
+  function hpBar(hp: number, maxHp: number, color: string): string {
+    const pct = maxHp > 0 ? Math.max(0, Math.min(100, (hp / maxHp) * 100)) : 0;
+    return (
+      `<div style="height:6px;background:var(--bg-primary);border-radius:3px;margin:4px 0;overflow:hidden">` +
+      `<div style="height:100%;width:${pct}%;background:${color}"></div></div>` +
+      `<div style="font-size:12px;color:${color}">HP: ${hp}/${maxHp}</div>`
+    );
+  }
+
+  /** Effect icons with stacks and what's left, e.g. "☠2 3r" */
+  function effectBadges(effects: BattleEffectView[] | undefined, remaining: (e: BattleEffectView) => string): string {
+    if (!effects || effects.length === 0) return "";
+    const badges = effects.map((e) =>
+      `<span title="${e.label}" style="margin:0 3px">${e.icon}${e.stacks > 1 ? e.stacks : ""} ` +
+      `<span style="color:var(--text-muted)">${remaining(e)}</span></span>`);
+    return `<div style="font-size:11px;margin-top:2px">${badges.join("")}</div>`;
+  }
+
+  function combatantName(id: string): string {
+    if (id === "player") return battle.player.name;
+    const index = Number(id.split(":")[1]);
+    return battle.enemies[index]?.name ?? id;
+  }
+
+  function button(label: string, color: string, onClick: () => void): HTMLButtonElement {
+    const btn = document.createElement("button");
+    btn.style.cssText =
+      `padding:8px 18px;background:${color};border-radius:var(--radius-sm);color:white;` +
+      "font-size:13px;cursor:pointer;border:none;";
+    btn.textContent = label;
+    btn.disabled = busy;
+    if (busy) btn.style.opacity = "0.5";
+    btn.addEventListener("click", onClick);
+    return btn;
+  }
+
+  async function act(action: BattleActionInput) {
+    if (busy || battle.status !== "active") return;
+    busy = true;
+    itemMenuOpen = false;
+    skillMenuOpen = false;
+    render();
+    try {
+      const result = await onAction(action);
+      if (typeof result === "string") {
+        log.push(result);
+      } else {
+        battle = result;
+        for (const turn of battle.turns) log.push(turn.message ?? `${turn.actor} used ${turn.action}`);
+        const current = battle.enemies[target];
+        if (!current || current.hp <= 0) target = battle.enemies.findIndex((e) => e.hp > 0);
+      }
+    } catch (err) {
+      log.push(err instanceof Error ? err.message : String(err));
+    }
+    busy = false;
+    render();
+  }
+
+  function render() {
+    const active = battle.status === "active";
+    title.textContent = active ? `Battle — Round ${battle.round + 1}` : "Battle";
+    orderEl.textContent = active && battle.turnOrder.length > 0
+      ? `Turn order: ${battle.turnOrder.map(combatantName).join(" → ")}`
+      : "";
+
+    enemyRow.innerHTML = "";
+    battle.enemies.forEach((e, i) => {
+      const box = document.createElement("div");
+      const selected = active && i === target;
+      box.style.cssText =
+        "text-align:center;padding:12px;background:var(--bg-hover);border-radius:var(--radius-sm);min-width:110px;" +
+        `border:2px solid ${selected ? "var(--accent)" : "transparent"};` +
+        `opacity:${e.hp > 0 ? 1 : 0.4};cursor:${active && e.hp > 0 ? "pointer" : "default"};`;
+      box.innerHTML =
+        `<div style="font-size:14px;font-weight:500">${e.name}</div>` +
+        `<div style="font-size:11px;color:var(--text-muted)">Lv ${e.level}${e.defending ? " · guarding" : ""}</div>` +
+        hpBar(e.hp, e.maxHp, "var(--danger)") +
+        effectBadges(e.effects, (effect) => `${Math.max(0, effect.expiresAt - battle.round)}r`);
+      if (active && e.hp > 0) {
+        box.addEventListener("click", () => {
+          target = i;
+          render();
+        });
+      }
+      enemyRow.appendChild(box);
+    });
+
+    const p = battle.player;
+    playerBox.innerHTML =
+      `<div style="font-size:14px;font-weight:500">${p.name}${p.defending ? " · guarding" : ""}</div>` +
+      hpBar(p.hp, p.maxHp, "var(--success)") +
+      effectBadges(p.effects, (effect) => `${Math.max(0, Math.ceil((effect.expiresAt - Date.now()) / 1000))}s`) +
+      `<div style="font-size:11px;color:var(--text-muted)">` +
+      `MP ${Math.floor(battle.resources.mana)}/${battle.resources.maxMana} · ` +
+      `SP ${Math.floor(battle.resources.stamina)}/${battle.resources.maxStamina}</div>` +
+      `<div style="font-size:11px;color:var(--text-muted)">ATK ${p.atk} · DEF ${p.def} · SPD ${p.spd}</div>`;
+
+    actions.innerHTML = "";
+    actions.style.display = active ? "flex" : "none";
+    if (active) {
+      actions.append(
+        button("Attack", "var(--accent)", () => void act({ type: "attack", target })),
+        button("Defend", "var(--accent)", () => void act({ type: "defend" })),
+        button(`Item${battle.items.length > 0 ? "" : " (none)"}`, "var(--accent)", () => {
+          if (busy || battle.items.length === 0) return;
+          itemMenuOpen = !itemMenuOpen;
+          skillMenuOpen = false;
+          render();
+        }),
+        button(`Skill${battle.skills.length > 0 ? "" : " (none)"}`, "var(--accent)", () => {
+          if (busy || battle.skills.length === 0) return;
+          skillMenuOpen = !skillMenuOpen;
+          itemMenuOpen = false;
+          render();
+        }),
+        button(`Flee (${Math.round(battle.fleeChance * 100)}%)`, "var(--warning)", () => void act({ type: "flee" })),
+      );
+    }
+
+    itemMenu.innerHTML = "";
+    itemMenu.style.display = active && itemMenuOpen ? "flex" : "none";
+    for (const item of battle.items) {
+      const parts: string[] = [];
+      if (item.hpDelta > 0) parts.push(`+${item.hpDelta} HP`);
+      else if (item.hpDelta < 0) parts.push(`${item.hpDelta} HP to target`);
+      parts.push(...(item.effects ?? []));
+      const effect = parts.join(", ");
+      itemMenu.appendChild(
+        button(`${item.displayName} ×${item.quantity} (${effect})`, "var(--bg-hover)", () =>
+          void act({ type: "item", itemName: item.name, target })),
+      );
+    }
+
+    skillMenu.innerHTML = "";
+    skillMenu.style.display = active && skillMenuOpen ? "flex" : "none";
+    for (const skill of battle.skills) {
+      // The round about to be played is battle.round + 1
+      const recharging = skill.readyRound > battle.round + 1;
+      const affordable = battle.resources[skill.resource] >= skill.cost;
+      const cost = `${skill.cost} ${skill.resource === "mana" ? "MP" : "SP"}`;
+      const btn = button(
+        `${skill.displayName} (${recharging ? `ready round ${skill.readyRound}` : cost})`,
+        "var(--bg-hover)",
+        () => void act({ type: "skill", skillName: skill.name, target }),
+      );
+      if (recharging || !affordable) {
+        btn.disabled = true;
+        btn.style.opacity = "0.5";
+      }
+      skillMenu.appendChild(btn);
+    }
+
+    logEl.innerHTML = "";
+    for (const line of log) {
+      const row = document.createElement("div");
+      row.textContent = line;
+      logEl.appendChild(row);
+    }
+    logEl.scrollTop = logEl.scrollHeight;
+
+    outcomeEl.innerHTML = "";
+    outcomeEl.style.display = active ? "none" : "block";
+    if (!active) {
+      const heading = document.createElement("div");
+      heading.style.cssText = "font-size:16px;font-weight:600;margin-bottom:6px;";
+      heading.textContent = OUTCOME_TEXT[battle.status];
+      outcomeEl.appendChild(heading);
+      const g = battle.granted;
+      if (g) {
+        const parts = [`+${g.xp} XP`];
+        for (const item of g.items) parts.push(`${item.name} ×${item.quantity}`);
+        for (const [currency, amount] of Object.entries(g.currency)) parts.push(`${amount} ${currency}`);
+        const rewards = document.createElement("div");
+        rewards.style.cssText = "font-size:13px;color:var(--text-secondary);margin-bottom:10px;";
+        rewards.textContent = parts.join(" · ");
+        outcomeEl.appendChild(rewards);
+      }
+      outcomeEl.appendChild(button("Continue", "var(--accent)", () => onClose()));
+    }
+  }
+
+  render();
+
   return {
     el,
     destroy() { el.remove(); },
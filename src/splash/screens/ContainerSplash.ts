@@ -0,0 +1,141 @@
+/**
+ * Container splash – what's in an opened chest / barrel / bookshelf, with a
+ * take button per stack and a take-all button. Server state arrives through
+ * `update()`.
+ */
+import type { SplashScreen, SplashScreenCallbacks } from "../SplashTypes.ts";
+
+/** What convex/mechanics/containers.getContents returns */
+export interface ContainerView {
+  title: string;
+  items: { itemDefName: string; displayName: string; quantity: number }[];
+  /** When it refills, or null if it never does */
+  refillsAt: number | null;
+}
+
+export interface ContainerSplashProps extends SplashScreenCallbacks {
+  view: ContainerView;
+  /** Take one stack (or everything when `itemDefName` is omitted); resolves to an error message, or null */
+  onTake: (itemDefName?: string) => Promise<string | null>;
+}
+
+export interface ContainerSplash extends SplashScreen {
+  update(view: ContainerView): void;
+}
+
+const BTN =
+  "padding:5px 14px;border-radius:var(--radius-sm);font-size:13px;cursor:pointer;border:none;color:white;";
+
+function formatWait(ms: number): string {
+  const minutes = Math.ceil(ms / 60_000);
+  return minutes >= 60 ? `${Math.round(minutes / 6) / 10}h` : `${minutes}m`;
+}
+
+export function createContainerSplash(props: ContainerSplashProps): ContainerSplash {
+  const { onTake, onClose } = props;
+  let view = props.view;
+  let busy = false;
+
+  const el = document.createElement("div");
+  el.style.cssText =
+    "display:flex;flex-direction:column;align-items:center;justify-content:center;width:100vw;height:100vh;";
+
+  const card = document.createElement("div");
+  card.style.cssText =
+    "background:var(--bg-surface);border:1px solid var(--border);border-radius:var(--radius-lg);" +
+    "padding:24px 32px;min-width:360px;max-width:480px;";
+  el.appendChild(card);
+
+  // Header
+  const header = document.createElement("div");
+  header.style.cssText = "display:flex;justify-content:space-between;align-items:center;margin-bottom:16px;";
+  const h2 = document.createElement("h2");
+  h2.style.cssText = "font-size:18px;font-weight:600;text-transform:capitalize;";
+  const closeBtn = document.createElement("button");
+  closeBtn.style.cssText = "background:none;color:var(--text-muted);font-size:20px;cursor:pointer;border:none;";
+  closeBtn.textContent = "\u00D7";
+  closeBtn.addEventListener("click", onClose);
+  header.append(h2, closeBtn);
+  card.appendChild(header);
+
+  const list = document.createElement("div");
+  list.style.cssText = "display:flex;flex-direction:column;gap:6px;max-height:360px;overflow-y:auto;";
+  card.appendChild(list);
+
+  const footer = document.createElement("div");
+  footer.style.cssText = "display:flex;justify-content:space-between;align-items:center;margin-top:14px;gap:12px;";
+  const note = document.createElement("div");
+  note.style.cssText = "font-size:12px;color:var(--text-muted);";
+  const takeAllBtn = document.createElement("button");
+  takeAllBtn.textContent = "Take All";
+  takeAllBtn.addEventListener("click", () => void take());
+  footer.append(note, takeAllBtn);
+  card.appendChild(footer);
+
+  const status = document.createElement("div");
+  status.style.cssText = "font-size:12px;color:var(--danger, #e74c3c);margin-top:10px;min-height:16px;";
+  card.appendChild(status);
+
+  async function take(itemDefName?: string) {
+    if (busy) return;
+    busy = true;
+    status.textContent = "";
+    render();
+    try {
+      const error = await onTake(itemDefName);
+      if (error) status.textContent = error;
+    } catch (err: any) {
+      status.textContent = err?.message ?? "Something went wrong.";
+    } finally {
+      busy = false;
+      render();
+    }
+  }
+
+  function render() {
+    h2.textContent = view.title;
+    list.innerHTML = "";
+    if (view.items.length === 0) {
+      const empty = document.createElement("div");
+      empty.style.cssText = "font-size:13px;color:var(--text-muted);";
+      empty.textContent = "It's empty.";
+      list.appendChild(empty);
+    }
+    for (const item of view.items) {
+      const row = document.createElement("div");
+      row.style.cssText =
+        "display:flex;justify-content:space-between;align-items:center;gap:12px;" +
+        "padding:8px 12px;background:var(--bg-hover);border-radius:var(--radius-sm);";
+      const name = document.createElement("div");
+      name.style.cssText = "font-size:14px;";
+      name.textContent = `${item.displayName} \u00D7${item.quantity}`;
+      const btn = document.createElement("button");
+      btn.style.cssText = BTN + `background:var(--accent);opacity:${busy ? "0.5" : "1"};flex-shrink:0;`;
+      btn.textContent = "Take";
+      btn.disabled = busy;
+      btn.addEventListener("click", () => void take(item.itemDefName));
+      row.append(name, btn);
+      list.appendChild(row);
+    }
+
+    const canTakeAll = !busy && view.items.length > 0;
+    takeAllBtn.style.cssText = BTN + `background:var(--accent);opacity:${canTakeAll ? "1" : "0.5"};`;
+    takeAllBtn.disabled = !canTakeAll;
+    note.textContent = view.refillsAt != null
+      ? `Refills in ${formatWait(Math.max(0, view.refillsAt - Date.now()))}`
+      : "";
+  }
+
+  render();
+
+  return {
+    el,
+    update(next: ContainerView) {
+      view = next;
+      render();
+    },
+    destroy() {
+      el.remove();
+    },
+  };
+}
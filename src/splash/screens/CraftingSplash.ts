@@ -0,0 +1,203 @@
+/**
+ * Crafting splash – the recipes the player knows, what each takes and
+ * makes, with a craft button per recipe and a progress bar for timed
+ * crafts. Server state arrives through `update()`.
+ */
+import type { SplashScreen, SplashScreenCallbacks } from "../SplashTypes.ts";
+
+export interface RecipeLineView {
+  itemDefName: string;
+  displayName: string;
+  quantity: number;
+  /** Inputs only: how many the player carries */
+  have?: number;
+}
+
+export interface RecipeView {
+  name: string;
+  displayName: string;
+  description: string;
+  inputs: RecipeLineView[];
+  outputs: RecipeLineView[];
+  station: string | null;
+  craftTimeMs: number;
+  /** Why it can't be made right now, or null */
+  blocked: string | null;
+}
+
+/** What convex/mechanics/crafting.getRecipes returns */
+export interface CraftingView {
+  station: { kind: string; isOn: boolean } | null;
+  recipes: RecipeView[];
+  crafting: { recipeName: string; readyAt: number } | null;
+}
+
+export interface CraftingSplashProps extends SplashScreenCallbacks {
+  view: CraftingView;
+  /** Resolves to an error message, or null */
+  onCraft: (recipeName: string) => Promise<string | null>;
+}
+
+export interface CraftingSplash extends SplashScreen {
+  update(view: CraftingView): void;
+}
+
+const BTN =
+  "padding:5px 14px;border-radius:var(--radius-sm);font-size:13px;cursor:pointer;border:none;color:white;";
+
+function formatSeconds(ms: number): string {
+  return `${Math.ceil(ms / 100) / 10}s`;
+}
+
+export function createCraftingSplash(props: CraftingSplashProps): CraftingSplash {
+  const { onCraft, onClose } = props;
+  let view = props.view;
+  let busy = false;
+  let progressTimer: number | null = null;
+
+  const el = document.createElement("div");
+  el.style.cssText =
+    "display:flex;flex-direction:column;align-items:center;justify-content:center;width:100vw;height:100vh;";
+
+  const card = document.createElement("div");
+  card.style.cssText =
+    "background:var(--bg-surface);border:1px solid var(--border);border-radius:var(--radius-lg);" +
+    "padding:24px 32px;min-width:420px;max-width:560px;";
+  el.appendChild(card);
+
+  // Header
+  const header = document.createElement("div");
+  header.style.cssText = "display:flex;justify-content:space-between;align-items:center;margin-bottom:16px;";
+  const h2 = document.createElement("h2");
+  h2.style.cssText = "font-size:18px;font-weight:600;text-transform:capitalize;";
+  const closeBtn = document.createElement("button");
+  closeBtn.style.cssText = "background:none;color:var(--text-muted);font-size:20px;cursor:pointer;border:none;";
+  closeBtn.textContent = "\u00D7";
+  closeBtn.addEventListener("click", onClose);
+  header.append(h2, closeBtn);
+  card.appendChild(header);
+
+  const list = document.createElement("div");
+  list.style.cssText = "display:flex;flex-direction:column;gap:8px;max-height:420px;overflow-y:auto;";
+  card.appendChild(list);
+
+  const status = document.createElement("div");
+  status.style.cssText = "font-size:12px;color:var(--danger, #e74c3c);margin-top:10px;min-height:16px;";
+  card.appendChild(status);
+
+  async function craft(recipeName: string) {
+    if (busy) return;
+    busy = true;
+    status.textContent = "";
+    render();
+    try {
+      const error = await onCraft(recipeName);
+      if (error) status.textContent = error;
+    } catch (err: any) {
+      status.textContent = err?.message ?? "Something went wrong.";
+    } finally {
+      busy = false;
+      render();
+    }
+  }
+
+  function lines(items: RecipeLineView[], withHave: boolean) {
+    return items
+      .map((i) => (withHave ? `${i.displayName} ${i.have ?? 0}/${i.quantity}` : `${i.displayName} \u00D7${i.quantity}`))
+      .join(", ");
+  }
+
+  function progressBar(readyAt: number, craftTimeMs: number) {
+    const track = document.createElement("div");
+    track.style.cssText = "height:6px;background:var(--bg-hover);border-radius:3px;margin-top:6px;overflow:hidden;";
+    const fill = document.createElement("div");
+    const left = Math.max(0, readyAt - Date.now());
+    const done = craftTimeMs > 0 ? 1 - left / craftTimeMs : 1;
+    fill.style.cssText = `height:100%;width:${Math.round(done * 100)}%;background:var(--accent);`;
+    track.appendChild(fill);
+    return track;
+  }
+
+  function recipeRow(recipe: RecipeView) {
+    const pending = view.crafting?.recipeName === recipe.name ? view.crafting : null;
+    const row = document.createElement("div");
+    row.style.cssText =
+      "padding:10px 12px;background:var(--bg-hover);border-radius:var(--radius-sm);" +
+      `opacity:${recipe.blocked && !pending ? "0.6" : "1"};`;
+
+    const top = document.createElement("div");
+    top.style.cssText = "display:flex;justify-content:space-between;align-items:center;gap:12px;";
+    const info = document.createElement("div");
+    const name = document.createElement("div");
+    name.style.cssText = "font-size:14px;font-weight:600;";
+    name.textContent = recipe.displayName;
+    const makes = document.createElement("div");
+    makes.style.cssText = "font-size:12px;color:var(--text-secondary);";
+    makes.textContent = `Makes ${lines(recipe.outputs, false)}`;
+    const needs = document.createElement("div");
+    needs.style.cssText = "font-size:12px;color:var(--text-muted);";
+    needs.textContent = recipe.inputs.length > 0 ? `Needs ${lines(recipe.inputs, true)}` : "Needs nothing";
+    info.append(name, makes, needs);
+    if (recipe.description) info.title = recipe.description;
+
+    const btn = document.createElement("button");
+    const enabled = !busy && !pending && !recipe.blocked;
+    btn.style.cssText = BTN + `background:var(--accent);opacity:${enabled ? "1" : "0.5"};flex-shrink:0;`;
+    btn.textContent = pending
+      ? "Crafting\u2026"
+      : recipe.craftTimeMs > 0 ? `Craft (${formatSeconds(recipe.craftTimeMs)})` : "Craft";
+    btn.disabled = !enabled;
+    btn.addEventListener("click", () => void craft(recipe.name));
+    top.append(info, btn);
+    row.appendChild(top);
+
+    if (pending) {
+      row.appendChild(progressBar(pending.readyAt, recipe.craftTimeMs));
+    } else if (recipe.blocked) {
+      const why = document.createElement("div");
+      why.style.cssText = "font-size:11px;color:var(--text-muted);margin-top:4px;";
+      why.textContent = recipe.blocked;
+      row.appendChild(why);
+    }
+    return row;
+  }
+
+  function render() {
+    h2.textContent = view.station ? view.station.kind : "Crafting";
+    list.innerHTML = "";
+    if (view.recipes.length === 0) {
+      const empty = document.createElement("div");
+      empty.style.cssText = "font-size:13px;color:var(--text-muted);";
+      empty.textContent = "You don't know any recipes yet.";
+      list.appendChild(empty);
+    }
+    // What can be made here first
+    const sorted = [...view.recipes].sort((a, b) => Number(!!a.blocked) - Number(!!b.blocked));
+    for (const recipe of sorted) list.appendChild(recipeRow(recipe));
+
+    // Keep a timed craft's bar moving until it finishes
+    if (view.crafting && progressTimer == null) {
+      progressTimer = window.setInterval(() => {
+        if (!view.crafting) {
+          window.clearInterval(progressTimer!);
+          progressTimer = null;
+        }
+        render();
+      }, 250);
+    }
+  }
+
+  render();
+
+  return {
+    el,
+    update(next: CraftingView) {
+      view = next;
+      render();
+    },
+    destroy() {
+      if (progressTimer != null) window.clearInterval(progressTimer);
+      el.remove();
+    },
+  };
+}
@@ -1,5 +1,5 @@
 /**
- * Inventory splash – grid of item slots with use/drop.
+ * Inventory splash – grid of item slots with use/equip/drop.
  */
 import type { SplashScreen, SplashScreenCallbacks } from "../SplashTypes.ts";
 
@@ -8,16 +8,19 @@ export interface InventorySlot {
   quantity: number;
   type: string;
   description?: string;
+  /** Set for gear (itemDefs.equipSlot) */
+  equipSlot?: string;
 }
 
 export interface InventorySplashProps extends SplashScreenCallbacks {
   slots: InventorySlot[];
   onUse?: (index: number) => void;
   onDrop?: (index: number) => void;
+  onEquip?: (index: number) => void;
 }
 
 export function createInventorySplash(props: InventorySplashProps): SplashScreen {
-  const { slots, onUse, onDrop, onClose } = props;
+  const { slots, onUse, onDrop, onEquip, onClose } = props;
 
   const el = document.createElement("div");
   el.style.cssText =
@@ -67,13 +70,20 @@ export function createInventorySplash(props: InventorySplashProps): SplashScreen
       const useBtn = document.createElement("button");
       useBtn.style.cssText = "padding:2px 8px;background:var(--accent);color:white;border-radius:2px;font-size:11px;cursor:pointer;border:none;";
       useBtn.textContent = "Use";
-      useBtn.addEventListener("click", () => onUse?.(i));
 
       const dropBtn = document.createElement("button");
       dropBtn.style.cssText = "padding:2px 8px;background:var(--danger);color:white;border-radius:2px;font-size:11px;cursor:pointer;border:none;";
       dropBtn.textContent = "Drop";
       dropBtn.addEventListener("click", () => onDrop?.(i));
 
+      if (slot.equipSlot) {
+        useBtn.textContent = "Equip";
+        useBtn.title = `Wear in ${slot.equipSlot} slot`;
+        useBtn.addEventListener("click", () => onEquip?.(i));
+      } else {
+        useBtn.addEventListener("click", () => onUse?.(i));
+      }
+
       btns.append(useBtn, dropBtn);
       cell.append(name, meta, btns);
       grid.appendChild(cell);
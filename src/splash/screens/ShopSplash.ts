@@ -1,7 +1,8 @@
 /**
- * Shop splash – item list with buy buttons.
+ * Shop splash – buy and sell lists with wallet balances.
  */
 import type { SplashScreen, SplashScreenCallbacks } from "../SplashTypes.ts";
+import { canAfford, formatCurrency } from "../../mechanics/Economy.ts";
 
 export interface ShopItem {
   name: string;
@@ -11,15 +12,38 @@ export interface ShopItem {
   stock?: number;
 }
 
+/** Something of the player's the shop will buy */
+export interface ShopSellItem {
+  name: string;
+  price: number;
+  currency: string;
+  quantity: number;
+}
+
+/** What the splash shows; buy / sell callbacks resolve to a fresh one */
+export interface ShopState {
+  items: ShopItem[];
+  sellItems?: ShopSellItem[];
+  playerCurrency?: Record<string, number>;
+}
+
+/** A fresh shop after a trade, or an error message */
+export type ShopTradeResult = ShopState | string;
+
 export interface ShopSplashProps extends SplashScreenCallbacks {
   shopName?: string;
   items: ShopItem[];
+  sellItems?: ShopSellItem[];
   playerCurrency?: Record<string, number>;
-  onBuy?: (index: number) => void;
+  onBuy?: (index: number) => void | Promise<ShopTradeResult>;
+  onSell?: (index: number) => void | Promise<ShopTradeResult>;
 }
 
 export function createShopSplash(props: ShopSplashProps): SplashScreen {
-  const { shopName, items, playerCurrency, onBuy, onClose } = props;
+  const { shopName, onBuy, onSell, onClose } = props;
+  let state: ShopState = { items: props.items, sellItems: props.sellItems, playerCurrency: props.playerCurrency };
+  let tab: "buy" | "sell" = "buy";
+  let busy = false;
 
   const el = document.createElement("div");
   el.style.cssText =
@@ -44,46 +68,133 @@ export function createShopSplash(props: ShopSplashProps): SplashScreen {
   card.appendChild(header);
 
   // Currency display
-  if (playerCurrency) {
-    const cur = document.createElement("div");
-    cur.style.cssText = "font-size:13px;color:var(--text-secondary);margin-bottom:16px;";
-    cur.textContent = Object.entries(playerCurrency).map(([k, v]) => `${k}: ${v}`).join(" | ");
-    card.appendChild(cur);
-  }
+  const cur = document.createElement("div");
+  cur.style.cssText = "font-size:13px;color:var(--text-secondary);margin-bottom:16px;";
+  card.appendChild(cur);
+
+  // Buy / Sell tabs (only when the shop buys things back)
+  const tabs = document.createElement("div");
+  tabs.style.cssText = "display:flex;gap:8px;margin-bottom:12px;";
+  const tabBtn = (label: string, which: "buy" | "sell") => {
+    const btn = document.createElement("button");
+    btn.textContent = label;
+    btn.addEventListener("click", () => {
+      tab = which;
+      render();
+    });
+    return btn;
+  };
+  const buyTab = tabBtn("Buy", "buy");
+  const sellTab = tabBtn("Sell", "sell");
+  tabs.append(buyTab, sellTab);
+  card.appendChild(tabs);
 
   // Items
   const list = document.createElement("div");
-  list.style.cssText = "display:flex;flex-direction:column;gap:8px;";
-  items.forEach((item, i) => {
-    const row = document.createElement("div");
-    row.style.cssText =
+  list.style.cssText = "display:flex;flex-direction:column;gap:8px;max-height:50vh;overflow-y:auto;";
+  card.appendChild(list);
+
+  const status = document.createElement("div");
+  status.style.cssText = "font-size:12px;color:var(--danger, #e74c3c);margin-top:10px;min-height:16px;";
+  card.appendChild(status);
+  el.appendChild(card);
+
+  async function trade(handler: ShopSplashProps["onBuy"], index: number) {
+    if (busy || !handler) return;
+    busy = true;
+    status.textContent = "";
+    try {
+      const result = await handler(index);
+      if (typeof result === "string") status.textContent = result;
+      else if (result) state = result;
+    } catch (err: any) {
+      status.textContent = err?.message ?? "Something went wrong.";
+    } finally {
+      busy = false;
+      render();
+    }
+  }
+
+  function row(title: string, detail: string | undefined, button: HTMLButtonElement) {
+    const r = document.createElement("div");
+    r.style.cssText =
       "display:flex;justify-content:space-between;align-items:center;padding:10px 14px;" +
       "background:var(--bg-hover);border-radius:var(--radius-sm);";
 
     const info = document.createElement("div");
     const nameEl = document.createElement("div");
     nameEl.style.cssText = "font-size:14px;font-weight:500;";
-    nameEl.textContent = item.name;
+    nameEl.textContent = title;
     info.appendChild(nameEl);
-    if (item.description) {
+    if (detail) {
       const desc = document.createElement("div");
       desc.style.cssText = "font-size:12px;color:var(--text-muted);";
-      desc.textContent = item.description;
+      desc.textContent = detail;
       info.appendChild(desc);
     }
+    r.append(info, button);
+    return r;
+  }
 
-    const buyBtn = document.createElement("button");
-    buyBtn.style.cssText =
+  function priceButton(label: string, enabled: boolean) {
+    const btn = document.createElement("button");
+    btn.style.cssText =
       "padding:6px 14px;background:var(--accent);border-radius:var(--radius-sm);" +
-      "color:white;font-size:13px;cursor:pointer;border:none;";
-    buyBtn.textContent = `${item.price} ${item.currency}`;
-    buyBtn.addEventListener("click", () => onBuy?.(i));
+      `color:white;font-size:13px;border:none;cursor:${enabled ? "pointer" : "not-allowed"};` +
+      `opacity:${enabled ? "1" : "0.5"};`;
+    btn.textContent = label;
+    btn.disabled = !enabled;
+    return btn;
+  }
 
-    row.append(info, buyBtn);
-    list.appendChild(row);
-  });
-  card.appendChild(list);
-  el.appendChild(card);
+  function render() {
+    const wallet = state.playerCurrency;
+    cur.style.display = wallet ? "" : "none";
+    if (wallet) {
+      const entries = Object.entries(wallet);
+      cur.textContent = entries.length > 0
+        ? entries.map(([k, v]) => `${k}: ${v}`).join(" | ")
+        : "Your purse is empty";
+    }
+
+    tabs.style.display = onSell ? "flex" : "none";
+    for (const [btn, which] of [[buyTab, "buy"], [sellTab, "sell"]] as const) {
+      btn.style.cssText =
+        "padding:4px 12px;border-radius:var(--radius-sm);font-size:12px;cursor:pointer;border:1px solid var(--border);" +
+        (tab === which ? "background:var(--accent);color:white;" : "background:none;color:var(--text-secondary);");
+    }
+
+    list.innerHTML = "";
+    if (tab === "buy") {
+      state.items.forEach((item, i) => {
+        const soldOut = item.stock === 0;
+        const affordable = !wallet || canAfford(wallet, item.price, item.currency);
+        const btn = priceButton(
+          soldOut ? "Sold out" : formatCurrency(item.price, item.currency),
+          !busy && !soldOut && affordable,
+        );
+        btn.addEventListener("click", () => void trade(onBuy, i));
+        const stockNote = item.stock != null ? `${item.stock} left` : undefined;
+        const detail = [item.description, stockNote].filter(Boolean).join(" · ");
+        list.appendChild(row(item.name, detail || undefined, btn));
+      });
+    } else {
+      const sellItems = state.sellItems ?? [];
+      if (sellItems.length === 0) {
+        const empty = document.createElement("div");
+        empty.style.cssText = "font-size:13px;color:var(--text-muted);text-align:center;padding:12px;";
+        empty.textContent = "You have nothing this shop wants.";
+        list.appendChild(empty);
+      }
+      sellItems.forEach((item, i) => {
+        const btn = priceButton(`Sell for ${formatCurrency(item.price, item.currency)}`, !busy);
+        btn.addEventListener("click", () => void trade(onSell, i));
+        list.appendChild(row(item.name, `You have ${item.quantity}`, btn));
+      });
+    }
+  }
+
+  render();
 
   return {
     el,
@@ -0,0 +1,277 @@
+/**
+ * Trade splash – two players' offers side by side, with confirm / cancel.
+ * Server state arrives through `update()`; every change goes back out
+ * through the callbacks.
+ */
+import type { SplashScreen, SplashScreenCallbacks } from "../SplashTypes.ts";
+
+export interface TradeItemView {
+  itemDefName: string;
+  name: string;
+  quantity: number;
+}
+
+export interface TradeOfferView {
+  items: TradeItemView[];
+  currency: Record<string, number>;
+  confirmed: boolean;
+}
+
+/** A trade as the player sees it (convex/mechanics/trades.getActive) */
+export interface TradeView {
+  tradeId: string;
+  status: "pending" | "open";
+  isInitiator: boolean;
+  partnerName: string;
+  mine: TradeOfferView;
+  theirs: TradeOfferView;
+  /** What the player could put up */
+  inventory: TradeItemView[];
+  wallet: Record<string, number>;
+}
+
+/** What the player puts on the table */
+export interface TradeOfferInput {
+  items: { itemDefName: string; quantity: number }[];
+  currency: Record<string, number>;
+}
+
+export interface TradeSplashProps extends SplashScreenCallbacks {
+  trade: TradeView;
+  /** Each resolves to an error message, or null */
+  onRespond: (accept: boolean) => Promise<string | null>;
+  onOffer: (offer: TradeOfferInput) => Promise<string | null>;
+  onConfirm: () => Promise<string | null>;
+  onCancel: () => Promise<string | null>;
+}
+
+export interface TradeSplash extends SplashScreen {
+  update(trade: TradeView): void;
+}
+
+const BTN =
+  "padding:6px 14px;border-radius:var(--radius-sm);font-size:13px;cursor:pointer;border:none;color:white;";
+
+export function createTradeSplash(props: TradeSplashProps): TradeSplash {
+  const { onRespond, onOffer, onConfirm, onCancel } = props;
+  let trade = props.trade;
+  let busy = false;
+
+  const el = document.createElement("div");
+  el.style.cssText =
+    "display:flex;flex-direction:column;align-items:center;justify-content:center;width:100vw;height:100vh;";
+
+  const card = document.createElement("div");
+  card.style.cssText =
+    "background:var(--bg-surface);border:1px solid var(--border);border-radius:var(--radius-lg);" +
+    "padding:24px 32px;min-width:480px;max-width:640px;";
+  el.appendChild(card);
+
+  // Header
+  const header = document.createElement("div");
+  header.style.cssText = "display:flex;justify-content:space-between;align-items:center;margin-bottom:16px;";
+  const h2 = document.createElement("h2");
+  h2.style.cssText = "font-size:18px;font-weight:600;";
+  const closeBtn = document.createElement("button");
+  closeBtn.style.cssText = "background:none;color:var(--text-muted);font-size:20px;cursor:pointer;border:none;";
+  closeBtn.textContent = "\u00D7";
+  closeBtn.title = "Cancel trade";
+  closeBtn.addEventListener("click", () => void run(onCancel));
+  header.append(h2, closeBtn);
+  card.appendChild(header);
+
+  const body = document.createElement("div");
+  card.appendChild(body);
+
+  const status = document.createElement("div");
+  status.style.cssText = "font-size:12px;color:var(--danger, #e74c3c);margin-top:10px;min-height:16px;";
+  card.appendChild(status);
+
+  async function run(action: () => Promise<string | null>) {
+    if (busy) return;
+    busy = true;
+    status.textContent = "";
+    try {
+      const error = await action();
+      if (error) status.textContent = error;
+    } catch (err: any) {
+      status.textContent = err?.message ?? "Something went wrong.";
+    } finally {
+      busy = false;
+      render();
+    }
+  }
+
+  function button(label: string, color: string, onClick: () => void, enabled = true) {
+    const btn = document.createElement("button");
+    btn.style.cssText = BTN + `background:${color};opacity:${enabled && !busy ? "1" : "0.5"};`;
+    btn.textContent = label;
+    btn.disabled = !enabled || busy;
+    btn.addEventListener("click", onClick);
+    return btn;
+  }
+
+  /** The player's current offer as input, with one change applied */
+  function offerWith(change: (offer: TradeOfferInput) => void): TradeOfferInput {
+    const offer: TradeOfferInput = {
+      items: trade.mine.items.map((i) => ({ itemDefName: i.itemDefName, quantity: i.quantity })),
+      currency: { ...trade.mine.currency },
+    };
+    change(offer);
+    offer.items = offer.items.filter((i) => i.quantity > 0);
+    return offer;
+  }
+
+  function changeItem(itemDefName: string, delta: number) {
+    void run(() => onOffer(offerWith((offer) => {
+      const existing = offer.items.find((i) => i.itemDefName === itemDefName);
+      if (existing) existing.quantity += delta;
+      else offer.items.push({ itemDefName, quantity: delta });
+    })));
+  }
+
+  function offerColumn(title: string, offer: TradeOfferView, editable: boolean) {
+    const col = document.createElement("div");
+    col.style.cssText =
+      "flex:1;padding:10px 12px;background:var(--bg-hover);border-radius:var(--radius-sm);min-height:120px;" +
+      (offer.confirmed ? "outline:2px solid var(--success, #2ecc71);" : "");
+    const head = document.createElement("div");
+    head.style.cssText = "font-size:13px;font-weight:600;margin-bottom:8px;";
+    head.textContent = offer.confirmed ? `${title} \u2713` : title;
+    col.appendChild(head);
+
+    const currency = Object.entries(offer.currency);
+    if (offer.items.length === 0 && currency.length === 0) {
+      const empty = document.createElement("div");
+      empty.style.cssText = "font-size:12px;color:var(--text-muted);";
+      empty.textContent = "Nothing yet";
+      col.appendChild(empty);
+    }
+    for (const item of offer.items) {
+      const line = document.createElement("div");
+      line.style.cssText = "display:flex;justify-content:space-between;align-items:center;font-size:13px;margin-bottom:4px;";
+      line.textContent = `${item.name} \u00D7${item.quantity}`;
+      if (editable) {
+        const minus = document.createElement("button");
+        minus.style.cssText = "background:none;border:none;color:var(--text-muted);cursor:pointer;font-size:14px;";
+        minus.textContent = "\u2212";
+        minus.disabled = busy;
+        minus.addEventListener("click", () => changeItem(item.itemDefName, -1));
+        line.appendChild(minus);
+      }
+      col.appendChild(line);
+    }
+    for (const [name, amount] of currency) {
+      const line = document.createElement("div");
+      line.style.cssText = "font-size:13px;color:var(--text-secondary);";
+      line.textContent = `${amount} ${name}`;
+      col.appendChild(line);
+    }
+    return col;
+  }
+
+  function renderPending() {
+    const text = document.createElement("p");
+    text.style.cssText = "font-size:14px;margin-bottom:16px;";
+    const actions = document.createElement("div");
+    actions.style.cssText = "display:flex;gap:8px;justify-content:flex-end;";
+    if (trade.isInitiator) {
+      text.textContent = `Waiting for ${trade.partnerName} to accept\u2026`;
+      actions.appendChild(button("Cancel", "var(--danger)", () => void run(onCancel)));
+    } else {
+      text.textContent = `${trade.partnerName} wants to trade with you.`;
+      actions.append(
+        button("Decline", "var(--danger)", () => void run(() => onRespond(false))),
+        button("Accept", "var(--accent)", () => void run(() => onRespond(true))),
+      );
+    }
+    body.append(text, actions);
+  }
+
+  function renderOpen() {
+    const offers = document.createElement("div");
+    offers.style.cssText = "display:flex;gap:12px;margin-bottom:16px;";
+    offers.append(
+      offerColumn("Your offer", trade.mine, true),
+      offerColumn(`${trade.partnerName}'s offer`, trade.theirs, false),
+    );
+    body.appendChild(offers);
+
+    // What the player can add
+    const pickLabel = document.createElement("div");
+    pickLabel.style.cssText = "font-size:12px;color:var(--text-muted);margin-bottom:6px;";
+    pickLabel.textContent = "Click an item to add one to your offer";
+    const picker = document.createElement("div");
+    picker.style.cssText = "display:flex;flex-wrap:wrap;gap:6px;max-height:120px;overflow-y:auto;margin-bottom:12px;";
+    for (const item of trade.inventory) {
+      const offered = trade.mine.items.find((i) => i.itemDefName === item.itemDefName)?.quantity ?? 0;
+      const left = item.quantity - offered;
+      const chip = document.createElement("button");
+      chip.style.cssText =
+        "padding:4px 8px;font-size:12px;border-radius:var(--radius-sm);border:1px solid var(--border);" +
+        `background:var(--bg-hover);color:var(--text-primary, inherit);cursor:pointer;opacity:${left > 0 ? "1" : "0.4"};`;
+      chip.textContent = `${item.name} \u00D7${left}`;
+      chip.disabled = busy || left <= 0;
+      chip.addEventListener("click", () => changeItem(item.itemDefName, 1));
+      picker.appendChild(chip);
+    }
+    if (trade.inventory.length === 0) {
+      pickLabel.textContent = "You have nothing to trade";
+    }
+    body.append(pickLabel, picker);
+
+    // Currency amounts
+    const currencies = Object.keys({ ...trade.wallet, ...trade.mine.currency });
+    for (const name of currencies) {
+      const row = document.createElement("label");
+      row.style.cssText = "display:flex;align-items:center;gap:8px;font-size:13px;margin-bottom:8px;";
+      const input = document.createElement("input");
+      input.type = "number";
+      input.min = "0";
+      input.max = String(trade.wallet[name] ?? 0);
+      input.value = String(trade.mine.currency[name] ?? 0);
+      input.style.cssText = "width:90px;";
+      input.disabled = busy;
+      input.addEventListener("change", () => {
+        const amount = Math.max(0, Math.floor(Number(input.value) || 0));
+        void run(() => onOffer(offerWith((offer) => {
+          if (amount > 0) offer.currency[name] = amount;
+          else delete offer.currency[name];
+        })));
+      });
+      row.append(`${name} (you have ${trade.wallet[name] ?? 0})`, input);
+      body.appendChild(row);
+    }
+
+    const note = document.createElement("div");
+    note.style.cssText = "font-size:12px;color:var(--text-muted);margin:8px 0;";
+    note.textContent = trade.mine.confirmed
+      ? `Waiting for ${trade.partnerName} to confirm\u2026`
+      : "Changing either offer clears both confirmations.";
+    const actions = document.createElement("div");
+    actions.style.cssText = "display:flex;gap:8px;justify-content:flex-end;";
+    actions.append(
+      button("Cancel", "var(--danger)", () => void run(onCancel)),
+      button("Confirm", "var(--accent)", () => void run(onConfirm), !trade.mine.confirmed),
+    );
+    body.append(note, actions);
+  }
+
+  function render() {
+    h2.textContent = `Trade with ${trade.partnerName}`;
+    body.innerHTML = "";
+    if (trade.status === "pending") renderPending();
+    else renderOpen();
+  }
+
+  render();
+
+  return {
+    el,
+    update(next: TradeView) {
+      trade = next;
+      render();
+    },
+    destroy() { el.remove(); },
+  };
+}
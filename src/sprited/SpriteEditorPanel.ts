@@ -65,6 +65,8 @@ interface SavedSpriteDef {
   onAnimation?: string;
   offAnimation?: string;
   onSoundUrl?: string;
+  craftingStation?: string;
+  container?: boolean;
   // Door
   isDoor?: boolean;
   doorClosedAnimation?: string;
@@ -134,6 +136,8 @@ export class SpriteEditorPanel {
   private onAnimInput!: HTMLInputElement;
   private offAnimInput!: HTMLInputElement;
   private onSoundSelect!: HTMLSelectElement;
+  private craftingStationInput!: HTMLInputElement;
+  private containerCheck!: HTMLInputElement;
 
   // Door form fields
   private doorFieldsWrap!: HTMLElement;
@@ -378,6 +382,18 @@ export class SpriteEditorPanel {
     this.onSoundSelect = this.buildSoundSelect();
     onSoundField.append(onSoundLabel, this.onSoundSelect);
     toggleAnimWrap.appendChild(onSoundField);
+    this.craftingStationInput = this.addFormField(toggleAnimWrap, "Crafting Station (e.g. forge; blank = none)", "text", "") as HTMLInputElement;
+
+    const containerField = document.createElement("div");
+    containerField.className = "sprite-editor-field sprite-editor-field-row";
+    this.containerCheck = document.createElement("input");
+    this.containerCheck.type = "checkbox";
+    this.containerCheck.id = "container-check";
+    const containerLabel = document.createElement("label");
+    containerLabel.htmlFor = "container-check";
+    containerLabel.textContent = "Container (opens to take items; fill it in the map editor)";
+    containerField.append(this.containerCheck, containerLabel);
+    toggleAnimWrap.appendChild(containerField);
 
     this.toggleFieldsWrap.appendChild(toggleAnimWrap);
     form.appendChild(this.toggleFieldsWrap);
@@ -785,6 +801,8 @@ export class SpriteEditorPanel {
     this.onAnimInput.value = "";
     this.offAnimInput.value = "";
     this.onSoundSelect.value = "";
+    this.craftingStationInput.value = "";
+    this.containerCheck.checked = false;
     (this.toggleFieldsWrap.querySelector(".sprite-editor-toggle-anim-fields") as HTMLElement).style.display = "none";
 
     // Reset NPC fields
@@ -821,6 +839,8 @@ export class SpriteEditorPanel {
     this.onAnimInput.value = def.onAnimation ?? "";
     this.offAnimInput.value = def.offAnimation ?? "";
     this.onSoundSelect.value = def.onSoundUrl ?? "";
+    this.craftingStationInput.value = def.craftingStation ?? "";
+    this.containerCheck.checked = !!def.container;
     (this.toggleFieldsWrap.querySelector(".sprite-editor-toggle-anim-fields") as HTMLElement).style.display =
       def.toggleable ? "" : "none";
 
@@ -906,11 +926,15 @@ export class SpriteEditorPanel {
           onAnimation: this.onAnimInput.value || undefined,
           offAnimation: this.offAnimInput.value || undefined,
           onSoundUrl: this.onSoundSelect.value || undefined,
+          craftingStation: this.craftingStationInput.value.trim().toLowerCase() || undefined,
+          container: this.containerCheck.checked || undefined,
         } : {
           toggleable: undefined,
           onAnimation: undefined,
           offAnimation: undefined,
           onSoundUrl: undefined,
+          craftingStation: undefined,
+          container: undefined,
         }),
         // Door
         ...(this.doorCheck.checked ? {
@@ -1,19 +1,57 @@
 /**
  * CharacterPanel – displays and allows editing of the current player's
- * character sprite, stats, items, and other profile info.
+ * character sprite, stats, equipment, items, and other profile info.
  */
 import { getConvexClient } from "../lib/convexClient.ts";
 import { api } from "../../convex/_generated/api";
 import type { Game } from "../engine/Game.ts";
+import { SKILL_HOTKEYS, type SkillLoadout } from "../engine/SkillController.ts";
 import type { ProfileData } from "../engine/types.ts";
 import type { Id } from "../../convex/_generated/dataModel";
 import "./CharacterPanel.css";
 
+/** What the panel needs to know about an inventory item's definition */
+type ItemMeta = {
+  type: string;
+  displayName: string;
+  consumeHpDelta?: number;
+  effects?: string[];
+  equipSlot?: string;
+  levelRequirement?: number;
+};
+
+type GearBonuses = { atk: number; def: number; spd: number; maxHp: number };
+
+/** Mirrors mechanics/equipment.getEquipment */
+type EquipmentView = {
+  slots: {
+    slot: string;
+    item: { name: string; displayName: string; bonuses: GearBonuses } | null;
+  }[];
+  bonuses: GearBonuses;
+};
+
 /** XP required for a given level (simple curve) */
 function xpForLevel(level: number): number {
   return level * 100;
 }
 
+/** "+5 HP, regen" — what using a consumable does */
+/** "+3 ATK, +1 DEF" */
+function describeBonuses(bonuses: GearBonuses): string {
+  const parts: string[] = [];
+  if (bonuses.atk) parts.push(`${bonuses.atk > 0 ? "+" : ""}${bonuses.atk} ATK`);
+  if (bonuses.def) parts.push(`${bonuses.def > 0 ? "+" : ""}${bonuses.def} DEF`);
+  if (bonuses.spd) parts.push(`${bonuses.spd > 0 ? "+" : ""}${bonuses.spd} SPD`);
+  if (bonuses.maxHp) parts.push(`${bonuses.maxHp > 0 ? "+" : ""}${bonuses.maxHp} Max HP`);
+  return parts.join(", ");
+}
+
+function describeConsumable(hpDelta: number | undefined, effects: string[]): string {
+  const parts = hpDelta ? [`${hpDelta > 0 ? "+" : ""}${hpDelta} HP`] : [];
+  return [...parts, ...effects].join(", ");
+}
+
 export class CharacterPanel {
   readonly el: HTMLElement;
 
@@ -33,15 +71,23 @@ export class CharacterPanel {
   private xpBarFill!: HTMLElement;
   private statsGrid!: HTMLElement;
   private itemsGrid!: HTMLElement;
+  private skillsList!: HTMLElement;
+  private equipmentGrid!: HTMLElement;
   private npcList!: HTMLElement;
   private mapInfo!: HTMLElement;
   private saveBtn!: HTMLButtonElement;
   private itemUseStatusEl!: HTMLElement;
   // Editing state (admin)
   private editedStats: ProfileData["stats"] | null = null;
-  private itemDefsByName = new Map<string, { type: string; displayName: string; consumeHpDelta?: number }>();
+  private itemDefsByName = new Map<string, ItemMeta>();
   private itemDefsLoadedKey = "";
   private consumingItem = false;
+  /** Item name → display name of the skill it teaches */
+  private skillTeachers = new Map<string, string>();
+  private recipeTeachers = new Map<string, string>();
+  private loadoutUnsub: (() => void) | null = null;
+  private equipment: EquipmentView | null = null;
+  private equipmentUnsub: (() => void) | null = null;
 
   // Sprite animation
   private spriteCanvas: HTMLCanvasElement | null = null;
@@ -96,6 +142,8 @@ export class CharacterPanel {
   hide() { this.toggle(false); }
   destroy() {
     this.stopSpriteAnim();
+    this.loadoutUnsub?.();
+    this.equipmentUnsub?.();
     this.el.remove();
   }
 
@@ -164,6 +212,15 @@ export class CharacterPanel {
     this.saveBtn.style.display = "none";
     this.saveBtn.addEventListener("click", () => this.saveStats());
 
+    // Equipment
+    const equipmentSection = document.createElement("div");
+    const equipmentTitle = document.createElement("div");
+    equipmentTitle.className = "char-section-title";
+    equipmentTitle.textContent = "Equipment";
+    this.equipmentGrid = document.createElement("div");
+    this.equipmentGrid.className = "char-equipment-grid";
+    equipmentSection.append(equipmentTitle, this.equipmentGrid);
+
     // Items
     const itemsSection = document.createElement("div");
     const itemsTitle = document.createElement("div");
@@ -175,6 +232,15 @@ export class CharacterPanel {
     this.itemsGrid.className = "char-items-grid";
     itemsSection.append(itemsTitle, this.itemUseStatusEl, this.itemsGrid);
 
+    // Skills
+    const skillsSection = document.createElement("div");
+    const skillsTitle = document.createElement("div");
+    skillsTitle.className = "char-section-title";
+    skillsTitle.textContent = "Skills";
+    this.skillsList = document.createElement("div");
+    this.skillsList.className = "char-skills-list";
+    skillsSection.append(skillsTitle, this.skillsList);
+
     // NPCs chatted
     const npcSection = document.createElement("div");
     const npcTitle = document.createElement("div");
@@ -188,7 +254,7 @@ export class CharacterPanel {
     this.mapInfo = document.createElement("div");
     this.mapInfo.className = "char-map-info";
 
-    body.append(xpSection, statsSection, this.saveBtn, itemsSection, npcSection, this.mapInfo);
+    body.append(xpSection, statsSection, this.saveBtn, equipmentSection, itemsSection, skillsSection, npcSection, this.mapInfo);
 
     this.panel.append(header, body);
   }
@@ -202,6 +268,18 @@ export class CharacterPanel {
     this.toggleBtn.style.display = "none";
     this.panel.style.display = "";
     this.refresh();
+    this.loadoutUnsub = this.game?.skills.onChange((loadout) => this.renderSkills(loadout)) ?? null;
+    if (this.profile && !this.game?.isGuest) {
+      this.equipmentUnsub = getConvexClient().onUpdate(
+        api.mechanics.equipment.getEquipment,
+        { profileId: this.profile._id as Id<"profiles"> },
+        (equipment) => {
+          this.equipment = equipment as EquipmentView | null;
+          this.renderEquipment();
+          if (this.profile) this.renderStats(this.profile.stats);
+        },
+      );
+    }
   }
 
   private close() {
@@ -210,6 +288,10 @@ export class CharacterPanel {
     this.toggleBtn.style.display = "";
     this.editedStats = null;
     this.stopSpriteAnim();
+    this.loadoutUnsub?.();
+    this.loadoutUnsub = null;
+    this.equipmentUnsub?.();
+    this.equipmentUnsub = null;
   }
 
   /* ------------------------------------------------------------------ */
@@ -270,7 +352,7 @@ export class CharacterPanel {
   private renderStats(stats: ProfileData["stats"]) {
     this.statsGrid.innerHTML = "";
 
-    const statDefs: { key: keyof ProfileData["stats"]; label: string; color: string; max: number }[] = [
+    const statDefs: { key: "hp" | "atk" | "def" | "spd"; label: string; color: string; max: number }[] = [
       { key: "hp", label: "HP", color: "hp", max: stats.maxHp || 100 },
       { key: "atk", label: "ATK", color: "atk", max: 50 },
       { key: "def", label: "DEF", color: "def", max: 50 },
@@ -315,7 +397,11 @@ export class CharacterPanel {
       } else {
         const valueEl = document.createElement("span");
         valueEl.className = "char-stat-value";
-        valueEl.textContent = def.key === "hp" ? `${val}/${stats.maxHp}` : String(val);
+        const gear = def.key === "hp" ? 0 : this.equipment?.bonuses[def.key] ?? 0;
+        valueEl.textContent = def.key === "hp"
+          ? `${val}/${stats.maxHp}`
+          : gear ? `${val + gear} (${gear > 0 ? "+" : ""}${gear})` : String(val);
+        if (gear) valueEl.title = `${val} base, ${gear > 0 ? "+" : ""}${gear} from equipment`;
         row.append(label, track, valueEl);
       }
 
@@ -346,6 +432,34 @@ export class CharacterPanel {
     }
   }
 
+  /* ------------------------------------------------------------------ */
+  /*  Equipment                                                          */
+  /* ------------------------------------------------------------------ */
+
+  private renderEquipment() {
+    this.equipmentGrid.innerHTML = "";
+    for (const { slot, item } of this.equipment?.slots ?? []) {
+      const el = document.createElement("div");
+      el.className = `char-equip-slot${item ? " char-equip-slot--filled" : ""}`;
+
+      const slotEl = document.createElement("span");
+      slotEl.className = "char-equip-slot-name";
+      slotEl.textContent = slot;
+
+      const itemEl = document.createElement("span");
+      itemEl.className = "char-equip-item";
+      itemEl.textContent = item?.displayName ?? "\u2013";
+
+      el.append(slotEl, itemEl);
+      if (item) {
+        const bonuses = describeBonuses(item.bonuses);
+        el.title = `${bonuses ? `${bonuses} \u00B7 ` : ""}Click to unequip`;
+        el.addEventListener("click", () => this.unequipSlot(slot));
+      }
+      this.equipmentGrid.appendChild(el);
+    }
+  }
+
   /* ------------------------------------------------------------------ */
   /*  Items rendering                                                    */
   /* ------------------------------------------------------------------ */
@@ -367,13 +481,32 @@ export class CharacterPanel {
       const meta = this.itemDefsByName.get(item.name);
       const consumeHpDelta =
         meta?.type === "consumable" ? meta.consumeHpDelta : undefined;
+      const consumeEffects = meta?.type === "consumable" ? meta.effects ?? [] : [];
       const isConsumableClickable =
-        consumeHpDelta != null && consumeHpDelta !== 0;
+        (consumeHpDelta != null && consumeHpDelta !== 0) || consumeEffects.length > 0;
+      const teachesSkill = this.skillTeachers.get(item.name);
+      const teachesRecipe = this.recipeTeachers.get(item.name);
+      const equipSlot = meta?.equipSlot;
       if (isConsumableClickable) {
         el.classList.add("char-item--consumable");
-        const sign = consumeHpDelta > 0 ? "+" : "";
-        el.title = `Click to use (${sign}${consumeHpDelta} HP)`;
+        el.title = `Click to use (${describeConsumable(consumeHpDelta, consumeEffects)})`;
         el.addEventListener("click", () => this.consumeItem(item.name));
+      } else if (teachesSkill) {
+        el.classList.add("char-item--consumable");
+        el.title = `Click to learn ${teachesSkill}`;
+        el.addEventListener("click", () => this.learnSkill(item.name));
+      } else if (teachesRecipe) {
+        el.classList.add("char-item--consumable");
+        el.title = `Click to learn the recipe for ${teachesRecipe}`;
+        el.addEventListener("click", () => this.learnRecipe(item.name));
+      } else if (equipSlot) {
+        const level = this.profile?.stats.level ?? 1;
+        const tooLow = meta.levelRequirement != null && level < meta.levelRequirement;
+        el.classList.add("char-item--equippable");
+        el.title = tooLow
+          ? `Requires level ${meta.levelRequirement}`
+          : `Click to equip (${equipSlot})`;
+        el.addEventListener("click", () => this.equipItem(item.name));
       }
 
       const nameEl = document.createElement("span");
@@ -388,8 +521,9 @@ export class CharacterPanel {
       if (isConsumableClickable) {
         const effectEl = document.createElement("span");
         effectEl.className = "char-item-effect";
-        const sign = consumeHpDelta > 0 ? "+" : "";
-        effectEl.textContent = `${sign}${consumeHpDelta}HP`;
+        effectEl.textContent = consumeHpDelta
+          ? `${consumeHpDelta > 0 ? "+" : ""}${consumeHpDelta}HP`
+          : consumeEffects.join(", ");
         el.appendChild(effectEl);
       }
 
@@ -422,19 +556,33 @@ export class CharacterPanel {
 
     try {
       const convex = getConvexClient();
+      const skillDefs = await convex.query(api.skills.list, {});
+      this.skillTeachers = new Map(
+        skillDefs.filter((s) => s.learnItem).map((s) => [s.learnItem!, s.displayName]),
+      );
+      const recipes = await convex.query(api.recipes.list, {});
+      this.recipeTeachers = new Map(
+        recipes.filter((r) => r.learnItem).map((r) => [r.learnItem!, r.displayName]),
+      );
       const defs = (await convex.query(api.items.list, {})) as Array<{
         name: string;
         type: string;
         displayName: string;
         consumeHpDelta?: number;
+        effects?: { type: string }[];
+        equipSlot?: string;
+        levelRequirement?: number;
       }>;
-      const byName = new Map<string, { type: string; displayName: string; consumeHpDelta?: number }>();
+      const byName = new Map<string, ItemMeta>();
       for (const def of defs) {
         if (names.includes(def.name)) {
           byName.set(def.name, {
             type: def.type,
             displayName: def.displayName,
             consumeHpDelta: def.consumeHpDelta,
+            effects: def.effects?.map((e) => e.type),
+            equipSlot: def.equipSlot,
+            levelRequirement: def.levelRequirement,
           });
         }
       }
@@ -448,6 +596,46 @@ export class CharacterPanel {
   }
 
 
+  /* ------------------------------------------------------------------ */
+  /*  Skills list                                                        */
+  /* ------------------------------------------------------------------ */
+
+  private renderSkills(loadout: SkillLoadout | null) {
+    this.skillsList.innerHTML = "";
+    if (!loadout || loadout.skills.length === 0) {
+      const empty = document.createElement("div");
+      empty.className = "char-items-empty";
+      empty.textContent = "No skills yet";
+      this.skillsList.appendChild(empty);
+      return;
+    }
+    for (const skill of loadout.skills) {
+      const row = document.createElement("div");
+      row.className = "char-skill-row";
+      row.title = skill.description;
+
+      const nameEl = document.createElement("span");
+      nameEl.className = "char-skill-name";
+      nameEl.textContent = skill.displayName;
+
+      const costEl = document.createElement("span");
+      costEl.className = "char-skill-cost";
+      costEl.textContent = `${skill.cost} ${skill.resource === "mana" ? "MP" : "SP"} \u00B7 ${skill.cooldownMs / 1000}s`;
+
+      // Hotkey binding
+      const select = document.createElement("select");
+      select.className = "char-skill-slot";
+      select.add(new Option("\u2013", ""));
+      SKILL_HOTKEYS.forEach((key, slot) => select.add(new Option(`Key ${key}`, String(slot))));
+      const bound = loadout.skillBar.indexOf(skill.name);
+      select.value = bound >= 0 ? String(bound) : "";
+      select.addEventListener("change", () => this.bindSkill(skill.name, bound, select.value));
+
+      row.append(nameEl, costEl, select);
+      this.skillsList.appendChild(row);
+    }
+  }
+
   /* ------------------------------------------------------------------ */
   /*  NPCs list                                                          */
   /* ------------------------------------------------------------------ */
@@ -566,9 +754,11 @@ export class CharacterPanel {
     try {
       this.saveBtn.disabled = true;
       this.saveBtn.textContent = "Saving\u2026";
+      // Mana / stamina pools are server-owned
+      const { mana: _mana, maxMana: _maxMana, stamina: _stamina, maxStamina: _maxStamina, ...stats } = this.editedStats;
       await convex.mutation(api.profiles.updateStats, {
         id: this.profile._id as Id<"profiles">,
-        stats: this.editedStats,
+        stats,
       });
       // Update local profile reference
       this.profile.stats = { ...this.editedStats };
@@ -604,6 +794,155 @@ export class CharacterPanel {
     }
   }
 
+  /** Move a skill to another hotkey slot ("" unbinds it from `fromSlot`) */
+  private async bindSkill(skillName: string, fromSlot: number, toSlot: string) {
+    if (!this.profile) return;
+    const convex = getConvexClient();
+    try {
+      if (toSlot === "") {
+        if (fromSlot < 0) return;
+        await convex.mutation(api.skills.bindHotkey, {
+          profileId: this.profile._id as Id<"profiles">,
+          slot: fromSlot,
+        });
+      } else {
+        await convex.mutation(api.skills.bindHotkey, {
+          profileId: this.profile._id as Id<"profiles">,
+          slot: Number(toSlot),
+          skillName,
+        });
+      }
+    } catch (err) {
+      console.error("Failed to bind skill:", err);
+    }
+  }
+
+  private async learnSkill(itemName: string) {
+    if (!this.profile || this.consumingItem) return;
+    this.consumingItem = true;
+    const convex = getConvexClient();
+    try {
+      const result = await convex.mutation(api.skills.learnFromItem, {
+        profileId: this.profile._id as Id<"profiles">,
+        itemName,
+      });
+      if (!result.success) {
+        this.itemUseStatusEl.textContent = result.reason;
+        this.itemUseStatusEl.className = "char-item-use-status bad";
+      } else {
+        this.profile.items = result.items;
+        if (this.game) this.game.profile.items = [...result.items];
+        this.itemUseStatusEl.textContent = `Learned ${result.displayName}!`;
+        this.itemUseStatusEl.className = "char-item-use-status good";
+        this.renderItems(this.profile.items);
+        void this.loadItemMetaForInventory(this.profile.items);
+      }
+    } catch (err: any) {
+      this.itemUseStatusEl.textContent = err?.message ?? "Could not learn skill";
+      this.itemUseStatusEl.className = "char-item-use-status bad";
+    }
+    window.setTimeout(() => {
+      this.itemUseStatusEl.textContent = "";
+      this.itemUseStatusEl.className = "char-item-use-status";
+    }, 1800);
+    this.consumingItem = false;
+  }
+  private async learnRecipe(itemName: string) {
+    if (!this.profile || this.consumingItem) return;
+    this.consumingItem = true;
+    const convex = getConvexClient();
+    try {
+      const result = await convex.mutation(api.recipes.learnFromItem, {
+        profileId: this.profile._id as Id<"profiles">,
+        itemName,
+      });
+      if (!result.success) {
+        this.itemUseStatusEl.textContent = result.reason;
+        this.itemUseStatusEl.className = "char-item-use-status bad";
+      } else {
+        this.profile.items = result.items;
+        if (this.game) this.game.profile.items = [...result.items];
+        this.itemUseStatusEl.textContent = `Learned the recipe for ${result.displayName}!`;
+        this.itemUseStatusEl.className = "char-item-use-status good";
+        this.renderItems(this.profile.items);
+        void this.loadItemMetaForInventory(this.profile.items);
+      }
+    } catch (err: any) {
+      this.itemUseStatusEl.textContent = err?.message ?? "Could not learn recipe";
+      this.itemUseStatusEl.className = "char-item-use-status bad";
+    }
+    window.setTimeout(() => {
+      this.itemUseStatusEl.textContent = "";
+      this.itemUseStatusEl.className = "char-item-use-status";
+    }, 1800);
+    this.consumingItem = false;
+  }
+
+  private async equipItem(itemName: string) {
+    if (!this.profile || this.consumingItem) return;
+    this.consumingItem = true;
+    const displayName = (name: string) => this.itemDefsByName.get(name)?.displayName ?? name;
+    try {
+      const result = await getConvexClient().mutation(api.mechanics.equipment.equip, {
+        profileId: this.profile._id as Id<"profiles">,
+        itemName,
+      });
+      if (!result.success) {
+        this.showItemStatus(result.reason, "bad");
+      } else {
+        const swapped = result.unequipped ? ` (took off ${displayName(result.unequipped)})` : "";
+        this.applyEquipment(result.items, result.stats);
+        this.showItemStatus(`Equipped ${displayName(itemName)}${swapped}`, "good");
+      }
+    } catch (err: any) {
+      this.showItemStatus(err?.message ?? "Could not equip item", "bad");
+    }
+    this.consumingItem = false;
+  }
+
+  private async unequipSlot(slot: string) {
+    if (!this.profile || this.consumingItem) return;
+    this.consumingItem = true;
+    try {
+      const result = await getConvexClient().mutation(api.mechanics.equipment.unequip, {
+        profileId: this.profile._id as Id<"profiles">,
+        slot,
+      });
+      if (!result.success) {
+        this.showItemStatus(result.reason, "bad");
+      } else {
+        this.applyEquipment(result.items, result.stats);
+        this.showItemStatus(`Took off ${this.itemDefsByName.get(result.unequipped)?.displayName ?? result.unequipped}`, "good");
+      }
+    } catch (err: any) {
+      this.showItemStatus(err?.message ?? "Could not unequip item", "bad");
+    }
+    this.consumingItem = false;
+  }
+
+  /** Inventory and stats after putting gear on or taking it off (max HP can change) */
+  private applyEquipment(items: ProfileData["items"], stats: ProfileData["stats"]) {
+    if (!this.profile) return;
+    this.profile.items = items;
+    this.profile.stats = stats;
+    if (this.game) {
+      this.game.profile.items = [...items];
+      this.game.profile.stats = { ...stats };
+    }
+    this.renderStats(this.profile.stats);
+    this.renderItems(this.profile.items);
+    void this.loadItemMetaForInventory(this.profile.items);
+  }
+
+  private showItemStatus(text: string, tone: "good" | "bad") {
+    this.itemUseStatusEl.textContent = text;
+    this.itemUseStatusEl.className = `char-item-use-status ${tone}`;
+    window.setTimeout(() => {
+      this.itemUseStatusEl.textContent = "";
+      this.itemUseStatusEl.className = "char-item-use-status";
+    }, 1800);
+  }
+
   private async consumeItem(itemName: string) {
     if (!this.profile || this.consumingItem) return;
     this.consumingItem = true;
@@ -621,10 +960,12 @@ export class CharacterPanel {
         this.game.profile.stats = { ...result.stats };
       }
 
-      const sign = result.hpDelta > 0 ? "+" : "";
-      this.itemUseStatusEl.textContent = `${result.displayName}: ${sign}${result.hpDelta} HP (${result.hp}/${result.maxHp})`;
+      const effects: string[] = result.effects ?? [];
+      const hpText = result.hpDelta ? `${result.hpDelta > 0 ? "+" : ""}${result.hpDelta} HP (${result.hp}/${result.maxHp})` : "";
+      this.itemUseStatusEl.textContent =
+        `${result.displayName}: ${[hpText, ...effects].filter(Boolean).join(", ")}`;
       this.itemUseStatusEl.className =
-        `char-item-use-status ${result.hpDelta > 0 ? "good" : "bad"}`;
+        `char-item-use-status ${result.hpDelta >= 0 ? "good" : "bad"}`;
       this.renderStats(this.profile.stats);
       this.renderItems(this.profile.items);
       void this.loadItemMetaForInventory(this.profile.items);
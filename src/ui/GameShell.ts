@@ -12,6 +12,7 @@ import { SpriteEditorPanel } from "../sprited/SpriteEditorPanel.ts";
 import { CharacterPanel } from "./CharacterPanel.ts";
 import { NpcEditorPanel } from "./NpcEditorPanel.ts";
 import { ItemEditorPanel } from "./ItemEditorPanel.ts";
+import { RecipeEditorPanel } from "./RecipeEditorPanel.ts";
 import { QuestEditorPanel } from "./QuestEditorPanel.ts";
 import type { AppMode, ProfileData } from "../engine/types.ts";
 import "./GameShell.css";
@@ -32,6 +33,7 @@ export class GameShell {
   private spriteEditor!: SpriteEditorPanel;
   private npcEditor!: NpcEditorPanel;
   private itemEditor!: ItemEditorPanel;
+  private recipeEditor!: RecipeEditorPanel;
   private questEditor!: QuestEditorPanel;
   private characterPanel!: CharacterPanel;
 
@@ -75,6 +77,9 @@ export class GameShell {
         onTravel: (mapName) => {
           game.changeMap(mapName, "start1");
         },
+        onRenamed: (oldName, newName) => {
+          if (game.currentMapName === oldName) game.adoptRenamedMap(newName);
+        },
         getCurrentMap: () => game.currentMapName,
         getProfileId: () => this.profile._id,
         isAdmin,
@@ -116,6 +121,10 @@ export class GameShell {
       profileId: isGuest ? undefined : (this.profile._id as string),
       isGuest,
       getMapName: () => this.game?.currentMapName,
+      skills: game.skills,
+      onHpChange: (hp, maxHp) => {
+        game.profile.stats = { ...game.profile.stats, hp, maxHp };
+      },
     });
     this.el.appendChild(this.hud.el);
 
@@ -148,6 +157,11 @@ export class GameShell {
       this.itemEditor.setGame(game);
       this.el.appendChild(this.itemEditor.el);
 
+      // Recipe editor panel (recipe-edit mode only)
+      this.recipeEditor = new RecipeEditorPanel();
+      this.recipeEditor.setGame(game);
+      this.el.appendChild(this.recipeEditor.el);
+
       // Quest editor panel (quest-edit mode only)
       this.questEditor = new QuestEditorPanel();
       this.questEditor.setGame(game);
@@ -176,6 +190,7 @@ export class GameShell {
     this.spriteEditor?.toggle(this.mode === "sprite-edit");
     this.npcEditor?.toggle(this.mode === "npc-edit");
     this.itemEditor?.toggle(this.mode === "item-edit");
+    this.recipeEditor?.toggle(this.mode === "recipe-edit");
     this.questEditor?.toggle(this.mode === "quest-edit");
     this.characterPanel?.toggle(this.mode === "play");
   }
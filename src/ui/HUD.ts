@@ -1,7 +1,9 @@
 /**
- * HUD overlay – shows the current mode label.
+ * HUD overlay – shows the current mode label, active quests and (in play
+ * mode) the skill bar with mana / stamina and the player's status effects.
  */
 import type { AppMode } from "../engine/types.ts";
+import { SKILL_HOTKEYS, type SkillController, type SkillLoadout } from "../engine/SkillController.ts";
 import { getConvexClient } from "../lib/convexClient.ts";
 import { api } from "../../convex/_generated/api";
 import "./HUD.css";
@@ -29,8 +31,25 @@ type HUDOptions = {
   profileId?: string;
   isGuest?: boolean;
   getMapName?: () => string | undefined;
+  skills?: SkillController;
+  /** Server HP changes the client didn't cause (damage / heal over time) */
+  onHpChange?: (hp: number, maxHp: number) => void;
 };
 
+/** Mirrors mechanics/statusEffects.getActive */
+type ActiveStatusEffect = {
+  type: string;
+  label: string;
+  icon: string;
+  harmful: boolean;
+  value: number;
+  stacks: number;
+  expiresAt: number;
+};
+
+/** How often the skill bar redraws cooldowns and regenerating pools */
+const SKILL_BAR_REFRESH_MS = 250;
+
 export class HUD {
   readonly el: HTMLElement;
   private label: HTMLElement;
@@ -44,6 +63,17 @@ export class HUD {
   private questsUnsub: (() => void) | null = null;
   private activeQuests: ActiveQuestRow[] = [];
   private questsCollapsed = false;
+  private skills: SkillController | null = null;
+  private skillBarEl: HTMLElement | null = null;
+  private skillSlotsEl: HTMLElement | null = null;
+  private manaFillEl: HTMLElement | null = null;
+  private staminaFillEl: HTMLElement | null = null;
+  private loadout: SkillLoadout | null = null;
+  private loadoutUnsub: (() => void) | null = null;
+  private skillBarTimer: number | null = null;
+  private effectsEl: HTMLElement | null = null;
+  private statusEffects: ActiveStatusEffect[] = [];
+  private statusUnsub: (() => void) | null = null;
 
   constructor(mode: AppMode, options?: HUDOptions) {
     this.el = document.createElement("div");
@@ -103,10 +133,171 @@ export class HUD {
       this.setQuestsCollapsed(false);
       this.subscribeQuests();
     }
+
+    if (options?.skills && !options.isGuest) {
+      this.skills = options.skills;
+      this.buildSkillBar();
+      this.setMode(mode);
+      this.subscribeStatusEffects(options.onHpChange);
+    }
   }
 
   setMode(mode: AppMode) {
     this.label.textContent = `${mode.toUpperCase()} MODE`;
+    if (this.skillBarEl) this.skillBarEl.style.display = mode === "play" ? "" : "none";
+  }
+
+  // ---------------------------------------------------------------------------
+  // Skill bar
+  // ---------------------------------------------------------------------------
+
+  private buildSkillBar() {
+    const bar = document.createElement("div");
+    bar.className = "hud-skillbar";
+
+    this.effectsEl = document.createElement("div");
+    this.effectsEl.className = "hud-effects";
+    bar.appendChild(this.effectsEl);
+
+    const pools = document.createElement("div");
+    pools.className = "hud-skill-pools";
+    this.manaFillEl = this.buildPool(pools, "hud-skill-pool-mana");
+    this.staminaFillEl = this.buildPool(pools, "hud-skill-pool-stamina");
+    bar.appendChild(pools);
+
+    this.skillSlotsEl = document.createElement("div");
+    this.skillSlotsEl.className = "hud-skill-slots";
+    bar.appendChild(this.skillSlotsEl);
+
+    this.skillBarEl = bar;
+    this.el.appendChild(bar);
+
+    this.loadoutUnsub = this.skills!.onChange((loadout) => {
+      this.loadout = loadout;
+      this.renderSkillSlots();
+      this.refreshSkillBar();
+    });
+    this.skillBarTimer = window.setInterval(() => this.refreshSkillBar(), SKILL_BAR_REFRESH_MS);
+  }
+
+  private buildPool(parent: HTMLElement, className: string): HTMLElement {
+    const pool = document.createElement("div");
+    pool.className = `hud-skill-pool ${className}`;
+    const fill = document.createElement("div");
+    fill.className = "hud-skill-pool-fill";
+    pool.appendChild(fill);
+    const text = document.createElement("span");
+    text.className = "hud-skill-pool-text";
+    pool.appendChild(text);
+    parent.appendChild(pool);
+    return fill;
+  }
+
+  private renderSkillSlots() {
+    if (!this.skillSlotsEl) return;
+    this.skillSlotsEl.innerHTML = "";
+    const bar = this.loadout?.skillBar ?? SKILL_HOTKEYS.map(() => "");
+    bar.forEach((name, slot) => {
+      const skill = this.loadout?.skills.find((s) => s.name === name);
+      const btn = document.createElement("button");
+      btn.className = "hud-skill-slot";
+      btn.type = "button";
+      btn.disabled = !skill;
+      btn.title = skill
+        ? `${skill.displayName} — ${skill.cost} ${skill.resource}\n${skill.description}`
+        : "Empty slot";
+
+      const key = document.createElement("span");
+      key.className = "hud-skill-key";
+      key.textContent = SKILL_HOTKEYS[slot] ?? "";
+      btn.appendChild(key);
+
+      const label = document.createElement("span");
+      label.className = "hud-skill-name";
+      label.textContent = skill?.displayName ?? "";
+      btn.appendChild(label);
+
+      const cooldown = document.createElement("div");
+      cooldown.className = "hud-skill-cooldown";
+      btn.appendChild(cooldown);
+
+      btn.addEventListener("click", () => void this.skills?.castSlot(slot));
+      this.skillSlotsEl!.appendChild(btn);
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Status effects
+  // ---------------------------------------------------------------------------
+
+  private subscribeStatusEffects(onHpChange?: (hp: number, maxHp: number) => void) {
+    if (!this.profileId) return;
+    this.statusUnsub = getConvexClient().onUpdate(
+      api.mechanics.statusEffects.getActive,
+      { profileId: this.profileId as any },
+      (active) => {
+        this.statusEffects = (active?.effects ?? []) as ActiveStatusEffect[];
+        if (active) onHpChange?.(active.hp, active.maxHp);
+        this.renderStatusEffects();
+      },
+    );
+  }
+
+  /** Icons with stack counts and seconds left; redrawn with the skill bar */
+  private renderStatusEffects() {
+    if (!this.effectsEl) return;
+    const now = Date.now();
+    this.effectsEl.innerHTML = "";
+    for (const effect of this.statusEffects) {
+      const secondsLeft = Math.ceil((effect.expiresAt - now) / 1000);
+      if (secondsLeft <= 0) continue;
+      const chip = document.createElement("div");
+      chip.className = `hud-effect ${effect.harmful ? "hud-effect-harmful" : "hud-effect-helpful"}`;
+      chip.title = `${effect.label}${effect.stacks > 1 ? ` ×${effect.stacks}` : ""}`;
+      const icon = document.createElement("span");
+      icon.className = "hud-effect-icon";
+      icon.textContent = effect.icon;
+      chip.appendChild(icon);
+      if (effect.stacks > 1) {
+        const stacks = document.createElement("span");
+        stacks.className = "hud-effect-stacks";
+        stacks.textContent = String(effect.stacks);
+        chip.appendChild(stacks);
+      }
+      const timer = document.createElement("span");
+      timer.className = "hud-effect-timer";
+      timer.textContent = `${secondsLeft}s`;
+      chip.appendChild(timer);
+      this.effectsEl.appendChild(chip);
+    }
+  }
+
+  /** Redraw cooldown overlays, the regenerating pools and effect timers */
+  private refreshSkillBar() {
+    if (!this.skills || !this.skillSlotsEl) return;
+    this.renderStatusEffects();
+    const now = Date.now();
+    const pools = this.skills.resourcesAt(now);
+    this.setPool(this.manaFillEl, pools?.mana ?? 0, pools?.maxMana ?? 0, "MP");
+    this.setPool(this.staminaFillEl, pools?.stamina ?? 0, pools?.maxStamina ?? 0, "SP");
+
+    const slots = this.skillSlotsEl.children;
+    (this.loadout?.skillBar ?? []).forEach((name, slot) => {
+      const skill = this.loadout?.skills.find((s) => s.name === name);
+      const btn = slots[slot] as HTMLElement | undefined;
+      if (!skill || !btn) return;
+      const remaining = Math.max(0, skill.readyAt - now);
+      const pct = skill.cooldownMs > 0 ? Math.min(100, (remaining / skill.cooldownMs) * 100) : 0;
+      (btn.querySelector(".hud-skill-cooldown") as HTMLElement).style.height = `${pct}%`;
+      btn.classList.toggle("hud-skill-slot-unaffordable", !!pools && pools[skill.resource] < skill.cost);
+    });
+  }
+
+  private setPool(fill: HTMLElement | null, value: number, max: number, label: string) {
+    if (!fill) return;
+    fill.style.width = `${max > 0 ? Math.max(0, Math.min(100, (value / max) * 100)) : 0}%`;
+    const text = fill.nextElementSibling as HTMLElement | null;
+    if (text) text.textContent = `${label} ${Math.floor(value)}/${max}`;
   }
 
   private subscribeQuests() {
@@ -260,6 +451,9 @@ export class HUD {
   hide() { this.el.style.display = "none"; }
   destroy() {
     this.questsUnsub?.();
+    this.loadoutUnsub?.();
+    this.statusUnsub?.();
+    if (this.skillBarTimer != null) window.clearInterval(this.skillBarTimer);
     this.el.remove();
   }
 }
@@ -867,12 +867,17 @@ export class ItemEditorPanel {
     this.effectsAddRow.innerHTML = "";
     const typeIn = document.createElement("input");
     typeIn.type = "text";
-    typeIn.placeholder = "Effect type\u2026";
+    typeIn.placeholder = "Effect type (poison, regen, strength\u2026)";
     typeIn.style.flex = "1";
     const valueIn = document.createElement("input");
     valueIn.type = "number";
     valueIn.placeholder = "Val";
     valueIn.style.width = "50px";
+    const durationIn = document.createElement("input");
+    durationIn.type = "number";
+    durationIn.placeholder = "Secs";
+    durationIn.title = "Duration in seconds (status effects)";
+    durationIn.style.width = "50px";
     const descIn = document.createElement("input");
     descIn.type = "text";
     descIn.placeholder = "Description\u2026";
@@ -887,14 +892,16 @@ export class ItemEditorPanel {
       this.currentItem.effects.push({
         type,
         value: parseFloat(valueIn.value) || undefined,
+        duration: parseFloat(durationIn.value) || undefined,
         description: descIn.value.trim() || undefined,
       });
       typeIn.value = "";
       valueIn.value = "";
+      durationIn.value = "";
       descIn.value = "";
       this.renderEffects();
     });
-    this.effectsAddRow.append(typeIn, valueIn, descIn, addBtn);
+    this.effectsAddRow.append(typeIn, valueIn, durationIn, descIn, addBtn);
   }
 
   private renderEffects() {
@@ -913,6 +920,7 @@ export class ItemEditorPanel {
       row.className = "item-editor-effect-row";
       row.innerHTML = `<span class="item-editor-effect-type">${e.type}</span>`;
       if (e.value != null) row.innerHTML += `<span class="item-editor-effect-value">${e.value}</span>`;
+      if (e.duration != null) row.innerHTML += `<span class="item-editor-effect-value">${e.duration}s</span>`;
       if (e.description) row.innerHTML += `<span class="item-editor-effect-desc">${e.description}</span>`;
       const rm = document.createElement("button");
       rm.className = "item-editor-effect-remove";
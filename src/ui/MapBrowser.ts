@@ -4,7 +4,7 @@
 import { getConvexClient } from "../lib/convexClient.ts";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
-import { MAP_BROWSER_TILESET_OPTIONS } from "../config/tilesheet-config.ts";
+import { MAP_BROWSER_TILESET_OPTIONS, TILESHEET_CONFIGS } from "../config/tilesheet-config.ts";
 import { MUSIC_OPTIONS } from "../config/music-config.ts";
 import "./MapBrowser.css";
 
@@ -13,6 +13,8 @@ const TILESET_OPTIONS = MAP_BROWSER_TILESET_OPTIONS;
 
 export interface MapBrowserCallbacks {
   onTravel: (mapName: string) => void;
+  /** Called after a map is renamed (so the game can adopt the new name) */
+  onRenamed?: (oldName: string, newName: string) => void;
   getCurrentMap: () => string;
   getProfileId: () => string;
   isAdmin: boolean;
@@ -233,6 +235,60 @@ export class MapBrowser {
           info.appendChild(typeWrap);
         }
 
+        // Rename (owners; system maps superusers only)
+        if ((m.ownedByCurrentUser || this.callbacks.isAdmin) && (!isSystemMap || this.callbacks.isAdmin)) {
+          const renameBtn = document.createElement("button");
+          renameBtn.className = "map-card-travel";
+          renameBtn.textContent = "Rename";
+          renameBtn.style.width = "auto";
+          renameBtn.style.padding = "8px 10px";
+          renameBtn.style.marginTop = "6px";
+          renameBtn.style.marginRight = "6px";
+          renameBtn.addEventListener("click", async (e) => {
+            e.stopPropagation();
+            const newName = prompt(`Rename map "${m.name}" to:`, m.name)?.trim();
+            if (!newName || newName === m.name) return;
+            renameBtn.disabled = true;
+            try {
+              const convex = getConvexClient();
+              await convex.mutation(api.maps.rename, {
+                profileId: this.callbacks.getProfileId() as Id<"profiles">,
+                name: m.name,
+                newName,
+              });
+              this.callbacks.onRenamed?.(m.name, newName);
+              await this.refresh();
+            } catch (err: any) {
+              console.warn("rename map failed:", err);
+              alert(`Rename failed: ${err.message || err}`);
+              renameBtn.disabled = false;
+            }
+          });
+          info.appendChild(renameBtn);
+        }
+
+        // Export to Tiled (owners and superusers)
+        if (m.ownedByCurrentUser || this.callbacks.isAdmin) {
+          const exportBtn = document.createElement("button");
+          exportBtn.className = "map-card-travel";
+          exportBtn.textContent = "Export .tmj";
+          exportBtn.style.width = "auto";
+          exportBtn.style.padding = "8px 10px";
+          exportBtn.style.marginTop = "6px";
+          exportBtn.addEventListener("click", async (e) => {
+            e.stopPropagation();
+            exportBtn.disabled = true;
+            try {
+              await this.exportTiled(m.name);
+            } catch (err: any) {
+              console.warn("Tiled export failed:", err);
+              alert(`Export failed: ${err.message || err}`);
+            }
+            exportBtn.disabled = false;
+          });
+          info.appendChild(exportBtn);
+        }
+
         // Travel button
         const travelBtn = document.createElement("button");
         travelBtn.className = "map-card-travel";
@@ -346,6 +402,77 @@ export class MapBrowser {
     tsLabel.appendChild(tsSelect);
     tsLabel.appendChild(tileSizeEl);
 
+    // Optional Tiled import — when a file is picked, size and tileset come from it
+    const tiledLabel = document.createElement("label");
+    tiledLabel.className = "full-width";
+    tiledLabel.textContent = "Import from Tiled (.tmj / .tmx, optional)";
+    const tiledInput = document.createElement("input");
+    tiledInput.type = "file";
+    tiledInput.accept = ".tmj,.tmx,.json";
+    tiledInput.addEventListener("change", () => {
+      const file = tiledInput.files?.[0];
+      const fromFile = !!file;
+      widthInput.disabled = fromFile;
+      heightInput.disabled = fromFile;
+      tsSelect.disabled = fromFile;
+      genSelect.disabled = fromFile;
+      if (file && !nameInput.value.trim()) {
+        nameInput.value = file.name.replace(/\.(tmj|tmx|json)$/i, "");
+      }
+    });
+    tiledLabel.appendChild(tiledInput);
+
+    // Optional procedural generation — fills the new map with a dungeon,
+    // caves or overworld instead of leaving it empty
+    const genLabel = document.createElement("label");
+    genLabel.className = "full-width";
+    genLabel.textContent = "Generate";
+    const genSelect = document.createElement("select");
+    genSelect.innerHTML = `
+      <option value="">(Empty map)</option>
+      <option value="bsp">Dungeon (BSP rooms)</option>
+      <option value="caves">Caves (cellular automata)</option>
+      <option value="overworld">Overworld (noise)</option>`;
+    genLabel.appendChild(genSelect);
+
+    const genField = (text: string, placeholder: string, fullWidth = false) => {
+      const label = document.createElement("label");
+      if (fullWidth) label.className = "full-width";
+      label.textContent = text;
+      const input = document.createElement("input");
+      input.type = "text";
+      input.placeholder = placeholder;
+      label.appendChild(input);
+      return { label, input };
+    };
+    const seedField = genField("Seed (same seed → same map)", "any text", true);
+    seedField.input.value = Math.random().toString(36).slice(2, 10);
+    const paletteFields = {
+      floor: genField("Floor tiles", "e.g. 12, 13"),
+      wall: genField("Wall / rock tiles", "e.g. 40"),
+      water: genField("Water tiles (overworld)", "optional"),
+      shore: genField("Shore tiles (overworld)", "optional"),
+      tree: genField("Tree tiles (overworld)", "optional"),
+      decor: genField("Decoration tiles", "optional"),
+      overlay: genField("Wall top / canopy tiles", "optional", true),
+    };
+    const entryField = genField("Entry portal leads to", "(this map) — map or map:spawn");
+    const exitField = genField("Exit portal leads to", "(this map) — map or map:spawn");
+    const genFields = [
+      seedField.label,
+      ...Object.values(paletteFields).map((f) => f.label),
+      entryField.label,
+      exitField.label,
+    ];
+    const updateGenFields = () => {
+      for (const f of genFields) f.style.display = genSelect.value ? "" : "none";
+    };
+    updateGenFields();
+    genSelect.addEventListener("change", () => {
+      updateGenFields();
+      tiledInput.disabled = !!genSelect.value;
+    });
+
     // Music
     const musicLabel = document.createElement("label");
     musicLabel.className = "full-width";
@@ -413,6 +540,84 @@ export class MapBrowser {
       createBtn.disabled = true;
       createBtn.textContent = "Creating...";
 
+      const tiledFile = tiledInput.files?.[0];
+      if (tiledFile) {
+        try {
+          const convex = getConvexClient();
+          const result = await convex.mutation(api.maps.importTiled, {
+            profileId: this.callbacks.getProfileId() as Id<"profiles">,
+            name,
+            format: /\.tmx$/i.test(tiledFile.name) ? "tmx" : "tmj",
+            source: await tiledFile.text(),
+            musicUrl: musicSelect.value || undefined,
+            combatEnabled: combatCheck.checked,
+            mapType: mapTypeSelect.value as "public" | "private",
+          });
+          for (const w of result.warnings) console.warn(`[Tiled import] ${w}`);
+          this.createFormVisible = false;
+          await this.refresh();
+        } catch (err: any) {
+          statusEl.className = "map-create-status full-width error";
+          statusEl.textContent = err.message || String(err);
+          createBtn.disabled = false;
+          createBtn.textContent = "Create Map";
+        }
+        return;
+      }
+
+      if (genSelect.value) {
+        try {
+          const tileList = (input: HTMLInputElement) =>
+            input.value.split(",").map((s) => s.trim()).filter(Boolean).map(Number);
+          const palette: Record<string, number[]> = {};
+          for (const [role, field] of Object.entries(paletteFields)) {
+            const tiles = tileList(field.input);
+            if (tiles.some((t) => !Number.isInteger(t))) throw new Error(`${role} tiles must be comma-separated tile numbers`);
+            if (tiles.length > 0) palette[role] = tiles;
+          }
+          const target = (input: HTMLInputElement) => {
+            const text = input.value.trim();
+            if (!text) return undefined;
+            const [targetMap, targetSpawn] = text.split(":");
+            return { targetMap: targetMap.trim(), targetSpawn: targetSpawn?.trim() || "start1" };
+          };
+          const entry = target(entryField.input);
+          const exit = target(exitField.input);
+
+          const convex = getConvexClient();
+          const result = await convex.mutation(api.maps.generate, {
+            profileId: this.callbacks.getProfileId() as Id<"profiles">,
+            name,
+            generator: {
+              algorithm: genSelect.value as "bsp" | "caves" | "overworld",
+              seed: seedField.input.value.trim() || name,
+              width: parseInt(widthInput.value) || 30,
+              height: parseInt(heightInput.value) || 30,
+              tileWidth,
+              tileHeight,
+              tilesetUrl,
+              tilesetPxW,
+              tilesetPxH,
+              palette: palette as { floor: number[]; wall: number[] },
+              ...(entry ? { entry } : {}),
+              ...(exit ? { exit } : {}),
+            },
+            musicUrl: musicSelect.value || undefined,
+            combatEnabled: combatCheck.checked,
+            mapType: mapTypeSelect.value as "public" | "private",
+          });
+          console.log(`[Generate] ${result.summary}`);
+          this.createFormVisible = false;
+          await this.refresh();
+        } catch (err: any) {
+          statusEl.className = "map-create-status full-width error";
+          statusEl.textContent = err.message || String(err);
+          createBtn.disabled = false;
+          createBtn.textContent = "Create Map";
+        }
+        return;
+      }
+
       try {
         const convex = getConvexClient();
         await convex.mutation(api.maps.create, {
@@ -450,6 +655,9 @@ export class MapBrowser {
       nameLabel,
       widthLabel, heightLabel,
       tsLabel,
+      tiledLabel,
+      genLabel,
+      ...genFields,
       musicLabel,
       combatLabel,
       mapTypeLabel,
@@ -459,4 +667,25 @@ export class MapBrowser {
 
     return form;
   }
+
+  /** Download a map as a Tiled .tmj file. */
+  private async exportTiled(mapName: string) {
+    const convex = getConvexClient();
+    const text = await convex.query(api.maps.exportTiled, {
+      name: mapName,
+      format: "tmj",
+      tilesetDims: TILESHEET_CONFIGS.map((ts) => ({
+        url: ts.url,
+        imageWidth: ts.imageWidth,
+        imageHeight: ts.imageHeight,
+      })),
+    });
+    const blob = new Blob([text], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${mapName}.tmj`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
 }
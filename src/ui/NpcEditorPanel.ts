@@ -14,6 +14,12 @@ import type { Game } from "../engine/Game.ts";
 import type { Id } from "../../convex/_generated/dataModel";
 import { NPC_SPRITE_SHEETS } from "../config/spritesheet-config.ts";
 import { SOUND_FILES } from "../config/audio-config.ts";
+import {
+  formatLootEntries,
+  parseLootEntries,
+  previewLoot,
+  type LootTable,
+} from "../mechanics/LootRoller.ts";
 import "./NpcEditor.css";
 
 // ---------------------------------------------------------------------------
@@ -52,6 +58,20 @@ interface NpcStats {
   level: number;
 }
 
+interface AttackEffect {
+  type: string;
+  value?: number;
+  duration?: number;
+  chance?: number;
+}
+
+interface ShopListing {
+  itemDefName: string;
+  price?: number;
+  stock?: number;
+  restockMs?: number;
+}
+
 interface NpcProfileData {
   _id?: string;
   name: string;
@@ -70,6 +90,15 @@ interface NpcProfileData {
   stats?: NpcStats;
   items?: { name: string; quantity: number }[];
   tags?: string[];
+  /** skillDefs names this NPC uses in combat */
+  skills?: string[];
+  /** Status effects its hits can inflict */
+  attackEffects?: AttackEffect[];
+  /** What it sells when tagged "shopkeeper" */
+  shopStock?: ShopListing[];
+  shopCurrency?: string;
+  /** What it drops when defeated */
+  lootTable?: LootTable;
   aggression?: "low" | "medium" | "high";
   npcType?: "procedural" | "ai";
   aiEnabled?: boolean;
@@ -145,6 +174,65 @@ function visibilityLabel(v?: "public" | "private" | "system"): string {
   return "system";
 }
 
+/** "poison:2:10:0.5" → type, value, seconds, chance (all but the type optional) */
+function parseAttackEffects(text: string): AttackEffect[] {
+  return text.split(",").map((s) => s.trim()).filter(Boolean).map((entry) => {
+    const [type, value, duration, chance] = entry.split(":").map((s) => s.trim());
+    const num = (raw: string | undefined) => (raw ? Number(raw) : NaN);
+    return {
+      type,
+      ...(Number.isFinite(num(value)) ? { value: num(value) } : {}),
+      ...(Number.isFinite(num(duration)) ? { duration: num(duration) } : {}),
+      ...(Number.isFinite(num(chance)) ? { chance: num(chance) } : {}),
+    };
+  });
+}
+
+function formatAttackEffects(effects: AttackEffect[]): string {
+  return effects
+    .map((e) => [e.type, e.value ?? "", e.duration ?? "", e.chance ?? ""].join(":").replace(/:+$/, ""))
+    .join(", ");
+}
+
+/** "health-potion:25:5:300" → item, price, stock, restock seconds (all but the item optional) */
+function parseShopStock(text: string): ShopListing[] {
+  return text.split(",").map((s) => s.trim()).filter(Boolean).map((entry) => {
+    const [itemDefName, price, stock, restockSec] = entry.split(":").map((s) => s.trim());
+    const num = (raw: string | undefined) => (raw ? Number(raw) : NaN);
+    return {
+      itemDefName,
+      ...(Number.isFinite(num(price)) ? { price: num(price) } : {}),
+      ...(Number.isFinite(num(stock)) ? { stock: num(stock) } : {}),
+      ...(Number.isFinite(num(restockSec)) ? { restockMs: num(restockSec) * 1000 } : {}),
+    };
+  });
+}
+
+function formatShopStock(listings: ShopListing[]): string {
+  return listings
+    .map((l) => [
+      l.itemDefName,
+      l.price ?? "",
+      l.stock ?? "",
+      l.restockMs != null ? l.restockMs / 1000 : "",
+    ].join(":").replace(/:+$/, ""))
+    .join(", ");
+}
+
+/** "rare:20, epic:5" → rarity weight overrides */
+function parseRarityWeights(text: string): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const entry of text.split(",").map((s) => s.trim()).filter(Boolean)) {
+    const [rarity, weight] = entry.split(":").map((s) => s.trim());
+    if (rarity && Number.isFinite(Number(weight))) weights[rarity] = Number(weight);
+  }
+  return weights;
+}
+
+function formatRarityWeights(weights: Record<string, number>): string {
+  return Object.entries(weights).map(([rarity, weight]) => `${rarity}:${weight}`).join(", ");
+}
+
 // ---------------------------------------------------------------------------
 // Panel
 // ---------------------------------------------------------------------------
@@ -187,6 +275,18 @@ export class NpcEditorPanel {
   private personalityArea!: HTMLTextAreaElement;
   private dialogueStyleInput!: HTMLInputElement;
   private factionInput!: HTMLInputElement;
+  private skillsInput!: HTMLInputElement;
+  private attackEffectsInput!: HTMLInputElement;
+  private shopStockInput!: HTMLInputElement;
+  private shopCurrencyInput!: HTMLInputElement;
+  private lootEntriesInput!: HTMLInputElement;
+  private lootRollsInput!: HTMLInputElement;
+  private lootNothingInput!: HTMLInputElement;
+  private lootRarityInput!: HTMLInputElement;
+  private lootDropToSelect!: HTMLSelectElement;
+  private lootPreviewEl!: HTMLElement;
+  /** itemDefs name → rarity, for previewing rarity-weighted loot */
+  private itemRarities = new Map<string, string>();
   private visibilitySelect!: HTMLSelectElement;
   private npcTypeSelect!: HTMLSelectElement;
   private aiEnabledCheck!: HTMLInputElement;
@@ -1179,6 +1279,10 @@ export class NpcEditorPanel {
       this.statInputs[key] = this.addNumberField(statsGrid, labels[key], String(DEFAULT_STATS[key]));
     }
     statsSec.appendChild(statsGrid);
+    this.skillsInput = this.addTextField(statsSec, "Skills", "Comma-separated skill names, e.g. fireball, mend");
+    this.attackEffectsInput = this.addTextField(
+      statsSec, "On-hit Effects", "type:value:seconds:chance, e.g. poison:2:10:0.5, slow",
+    );
     rightCol.appendChild(statsSec);
 
     const itemsSec = this.makeSection("Inventory");
@@ -1187,8 +1291,36 @@ export class NpcEditorPanel {
     this.itemsAddRow = document.createElement("div");
     this.itemsAddRow.className = "npc-editor-add-row";
     itemsSec.append(this.itemsList, this.itemsAddRow);
+    this.shopStockInput = this.addTextField(
+      itemsSec, "Shop Stock", "item:price:stock:restockSeconds, e.g. health-potion:25:5:300 (needs the shopkeeper tag)",
+    );
+    this.shopCurrencyInput = this.addTextField(itemsSec, "Shop Currency", "gold");
     rightCol.appendChild(itemsSec);
 
+    const lootSec = this.makeSection("Loot");
+    this.lootEntriesInput = this.addTextField(
+      lootSec, "Drops", "item:weight:min-max, e.g. wolf-pelt:!:1-2, bone:50:1-3, ruby (! = always, no weight = by rarity)",
+    );
+    const lootRow = document.createElement("div");
+    lootRow.className = "npc-editor-field-row";
+    this.lootRollsInput = this.addNumberField(lootRow, "Rolls", "1");
+    this.lootNothingInput = this.addNumberField(lootRow, "Nothing Weight", "0");
+    this.lootDropToSelect = this.addSelect(lootRow, "Loot Goes To", [
+      { value: "world", label: "The ground" },
+      { value: "killer", label: "The killer" },
+    ]);
+    lootSec.appendChild(lootRow);
+    this.lootRarityInput = this.addTextField(
+      lootSec, "Rarity Weights", "rarity:weight overrides, e.g. rare:20, epic:5 (defaults: common 100 \u2026 legendary 1)",
+    );
+    this.lootPreviewEl = document.createElement("div");
+    this.lootPreviewEl.className = "npc-editor-empty";
+    lootSec.appendChild(this.lootPreviewEl);
+    for (const input of [this.lootEntriesInput, this.lootRollsInput, this.lootNothingInput, this.lootRarityInput]) {
+      input.addEventListener("input", () => this.renderLootPreview());
+    }
+    rightCol.appendChild(lootSec);
+
     const relSec = this.makeSection("Relationships");
     this.relList = document.createElement("div");
     this.relList.className = "npc-editor-rel-list";
@@ -1317,6 +1449,35 @@ export class NpcEditorPanel {
     this.visibilitySelect.value = canSelect ? selected : "private";
   }
 
+  // =========================================================================
+  // Loot table
+  // =========================================================================
+
+  /** The Loot section as a table, or undefined when it lists no drops */
+  private collectLootTable(): LootTable | undefined {
+    const entries = parseLootEntries(this.lootEntriesInput.value);
+    if (entries.length === 0) return undefined;
+    const rolls = parseInt(this.lootRollsInput.value);
+    const nothingWeight = Number(this.lootNothingInput.value) || 0;
+    const rarityWeights = parseRarityWeights(this.lootRarityInput.value);
+    return {
+      entries,
+      ...(Number.isFinite(rolls) && rolls !== 1 ? { rolls: Math.max(0, rolls) } : {}),
+      ...(nothingWeight > 0 ? { nothingWeight } : {}),
+      ...(Object.keys(rarityWeights).length > 0 ? { rarityWeights } : {}),
+      ...(this.lootDropToSelect.value === "killer" ? { dropTo: "killer" as const } : {}),
+    };
+  }
+
+  private renderLootPreview() {
+    const table = this.collectLootTable();
+    this.lootPreviewEl.textContent = table
+      ? "Per kill: " + previewLoot(table, (name) => this.itemRarities.get(name))
+        .map((d) => `${d.item} \u00D7${d.quantity} (${d.chance})`)
+        .join(", ")
+      : "Drops nothing";
+  }
+
   // =========================================================================
   // Dynamic lists: Items
   // =========================================================================
@@ -1492,8 +1653,12 @@ export class NpcEditorPanel {
   private async loadData() {
     const convex = getConvexClient();
     try {
-      const instances = await convex.query(api.npcProfiles.listInstances, {});
+      const [instances, itemDefs] = await Promise.all([
+        convex.query(api.npcProfiles.listInstances, {}),
+        convex.query(api.items.list, {}),
+      ]);
       this.instances = instances as NpcInstance[];
+      this.itemRarities = new Map(itemDefs.map((d) => [d.name, d.rarity]));
       this.renderList();
     } catch (err) {
       console.error("Failed to load NPC instances:", err);
@@ -1643,8 +1808,18 @@ export class NpcEditorPanel {
     for (const key of Object.keys(this.statInputs)) {
       this.statInputs[key].value = String((stats as unknown as Record<string, number>)[key] ?? 0);
     }
+    this.skillsInput.value = (p.skills ?? []).join(", ");
+    this.attackEffectsInput.value = formatAttackEffects(p.attackEffects ?? []);
+    this.shopStockInput.value = formatShopStock(p.shopStock ?? []);
+    this.shopCurrencyInput.value = p.shopCurrency ?? "";
+    this.lootEntriesInput.value = formatLootEntries(p.lootTable?.entries ?? []);
+    this.lootRollsInput.value = String(p.lootTable?.rolls ?? 1);
+    this.lootNothingInput.value = String(p.lootTable?.nothingWeight ?? 0);
+    this.lootRarityInput.value = formatRarityWeights(p.lootTable?.rarityWeights ?? {});
+    this.lootDropToSelect.value = p.lootTable?.dropTo ?? "world";
 
     this.renderItems();
+    this.renderLootPreview();
     this.renderTags();
     this.renderRelationships();
     void this.loadConversationHistory();
@@ -1714,6 +1889,11 @@ export class NpcEditorPanel {
       spd: parseInt(this.statInputs.spd.value) || 0,
       level: parseInt(this.statInputs.level.value) || 1,
     };
+    p.skills = this.skillsInput.value.split(",").map((s) => s.trim()).filter(Boolean);
+    p.attackEffects = parseAttackEffects(this.attackEffectsInput.value);
+    p.shopStock = parseShopStock(this.shopStockInput.value);
+    p.shopCurrency = this.shopCurrencyInput.value.trim() || undefined;
+    p.lootTable = this.collectLootTable();
 
     return p;
   }
@@ -1768,6 +1948,11 @@ export class NpcEditorPanel {
         stats: profile.stats,
         items: profile.items?.length ? profile.items : undefined,
         tags: profile.tags?.length ? profile.tags : undefined,
+        skills: profile.skills?.length ? profile.skills : undefined,
+        attackEffects: profile.attackEffects?.length ? profile.attackEffects : undefined,
+        shopStock: profile.shopStock?.length ? profile.shopStock : undefined,
+        shopCurrency: profile.shopCurrency,
+        lootTable: profile.lootTable,
         aggression: profile.aggression,
         npcType: profile.npcType,
         aiEnabled: profile.aiEnabled,
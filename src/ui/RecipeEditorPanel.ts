@@ -0,0 +1,672 @@
+/**
+ * Recipe Editor — create and edit crafting recipes: the items they take and
+ * make, the station they need, level requirement, craft time, and the item
+ * that teaches them.
+ *
+ * All data is stored in the `recipes` table in Convex. Shares its look with
+ * the Item Editor.
+ */
+import { getConvexClient } from "../lib/convexClient.ts";
+import { api } from "../../convex/_generated/api";
+import type { Game } from "../engine/Game.ts";
+import type { Id } from "../../convex/_generated/dataModel";
+import "./ItemEditor.css";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface RecipeLine {
+  itemDefName: string;
+  quantity: number;
+}
+
+interface RecipeDef {
+  _id?: string;
+  name: string;
+  displayName: string;
+  description: string;
+  inputs: RecipeLine[];
+  outputs: RecipeLine[];
+  station?: string;
+  levelRequirement?: number;
+  craftTimeMs?: number;
+  learnItem?: string;
+}
+
+interface ItemOption {
+  name: string;
+  displayName: string;
+  type: string;
+}
+
+const NO_STATION_LABEL = "No station";
+
+// ---------------------------------------------------------------------------
+// Panel
+// ---------------------------------------------------------------------------
+
+export class RecipeEditorPanel {
+  readonly el: HTMLElement;
+  private game: Game | null = null;
+
+  // Data
+  private allRecipes: RecipeDef[] = [];
+  private filteredRecipes: RecipeDef[] = [];
+  private items: ItemOption[] = [];
+  private stationKinds: string[] = [];
+  private selected: RecipeDef | null = null;
+  private currentRecipe: RecipeDef | null = null;
+
+  // DOM — sidebar
+  private listEl!: HTMLElement;
+  private searchInput!: HTMLInputElement;
+
+  // DOM — main
+  private headerEl!: HTMLElement;
+  private headerName!: HTMLElement;
+  private headerMeta!: HTMLElement;
+  private bodyEl!: HTMLElement;
+  private statusEl!: HTMLElement;
+
+  // Form inputs
+  private nameInput!: HTMLInputElement;
+  private displayNameInput!: HTMLInputElement;
+  private descArea!: HTMLTextAreaElement;
+  private stationInput!: HTMLInputElement;
+  private levelReqInput!: HTMLInputElement;
+  private craftTimeInput!: HTMLInputElement;
+  private learnItemSelect!: HTMLSelectElement;
+
+  // Dynamic lists
+  private inputsList!: HTMLElement;
+  private outputsList!: HTMLElement;
+
+  constructor() {
+    this.el = document.createElement("div");
+    this.el.className = "item-editor";
+    this.el.style.display = "none";
+
+    this.el.appendChild(this.buildSidebar());
+    this.el.appendChild(this.buildMain());
+  }
+
+  // =========================================================================
+  // Public API
+  // =========================================================================
+
+  setGame(game: Game) { this.game = game; }
+
+  toggle(visible: boolean) {
+    this.el.style.display = visible ? "" : "none";
+    if (visible) this.loadData();
+  }
+
+  show() { this.toggle(true); }
+  hide() { this.toggle(false); }
+  destroy() { this.el.remove(); }
+
+  // =========================================================================
+  // BUILD: Sidebar
+  // =========================================================================
+
+  private buildSidebar(): HTMLElement {
+    const sidebar = document.createElement("div");
+    sidebar.className = "item-editor-sidebar";
+
+    const title = document.createElement("h3");
+    title.className = "item-editor-title";
+    title.textContent = "Recipe Editor";
+    sidebar.appendChild(title);
+
+    const bar = document.createElement("div");
+    bar.className = "item-editor-actions-bar";
+
+    this.searchInput = document.createElement("input");
+    this.searchInput.className = "item-editor-search";
+    this.searchInput.type = "text";
+    this.searchInput.placeholder = "Search recipes\u2026";
+    this.searchInput.addEventListener("input", () => this.applyFilter());
+
+    const newBtn = document.createElement("button");
+    newBtn.className = "item-editor-btn accent small";
+    newBtn.textContent = "+ New";
+    newBtn.addEventListener("click", () => this.createNew());
+
+    bar.append(this.searchInput, newBtn);
+    sidebar.appendChild(bar);
+
+    this.listEl = document.createElement("div");
+    this.listEl.className = "item-editor-list";
+    sidebar.appendChild(this.listEl);
+
+    return sidebar;
+  }
+
+  // =========================================================================
+  // BUILD: Main area
+  // =========================================================================
+
+  private buildMain(): HTMLElement {
+    const mainEl = document.createElement("div");
+    mainEl.className = "item-editor-main";
+
+    this.headerEl = document.createElement("div");
+    this.headerEl.className = "item-editor-header";
+    this.headerEl.style.display = "none";
+
+    const headerIcon = document.createElement("div");
+    headerIcon.className = "item-editor-header-icon";
+    headerIcon.textContent = "\u2692\uFE0F";
+
+    const headerInfo = document.createElement("div");
+    headerInfo.className = "item-editor-header-info";
+    this.headerName = document.createElement("div");
+    this.headerName.className = "item-editor-header-name";
+    this.headerMeta = document.createElement("div");
+    this.headerMeta.className = "item-editor-header-meta";
+    headerInfo.append(this.headerName, this.headerMeta);
+
+    const actions = document.createElement("div");
+    actions.className = "item-editor-header-actions";
+
+    const saveBtn = document.createElement("button");
+    saveBtn.className = "item-editor-btn accent";
+    saveBtn.textContent = "Save";
+    saveBtn.addEventListener("click", () => this.save());
+
+    const deleteBtn = document.createElement("button");
+    deleteBtn.className = "item-editor-btn danger";
+    deleteBtn.textContent = "Delete";
+    deleteBtn.addEventListener("click", () => this.deleteRecipe());
+
+    this.statusEl = document.createElement("span");
+    this.statusEl.className = "item-editor-status";
+
+    actions.append(this.statusEl, saveBtn, deleteBtn);
+    this.headerEl.append(headerIcon, headerInfo, actions);
+    mainEl.appendChild(this.headerEl);
+
+    this.bodyEl = document.createElement("div");
+    this.bodyEl.className = "item-editor-body";
+    mainEl.appendChild(this.bodyEl);
+
+    this.showEmptyState();
+    return mainEl;
+  }
+
+  private showEmptyState() {
+    this.headerEl.style.display = "none";
+    this.bodyEl.innerHTML = "";
+    const empty = document.createElement("div");
+    empty.className = "item-editor-empty-state";
+    empty.innerHTML = `<div class="item-editor-empty-icon">\u2692\uFE0F</div>
+      <div>Select a recipe or create a new one</div>
+      <div style="font-size:12px;color:var(--text-muted)">Recipes turn materials into items at crafting stations.<br>Stations are toggleable sprites with a crafting station kind (Sprites editor).</div>`;
+    this.bodyEl.appendChild(empty);
+  }
+
+  // =========================================================================
+  // BUILD: Form
+  // =========================================================================
+
+  private buildForm() {
+    this.bodyEl.innerHTML = "";
+
+    const leftCol = document.createElement("div");
+    leftCol.className = "item-editor-col";
+    const rightCol = document.createElement("div");
+    rightCol.className = "item-editor-col";
+
+    // ---- Left: Identity + Requirements ----
+
+    const identitySec = this.makeSection("Identity");
+    this.nameInput = this.addTextField(identitySec, "Name (unique slug)", "e.g. iron-sword");
+    this.displayNameInput = this.addTextField(identitySec, "Display Name", "e.g. Iron Sword");
+    this.descArea = this.addTextArea(identitySec, "Description", "What this recipe makes\u2026", 3);
+    leftCol.appendChild(identitySec);
+
+    const reqSec = this.makeSection("Requirements");
+    this.stationInput = this.addTextField(reqSec, `Station (blank = ${NO_STATION_LABEL.toLowerCase()})`, "e.g. forge");
+    this.stationInput.setAttribute("list", "recipe-station-options");
+    const stationList = document.createElement("datalist");
+    stationList.id = "recipe-station-options";
+    for (const kind of this.stationKinds) {
+      const opt = document.createElement("option");
+      opt.value = kind;
+      stationList.appendChild(opt);
+    }
+    reqSec.appendChild(stationList);
+
+    const reqRow = document.createElement("div");
+    reqRow.className = "item-editor-field-row";
+    this.levelReqInput = this.addNumberField(reqRow, "Level Req.", "0");
+    this.craftTimeInput = this.addNumberField(reqRow, "Craft Time (secs)", "0");
+    reqSec.appendChild(reqRow);
+
+    this.learnItemSelect = this.addSelect(reqSec, "Learned From (blank = known to all)", [
+      { value: "", label: "Known to all" },
+      ...this.items.map((i) => ({ value: i.name, label: `${i.displayName} (${i.name})` })),
+    ]);
+    leftCol.appendChild(reqSec);
+
+    // ---- Right: Inputs + Outputs ----
+
+    const inputsSec = this.makeSection("Inputs (consumed)");
+    this.inputsList = document.createElement("div");
+    this.inputsList.className = "item-editor-effects-list";
+    inputsSec.append(this.inputsList, this.buildLineAddRow("inputs"));
+    rightCol.appendChild(inputsSec);
+
+    const outputsSec = this.makeSection("Outputs (produced)");
+    this.outputsList = document.createElement("div");
+    this.outputsList.className = "item-editor-effects-list";
+    outputsSec.append(this.outputsList, this.buildLineAddRow("outputs"));
+    rightCol.appendChild(outputsSec);
+
+    this.bodyEl.append(leftCol, rightCol);
+  }
+
+  // =========================================================================
+  // Helpers: form builders
+  // =========================================================================
+
+  private makeSection(title: string): HTMLElement {
+    const sec = document.createElement("div");
+    sec.className = "item-editor-section";
+    const h = document.createElement("h4");
+    h.className = "item-editor-section-title";
+    h.textContent = title;
+    sec.appendChild(h);
+    return sec;
+  }
+
+  private addTextField(parent: HTMLElement, label: string, placeholder: string): HTMLInputElement {
+    const field = document.createElement("div");
+    field.className = "item-editor-field";
+    const lbl = document.createElement("label");
+    lbl.textContent = label;
+    const input = document.createElement("input");
+    input.type = "text";
+    input.placeholder = placeholder;
+    field.append(lbl, input);
+    parent.appendChild(field);
+    return input;
+  }
+
+  private addTextArea(parent: HTMLElement, label: string, placeholder: string, rows: number): HTMLTextAreaElement {
+    const field = document.createElement("div");
+    field.className = "item-editor-field";
+    const lbl = document.createElement("label");
+    lbl.textContent = label;
+    const ta = document.createElement("textarea");
+    ta.placeholder = placeholder;
+    ta.rows = rows;
+    field.append(lbl, ta);
+    parent.appendChild(field);
+    return ta;
+  }
+
+  private addNumberField(parent: HTMLElement, label: string, defaultVal: string): HTMLInputElement {
+    const field = document.createElement("div");
+    field.className = "item-editor-field";
+    const lbl = document.createElement("label");
+    lbl.textContent = label;
+    const input = document.createElement("input");
+    input.type = "number";
+    input.min = "0";
+    input.value = defaultVal;
+    field.append(lbl, input);
+    parent.appendChild(field);
+    return input;
+  }
+
+  private addSelect(parent: HTMLElement, label: string, options: { value: string; label: string }[]): HTMLSelectElement {
+    const field = document.createElement("div");
+    field.className = "item-editor-field";
+    const lbl = document.createElement("label");
+    lbl.textContent = label;
+    const sel = document.createElement("select");
+    for (const opt of options) {
+      const o = document.createElement("option");
+      o.value = opt.value;
+      o.textContent = opt.label;
+      sel.appendChild(o);
+    }
+    field.append(lbl, sel);
+    parent.appendChild(field);
+    return sel;
+  }
+
+  // =========================================================================
+  // Dynamic lists: Inputs / Outputs
+  // =========================================================================
+
+  private buildLineAddRow(which: "inputs" | "outputs"): HTMLElement {
+    const row = document.createElement("div");
+    row.className = "item-editor-add-row";
+    const itemSel = document.createElement("select");
+    itemSel.style.flex = "1";
+    for (const item of this.items) {
+      const o = document.createElement("option");
+      o.value = item.name;
+      o.textContent = `${item.displayName} (${item.type})`;
+      itemSel.appendChild(o);
+    }
+    // Materials are what most recipes take
+    if (which === "inputs") {
+      const material = this.items.find((i) => i.type === "material");
+      if (material) itemSel.value = material.name;
+    }
+    const qtyIn = document.createElement("input");
+    qtyIn.type = "number";
+    qtyIn.min = "1";
+    qtyIn.value = "1";
+    qtyIn.style.width = "50px";
+    const addBtn = document.createElement("button");
+    addBtn.className = "item-editor-btn small";
+    addBtn.textContent = "+";
+    addBtn.addEventListener("click", () => {
+      const quantity = parseInt(qtyIn.value) || 0;
+      if (!itemSel.value || quantity <= 0 || !this.currentRecipe) return;
+      const lines = this.currentRecipe[which];
+      const existing = lines.find((l) => l.itemDefName === itemSel.value);
+      if (existing) existing.quantity += quantity;
+      else lines.push({ itemDefName: itemSel.value, quantity });
+      qtyIn.value = "1";
+      this.renderLines(which);
+    });
+    row.append(itemSel, qtyIn, addBtn);
+    return row;
+  }
+
+  private renderLines(which: "inputs" | "outputs") {
+    const listEl = which === "inputs" ? this.inputsList : this.outputsList;
+    listEl.innerHTML = "";
+    const lines = this.currentRecipe?.[which] ?? [];
+    if (lines.length === 0) {
+      const empty = document.createElement("span");
+      empty.className = "item-editor-empty";
+      empty.textContent = which === "inputs" ? "No inputs" : "No outputs";
+      listEl.appendChild(empty);
+      return;
+    }
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const row = document.createElement("div");
+      row.className = "item-editor-effect-row";
+      const name = document.createElement("span");
+      name.className = "item-editor-effect-type";
+      name.textContent = this.items.find((it) => it.name === line.itemDefName)?.displayName ?? line.itemDefName;
+      const qty = document.createElement("span");
+      qty.className = "item-editor-effect-value";
+      qty.textContent = `\u00D7${line.quantity}`;
+      const rm = document.createElement("button");
+      rm.className = "item-editor-effect-remove";
+      rm.textContent = "\u00D7";
+      const idx = i;
+      rm.addEventListener("click", () => {
+        this.currentRecipe?.[which].splice(idx, 1);
+        this.renderLines(which);
+      });
+      row.append(name, qty, rm);
+      listEl.appendChild(row);
+    }
+  }
+
+  // =========================================================================
+  // DATA: Load recipes (and the items / stations they refer to) from Convex
+  // =========================================================================
+
+  private async loadData() {
+    const convex = getConvexClient();
+    try {
+      const [recipes, items, spriteDefs] = await Promise.all([
+        convex.query(api.recipes.list, {}),
+        convex.query(api.items.list, {}),
+        convex.query(api.spriteDefinitions.list, {}),
+      ]);
+      this.allRecipes = recipes as RecipeDef[];
+      this.items = (items as ItemOption[])
+        .map((i) => ({ name: i.name, displayName: i.displayName, type: i.type }))
+        .sort((a, b) => a.displayName.localeCompare(b.displayName));
+      this.stationKinds = [...new Set(
+        (spriteDefs as { craftingStation?: string }[])
+          .map((d) => d.craftingStation)
+          .filter((k): k is string => !!k),
+      )].sort();
+      this.applyFilter();
+    } catch (err) {
+      console.error("Failed to load recipes:", err);
+    }
+  }
+
+  private applyFilter() {
+    const q = this.searchInput.value.trim().toLowerCase();
+    this.filteredRecipes = q
+      ? this.allRecipes.filter((r) =>
+          r.name.toLowerCase().includes(q) ||
+          r.displayName.toLowerCase().includes(q) ||
+          (r.station ?? "").includes(q)
+        )
+      : [...this.allRecipes];
+    this.filteredRecipes.sort((a, b) =>
+      (a.station ?? "").localeCompare(b.station ?? "") || a.name.localeCompare(b.name));
+    this.renderList();
+  }
+
+  // =========================================================================
+  // RENDER: Recipe list in sidebar
+  // =========================================================================
+
+  private renderList() {
+    this.listEl.innerHTML = "";
+
+    if (this.filteredRecipes.length === 0) {
+      const empty = document.createElement("div");
+      empty.className = "item-editor-empty";
+      empty.textContent = this.allRecipes.length === 0
+        ? "No recipes yet. Click \"+ New\" to create one."
+        : "No recipes match your search.";
+      this.listEl.appendChild(empty);
+      return;
+    }
+
+    // Group by station
+    const byStation = new Map<string, RecipeDef[]>();
+    for (const recipe of this.filteredRecipes) {
+      const key = recipe.station ?? NO_STATION_LABEL;
+      const list = byStation.get(key) ?? [];
+      list.push(recipe);
+      byStation.set(key, list);
+    }
+
+    for (const [station, recipes] of byStation) {
+      const label = document.createElement("div");
+      label.className = "item-editor-section-label";
+      label.textContent = `${station.toUpperCase()} (${recipes.length})`;
+      this.listEl.appendChild(label);
+
+      for (const recipe of recipes) {
+        const isSelected = this.selected?.name === recipe.name;
+        const el = document.createElement("button");
+        el.className = `item-editor-list-item ${isSelected ? "active" : ""}`;
+
+        const info = document.createElement("div");
+        info.className = "item-editor-list-info";
+        const nameEl = document.createElement("div");
+        nameEl.className = "item-editor-list-name";
+        nameEl.textContent = recipe.displayName;
+        const subEl = document.createElement("div");
+        subEl.className = "item-editor-list-sub";
+        subEl.textContent = recipe.name;
+
+        info.append(nameEl, subEl);
+        el.appendChild(info);
+        el.addEventListener("click", () => this.selectRecipe(recipe));
+        this.listEl.appendChild(el);
+      }
+    }
+  }
+
+  // =========================================================================
+  // SELECT / CREATE
+  // =========================================================================
+
+  private showHeader(recipe: RecipeDef) {
+    this.headerEl.style.display = "";
+    this.headerName.textContent = recipe.displayName;
+    this.headerMeta.textContent = recipe._id
+      ? `${recipe.station ?? NO_STATION_LABEL.toLowerCase()} \u2022 ${recipe.name}`
+      : "Unsaved";
+  }
+
+  private selectRecipe(recipe: RecipeDef) {
+    this.selected = recipe;
+    this.currentRecipe = {
+      ...recipe,
+      inputs: recipe.inputs.map((l) => ({ ...l })),
+      outputs: recipe.outputs.map((l) => ({ ...l })),
+    };
+    this.showHeader(recipe);
+    this.buildForm();
+    this.populateForm();
+    this.renderList();
+    this.statusEl.textContent = "";
+  }
+
+  private createNew() {
+    this.selected = null;
+    this.currentRecipe = {
+      name: "",
+      displayName: "New Recipe",
+      description: "",
+      inputs: [],
+      outputs: [],
+    };
+    this.showHeader(this.currentRecipe);
+    this.buildForm();
+    this.populateForm();
+    this.renderList();
+    this.statusEl.textContent = "";
+    this.nameInput.focus();
+  }
+
+  // =========================================================================
+  // POPULATE / COLLECT form
+  // =========================================================================
+
+  private populateForm() {
+    const recipe = this.currentRecipe;
+    if (!recipe) return;
+
+    this.nameInput.value = recipe.name;
+    this.displayNameInput.value = recipe.displayName;
+    this.descArea.value = recipe.description;
+    this.stationInput.value = recipe.station ?? "";
+    this.levelReqInput.value = String(recipe.levelRequirement ?? 0);
+    this.craftTimeInput.value = String((recipe.craftTimeMs ?? 0) / 1000);
+    this.learnItemSelect.value = recipe.learnItem ?? "";
+
+    this.renderLines("inputs");
+    this.renderLines("outputs");
+  }
+
+  private collectForm(): RecipeDef | null {
+    if (!this.currentRecipe) return null;
+    const recipe = this.currentRecipe;
+
+    recipe.name = this.nameInput.value.trim().toLowerCase().replace(/\s+/g, "-");
+    recipe.displayName = this.displayNameInput.value.trim() || "Unnamed Recipe";
+    recipe.description = this.descArea.value.trim();
+    recipe.station = this.stationInput.value.trim().toLowerCase() || undefined;
+    recipe.levelRequirement = parseInt(this.levelReqInput.value) || undefined;
+    recipe.craftTimeMs = Math.round((parseFloat(this.craftTimeInput.value) || 0) * 1000) || undefined;
+    recipe.learnItem = this.learnItemSelect.value || undefined;
+
+    return recipe;
+  }
+
+  // =========================================================================
+  // SAVE
+  // =========================================================================
+
+  private async save() {
+    const recipe = this.collectForm();
+    if (!recipe || !this.game) return;
+
+    if (!recipe.name) {
+      this.statusEl.textContent = "Name is required";
+      this.statusEl.style.color = "var(--danger)";
+      this.nameInput.focus();
+      return;
+    }
+    if (recipe.outputs.length === 0) {
+      this.statusEl.textContent = "Add at least one output";
+      this.statusEl.style.color = "var(--danger)";
+      return;
+    }
+
+    const convex = getConvexClient();
+    const adminId = this.game.profile._id as Id<"profiles">;
+
+    try {
+      this.statusEl.textContent = "Saving\u2026";
+      this.statusEl.style.color = "var(--text-muted)";
+
+      await convex.mutation(api.recipes.save, {
+        profileId: adminId,
+        name: recipe.name,
+        displayName: recipe.displayName,
+        description: recipe.description,
+        inputs: recipe.inputs,
+        outputs: recipe.outputs,
+        station: recipe.station,
+        levelRequirement: recipe.levelRequirement,
+        craftTimeMs: recipe.craftTimeMs,
+        learnItem: recipe.learnItem,
+      });
+
+      this.statusEl.textContent = "Saved!";
+      this.statusEl.style.color = "var(--success)";
+
+      // Refresh
+      await this.loadData();
+      const refreshed = this.allRecipes.find((r) => r.name === recipe.name);
+      if (refreshed) this.selectRecipe(refreshed);
+      this.statusEl.textContent = "Saved!";
+      this.statusEl.style.color = "var(--success)";
+
+      setTimeout(() => {
+        if (this.statusEl.textContent === "Saved!") this.statusEl.textContent = "";
+      }, 2000);
+    } catch (err: any) {
+      console.error("Failed to save recipe:", err);
+      this.statusEl.textContent = err?.message || "Error saving";
+      this.statusEl.style.color = "var(--danger)";
+    }
+  }
+
+  // =========================================================================
+  // DELETE
+  // =========================================================================
+
+  private async deleteRecipe() {
+    if (!this.currentRecipe?._id || !this.game) return;
+    const convex = getConvexClient();
+    const adminId = this.game.profile._id as Id<"profiles">;
+
+    try {
+      await convex.mutation(api.recipes.remove, {
+        profileId: adminId,
+        id: this.currentRecipe._id as Id<"recipes">,
+      });
+      this.currentRecipe = null;
+      this.selected = null;
+      this.showEmptyState();
+      await this.loadData();
+    } catch (err) {
+      console.error("Failed to delete recipe:", err);
+    }
+  }
+}